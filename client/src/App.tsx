@@ -24,6 +24,8 @@ import Settings from "@/pages/settings";
 import RolesPage from "@/pages/roles";
 import UsersPage from "@/pages/users";
 import ServiceStatus from "@/pages/ServiceStatus";
+import ServiceQuote from "@/pages/ServiceQuote";
+import WarrantyVerify from "@/pages/WarrantyVerify";
 import Setup from "@/pages/setup";
 import AdminDashboard from "@/pages/admin-dashboard";
 import AdminSaaS from "@/pages/admin-saas";
@@ -31,6 +33,11 @@ import ClientOnboarding from "@/pages/client-onboarding";
 import TopUpPage from "@/pages/topup";
 import Warranty from "@/pages/warranty";
 import FinancePage from "@/pages/finance";
+import Receivables from "@/pages/receivables";
+import Payables from "@/pages/payables";
+import StockOpname from "@/pages/stock-opname";
+import Shifts from "@/pages/shifts";
+import AuditLogPage from "@/pages/audit-log";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -93,11 +100,16 @@ function Router() {
           <Route path="/finance" component={FinancePage} />
           <Route path="/admin/finance" component={FinancePage} />
           <Route path="/financial" component={Financial} />
+          <Route path="/receivables" component={Receivables} />
+          <Route path="/payables" component={Payables} />
+          <Route path="/shifts" component={Shifts} />
+          <Route path="/audit-log" component={AuditLogPage} />
           <Route path="/finance-new" component={FinanceNew} />
           <Route path="/users" component={UsersPage} />
           <Route path="/roles" component={RolesPage} />
           <Route path="/reports" component={Reports} />
           <Route path="/stock-movements" component={StockMovements} />
+          <Route path="/stock-opname" component={StockOpname} />
           <Route path="/settings" component={Settings} />
           <Route path="/warranty" component={Warranty} />
           <Route path="/admin-dashboard" component={AdminDashboard} />
@@ -105,6 +117,8 @@ function Router() {
         </>
       )}
       <Route path="/service-status" component={ServiceStatus} />
+      <Route path="/service-quote/:token" component={ServiceQuote} />
+      <Route path="/warranty/:token" component={WarrantyVerify} />
       <Route path="/topup" component={TopUpPage} />
       <Route path="/setup" component={Setup} />
       <Route path="/client-onboarding" component={ClientOnboarding} />
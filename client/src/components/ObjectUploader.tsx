@@ -77,7 +77,7 @@ export function ObjectUploader({
 
   return (
     <div>
-      <Button onClick={() => setShowModal(true)} className={buttonClassName}>
+      <Button type="button" onClick={() => setShowModal(true)} className={buttonClassName}>
         {children}
       </Button>
 
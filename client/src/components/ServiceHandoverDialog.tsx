@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, PackageCheck } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ServiceIntakeChecklist, ServiceTicket } from '@shared/schema';
+import { DEVICE_CONDITION_LABELS, findMissingAccessories } from '@shared/service-intake';
+
+interface ServiceHandoverDialogProps {
+  ticket: ServiceTicket | null;
+  onOpenChange: (open: boolean) => void;
+  onHandedOver?: (ticket: ServiceTicket) => void;
+}
+
+export default function ServiceHandoverDialog({ ticket, onOpenChange, onHandedOver }: ServiceHandoverDialogProps) {
+  const intake = (ticket?.intakeChecklist ?? null) as ServiceIntakeChecklist | null;
+  const intakeAccessories = (intake?.accessories ?? []).filter((item) => item.present);
+  const [returned, setReturned] = useState<Record<string, boolean>>({});
+  const [conditionConfirmed, setConditionConfirmed] = useState(false);
+  const [acceptMissing, setAcceptMissing] = useState(false);
+  const [note, setNote] = useState('');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setReturned({});
+    setConditionConfirmed(false);
+    setAcceptMissing(false);
+    setNote('');
+  }, [ticket?.id]);
+
+  const accessories = intakeAccessories.map((item) => ({ name: item.name, returned: !!returned[item.name] }));
+  const missing = findMissingAccessories(intake, { accessories });
+  const changedAreas = (intake?.condition ?? []).filter((item) => item.status !== 'good');
+
+  const handoverMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/service-tickets/${ticket!.id}/handover`, {
+      accessories,
+      conditionConfirmed,
+      acceptMissing,
+      note: note.trim() || undefined,
+    }),
+    onSuccess: (updated: ServiceTicket) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/service-board'] });
+      toast({ title: 'Sukses', description: 'Perangkat diserahkan ke pelanggan' });
+      onOpenChange(false);
+      onHandedOver?.(updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Gagal', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={!!ticket} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Serah Terima - {ticket?.ticketNumber}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Kelengkapan Dikembalikan</Label>
+            {intakeAccessories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Tidak ada kelengkapan yang dicatat saat masuk.</p>
+            ) : (
+              intakeAccessories.map((item, index) => (
+                <div key={item.name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`handover-accessory-${index}`}
+                    checked={!!returned[item.name]}
+                    onCheckedChange={(checked) => setReturned({ ...returned, [item.name]: checked === true })}
+                    data-testid={`checkbox-handover-accessory-${index}`}
+                  />
+                  <Label htmlFor={`handover-accessory-${index}`} className="text-sm font-normal">{item.name}</Label>
+                </div>
+              ))
+            )}
+          </div>
+
+          {changedAreas.length > 0 && (
+            <div className="space-y-1 text-sm">
+              <Label>Kondisi Saat Masuk</Label>
+              {changedAreas.map((item) => (
+                <div key={item.area} className="text-muted-foreground">
+                  {item.area}: {DEVICE_CONDITION_LABELS[item.status]}{item.note ? ` (${item.note})` : ''}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="handover-condition"
+              checked={conditionConfirmed}
+              onCheckedChange={(checked) => setConditionConfirmed(checked === true)}
+              data-testid="checkbox-handover-condition"
+            />
+            <Label htmlFor="handover-condition" className="text-sm font-normal">
+              Pelanggan sudah memeriksa kondisi perangkat sesuai tanda terima
+            </Label>
+          </div>
+
+          {missing.length > 0 && (
+            <div className="rounded-md border border-orange-300 bg-orange-50 p-3 space-y-2">
+              <p className="flex items-center gap-2 text-sm text-orange-800">
+                <AlertTriangle className="w-4 h-4" />
+                Belum kembali: {missing.join(', ')}
+              </p>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="handover-accept-missing"
+                  checked={acceptMissing}
+                  onCheckedChange={(checked) => setAcceptMissing(checked === true)}
+                />
+                <Label htmlFor="handover-accept-missing" className="text-sm font-normal">
+                  Tetap serahkan, pelanggan menyetujui
+                </Label>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="handover-note">Catatan</Label>
+            <Textarea
+              id="handover-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              data-testid="textarea-handover-note"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+            <Button
+              type="button"
+              onClick={() => handoverMutation.mutate()}
+              disabled={handoverMutation.isPending || !conditionConfirmed || (missing.length > 0 && !acceptMissing)}
+              data-testid="button-confirm-handover"
+            >
+              <PackageCheck className="w-4 h-4 mr-2" />
+              {handoverMutation.isPending ? 'Menyimpan...' : 'Serahkan'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Camera, Plus, X } from 'lucide-react';
+import { ObjectUploader } from '@/components/ObjectUploader';
+import { apiRequest } from '@/lib/queryClient';
+import type { ServiceIntakeChecklist } from '@shared/schema';
+import {
+  BACKUP_CONSENT_LABELS,
+  BACKUP_CONSENT_VALUES,
+  DEFAULT_INTAKE_ACCESSORIES,
+  DEVICE_CONDITION_AREAS,
+  DEVICE_CONDITION_LABELS,
+  DEVICE_CONDITION_VALUES,
+  POWER_ON_LABELS,
+  POWER_ON_VALUES,
+  type BackupConsent,
+  type DeviceCondition,
+  type PowerOnResult,
+} from '@shared/service-intake';
+
+export const createEmptyIntakeChecklist = (): ServiceIntakeChecklist => ({
+  accessories: DEFAULT_INTAKE_ACCESSORIES.map((name) => ({ name, present: false })),
+  condition: DEVICE_CONDITION_AREAS.map((area) => ({ area, status: 'good' })),
+  powerOn: 'not-tested',
+  passwordProvided: false,
+  passwordConsent: false,
+  backupConsent: 'no-backup',
+  photos: [],
+});
+
+interface ServiceIntakeChecklistFormProps {
+  value: ServiceIntakeChecklist;
+  onChange: (value: ServiceIntakeChecklist) => void;
+}
+
+export default function ServiceIntakeChecklistForm({ value, onChange }: ServiceIntakeChecklistFormProps) {
+  const [customAccessory, setCustomAccessory] = useState('');
+
+  const update = (changes: Partial<ServiceIntakeChecklist>) => onChange({ ...value, ...changes });
+
+  const addAccessory = () => {
+    const name = customAccessory.trim();
+    if (!name || value.accessories.some((item) => item.name.toLowerCase() === name.toLowerCase())) {
+      return;
+    }
+    update({ accessories: [...value.accessories, { name, present: true }] });
+    setCustomAccessory('');
+  };
+
+  const getUploadParameters = async () => {
+    const { uploadURL } = await apiRequest('POST', '/api/objects/upload');
+    return { method: 'PUT' as const, url: uploadURL };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label>Kelengkapan yang Diserahkan</Label>
+        <div className="grid grid-cols-2 gap-2">
+          {value.accessories.map((item, index) => (
+            <div key={item.name} className="flex items-center gap-2">
+              <Checkbox
+                id={`intake-accessory-${index}`}
+                checked={item.present}
+                onCheckedChange={(checked) => update({
+                  accessories: value.accessories.map((accessory, i) =>
+                    i === index ? { ...accessory, present: checked === true } : accessory
+                  ),
+                })}
+                data-testid={`checkbox-intake-accessory-${index}`}
+              />
+              <Label htmlFor={`intake-accessory-${index}`} className="text-sm font-normal">{item.name}</Label>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={customAccessory}
+            onChange={(e) => setCustomAccessory(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addAccessory();
+              }
+            }}
+            placeholder="Kelengkapan lain, misal: Stylus"
+            data-testid="input-intake-accessory"
+          />
+          <Button type="button" variant="outline" onClick={addAccessory} disabled={!customAccessory.trim()}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Kondisi Fisik</Label>
+        {value.condition.map((item, index) => (
+          <div key={item.area} className="grid grid-cols-[120px_140px_1fr] gap-2 items-center">
+            <span className="text-sm">{item.area}</span>
+            <Select
+              value={item.status}
+              onValueChange={(status: DeviceCondition) => update({
+                condition: value.condition.map((area, i) => i === index ? { ...area, status } : area),
+              })}
+            >
+              <SelectTrigger className="h-9" data-testid={`select-intake-condition-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEVICE_CONDITION_VALUES.map((status) => (
+                  <SelectItem key={status} value={status}>{DEVICE_CONDITION_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              className="h-9"
+              value={item.note ?? ''}
+              onChange={(e) => update({
+                condition: value.condition.map((area, i) => i === index ? { ...area, note: e.target.value || undefined } : area),
+              })}
+              placeholder="Keterangan"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Tes Nyala</Label>
+          <Select value={value.powerOn} onValueChange={(powerOn: PowerOnResult) => update({ powerOn })}>
+            <SelectTrigger data-testid="select-intake-power-on">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POWER_ON_VALUES.map((result) => (
+                <SelectItem key={result} value={result}>{POWER_ON_LABELS[result]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="intake-power-note">Catatan Tes</Label>
+          <Input
+            id="intake-power-note"
+            value={value.powerOnNote ?? ''}
+            onChange={(e) => update({ powerOnNote: e.target.value || undefined })}
+            placeholder="Misal: layar berkedip saat booting"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Persetujuan Pelanggan</Label>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="intake-password-provided"
+            checked={value.passwordProvided}
+            onCheckedChange={(checked) => update({ passwordProvided: checked === true })}
+          />
+          <Label htmlFor="intake-password-provided" className="text-sm font-normal">Password perangkat diberikan ke teknisi</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="intake-password-consent"
+            checked={value.passwordConsent}
+            onCheckedChange={(checked) => update({ passwordConsent: checked === true })}
+          />
+          <Label htmlFor="intake-password-consent" className="text-sm font-normal">Teknisi boleh membuka perangkat untuk pengujian</Label>
+        </div>
+        <Select value={value.backupConsent} onValueChange={(backupConsent: BackupConsent) => update({ backupConsent })}>
+          <SelectTrigger data-testid="select-intake-backup">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BACKUP_CONSENT_VALUES.map((consent) => (
+              <SelectItem key={consent} value={consent}>{BACKUP_CONSENT_LABELS[consent]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Foto Kondisi</Label>
+        {value.photos.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {value.photos.map((photo, index) => (
+              <Badge key={photo} variant="secondary" className="gap-1">
+                <Camera className="w-3 h-3" />
+                Foto {index + 1}
+                <button
+                  type="button"
+                  className="ml-1"
+                  onClick={() => update({ photos: value.photos.filter((item) => item !== photo) })}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <ObjectUploader
+          maxNumberOfFiles={10}
+          onGetUploadParameters={getUploadParameters}
+          onComplete={(result) => {
+            const uploaded = (result.successful ?? [])
+              .map((file) => file.uploadURL)
+              .filter((url): url is string => !!url);
+            update({ photos: [...value.photos, ...uploaded].slice(0, 10) });
+          }}
+          buttonClassName="h-9"
+        >
+          <Camera className="w-4 h-4 mr-2" />
+          Tambah Foto
+        </ObjectUploader>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="intake-notes">Catatan Lain</Label>
+        <Textarea
+          id="intake-notes"
+          value={value.notes ?? ''}
+          onChange={(e) => update({ notes: e.target.value || undefined })}
+          rows={2}
+          data-testid="textarea-intake-notes"
+        />
+      </div>
+    </div>
+  );
+}
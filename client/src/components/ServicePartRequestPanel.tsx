@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PackageSearch, X } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import type { Product, ServicePartRequest, Supplier } from '@shared/schema';
+
+type ServicePartRequestRow = ServicePartRequest & {
+  productName: string | null;
+  supplierName: string | null;
+  poNumber: string | null;
+};
+
+const MANUAL_PART = '__manual__';
+const DEFAULT_SUPPLIER = '__default__';
+
+const STATUS_BADGES: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Menunggu PO', variant: 'outline' },
+  ordered: { label: 'Dipesan', variant: 'secondary' },
+  received: { label: 'Diterima', variant: 'default' },
+  cancelled: { label: 'Dibatalkan', variant: 'destructive' },
+};
+
+interface ServicePartRequestPanelProps {
+  ticketId: string;
+  onRequested?: () => void;
+}
+
+export default function ServicePartRequestPanel({ ticketId, onRequested }: ServicePartRequestPanelProps) {
+  const [productId, setProductId] = useState('');
+  const [description, setDescription] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [supplierId, setSupplierId] = useState(DEFAULT_SUPPLIER);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: requests = [], isLoading } = useQuery<ServicePartRequestRow[]>({
+    queryKey: ['/api/service-tickets', ticketId, 'part-requests'],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ['/api/products'],
+  });
+
+  const { data: suppliers = [] } = useQuery<Supplier[]>({
+    queryKey: ['/api/suppliers'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/service-tickets', ticketId, 'part-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/service-tickets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/service-part-requests'] });
+  };
+
+  const isManual = productId === MANUAL_PART;
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/service-tickets/${ticketId}/part-requests`, {
+      productId: isManual ? undefined : productId,
+      description: isManual ? description.trim() : undefined,
+      quantity,
+      supplierId: supplierId === DEFAULT_SUPPLIER ? undefined : supplierId,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setProductId('');
+      setDescription('');
+      setQuantity(1);
+      setSupplierId(DEFAULT_SUPPLIER);
+      onRequested?.();
+      toast({ title: 'Sukses', description: 'Permintaan sparepart dicatat, tiket menunggu sparepart' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/service-part-requests/${id}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Sukses', description: 'Permintaan sparepart dibatalkan' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const canSubmit = (isManual ? description.trim().length > 0 : !!productId) && quantity > 0;
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center gap-2">
+        <PackageSearch className="w-4 h-4" />
+        <Label>Sparepart Belum Tersedia</Label>
+      </div>
+
+      {can('service_tickets_full') && (
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_80px_1.5fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger data-testid="select-part-request-product">
+                <SelectValue placeholder="Pilih produk" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MANUAL_PART}>Lainnya (tulis manual)</SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isManual && (
+              <Input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Misal: LCD 14 inch 30 pin"
+                data-testid="input-part-request-description"
+              />
+            )}
+          </div>
+          <Input
+            type="number"
+            min={1}
+            value={quantity}
+            onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+            data-testid="input-part-request-quantity"
+          />
+          <Select value={supplierId} onValueChange={setSupplierId}>
+            <SelectTrigger data-testid="select-part-request-supplier">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_SUPPLIER}>Supplier utama produk</SelectItem>
+              {suppliers.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            onClick={() => createMutation.mutate()}
+            disabled={!canSubmit || createMutation.isPending}
+            data-testid="button-create-part-request"
+          >
+            {createMutation.isPending ? 'Menyimpan...' : 'Minta'}
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Memuat permintaan...</p>
+      ) : requests.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Belum ada permintaan sparepart untuk tiket ini.</p>
+      ) : (
+        <div className="space-y-2">
+          {requests.map((request) => {
+            const badge = STATUS_BADGES[request.status] ?? STATUS_BADGES.pending;
+            return (
+              <div
+                key={request.id}
+                className="flex flex-wrap items-center justify-between gap-2 text-sm"
+                data-testid={`part-request-${request.id}`}
+              >
+                <div>
+                  <span className="font-medium">{request.productName || request.description}</span>
+                  <span className="text-muted-foreground"> x{request.quantity}</span>
+                  {request.supplierName && <span className="text-muted-foreground"> - {request.supplierName}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={badge.variant}>
+                    {badge.label}{request.poNumber ? ` ${request.poNumber}` : ''}
+                  </Badge>
+                  {request.status === 'pending' && can('service_tickets_full') && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => cancelMutation.mutate(request.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-part-request-${request.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
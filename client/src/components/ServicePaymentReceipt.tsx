@@ -28,6 +28,9 @@ interface ServicePaymentReceiptProps {
     actualCost?: string;
     partsCost?: string;
     laborCost?: string;
+    // PPN booked at completion; inclusive means it is already inside the costs above
+    taxAmount?: string;
+    taxInclusive?: boolean;
     status: string;
     createdAt: string;
     completedAt?: string;
@@ -125,6 +128,10 @@ export default function ServicePaymentReceipt({
     return Math.max(actualCost, partsCost + laborCost);
   };
 
+  const taxAmount = Number(serviceTicket.taxAmount || 0);
+  const taxAdded = taxAmount > 0 && serviceTicket.taxInclusive === false;
+  const totalPayment = getTotalCost() + (taxAdded ? taxAmount : 0);
+
   const generatePDF = async () => {
     setIsGenerating(true);
     try {
@@ -515,11 +522,20 @@ export default function ServicePaymentReceipt({
                       <span className="font-medium">{formatCurrency(serviceTicket.partsCost)}</span>
                     </div>
                   )}
+                  {taxAdded && (
+                    <div className="flex justify-between py-1">
+                      <span className="text-gray-700">PPN:</span>
+                      <span className="font-medium">{formatCurrency(taxAmount)}</span>
+                    </div>
+                  )}
                   <div className="border-t-2 border-gray-400 pt-2 mt-3">
                     <div className="flex justify-between py-2 bg-green-100 px-3 rounded font-bold text-base">
                       <span>TOTAL PEMBAYARAN:</span>
-                      <span className="text-green-700">{formatCurrency(getTotalCost())}</span>
+                      <span className="text-green-700">{formatCurrency(totalPayment)}</span>
                     </div>
+                    {taxAmount > 0 && !taxAdded && (
+                      <p className="text-right text-xs text-gray-600 mt-1">Sudah termasuk PPN {formatCurrency(taxAmount)}</p>
+                    )}
                     <p className="text-center text-xs text-gray-600 mt-2">** LUNAS **</p>
                   </div>
                 </div>
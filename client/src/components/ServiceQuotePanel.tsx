@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy, MessageCircle, Send } from 'lucide-react';
+import { ServicePartsSelector } from '@/components/service-parts-selector';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { formatDateWithTime } from '@shared/utils/timezone';
+import type { ServiceQuote } from '@shared/schema';
+
+type QuotePart = Parameters<typeof ServicePartsSelector>[0]['parts'][number];
+
+type StaffServiceQuote = ServiceQuote & {
+  items: Array<{ productName: string; quantity: number; totalPrice: string }>;
+  publicUrl: string;
+};
+
+const STATUS_BADGES: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  sent: { label: 'Menunggu Jawaban', variant: 'outline' },
+  approved: { label: 'Disetujui', variant: 'default' },
+  rejected: { label: 'Ditolak', variant: 'destructive' },
+  superseded: { label: 'Diganti', variant: 'secondary' },
+};
+
+const formatCurrency = (amount: string | number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(Number(amount));
+
+interface ServiceQuotePanelProps {
+  ticketId: string;
+  initialParts: QuotePart[];
+  initialLaborCost: string;
+}
+
+export default function ServiceQuotePanel({ ticketId, initialParts, initialLaborCost }: ServiceQuotePanelProps) {
+  const [parts, setParts] = useState<QuotePart[]>(initialParts);
+  const [laborCost, setLaborCost] = useState(initialLaborCost || '0');
+  const [notes, setNotes] = useState('');
+  const [validDays, setValidDays] = useState(7);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: quotes = [], isLoading } = useQuery<StaffServiceQuote[]>({
+    queryKey: ['/api/service-tickets', ticketId, 'quotes'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/service-tickets', ticketId, 'quotes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/service-tickets'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/service-tickets/${ticketId}/quotes`, {
+      items: parts.map((part) => ({
+        productId: part.productId,
+        quantity: part.quantity,
+        unitPrice: part.unitPrice,
+      })),
+      laborCost,
+      notes: notes.trim() || undefined,
+      validDays,
+    }),
+    onSuccess: (quote: StaffServiceQuote & { whatsappSent: boolean }) => {
+      invalidate();
+      setNotes('');
+      toast({
+        title: 'Penawaran dibuat',
+        description: quote.whatsappSent
+          ? 'Tautan persetujuan dikirim ke WhatsApp pelanggan'
+          : 'WhatsApp tidak terkirim, salin tautan untuk dikirim manual',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Gagal membuat penawaran', variant: 'destructive' });
+    },
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: (quoteId: string) => apiRequest('POST', `/api/service-quotes/${quoteId}/send`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: 'Sukses', description: 'Tautan penawaran dikirim ulang via WhatsApp' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Tautan disalin' });
+    } catch {
+      toast({ title: 'Gagal menyalin', description: url, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {can('service_tickets_full') && (
+        <div className="space-y-4 rounded-lg border p-4">
+          <ServicePartsSelector
+            parts={parts}
+            onPartsChange={setParts}
+            laborCost={parseFloat(laborCost || '0')}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-labor-cost">Biaya Jasa</Label>
+              <Input
+                id="quote-labor-cost"
+                type="number"
+                min={0}
+                value={laborCost}
+                onChange={(e) => setLaborCost(e.target.value)}
+                data-testid="input-quote-labor-cost"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-valid-days">Berlaku (hari)</Label>
+              <Input
+                id="quote-valid-days"
+                type="number"
+                min={1}
+                max={90}
+                value={validDays}
+                onChange={(e) => setValidDays(Math.min(90, Math.max(1, parseInt(e.target.value) || 1)))}
+                data-testid="input-quote-valid-days"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quote-notes">Catatan untuk Pelanggan</Label>
+            <Textarea
+              id="quote-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Contoh: LCD original, garansi 3 bulan"
+              rows={2}
+              data-testid="textarea-quote-notes"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || (parts.length === 0 && !(parseFloat(laborCost) > 0))}
+              data-testid="button-create-quote"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {createMutation.isPending ? 'Mengirim...' : 'Kirim Penawaran'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Memuat penawaran...</p>
+      ) : quotes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Belum ada penawaran untuk tiket ini.</p>
+      ) : (
+        <div className="space-y-3">
+          {quotes.map((quote) => {
+            const badge = STATUS_BADGES[quote.status] ?? STATUS_BADGES.sent;
+            return (
+              <div key={quote.id} className="rounded-lg border p-3 space-y-2" data-testid={`quote-${quote.id}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{quote.quoteNumber}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  <span className="font-semibold">{formatCurrency(quote.totalAmount)}</span>
+                </div>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <div>Dibuat {quote.createdAt ? formatDateWithTime(quote.createdAt) : '-'}</div>
+                  {quote.sentAt && <div>Terkirim via WhatsApp {formatDateWithTime(quote.sentAt)}</div>}
+                  {quote.respondedAt && <div>Dijawab {formatDateWithTime(quote.respondedAt)}</div>}
+                </div>
+                <ul className="text-sm">
+                  {quote.items.map((item, index) => (
+                    <li key={index}>{item.productName} x{item.quantity} - {formatCurrency(item.totalPrice)}</li>
+                  ))}
+                  {Number(quote.laborCost) > 0 && <li>Biaya jasa - {formatCurrency(quote.laborCost)}</li>}
+                  {Number(quote.taxAmount) > 0 && (
+                    <li className="text-muted-foreground">
+                      {Number(quote.totalAmount) > Number(quote.partsTotal) + Number(quote.laborCost) ? 'PPN' : 'Termasuk PPN'} - {formatCurrency(quote.taxAmount)}
+                    </li>
+                  )}
+                </ul>
+                {quote.responseNote && (
+                  <p className="text-sm italic">"{quote.responseNote}"</p>
+                )}
+                {quote.status === 'sent' && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button type="button" size="sm" variant="outline" onClick={() => copyLink(quote.publicUrl)}>
+                      <Copy className="w-4 h-4 mr-2" />
+                      Salin Tautan
+                    </Button>
+                    {can('service_tickets_full') && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => sendMutation.mutate(quote.id)}
+                        disabled={sendMutation.isPending}
+                        data-testid={`button-resend-quote-${quote.id}`}
+                      >
+                        <MessageCircle className="w-4 h-4 mr-2" />
+                        Kirim Ulang WhatsApp
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,9 +3,19 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
-import { Printer, Download } from 'lucide-react';
+import { Printer, Download, PenLine } from 'lucide-react';
 import QRCode from 'qrcode';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDateLong, formatDateShort, formatDateForDisplay } from '@shared/utils/timezone';
+import type { ServiceIntakeChecklist } from '@shared/schema';
+import {
+  BACKUP_CONSENT_LABELS,
+  DEVICE_CONDITION_LABELS,
+  POWER_ON_LABELS,
+} from '@shared/service-intake';
+import SignaturePad from '@/components/SignaturePad';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 
 interface ServiceReceiptProps {
   serviceTicket: {
@@ -17,6 +27,8 @@ interface ServiceReceiptProps {
     deviceModel?: string;
     serialNumber?: string;
     completeness?: string;
+    intakeChecklist?: ServiceIntakeChecklist;
+    intakeSignature?: string;
     problem: string;
     diagnosis?: string;
     solution?: string;
@@ -41,6 +53,7 @@ interface ServiceReceiptProps {
     address: string;
     phone: string;
     email: string;
+    serviceTaxInclusive?: boolean | null;
   };
   technician?: {
     id: string;
@@ -52,6 +65,24 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
   const receiptRef = useRef<HTMLDivElement>(null);
   const [qrCodeDataURL, setQrCodeDataURL] = useState<string>('');
   const [paperFormat, setPaperFormat] = useState<'a4' | 'thermal-58' | 'thermal-80'>('a4');
+  const [signature, setSignature] = useState<string | undefined>(serviceTicket.intakeSignature);
+  const [draftSignature, setDraftSignature] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const checklist = serviceTicket.intakeChecklist;
+
+  const signatureMutation = useMutation({
+    mutationFn: (value: string) => apiRequest('PUT', `/api/service-tickets/${serviceTicket.id}/intake-signature`, { signature: value }),
+    onSuccess: (_ticket, value) => {
+      setSignature(value);
+      setDraftSignature(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/service-tickets'] });
+      toast({ title: 'Sukses', description: 'Tanda tangan pelanggan disimpan' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
 
   useEffect(() => {
     // Generate QR Code untuk tracking
@@ -194,6 +225,12 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
                   text-align: center; 
                   ${isThermal ? 'margin-bottom: 12px;' : 'width: 150px;'}
                 }
+                .signature-box img {
+                  display: block;
+                  margin: 0 auto;
+                  height: ${isThermal ? '30px' : '50px'};
+                }
+                .checklist-list { margin: 0; padding: 0; list-style: none; }
                 .signature-box .label { 
                   margin-bottom: ${isThermal ? '15px' : '35px'}; 
                   font-size: ${isThermal ? (paperFormat === 'thermal-58' ? '7px' : '8px') : '11px'};
@@ -242,6 +279,8 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
     }).format(Number(amount));
   };
 
+  const taxNote = storeConfig.serviceTaxInclusive === false ? 'Belum termasuk PPN' : 'Sudah termasuk PPN';
+
   return (
     <div className="w-full max-w-4xl mx-auto">
       <div className="mb-4 flex gap-4 items-end no-print">
@@ -264,6 +303,27 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
         </Button>
       </div>
 
+      {!signature && (
+        <Card className="mb-4 p-4 space-y-3 no-print">
+          <Label className="flex items-center gap-2">
+            <PenLine className="w-4 h-4" />
+            Tanda Tangan Pelanggan
+          </Label>
+          <SignaturePad onChange={setDraftSignature} />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => draftSignature && signatureMutation.mutate(draftSignature)}
+              disabled={!draftSignature || signatureMutation.isPending}
+              data-testid="button-save-signature"
+            >
+              {signatureMutation.isPending ? 'Menyimpan...' : 'Simpan Tanda Tangan'}
+            </Button>
+          </div>
+        </Card>
+      )}
+
       <Card className="p-8" ref={receiptRef}>
         <div className="receipt">
           {/* Header */}
@@ -363,6 +423,64 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
             </div>
           )}
 
+          {/* Intake Checklist */}
+          {checklist && (
+            <div className={isThermal ? 'mb-4' : 'mb-6'}>
+              <h3 className={`font-bold ${isThermal ? 'text-xs mb-2' : 'text-lg mb-3'}`}>Kondisi Saat Diterima</h3>
+              <div className={isThermal ? 'text-xs' : 'grid grid-cols-2 gap-4 text-sm'}>
+                <div className={isThermal ? 'mb-2' : ''}>
+                  <div className="label">Kelengkapan:</div>
+                  <ul className="checklist-list">
+                    {checklist.accessories.map((item) => (
+                      <li key={item.name}>{item.present ? '[v]' : '[ ]'} {item.name}{item.note ? ` (${item.note})` : ''}</li>
+                    ))}
+                  </ul>
+                </div>
+                <div>
+                  <div className="label">Kondisi Fisik:</div>
+                  <ul className="checklist-list">
+                    {checklist.condition.map((item) => (
+                      <li key={item.area}>
+                        {item.area}: {DEVICE_CONDITION_LABELS[item.status]}{item.note ? ` (${item.note})` : ''}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+              <div className={`mt-2 ${isThermal ? 'text-xs' : 'text-sm'}`}>
+                <div className="field">
+                  <span className="label">Tes Nyala:</span>
+                  <span className="value ml-2">
+                    {POWER_ON_LABELS[checklist.powerOn]}{checklist.powerOnNote ? ` - ${checklist.powerOnNote}` : ''}
+                  </span>
+                </div>
+                <div className="field">
+                  <span className="label">Password:</span>
+                  <span className="value ml-2">
+                    {checklist.passwordProvided ? 'Diberikan' : 'Tidak diberikan'}
+                    {checklist.passwordConsent ? ', teknisi boleh membuka perangkat' : ''}
+                  </span>
+                </div>
+                <div className="field">
+                  <span className="label">Data:</span>
+                  <span className="value ml-2">{BACKUP_CONSENT_LABELS[checklist.backupConsent]}</span>
+                </div>
+                {checklist.photos.length > 0 && (
+                  <div className="field">
+                    <span className="label">Foto Kondisi:</span>
+                    <span className="value ml-2">{checklist.photos.length} foto tersimpan</span>
+                  </div>
+                )}
+                {checklist.notes && (
+                  <div className="field">
+                    <span className="label">Catatan:</span>
+                    <span className="value ml-2">{checklist.notes}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* QR Code and Estimated Cost */}
           <div className={`${isThermal ? 'text-center mb-4' : 'flex justify-between items-center mb-6'}`}>
             <div className="qr-section">
@@ -379,6 +497,7 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
                   <div className="field">
                     <span className="label text-lg">Estimasi Biaya:</span>
                     <div className="value text-xl font-bold">{formatCurrency(serviceTicket.estimatedCost)}</div>
+                    <div className="text-xs text-gray-500">{taxNote}</div>
                   </div>
                 )}
               </div>
@@ -391,6 +510,7 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
               <div className="field">
                 <span className="label text-xs">Estimasi Biaya:</span>
                 <div className="value text-sm font-bold">{formatCurrency(serviceTicket.estimatedCost)}</div>
+                <div className="text-xs">{taxNote}</div>
               </div>
             </div>
           )}
@@ -445,7 +565,8 @@ export default function ServiceReceiptNew({ serviceTicket, customer, storeConfig
           {/* Signature Area */}
           <div className={`signature-area ${isThermal ? 'text-center' : 'flex justify-between'}`}>
             <div className={`signature-box ${isThermal ? 'mb-6' : ''}`}>
-              <div className={`label ${isThermal ? 'mb-8 text-xs' : 'mb-12'}`}>Penerima</div>
+              <div className={`label ${isThermal ? 'text-xs' : ''} ${signature ? 'mb-1' : isThermal ? 'mb-8' : 'mb-12'}`}>Penerima</div>
+              {signature && <img src={signature} alt="Tanda tangan pelanggan" className={isThermal ? 'h-8 mx-auto' : 'h-12 mx-auto'} />}
               <div className="border-t border-black">
                 <div className={`mt-1 text-center ${isThermal ? 'text-xs' : ''}`}>({customer.name})</div>
               </div>
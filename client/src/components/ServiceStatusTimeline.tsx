@@ -0,0 +1,111 @@
+import { ArrowRight, EyeOff, MessageSquare, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { getServiceStatusLabel } from "@shared/service-status";
+import { formatDateWithTime } from '@shared/utils/timezone';
+
+export interface ServiceTimelineEntry {
+  id?: string;
+  fromStatus: string | null;
+  toStatus: string;
+  note: string | null;
+  photos: string[] | null;
+  diagnosis?: string | null;
+  solution?: string | null;
+  customerVisible?: boolean | null;
+  changedByName?: string | null;
+  createdAt: string | null;
+}
+
+interface ServiceStatusTimelineProps {
+  entries: ServiceTimelineEntry[];
+  emptyMessage?: string;
+}
+
+const describeEntry = (entry: ServiceTimelineEntry) => {
+  if (!entry.fromStatus) {
+    return `Tiket dibuat - ${getServiceStatusLabel(entry.toStatus)}`;
+  }
+  if (entry.fromStatus === entry.toStatus) {
+    return entry.diagnosis || entry.solution ? 'Hasil pemeriksaan diperbarui' : 'Catatan progres';
+  }
+  return null;
+};
+
+export default function ServiceStatusTimeline({
+  entries,
+  emptyMessage = 'Belum ada riwayat status.',
+}: ServiceStatusTimelineProps) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  // Newest first, the way technicians and customers read progress
+  const ordered = [...entries].reverse();
+
+  return (
+    <ol className="border-l border-gray-200 ml-2 space-y-5">
+      {ordered.map((entry, index) => {
+        const title = describeEntry(entry);
+        const photos = entry.photos ?? [];
+
+        return (
+          <li key={entry.id ?? index} className="relative pl-4" data-testid={`timeline-entry-${entry.id ?? index}`}>
+            <span className={`absolute -left-1.5 top-1.5 h-3 w-3 rounded-full border border-white ${index === 0 ? 'bg-blue-500' : 'bg-gray-300'}`} />
+            <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+              {title ?? (
+                <>
+                  <span className="text-muted-foreground">{getServiceStatusLabel(entry.fromStatus)}</span>
+                  <ArrowRight className="w-3 h-3" />
+                  <span>{getServiceStatusLabel(entry.toStatus)}</span>
+                </>
+              )}
+              {entry.customerVisible === false && (
+                <Badge variant="outline" className="gap-1 text-xs">
+                  <EyeOff className="w-3 h-3" />
+                  Internal
+                </Badge>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground mt-0.5">
+              <span>{entry.createdAt ? formatDateWithTime(entry.createdAt) : '-'}</span>
+              {entry.changedByName && (
+                <span className="flex items-center gap-1">
+                  <User className="w-3 h-3" />
+                  {entry.changedByName}
+                </span>
+              )}
+            </div>
+
+            {entry.note && (
+              <p className="mt-2 text-sm flex gap-2">
+                <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                <span className="whitespace-pre-line">{entry.note}</span>
+              </p>
+            )}
+            {entry.diagnosis && (
+              <p className="mt-1 text-sm"><span className="text-muted-foreground">Diagnosis:</span> {entry.diagnosis}</p>
+            )}
+            {entry.solution && (
+              <p className="mt-1 text-sm"><span className="text-muted-foreground">Solusi:</span> {entry.solution}</p>
+            )}
+
+            {photos.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {photos.map((photo) => (
+                  <a key={photo} href={photo} target="_blank" rel="noreferrer" className="block">
+                    <img
+                      src={photo}
+                      alt="Foto progres servis"
+                      className="h-20 w-20 rounded border object-cover"
+                      onError={(event) => { event.currentTarget.style.display = 'none'; }}
+                    />
+                  </a>
+                ))}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
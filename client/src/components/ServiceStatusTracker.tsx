@@ -5,6 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { CheckCircle, Clock, Package, Settings, FileText, X } from 'lucide-react';
 import { normalizeServiceStatus, SERVICE_STATUS_LABELS, type ServiceStatus } from "@shared/service-status";
+import { formatDateWithTime } from '@shared/utils/timezone';
+import ServiceStatusTimeline, { type ServiceTimelineEntry } from '@/components/ServiceStatusTimeline';
 
 interface ServiceStep {
   id: ServiceStatus;
@@ -20,6 +22,7 @@ interface ServiceStatusTrackerProps {
   onClose: () => void;
   serviceNumber: string;
   currentStatus: string;
+  history?: ServiceTimelineEntry[];
 }
 
 const serviceSteps: ServiceStep[] = [
@@ -88,8 +91,18 @@ export default function ServiceStatusTracker({
   isOpen, 
   onClose, 
   serviceNumber, 
-  currentStatus 
+  currentStatus,
+  history = []
 }: ServiceStatusTrackerProps) {
+
+  // Latest time the ticket entered each step, taken from the status history
+  const reachedAt = new Map<number, string>();
+  history.forEach(entry => {
+    const normalized = normalizeServiceStatus(entry.toStatus);
+    if (normalized && entry.createdAt && entry.fromStatus !== entry.toStatus) {
+      reachedAt.set(statusMapping[normalized], entry.createdAt);
+    }
+  });
   
   const getCurrentStepIndex = () => {
     const normalized = normalizeServiceStatus(currentStatus) ?? 'pending';
@@ -200,6 +213,11 @@ export default function ServiceStatusTracker({
                           ← Status Saat Ini
                         </div>
                       )}
+                      {reachedAt.has(index) && stepStatus !== 'pending' && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {formatDateWithTime(reachedAt.get(index)!)}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -212,6 +230,17 @@ export default function ServiceStatusTracker({
             })}
           </div>
 
+          {history.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Riwayat Proses</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ServiceStatusTimeline entries={history} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Information Box */}
           <Card className="mt-6">
             <CardContent className="pt-4">
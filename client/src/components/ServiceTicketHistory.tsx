@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Camera, X } from 'lucide-react';
+import { ObjectUploader } from '@/components/ObjectUploader';
+import ServiceStatusTimeline, { type ServiceTimelineEntry } from '@/components/ServiceStatusTimeline';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface ServiceTicketHistoryProps {
+  ticketId: string;
+}
+
+export default function ServiceTicketHistory({ ticketId }: ServiceTicketHistoryProps) {
+  const [note, setNote] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [customerVisible, setCustomerVisible] = useState(true);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+
+  const { data: history = [], isLoading } = useQuery<ServiceTimelineEntry[]>({
+    queryKey: ['/api/service-tickets', ticketId, 'history'],
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/service-tickets/${ticketId}/history`, {
+      note: note.trim() || undefined,
+      photos,
+      customerVisible,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/service-tickets', ticketId, 'history'] });
+      setNote('');
+      setPhotos([]);
+      setCustomerVisible(true);
+      toast({ title: 'Sukses', description: 'Catatan progres ditambahkan' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message || 'Gagal menambahkan catatan', variant: 'destructive' });
+    },
+  });
+
+  const getUploadParameters = async () => {
+    const { uploadURL } = await apiRequest('POST', '/api/objects/upload');
+    return { method: 'PUT' as const, url: uploadURL };
+  };
+
+  return (
+    <div className="space-y-6">
+      {can('service_tickets_full') && (
+        <div className="space-y-3 rounded-lg border p-4">
+          <Label htmlFor="service-history-note">Catatan Progres</Label>
+          <Textarea
+            id="service-history-note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Contoh: Konektor charger diganti, menunggu uji daya 2 jam"
+            rows={3}
+            data-testid="textarea-history-note"
+          />
+
+          {photos.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <Badge key={photo} variant="secondary" className="gap-1">
+                  <Camera className="w-3 h-3" />
+                  Foto {index + 1}
+                  <button
+                    type="button"
+                    className="ml-1"
+                    onClick={() => setPhotos(photos.filter((item) => item !== photo))}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <ObjectUploader
+                maxNumberOfFiles={5}
+                onGetUploadParameters={getUploadParameters}
+                onComplete={(result) => {
+                  const uploaded = (result.successful ?? [])
+                    .map((file) => file.uploadURL)
+                    .filter((url): url is string => !!url);
+                  setPhotos((current) => [...current, ...uploaded]);
+                }}
+                buttonClassName="h-9"
+              >
+                <Camera className="w-4 h-4 mr-2" />
+                Tambah Foto
+              </ObjectUploader>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="service-history-visible"
+                  checked={customerVisible}
+                  onCheckedChange={(value) => setCustomerVisible(value === true)}
+                />
+                <Label htmlFor="service-history-visible" className="text-sm font-normal">
+                  Tampilkan ke pelanggan
+                </Label>
+              </div>
+            </div>
+            <Button
+              type="button"
+              onClick={() => addNoteMutation.mutate()}
+              disabled={addNoteMutation.isPending || (!note.trim() && photos.length === 0)}
+              data-testid="button-add-history-note"
+            >
+              {addNoteMutation.isPending ? 'Menyimpan...' : 'Simpan Catatan'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Memuat riwayat...</p>
+      ) : (
+        <ServiceStatusTimeline entries={history} />
+      )}
+    </div>
+  );
+}
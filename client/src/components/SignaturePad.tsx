@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void;
+  height?: number;
+}
+
+export default function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [isEmpty, setIsEmpty] = useState(true);
+
+  // Match the backing store to the rendered width so strokes are not stretched
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.strokeStyle = '#000000';
+    }
+  }, [height]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setIsEmpty(false);
+    onChange(canvasRef.current?.toDataURL('image/png') ?? null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full rounded-md border border-dashed bg-white touch-none cursor-crosshair"
+        style={{ height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        data-testid="canvas-signature"
+      />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{isEmpty ? 'Tanda tangan di dalam kotak' : 'Tanda tangan tersimpan sementara'}</span>
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={isEmpty}>
+          <Eraser className="w-4 h-4 mr-1" />
+          Hapus
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Download, Printer } from 'lucide-react';
+import QRCode from 'qrcode';
+import jsPDF from 'jspdf';
+import html2canvas from 'html2canvas';
+import { formatDateLong } from '@shared/utils/timezone';
+
+export type WarrantyCertificateStatus = 'active' | 'expiring' | 'expired' | 'claimed';
+
+export interface WarrantyCertificateView {
+  certificateNumber: string;
+  token: string;
+  issuedAt: string | null;
+  verifyUrl: string;
+  sourceType: 'sale' | 'service';
+  referenceNumber: string;
+  customerName: string | null;
+  items: Array<{ name: string; sku: string | null; quantity: number; serialNumbers: string[] }>;
+  warrantyDuration: number;
+  startDate: string | null;
+  endDate: string | null;
+  status: WarrantyCertificateStatus;
+  store: {
+    name?: string | null;
+    phone?: string | null;
+    address?: string | null;
+  };
+}
+
+export const WARRANTY_STATUS_LABELS: Record<WarrantyCertificateStatus, string> = {
+  active: 'Aktif',
+  expiring: 'Segera Berakhir',
+  expired: 'Berakhir',
+  claimed: 'Sudah Diklaim',
+};
+
+export const formatWarrantyDuration = (days: number) =>
+  days >= 9999 ? 'Seumur Hidup' : `${days} Hari`;
+
+const CONTENT_ID = 'warranty-certificate-content';
+
+interface WarrantyCertificateDialogProps {
+  certificate: WarrantyCertificateView | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function WarrantyCertificateDialog({ certificate, onOpenChange }: WarrantyCertificateDialogProps) {
+  const [qrCodeDataURL, setQrCodeDataURL] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!certificate) return;
+    QRCode.toDataURL(certificate.verifyUrl, { width: 120, margin: 1 })
+      .then(setQrCodeDataURL)
+      .catch((err: unknown) => console.error('Error generating QR code:', err));
+  }, [certificate?.verifyUrl]);
+
+  const handlePrint = () => {
+    const printStyle = `
+      <style id="warranty-certificate-print-style">
+        @media print {
+          body * { visibility: hidden; }
+          #${CONTENT_ID}, #${CONTENT_ID} * { visibility: visible; }
+          #${CONTENT_ID} { position: absolute; left: 0; top: 0; width: 190mm; }
+          .no-print { display: none !important; }
+          @page { size: A4; margin: 10mm; }
+        }
+      </style>
+    `;
+    document.getElementById('warranty-certificate-print-style')?.remove();
+    document.head.insertAdjacentHTML('beforeend', printStyle);
+    window.print();
+    setTimeout(() => document.getElementById('warranty-certificate-print-style')?.remove(), 1000);
+  };
+
+  const generatePDF = async () => {
+    const element = document.getElementById(CONTENT_ID);
+    if (!element || !certificate) return;
+    setIsGenerating(true);
+    try {
+      const canvas = await html2canvas(element, { scale: 2, useCORS: true, backgroundColor: '#ffffff' });
+      const pdf = new jsPDF('p', 'mm', 'a4');
+      const margin = 10;
+      const width = 210 - margin * 2;
+      const height = (canvas.height / canvas.width) * width;
+      pdf.addImage(canvas.toDataURL('image/png'), 'PNG', margin, margin, width, height);
+      pdf.save(`Sertifikat-Garansi-${certificate.certificateNumber}.pdf`);
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      alert('Gagal membuat PDF. Silakan coba lagi.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!certificate} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="no-print">
+          <DialogTitle>Sertifikat Garansi</DialogTitle>
+        </DialogHeader>
+
+        {certificate && (
+          <div className="space-y-4">
+            <div className="flex gap-2 no-print">
+              <Button onClick={handlePrint} className="flex-1" data-testid="button-print-warranty-certificate">
+                <Printer className="w-4 h-4 mr-2" />
+                Cetak
+              </Button>
+              <Button
+                onClick={generatePDF}
+                variant="outline"
+                disabled={isGenerating}
+                className="flex-1"
+                data-testid="button-download-warranty-certificate"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                {isGenerating ? 'Membuat PDF...' : 'Download PDF'}
+              </Button>
+            </div>
+
+            <div id={CONTENT_ID} className="bg-white text-black border-4 border-double border-gray-700 p-8 space-y-6">
+              <div className="text-center space-y-1">
+                <h1 className="text-2xl font-bold tracking-wide">{certificate.store.name}</h1>
+                {certificate.store.address && <p className="text-sm text-gray-700">{certificate.store.address}</p>}
+                {certificate.store.phone && <p className="text-sm text-gray-700">Telp: {certificate.store.phone}</p>}
+              </div>
+
+              <div className="text-center border-y py-3">
+                <h2 className="text-xl font-bold">SERTIFIKAT GARANSI</h2>
+                <p className="text-sm">No: {certificate.certificateNumber}</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-600 block">Nama Pelanggan</span>
+                  <span className="font-semibold">{certificate.customerName || '-'}</span>
+                </div>
+                <div>
+                  <span className="text-gray-600 block">
+                    {certificate.sourceType === 'sale' ? 'No. Transaksi' : 'No. Service'}
+                  </span>
+                  <span className="font-semibold">{certificate.referenceNumber}</span>
+                </div>
+                <div>
+                  <span className="text-gray-600 block">Masa Garansi</span>
+                  <span className="font-semibold">{formatWarrantyDuration(certificate.warrantyDuration)}</span>
+                </div>
+                <div>
+                  <span className="text-gray-600 block">Berlaku</span>
+                  <span className="font-semibold">
+                    {certificate.startDate ? formatDateLong(certificate.startDate) : '-'}
+                    {' s/d '}
+                    {certificate.endDate && certificate.warrantyDuration < 9999 ? formatDateLong(certificate.endDate) : 'Seumur Hidup'}
+                  </span>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-1">{certificate.sourceType === 'sale' ? 'Produk' : 'Perangkat'}</th>
+                    <th className="text-left py-1">Serial Number</th>
+                    <th className="text-center py-1">Qty</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {certificate.items.map((item, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-2">
+                        {item.name}
+                        {item.sku && <span className="block text-xs text-gray-500">{item.sku}</span>}
+                      </td>
+                      <td className="py-2">{item.serialNumbers.length > 0 ? item.serialNumbers.join(', ') : '-'}</td>
+                      <td className="py-2 text-center">{item.quantity}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex items-end justify-between gap-4">
+                <div className="text-xs text-gray-600 space-y-1 max-w-[60%]">
+                  <p>Garansi berlaku untuk kerusakan akibat cacat produksi atau pengerjaan.</p>
+                  <p>Garansi tidak berlaku untuk kerusakan fisik, terkena cairan, atau segel rusak.</p>
+                  <p>Bawa sertifikat ini saat mengajukan klaim garansi.</p>
+                </div>
+                {qrCodeDataURL && (
+                  <div className="text-center">
+                    <img src={qrCodeDataURL} alt="QR Verifikasi" className="mx-auto w-28 h-28" />
+                    <p className="text-xs text-gray-600 mt-1">Scan untuk verifikasi</p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,649 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Link2, Unlink, Upload, Wand2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useBankMatchCandidates,
+  useBankReconciliationReport,
+  useBankStatement,
+  useBankStatements,
+  useChartOfAccounts,
+} from "@/hooks/useFinance";
+import type { BankStatementLine, BankStatementLineStatus } from "@/types/finance";
+
+const currency = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  minimumFractionDigits: 0,
+});
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString("id-ID");
+
+const LINE_STATUS_BADGES: Record<BankStatementLineStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  unmatched: { label: "Belum Cocok", variant: "outline" },
+  matched: { label: "Cocok", variant: "default" },
+  posted: { label: "Diposting", variant: "secondary" },
+};
+
+function useInvalidateBankReconciliation() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/finance/bank-statements"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/finance/bank-statement-lines"] });
+  };
+}
+
+function ImportStatementDialog({
+  open,
+  onOpenChange,
+  onImported,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (statementId: string) => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [accountCode, setAccountCode] = useState("1112");
+  const [closingBalance, setClosingBalance] = useState("");
+  const { data: accounts = [] } = useChartOfAccounts();
+  const invalidate = useInvalidateBankReconciliation();
+  const { toast } = useToast();
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      formData.append("accountCode", accountCode);
+      if (closingBalance) formData.append("closingBalance", closingBalance);
+
+      const response = await fetch("/api/finance/bank-statements/import", {
+        method: "POST",
+        credentials: "include",
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.message || `Upload failed: ${response.statusText}`);
+      return result as { statement: { id: string }; imported: number; skipped: number };
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({
+        title: "Sukses",
+        description: `${result.imported} transaksi diimpor${result.skipped ? `, ${result.skipped} duplikat dilewati` : ""}`,
+      });
+      setFile(null);
+      setClosingBalance("");
+      onImported(result.statement.id);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Impor Mutasi Rekening</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="bank-statement-file">File CSV / OFX</Label>
+            <Input
+              id="bank-statement-file"
+              type="file"
+              accept=".csv,.ofx,.qfx"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              data-testid="input-bank-statement-file"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Akun Bank</Label>
+            <Select value={accountCode} onValueChange={setAccountCode}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts
+                  .filter((account) => account.type === "asset")
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.code}>
+                      {account.code} - {account.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="bank-statement-closing">Saldo Akhir Rekening Koran</Label>
+            <Input
+              id="bank-statement-closing"
+              type="number"
+              value={closingBalance}
+              onChange={(e) => setClosingBalance(e.target.value)}
+              placeholder="Kosongkan untuk memakai saldo dari file"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+            <Button
+              type="button"
+              disabled={!file || importMutation.isPending}
+              onClick={() => importMutation.mutate()}
+              data-testid="button-submit-bank-statement"
+            >
+              {importMutation.isPending ? "Mengimpor..." : "Impor"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MatchLineDialog({ line, onClose }: { line: BankStatementLine | null; onClose: () => void }) {
+  const [dateWindowDays, setDateWindowDays] = useState(7);
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const { data: candidates = [], isLoading } = useBankMatchCandidates(line?.id, dateWindowDays);
+  const invalidate = useInvalidateBankReconciliation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSelected({});
+  }, [line?.id]);
+
+  const remaining = line?.remaining ?? 0;
+  const total = Object.values(selected).reduce((sum, amount) => sum + Number(amount || 0), 0);
+  const exceeds = Math.abs(total) > Math.abs(remaining) + 0.001;
+
+  const toggle = (id: string, candidateRemaining: number, checked: boolean) => {
+    const next = { ...selected };
+    if (checked) {
+      // Prefill with whatever is still open on both sides; the user can lower it to split
+      const open = remaining - Object.values(selected).reduce((sum, amount) => sum + Number(amount || 0), 0);
+      const amount = Math.sign(open) === Math.sign(candidateRemaining)
+        ? Math.min(Math.abs(open), Math.abs(candidateRemaining)) * Math.sign(candidateRemaining)
+        : candidateRemaining;
+      next[id] = String(amount);
+    } else {
+      delete next[id];
+    }
+    setSelected(next);
+  };
+
+  const matchMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/finance/bank-statement-lines/${line!.id}/match`, {
+        matches: Object.entries(selected).map(([journalEntryLineId, amount]) => ({ journalEntryLineId, amount: Number(amount) })),
+      }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sukses", description: "Baris bank dicocokkan" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(line)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cocokkan Baris Bank</DialogTitle>
+        </DialogHeader>
+        {line && (
+          <div className="space-y-4">
+            <div className="rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+              <p className="font-medium">{line.description}</p>
+              <p className="text-slate-600">
+                {formatDate(line.date)} · {currency.format(Number(line.amount))}
+                {line.matchedAmount !== 0 && ` · sisa ${currency.format(remaining)}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Label htmlFor="bank-match-window">Rentang tanggal (hari)</Label>
+              <Input
+                id="bank-match-window"
+                type="number"
+                min={0}
+                max={31}
+                className="w-20"
+                value={dateWindowDays}
+                onChange={(e) => setDateWindowDays(Math.min(31, Math.max(0, Number(e.target.value) || 0)))}
+              />
+            </div>
+            {isLoading ? (
+              <div className="py-6 text-center text-sm text-slate-500">Memuat jurnal...</div>
+            ) : candidates.length === 0 ? (
+              <div className="py-6 text-center text-sm text-slate-500">Tidak ada jurnal yang belum dicocokkan pada rentang ini.</div>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-slate-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Tanggal</TableHead>
+                      <TableHead>No. Jurnal</TableHead>
+                      <TableHead>Keterangan</TableHead>
+                      <TableHead className="text-right">Sisa</TableHead>
+                      <TableHead className="w-40 text-right">Dicocokkan</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {candidates.map((candidate) => (
+                      <TableRow key={candidate.id}>
+                        <TableCell>
+                          <Checkbox
+                            checked={candidate.id in selected}
+                            onCheckedChange={(checked) => toggle(candidate.id, candidate.remaining, checked === true)}
+                            data-testid={`checkbox-bank-candidate-${candidate.id}`}
+                          />
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatDate(candidate.date)}</TableCell>
+                        <TableCell className="whitespace-nowrap">{candidate.journalNumber}</TableCell>
+                        <TableCell className="text-sm text-slate-600">{candidate.description}</TableCell>
+                        <TableCell className="whitespace-nowrap text-right">{currency.format(candidate.remaining)}</TableCell>
+                        <TableCell>
+                          {candidate.id in selected && (
+                            <Input
+                              type="number"
+                              className="text-right"
+                              value={selected[candidate.id]}
+                              onChange={(e) => setSelected({ ...selected, [candidate.id]: e.target.value })}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            <div className="flex items-center justify-between rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+              <span>Dipilih {currency.format(total)} dari {currency.format(remaining)}</span>
+              {exceeds && <Badge variant="destructive">Melebihi jumlah bank</Badge>}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>Batal</Button>
+              <Button
+                type="button"
+                disabled={Object.keys(selected).length === 0 || exceeds || matchMutation.isPending}
+                onClick={() => matchMutation.mutate()}
+                data-testid="button-submit-bank-match"
+              >
+                {matchMutation.isPending ? "Menyimpan..." : "Cocokkan"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PostLineDialog({
+  line,
+  bankAccountCode,
+  onClose,
+}: {
+  line: BankStatementLine | null;
+  bankAccountCode: string;
+  onClose: () => void;
+}) {
+  const [accountCode, setAccountCode] = useState("");
+  const [description, setDescription] = useState("");
+  const { data: accounts = [] } = useChartOfAccounts();
+  const invalidate = useInvalidateBankReconciliation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setAccountCode("");
+    setDescription(line?.description ?? "");
+  }, [line?.id]);
+
+  const postMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/finance/bank-statement-lines/${line!.id}/post`, {
+        accountCode,
+        description: description.trim() || undefined,
+      }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/journals"] });
+      toast({ title: "Sukses", description: "Jurnal mutasi bank diposting" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={Boolean(line)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Posting Mutasi Bank</DialogTitle>
+        </DialogHeader>
+        {line && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {formatDate(line.date)} · {currency.format(line.remaining)}{" "}
+              {line.remaining < 0 ? "keluar dari" : "masuk ke"} akun {bankAccountCode}
+            </p>
+            <div className="space-y-1">
+              <Label>Akun Lawan</Label>
+              <Select value={accountCode} onValueChange={setAccountCode}>
+                <SelectTrigger data-testid="select-bank-post-account">
+                  <SelectValue placeholder="Contoh: beban administrasi bank, pendapatan bunga" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts
+                    .filter((account) => account.code !== bankAccountCode)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.code}>
+                        {account.code} - {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="bank-post-description">Keterangan</Label>
+              <Input id="bank-post-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={onClose}>Batal</Button>
+              <Button
+                type="button"
+                disabled={!accountCode || postMutation.isPending}
+                onClick={() => postMutation.mutate()}
+                data-testid="button-submit-bank-post"
+              >
+                {postMutation.isPending ? "Memposting..." : "Posting Jurnal"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BankReconciliationPanelProps {
+  onSelectJournal: (journalId: string) => void;
+}
+
+export function BankReconciliationPanel({ onSelectJournal }: BankReconciliationPanelProps) {
+  const [statementId, setStatementId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [matchingLine, setMatchingLine] = useState<BankStatementLine | null>(null);
+  const [postingLine, setPostingLine] = useState<BankStatementLine | null>(null);
+  const [dateWindowDays, setDateWindowDays] = useState(3);
+  const { data: statements = [] } = useBankStatements();
+  const { data: detail, isLoading } = useBankStatement(statementId);
+  const { data: report } = useBankReconciliationReport(statementId);
+  const invalidate = useInvalidateBankReconciliation();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("financial_full") && detail?.statement.status === "open";
+
+  useEffect(() => {
+    if (!statementId && statements.length > 0) setStatementId(statements[0].id);
+  }, [statementId, statements]);
+
+  const autoMatchMutation = useMutation({
+    mutationFn: (): Promise<{ matched: number }> =>
+      apiRequest("POST", `/api/finance/bank-statements/${statementId}/auto-match`, { dateWindowDays }),
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: "Pencocokan otomatis", description: `${result.matched} baris bank dicocokkan` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: (lineId: string) => apiRequest("POST", `/api/finance/bank-statement-lines/${lineId}/unmatch`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sukses", description: "Pencocokan dilepas" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/finance/bank-statements/${statementId}/complete`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Sukses", description: "Rekonsiliasi bank selesai" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-base font-semibold text-slate-800">Rekonsiliasi Bank</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={statementId ?? undefined} onValueChange={setStatementId}>
+            <SelectTrigger className="w-72" data-testid="select-bank-statement">
+              <SelectValue placeholder="Belum ada mutasi rekening" />
+            </SelectTrigger>
+            <SelectContent>
+              {statements.map((statement) => (
+                <SelectItem key={statement.id} value={statement.id}>
+                  {statement.accountCode} · {formatDate(statement.periodStart)} - {formatDate(statement.periodEnd)}
+                  {statement.status === "reconciled" ? " ✓" : ` (${statement.openLineCount} terbuka)`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {can("financial_full") && (
+            <Button type="button" variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-bank-statement">
+              <Upload className="mr-2 h-4 w-4" />
+              Impor Mutasi
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!statementId ? (
+          <div className="py-6 text-center text-sm text-slate-500">Impor mutasi rekening (CSV atau OFX) untuk mulai rekonsiliasi.</div>
+        ) : isLoading || !detail ? (
+          <div className="py-6 text-center text-sm text-slate-500">Memuat mutasi rekening...</div>
+        ) : (
+          <>
+            {canManage && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Label htmlFor="bank-auto-match-window">Rentang tanggal (hari)</Label>
+                <Input
+                  id="bank-auto-match-window"
+                  type="number"
+                  min={0}
+                  max={31}
+                  className="w-20"
+                  value={dateWindowDays}
+                  onChange={(e) => setDateWindowDays(Math.min(31, Math.max(0, Number(e.target.value) || 0)))}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={autoMatchMutation.isPending}
+                  onClick={() => autoMatchMutation.mutate()}
+                  data-testid="button-bank-auto-match"
+                >
+                  <Wand2 className="mr-2 h-4 w-4" />
+                  {autoMatchMutation.isPending ? "Mencocokkan..." : "Cocokkan Otomatis"}
+                </Button>
+              </div>
+            )}
+
+            <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Keterangan</TableHead>
+                    <TableHead className="text-right">Jumlah</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Jurnal</TableHead>
+                    {canManage && <TableHead className="text-right">Aksi</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.lines.map((line) => {
+                    const badge = LINE_STATUS_BADGES[line.status];
+                    return (
+                      <TableRow key={line.id} data-testid={`row-bank-line-${line.id}`}>
+                        <TableCell className="whitespace-nowrap text-sm">{formatDate(line.date)}</TableCell>
+                        <TableCell className="text-sm text-slate-600">
+                          {line.description}
+                          {line.bankReference && <span className="block text-xs text-slate-400">{line.bankReference}</span>}
+                        </TableCell>
+                        <TableCell className={`whitespace-nowrap text-right ${Number(line.amount) < 0 ? "text-red-600" : "text-emerald-700"}`}>
+                          {currency.format(Number(line.amount))}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          {line.status === "unmatched" && line.matchedAmount !== 0 && (
+                            <span className="block text-xs text-slate-500">sisa {currency.format(line.remaining)}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {line.matches.map((match) => (
+                            <Button
+                              key={match.id}
+                              type="button"
+                              variant="link"
+                              className="block h-auto p-0"
+                              onClick={() => onSelectJournal(match.journalEntryId)}
+                            >
+                              {match.journalNumber}
+                            </Button>
+                          ))}
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              {line.status === "unmatched" && (
+                                <>
+                                  <Button type="button" size="sm" variant="outline" onClick={() => setMatchingLine(line)}>
+                                    <Link2 className="mr-1 h-4 w-4" />
+                                    Cocokkan
+                                  </Button>
+                                  <Button type="button" size="sm" variant="ghost" onClick={() => setPostingLine(line)}>
+                                    Posting
+                                  </Button>
+                                </>
+                              )}
+                              {line.status !== "posted" && line.matches.length > 0 && (
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={unmatchMutation.isPending}
+                                  onClick={() => unmatchMutation.mutate(line.id)}
+                                >
+                                  <Unlink className="mr-1 h-4 w-4" />
+                                  Lepas
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {report && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2 rounded-lg border border-slate-200 bg-white p-4 text-sm">
+                  <p className="text-xs uppercase tracking-wide text-slate-500">Sisi Bank</p>
+                  <div className="flex justify-between">
+                    <span>Saldo rekening koran</span>
+                    <span>{report.statementBalance !== null ? currency.format(report.statementBalance) : "-"}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Jurnal belum muncul di bank ({report.outstandingBookLines.length})</span>
+                    <span>{currency.format(report.outstandingBookTotal)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Saldo bank disesuaikan</span>
+                    <span>{report.adjustedBankBalance !== null ? currency.format(report.adjustedBankBalance) : "-"}</span>
+                  </div>
+                </div>
+                <div className="space-y-2 rounded-lg border border-slate-200 bg-white p-4 text-sm">
+                  <p className="text-xs uppercase tracking-wide text-slate-500">Sisi Buku ({report.statement.accountCode})</p>
+                  <div className="flex justify-between">
+                    <span>Saldo buku</span>
+                    <span>{currency.format(report.bookBalance)}</span>
+                  </div>
+                  <div className="flex justify-between text-slate-600">
+                    <span>Mutasi bank belum dicatat ({report.unrecordedBankLines.length})</span>
+                    <span>{currency.format(report.unrecordedBankTotal)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Saldo buku disesuaikan</span>
+                    <span>{currency.format(report.adjustedBookBalance)}</span>
+                  </div>
+                </div>
+                <div className="flex flex-col gap-2 md:col-span-2 sm:flex-row sm:items-center sm:justify-between">
+                  <Badge variant={report.isBalanced ? "default" : "destructive"} data-testid="badge-bank-reconciliation-status">
+                    {report.statement.status === "reconciled"
+                      ? "Sudah direkonsiliasi"
+                      : report.difference === null
+                        ? "Saldo rekening koran belum diisi"
+                        : report.isBalanced
+                          ? "Seimbang"
+                          : `Selisih ${currency.format(report.difference)}`}
+                  </Badge>
+                  {canManage && (
+                    <Button
+                      type="button"
+                      disabled={!report.isBalanced || report.unrecordedBankLines.length > 0 || completeMutation.isPending}
+                      onClick={() => completeMutation.mutate()}
+                      data-testid="button-complete-bank-reconciliation"
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Selesaikan Rekonsiliasi
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <ImportStatementDialog open={importOpen} onOpenChange={setImportOpen} onImported={setStatementId} />
+      <MatchLineDialog line={matchingLine} onClose={() => setMatchingLine(null)} />
+      <PostLineDialog
+        line={postingLine}
+        bankAccountCode={detail?.statement.accountCode ?? "1112"}
+        onClose={() => setPostingLine(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight, Lock, LockOpen, BookCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useFiscalPeriods } from "@/hooks/useFinance";
+import type { FiscalPeriod, FiscalPeriodStatus, FiscalYearCloseResult } from "@/types/finance";
+
+const currency = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  minimumFractionDigits: 0,
+});
+
+const monthName = (month: number) =>
+  new Date(2000, month - 1, 1).toLocaleDateString("id-ID", { month: "long" });
+
+const STATUS_BADGES: Record<FiscalPeriodStatus, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  open: { label: "Terbuka", variant: "outline" },
+  closed: { label: "Ditutup", variant: "secondary" },
+  locked: { label: "Dikunci", variant: "default" },
+};
+
+type PeriodAction = "close" | "reopen" | "lock";
+
+const ACTION_MESSAGES: Record<PeriodAction, string> = {
+  close: "Periode ditutup, jurnal baru tidak dapat diposting ke periode ini",
+  reopen: "Periode dibuka kembali",
+  lock: "Periode dikunci permanen",
+};
+
+export function FiscalPeriodPanel() {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const { data: periods = [], isLoading } = useFiscalPeriods(year);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can("financial_full");
+  const now = new Date();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/finance/periods"] });
+  };
+
+  const periodMutation = useMutation({
+    mutationFn: ({ period, action }: { period: FiscalPeriod; action: PeriodAction }) =>
+      apiRequest("POST", `/api/finance/periods/${period.year}/${period.month}/${action}`),
+    onSuccess: (_data, { action }) => {
+      invalidate();
+      toast({ title: "Sukses", description: ACTION_MESSAGES[action] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const closeYearMutation = useMutation({
+    mutationFn: (): Promise<FiscalYearCloseResult> => apiRequest("POST", `/api/finance/periods/${year}/close-year`),
+    onSuccess: (result) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/summary"] });
+      toast({
+        title: "Tahun buku ditutup",
+        description: `Laba rugi ${result.year} sebesar ${currency.format(result.netIncome)} dipindahkan ke Laba Ditahan`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleAction = (period: FiscalPeriod, action: PeriodAction) => {
+    if (action === "lock" && !confirm(`Kunci periode ${monthName(period.month)} ${period.year}? Periode yang dikunci tidak dapat dibuka kembali.`)) {
+      return;
+    }
+    periodMutation.mutate({ period, action });
+  };
+
+  const handleCloseYear = () => {
+    if (!confirm(`Tutup tahun buku ${year}? Saldo pendapatan dan beban akan ditutup ke Laba Rugi Tahun Berjalan lalu dipindahkan ke Laba Ditahan.`)) {
+      return;
+    }
+    closeYearMutation.mutate();
+  };
+
+  const yearClosed = periods.some((period) => period.yearClosedAt);
+  const allPeriodsClosed = periods.length === 12 && periods.every((period) => period.status !== "open");
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-base font-semibold text-slate-800">Periode Akuntansi</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="outline" size="icon" onClick={() => setYear(year - 1)} data-testid="button-fiscal-year-prev">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-16 text-center font-semibold text-slate-900" data-testid="text-fiscal-year">{year}</span>
+          <Button type="button" variant="outline" size="icon" onClick={() => setYear(year + 1)} data-testid="button-fiscal-year-next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {canManage && (
+            <Button
+              type="button"
+              onClick={handleCloseYear}
+              disabled={yearClosed || !allPeriodsClosed || closeYearMutation.isPending}
+              data-testid="button-close-fiscal-year"
+            >
+              <BookCheck className="mr-2 h-4 w-4" />
+              {yearClosed ? "Tahun Buku Ditutup" : closeYearMutation.isPending ? "Memproses..." : "Tutup Tahun Buku"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-slate-500">Memuat periode...</div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-slate-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Periode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ditutup</TableHead>
+                  <TableHead>Dikunci</TableHead>
+                  {canManage && <TableHead className="text-right">Aksi</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.map((period) => {
+                  const badge = STATUS_BADGES[period.status];
+                  const ended = new Date(period.periodEnd) < now;
+                  return (
+                    <TableRow key={period.month} data-testid={`row-fiscal-period-${period.month}`}>
+                      <TableCell className="font-medium text-slate-900">{monthName(period.month)} {period.year}</TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {period.closedAt ? new Date(period.closedAt).toLocaleDateString("id-ID") : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {period.lockedAt ? new Date(period.lockedAt).toLocaleDateString("id-ID") : "-"}
+                      </TableCell>
+                      {canManage && (
+                        <TableCell className="text-right">
+                          {period.status === "open" && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="outline"
+                              disabled={!ended || periodMutation.isPending}
+                              onClick={() => handleAction(period, "close")}
+                              data-testid={`button-close-period-${period.month}`}
+                            >
+                              Tutup
+                            </Button>
+                          )}
+                          {period.status === "closed" && (
+                            <div className="flex justify-end gap-2">
+                              {!yearClosed && (
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={periodMutation.isPending}
+                                  onClick={() => handleAction(period, "reopen")}
+                                  data-testid={`button-reopen-period-${period.month}`}
+                                >
+                                  <LockOpen className="mr-1 h-4 w-4" />
+                                  Buka
+                                </Button>
+                              )}
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                disabled={periodMutation.isPending || (period.month === 12 && !yearClosed)}
+                                onClick={() => handleAction(period, "lock")}
+                                data-testid={`button-lock-period-${period.month}`}
+                              >
+                                <Lock className="mr-1 h-4 w-4" />
+                                Kunci
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <p className="mt-3 text-xs text-slate-500">
+          Periode yang ditutup atau dikunci tidak menerima jurnal baru. Koreksi dicatat sebagai jurnal pembalik di periode berjalan.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useChartOfAccounts, useJournalEntries } from "@/hooks/useFinance";
+import { JOURNAL_STATUS_BADGES } from "@/components/finance/JournalModal";
+
+const currency = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  minimumFractionDigits: 0,
+});
+
+const ALL_STATUSES = "all";
+
+type DraftLine = { accountCode: string; description: string; debitAmount: string; creditAmount: string };
+
+const emptyLine = (): DraftLine => ({ accountCode: "", description: "", debitAmount: "", creditAmount: "" });
+
+function ManualJournalDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [date, setDate] = useState(() => new Date().toISOString().split("T")[0]);
+  const [description, setDescription] = useState("");
+  const [reference, setReference] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine(), emptyLine()]);
+  const { data: accounts = [] } = useChartOfAccounts();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const totalDebit = lines.reduce((sum, line) => sum + Number(line.debitAmount || 0), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + Number(line.creditAmount || 0), 0);
+  const balanced = totalDebit > 0 && Math.abs(totalDebit - totalCredit) < 0.01;
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const reset = () => {
+    setDescription("");
+    setReference("");
+    setLines([emptyLine(), emptyLine()]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/finance/journal-entry", {
+        date,
+        description: description.trim(),
+        reference: reference.trim() || undefined,
+        lines: lines
+          .filter((line) => line.accountCode)
+          .map((line) => ({
+            accountCode: line.accountCode,
+            description: line.description.trim() || undefined,
+            debitAmount: Number(line.debitAmount || 0),
+            creditAmount: Number(line.creditAmount || 0),
+          })),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/journals"] });
+      toast({ title: "Sukses", description: "Draft jurnal dibuat, menunggu persetujuan" });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Jurnal Manual</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="manual-journal-date">Tanggal</Label>
+              <Input id="manual-journal-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="manual-journal-description">Keterangan</Label>
+              <Input
+                id="manual-journal-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-manual-journal-description"
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-3">
+              <Label htmlFor="manual-journal-reference">Referensi</Label>
+              <Input id="manual-journal-reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-[2fr_1.5fr_1fr_1fr_auto]">
+                <Select value={line.accountCode} onValueChange={(accountCode) => updateLine(index, { accountCode })}>
+                  <SelectTrigger data-testid={`select-manual-journal-account-${index}`}>
+                    <SelectValue placeholder="Pilih akun" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.code}>
+                        {account.code} - {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  placeholder="Keterangan baris"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={line.debitAmount}
+                  onChange={(e) => updateLine(index, { debitAmount: e.target.value, creditAmount: "" })}
+                  placeholder="Debit"
+                  data-testid={`input-manual-journal-debit-${index}`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={line.creditAmount}
+                  onChange={(e) => updateLine(index, { creditAmount: e.target.value, debitAmount: "" })}
+                  placeholder="Kredit"
+                  data-testid={`input-manual-journal-credit-${index}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={lines.length <= 2}
+                  onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine()])}>
+              <Plus className="mr-1 h-4 w-4" />
+              Tambah Baris
+            </Button>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+            <span>Debit {currency.format(totalDebit)} / Kredit {currency.format(totalCredit)}</span>
+            <Badge variant={balanced ? "default" : "destructive"}>{balanced ? "Balanced" : "Unbalanced"}</Badge>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Batal</Button>
+            <Button
+              type="button"
+              disabled={!balanced || !description.trim() || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+              data-testid="button-submit-manual-journal"
+            >
+              {createMutation.isPending ? "Menyimpan..." : "Simpan Draft"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface JournalEntriesPanelProps {
+  onSelectJournal: (journalId: string) => void;
+}
+
+export function JournalEntriesPanel({ onSelectJournal }: JournalEntriesPanelProps) {
+  const [status, setStatus] = useState("draft");
+  const [formOpen, setFormOpen] = useState(false);
+  const { data: journals = [], isLoading } = useJournalEntries(status === ALL_STATUSES ? undefined : status);
+  const { can } = useAuth();
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-base font-semibold text-slate-800">Jurnal Umum</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-40" data-testid="select-journal-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>Semua</SelectItem>
+              {Object.entries(JOURNAL_STATUS_BADGES).map(([value, badge]) => (
+                <SelectItem key={value} value={value}>{badge.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {can("financial_full") && (
+            <Button type="button" onClick={() => setFormOpen(true)} data-testid="button-new-manual-journal">
+              <Plus className="mr-2 h-4 w-4" />
+              Jurnal Manual
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-slate-500">Memuat jurnal...</div>
+        ) : journals.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">Tidak ada jurnal.</div>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-slate-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>No. Jurnal</TableHead>
+                  <TableHead>Keterangan</TableHead>
+                  <TableHead className="text-right">Jumlah</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {journals.map((journal) => {
+                  const badge = JOURNAL_STATUS_BADGES[journal.status] ?? JOURNAL_STATUS_BADGES.posted;
+                  return (
+                    <TableRow key={journal.id} data-testid={`row-journal-${journal.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm">{journal.date?.split("T")[0]}</TableCell>
+                      <TableCell className="whitespace-nowrap font-medium">{journal.journalNumber}</TableCell>
+                      <TableCell className="text-sm text-slate-600">{journal.description}</TableCell>
+                      <TableCell className="whitespace-nowrap text-right">{currency.format(Number(journal.totalAmount || 0))}</TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button type="button" variant="ghost" size="icon" onClick={() => onSelectJournal(journal.id)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <ManualJournalDialog open={formOpen} onOpenChange={setFormOpen} />
+    </Card>
+  );
+}
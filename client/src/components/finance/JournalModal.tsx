@@ -1,8 +1,16 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import type { JournalEntry } from "@/types/finance";
+import { Check, Undo2, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { JournalEntry, JournalStatus } from "@/types/finance";
 
 const currency = new Intl.NumberFormat("id-ID", {
   style: "currency",
@@ -10,6 +18,98 @@ const currency = new Intl.NumberFormat("id-ID", {
   minimumFractionDigits: 0,
 });
 
+export const JOURNAL_STATUS_BADGES: Record<JournalStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  draft: { label: "Draft", variant: "outline" },
+  posted: { label: "Posted", variant: "default" },
+  reversed: { label: "Dibalik", variant: "secondary" },
+  rejected: { label: "Ditolak", variant: "destructive" },
+};
+
+function JournalActions({ entry }: { entry: JournalEntry }) {
+  const [reason, setReason] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+
+  useEffect(() => setReason(""), [entry.id]);
+
+  const actionMutation = useMutation({
+    mutationFn: (action: "approve" | "reject" | "reverse") =>
+      apiRequest("POST", `/api/finance/journal/${entry.id}/${action}`, action === "approve" ? undefined : { reason: reason.trim() }),
+    onSuccess: (_data, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/journal", entry.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/finance/journals"] });
+      setReason("");
+      const messages = {
+        approve: "Jurnal disetujui dan diposting",
+        reject: "Jurnal ditolak",
+        reverse: "Jurnal pembalik dibuat",
+      };
+      toast({ title: "Sukses", description: messages[action] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isDraft = entry.status === "draft";
+  const canReview = isDraft && can("journal_approve");
+  const canReverse = entry.status === "posted" && !entry.reversalOfId && can("financial_full");
+
+  if (!canReview && !canReverse) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-slate-200 p-4">
+      <Input
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder={isDraft ? "Alasan penolakan" : "Alasan koreksi"}
+        data-testid="input-journal-action-reason"
+      />
+      <div className="flex justify-end gap-2">
+        {canReview && (
+          <>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!reason.trim() || actionMutation.isPending}
+              onClick={() => actionMutation.mutate("reject")}
+              data-testid="button-reject-journal"
+            >
+              <X className="mr-2 h-4 w-4" />
+              Tolak
+            </Button>
+            <Button
+              type="button"
+              disabled={entry.userId === user?.id || actionMutation.isPending}
+              onClick={() => actionMutation.mutate("approve")}
+              data-testid="button-approve-journal"
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Setujui & Posting
+            </Button>
+          </>
+        )}
+        {canReverse && (
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!reason.trim() || actionMutation.isPending}
+            onClick={() => actionMutation.mutate("reverse")}
+            data-testid="button-reverse-journal"
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Balik Jurnal
+          </Button>
+        )}
+      </div>
+      {canReview && entry.userId === user?.id && (
+        <p className="text-xs text-slate-500">Jurnal harus disetujui oleh pengguna lain.</p>
+      )}
+    </div>
+  );
+}
+
 interface JournalModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -35,7 +135,15 @@ export function JournalModal({ open, onOpenChange, entry, isLoading }: JournalMo
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
               <div>
                 <p className="text-sm font-semibold text-slate-700">Journal Number</p>
-                <p className="text-base text-slate-900">{entry.journalNumber}</p>
+                <p className="flex items-center gap-2 text-base text-slate-900">
+                  {entry.journalNumber}
+                  {entry.status && (
+                    <Badge variant={JOURNAL_STATUS_BADGES[entry.status].variant}>{JOURNAL_STATUS_BADGES[entry.status].label}</Badge>
+                  )}
+                </p>
+                {entry.description && <p className="text-sm text-slate-600">{entry.description}</p>}
+                {entry.reversedBy && <p className="text-xs text-slate-500">Dibalik oleh {entry.reversedBy.journalNumber}</p>}
+                {entry.rejectionReason && <p className="text-xs text-rose-600">Ditolak: {entry.rejectionReason}</p>}
               </div>
               <div className="text-right">
                 <p className="text-sm font-semibold text-slate-700">Date</p>
@@ -86,6 +194,7 @@ export function JournalModal({ open, onOpenChange, entry, isLoading }: JournalMo
                 {balanced ? "Balanced" : "Unbalanced"}
               </Badge>
             </div>
+            <JournalActions entry={entry} />
           </div>
         ) : (
           <div className="py-10 text-center text-sm text-slate-500">Jurnal tidak ditemukan.</div>
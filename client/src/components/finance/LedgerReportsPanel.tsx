@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadTemplate } from "@/lib/importExportUtils";
+import { useChartOfAccounts, useGeneralLedger, useJournalSourceDocument, useTrialBalance } from "@/hooks/useFinance";
+import type { FinanceDateRange, GeneralLedgerLine, JournalSourceDocument } from "@/types/finance";
+
+const currency = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  minimumFractionDigits: 0,
+});
+
+const SOURCE_TITLES: Record<JournalSourceDocument["kind"], string> = {
+  transaction: "Transaksi POS",
+  service_ticket: "Tiket Service",
+  purchase_order: "Purchase Order",
+};
+
+type SourceReference = Pick<GeneralLedgerLine, "reference" | "referenceType">;
+
+function SourceDocumentDialog({ source, onClose }: { source: SourceReference | null; onClose: () => void }) {
+  const { data: document, isLoading, error } = useJournalSourceDocument(source?.referenceType, source?.reference);
+
+  return (
+    <Dialog open={Boolean(source)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{document ? `${SOURCE_TITLES[document.kind]} ${document.number}` : "Dokumen Sumber"}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-slate-500">Memuat dokumen...</div>
+        ) : error || !document ? (
+          <div className="py-6 text-center text-sm text-slate-500">Dokumen sumber tidak ditemukan.</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 text-sm sm:grid-cols-2">
+              <div>
+                <p className="text-slate-500">Tanggal</p>
+                <p className="font-medium">{document.date ? new Date(document.date).toLocaleDateString("id-ID") : "-"}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">{document.kind === "purchase_order" ? "Supplier" : "Pelanggan"}</p>
+                <p className="font-medium">{document.party || "-"}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Status</p>
+                <p className="font-medium">{document.status || "-"}</p>
+              </div>
+              {document.billNumber && (
+                <div>
+                  <p className="text-slate-500">No. Tagihan</p>
+                  <p className="font-medium">{document.billNumber}</p>
+                </div>
+              )}
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-slate-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Jumlah</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {document.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{line.description}</TableCell>
+                      <TableCell className="text-right">{line.quantity}</TableCell>
+                      <TableCell className="text-right">{currency.format(Number(line.amount || 0))}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total</TableCell>
+                    <TableCell className="text-right">{currency.format(Number(document.total || 0))}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function GeneralLedgerTab({ range, onSelectJournal }: { range: FinanceDateRange; onSelectJournal: (journalId: string) => void }) {
+  const [accountCode, setAccountCode] = useState<string | null>(null);
+  const [source, setSource] = useState<SourceReference | null>(null);
+  const { data: accounts = [] } = useChartOfAccounts();
+  const { data: ledger, isLoading } = useGeneralLedger(accountCode, range);
+
+  return (
+    <div className="space-y-4">
+      <Select value={accountCode ?? undefined} onValueChange={setAccountCode}>
+        <SelectTrigger className="w-full sm:w-80" data-testid="select-ledger-account">
+          <SelectValue placeholder="Pilih akun" />
+        </SelectTrigger>
+        <SelectContent>
+          {accounts.map((account) => (
+            <SelectItem key={account.id} value={account.code}>
+              {account.code} - {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!accountCode ? (
+        <div className="py-6 text-center text-sm text-slate-500">Pilih akun untuk menampilkan buku besar.</div>
+      ) : isLoading || !ledger ? (
+        <div className="py-6 text-center text-sm text-slate-500">Memuat buku besar...</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-slate-200">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>No. Jurnal</TableHead>
+                <TableHead>Keterangan</TableHead>
+                <TableHead>Referensi</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Kredit</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="bg-slate-50">
+                <TableCell colSpan={6} className="font-medium">Saldo Awal</TableCell>
+                <TableCell className="text-right font-medium" data-testid="text-ledger-opening">
+                  {currency.format(ledger.openingBalance)}
+                </TableCell>
+              </TableRow>
+              {ledger.lines.map((line) => (
+                <TableRow key={line.id} data-testid={`row-ledger-${line.id}`}>
+                  <TableCell className="whitespace-nowrap text-sm">{new Date(line.date).toLocaleDateString("id-ID")}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button type="button" variant="link" className="h-auto p-0" onClick={() => onSelectJournal(line.journalEntryId)}>
+                      {line.journalNumber}
+                    </Button>
+                  </TableCell>
+                  <TableCell className="text-sm text-slate-600">{line.description || "-"}</TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {line.sourceKind ? (
+                      <Button type="button" variant="link" className="h-auto p-0" onClick={() => setSource(line)}>
+                        {line.referenceType}
+                      </Button>
+                    ) : (
+                      line.referenceType || "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-right">{line.debit ? currency.format(line.debit) : "-"}</TableCell>
+                  <TableCell className="whitespace-nowrap text-right">{line.credit ? currency.format(line.credit) : "-"}</TableCell>
+                  <TableCell className="whitespace-nowrap text-right">{currency.format(line.balance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Saldo Akhir</TableCell>
+                <TableCell className="text-right">{currency.format(ledger.totalDebit)}</TableCell>
+                <TableCell className="text-right">{currency.format(ledger.totalCredit)}</TableCell>
+                <TableCell className="text-right" data-testid="text-ledger-closing">{currency.format(ledger.closingBalance)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+      )}
+
+      <SourceDocumentDialog source={source} onClose={() => setSource(null)} />
+    </div>
+  );
+}
+
+function TrialBalanceTab({ asOfDate }: { asOfDate: string }) {
+  const { data: trialBalance, isLoading } = useTrialBalance(asOfDate);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    try {
+      await downloadTemplate(`/api/finance/trial-balance/export?asOfDate=${asOfDate}`, `neraca-saldo-${asOfDate}.xlsx`);
+    } catch (error) {
+      toast({ title: "Gagal", description: "Gagal mengunduh neraca saldo", variant: "destructive" });
+    }
+  };
+
+  if (isLoading || !trialBalance) {
+    return <div className="py-6 text-center text-sm text-slate-500">Memuat neraca saldo...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <span>Per {new Date(trialBalance.asOfDate).toLocaleDateString("id-ID")}</span>
+          <Badge variant={trialBalance.isBalanced ? "default" : "destructive"} data-testid="badge-trial-balance-status">
+            {trialBalance.isBalanced ? "Seimbang" : `Selisih ${currency.format(trialBalance.difference)}`}
+          </Badge>
+        </div>
+        <Button type="button" variant="outline" onClick={handleExport} data-testid="button-export-trial-balance">
+          <Download className="mr-2 h-4 w-4" />
+          Export XLSX
+        </Button>
+      </div>
+      <div className="overflow-x-auto rounded-lg border border-slate-200">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kode</TableHead>
+              <TableHead>Nama Akun</TableHead>
+              <TableHead className="text-right">Debit</TableHead>
+              <TableHead className="text-right">Kredit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {trialBalance.rows.map((row) => (
+              <TableRow key={row.code} data-testid={`row-trial-balance-${row.code}`}>
+                <TableCell className="font-medium">{row.code}</TableCell>
+                <TableCell>{row.name}</TableCell>
+                <TableCell className="text-right">{row.debit ? currency.format(row.debit) : "-"}</TableCell>
+                <TableCell className="text-right">{row.credit ? currency.format(row.credit) : "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total</TableCell>
+              <TableCell className="text-right">{currency.format(trialBalance.totalDebit)}</TableCell>
+              <TableCell className="text-right">{currency.format(trialBalance.totalCredit)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+interface LedgerReportsPanelProps {
+  range: FinanceDateRange;
+  onSelectJournal: (journalId: string) => void;
+}
+
+export function LedgerReportsPanel({ range, onSelectJournal }: LedgerReportsPanelProps) {
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-base font-semibold text-slate-800">Laporan Buku Besar</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="general-ledger">
+          <TabsList>
+            <TabsTrigger value="general-ledger" data-testid="tab-general-ledger">Buku Besar</TabsTrigger>
+            <TabsTrigger value="trial-balance" data-testid="tab-trial-balance">Neraca Saldo</TabsTrigger>
+          </TabsList>
+          <TabsContent value="general-ledger" className="mt-4">
+            <GeneralLedgerTab range={range} onSelectJournal={onSelectJournal} />
+          </TabsContent>
+          <TabsContent value="trial-balance" className="mt-4">
+            <TrialBalanceTab asOfDate={range.endDate} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
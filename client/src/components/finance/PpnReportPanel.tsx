@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { downloadTemplate } from "@/lib/importExportUtils";
+import { usePpnReport } from "@/hooks/useFinance";
+import type { PpnReportDocument } from "@/types/finance";
+
+const currency = new Intl.NumberFormat("id-ID", {
+  style: "currency",
+  currency: "IDR",
+  minimumFractionDigits: 0,
+});
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  pos_sale: "Penjualan",
+  pos_return: "Retur",
+  service_ticket: "Service",
+  inventory_purchase: "Pembelian",
+};
+
+function PpnDocumentTable({ documents, partyLabel }: { documents: PpnReportDocument[]; partyLabel: string }) {
+  if (documents.length === 0) {
+    return <div className="py-6 text-center text-sm text-slate-500">Tidak ada PPN pada masa pajak ini.</div>;
+  }
+
+  const totalTaxable = documents.reduce((sum, document) => sum + document.taxableAmount, 0);
+  const totalTax = documents.reduce((sum, document) => sum + document.taxAmount, 0);
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-slate-200">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Tanggal</TableHead>
+            <TableHead>Dokumen</TableHead>
+            <TableHead>{partyLabel}</TableHead>
+            <TableHead className="text-right">DPP</TableHead>
+            <TableHead className="text-right">PPN</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {documents.map((document) => (
+            <TableRow key={`${document.referenceType}-${document.reference}`} data-testid={`row-ppn-${document.reference}`}>
+              <TableCell className="whitespace-nowrap text-sm">{new Date(document.date).toLocaleDateString("id-ID")}</TableCell>
+              <TableCell className="whitespace-nowrap">
+                <span className="font-medium">{document.number || "-"}</span>
+                <Badge variant="outline" className="ml-2">{DOCUMENT_LABELS[document.referenceType] ?? document.referenceType}</Badge>
+              </TableCell>
+              <TableCell className="text-sm text-slate-600">{document.party || "-"}</TableCell>
+              <TableCell className="whitespace-nowrap text-right">{currency.format(document.taxableAmount)}</TableCell>
+              <TableCell className="whitespace-nowrap text-right">{currency.format(document.taxAmount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={3}>Total</TableCell>
+            <TableCell className="text-right">{currency.format(totalTaxable)}</TableCell>
+            <TableCell className="text-right">{currency.format(totalTax)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
+
+export function PpnReportPanel() {
+  const [period, setPeriod] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  });
+  const { data: report, isLoading } = usePpnReport(period.year, period.month);
+  const { toast } = useToast();
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(period.year, period.month - 1 + delta, 1);
+    setPeriod({ year: date.getFullYear(), month: date.getMonth() + 1 });
+  };
+
+  const periodLabel = new Date(period.year, period.month - 1, 1).toLocaleDateString("id-ID", { month: "long", year: "numeric" });
+  const monthParam = String(period.month).padStart(2, "0");
+
+  const handleExport = async () => {
+    try {
+      await downloadTemplate(
+        `/api/finance/ppn-report/efaktur?year=${period.year}&month=${period.month}`,
+        `efaktur-keluaran-${period.year}-${monthParam}.csv`,
+      );
+    } catch (error) {
+      toast({ title: "Gagal", description: "Gagal mengunduh file e-Faktur", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="border border-slate-200 shadow-sm">
+      <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-base font-semibold text-slate-800">Laporan PPN</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button type="button" variant="outline" size="icon" onClick={() => shiftMonth(-1)} data-testid="button-ppn-period-prev">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-36 text-center font-semibold text-slate-900" data-testid="text-ppn-period">{periodLabel}</span>
+          <Button type="button" variant="outline" size="icon" onClick={() => shiftMonth(1)} data-testid="button-ppn-period-next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="outline" onClick={handleExport} data-testid="button-export-efaktur">
+            <Download className="mr-2 h-4 w-4" />
+            Export e-Faktur
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <div className="py-6 text-center text-sm text-slate-500">Memuat laporan PPN...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="rounded-lg border border-slate-200 p-3">
+                <p className="text-sm text-slate-500">PPN Keluaran</p>
+                <p className="text-lg font-semibold" data-testid="text-ppn-output">{currency.format(report.outputTax)}</p>
+                <p className="text-xs text-slate-500">DPP {currency.format(report.outputTaxableAmount)}</p>
+              </div>
+              <div className="rounded-lg border border-slate-200 p-3">
+                <p className="text-sm text-slate-500">PPN Masukan</p>
+                <p className="text-lg font-semibold" data-testid="text-ppn-input">{currency.format(report.inputTax)}</p>
+                <p className="text-xs text-slate-500">DPP {currency.format(report.inputTaxableAmount)}</p>
+              </div>
+              <div className="rounded-lg border border-slate-200 p-3">
+                <p className="text-sm text-slate-500">{report.netPayable >= 0 ? "PPN Kurang Bayar" : "PPN Lebih Bayar"}</p>
+                <p className="text-lg font-semibold" data-testid="text-ppn-net">{currency.format(Math.abs(report.netPayable))}</p>
+                <p className="text-xs text-slate-500">Tarif PPN {report.taxRate}%</p>
+              </div>
+            </div>
+
+            <Tabs defaultValue="output">
+              <TabsList>
+                <TabsTrigger value="output" data-testid="tab-ppn-output">Keluaran ({report.output.length})</TabsTrigger>
+                <TabsTrigger value="input" data-testid="tab-ppn-input">Masukan ({report.input.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="output" className="mt-4">
+                <PpnDocumentTable documents={report.output} partyLabel="Pelanggan" />
+              </TabsContent>
+              <TabsContent value="input" className="mt-4">
+                <PpnDocumentTable documents={report.input} partyLabel="Supplier" />
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,28 +21,39 @@ import {
   LogOut,
   User,
   ShoppingCart,
-  Clock
+  Clock,
+  Wallet,
+  Receipt,
+  ClipboardCheck,
+  Vault,
+  History
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import type { Permission } from "@shared/permissions";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
-const navigation = [
-  { name: "Dasbor", href: "/", icon: ChartLine, roles: ["admin", "kasir", "teknisi", "purchasing", "finance", "owner"] },
-  { name: "Kasir", href: "/pos", icon: ScanBarcode, roles: ["admin", "kasir", "owner"] },
-  { name: "Servis", href: "/service", icon: Wrench, roles: ["admin", "teknisi", "owner"] },
-  { name: "Inventori", href: "/inventory", icon: Package, roles: ["admin", "purchasing", "owner"] },
-  { name: "Pembelian", href: "/purchasing", icon: ShoppingCart, roles: ["admin", "purchasing", "owner"] },
-  { name: "Keuangan & Gaji", href: "/finance", icon: PieChart, roles: ["admin", "finance", "owner"] },
-  { name: "Pelanggan", href: "/customers", icon: Users, roles: ["admin", "kasir", "teknisi", "purchasing", "finance", "owner"] },
-  { name: "Supplier", href: "/suppliers", icon: Truck, roles: ["admin", "purchasing", "owner"] },
-  { name: "Pengguna", href: "/users", icon: UserCog, roles: ["admin", "owner"] },
-  { name: "Peran", href: "/roles", icon: Shield, roles: ["admin", "owner"] },
-  { name: "Laporan", href: "/reports", icon: FileText, roles: ["admin", "finance", "owner"] },
-  { name: "Pergerakan Stok", href: "/stock-movements", icon: Layers, roles: ["admin", "purchasing", "owner"] },
-  { name: "Management Garansi", href: "/warranty", icon: Clock, roles: ["admin", "kasir", "teknisi", "owner"] },
-  { name: "Pengaturan", href: "/settings", icon: Settings, roles: ["admin", "owner"] },
+const navigation: { name: string; href: string; icon: typeof ChartLine; permissions: Permission[] }[] = [
+  { name: "Dasbor", href: "/", icon: ChartLine, permissions: ['dashboard_view'] },
+  { name: "Kasir", href: "/pos", icon: ScanBarcode, permissions: ['pos_access'] },
+  { name: "Shift Kasir", href: "/shifts", icon: Vault, permissions: ['pos_access', 'financial_view'] },
+  { name: "Servis", href: "/service", icon: Wrench, permissions: ['service_tickets_view'] },
+  { name: "Inventori", href: "/inventory", icon: Package, permissions: ['inventory_view'] },
+  { name: "Pembelian", href: "/purchasing", icon: ShoppingCart, permissions: ['purchasing_view'] },
+  { name: "Keuangan & Gaji", href: "/finance", icon: PieChart, permissions: ['financial_view'] },
+  { name: "Piutang & Cicilan", href: "/receivables", icon: Wallet, permissions: ['pos_access', 'financial_view'] },
+  { name: "Hutang Supplier", href: "/payables", icon: Receipt, permissions: ['financial_view', 'purchasing_view'] },
+  { name: "Pelanggan", href: "/customers", icon: Users, permissions: ['customers_view'] },
+  { name: "Supplier", href: "/suppliers", icon: Truck, permissions: ['suppliers_view', 'purchasing_view'] },
+  { name: "Pengguna", href: "/users", icon: UserCog, permissions: ['users_view'] },
+  { name: "Peran", href: "/roles", icon: Shield, permissions: ['roles_view'] },
+  { name: "Laporan", href: "/reports", icon: FileText, permissions: ['reports_sales_view', 'reports_services_view', 'reports_inventory_view', 'reports_purchasing_view', 'reports_financial_view'] },
+  { name: "Pergerakan Stok", href: "/stock-movements", icon: Layers, permissions: ['inventory_view'] },
+  { name: "Stock Opname", href: "/stock-opname", icon: ClipboardCheck, permissions: ['inventory_view'] },
+  { name: "Management Garansi", href: "/warranty", icon: Clock, permissions: ['service_tickets_view', 'pos_access'] },
+  { name: "Log Audit", href: "/audit-log", icon: History, permissions: ['audit_view'] },
+  { name: "Pengaturan", href: "/settings", icon: Settings, permissions: ['settings_view', 'store_settings', 'whatsapp_settings'] },
 ];
 
 export default function Sidebar() {
@@ -52,7 +63,7 @@ export default function Sidebar() {
     return saved ? JSON.parse(saved) : false;
   });
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
 
   // Get store config for app name - WITH BETTER CACHING
@@ -104,9 +115,8 @@ export default function Sidebar() {
     localStorage.setItem('sidebarCollapsed', JSON.stringify(newCollapsed));
   };
 
-  const filteredNavigation = navigation.filter(item => 
-    item.roles.includes(userRole)
-  );
+  // Menu items follow the permissions of the user's role, not the role name
+  const filteredNavigation = navigation.filter(item => can(...item.permissions));
 
   return (
     <aside 
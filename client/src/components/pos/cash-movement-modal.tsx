@@ -0,0 +1,100 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface CashMovementModalProps {
+  open: boolean;
+  shift: any;
+  onClose: () => void;
+  onRecorded: () => void;
+}
+
+export default function CashMovementModal({ open, shift, onClose, onRecorded }: CashMovementModalProps) {
+  const [type, setType] = useState<'cash_in' | 'cash_out'>('cash_out');
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const movementMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/shifts/${shift.id}/cash-movements`, { type, amount, reason }),
+    onSuccess: () => {
+      toast({ title: type === 'cash_out' ? "Kas keluar dicatat" : "Kas masuk dicatat" });
+      setAmount("");
+      setReason("");
+      onRecorded();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal mencatat kas", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Kas Masuk / Keluar</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Jenis</Label>
+            <Select value={type} onValueChange={(value) => setType(value as 'cash_in' | 'cash_out')}>
+              <SelectTrigger data-testid="select-cash-movement-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash_out">Kas Keluar (kas kecil)</SelectItem>
+                <SelectItem value="cash_in">Kas Masuk (tambah modal)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cash-movement-amount">Jumlah</Label>
+            <Input
+              id="cash-movement-amount"
+              type="number"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-cash-movement-amount"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cash-movement-reason">Keterangan</Label>
+            <Input
+              id="cash-movement-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={type === 'cash_out' ? "Mis. beli galon, parkir" : "Mis. tambahan uang kembalian"}
+              data-testid="input-cash-movement-reason"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Batal</Button>
+            <Button
+              onClick={() => movementMutation.mutate()}
+              disabled={!amount || Number(amount) <= 0 || !reason.trim() || movementMutation.isPending}
+              data-testid="button-save-cash-movement"
+            >
+              Simpan
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
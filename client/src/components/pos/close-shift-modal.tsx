@@ -0,0 +1,141 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import ShiftReport from "@/components/pos/shift-report";
+
+interface CloseShiftModalProps {
+  open: boolean;
+  shift: any;
+  onClose: () => void;
+  onClosed: () => void;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+export default function CloseShiftModal({ open, shift, onClose, onClosed }: CloseShiftModalProps) {
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [zReport, setZReport] = useState<any>(null);
+  const { toast } = useToast();
+
+  // The X report doubles as the preview of what the drawer should hold
+  const { data: xReport } = useQuery<any>({
+    queryKey: ["/api/shifts", shift?.id, "report"],
+    enabled: open && !!shift && !zReport,
+    staleTime: 0,
+  });
+
+  const closeShiftMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/shifts/${shift.id}/close`, {
+      countedCash,
+      closingNotes: closingNotes || undefined,
+    }),
+    onSuccess: (report: any) => {
+      toast({ title: "Shift ditutup", description: report.shift.shiftNumber });
+      setZReport(report);
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal menutup shift", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleClose = () => {
+    const wasClosed = !!zReport;
+    setCountedCash("");
+    setClosingNotes("");
+    setZReport(null);
+    if (wasClosed) {
+      onClosed();
+    } else {
+      onClose();
+    }
+  };
+
+  const difference = countedCash !== "" && xReport ? Number(countedCash) - xReport.expectedCash : null;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && handleClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="no-print">
+          <DialogTitle>{zReport ? "Laporan Z" : "Tutup Shift"}</DialogTitle>
+        </DialogHeader>
+
+        {zReport ? (
+          <div className="space-y-4">
+            <ShiftReport report={zReport} />
+            <div className="flex justify-end no-print">
+              <Button onClick={handleClose} data-testid="button-finish-close-shift">Selesai</Button>
+            </div>
+          </div>
+        ) : !xReport ? (
+          <p className="text-muted-foreground">Memuat laporan shift...</p>
+        ) : (
+          <div className="space-y-4">
+            <ShiftReport report={xReport} />
+
+            <Separator className="no-print" />
+
+            <div className="space-y-4 no-print">
+              <div className="space-y-2">
+                <Label htmlFor="counted-cash">Kas Dihitung</Label>
+                <Input
+                  id="counted-cash"
+                  type="number"
+                  min="0"
+                  value={countedCash}
+                  onChange={(e) => setCountedCash(e.target.value)}
+                  data-testid="input-counted-cash"
+                />
+                {difference !== null && (
+                  <p className={`text-sm ${difference < 0 ? 'text-red-600' : difference > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                    {difference < 0 ? 'Kurang' : difference > 0 ? 'Lebih' : 'Sesuai'} {formatCurrency(Math.abs(difference))}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="closing-notes">Catatan</Label>
+                <Textarea
+                  id="closing-notes"
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleClose}>Batal</Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => closeShiftMutation.mutate()}
+                  disabled={countedCash === "" || closeShiftMutation.isPending}
+                  data-testid="button-close-shift"
+                >
+                  {closeShiftMutation.isPending ? "Menutup..." : "Tutup Shift"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface OpenShiftModalProps {
+  open: boolean;
+  onClose: () => void;
+  onOpened: (shift: any) => void;
+}
+
+export default function OpenShiftModal({ open, onClose, onOpened }: OpenShiftModalProps) {
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: ["/api/locations"],
+    enabled: open,
+  });
+
+  const openShiftMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/shifts', {
+      openingFloat: openingFloat || "0",
+      locationId: locationId || undefined,
+      notes: notes || undefined,
+    }),
+    onSuccess: (shift: any) => {
+      toast({ title: "Shift dibuka", description: shift.shiftNumber });
+      setOpeningFloat("");
+      setNotes("");
+      onOpened(shift);
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal membuka shift", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Buka Shift Kasir</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Penjualan hanya dapat diproses setelah shift dibuka. Hitung uang di laci kas sebagai modal awal.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="opening-float">Modal Awal Kas</Label>
+            <Input
+              id="opening-float"
+              type="number"
+              min="0"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              placeholder="0"
+              data-testid="input-opening-float"
+            />
+          </div>
+
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>Lokasi</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger data-testid="select-shift-location">
+                  <SelectValue placeholder="Lokasi default" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location: any) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="shift-notes">Catatan</Label>
+            <Textarea
+              id="shift-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Batal</Button>
+            <Button
+              onClick={() => openShiftMutation.mutate()}
+              disabled={openShiftMutation.isPending}
+              data-testid="button-open-shift"
+            >
+              {openShiftMutation.isPending ? "Membuka..." : "Buka Shift"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
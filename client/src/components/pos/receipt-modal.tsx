@@ -30,6 +30,15 @@ const paperSizes = {
 
 type PaperSize = keyof typeof paperSizes;
 
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  card: 'Kartu',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+  installment: 'Cicilan',
+  split: 'Campuran',
+};
+
 export default function ReceiptModal({ open, onClose, transaction }: ReceiptModalProps) {
   const [paperSize, setPaperSize] = useState<PaperSize>('a4');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -51,6 +60,14 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
 
   if (!transaction) return null;
 
+  // Return/exchange documents carry returned lines (returnCondition set) and exchange lines handed out
+  const isReturn = transaction.type === 'return';
+  const exchangeTotal = isReturn
+    ? (transaction.items || [])
+      .filter((item: any) => !item.returnCondition)
+      .reduce((sum: number, item: any) => sum + Number(item.totalPrice || 0), 0)
+    : 0;
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -107,7 +124,7 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
       } else {
         pdf.addImage(imgData, 'PNG', 0, 0, pageWidth, pageHeight);
       }
-      pdf.save(`Nota-Pembayaran-POS-${transaction.transactionNumber || transaction.id}-${paperSize === 'a4' ? 'A5' : pageWidth + 'mm'}.pdf`);
+      pdf.save(`${isReturn ? 'Nota-Retur-POS' : 'Nota-Pembayaran-POS'}-${transaction.transactionNumber || transaction.id}-${paperSize === 'a4' ? 'A5' : pageWidth + 'mm'}.pdf`);
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Error generating PDF. Please try again or contact support.');
@@ -246,7 +263,7 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader className="no-print">
-          <DialogTitle>Nota Pembayaran POS</DialogTitle>
+          <DialogTitle>{isReturn ? 'Nota Retur POS' : 'Nota Pembayaran POS'}</DialogTitle>
           <Button
             variant="ghost"
             size="sm"
@@ -356,7 +373,7 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                     paddingBottom: '2px',
                     marginBottom: '2px'
                   }}>
-                    ═══ NOTA PENJUALAN ═══
+                    {isReturn ? '═══ NOTA RETUR / TUKAR ═══' : '═══ NOTA PENJUALAN ═══'}
                   </div>
                 </div>
 
@@ -382,6 +399,14 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                       {transaction.user?.firstName || 'Admin'}
                     </span>
                   </div>
+                  {isReturn && transaction.originalTransactionNumber && (
+                    <div className="flex justify-between">
+                      <span>Transaksi Asal:</span>
+                      <span data-testid="text-original-transaction">
+                        {transaction.originalTransactionNumber}
+                      </span>
+                    </div>
+                  )}
                   {transaction.customer && (
                     <div className="flex justify-between">
                       <span>Pelanggan:</span>
@@ -410,12 +435,24 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                           <div className="font-bold" data-testid={`item-name-${index}`}>
                             {itemName}
                           </div>
+                          {isReturn && (
+                            <div className="text-xs" data-testid={`item-return-type-${index}`}>
+                              {item.returnCondition === 'normal_stock' ? 'Retur - kondisi baik' :
+                               item.returnCondition === 'damaged_stock' ? 'Retur - rusak' :
+                               'Barang pengganti'}
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <span>{quantity} x {formatCurrency(unitPrice)}</span>
                             <span data-testid={`item-total-${index}`}>
                               {formatCurrency(totalPrice)}
                             </span>
                           </div>
+                          {Array.isArray(item.serialNumbers) && item.serialNumbers.length > 0 && (
+                            <div className="text-xs" data-testid={`item-serials-${index}`}>
+                              SN: {item.serialNumbers.join(', ')}
+                            </div>
+                          )}
                         </div>
                       );
                     })
@@ -431,14 +468,22 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                 {/* Totals */}
                 <div className={`${getTextSize()} space-y-1`}>
                   <div className="flex justify-between">
-                    <span>Subtotal:</span>
+                    <span>{isReturn ? 'Nilai Retur:' : 'Subtotal:'}</span>
                     <span data-testid="receipt-subtotal">
                       {formatCurrency(Number(transaction.subtotal || 0))}
                     </span>
                   </div>
+                  {isReturn && exchangeTotal > 0 && (
+                    <div className="flex justify-between">
+                      <span>Barang Pengganti:</span>
+                      <span data-testid="receipt-exchange-total">
+                        -{formatCurrency(exchangeTotal)}
+                      </span>
+                    </div>
+                  )}
                   {transaction.taxAmount && Number(transaction.taxAmount) > 0 && (
                     <div className="flex justify-between">
-                      <span>Pajak:</span>
+                      <span>PPN:</span>
                       <span data-testid="receipt-tax">
                         {formatCurrency(Number(transaction.taxAmount))}
                       </span>
@@ -453,22 +498,38 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                     </div>
                   )}
                   <div className={`flex justify-between font-bold ${getTextSize()}`}>
-                    <span>TOTAL:</span>
+                    <span>
+                      {!isReturn ? 'TOTAL:' : Number(transaction.total || 0) >= 0 ? 'REFUND:' : 'KEKURANGAN BAYAR:'}
+                    </span>
                     <span data-testid="receipt-total">
-                      {formatCurrency(Number(transaction.total || 0))}
+                      {formatCurrency(isReturn ? Math.abs(Number(transaction.total || 0)) : Number(transaction.total || 0))}
                     </span>
                   </div>
                   {transaction.paymentMethod && (
                     <div className="flex justify-between">
                       <span>Pembayaran:</span>
                       <span data-testid="receipt-payment">
-                        {transaction.paymentMethod === 'cash' ? 'Tunai' : 
-                         transaction.paymentMethod === 'card' ? 'Kartu' : 
-                         transaction.paymentMethod === 'transfer' ? 'Transfer' : 
-                         transaction.paymentMethod}
+                        {PAYMENT_METHOD_LABELS[transaction.paymentMethod] || transaction.paymentMethod}
                       </span>
                     </div>
                   )}
+                  {!isReturn && (transaction.payments || []).map((payment: any) => (
+                    <div key={payment.id} className="space-y-1" data-testid={`receipt-payment-line-${payment.id}`}>
+                      <div className="flex justify-between">
+                        <span>
+                          {PAYMENT_METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod}
+                          {payment.reference ? ` (${payment.reference})` : ''}:
+                        </span>
+                        <span>{formatCurrency(Number(payment.tenderedAmount ?? payment.amount))}</span>
+                      </div>
+                      {Number(payment.changeAmount || 0) > 0 && (
+                        <div className="flex justify-between font-bold">
+                          <span>Kembali:</span>
+                          <span data-testid="receipt-change">{formatCurrency(Number(payment.changeAmount))}</span>
+                        </div>
+                      )}
+                    </div>
+                  ))}
                 </div>
 
                 {/* Warranty Information */}
@@ -520,13 +581,15 @@ export default function ReceiptModal({ open, onClose, transaction }: ReceiptModa
                   <div style={{ marginBottom: '2px', fontWeight: 'bold' }}>
                     {paperSize === '58' ? '★ TERIMA KASIH ★' : '★ TERIMA KASIH ATAS PEMBELIAN ANDA ★'}
                   </div>
+                  {!isReturn && (
+                    <div style={{ marginBottom: '1px' }}>
+                      {paperSize === '58' ? 'Barang dibeli tidak dapat dikembalikan' : 'Barang yang sudah dibeli tidak dapat dikembalikan'}
+                    </div>
+                  )}
                   <div style={{ marginBottom: '1px' }}>
-                    {paperSize === '58' ? 'Barang dibeli tidak dapat dikembalikan' : 'Barang yang sudah dibeli tidak dapat dikembalikan'}
-                  </div>
-                  <div style={{ marginBottom: '1px' }}>
-                    Simpan nota ini sebagai bukti pembelian
+                    {isReturn ? 'Simpan nota ini sebagai bukti retur' : 'Simpan nota ini sebagai bukti pembelian'}
                   </div>
-                  {paperSize === 'a4' && (
+                  {paperSize === 'a4' && !isReturn && (
                     <div style={{ marginBottom: '1px' }}>
                       Komplain maksimal 7 hari setelah pembelian
                     </div>
@@ -0,0 +1,469 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Plus, X } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import SerialNumberPicker from "@/components/pos/serial-number-picker";
+import { formatDateShort } from '@shared/utils/timezone';
+import { calculateLineTaxes, resolveTaxRate } from '@shared/tax';
+
+interface ReturnModalProps {
+  open: boolean;
+  onClose: () => void;
+  onComplete: (returnTransaction: any) => void;
+}
+
+type ReturnCondition = 'normal_stock' | 'damaged_stock';
+
+type ReturnSelection = {
+  quantity: number;
+  condition: ReturnCondition;
+  serialNumbers: string[];
+};
+
+type ExchangeLine = {
+  productId: string;
+  name: string;
+  trackSerial: boolean;
+  quantity: number;
+  unitPrice: number;
+  serialNumbers: string[];
+};
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+  installment: 'Cicilan',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+export default function ReturnModal({ open, onClose, onComplete }: ReturnModalProps) {
+  const [transactionNumber, setTransactionNumber] = useState("");
+  const [original, setOriginal] = useState<any>(null);
+  const [selections, setSelections] = useState<Record<string, ReturnSelection>>({});
+  const [exchangeLines, setExchangeLines] = useState<ExchangeLine[]>([]);
+  const [productSearch, setProductSearch] = useState("");
+  const [reason, setReason] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const { toast } = useToast();
+
+  const { data: products = [] } = useQuery<any[]>({
+    queryKey: ["/api/products"],
+    enabled: open && !!original,
+  });
+
+  const { data: storeConfig } = useQuery<any>({
+    queryKey: ["/api/store-config"],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setTransactionNumber("");
+    setOriginal(null);
+    setSelections({});
+    setExchangeLines([]);
+    setProductSearch("");
+    setReason("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const lookupTransaction = async () => {
+    if (!transactionNumber.trim()) return;
+    setIsLookingUp(true);
+    try {
+      const response = await fetch(`/api/returns/lookup?transactionNumber=${encodeURIComponent(transactionNumber.trim())}`, {
+        credentials: "include",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Transaksi tidak ditemukan");
+      }
+      setOriginal(data);
+      setSelections({});
+      setExchangeLines([]);
+    } catch (error: any) {
+      setOriginal(null);
+      toast({ title: "Transaksi tidak ditemukan", description: error.message, variant: "destructive" });
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const updateSelection = (itemId: string, patch: Partial<ReturnSelection>) => {
+    setSelections((current) => {
+      const existing = current[itemId] ?? { quantity: 0, condition: 'normal_stock' as ReturnCondition, serialNumbers: [] };
+      return { ...current, [itemId]: { ...existing, ...patch } };
+    });
+  };
+
+  const toggleSerial = (item: any, serial: string) => {
+    const existing = selections[item.id]?.serialNumbers ?? [];
+    const serialNumbers = existing.includes(serial)
+      ? existing.filter((value) => value !== serial)
+      : [...existing, serial];
+    updateSelection(item.id, { serialNumbers, quantity: serialNumbers.length });
+  };
+
+  const addExchangeProduct = (product: any) => {
+    setExchangeLines((lines) => {
+      const existing = lines.find((line) => line.productId === product.id);
+      if (existing) {
+        return lines.map((line) => line.productId === product.id ? { ...line, quantity: line.quantity + 1 } : line);
+      }
+      return [...lines, {
+        productId: product.id,
+        name: product.name,
+        trackSerial: Boolean(product.trackSerial),
+        quantity: 1,
+        unitPrice: Number(product.sellingPrice || 0),
+        serialNumbers: [],
+      }];
+    });
+    setProductSearch("");
+  };
+
+  const returnItems = original
+    ? original.items
+      .map((item: any) => ({ item, selection: selections[item.id] }))
+      .filter(({ selection }: any) => selection && selection.quantity > 0)
+    : [];
+
+  const returnedValue = returnItems.reduce((sum: number, { item, selection }: any) => {
+    const unitRefund = Number(item.refundAmount) / Math.max(item.quantity, 1);
+    return sum + unitRefund * selection.quantity;
+  }, 0);
+  // Exchange goods are charged PPN like a new sale
+  const productsById = new Map(products.map((product: any) => [product.id, product]));
+  const exchangeValue = calculateLineTaxes(
+    exchangeLines.map((line) => ({
+      amount: line.unitPrice * line.quantity,
+      taxInclusive: productsById.get(line.productId)?.taxInclusive,
+      taxExempt: productsById.get(line.productId)?.taxExempt,
+    })),
+    resolveTaxRate(storeConfig?.taxRate),
+  ).reduce((sum, line) => sum + line.taxableAmount + line.taxAmount, 0);
+  const netRefund = returnedValue - exchangeValue;
+
+  const filteredProducts = productSearch
+    ? products.filter((product: any) =>
+      product.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+      product.barcode?.toLowerCase().includes(productSearch.toLowerCase())
+    ).slice(0, 6)
+    : [];
+
+  const createReturnMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/returns', {
+      originalTransactionId: original.id,
+      items: returnItems.map(({ item, selection }: any) => ({
+        transactionItemId: item.id,
+        quantity: selection.quantity,
+        condition: selection.condition,
+        serialNumbers: item.trackSerial ? selection.serialNumbers : undefined,
+      })),
+      exchangeItems: exchangeLines.map((line) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        serialNumbers: line.trackSerial ? line.serialNumbers : undefined,
+      })),
+      reason: reason || undefined,
+    }),
+    onSuccess: (returnTransaction: any) => {
+      toast({
+        title: "Retur berhasil diproses",
+        description: `${returnTransaction.transactionNumber} - ${netRefund >= 0 ? 'refund' : 'kekurangan bayar'} ${formatCurrency(Math.abs(netRefund))}`,
+      });
+      reset();
+      onComplete(returnTransaction);
+    },
+    onError: (error: any) => {
+      toast({ title: "Retur gagal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = returnItems.length > 0 && returnItems.every(({ item, selection }: any) =>
+    !item.trackSerial || selection.serialNumbers.length === selection.quantity
+  ) && exchangeLines.every((line) => !line.trackSerial || line.serialNumbers.length === line.quantity);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Retur / Tukar Barang</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              lookupTransaction();
+            }}
+          >
+            <Input
+              value={transactionNumber}
+              onChange={(e) => setTransactionNumber(e.target.value)}
+              placeholder="Nomor transaksi, mis. TRX-1700000000000"
+              className="font-mono"
+              autoFocus
+              data-testid="input-return-transaction-number"
+            />
+            <Button type="submit" disabled={isLookingUp} data-testid="button-lookup-return">
+              <Search className="w-4 h-4 mr-2" />
+              {isLookingUp ? "Mencari..." : "Cari"}
+            </Button>
+          </form>
+
+          {original && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Transaksi</div>
+                  <div className="font-medium">{original.transactionNumber}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Tanggal</div>
+                  <div className="font-medium">{formatDateShort(original.createdAt)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Pelanggan</div>
+                  <div className="font-medium">{original.customer?.name || 'Walk-in Customer'}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Pembayaran Asal</div>
+                  <div className="font-medium">{PAYMENT_METHOD_LABELS[original.paymentMethod] || original.paymentMethod || 'Tunai'}</div>
+                </div>
+              </div>
+
+              {original.returns?.length > 0 && (
+                <div className="text-sm text-muted-foreground">
+                  Retur sebelumnya: {original.returns.map((ret: any) => ret.transactionNumber).join(', ')}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                <Label>Barang yang Diretur</Label>
+                {original.items.map((item: any) => {
+                  const selection = selections[item.id];
+                  const unitRefund = Number(item.refundAmount) / Math.max(item.quantity, 1);
+                  const availableSerials = item.serialNumbers.filter((serial: string) => !item.returnedSerials.includes(serial));
+
+                  return (
+                    <div key={item.id} className="border rounded-lg p-3 space-y-2" data-testid={`return-item-${item.id}`}>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="font-medium">{item.productName}</div>
+                          <div className="text-xs text-muted-foreground">
+                            Dibeli {item.quantity} × {formatCurrency(unitRefund)} • dapat diretur {item.returnableQuantity}
+                          </div>
+                        </div>
+                        {item.returnableQuantity === 0 ? (
+                          <Badge variant="secondary">Sudah diretur</Badge>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            {!item.trackSerial && (
+                              <Input
+                                type="number"
+                                min="0"
+                                max={item.returnableQuantity}
+                                className="w-20 h-8"
+                                value={selection?.quantity ?? 0}
+                                onChange={(e) => {
+                                  const quantity = Math.min(Math.max(parseInt(e.target.value) || 0, 0), item.returnableQuantity);
+                                  updateSelection(item.id, { quantity });
+                                }}
+                                data-testid={`input-return-quantity-${item.id}`}
+                              />
+                            )}
+                            <Select
+                              value={selection?.condition ?? 'normal_stock'}
+                              onValueChange={(value: ReturnCondition) => updateSelection(item.id, { condition: value })}
+                            >
+                              <SelectTrigger className="w-44 h-8" data-testid={`select-return-condition-${item.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="normal_stock">Baik - masuk stok</SelectItem>
+                                <SelectItem value="damaged_stock">Rusak - barang rusak</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                      </div>
+
+                      {item.trackSerial && availableSerials.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {availableSerials.map((serial: string) => (
+                            <Badge
+                              key={serial}
+                              variant={selection?.serialNumbers.includes(serial) ? 'default' : 'outline'}
+                              className="cursor-pointer font-mono text-xs"
+                              onClick={() => toggleSerial(item, serial)}
+                              data-testid={`badge-return-serial-${serial}`}
+                            >
+                              {serial}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-3">
+                <Label>Barang Pengganti (Tukar)</Label>
+                <div className="relative">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                    placeholder="Cari produk pengganti..."
+                    className="pl-8"
+                    data-testid="input-exchange-search"
+                  />
+                </div>
+                {filteredProducts.length > 0 && (
+                  <div className="border rounded-lg divide-y">
+                    {filteredProducts.map((product: any) => (
+                      <button
+                        type="button"
+                        key={product.id}
+                        className="w-full flex items-center justify-between p-2 text-sm hover:bg-muted/50"
+                        onClick={() => addExchangeProduct(product)}
+                      >
+                        <span>{product.name}</span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          {formatCurrency(Number(product.sellingPrice || 0))} • stok {product.stock}
+                          <Plus className="w-4 h-4" />
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {exchangeLines.map((line) => (
+                  <div key={line.productId} className="border rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="font-medium flex-1">{line.name}</div>
+                      <Input
+                        type="number"
+                        min="1"
+                        className="w-20 h-8"
+                        value={line.quantity}
+                        onChange={(e) => {
+                          const quantity = Math.max(parseInt(e.target.value) || 1, 1);
+                          setExchangeLines((lines) => lines.map((current) =>
+                            current.productId === line.productId ? { ...current, quantity } : current
+                          ));
+                        }}
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        className="w-32 h-8"
+                        value={line.unitPrice}
+                        onChange={(e) => {
+                          const unitPrice = Math.max(Number(e.target.value) || 0, 0);
+                          setExchangeLines((lines) => lines.map((current) =>
+                            current.productId === line.productId ? { ...current, unitPrice } : current
+                          ));
+                        }}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExchangeLines((lines) => lines.filter((current) => current.productId !== line.productId))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {line.trackSerial && (
+                      <SerialNumberPicker
+                        productId={line.productId}
+                        quantity={line.quantity}
+                        value={line.serialNumbers}
+                        onChange={(serialNumbers) => setExchangeLines((lines) => lines.map((current) =>
+                          current.productId === line.productId ? { ...current, serialNumbers } : current
+                        ))}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="returnReason">Alasan Retur</Label>
+                <Textarea
+                  id="returnReason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Mis. salah tipe, cacat, berubah pikiran"
+                />
+              </div>
+
+              <div className="rounded-lg bg-muted p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Nilai barang diretur</span>
+                  <span>{formatCurrency(returnedValue)}</span>
+                </div>
+                {exchangeLines.length > 0 && (
+                  <div className="flex justify-between">
+                    <span>Nilai barang pengganti</span>
+                    <span>-{formatCurrency(exchangeValue)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-bold text-base">
+                  <span>{netRefund >= 0 ? 'Dikembalikan ke pelanggan' : 'Pelanggan membayar'}</span>
+                  <span data-testid="text-return-net">{formatCurrency(Math.abs(netRefund))}</span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Melalui metode pembayaran asal: {PAYMENT_METHOD_LABELS[original.paymentMethod] || original.paymentMethod || 'Tunai'}
+                  {original.paymentMethod === 'installment' && ' (mengurangi sisa cicilan terlebih dahulu)'}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleClose}>Batal</Button>
+                <Button
+                  onClick={() => createReturnMutation.mutate()}
+                  disabled={!canSubmit || createReturnMutation.isPending}
+                  data-testid="button-submit-return"
+                >
+                  {createReturnMutation.isPending ? "Memproses..." : "Proses Retur"}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
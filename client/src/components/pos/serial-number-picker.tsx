@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+
+interface SerialNumberPickerProps {
+  productId: string;
+  quantity: number;
+  value: string[];
+  onChange: (serialNumbers: string[]) => void;
+}
+
+export default function SerialNumberPicker({ productId, quantity, value, onChange }: SerialNumberPickerProps) {
+  const [serialInput, setSerialInput] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Only units still in stock can be sold
+  const { data: availableSerials = [] } = useQuery<any[]>({
+    queryKey: ["/api/products", productId, "serials"],
+    queryFn: async () => {
+      const response = await fetch(`/api/products/${productId}/serials?status=in_stock`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch serial numbers");
+      return response.json();
+    },
+    staleTime: 0,
+  });
+
+  const addSerial = (rawSerial: string) => {
+    const serial = rawSerial.trim();
+    if (!serial) return;
+
+    if (value.includes(serial)) {
+      setError(`${serial} sudah dipilih`);
+      return;
+    }
+
+    if (!availableSerials.some((row: any) => row.serialNumber === serial)) {
+      setError(`${serial} tidak tersedia di stok`);
+      return;
+    }
+
+    if (value.length >= quantity) {
+      setError(`Maksimal ${quantity} nomor seri untuk item ini`);
+      return;
+    }
+
+    setError(null);
+    setSerialInput("");
+    onChange([...value, serial]);
+  };
+
+  const suggestions = availableSerials
+    .filter((row: any) => !value.includes(row.serialNumber))
+    .filter((row: any) => !serialInput || row.serialNumber.toLowerCase().includes(serialInput.toLowerCase()))
+    .slice(0, 5);
+
+  return (
+    <div className="mt-2 space-y-2 border-t pt-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-muted-foreground">Nomor Seri</span>
+        <span className={value.length === quantity ? "text-green-600" : "text-orange-600"}>
+          {value.length}/{quantity}
+        </span>
+      </div>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((serial) => (
+            <Badge key={serial} variant="secondary" className="font-mono text-xs">
+              {serial}
+              <button
+                type="button"
+                className="ml-1"
+                onClick={() => onChange(value.filter((item) => item !== serial))}
+                data-testid={`button-remove-serial-${serial}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {value.length < quantity && (
+        <>
+          <Input
+            placeholder="Pindai atau ketik nomor seri..."
+            value={serialInput}
+            onChange={(e) => setSerialInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addSerial(serialInput);
+              }
+            }}
+            className="h-8 font-mono text-xs"
+            data-testid={`input-serial-${productId}`}
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {suggestions.map((row: any) => (
+                <Badge
+                  key={row.id}
+                  variant="outline"
+                  className="cursor-pointer font-mono text-xs"
+                  onClick={() => addSerial(row.serialNumber)}
+                >
+                  {row.serialNumber}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { formatDateWithTime } from '@shared/utils/timezone';
+
+interface ShiftReportProps {
+  report: any;
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Tunai',
+  transfer: 'Transfer',
+  qris: 'QRIS',
+  installment: 'Cicilan',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDateTime = (value?: string | null) => value ? formatDateWithTime(value) : '-';
+
+export default function ShiftReport({ report }: ShiftReportProps) {
+  const { shift, payments = [], cashMovements = [], totals } = report;
+  const isZReport = report.reportType === 'Z';
+
+  const handlePrint = () => {
+    const printStyle = `
+      <style id="shift-report-print-style">
+        @media print {
+          * { visibility: hidden; }
+          #shift-report-content, #shift-report-content * { visibility: visible; }
+          #shift-report-content {
+            position: absolute;
+            left: 0;
+            top: 0;
+            width: 80mm;
+            font-family: "Courier New", monospace;
+            font-size: 9px;
+            color: #000;
+            background: #fff;
+            padding: 3mm;
+          }
+          .no-print { display: none !important; }
+          @page { size: 80mm auto; margin: 1mm; }
+        }
+        @media screen {
+          #shift-report-print-style { display: none; }
+        }
+      </style>
+    `;
+
+    const oldStyle = document.getElementById('shift-report-print-style');
+    if (oldStyle) oldStyle.remove();
+
+    document.head.insertAdjacentHTML('beforeend', printStyle);
+    window.print();
+
+    setTimeout(() => {
+      document.getElementById('shift-report-print-style')?.remove();
+    }, 1000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end no-print">
+        <Button variant="outline" size="sm" onClick={handlePrint} data-testid="button-print-shift-report">
+          <Printer className="w-4 h-4 mr-2" />
+          Cetak Laporan {report.reportType}
+        </Button>
+      </div>
+
+      <div id="shift-report-content" className="space-y-3 text-sm font-mono">
+        <div className="text-center">
+          <h3 className="font-bold">LAPORAN {report.reportType} {isZReport ? '(TUTUP SHIFT)' : '(SEMENTARA)'}</h3>
+          <p>{shift.shiftNumber}</p>
+        </div>
+
+        <div className="border-t border-dashed pt-2 space-y-1">
+          <div className="flex justify-between"><span>Kasir</span><span>{shift.userName || '-'}</span></div>
+          <div className="flex justify-between"><span>Lokasi</span><span>{shift.locationName || '-'}</span></div>
+          <div className="flex justify-between"><span>Buka</span><span>{formatDateTime(shift.openedAt)}</span></div>
+          <div className="flex justify-between"><span>Tutup</span><span>{formatDateTime(shift.closedAt)}</span></div>
+          <div className="flex justify-between"><span>Dicetak</span><span>{formatDateTime(report.generatedAt)}</span></div>
+        </div>
+
+        <div className="border-t border-dashed pt-2 space-y-2">
+          <p className="font-bold">PER METODE BAYAR</p>
+          {payments.length === 0 ? (
+            <p className="text-muted-foreground">Belum ada transaksi</p>
+          ) : (
+            payments.map((payment: any) => (
+              <div key={payment.paymentMethod} className="space-y-1" data-testid={`shift-payment-${payment.paymentMethod}`}>
+                <div className="flex justify-between font-bold">
+                  <span>{PAYMENT_METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod} ({payment.transactionCount})</span>
+                  <span>{formatCurrency(payment.net)}</span>
+                </div>
+                <div className="flex justify-between pl-2"><span>Penjualan</span><span>{formatCurrency(payment.sales)}</span></div>
+                {payment.refunds !== 0 && (
+                  <div className="flex justify-between pl-2"><span>Retur</span><span>-{formatCurrency(payment.refunds)}</span></div>
+                )}
+                {payment.collections > 0 && (
+                  <div className="flex justify-between pl-2"><span>Setoran Cicilan</span><span>{formatCurrency(payment.collections)}</span></div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {cashMovements.length > 0 && (
+          <div className="border-t border-dashed pt-2 space-y-1">
+            <p className="font-bold">KAS MASUK / KELUAR</p>
+            {cashMovements.map((movement: any) => (
+              <div key={movement.id} className="flex justify-between">
+                <span>{formatDateTime(movement.createdAt)} {movement.reason}</span>
+                <span>{movement.type === 'cash_out' ? '-' : ''}{formatCurrency(Number(movement.amount))}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t border-dashed pt-2 space-y-1">
+          <p className="font-bold">REKONSILIASI KAS</p>
+          <div className="flex justify-between"><span>Modal Awal</span><span>{formatCurrency(Number(shift.openingFloat || 0))}</span></div>
+          <div className="flex justify-between"><span>Kas Masuk</span><span>{formatCurrency(totals.cashIn)}</span></div>
+          <div className="flex justify-between"><span>Kas Keluar</span><span>-{formatCurrency(totals.cashOut)}</span></div>
+          <div className="flex justify-between font-bold"><span>Kas Seharusnya</span><span>{formatCurrency(report.expectedCash)}</span></div>
+          {report.countedCash !== null && (
+            <>
+              <div className="flex justify-between"><span>Kas Dihitung</span><span>{formatCurrency(report.countedCash)}</span></div>
+              <div className={`flex justify-between font-bold ${report.difference < 0 ? 'text-red-600' : report.difference > 0 ? 'text-green-600' : ''}`}>
+                <span>{report.difference < 0 ? 'Kurang' : report.difference > 0 ? 'Lebih' : 'Selisih'}</span>
+                <span>{formatCurrency(Math.abs(report.difference))}</span>
+              </div>
+            </>
+          )}
+        </div>
+
+        {(shift.notes || shift.closingNotes) && (
+          <div className="border-t border-dashed pt-2 space-y-1">
+            {shift.notes && <p>Catatan buka: {shift.notes}</p>}
+            {shift.closingNotes && <p>Catatan tutup: {shift.closingNotes}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
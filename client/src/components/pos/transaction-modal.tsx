@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -16,28 +16,53 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Minus, X, Search, Barcode, Percent, DollarSign } from "lucide-react";
+import { Plus, Minus, X, Search, Barcode, Percent, DollarSign, PauseCircle } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import CustomerCreateModal from "@/components/customers/customer-create-modal";
+import SerialNumberPicker from "@/components/pos/serial-number-picker";
 import { getCurrentJakartaTime, formatDateLong } from '@shared/utils/timezone';
+import { calculateLineTaxes, resolveTaxRate, summarizeLineTaxes } from '@shared/tax';
 
 interface TransactionModalProps {
   open: boolean;
   onClose: () => void;
   onComplete: (transaction: any) => void;
+  // Cart taken back from the parked list; loaded into the form when it changes
+  resumedCart?: any | null;
+  onParked?: (cart: any) => void;
+  onCartItemsChange?: (count: number) => void;
 }
 
+interface PaymentLine {
+  paymentMethod: "cash" | "transfer" | "qris";
+  amount: number;
+  reference: string;
+}
+
+const PAYMENT_LINE_LABELS: Record<PaymentLine["paymentMethod"], string> = {
+  cash: "Tunai",
+  transfer: "Transfer Bank",
+  qris: "QRIS",
+};
+
 interface TransactionItem {
   productId: string;
   name: string;
   sellingPrice: number;
   quantity: number;
   stock?: number;
+  trackSerial?: boolean;
+  serialNumbers?: string[];
 }
 
-export default function TransactionModal({ open, onClose, onComplete }: TransactionModalProps) {
+const POS_LOCATION_STORAGE_KEY = "pos-location-id";
+
+// Units already held by parked carts cannot be added to another cart
+const availableStock = (product: any) => Math.max(0, Number(product?.stock || 0) - Number(product?.reservedStock || 0));
+
+export default function TransactionModal({ open, onClose, onComplete, resumedCart, onParked, onCartItemsChange }: TransactionModalProps) {
   const [selectedCustomer, setSelectedCustomer] = useState<any>(null);
   const [customerSearch, setCustomerSearch] = useState("");
   const [paymentMethod, setPaymentMethod] = useState("cash");
@@ -45,15 +70,30 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
   const [productSearch, setProductSearch] = useState("");
   const [selectedProducts, setSelectedProducts] = useState<any[]>([]);
   const [showCustomerCreateModal, setShowCustomerCreateModal] = useState(false);
+  // Each terminal remembers which store/warehouse it sells from
+  const [locationId, setLocationId] = useState<string>(() => localStorage.getItem(POS_LOCATION_STORAGE_KEY) || "");
   
   // Discount states
   const [discountType, setDiscountType] = useState<"percentage" | "rupiah">("percentage");
   const [discountValue, setDiscountValue] = useState<number>(0);
   const [showDiscountSection, setShowDiscountSection] = useState(false);
   
+  // Cash tendered (single cash payment) and payment lines (split payment)
+  const [cashTendered, setCashTendered] = useState<number>(0);
+  const [paymentLines, setPaymentLines] = useState<PaymentLine[]>([]);
+  
+  // Installment states
+  const [downPayment, setDownPayment] = useState<number>(0);
+  const [numberOfTerms, setNumberOfTerms] = useState<number>(3);
+  const [installmentFrequency, setInstallmentFrequency] = useState<"monthly" | "weekly">("monthly");
+  
   // Warranty states
   const [warrantyDuration, setWarrantyDuration] = useState<number>(0);
   const [showWarrantySection, setShowWarrantySection] = useState(false);
+
+  // Parking states
+  const [showParkForm, setShowParkForm] = useState(false);
+  const [parkLabel, setParkLabel] = useState("");
   
   const { toast } = useToast();
 
@@ -78,6 +118,15 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
     retry: false,
   });
 
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const handleLocationChange = (value: string) => {
+    setLocationId(value);
+    localStorage.setItem(POS_LOCATION_STORAGE_KEY, value);
+  };
+
   // Fetch customers
   const { data: customers = [], isLoading: customersLoading } = useQuery({
     queryKey: ["/api/customers", customerSearch],
@@ -102,6 +151,79 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
     product.barcode?.toLowerCase().includes(productSearch.toLowerCase())
   ) : [];
 
+  // Load a resumed parked cart back into the form
+  useEffect(() => {
+    if (!resumedCart) return;
+    const settings = resumedCart.settings || {};
+    const productList = Array.isArray(products) ? products : [];
+
+    setItems((resumedCart.items || []).map((item: any) => {
+      const product = productList.find((candidate: any) => candidate.id === item.productId);
+      return {
+        productId: item.productId,
+        name: item.name || product?.name || item.productId,
+        sellingPrice: Number(item.unitPrice || 0),
+        quantity: Number(item.quantity),
+        stock: product ? availableStock(product) : Number(item.quantity),
+        trackSerial: Boolean(product?.trackSerial),
+        serialNumbers: product?.trackSerial ? (item.serialNumbers || []) : undefined,
+      };
+    }));
+    setSelectedCustomer(settings.customer || null);
+    setPaymentMethod(settings.paymentMethod || "cash");
+    setDiscountType(settings.discountType || "percentage");
+    setDiscountValue(Number(settings.discountValue || 0));
+    setShowDiscountSection(Number(settings.discountValue || 0) > 0);
+    setWarrantyDuration(Number(settings.warrantyDuration || 0));
+    setShowWarrantySection(Number(settings.warrantyDuration || 0) > 0);
+    setDownPayment(Number(settings.downPayment || 0));
+    setNumberOfTerms(Number(settings.numberOfTerms || 3));
+    setInstallmentFrequency(settings.installmentFrequency || "monthly");
+    if (resumedCart.locationId) {
+      setLocationId(resumedCart.locationId);
+    }
+  }, [resumedCart]);
+
+  useEffect(() => {
+    onCartItemsChange?.(items.length);
+  }, [items.length, onCartItemsChange]);
+
+  // Park the current cart so another customer can be served
+  const parkCartMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/parked-carts', {
+      label: parkLabel || undefined,
+      customerId: selectedCustomer?.id || null,
+      locationId: locations.some((location: any) => location.id === locationId) ? locationId : null,
+      items: items.map(item => ({
+        productId: item.productId,
+        name: item.name,
+        quantity: item.quantity,
+        unitPrice: Math.round(item.sellingPrice).toString(),
+        ...(item.trackSerial ? { serialNumbers: item.serialNumbers } : {}),
+      })),
+      settings: {
+        customer: selectedCustomer
+          ? { id: selectedCustomer.id, name: selectedCustomer.name, phone: selectedCustomer.phone, email: selectedCustomer.email }
+          : null,
+        paymentMethod,
+        discountType,
+        discountValue,
+        warrantyDuration,
+        downPayment,
+        numberOfTerms,
+        installmentFrequency,
+      },
+    }),
+    onSuccess: (cart: any) => {
+      toast({ title: "Keranjang ditahan", description: cart.label || cart.cartNumber });
+      resetForm();
+      onParked?.(cart);
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal menahan keranjang", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Create transaction mutation
   const createTransactionMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -138,6 +260,13 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
     setShowDiscountSection(false);
     setWarrantyDuration(0);
     setShowWarrantySection(false);
+    setDownPayment(0);
+    setNumberOfTerms(3);
+    setInstallmentFrequency("monthly");
+    setShowParkForm(false);
+    setParkLabel("");
+    setCashTendered(0);
+    setPaymentLines([]);
   };
 
   const selectCustomer = (customer: any) => {
@@ -177,7 +306,11 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
           });
           return item;
         }
-        return { ...item, quantity: newQuantity };
+        return {
+          ...item,
+          quantity: newQuantity,
+          serialNumbers: item.serialNumbers?.slice(0, newQuantity),
+        };
       }
       return item;
     }).filter(item => item.quantity > 0));
@@ -188,7 +321,7 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
   };
 
   const addProductToCart = (product: any) => {
-    if (product.stock <= 0) {
+    if (availableStock(product) <= 0) {
       toast({
         title: "Out of Stock",
         description: `${product.name} is out of stock`,
@@ -212,7 +345,9 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
         name: product.name,
         sellingPrice: sellingPrice,
         quantity: 1,
-        stock: product.stock,
+        stock: availableStock(product),
+        trackSerial: Boolean(product.trackSerial),
+        serialNumbers: product.trackSerial ? [] : undefined,
       };
       // Item created successfully
       setItems(prev => [...prev, newItem]);
@@ -235,9 +370,49 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
   }
   
   const discountedSubtotal = subtotal - discountAmount;
-  const taxRate = Number(storeConfig?.taxRate || 11) / 100;
-  const tax = discountedSubtotal * taxRate;
-  const total = discountedSubtotal + tax;
+  const taxRatePercent = resolveTaxRate(storeConfig?.taxRate);
+
+  // PPN per line as the server prices it: exempt products carry none, tax-inclusive prices already contain it
+  const productsById = new Map((products as any[]).map((product) => [product.id, product]));
+  const taxSummary = summarizeLineTaxes(calculateLineTaxes(
+    items.map((item) => ({
+      amount: Math.round(item.sellingPrice * item.quantity),
+      taxInclusive: productsById.get(item.productId)?.taxInclusive,
+      taxExempt: productsById.get(item.productId)?.taxExempt,
+    })),
+    taxRatePercent,
+    Math.round(discountAmount),
+  ));
+  const tax = taxSummary.taxAmount;
+  const total = discountedSubtotal + taxSummary.addedTax;
+
+  // Amount due as the server computes it from the rounded lines sent below
+  const amountDue = items.reduce((sum, item) => sum + Math.round(item.sellingPrice * item.quantity), 0)
+    - Math.round(discountAmount)
+    + taxSummary.addedTax;
+  const splitPaid = paymentLines.reduce((sum, line) => sum + (line.amount || 0), 0);
+  const splitNonCash = paymentLines
+    .filter(line => line.paymentMethod !== "cash")
+    .reduce((sum, line) => sum + (line.amount || 0), 0);
+  const changeDue = paymentMethod === "cash"
+    ? Math.max(0, cashTendered - amountDue)
+    : paymentMethod === "split"
+    ? Math.max(0, splitPaid - amountDue)
+    : 0;
+
+  const handlePaymentMethodChange = (value: string) => {
+    setPaymentMethod(value);
+    if (value === "split" && paymentLines.length === 0) {
+      setPaymentLines([
+        { paymentMethod: "cash", amount: 0, reference: "" },
+        { paymentMethod: "qris", amount: 0, reference: "" },
+      ]);
+    }
+  };
+
+  const updatePaymentLine = (index: number, patch: Partial<PaymentLine>) => {
+    setPaymentLines(prev => prev.map((line, lineIndex) => lineIndex === index ? { ...line, ...patch } : line));
+  };
 
   const handleProcessTransaction = () => {
     if (items.length === 0) {
@@ -258,6 +433,64 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
       return;
     }
 
+    if (paymentMethod === 'installment') {
+      if (!selectedCustomer) {
+        toast({
+          title: "Error",
+          description: "Penjualan cicilan membutuhkan pelanggan",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (downPayment >= total || numberOfTerms < 1) {
+        toast({
+          title: "Error",
+          description: "Uang muka harus lebih kecil dari total dan jumlah cicilan minimal 1",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (paymentMethod === 'cash' && cashTendered > 0 && cashTendered < amountDue) {
+      toast({
+        title: "Error",
+        description: "Uang yang diterima kurang dari total tagihan",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (paymentMethod === 'split') {
+      if (splitNonCash > amountDue) {
+        toast({
+          title: "Error",
+          description: "Pembayaran non-tunai melebihi total tagihan",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (splitPaid < amountDue) {
+        toast({
+          title: "Error",
+          description: `Pembayaran masih kurang Rp ${(amountDue - splitPaid).toLocaleString('id-ID')}`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const missingSerialItem = items.find(item => item.trackSerial && (item.serialNumbers?.length || 0) !== item.quantity);
+    if (missingSerialItem) {
+      toast({
+        title: "Nomor seri belum lengkap",
+        description: `Pilih ${missingSerialItem.quantity} nomor seri untuk ${missingSerialItem.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Calculate warranty data if warranty is provided
     let warrantyData = {};
     if (warrantyDuration > 0) {
@@ -278,6 +511,7 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
         type: 'sale' as const,
         customerId: selectedCustomer?.id || null,
         paymentMethod: paymentMethod || 'cash',
+        locationId: locations.some((location: any) => location.id === locationId) ? locationId : null,
         subtotal: Math.round(subtotal).toString(),
         taxAmount: Math.round(tax).toString(),
         discountAmount: Math.round(discountAmount).toString(),
@@ -290,7 +524,30 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
         quantity: item.quantity,
         unitPrice: Math.round(item.sellingPrice).toString(),
         totalPrice: Math.round(item.sellingPrice * item.quantity).toString(),
+        ...(item.trackSerial ? { serialNumbers: item.serialNumbers } : {}),
       })),
+      ...(paymentMethod === 'split'
+        ? {
+            payments: paymentLines
+              .filter(line => line.amount > 0)
+              .map(line => ({
+                paymentMethod: line.paymentMethod,
+                amount: Math.round(line.amount).toString(),
+                reference: line.reference || undefined,
+              })),
+          }
+        : paymentMethod === 'cash' && cashTendered > 0
+        ? { payments: [{ paymentMethod: 'cash', amount: Math.round(cashTendered).toString() }] }
+        : {}),
+      ...(paymentMethod === 'installment'
+        ? {
+            installment: {
+              downPayment: Math.round(downPayment).toString(),
+              numberOfTerms,
+              frequency: installmentFrequency,
+            },
+          }
+        : {}),
     };
 
     createTransactionMutation.mutate(transactionData);
@@ -402,9 +659,25 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
               </div>
             </div>
 
+            {locations.length > 1 && (
+              <div>
+                <Label htmlFor="location">Lokasi Penjualan</Label>
+                <Select value={locationId} onValueChange={handleLocationChange}>
+                  <SelectTrigger data-testid="select-sale-location">
+                    <SelectValue placeholder="Lokasi utama" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations.map((location: any) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <Label htmlFor="payment">Metode Pembayaran</Label>
-              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+              <Select value={paymentMethod} onValueChange={handlePaymentMethodChange}>
                 <SelectTrigger data-testid="select-payment-method">
                   <SelectValue placeholder="Pilih metode pembayaran" />
                 </SelectTrigger>
@@ -413,9 +686,150 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
                   <SelectItem value="transfer">Transfer Bank</SelectItem>
                   <SelectItem value="credit">Kartu Kredit</SelectItem>
                   <SelectItem value="debit">Kartu Debit</SelectItem>
+                  <SelectItem value="installment">Cicilan</SelectItem>
+                  <SelectItem value="split">Campuran (Split)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
+
+            {paymentMethod === 'cash' && (
+              <div className="space-y-1">
+                <Label htmlFor="cashTendered">Uang Diterima (Rp)</Label>
+                <Input
+                  id="cashTendered"
+                  type="number"
+                  min="0"
+                  value={cashTendered || ""}
+                  onChange={(e) => setCashTendered(Number(e.target.value) || 0)}
+                  placeholder={`Minimal ${amountDue.toLocaleString('id-ID')}`}
+                  data-testid="input-cash-tendered"
+                />
+                {cashTendered > 0 && (
+                  <div className={`text-sm ${cashTendered < amountDue ? 'text-destructive' : 'text-green-600'}`} data-testid="text-change-due">
+                    {cashTendered < amountDue
+                      ? `Kurang Rp ${(amountDue - cashTendered).toLocaleString('id-ID')}`
+                      : `Kembalian Rp ${changeDue.toLocaleString('id-ID')}`}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {paymentMethod === 'split' && (
+              <Card className="p-4">
+                <div className="space-y-3">
+                  <Label>Rincian Pembayaran</Label>
+                  {paymentLines.map((line, index) => (
+                    <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                      <div className="col-span-4">
+                        <Select
+                          value={line.paymentMethod}
+                          onValueChange={(value) => updatePaymentLine(index, { paymentMethod: value as PaymentLine["paymentMethod"] })}
+                        >
+                          <SelectTrigger data-testid={`select-payment-line-method-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(PAYMENT_LINE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Input
+                        className="col-span-4"
+                        type="number"
+                        min="0"
+                        value={line.amount || ""}
+                        onChange={(e) => updatePaymentLine(index, { amount: Number(e.target.value) || 0 })}
+                        placeholder="Jumlah"
+                        data-testid={`input-payment-line-amount-${index}`}
+                      />
+                      <Input
+                        className="col-span-3"
+                        value={line.reference}
+                        onChange={(e) => updatePaymentLine(index, { reference: e.target.value })}
+                        placeholder={line.paymentMethod === 'cash' ? '-' : 'No. ref'}
+                        disabled={line.paymentMethod === 'cash'}
+                        data-testid={`input-payment-line-reference-${index}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="col-span-1"
+                        onClick={() => setPaymentLines(prev => prev.filter((_, lineIndex) => lineIndex !== index))}
+                        disabled={paymentLines.length <= 1}
+                        data-testid={`button-remove-payment-line-${index}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPaymentLines(prev => [...prev, { paymentMethod: "transfer", amount: Math.max(0, amountDue - splitPaid), reference: "" }])}
+                      data-testid="button-add-payment-line"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      Tambah Pembayaran
+                    </Button>
+                    <div className={`text-sm ${splitPaid < amountDue ? 'text-destructive' : 'text-green-600'}`} data-testid="text-split-balance">
+                      {splitPaid < amountDue
+                        ? `Sisa Rp ${(amountDue - splitPaid).toLocaleString('id-ID')}`
+                        : `Kembalian Rp ${changeDue.toLocaleString('id-ID')}`}
+                    </div>
+                  </div>
+                </div>
+              </Card>
+            )}
+
+            {paymentMethod === 'installment' && (
+              <Card className="p-4">
+                <div className="space-y-3">
+                  <Label>Ketentuan Cicilan</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="downPayment" className="text-xs">Uang Muka (Rp)</Label>
+                      <Input
+                        id="downPayment"
+                        type="number"
+                        min="0"
+                        value={downPayment || ""}
+                        onChange={(e) => setDownPayment(Number(e.target.value) || 0)}
+                        data-testid="input-down-payment"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="numberOfTerms" className="text-xs">Jumlah Cicilan</Label>
+                      <Input
+                        id="numberOfTerms"
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={numberOfTerms || ""}
+                        onChange={(e) => setNumberOfTerms(Number(e.target.value) || 0)}
+                        data-testid="input-number-of-terms"
+                      />
+                    </div>
+                  </div>
+                  <Select value={installmentFrequency} onValueChange={(value) => setInstallmentFrequency(value as "monthly" | "weekly")}>
+                    <SelectTrigger data-testid="select-installment-frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="monthly">Bulanan</SelectItem>
+                      <SelectItem value="weekly">Mingguan</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {numberOfTerms > 0 && total > downPayment && (
+                    <div className="text-xs text-muted-foreground">
+                      {numberOfTerms} × Rp {Math.round((total - downPayment) / numberOfTerms).toLocaleString('id-ID')}
+                    </div>
+                  )}
+                </div>
+              </Card>
+            )}
           </div>
 
           {/* Product Selection */}
@@ -447,13 +861,15 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
                             variant="ghost"
                             className="w-full justify-between h-auto p-3"
                             onClick={() => addProductToCart(product)}
-                            disabled={product.stock <= 0}
+                            disabled={availableStock(product) <= 0}
                             data-testid={`button-add-product-${product.id}`}
                           >
                             <div className="text-left">
                               <div className="font-medium">{product.name}</div>
                               <div className="text-sm text-muted-foreground">
-                                Stock: {product.stock} | Rp {product.sellingPrice?.toLocaleString('id-ID')}
+                                Stock: {availableStock(product)}
+                                {Number(product.reservedStock || 0) > 0 && ` (${product.reservedStock} ditahan)`}
+                                {' '}| Rp {product.sellingPrice?.toLocaleString('id-ID')}
                               </div>
                             </div>
                             <Plus className="w-4 h-4" />
@@ -471,7 +887,7 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
             </div>
 
             {/* Selected Items */}
-            <div className="space-y-2 max-h-40 overflow-y-auto">
+            <div className="space-y-2 max-h-64 overflow-y-auto">
               {items.map((item) => (
                 <Card key={item.productId} className="p-3">
                   <div className="flex justify-between items-center text-sm">
@@ -512,6 +928,18 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
                       </Button>
                     </div>
                   </div>
+                  {item.trackSerial && (
+                    <SerialNumberPicker
+                      productId={item.productId}
+                      quantity={item.quantity}
+                      value={item.serialNumbers || []}
+                      onChange={(serialNumbers) =>
+                        setItems(prev => prev.map(current =>
+                          current.productId === item.productId ? { ...current, serialNumbers } : current
+                        ))
+                      }
+                    />
+                  )}
                 </Card>
               ))}
               
@@ -665,7 +1093,9 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
                   </div>
                 )}
                 <div className="flex justify-between text-sm">
-                  <span>Tax ({((storeConfig as any)?.taxRate || 11)}%):</span>
+                  <span>
+                    PPN ({taxRatePercent}%){tax > taxSummary.addedTax ? ", termasuk dalam harga" : ""}:
+                  </span>
                   <span data-testid="text-tax">Rp {tax.toLocaleString('id-ID')}</span>
                 </div>
                 <div className="flex justify-between font-semibold border-t pt-2">
@@ -679,6 +1109,40 @@ export default function TransactionModal({ open, onClose, onComplete }: Transact
 
         {/* Action Buttons */}
         <div className="flex justify-end space-x-3 pt-6 border-t">
+          {showParkForm ? (
+            <div className="flex flex-1 items-center gap-2">
+              <Input
+                placeholder="Label keranjang, mis. nama pelanggan"
+                value={parkLabel}
+                onChange={(e) => setParkLabel(e.target.value)}
+                data-testid="input-park-label"
+              />
+              <Button
+                variant="secondary"
+                onClick={() => parkCartMutation.mutate()}
+                disabled={parkCartMutation.isPending}
+                data-testid="button-confirm-park-cart"
+              >
+                Simpan
+              </Button>
+              <Button variant="ghost" onClick={() => setShowParkForm(false)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setParkLabel(selectedCustomer?.name || "");
+                setShowParkForm(true);
+              }}
+              disabled={items.length === 0 || createTransactionMutation.isPending}
+              data-testid="button-park-cart"
+            >
+              <PauseCircle className="w-4 h-4 mr-2" />
+              Tahan Keranjang
+            </Button>
+          )}
           <Button 
             variant="outline" 
             onClick={onClose} 
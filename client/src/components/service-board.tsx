@@ -0,0 +1,335 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Timer, UserCheck, Wand2 } from "lucide-react";
+import { SERVICE_STATUS_LABELS, type ServiceStatus } from "@shared/service-status";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+interface BoardTicket {
+  id: string;
+  ticketNumber: string;
+  status: ServiceStatus;
+  customerName: string | null;
+  deviceType: string;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  problem: string;
+  technicianId: string | null;
+  technicianName: string | null;
+  statusChangedAt: string | null;
+  slaLimitHours: number | null;
+}
+
+interface TechnicianWorkload {
+  technicianId: string;
+  name: string;
+  openTickets: number;
+  breachedTickets: number;
+}
+
+interface ServiceBoardData {
+  tickets: BoardTicket[];
+  technicians: TechnicianWorkload[];
+}
+
+// 'checking' tickets share the first column; cancelled tickets leave the board
+const BOARD_COLUMNS: { status: ServiceStatus; accepts: ServiceStatus[] }[] = [
+  { status: 'pending', accepts: ['pending', 'checking'] },
+  { status: 'in-progress', accepts: ['in-progress'] },
+  { status: 'waiting-confirmation', accepts: ['waiting-confirmation'] },
+  { status: 'waiting-parts', accepts: ['waiting-parts'] },
+  { status: 'completed', accepts: ['completed'] },
+  { status: 'delivered', accepts: ['delivered'] },
+];
+
+const ALL = "all";
+const UNASSIGNED = "unassigned";
+const HOUR = 60 * 60 * 1000;
+
+const formatDuration = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}j ${minutes}m` : `${minutes}m`;
+};
+
+function SlaBadge({ ticket, now }: { ticket: BoardTicket; now: number }) {
+  if (ticket.slaLimitHours === null || !ticket.statusChangedAt) {
+    return null;
+  }
+
+  const deadline = new Date(ticket.statusChangedAt).getTime() + ticket.slaLimitHours * HOUR;
+  const remaining = deadline - now;
+
+  if (remaining < 0) {
+    return (
+      <Badge variant="destructive" className="gap-1" data-testid={`badge-sla-${ticket.id}`}>
+        <AlertTriangle className="w-3 h-3" />
+        Lewat {formatDuration(-remaining)}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 ${remaining < 2 * HOUR ? 'border-orange-400 text-orange-700' : ''}`}
+      data-testid={`badge-sla-${ticket.id}`}
+    >
+      <Timer className="w-3 h-3" />
+      Sisa {formatDuration(remaining)}
+    </Badge>
+  );
+}
+
+interface ServiceBoardProps {
+  onOpenTicket?: (ticketId: string) => void;
+}
+
+export default function ServiceBoard({ onOpenTicket }: ServiceBoardProps) {
+  const [technicianFilter, setTechnicianFilter] = useState(ALL);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ServiceStatus | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can('service_tickets_full');
+
+  const { data, isLoading } = useQuery<ServiceBoardData>({
+    queryKey: ["/api/service-board"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  // SLA countdowns tick locally between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/service-board"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/service-tickets"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Gagal", description: error.message, variant: "destructive" });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ServiceStatus }) =>
+      apiRequest("PATCH", `/api/service-tickets/${id}/status`, { status }),
+    onSuccess: (_ticket, { status }) => {
+      invalidate();
+      toast({ title: "Status diperbarui", description: SERVICE_STATUS_LABELS[status] });
+    },
+    onError,
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: ({ id, technicianId }: { id: string; technicianId: string | null }) =>
+      apiRequest("PATCH", `/api/service-tickets/${id}/assign`, { technicianId }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const autoAssignMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("POST", `/api/service-tickets/${id}/auto-assign`),
+    onSuccess: (ticket: { technicianId: string | null }) => {
+      invalidate();
+      const technician = data?.technicians.find(item => item.technicianId === ticket.technicianId);
+      toast({ title: "Teknisi ditugaskan", description: technician?.name });
+    },
+    onError,
+  });
+
+  const tickets = (data?.tickets ?? []).filter(ticket => {
+    if (ticket.status === 'cancelled') return false;
+    if (technicianFilter === ALL) return true;
+    if (technicianFilter === UNASSIGNED) return !ticket.technicianId;
+    return ticket.technicianId === technicianFilter;
+  });
+  const technicians = data?.technicians ?? [];
+
+  const handleDrop = (status: ServiceStatus) => {
+    const ticket = tickets.find(item => item.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!ticket || BOARD_COLUMNS.find(column => column.status === status)?.accepts.includes(ticket.status)) {
+      return;
+    }
+    statusMutation.mutate({ id: ticket.id, status });
+  };
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Memuat papan servis...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-start gap-4">
+        <Select value={technicianFilter} onValueChange={setTechnicianFilter}>
+          <SelectTrigger className="w-[220px]" data-testid="select-board-technician">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Semua Teknisi</SelectItem>
+            <SelectItem value={UNASSIGNED}>Belum Ditugaskan</SelectItem>
+            {technicians.map(technician => (
+              <SelectItem key={technician.technicianId} value={technician.technicianId}>
+                {technician.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex flex-wrap gap-2">
+          {technicians.map(technician => (
+            <button
+              key={technician.technicianId}
+              type="button"
+              onClick={() => setTechnicianFilter(
+                technicianFilter === technician.technicianId ? ALL : technician.technicianId
+              )}
+              className={`rounded-md border px-3 py-2 text-left text-sm transition-colors ${
+                technicianFilter === technician.technicianId ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+              }`}
+              data-testid={`card-workload-${technician.technicianId}`}
+            >
+              <div className="font-medium">{technician.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {technician.openTickets} tiket aktif
+                {technician.breachedTickets > 0 && (
+                  <span className="text-red-600"> · {technician.breachedTickets} lewat SLA</span>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {BOARD_COLUMNS.map(column => {
+          const columnTickets = tickets.filter(ticket => column.accepts.includes(ticket.status));
+          return (
+            <div
+              key={column.status}
+              className={`flex-shrink-0 w-72 rounded-lg bg-muted/50 p-3 ${
+                dropTarget === column.status ? 'ring-2 ring-primary' : ''
+              }`}
+              onDragOver={(event) => {
+                if (!canManage || !draggingId) return;
+                event.preventDefault();
+                setDropTarget(column.status);
+              }}
+              onDragLeave={() => setDropTarget(current => current === column.status ? null : current)}
+              onDrop={(event) => {
+                event.preventDefault();
+                handleDrop(column.status);
+              }}
+              data-testid={`column-${column.status}`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-sm">{SERVICE_STATUS_LABELS[column.status]}</h3>
+                <Badge variant="secondary">{columnTickets.length}</Badge>
+              </div>
+
+              <div className="space-y-2 min-h-[120px]">
+                {columnTickets.map(ticket => (
+                  <Card
+                    key={ticket.id}
+                    draggable={canManage}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move";
+                      setDraggingId(ticket.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`${canManage ? 'cursor-grab' : ''} ${draggingId === ticket.id ? 'opacity-50' : ''}`}
+                    data-testid={`card-ticket-${ticket.id}`}
+                  >
+                    <CardContent className="p-3 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <button
+                          type="button"
+                          className="font-medium text-sm text-left hover:underline"
+                          onClick={() => onOpenTicket?.(ticket.id)}
+                        >
+                          {ticket.ticketNumber}
+                        </button>
+                        <SlaBadge ticket={ticket} now={now} />
+                      </div>
+                      <div className="text-sm">{ticket.customerName || '-'}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[ticket.deviceType, ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(' ')}
+                      </div>
+                      <div className="text-xs text-muted-foreground line-clamp-2">{ticket.problem}</div>
+
+                      {canManage ? (
+                        <div className="flex items-center gap-1">
+                          <Select
+                            value={ticket.technicianId ?? UNASSIGNED}
+                            onValueChange={(value) => assignMutation.mutate({
+                              id: ticket.id,
+                              technicianId: value === UNASSIGNED ? null : value,
+                            })}
+                          >
+                            <SelectTrigger className="h-8 text-xs" data-testid={`select-assign-${ticket.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNASSIGNED}>Belum Ditugaskan</SelectItem>
+                              {ticket.technicianId && !technicians.some(item => item.technicianId === ticket.technicianId) && (
+                                <SelectItem value={ticket.technicianId}>{ticket.technicianName || ticket.technicianId}</SelectItem>
+                              )}
+                              {technicians.map(technician => (
+                                <SelectItem key={technician.technicianId} value={technician.technicianId}>
+                                  {technician.name} ({technician.openTickets})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {!ticket.technicianId && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 px-2"
+                              title="Tugaskan otomatis ke teknisi dengan beban paling sedikit"
+                              onClick={() => autoAssignMutation.mutate(ticket.id)}
+                              disabled={autoAssignMutation.isPending}
+                              data-testid={`button-auto-assign-${ticket.id}`}
+                            >
+                              <Wand2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ) : ticket.technicianName ? (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <UserCheck className="w-3 h-3" />
+                          {ticket.technicianName}
+                        </div>
+                      ) : null}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -232,7 +232,8 @@ export function ServicePartsSelector({ parts, onPartsChange, laborCost }: Servic
               </div>
             </div>
             <div className="col-span-2">
-              <Button 
+              <Button
+                type="button"
                 onClick={handleAddPart} 
                 disabled={!selectedProduct}
                 className="w-full"
@@ -275,6 +276,7 @@ export function ServicePartsSelector({ parts, onPartsChange, laborCost }: Servic
                     <TableCell>
                       <div className="flex items-center gap-2">
                         <Button
+                          type="button"
                           variant="outline"
                           size="sm"
                           onClick={() => handleQuantityChange(part.productId, part.quantity - 1)}
@@ -283,6 +285,7 @@ export function ServicePartsSelector({ parts, onPartsChange, laborCost }: Servic
                         </Button>
                         <span className="min-w-[2rem] text-center">{part.quantity}</span>
                         <Button
+                          type="button"
                           variant="outline"
                           size="sm"
                           onClick={() => handleQuantityChange(part.productId, part.quantity + 1)}
@@ -299,6 +302,7 @@ export function ServicePartsSelector({ parts, onPartsChange, laborCost }: Servic
                     </TableCell>
                     <TableCell>
                       <Button
+                        type="button"
                         variant="outline"
                         size="sm"
                         onClick={() => handleRemovePart(part.productId)}
@@ -1,10 +1,12 @@
 import { useQuery } from "@tanstack/react-query";
+import { hasAnyPermission, type Permission } from "@shared/permissions";
 
 interface AuthUser {
   id: string;
   firstName?: string | null;
   email?: string | null;
   role?: string | null;
+  permissions?: Permission[];
 }
 
 export function useAuth() {
@@ -13,9 +15,12 @@ export function useAuth() {
     retry: false,
   });
 
+  const can = (...required: Permission[]) => hasAnyPermission(user?.permissions ?? [], required);
+
   return {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can,
   };
 }
@@ -1,7 +1,23 @@
 import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { FinanceDateRange, FinanceSummary, FinancialRecord, JournalEntry } from "@/types/finance";
+import type {
+  BankBookLine,
+  BankReconciliationReport,
+  BankStatementDetail,
+  BankStatementSummary,
+  ChartAccount,
+  FinanceDateRange,
+  FinanceSummary,
+  FinancialRecord,
+  FiscalPeriod,
+  GeneralLedger,
+  JournalEntry,
+  JournalEntrySummary,
+  JournalSourceDocument,
+  PpnReport,
+  TrialBalance,
+} from "@/types/finance";
 
 const formatDateParam = (date: string) => date;
 
@@ -36,3 +52,91 @@ export function useJournalEntry(id?: string | null) {
     queryFn: () => apiRequest("GET", `/api/finance/journal/${id}`),
   });
 }
+
+export function useFiscalPeriods(year: number) {
+  return useQuery<FiscalPeriod[]>({
+    queryKey: ["/api/finance/periods", year],
+    queryFn: () => apiRequest("GET", `/api/finance/periods?year=${year}`),
+  });
+}
+
+export function useJournalEntries(status?: string) {
+  return useQuery<JournalEntrySummary[]>({
+    queryKey: ["/api/finance/journals", status ?? "all"],
+    queryFn: () => apiRequest("GET", `/api/finance/journals${status ? `?status=${status}` : ""}`),
+  });
+}
+
+export function useChartOfAccounts() {
+  return useQuery<ChartAccount[]>({
+    queryKey: ["/api/finance/chart-of-accounts"],
+    queryFn: () => apiRequest("GET", "/api/finance/chart-of-accounts"),
+  });
+}
+
+export function useGeneralLedger(accountCode: string | null, { startDate, endDate }: FinanceDateRange) {
+  return useQuery<GeneralLedger>({
+    queryKey: ["/api/finance/general-ledger", accountCode, startDate, endDate],
+    enabled: Boolean(accountCode),
+    queryFn: () => {
+      const params = new URLSearchParams({ accountCode: accountCode ?? "", startDate, endDate });
+      return apiRequest("GET", `/api/finance/general-ledger?${params.toString()}`);
+    },
+  });
+}
+
+export function useTrialBalance(asOfDate: string) {
+  return useQuery<TrialBalance>({
+    queryKey: ["/api/finance/trial-balance", asOfDate],
+    queryFn: () => apiRequest("GET", `/api/finance/trial-balance?asOfDate=${asOfDate}`),
+  });
+}
+
+export function usePpnReport(year: number, month: number) {
+  return useQuery<PpnReport>({
+    queryKey: ["/api/finance/ppn-report", year, month],
+    queryFn: () => apiRequest("GET", `/api/finance/ppn-report?year=${year}&month=${month}`),
+  });
+}
+
+export function useJournalSourceDocument(referenceType?: string | null, reference?: string | null) {
+  return useQuery<JournalSourceDocument>({
+    queryKey: ["/api/finance/source-document", referenceType, reference],
+    enabled: Boolean(referenceType && reference),
+    queryFn: () => {
+      const params = new URLSearchParams({ referenceType: referenceType ?? "", reference: reference ?? "" });
+      return apiRequest("GET", `/api/finance/source-document?${params.toString()}`);
+    },
+  });
+}
+
+export function useBankStatements() {
+  return useQuery<BankStatementSummary[]>({
+    queryKey: ["/api/finance/bank-statements"],
+    queryFn: () => apiRequest("GET", "/api/finance/bank-statements"),
+  });
+}
+
+export function useBankStatement(id?: string | null) {
+  return useQuery<BankStatementDetail>({
+    queryKey: ["/api/finance/bank-statements", id],
+    enabled: Boolean(id),
+    queryFn: () => apiRequest("GET", `/api/finance/bank-statements/${id}`),
+  });
+}
+
+export function useBankReconciliationReport(id?: string | null) {
+  return useQuery<BankReconciliationReport>({
+    queryKey: ["/api/finance/bank-statements", id, "report"],
+    enabled: Boolean(id),
+    queryFn: () => apiRequest("GET", `/api/finance/bank-statements/${id}/report`),
+  });
+}
+
+export function useBankMatchCandidates(lineId?: string | null, dateWindowDays = 7) {
+  return useQuery<BankBookLine[]>({
+    queryKey: ["/api/finance/bank-statement-lines", lineId, "candidates", dateWindowDays],
+    enabled: Boolean(lineId),
+    queryFn: () => apiRequest("GET", `/api/finance/bank-statement-lines/${lineId}/candidates?dateWindowDays=${dateWindowDays}`),
+  });
+}
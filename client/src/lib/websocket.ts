@@ -294,9 +294,10 @@ class WebSocketManager {
       customers: ['/api/customers'],
       products: ['/api/products', '/api/products/low-stock'],
       categories: ['/api/categories'],
-      'service-tickets': ['/api/service-tickets'],
+      'service-tickets': ['/api/service-tickets', '/api/service-board'],
       suppliers: ['/api/suppliers'],
       transactions: ['/api/transactions'],
+      'parked-carts': ['/api/parked-carts', '/api/products'],
       'warranty-claims': ['/api/warranty-claims'],
       roles: ['/api/roles'],
       dashboard: ['/api/dashboard/stats'],
@@ -338,6 +339,7 @@ class WebSocketManager {
         'service-tickets': 'Tiket Servis',
         suppliers: 'Supplier',
         transactions: 'Transaksi',
+        'parked-carts': 'Keranjang Ditahan',
         'warranty-claims': 'Garansi',
         roles: 'Role',
         whatsapp: 'WhatsApp',
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertCircle, CheckCircle, Clock, FileText, XCircle } from "lucide-react";
+import { formatDateLong, formatDateWithTime } from '@shared/utils/timezone';
+import { apiRequest } from "@/lib/queryClient";
+
+interface PublicQuote {
+  quoteNumber: string;
+  status: 'sent' | 'approved' | 'rejected' | 'superseded';
+  items: Array<{ productName: string; quantity: number; unitPrice: string; totalPrice: string }>;
+  partsTotal: string;
+  laborCost: string;
+  taxAmount: string;
+  totalAmount: string;
+  notes: string | null;
+  validUntil: string | null;
+  respondedAt: string | null;
+  responseNote: string | null;
+  createdAt: string | null;
+  ticket: {
+    ticketNumber: string;
+    customerName: string | null;
+    deviceType: string;
+    deviceBrand: string | null;
+    deviceModel: string | null;
+    problem: string;
+    diagnosis: string | null;
+  };
+  store: {
+    name?: string | null;
+    phone?: string | null;
+    address?: string | null;
+  };
+}
+
+const formatCurrency = (amount: string | number) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Number(amount));
+};
+
+export default function ServiceQuote() {
+  const { token } = useParams<{ token: string }>();
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+
+  const { data: quote, isLoading, error } = useQuery<PublicQuote>({
+    queryKey: ['/api/public/service-quotes', token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: (decision: 'approve' | 'reject') =>
+      apiRequest('POST', `/api/public/service-quotes/${token}/${decision}`, { note: note.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/public/service-quotes', token] });
+    },
+  });
+
+  const isExpired = !!quote?.validUntil && new Date(quote.validUntil) < new Date();
+  const canRespond = quote?.status === 'sent' && !isExpired;
+  // PPN on top raises the total above parts plus labor; otherwise it is already inside the prices
+  const taxAdded = !!quote && Number(quote.totalAmount) > Number(quote.partsTotal) + Number(quote.laborCost);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container max-w-2xl mx-auto px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Penawaran Biaya Service</h1>
+          {quote?.store.name && <p className="text-gray-600">{quote.store.name}</p>}
+        </div>
+
+        {isLoading && (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Memuat penawaran...</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Penawaran Tidak Ditemukan</h3>
+              <p className="text-gray-600">Tautan penawaran tidak valid. Silakan hubungi toko untuk tautan terbaru.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {quote && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    {quote.quoteNumber}
+                  </span>
+                  {quote.status === 'approved' && <Badge className="bg-green-600 text-white">Disetujui</Badge>}
+                  {quote.status === 'rejected' && <Badge variant="destructive">Ditolak</Badge>}
+                  {quote.status === 'superseded' && <Badge variant="secondary">Diganti</Badge>}
+                  {quote.status === 'sent' && (
+                    <Badge variant="outline">{isExpired ? 'Kedaluwarsa' : 'Menunggu Persetujuan'}</Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <label className="text-gray-500">Nomor Service</label>
+                    <p className="font-semibold" data-testid="text-quote-ticket">{quote.ticket.ticketNumber}</p>
+                  </div>
+                  <div>
+                    <label className="text-gray-500">Nama Customer</label>
+                    <p className="font-semibold">{quote.ticket.customerName || '-'}</p>
+                  </div>
+                  <div>
+                    <label className="text-gray-500">Perangkat</label>
+                    <p className="font-semibold">
+                      {[quote.ticket.deviceType, quote.ticket.deviceBrand, quote.ticket.deviceModel].filter(Boolean).join(' ')}
+                    </p>
+                  </div>
+                  {quote.validUntil && (
+                    <div>
+                      <label className="text-gray-500">Berlaku Sampai</label>
+                      <p className="font-semibold">{formatDateLong(quote.validUntil)}</p>
+                    </div>
+                  )}
+                </div>
+
+                <div className="text-sm">
+                  <label className="text-gray-500">Keluhan</label>
+                  <p>{quote.ticket.problem}</p>
+                </div>
+                {quote.ticket.diagnosis && (
+                  <div className="text-sm">
+                    <label className="text-gray-500">Diagnosis</label>
+                    <p>{quote.ticket.diagnosis}</p>
+                  </div>
+                )}
+
+                <Separator />
+
+                <div className="space-y-2">
+                  {quote.items.map((item, index) => (
+                    <div key={index} className="flex justify-between text-sm" data-testid={`quote-item-${index}`}>
+                      <span>{item.productName} x{item.quantity}</span>
+                      <span>{formatCurrency(item.totalPrice)}</span>
+                    </div>
+                  ))}
+                  {Number(quote.laborCost) > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>Biaya Jasa</span>
+                      <span>{formatCurrency(quote.laborCost)}</span>
+                    </div>
+                  )}
+                  {Number(quote.taxAmount) > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>{taxAdded ? 'PPN' : 'Termasuk PPN'}</span>
+                      <span data-testid="text-quote-tax">{formatCurrency(quote.taxAmount)}</span>
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span data-testid="text-quote-total">{formatCurrency(quote.totalAmount)}</span>
+                  </div>
+                </div>
+
+                {quote.notes && (
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{quote.notes}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {canRespond ? (
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <Textarea
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Catatan untuk toko (opsional)"
+                    rows={3}
+                    data-testid="textarea-quote-note"
+                  />
+                  {respondMutation.error && (
+                    <p className="text-sm text-red-600">{(respondMutation.error as Error).message}</p>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button
+                      variant="outline"
+                      onClick={() => respondMutation.mutate('reject')}
+                      disabled={respondMutation.isPending}
+                      data-testid="button-reject-quote"
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Tolak
+                    </Button>
+                    <Button
+                      onClick={() => respondMutation.mutate('approve')}
+                      disabled={respondMutation.isPending}
+                      data-testid="button-approve-quote"
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Setujui
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-6 text-center space-y-2">
+                  {quote.status === 'approved' && (
+                    <>
+                      <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+                      <p className="font-semibold">Penawaran disetujui. Perangkat Anda segera kami kerjakan.</p>
+                    </>
+                  )}
+                  {quote.status === 'rejected' && (
+                    <>
+                      <XCircle className="h-10 w-10 text-red-600 mx-auto" />
+                      <p className="font-semibold">Penawaran ditolak. Kami akan menghubungi Anda untuk pengambilan perangkat.</p>
+                    </>
+                  )}
+                  {(quote.status === 'superseded' || (quote.status === 'sent' && isExpired)) && (
+                    <>
+                      <Clock className="h-10 w-10 text-gray-400 mx-auto" />
+                      <p className="font-semibold">Penawaran ini sudah tidak berlaku. Silakan hubungi toko.</p>
+                    </>
+                  )}
+                  {quote.respondedAt && (
+                    <p className="text-sm text-gray-600">Dijawab {formatDateWithTime(quote.respondedAt)}</p>
+                  )}
+                  {quote.responseNote && (
+                    <p className="text-sm text-gray-600 whitespace-pre-line">"{quote.responseNote}"</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {quote.store.phone && (
+              <p className="text-center text-sm text-gray-500">
+                Pertanyaan? Hubungi {quote.store.name || 'toko'} di {quote.store.phone}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import { Search, Clock, CheckCircle, AlertCircle, Package, Calendar, Receipt, Se
 import { formatDateLong } from '@shared/utils/timezone';
 import { SERVICE_STATUS_LABELS, normalizeServiceStatus, type ServiceStatus } from "@shared/service-status";
 import ServiceStatusTracker from "@/components/ServiceStatusTracker";
+import ServiceStatusTimeline, { type ServiceTimelineEntry } from "@/components/ServiceStatusTimeline";
 
 const statusConfig: Record<ServiceStatus, { label: string; color: string; icon: typeof Clock }> = {
   pending: { label: SERVICE_STATUS_LABELS.pending, color: 'bg-yellow-500', icon: Clock },
@@ -61,6 +62,7 @@ export default function ServiceStatus() {
         quantity: number;
         unitPrice: string;
       }>;
+      timeline?: ServiceTimelineEntry[];
     } | undefined;
     isLoading: boolean;
     error: any;
@@ -245,6 +247,20 @@ export default function ServiceStatus() {
               </Card>
             )}
 
+            {serviceData.timeline && serviceData.timeline.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Clock className="h-5 w-5" />
+                    Riwayat Proses
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ServiceStatusTimeline entries={serviceData.timeline} />
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardContent className="p-6">
                 <div className="flex justify-between items-center">
@@ -281,6 +297,7 @@ export default function ServiceStatus() {
             onClose={() => setShowStatusTracker(false)}
             serviceNumber={serviceData.ticketNumber}
             currentStatus={serviceData.status}
+            history={serviceData.timeline}
           />
         )}
       </div>
@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { AlertCircle, ShieldCheck } from "lucide-react";
+import { formatDateLong } from '@shared/utils/timezone';
+import {
+  WARRANTY_STATUS_LABELS,
+  formatWarrantyDuration,
+  type WarrantyCertificateView,
+} from "@/components/WarrantyCertificate";
+
+const STATUS_CLASSES: Record<WarrantyCertificateView['status'], string> = {
+  active: 'bg-green-600 text-white',
+  expiring: 'bg-orange-500 text-white',
+  expired: 'bg-gray-500 text-white',
+  claimed: 'bg-blue-600 text-white',
+};
+
+export default function WarrantyVerify() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: certificate, isLoading, error } = useQuery<WarrantyCertificateView>({
+    queryKey: ['/api/public/warranty-certificates', token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="container max-w-2xl mx-auto px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Verifikasi Garansi</h1>
+          {certificate?.store.name && <p className="text-gray-600">{certificate.store.name}</p>}
+        </div>
+
+        {isLoading && (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Memeriksa sertifikat...</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Sertifikat Tidak Ditemukan</h3>
+              <p className="text-gray-600">Kode sertifikat tidak valid. Silakan hubungi toko untuk memastikan garansi Anda.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {certificate && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  {certificate.certificateNumber}
+                </span>
+                <Badge className={STATUS_CLASSES[certificate.status]} data-testid="badge-warranty-status">
+                  {WARRANTY_STATUS_LABELS[certificate.status]}
+                </Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <label className="text-gray-500">Nama Customer</label>
+                  <p className="font-semibold">{certificate.customerName || '-'}</p>
+                </div>
+                <div>
+                  <label className="text-gray-500">
+                    {certificate.sourceType === 'sale' ? 'No. Transaksi' : 'No. Service'}
+                  </label>
+                  <p className="font-semibold">{certificate.referenceNumber}</p>
+                </div>
+                <div>
+                  <label className="text-gray-500">Masa Garansi</label>
+                  <p className="font-semibold">{formatWarrantyDuration(certificate.warrantyDuration)}</p>
+                </div>
+                <div>
+                  <label className="text-gray-500">Berlaku Sampai</label>
+                  <p className="font-semibold" data-testid="text-warranty-end">
+                    {certificate.endDate && certificate.warrantyDuration < 9999 ? formatDateLong(certificate.endDate) : 'Seumur Hidup'}
+                  </p>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                {certificate.items.map((item, index) => (
+                  <div key={index} className="text-sm" data-testid={`warranty-item-${index}`}>
+                    <div className="flex justify-between">
+                      <span className="font-medium">{item.name}</span>
+                      <span>x{item.quantity}</span>
+                    </div>
+                    {item.serialNumbers.length > 0 && (
+                      <p className="text-gray-500">SN: {item.serialNumbers.join(', ')}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {certificate.store.phone && (
+                <p className="text-sm text-gray-600 text-center">
+                  Untuk klaim garansi hubungi {certificate.store.name} di {certificate.store.phone}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
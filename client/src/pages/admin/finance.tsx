@@ -4,6 +4,11 @@ import { FinanceSummaryCards } from "@/components/finance/FinanceSummaryCards";
 import { FinanceCharts } from "@/components/finance/FinanceCharts";
 import { FinanceTable } from "@/components/finance/FinanceTable";
 import { JournalModal } from "@/components/finance/JournalModal";
+import { FiscalPeriodPanel } from "@/components/finance/FiscalPeriodPanel";
+import { JournalEntriesPanel } from "@/components/finance/JournalEntriesPanel";
+import { LedgerReportsPanel } from "@/components/finance/LedgerReportsPanel";
+import { BankReconciliationPanel } from "@/components/finance/BankReconciliationPanel";
+import { PpnReportPanel } from "@/components/finance/PpnReportPanel";
 import { useFinanceSummary, useFinanceTransactions, useJournalEntry } from "@/hooks/useFinance";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -115,6 +120,16 @@ export default function AdminFinancePage() {
 
         <Separator />
 
+        <FiscalPeriodPanel />
+
+        <JournalEntriesPanel onSelectJournal={(id) => setJournalId(id)} />
+
+        <LedgerReportsPanel range={appliedRange} onSelectJournal={(id) => setJournalId(id)} />
+
+        <BankReconciliationPanel onSelectJournal={(id) => setJournalId(id)} />
+
+        <PpnReportPanel />
+
         <FinanceTable data={transactions} isLoading={transactionsLoading || summaryLoading} onSelectJournal={(id) => setJournalId(id)} />
 
         <JournalModal open={Boolean(journalId)} onOpenChange={(open) => !open && setJournalId(null)} entry={journal ?? undefined} isLoading={journalLoading} />
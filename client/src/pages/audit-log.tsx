@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import type { AuditLog } from "@shared/schema";
+import { formatDateWithTime } from '@shared/utils/timezone';
+
+const ALL = "all";
+const PAGE_SIZE = 50;
+
+const METHOD_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  POST: "default",
+  PUT: "secondary",
+  PATCH: "secondary",
+  DELETE: "destructive",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function AuditLogPage() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  const [search, setSearch] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [page, setPage] = useState(0);
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+  const { can } = useAuth();
+
+  const params = new URLSearchParams();
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (userId !== ALL) params.set("userId", userId);
+  if (search.trim()) params.set("search", search.trim());
+  if (startDate) params.set("startDate", startDate);
+  if (endDate) params.set("endDate", endDate);
+  params.set("limit", String(PAGE_SIZE));
+  params.set("offset", String(page * PAGE_SIZE));
+  const queryString = params.toString();
+
+  const { data, isLoading } = useQuery<{ logs: AuditLog[]; total: number }>({
+    queryKey: ["/api/audit-logs", queryString],
+    queryFn: async () => {
+      const response = await fetch(`/api/audit-logs?${queryString}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch audit logs");
+      return response.json();
+    },
+  });
+
+  const { data: entityTypes = [] } = useQuery<string[]>({
+    queryKey: ["/api/audit-logs/entity-types"],
+  });
+
+  const { data: users = [] } = useQuery<any[]>({
+    queryKey: ["/api/users"],
+    enabled: can('users_view'),
+  });
+
+  const logs = data?.logs ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const changes = selectedLog?.changes as Record<string, { from: unknown; to: unknown }> | null | undefined;
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header title="Log Audit" breadcrumb="Beranda / Log Audit" />
+        <main className="flex-1 overflow-y-auto p-6 space-y-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="audit-search">Cari</Label>
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="audit-search"
+                      className="pl-9"
+                      value={search}
+                      onChange={(e) => withReset(setSearch)(e.target.value)}
+                      placeholder="Path, aksi, ID data, nama pengguna"
+                      data-testid="input-audit-search"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Data</Label>
+                  <Select value={entityType} onValueChange={withReset(setEntityType)}>
+                    <SelectTrigger data-testid="select-audit-entity">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Semua data</SelectItem>
+                      {entityTypes.map((type) => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pengguna</Label>
+                  <Select value={userId} onValueChange={withReset(setUserId)}>
+                    <SelectTrigger data-testid="select-audit-user">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>Semua pengguna</SelectItem>
+                      {users.map((user: any) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.username || `${user.firstName || ''} ${user.lastName || ''}`.trim()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="audit-start">Dari</Label>
+                    <Input
+                      id="audit-start"
+                      type="date"
+                      value={startDate}
+                      onChange={(e) => withReset(setStartDate)(e.target.value)}
+                      data-testid="input-audit-start"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="audit-end">Sampai</Label>
+                    <Input
+                      id="audit-end"
+                      type="date"
+                      value={endDate}
+                      onChange={(e) => withReset(setEndDate)(e.target.value)}
+                      data-testid="input-audit-end"
+                    />
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Riwayat Perubahan ({total})</CardTitle>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0}
+                  data-testid="button-audit-prev"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">{page + 1} / {pageCount}</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount}
+                  data-testid="button-audit-next"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-muted-foreground">Memuat log audit...</p>
+              ) : logs.length === 0 ? (
+                <p className="text-muted-foreground">Tidak ada aktivitas yang cocok dengan filter.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Waktu</TableHead>
+                      <TableHead>Pengguna</TableHead>
+                      <TableHead>Aksi</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Perubahan</TableHead>
+                      <TableHead>Sumber</TableHead>
+                      <TableHead>IP</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {logs.map((log) => {
+                      const changedFields = log.changes ? Object.keys(log.changes as Record<string, unknown>) : [];
+                      return (
+                        <TableRow
+                          key={log.id}
+                          className="cursor-pointer"
+                          onClick={() => setSelectedLog(log)}
+                          data-testid={`row-audit-${log.id}`}
+                        >
+                          <TableCell className="whitespace-nowrap">{log.createdAt ? formatDateWithTime(log.createdAt) : '-'}</TableCell>
+                          <TableCell>{log.userName || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={METHOD_VARIANTS[log.method] || "outline"}>{log.action}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{log.entityType}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{log.entityId || '-'}</div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                            {changedFields.length ? changedFields.join(', ') : '-'}
+                          </TableCell>
+                          <TableCell>{log.source === 'mobile' ? 'Mobile' : 'Web'}</TableCell>
+                          <TableCell className="font-mono text-xs">{log.ipAddress || '-'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <Dialog open={!!selectedLog} onOpenChange={(value) => !value && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Detail Log Audit</DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div><span className="text-muted-foreground">Waktu:</span> {selectedLog.createdAt ? formatDateWithTime(selectedLog.createdAt) : '-'}</div>
+                <div><span className="text-muted-foreground">Pengguna:</span> {selectedLog.userName || '-'}</div>
+                <div><span className="text-muted-foreground">Request:</span> <span className="font-mono">{selectedLog.method} {selectedLog.path}</span></div>
+                <div><span className="text-muted-foreground">Status:</span> {selectedLog.statusCode ?? '-'}</div>
+                <div><span className="text-muted-foreground">IP:</span> {selectedLog.ipAddress || '-'}</div>
+                <div className="truncate"><span className="text-muted-foreground">Perangkat:</span> {selectedLog.userAgent || '-'}</div>
+              </div>
+
+              {changes && Object.keys(changes).length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Sebelum</TableHead>
+                      <TableHead>Sesudah</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {Object.entries(changes).map(([field, change]) => (
+                      <TableRow key={field}>
+                        <TableCell className="font-mono">{field}</TableCell>
+                        <TableCell className="text-red-600 break-all">{formatValue(change.from)}</TableCell>
+                        <TableCell className="text-green-600 break-all">{formatValue(change.to)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">Sebelum</p>
+                  <pre className="bg-muted rounded p-2 text-xs overflow-x-auto max-h-64">{JSON.stringify(selectedLog.before, null, 2) ?? '-'}</pre>
+                </div>
+                <div className="space-y-1">
+                  <p className="font-medium">Sesudah</p>
+                  <pre className="bg-muted rounded p-2 text-xs overflow-x-auto max-h-64">{JSON.stringify(selectedLog.after, null, 2) ?? '-'}</pre>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -74,6 +74,7 @@ export default function Customers() {
       email: "",
       phone: "",
       address: "",
+      npwp: "",
       // Add additional fields that might be in schema
       paymentTerms: 30,
       creditLimit: "",
@@ -181,6 +182,7 @@ export default function Customers() {
       email: customer.email || "",
       phone: customer.phone || "",
       address: customer.address || "",
+      npwp: customer.npwp || "",
     });
     setShowDialog(true);
   };
@@ -570,6 +572,25 @@ export default function Customers() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="npwp"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>NPWP</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="Optional, printed on e-Faktur" 
+                        {...field} 
+                        value={field.value || ""}
+                        data-testid="input-customer-npwp" 
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="flex justify-end space-x-3 pt-6">
                 <Button 
                   type="button" 
@@ -14,7 +14,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Search, Package, AlertTriangle, History, TrendingUp, DollarSign, Plus, Tag, Download, Upload, FileSpreadsheet, Trash2 } from "lucide-react";
+import { Search, Package, AlertTriangle, History, TrendingUp, DollarSign, Plus, Tag, Download, Upload, FileSpreadsheet, Trash2, MapPin, ArrowRightLeft, Truck, CheckCircle, XCircle, Wrench } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -31,11 +31,12 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { insertProductSchema, insertCategorySchema } from "@shared/schema";
 import { useWebSocket } from "@/lib/websocket";
 import { validateExcelFile, downloadTemplate, uploadExcelFile, type ImportResult } from "@/lib/importExportUtils";
@@ -46,6 +47,8 @@ const pricingSchema = z.object({
   pricingMode: z.enum(["fixed", "percentage"]),
   sellingPrice: z.string().optional(),
   marginPercent: z.string().optional(),
+  taxInclusive: z.boolean(),
+  taxExempt: z.boolean(),
 }).superRefine((data, ctx) => {
   if (data.pricingMode === "fixed" && (!data.sellingPrice || data.sellingPrice === "")) {
     ctx.addIssue({
@@ -159,6 +162,44 @@ function AddCategoryForm({ onSuccess }: { onSuccess: () => void }) {
   );
 }
 
+// PPN treatment of the selling price, shared by the add and pricing forms
+function ProductTaxFields({ control }: { control: any }) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name="taxInclusive"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between rounded-md border p-3">
+            <div className="mr-4 space-y-1">
+              <FormLabel>Harga Termasuk PPN</FormLabel>
+              <p className="text-xs text-muted-foreground">PPN sudah ada di dalam harga jual</p>
+            </div>
+            <FormControl>
+              <Switch checked={Boolean(field.value)} onCheckedChange={field.onChange} data-testid="switch-product-tax-inclusive" />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name="taxExempt"
+        render={({ field }) => (
+          <FormItem className="flex items-center justify-between rounded-md border p-3">
+            <div className="mr-4 space-y-1">
+              <FormLabel>Bebas PPN</FormLabel>
+              <p className="text-xs text-muted-foreground">Produk tidak dikenai PPN</p>
+            </div>
+            <FormControl>
+              <Switch checked={Boolean(field.value)} onCheckedChange={field.onChange} data-testid="switch-product-tax-exempt" />
+            </FormControl>
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
 // Add Product Form Component  
 function AddProductForm({ onSuccess }: { onSuccess: () => void }) {
   const { toast } = useToast();
@@ -170,6 +211,10 @@ function AddProductForm({ onSuccess }: { onSuccess: () => void }) {
     refetchInterval: 10000, // Auto-refresh every 10 seconds
   });
   
+  const { data: suppliers = [] } = useQuery<any[]>({
+    queryKey: ["/api/suppliers"],
+  });
+  
   const form = useForm<ProductFormData>({
     resolver: zodResolver(insertProductSchema),
     defaultValues: {
@@ -191,6 +236,8 @@ function AddProductForm({ onSuccess }: { onSuccess: () => void }) {
       // Add other potentially required fields
       reorderPoint: 5,
       reorderQuantity: 10,
+      taxInclusive: false,
+      taxExempt: false,
     },
     mode: "onChange", // Enable real-time validation
   });
@@ -275,6 +322,31 @@ function AddProductForm({ onSuccess }: { onSuccess: () => void }) {
           />
         </div>
 
+        <FormField
+          control={form.control}
+          name="preferredSupplierId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Supplier Utama</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value || ""}>
+                <FormControl>
+                  <SelectTrigger data-testid="select-preferred-supplier">
+                    <SelectValue placeholder="Pilih supplier untuk pemesanan ulang" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {suppliers.map((supplier: any) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <FormField
           control={form.control}
           name="description"
@@ -399,6 +471,8 @@ function AddProductForm({ onSuccess }: { onSuccess: () => void }) {
           />
         </div>
 
+        <ProductTaxFields control={form.control} />
+
         <div className="flex justify-end space-x-2">
           <Button 
             type="submit" 
@@ -420,16 +494,18 @@ function PricingEditForm({ product, onSuccess }: { product: any; onSuccess: () =
       pricingMode: "fixed",
       sellingPrice: product.sellingPrice?.toString() || "",
       marginPercent: product.marginPercent?.toString() || "",
+      taxInclusive: Boolean(product.taxInclusive),
+      taxExempt: Boolean(product.taxExempt),
     },
   });
 
   const updatePricingMutation = useMutation({
-    mutationFn: async (data: { sellingPrice: string; marginPercent?: string }) => {
+    mutationFn: async (data: { sellingPrice: string; marginPercent?: string; taxInclusive: boolean; taxExempt: boolean }) => {
       const response = await fetch(`/api/products/${product.id}/pricing`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
-        body: JSON.stringify({ sellingPrice: data.sellingPrice, marginPercent: data.marginPercent }),
+        body: JSON.stringify(data),
       });
       if (!response.ok) throw new Error('Failed to update pricing');
       return response.json();
@@ -459,6 +535,8 @@ function PricingEditForm({ product, onSuccess }: { product: any; onSuccess: () =
     updatePricingMutation.mutate({
       sellingPrice: sellingPriceToSave,
       marginPercent: data.pricingMode === "percentage" ? data.marginPercent : undefined,
+      taxInclusive: data.taxInclusive,
+      taxExempt: data.taxExempt,
     });
   };
 
@@ -548,6 +626,8 @@ function PricingEditForm({ product, onSuccess }: { product: any; onSuccess: () =
           </div>
         )}
 
+        <ProductTaxFields control={form.control} />
+
         <div className="flex justify-end space-x-2">
           <Button 
             type="submit" 
@@ -748,10 +828,12 @@ export default function Inventory() {
     const stock = hasMovements ? movementStock : (directStock ?? movementStock);
 
     const minStock = product.minStock || 5;
+    // Units held for open service tickets cannot be sold
+    const available = stock - Number(product.reservedStock || 0);
     if (stock <= 0) {
       return { text: "Stok Habis", variant: "destructive" as const, color: "text-red-600", stock };
     }
-    if (stock <= minStock) {
+    if (available <= minStock) {
       return { text: "Stok Rendah", variant: "secondary" as const, color: "text-orange-600", stock };
     }
     return { text: "Tersedia", variant: "default" as const, color: "text-green-600", stock };
@@ -864,13 +946,16 @@ export default function Inventory() {
           )}
           
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-1">
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-5 lg:grid-cols-9 gap-1">
               <TabsTrigger value="overview" data-testid="tab-overview" className="text-xs md:text-sm">Overview</TabsTrigger>
               <TabsTrigger value="products" data-testid="tab-products" className="text-xs md:text-sm">Products</TabsTrigger>
               <TabsTrigger value="pricing" data-testid="tab-pricing" className="text-xs md:text-sm">HPP & Pricing</TabsTrigger>
               <TabsTrigger value="movements" data-testid="tab-movements" className="text-xs md:text-sm">Stock Movements</TabsTrigger>
               <TabsTrigger value="incoming" data-testid="tab-incoming" className="text-xs md:text-sm">Incoming Stock</TabsTrigger>
               <TabsTrigger value="damaged" data-testid="tab-damaged" className="text-xs md:text-sm">Barang Rusak</TabsTrigger>
+              <TabsTrigger value="locations" data-testid="tab-locations" className="text-xs md:text-sm">Stok per Lokasi</TabsTrigger>
+              <TabsTrigger value="transfers" data-testid="tab-transfers" className="text-xs md:text-sm">Transfer Stok</TabsTrigger>
+              <TabsTrigger value="service-allocations" data-testid="tab-service-allocations" className="text-xs md:text-sm">Dialokasikan ke Servis</TabsTrigger>
             </TabsList>
 
             {/* Overview Tab */}
@@ -1403,6 +1488,21 @@ export default function Inventory() {
             <TabsContent value="damaged" className="space-y-6">
               <DamagedGoodsView />
             </TabsContent>
+
+            {/* Stock by Location Tab */}
+            <TabsContent value="locations" className="space-y-6">
+              <StockByLocationView />
+            </TabsContent>
+
+            {/* Stock Transfers Tab */}
+            <TabsContent value="transfers" className="space-y-6">
+              <StockTransfersView />
+            </TabsContent>
+
+            {/* Service Allocations Tab */}
+            <TabsContent value="service-allocations" className="space-y-6">
+              <ServiceAllocationsView />
+            </TabsContent>
           </Tabs>
         </main>
       </div>
@@ -1593,4 +1693,542 @@ function DamagedGoodsView() {
       </Card>
     </>
   );
-}
\ No newline at end of file
+}
+
+// Stock by Location Component
+function StockByLocationView() {
+  const [search, setSearch] = useState("");
+
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: stockRows = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/inventory/stock-by-location", search],
+    queryFn: async () => {
+      const params = search ? `?search=${encodeURIComponent(search)}` : '';
+      const response = await fetch(`/api/inventory/stock-by-location${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch stock by location: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  const locationTotals = locations.map((location: any) => ({
+    ...location,
+    total: stockRows.reduce((sum: number, row: any) => sum + Number(row.locations?.[location.id] || 0), 0),
+  }));
+  const totalInTransit = stockRows.reduce((sum: number, row: any) => sum + Number(row.inTransit || 0), 0);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-6">
+        {locationTotals.map((location: any) => (
+          <Card key={location.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{location.name}</CardTitle>
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{location.total}</div>
+              <p className="text-xs text-muted-foreground">Unit di lokasi ({location.code})</p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Dalam Perjalanan</CardTitle>
+            <Truck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalInTransit}</div>
+            <p className="text-xs text-muted-foreground">Unit sedang ditransfer</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Stok per Lokasi
+          </CardTitle>
+          <div className="relative w-64">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Cari produk atau SKU..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8"
+              data-testid="input-search-stock-location"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produk</TableHead>
+                  <TableHead>SKU</TableHead>
+                  {locations.map((location: any) => (
+                    <TableHead key={location.id} className="text-right">{location.name}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Dalam Perjalanan</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={locations.length + 4} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                  </TableRow>
+                ) : stockRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={locations.length + 4} className="text-center text-muted-foreground">Tidak ada produk</TableCell>
+                  </TableRow>
+                ) : (
+                  stockRows.map((row: any) => (
+                    <TableRow key={row.productId} data-testid={`row-stock-location-${row.productId}`}>
+                      <TableCell className="font-medium">{row.productName}</TableCell>
+                      <TableCell className="text-muted-foreground">{row.sku || '-'}</TableCell>
+                      {locations.map((location: any) => {
+                        const quantity = Number(row.locations?.[location.id] || 0);
+                        return (
+                          <TableCell key={location.id} className={`text-right ${quantity < 0 ? 'text-destructive' : ''}`}>
+                            {quantity}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right text-muted-foreground">{row.inTransit || '-'}</TableCell>
+                      <TableCell className="text-right font-semibold">{row.totalStock}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+// Service Part Allocations Component
+function ServiceAllocationsView() {
+  const { data: allocations = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/inventory/service-allocations"],
+  });
+
+  const totalReserved = allocations.reduce((sum: number, row: any) => sum + Number(row.reservedQuantity || 0), 0);
+  const ticketCount = new Set(allocations.map((row: any) => row.serviceTicketId)).size;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Unit Dialokasikan</CardTitle>
+            <Package className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalReserved}</div>
+            <p className="text-xs text-muted-foreground">Ditahan untuk tiket servis yang masih berjalan</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tiket Servis</CardTitle>
+            <Wrench className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{ticketCount}</div>
+            <p className="text-xs text-muted-foreground">Tiket dengan sparepart yang ditahan</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Dialokasikan ke Servis
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Produk</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>No. Tiket</TableHead>
+                  <TableHead>Pelanggan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sejak</TableHead>
+                  <TableHead className="text-right">Ditahan</TableHead>
+                  <TableHead className="text-right">Stok</TableHead>
+                  <TableHead className="text-right">Tersedia</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                  </TableRow>
+                ) : allocations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-muted-foreground">Tidak ada sparepart yang ditahan</TableCell>
+                  </TableRow>
+                ) : (
+                  allocations.map((row: any) => {
+                    const available = Number(row.stock || 0) - Number(row.reservedStock || 0);
+                    return (
+                      <TableRow key={row.partId} data-testid={`row-service-allocation-${row.partId}`}>
+                        <TableCell className="font-medium">{row.productName}</TableCell>
+                        <TableCell className="text-muted-foreground">{row.sku || '-'}</TableCell>
+                        <TableCell>{row.ticketNumber}</TableCell>
+                        <TableCell>{row.customerName || '-'}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{row.ticketStatus || '-'}</Badge>
+                        </TableCell>
+                        <TableCell>{row.reservedAt ? formatDateShort(row.reservedAt) : '-'}</TableCell>
+                        <TableCell className="text-right font-semibold">{row.reservedQuantity}</TableCell>
+                        <TableCell className="text-right">{row.stock}</TableCell>
+                        <TableCell className={`text-right ${available <= 0 ? 'text-destructive' : ''}`}>{available}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+const TRANSFER_STATUS_LABELS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  in_transit: { label: 'Dalam Perjalanan', variant: 'secondary' },
+  received: { label: 'Diterima', variant: 'default' },
+  cancelled: { label: 'Dibatalkan', variant: 'destructive' },
+};
+
+// Stock Transfers Component
+function StockTransfersView() {
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [transferNotes, setTransferNotes] = useState("");
+  const [selectedProductId, setSelectedProductId] = useState("");
+  const [selectedQuantity, setSelectedQuantity] = useState("1");
+  const [transferItems, setTransferItems] = useState<{ productId: string; productName: string; quantity: number }[]>([]);
+
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: products = [] } = useQuery<any[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: transfers = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/stock-transfers"],
+  });
+
+  const invalidateStock = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock-by-location"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-movements"] });
+  };
+
+  const resetForm = () => {
+    setFromLocationId("");
+    setToLocationId("");
+    setTransferNotes("");
+    setSelectedProductId("");
+    setSelectedQuantity("1");
+    setTransferItems([]);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/stock-transfers', {
+      transfer: {
+        fromLocationId,
+        toLocationId,
+        notes: transferNotes || undefined,
+      },
+      items: transferItems.map((item) => ({ productId: item.productId, quantity: item.quantity })),
+    }),
+    onSuccess: () => {
+      invalidateStock();
+      toast({ title: "Draft transfer stok dibuat" });
+      setIsCreateOpen(false);
+      resetForm();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal membuat transfer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: 'ship' | 'receive' | 'cancel' }) =>
+      apiRequest('POST', `/api/stock-transfers/${id}/${action}`),
+    onSuccess: (_result, { action }) => {
+      invalidateStock();
+      const messages = {
+        ship: "Transfer dikirim, stok keluar dari lokasi asal",
+        receive: "Transfer diterima, stok masuk ke lokasi tujuan",
+        cancel: "Transfer dibatalkan",
+      };
+      toast({ title: messages[action] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal memproses transfer", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addItem = () => {
+    const product = products.find((p: any) => p.id === selectedProductId);
+    const quantity = parseInt(selectedQuantity);
+    if (!product || !(quantity > 0)) return;
+
+    setTransferItems((items) => {
+      const existing = items.find((item) => item.productId === product.id);
+      if (existing) {
+        return items.map((item) => item.productId === product.id ? { ...item, quantity: item.quantity + quantity } : item);
+      }
+      return [...items, { productId: product.id, productName: product.name, quantity }];
+    });
+    setSelectedProductId("");
+    setSelectedQuantity("1");
+  };
+
+  const canSubmit = fromLocationId && toLocationId && fromLocationId !== toLocationId && transferItems.length > 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Transfer Stok Antar Lokasi
+        </CardTitle>
+        <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-create-transfer">
+              <Plus className="h-4 w-4 mr-2" />
+              Buat Transfer
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Transfer Stok Baru</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Dari Lokasi</label>
+                  <Select value={fromLocationId} onValueChange={setFromLocationId}>
+                    <SelectTrigger data-testid="select-transfer-from">
+                      <SelectValue placeholder="Pilih lokasi asal" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations.map((location: any) => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Ke Lokasi</label>
+                  <Select value={toLocationId} onValueChange={setToLocationId}>
+                    <SelectTrigger data-testid="select-transfer-to">
+                      <SelectValue placeholder="Pilih lokasi tujuan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {locations
+                        .filter((location: any) => location.id !== fromLocationId)
+                        .map((location: any) => (
+                          <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex gap-2 items-end">
+                <div className="flex-1 space-y-2">
+                  <label className="text-sm font-medium">Produk</label>
+                  <Select value={selectedProductId} onValueChange={setSelectedProductId}>
+                    <SelectTrigger data-testid="select-transfer-product">
+                      <SelectValue placeholder="Pilih produk" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products.map((product: any) => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-24 space-y-2">
+                  <label className="text-sm font-medium">Qty</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={selectedQuantity}
+                    onChange={(e) => setSelectedQuantity(e.target.value)}
+                    data-testid="input-transfer-quantity"
+                  />
+                </div>
+                <Button type="button" variant="outline" onClick={addItem} disabled={!selectedProductId}>
+                  Tambah
+                </Button>
+              </div>
+
+              {transferItems.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Produk</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transferItems.map((item) => (
+                      <TableRow key={item.productId}>
+                        <TableCell>{item.productName}</TableCell>
+                        <TableCell className="text-right">{item.quantity}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setTransferItems((items) => items.filter((row) => row.productId !== item.productId))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Catatan</label>
+                <Textarea
+                  value={transferNotes}
+                  onChange={(e) => setTransferNotes(e.target.value)}
+                  placeholder="Opsional"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Batal</Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!canSubmit || createMutation.isPending}
+                  data-testid="button-save-transfer"
+                >
+                  {createMutation.isPending ? "Menyimpan..." : "Simpan Draft"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>No. Transfer</TableHead>
+                <TableHead>Dari</TableHead>
+                <TableHead>Ke</TableHead>
+                <TableHead>Produk</TableHead>
+                <TableHead>Tanggal</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                </TableRow>
+              ) : transfers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Belum ada transfer stok</TableCell>
+                </TableRow>
+              ) : (
+                transfers.map((transfer: any) => {
+                  const status = TRANSFER_STATUS_LABELS[transfer.status] || { label: transfer.status, variant: 'outline' as const };
+                  return (
+                    <TableRow key={transfer.id} data-testid={`row-transfer-${transfer.id}`}>
+                      <TableCell className="font-medium">{transfer.transferNumber}</TableCell>
+                      <TableCell>{transfer.fromLocationName || '-'}</TableCell>
+                      <TableCell>{transfer.toLocationName || '-'}</TableCell>
+                      <TableCell>
+                        {transfer.items?.map((item: any) => (
+                          <div key={item.id} className="text-sm">
+                            {item.productName} <span className="text-muted-foreground">x{item.quantity}</span>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>{formatDateShort(transfer.createdAt)}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2 justify-end">
+                          {transfer.status === 'draft' && (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => actionMutation.mutate({ id: transfer.id, action: 'ship' })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-ship-transfer-${transfer.id}`}
+                              >
+                                <Truck className="h-4 w-4 mr-1" />
+                                Kirim
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => actionMutation.mutate({ id: transfer.id, action: 'cancel' })}
+                                disabled={actionMutation.isPending}
+                                data-testid={`button-cancel-transfer-${transfer.id}`}
+                              >
+                                <XCircle className="h-4 w-4 mr-1" />
+                                Batal
+                              </Button>
+                            </>
+                          )}
+                          {transfer.status === 'in_transit' && (
+                            <Button
+                              size="sm"
+                              onClick={() => actionMutation.mutate({ id: transfer.id, action: 'receive' })}
+                              disabled={actionMutation.isPending}
+                              data-testid={`button-receive-transfer-${transfer.id}`}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Terima
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
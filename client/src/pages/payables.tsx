@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Wallet } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateShort } from '@shared/utils/timezone';
+
+const formatCurrency = (amount: number | string) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Number(amount || 0));
+};
+
+const AGING_BUCKETS = [
+  { key: 'current', label: 'Belum Jatuh Tempo' },
+  { key: 'days1To30', label: '1-30 Hari' },
+  { key: 'days31To60', label: '31-60 Hari' },
+  { key: 'days61To90', label: '61-90 Hari' },
+  { key: 'over90', label: '> 90 Hari' },
+] as const;
+
+const BILL_STATUS_LABELS: Record<string, string> = {
+  unpaid: 'Belum Bayar',
+  partial: 'Sebagian',
+  paid: 'Lunas',
+};
+
+export default function Payables() {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [selectedBill, setSelectedBill] = useState<any | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [paymentReference, setPaymentReference] = useState("");
+  const [paymentNotes, setPaymentNotes] = useState("");
+
+  const { data: aging, isLoading: agingLoading } = useQuery<any>({
+    queryKey: ["/api/payables/aging"],
+  });
+
+  const { data: bills = [], isLoading: billsLoading } = useQuery<any[]>({
+    queryKey: ["/api/payables/bills", statusFilter],
+    queryFn: async () => {
+      const params = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/payables/bills${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch supplier bills");
+      return response.json();
+    },
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/payables/bills/${selectedBill.id}/payments`, {
+        amount: paymentAmount,
+        paymentMethod,
+        reference: paymentReference || undefined,
+        notes: paymentNotes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payables/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payables/aging"] });
+      toast({ title: "Pembayaran hutang tercatat" });
+      closePaymentDialog();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal mencatat pembayaran", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPaymentDialog = (bill: any) => {
+    setSelectedBill(bill);
+    setPaymentAmount(String(Number(bill.outstandingAmount || 0)));
+    setPaymentMethod("cash");
+    setPaymentReference("");
+    setPaymentNotes("");
+  };
+
+  const closePaymentDialog = () => {
+    setSelectedBill(null);
+    setPaymentAmount("");
+    setPaymentReference("");
+    setPaymentNotes("");
+  };
+
+  const isOverdue = (bill: any) => bill.status !== 'paid' && new Date(bill.dueDate).getTime() < Date.now();
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Hutang Supplier"
+          breadcrumb="Beranda / Hutang Supplier"
+        />
+        <main className="flex-1 overflow-y-auto p-6">
+          <Tabs defaultValue="aging" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="aging" data-testid="tab-payables-aging">Umur Hutang</TabsTrigger>
+              <TabsTrigger value="bills" data-testid="tab-supplier-bills">Tagihan Supplier</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="aging" className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                {AGING_BUCKETS.map((bucket) => (
+                  <Card key={bucket.key}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">{bucket.label}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-lg font-bold">{formatCurrency(aging?.totals?.[bucket.key] || 0)}</div>
+                    </CardContent>
+                  </Card>
+                ))}
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Total Hutang</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-lg font-bold">{formatCurrency(aging?.totals?.total || 0)}</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Umur Hutang per Supplier</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Supplier</TableHead>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {agingLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                        </TableRow>
+                      ) : !aging?.suppliers?.length ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">Tidak ada hutang berjalan</TableCell>
+                        </TableRow>
+                      ) : (
+                        aging.suppliers.map((row: any) => (
+                          <TableRow key={row.supplierId} data-testid={`row-payables-aging-${row.supplierId}`}>
+                            <TableCell className="font-medium">{row.supplierName}</TableCell>
+                            {AGING_BUCKETS.map((bucket) => (
+                              <TableCell key={bucket.key} className="text-right">
+                                {row[bucket.key] > 0 ? formatCurrency(row[bucket.key]) : '-'}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right font-semibold">{formatCurrency(row.total)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="bills">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Tagihan Supplier</CardTitle>
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="w-48" data-testid="select-bill-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open">Belum Lunas</SelectItem>
+                      <SelectItem value="paid">Lunas</SelectItem>
+                      <SelectItem value="all">Semua</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>No. Tagihan</TableHead>
+                        <TableHead>Supplier</TableHead>
+                        <TableHead>No. PO</TableHead>
+                        <TableHead>Tgl Tagihan</TableHead>
+                        <TableHead>Jatuh Tempo</TableHead>
+                        <TableHead className="text-right">Jumlah</TableHead>
+                        <TableHead className="text-right">Sisa</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {billsLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                        </TableRow>
+                      ) : bills.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center text-muted-foreground">Tidak ada tagihan supplier</TableCell>
+                        </TableRow>
+                      ) : (
+                        bills.map((bill: any) => (
+                          <TableRow key={bill.id} data-testid={`row-bill-${bill.id}`}>
+                            <TableCell className="font-medium">{bill.billNumber}</TableCell>
+                            <TableCell>{bill.supplierName || '-'}</TableCell>
+                            <TableCell>{bill.poNumber || '-'}</TableCell>
+                            <TableCell>{formatDateShort(bill.billDate)}</TableCell>
+                            <TableCell className={isOverdue(bill) ? 'text-destructive font-medium' : ''}>
+                              {formatDateShort(bill.dueDate)}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(bill.amount)}</TableCell>
+                            <TableCell className="text-right font-semibold">{formatCurrency(bill.outstandingAmount)}</TableCell>
+                            <TableCell>
+                              <Badge variant={bill.status === 'paid' ? 'default' : isOverdue(bill) ? 'destructive' : 'secondary'}>
+                                {isOverdue(bill) ? 'Jatuh Tempo' : BILL_STATUS_LABELS[bill.status] || bill.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              {bill.status !== 'paid' && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => openPaymentDialog(bill)}
+                                  data-testid={`button-pay-bill-${bill.id}`}
+                                >
+                                  <Wallet className="w-4 h-4 mr-2" />
+                                  Bayar
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+
+      <Dialog open={!!selectedBill} onOpenChange={(open) => !open && closePaymentDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Bayar Tagihan Supplier</DialogTitle>
+          </DialogHeader>
+          {selectedBill && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label>Supplier</Label>
+                  <p className="font-medium">{selectedBill.supplierName}</p>
+                </div>
+                <div>
+                  <Label>Sisa Tagihan</Label>
+                  <p className="font-medium">{formatCurrency(selectedBill.outstandingAmount)}</p>
+                </div>
+                <div>
+                  <Label>No. Tagihan</Label>
+                  <p className="font-medium">{selectedBill.billNumber}</p>
+                </div>
+                <div>
+                  <Label>Jatuh Tempo</Label>
+                  <p className="font-medium">{formatDateShort(selectedBill.dueDate)}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="billPaymentAmount">Jumlah Bayar</Label>
+                <Input
+                  id="billPaymentAmount"
+                  type="number"
+                  min="0"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  data-testid="input-bill-payment-amount"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Metode Pembayaran</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="select-bill-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Tunai</SelectItem>
+                    <SelectItem value="bank_transfer">Transfer Bank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="billPaymentReference">Referensi</Label>
+                <Input
+                  id="billPaymentReference"
+                  value={paymentReference}
+                  onChange={(e) => setPaymentReference(e.target.value)}
+                  placeholder="No. bukti transfer / giro (opsional)"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="billPaymentNotes">Catatan</Label>
+                <Input
+                  id="billPaymentNotes"
+                  value={paymentNotes}
+                  onChange={(e) => setPaymentNotes(e.target.value)}
+                  placeholder="Opsional"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closePaymentDialog}>
+                  Batal
+                </Button>
+                <Button
+                  onClick={() => paymentMutation.mutate()}
+                  disabled={paymentMutation.isPending || !(Number(paymentAmount) > 0)}
+                  data-testid="button-submit-bill-payment"
+                >
+                  {paymentMutation.isPending ? "Menyimpan..." : "Simpan Pembayaran"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
 import { useState } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useQueryClient, useMutation } from "@tanstack/react-query";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import TransactionModal from "@/components/pos/transaction-modal";
 import ReceiptModal from "@/components/pos/receipt-modal";
+import ReturnModal from "@/components/pos/return-modal";
+import OpenShiftModal from "@/components/pos/open-shift-modal";
+import CashMovementModal from "@/components/pos/cash-movement-modal";
+import CloseShiftModal from "@/components/pos/close-shift-modal";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Eye } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDateWithTime } from '@shared/utils/timezone';
+import { Plus, Eye, Undo2, Wallet, Lock, Play, Trash2 } from "lucide-react";
 // Format currency helper function
 const formatCurrency = (amount: number) => {
   return new Intl.NumberFormat('id-ID', {
@@ -20,8 +27,25 @@ const formatCurrency = (amount: number) => {
 export default function POS() {
   const [showTransactionModal, setShowTransactionModal] = useState(false);
   const [showReceiptModal, setShowReceiptModal] = useState(false);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [showOpenShiftModal, setShowOpenShiftModal] = useState(false);
+  const [showCashMovementModal, setShowCashMovementModal] = useState(false);
+  const [showCloseShiftModal, setShowCloseShiftModal] = useState(false);
   const [currentTransaction, setCurrentTransaction] = useState(null);
+  const [resumedCart, setResumedCart] = useState<any>(null);
+  const [activeCartItems, setActiveCartItems] = useState(0);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Carts parked on any terminal of this store
+  const { data: parkedCarts = [] } = useQuery<any[]>({
+    queryKey: ["/api/parked-carts"],
+  });
+
+  // Sales and returns are only accepted while the cashier has an open shift
+  const { data: currentShift, isLoading: shiftLoading } = useQuery<any>({
+    queryKey: ["/api/shifts/current"],
+  });
 
   // Fetch recent transactions (limit to 10)
   const { data: transactions = [], isLoading: transactionsLoading } = useQuery({
@@ -40,15 +64,73 @@ export default function POS() {
     queryKey: ["/api/dashboard/stats"],
   }) as { data: { todaySales?: string; todayRevenue?: string; activeServices?: number } | undefined };
 
+  const requireOpenShift = () => {
+    if (currentShift) return true;
+    toast({ title: "Shift belum dibuka", description: "Buka shift kasir sebelum memproses penjualan." });
+    setShowOpenShiftModal(true);
+    return false;
+  };
+
   const handleNewTransaction = () => {
+    if (!requireOpenShift()) return;
     setShowTransactionModal(true);
   };
 
+  const refreshParkedCarts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/parked-carts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const resumeCartMutation = useMutation({
+    mutationFn: async (cartId: string) => apiRequest('POST', `/api/parked-carts/${cartId}/resume`),
+    onSuccess: (cart: any) => {
+      setResumedCart(cart);
+      setShowTransactionModal(true);
+      refreshParkedCarts();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal melanjutkan keranjang", description: error.message, variant: "destructive" });
+      refreshParkedCarts();
+    },
+  });
+
+  const cancelCartMutation = useMutation({
+    mutationFn: async (cartId: string) => apiRequest('DELETE', `/api/parked-carts/${cartId}`),
+    onSuccess: () => {
+      toast({ title: "Keranjang dibatalkan", description: "Stok yang ditahan sudah dilepas." });
+      refreshParkedCarts();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal membatalkan keranjang", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleResumeCart = (cart: any) => {
+    if (!requireOpenShift()) return;
+    // The open cart would be overwritten, so it has to be parked or finished first
+    if (activeCartItems > 0) {
+      toast({
+        title: "Masih ada keranjang aktif",
+        description: "Tahan atau selesaikan keranjang yang sedang dibuka terlebih dahulu.",
+        variant: "destructive",
+      });
+      setShowTransactionModal(true);
+      return;
+    }
+    resumeCartMutation.mutate(cart.id);
+  };
+
+  const refreshShift = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts/current"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/shifts"] });
+  };
+
   const handleTransactionComplete = async (transaction: any) => {
     console.log('Transaction completed:', transaction);
     
     // Close transaction modal first
     setShowTransactionModal(false);
+    setResumedCart(null);
     
     try {
       // Fetch the complete transaction data with all related information
@@ -79,6 +161,13 @@ export default function POS() {
     queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
   };
 
+  // Returns print their own receipt the same way a sale does
+  const handleReturnComplete = async (returnTransaction: any) => {
+    setShowReturnModal(false);
+    await handleTransactionComplete(returnTransaction);
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
   const handleViewTransaction = (transaction: any) => {
     setCurrentTransaction(transaction);
     setShowReceiptModal(true);
@@ -109,13 +198,57 @@ export default function POS() {
           title="Kasir" 
           breadcrumb="Beranda / Kasir"
           action={
-            <Button 
-              onClick={handleNewTransaction}
-              data-testid="button-new-transaction"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Transaksi Baru
-            </Button>
+            <div className="flex gap-2">
+              {currentShift ? (
+                <>
+                  <Badge variant="outline" className="self-center" data-testid="badge-current-shift">
+                    {currentShift.shiftNumber}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowCashMovementModal(true)}
+                    data-testid="button-cash-movement"
+                  >
+                    <Wallet className="w-4 h-4 mr-2" />
+                    Kas Masuk/Keluar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowCloseShiftModal(true)}
+                    data-testid="button-open-close-shift"
+                  >
+                    <Lock className="w-4 h-4 mr-2" />
+                    Tutup Shift
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowOpenShiftModal(true)}
+                  disabled={shiftLoading}
+                  data-testid="button-start-shift"
+                >
+                  <Wallet className="w-4 h-4 mr-2" />
+                  Buka Shift
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => requireOpenShift() && setShowReturnModal(true)}
+                data-testid="button-new-return"
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Retur / Tukar
+              </Button>
+              <Button 
+                onClick={handleNewTransaction}
+                disabled={shiftLoading}
+                data-testid="button-new-transaction"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Transaksi Baru
+              </Button>
+            </div>
           }
         />
         <main className="flex-1 overflow-y-auto p-6">
@@ -142,8 +275,8 @@ export default function POS() {
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
                             <span className="font-medium">{transaction.transactionNumber}</span>
-                            <Badge variant={transaction.type === 'sale' ? 'default' : 'secondary'}>
-                              {transaction.type}
+                            <Badge variant={transaction.type === 'sale' ? 'default' : transaction.type === 'return' ? 'destructive' : 'secondary'}>
+                              {transaction.type === 'return' ? 'retur' : transaction.type}
                             </Badge>
                           </div>
                           <div className="text-sm text-muted-foreground">
@@ -174,35 +307,91 @@ export default function POS() {
               </CardContent>
             </Card>
             
-            <Card>
-              <CardHeader>
-                <CardTitle>Quick Stats</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Product Sales</span>
-                    <span className="font-medium">
-                      {formatCurrency(resolvedTodaySales)}
-                    </span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Total Revenue</span>
-                    <span className="font-medium">
-                      {formatCurrency(resolvedTodayRevenue)}
-                    </span>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Quick Stats</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Product Sales</span>
+                      <span className="font-medium">
+                        {formatCurrency(resolvedTodaySales)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Total Revenue</span>
+                      <span className="font-medium">
+                        {formatCurrency(resolvedTodayRevenue)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Transactions</span>
+                      <span className="font-medium">{transactions.length}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Active Services</span>
+                      <span className="font-medium">{stats?.activeServices || 0}</span>
+                    </div>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Transactions</span>
-                    <span className="font-medium">{transactions.length}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Active Services</span>
-                    <span className="font-medium">{stats?.activeServices || 0}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    Keranjang Ditahan
+                    <Badge variant="secondary" data-testid="badge-parked-cart-count">{parkedCarts.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {parkedCarts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Tidak ada keranjang yang ditahan.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {parkedCarts.map((cart: any) => (
+                        <div key={cart.id} className="p-3 border rounded-lg space-y-2" data-testid={`parked-cart-${cart.id}`}>
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <div className="font-medium">{cart.label || cart.customerName || cart.cartNumber}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {(cart.items || []).length} item • {formatCurrency(parseFloat(cart.subtotal || 0))}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                {cart.userName || '-'}{cart.locationName ? ` • ${cart.locationName}` : ''}
+                              </div>
+                              <div className="text-xs text-muted-foreground">
+                                Berlaku s/d {formatDateWithTime(cart.expiresAt)}
+                              </div>
+                            </div>
+                            <div className="flex gap-1">
+                              <Button
+                                size="sm"
+                                onClick={() => handleResumeCart(cart)}
+                                disabled={resumeCartMutation.isPending}
+                                data-testid={`button-resume-cart-${cart.id}`}
+                              >
+                                <Play className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => cancelCartMutation.mutate(cart.id)}
+                                disabled={cancelCartMutation.isPending}
+                                data-testid={`button-cancel-cart-${cart.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </div>
         </main>
       </div>
@@ -211,8 +400,53 @@ export default function POS() {
         open={showTransactionModal}
         onClose={() => setShowTransactionModal(false)}
         onComplete={handleTransactionComplete}
+        resumedCart={resumedCart}
+        onParked={() => {
+          setShowTransactionModal(false);
+          refreshParkedCarts();
+        }}
+        onCartItemsChange={setActiveCartItems}
+      />
+
+      <ReturnModal
+        open={showReturnModal}
+        onClose={() => setShowReturnModal(false)}
+        onComplete={handleReturnComplete}
+      />
+
+      <OpenShiftModal
+        open={showOpenShiftModal}
+        onClose={() => setShowOpenShiftModal(false)}
+        onOpened={() => {
+          setShowOpenShiftModal(false);
+          refreshShift();
+        }}
       />
 
+      {currentShift && (
+        <>
+          <CashMovementModal
+            open={showCashMovementModal}
+            shift={currentShift}
+            onClose={() => setShowCashMovementModal(false)}
+            onRecorded={() => {
+              setShowCashMovementModal(false);
+              refreshShift();
+            }}
+          />
+
+          <CloseShiftModal
+            open={showCloseShiftModal}
+            shift={currentShift}
+            onClose={() => setShowCloseShiftModal(false)}
+            onClosed={() => {
+              setShowCloseShiftModal(false);
+              refreshShift();
+            }}
+          />
+        </>
+      )}
+
       <ReceiptModal
         open={showReceiptModal}
         onClose={() => setShowReceiptModal(false)}
@@ -12,7 +12,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Plus, ShoppingCart, Package, Truck, CheckCircle, Clock, AlertCircle, Eye, Edit, Trash2, MoreHorizontal } from "lucide-react";
+import { Plus, ShoppingCart, Package, Truck, CheckCircle, Clock, AlertCircle, Eye, Edit, Trash2, MoreHorizontal, Wrench, RotateCcw } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -158,6 +158,7 @@ export default function PurchasingPage() {
       // Invalidate semua queries terkait untuk update instan
       queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/outstanding-items"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/service-part-requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
       
@@ -241,7 +242,7 @@ export default function PurchasingPage() {
   // Mutations
   const createPOMutation = useMutation({
     mutationFn: (data: any) => apiRequest("POST", "/api/purchase-orders", data),
-    onSuccess: () => {
+    onSuccess: (order: any) => {
       // Comprehensive invalidation for new PO
       queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/outstanding-items"] });
@@ -250,6 +251,9 @@ export default function PurchasingPage() {
       setPOItems([]);
       poForm.reset();
       toast({ title: "Purchase order berhasil dibuat dengan items" });
+      if (order?.creditWarning) {
+        toast({ title: "Peringatan batas kredit supplier", description: order.creditWarning, variant: "destructive" });
+      }
     },
     onError: (error) => {
       toast({ title: "Gagal membuat purchase order", description: error.message, variant: "destructive" });
@@ -290,7 +294,10 @@ export default function PurchasingPage() {
     mutationFn: async (itemsToReceive: any[]) => {
       return Promise.all(
         itemsToReceive.map(item => 
-          apiRequest('POST', `/api/purchase-orders/items/${item.itemId}/receive`, { receivedQuantity: item.quantity })
+          apiRequest('POST', `/api/purchase-orders/items/${item.itemId}/receive`, {
+            receivedQuantity: item.quantity,
+            serialNumbers: item.serialNumbers,
+          })
         )
       );
     },
@@ -614,7 +621,7 @@ export default function PurchasingPage() {
       </div>
 
       <Tabs value={selectedTab} onValueChange={setSelectedTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="orders" className="flex items-center gap-2" data-testid="tab-orders">
             <ShoppingCart className="h-4 w-4" />
             Purchase Orders
@@ -623,6 +630,14 @@ export default function PurchasingPage() {
             <Truck className="h-4 w-4" />
             Receiving
           </TabsTrigger>
+          <TabsTrigger value="service-requests" className="flex items-center gap-2" data-testid="tab-service-requests">
+            <Wrench className="h-4 w-4" />
+            Permintaan Servis
+          </TabsTrigger>
+          <TabsTrigger value="rma" className="flex items-center gap-2" data-testid="tab-rma">
+            <RotateCcw className="h-4 w-4" />
+            RMA Supplier
+          </TabsTrigger>
           <TabsTrigger value="suppliers" className="flex items-center gap-2" data-testid="tab-suppliers">
             <Package className="h-4 w-4" />
             Suppliers
@@ -797,6 +812,14 @@ export default function PurchasingPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="service-requests" className="space-y-4">
+          <ServicePartRequestsView />
+        </TabsContent>
+
+        <TabsContent value="rma" className="space-y-4">
+          <SupplierRmaView />
+        </TabsContent>
+
         <TabsContent value="suppliers" className="space-y-4">
           <Card>
             <CardHeader>
@@ -1179,6 +1202,7 @@ export default function PurchasingPage() {
                 <TableBody>
                   {selectedPOItems?.map((item: any) => {
                     const receivingQty = receivingItems.find(r => r.itemId === item.id)?.quantity || 0;
+                    const receivingSerials: string[] = receivingItems.find(r => r.itemId === item.id)?.serialNumbers || [];
                     const remaining = item.quantity - (item.receivedQuantity || 0) - receivingQty;
                     const outstandingQty = item.outstandingQuantity || (item.quantity - (item.receivedQuantity || 0));
                     const outstandingStatus = item.outstandingStatus || 'pending';
@@ -1220,6 +1244,26 @@ export default function PurchasingPage() {
                             }}
                             className="w-20"
                           />
+                          {item.trackSerial && receivingQty > 0 && (
+                            <div className="mt-2 space-y-1">
+                              <Textarea
+                                rows={Math.min(receivingQty, 5)}
+                                placeholder="Satu nomor seri per baris"
+                                value={receivingSerials.join('\n')}
+                                onChange={(e) => {
+                                  const serialNumbers = e.target.value.split('\n');
+                                  setReceivingItems(prev =>
+                                    prev.map(r => r.itemId === item.id ? { ...r, serialNumbers } : r)
+                                  );
+                                }}
+                                className="w-56 font-mono text-xs"
+                                data-testid={`textarea-serials-${item.id}`}
+                              />
+                              <p className="text-xs text-muted-foreground">
+                                {receivingSerials.filter(serial => serial.trim()).length}/{receivingQty} nomor seri
+                              </p>
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="font-medium">
                           {outstandingQty > 0 ? outstandingQty : '-'}
@@ -1308,7 +1352,24 @@ export default function PurchasingPage() {
               
               <Button 
                 onClick={() => {
-                  const itemsToReceive = receivingItems.filter(item => item.quantity > 0);
+                  const itemsToReceive = receivingItems
+                    .filter(item => item.quantity > 0)
+                    .map(item => ({
+                      ...item,
+                      serialNumbers: (item.serialNumbers || [])
+                        .map((serial: string) => serial.trim())
+                        .filter(Boolean),
+                    }));
+
+                  const missingSerials = itemsToReceive.find(item => {
+                    const poItem = selectedPOItems?.find((poItem: any) => poItem.id === item.itemId);
+                    return poItem?.trackSerial && item.serialNumbers.length !== item.quantity;
+                  });
+
+                  if (missingSerials) {
+                    toast({ title: "Nomor seri belum lengkap", description: "Isi satu nomor seri untuk setiap unit yang diterima", variant: "destructive" });
+                    return;
+                  }
                   
                   if (itemsToReceive.length > 0) {
                     receiveMutation.mutate(itemsToReceive);
@@ -1329,4 +1390,553 @@ export default function PurchasingPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+const PART_REQUEST_STATUS_LABELS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Menunggu PO', variant: 'outline' },
+  ordered: { label: 'Dipesan', variant: 'secondary' },
+  received: { label: 'Diterima', variant: 'default' },
+  cancelled: { label: 'Dibatalkan', variant: 'destructive' },
+};
+
+// Parts requested by waiting-parts service tickets
+function ServicePartRequestsView() {
+  const [statusFilter, setStatusFilter] = useState("pending");
+
+  const { data: requests = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/service-part-requests", statusFilter],
+    queryFn: async () => {
+      const params = statusFilter !== "all" ? `?status=${statusFilter}` : '';
+      const response = await fetch(`/api/service-part-requests${params}`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch service part requests: ${response.status}`);
+      }
+      return response.json();
+    },
+  });
+
+  const createOrdersMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/service-part-requests/create-orders'),
+    onSuccess: (result: { purchaseOrders: any[]; skipped: Array<{ ticketNumber: string; reason: string }> }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/service-part-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      const skippedNote = result.skipped.length > 0
+        ? ` ${result.skipped.length} permintaan dilewati karena supplier belum ditentukan.`
+        : '';
+      toast({
+        title: "Draft PO dibuat",
+        description: `${result.purchaseOrders.length} draft purchase order diperbarui.${skippedNote}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingCount = requests.filter((request: any) => request.status === 'pending').length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Permintaan Sparepart Servis</CardTitle>
+          <CardDescription>Dikelompokkan per supplier utama menjadi draft purchase order</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40" data-testid="select-part-request-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Menunggu PO</SelectItem>
+              <SelectItem value="ordered">Dipesan</SelectItem>
+              <SelectItem value="received">Diterima</SelectItem>
+              <SelectItem value="all">Semua</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => createOrdersMutation.mutate()}
+            disabled={createOrdersMutation.isPending || (statusFilter === "pending" && pendingCount === 0)}
+            data-testid="button-create-orders-from-requests"
+          >
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            {createOrdersMutation.isPending ? "Memproses..." : "Buat Draft PO"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tiket</TableHead>
+              <TableHead>Pelanggan</TableHead>
+              <TableHead>Sparepart</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead>Supplier</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Tanggal</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat data...</TableCell>
+              </TableRow>
+            ) : requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">Tidak ada permintaan sparepart</TableCell>
+              </TableRow>
+            ) : (
+              requests.map((request: any) => {
+                const badge = PART_REQUEST_STATUS_LABELS[request.status] ?? PART_REQUEST_STATUS_LABELS.pending;
+                return (
+                  <TableRow key={request.id} data-testid={`row-part-request-${request.id}`}>
+                    <TableCell className="font-medium">{request.ticketNumber}</TableCell>
+                    <TableCell>{request.customerName || '-'}</TableCell>
+                    <TableCell>
+                      {request.productName || request.description}
+                      {!request.productId && <Badge variant="outline" className="ml-2">Baru</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{request.quantity}</TableCell>
+                    <TableCell>
+                      {request.supplierName
+                        || (request.productId
+                          ? <span className="text-muted-foreground">Supplier pembelian terakhir</span>
+                          : <span className="text-destructive">Belum ditentukan</span>)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={badge.variant}>{badge.label}{request.poNumber ? ` ${request.poNumber}` : ''}</Badge>
+                    </TableCell>
+                    <TableCell>{formatDateShort(request.createdAt)}</TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+const RMA_STATUS_LABELS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Belum Dikirim', variant: 'outline' },
+  shipped: { label: 'Dikirim', variant: 'secondary' },
+  repaired: { label: 'Diperbaiki', variant: 'default' },
+  replaced: { label: 'Diganti', variant: 'default' },
+  credited: { label: 'Nota Kredit', variant: 'default' },
+  rejected: { label: 'Ditolak', variant: 'destructive' },
+};
+
+const RMA_OUTCOME_LABELS: Record<string, string> = {
+  repaired: 'Diperbaiki - kembali ke stok',
+  replaced: 'Diganti unit baru - masuk stok',
+  credited: 'Nota kredit - potong hutang',
+  rejected: 'Ditolak supplier',
+};
+
+const parseSerialInput = (value: string) => value.split(/[\s,]+/).map((serial) => serial.trim()).filter(Boolean);
+
+// Damaged stock sent back to the supplier under vendor warranty
+function SupplierRmaView() {
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [candidate, setCandidate] = useState<any | null>(null);
+  const [rmaQuantity, setRmaQuantity] = useState(1);
+  const [rmaSupplierId, setRmaSupplierId] = useState("");
+  const [rmaSerials, setRmaSerials] = useState<string[]>([]);
+  const [rmaNotes, setRmaNotes] = useState("");
+  const [shipping, setShipping] = useState<any | null>(null);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [resolving, setResolving] = useState<any | null>(null);
+  const [outcome, setOutcome] = useState("repaired");
+  const [replacementSerials, setReplacementSerials] = useState("");
+  const [creditAmount, setCreditAmount] = useState("");
+  const [resolveNotes, setResolveNotes] = useState("");
+
+  const { data: candidates = [], isLoading: isCandidatesLoading } = useQuery<any[]>({
+    queryKey: ["/api/supplier-rmas/candidates"],
+  });
+
+  const { data: rmas = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/supplier-rmas"],
+  });
+
+  const { data: suppliers = [] } = useQuery<any[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const visibleRmas = rmas.filter((rma: any) =>
+    statusFilter === "all" ? true : statusFilter === "open" ? ['pending', 'shipped'].includes(rma.status) : rma.status === statusFilter
+  );
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/supplier-rmas"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/supplier-rmas/candidates"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const openCreate = (row: any) => {
+    setCandidate(row);
+    setRmaQuantity(row.availableQuantity);
+    setRmaSupplierId(row.supplierId || "");
+    setRmaSerials(row.serialNumbers);
+    setRmaNotes("");
+  };
+
+  const openResolve = (rma: any) => {
+    setResolving(rma);
+    setOutcome("repaired");
+    setReplacementSerials("");
+    setCreditAmount((Number(rma.unitCost) * rma.quantity).toFixed(0));
+    setResolveNotes("");
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/supplier-rmas', {
+      stockMovementId: candidate.stockMovementId,
+      quantity: candidate.serialNumbers.length > 0 ? rmaSerials.length : rmaQuantity,
+      supplierId: rmaSupplierId || undefined,
+      serialNumbers: candidate.serialNumbers.length > 0 ? rmaSerials : undefined,
+      notes: rmaNotes.trim() || undefined,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setCandidate(null);
+      toast({ title: "RMA dibuat", description: "Barang rusak siap dikirim ke supplier" });
+    },
+    onError,
+  });
+
+  const shipMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/supplier-rmas/${shipping.id}/ship`, {
+      trackingNumber: trackingNumber.trim() || undefined,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setShipping(null);
+      setTrackingNumber("");
+      toast({ title: "RMA dikirim", description: "Status RMA diperbarui menjadi dikirim" });
+    },
+    onError,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/supplier-rmas/${resolving.id}/resolve`, {
+      outcome,
+      serialNumbers: outcome === 'replaced' ? parseSerialInput(replacementSerials) : undefined,
+      creditAmount: outcome === 'credited' && creditAmount ? Number(creditAmount) : undefined,
+      notes: resolveNotes.trim() || undefined,
+    }),
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/payables/bills"] });
+      setResolving(null);
+      toast({ title: "RMA selesai", description: RMA_OUTCOME_LABELS[outcome] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Barang Rusak Siap Diretur</CardTitle>
+          <CardDescription>Barang retur rusak yang dapat diklaim ke supplier asalnya</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produk</TableHead>
+                <TableHead>Referensi</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead>Supplier Asal</TableHead>
+                <TableHead>Tanggal</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isCandidatesLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                </TableRow>
+              ) : candidates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">Tidak ada barang rusak yang belum diretur</TableCell>
+                </TableRow>
+              ) : (
+                candidates.map((row: any) => (
+                  <TableRow key={row.stockMovementId} data-testid={`row-rma-candidate-${row.stockMovementId}`}>
+                    <TableCell>
+                      <div className="font-medium">{row.productName}</div>
+                      {row.serialNumbers.length > 0 && (
+                        <div className="text-xs text-muted-foreground font-mono">{row.serialNumbers.join(', ')}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{row.referenceNumber || '-'}</TableCell>
+                    <TableCell className="text-right">{row.availableQuantity}</TableCell>
+                    <TableCell>{row.supplierName || <span className="text-destructive">Tidak terlacak</span>}</TableCell>
+                    <TableCell>{row.damagedAt ? formatDateShort(row.damagedAt) : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => openCreate(row)} data-testid={`button-create-rma-${row.stockMovementId}`}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Buat RMA
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>RMA Supplier</CardTitle>
+            <CardDescription>Pengiriman barang rusak ke supplier dan hasil klaimnya</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40" data-testid="select-rma-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Dalam Proses</SelectItem>
+              {Object.entries(RMA_STATUS_LABELS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+              <SelectItem value="all">Semua</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>No. RMA</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Produk</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Nilai</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                </TableRow>
+              ) : visibleRmas.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">Tidak ada RMA</TableCell>
+                </TableRow>
+              ) : (
+                visibleRmas.map((rma: any) => {
+                  const badge = RMA_STATUS_LABELS[rma.status] ?? RMA_STATUS_LABELS.pending;
+                  return (
+                    <TableRow key={rma.id} data-testid={`row-rma-${rma.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{rma.rmaNumber}</div>
+                        <div className="text-xs text-muted-foreground">{formatDateShort(rma.createdAt)}</div>
+                      </TableCell>
+                      <TableCell>{rma.supplierName || '-'}</TableCell>
+                      <TableCell>
+                        <div>{rma.productName}</div>
+                        {rma.serialNumbers?.length > 0 && (
+                          <div className="text-xs text-muted-foreground font-mono">{rma.serialNumbers.join(', ')}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{rma.quantity}</TableCell>
+                      <TableCell className="text-right">
+                        Rp {Number(rma.creditAmount ?? Number(rma.unitCost) * rma.quantity).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                        {rma.trackingNumber && <div className="text-xs text-muted-foreground mt-1">Resi: {rma.trackingNumber}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {rma.status === 'pending' && (
+                          <Button size="sm" variant="outline" onClick={() => setShipping(rma)} data-testid={`button-ship-rma-${rma.id}`}>
+                            <Truck className="h-4 w-4 mr-1" />
+                            Kirim
+                          </Button>
+                        )}
+                        {rma.status === 'shipped' && (
+                          <Button size="sm" onClick={() => openResolve(rma)} data-testid={`button-resolve-rma-${rma.id}`}>
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Selesaikan
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!candidate} onOpenChange={(open) => !open && setCandidate(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Buat RMA Supplier</DialogTitle>
+            <DialogDescription>{candidate?.productName}</DialogDescription>
+          </DialogHeader>
+          {candidate && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Supplier</Label>
+                <Select value={rmaSupplierId} onValueChange={setRmaSupplierId}>
+                  <SelectTrigger data-testid="select-rma-supplier">
+                    <SelectValue placeholder="Pilih supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((supplier: any) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {candidate.serialNumbers.length > 0 ? (
+                <div className="space-y-2">
+                  <Label>Nomor Seri</Label>
+                  {candidate.serialNumbers.map((serial: string) => (
+                    <label key={serial} className="flex items-center gap-2 text-sm font-mono">
+                      <input
+                        type="checkbox"
+                        checked={rmaSerials.includes(serial)}
+                        onChange={(e) => setRmaSerials(e.target.checked
+                          ? [...rmaSerials, serial]
+                          : rmaSerials.filter((item) => item !== serial))}
+                      />
+                      {serial}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Jumlah</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={candidate.availableQuantity}
+                    value={rmaQuantity}
+                    onChange={(e) => setRmaQuantity(Math.min(candidate.availableQuantity, Math.max(1, parseInt(e.target.value) || 1)))}
+                    data-testid="input-rma-quantity"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label>Catatan</Label>
+                <Textarea value={rmaNotes} onChange={(e) => setRmaNotes(e.target.value)} rows={2} placeholder="Keluhan kerusakan" />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setCandidate(null)}>Batal</Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!rmaSupplierId || createMutation.isPending || (candidate.serialNumbers.length > 0 && rmaSerials.length === 0)}
+                  data-testid="button-submit-rma"
+                >
+                  {createMutation.isPending ? "Menyimpan..." : "Buat RMA"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!shipping} onOpenChange={(open) => !open && setShipping(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Kirim {shipping?.rmaNumber}</DialogTitle>
+            <DialogDescription>{shipping?.supplierName}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Nomor Resi</Label>
+              <Input value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} data-testid="input-rma-tracking" />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setShipping(null)}>Batal</Button>
+              <Button onClick={() => shipMutation.mutate()} disabled={shipMutation.isPending} data-testid="button-submit-rma-ship">
+                {shipMutation.isPending ? "Menyimpan..." : "Tandai Dikirim"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Hasil {resolving?.rmaNumber}</DialogTitle>
+            <DialogDescription>{resolving?.productName} x{resolving?.quantity}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Hasil Klaim</Label>
+              <Select value={outcome} onValueChange={setOutcome}>
+                <SelectTrigger data-testid="select-rma-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RMA_OUTCOME_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {outcome === 'replaced' && (
+              <div className="space-y-2">
+                <Label>Nomor Seri Pengganti</Label>
+                <Textarea
+                  value={replacementSerials}
+                  onChange={(e) => setReplacementSerials(e.target.value)}
+                  rows={2}
+                  placeholder="Pisahkan dengan koma atau baris baru (untuk produk bernomor seri)"
+                  className="font-mono"
+                  data-testid="textarea-rma-replacement-serials"
+                />
+              </div>
+            )}
+            {outcome === 'credited' && (
+              <div className="space-y-2">
+                <Label>Nilai Nota Kredit</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={creditAmount}
+                  onChange={(e) => setCreditAmount(e.target.value)}
+                  data-testid="input-rma-credit-amount"
+                />
+                <p className="text-xs text-muted-foreground">Dipotongkan ke tagihan supplier yang belum lunas (Hutang Usaha)</p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Catatan</Label>
+              <Textarea value={resolveNotes} onChange={(e) => setResolveNotes(e.target.value)} rows={2} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setResolving(null)}>Batal</Button>
+              <Button
+                onClick={() => resolveMutation.mutate()}
+                disabled={resolveMutation.isPending || (outcome === 'credited' && !(Number(creditAmount) > 0))}
+                data-testid="button-submit-rma-resolve"
+              >
+                {resolveMutation.isPending ? "Menyimpan..." : "Simpan"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
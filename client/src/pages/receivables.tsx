@@ -0,0 +1,383 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Send, Wallet } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateShort } from '@shared/utils/timezone';
+
+const formatCurrency = (amount: number | string) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Number(amount || 0));
+};
+
+const AGING_BUCKETS = [
+  { key: 'current', label: 'Belum Jatuh Tempo' },
+  { key: 'days1To30', label: '1-30 Hari' },
+  { key: 'days31To60', label: '31-60 Hari' },
+  { key: 'days61To90', label: '61-90 Hari' },
+  { key: 'over90', label: '> 90 Hari' },
+] as const;
+
+const SCHEDULE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Belum Bayar',
+  partial: 'Sebagian',
+  paid: 'Lunas',
+  overdue: 'Terlambat',
+};
+
+export default function Receivables() {
+  const { toast } = useToast();
+  const [selectedPlan, setSelectedPlan] = useState<any | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [paymentNotes, setPaymentNotes] = useState("");
+
+  const { data: aging, isLoading: agingLoading } = useQuery<any>({
+    queryKey: ["/api/receivables/aging"],
+  });
+
+  const { data: plans = [], isLoading: plansLoading } = useQuery<any[]>({
+    queryKey: ["/api/installment-plans"],
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/installment-plans/${selectedPlan.id}/payments`, {
+        amount: paymentAmount,
+        paymentMethod,
+        notes: paymentNotes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/installment-plans"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/receivables/aging"] });
+      toast({ title: "Pembayaran cicilan tercatat" });
+      closePaymentDialog();
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal mencatat pembayaran", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reminderMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/receivables/reminders'),
+    onSuccess: (result: any) => {
+      toast({
+        title: "Pengingat cicilan dikirim",
+        description: `${result.sent} terkirim, ${result.skipped} tanpa nomor, ${result.failed} gagal`,
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal mengirim pengingat", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openPaymentDialog = (plan: any) => {
+    setSelectedPlan(plan);
+    setPaymentAmount(String(Number(plan.outstandingAmount || 0)));
+    setPaymentMethod("cash");
+    setPaymentNotes("");
+  };
+
+  const closePaymentDialog = () => {
+    setSelectedPlan(null);
+    setPaymentAmount("");
+    setPaymentNotes("");
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Piutang & Cicilan"
+          breadcrumb="Beranda / Piutang & Cicilan"
+          action={
+            <Button
+              variant="outline"
+              onClick={() => reminderMutation.mutate()}
+              disabled={reminderMutation.isPending}
+              data-testid="button-send-reminders"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {reminderMutation.isPending ? "Mengirim..." : "Kirim Pengingat WhatsApp"}
+            </Button>
+          }
+        />
+        <main className="flex-1 overflow-y-auto p-6">
+          <Tabs defaultValue="aging" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="aging" data-testid="tab-aging">Umur Piutang</TabsTrigger>
+              <TabsTrigger value="plans" data-testid="tab-plans">Rencana Cicilan</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="aging" className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                {AGING_BUCKETS.map((bucket) => (
+                  <Card key={bucket.key}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-sm font-medium">{bucket.label}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-lg font-bold">{formatCurrency(aging?.totals?.[bucket.key] || 0)}</div>
+                    </CardContent>
+                  </Card>
+                ))}
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">Total Piutang</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-lg font-bold">{formatCurrency(aging?.totals?.total || 0)}</div>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Umur Piutang per Pelanggan</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Pelanggan</TableHead>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Total</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {agingLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                        </TableRow>
+                      ) : !aging?.customers?.length ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center text-muted-foreground">Tidak ada piutang berjalan</TableCell>
+                        </TableRow>
+                      ) : (
+                        aging.customers.map((row: any) => (
+                          <TableRow key={row.customerId} data-testid={`row-aging-${row.customerId}`}>
+                            <TableCell>
+                              <div className="font-medium">{row.customerName}</div>
+                              <div className="text-xs text-muted-foreground">{row.customerPhone || '-'}</div>
+                            </TableCell>
+                            {AGING_BUCKETS.map((bucket) => (
+                              <TableCell key={bucket.key} className="text-right">
+                                {row[bucket.key] > 0 ? formatCurrency(row[bucket.key]) : '-'}
+                              </TableCell>
+                            ))}
+                            <TableCell className="text-right font-semibold">{formatCurrency(row.total)}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="plans">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Rencana Cicilan</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>No. Cicilan</TableHead>
+                        <TableHead>Pelanggan</TableHead>
+                        <TableHead>Transaksi</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Uang Muka</TableHead>
+                        <TableHead className="text-right">Sisa</TableHead>
+                        <TableHead>Jatuh Tempo Berikutnya</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plansLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                        </TableRow>
+                      ) : plans.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center text-muted-foreground">Belum ada penjualan cicilan</TableCell>
+                        </TableRow>
+                      ) : (
+                        plans.map((plan: any) => {
+                          const nextTerm = plan.schedules?.find((schedule: any) => schedule.status !== 'paid');
+                          return (
+                            <TableRow key={plan.id} data-testid={`row-plan-${plan.id}`}>
+                              <TableCell className="font-medium">{plan.planNumber}</TableCell>
+                              <TableCell>{plan.customer?.name || '-'}</TableCell>
+                              <TableCell>{plan.transactionNumber || '-'}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(plan.totalAmount)}</TableCell>
+                              <TableCell className="text-right">{formatCurrency(plan.downPayment)}</TableCell>
+                              <TableCell className="text-right font-semibold">{formatCurrency(plan.outstandingAmount)}</TableCell>
+                              <TableCell>
+                                {nextTerm ? (
+                                  <div>
+                                    <div>{formatDateShort(nextTerm.dueDate)}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      Ke-{nextTerm.termNumber} • {SCHEDULE_STATUS_LABELS[nextTerm.status] || nextTerm.status}
+                                    </div>
+                                  </div>
+                                ) : '-'}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant={plan.status === 'paid' ? 'default' : 'secondary'}>
+                                  {plan.status === 'paid' ? 'Lunas' : plan.status === 'active' ? 'Aktif' : plan.status}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>
+                                {plan.status === 'active' && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => openPaymentDialog(plan)}
+                                    data-testid={`button-pay-plan-${plan.id}`}
+                                  >
+                                    <Wallet className="w-4 h-4 mr-2" />
+                                    Bayar
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </main>
+      </div>
+
+      <Dialog open={!!selectedPlan} onOpenChange={(open) => !open && closePaymentDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Catat Pembayaran Cicilan</DialogTitle>
+          </DialogHeader>
+          {selectedPlan && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label>Pelanggan</Label>
+                  <p className="font-medium">{selectedPlan.customer?.name}</p>
+                </div>
+                <div>
+                  <Label>Sisa Piutang</Label>
+                  <p className="font-medium">{formatCurrency(selectedPlan.outstandingAmount)}</p>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Ke</TableHead>
+                    <TableHead>Jatuh Tempo</TableHead>
+                    <TableHead className="text-right">Tagihan</TableHead>
+                    <TableHead className="text-right">Dibayar</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedPlan.schedules?.map((schedule: any) => (
+                    <TableRow key={schedule.id}>
+                      <TableCell>{schedule.termNumber}</TableCell>
+                      <TableCell>{formatDateShort(schedule.dueDate)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(schedule.amount)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(schedule.paidAmount)}</TableCell>
+                      <TableCell>{SCHEDULE_STATUS_LABELS[schedule.status] || schedule.status}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2">
+                <Label htmlFor="paymentAmount">Jumlah Bayar</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  min="0"
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                  data-testid="input-installment-amount"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Metode Pembayaran</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="select-installment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Tunai</SelectItem>
+                    <SelectItem value="bank_transfer">Transfer Bank</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="paymentNotes">Catatan</Label>
+                <Input
+                  id="paymentNotes"
+                  value={paymentNotes}
+                  onChange={(e) => setPaymentNotes(e.target.value)}
+                  placeholder="Opsional"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={closePaymentDialog}>
+                  Batal
+                </Button>
+                <Button
+                  onClick={() => paymentMutation.mutate()}
+                  disabled={paymentMutation.isPending || !(Number(paymentAmount) > 0)}
+                  data-testid="button-submit-installment-payment"
+                >
+                  {paymentMutation.isPending ? "Menyimpan..." : "Simpan Pembayaran"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -36,14 +36,14 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Search, Laptop, Edit, Trash2, Clock, AlertCircle, CheckCircle, Calendar, User, Package, Settings, Receipt, FileText, CreditCard, XCircle } from "lucide-react";
+import { Plus, Search, Laptop, Edit, Trash2, Clock, AlertCircle, CheckCircle, Calendar, User, Package, Settings, Receipt, FileText, CreditCard, XCircle, List, LayoutGrid, PackageCheck } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { serviceTickets, type ServiceTicket, type Customer } from "@shared/schema";
+import { serviceTickets, type ServiceTicket, type Customer, type ServiceIntakeChecklist } from "@shared/schema";
 import {
   SERVICE_STATUS_LABELS,
   normalizeServiceStatus,
@@ -60,6 +60,13 @@ import ServicePaymentReceipt from "@/components/ServicePaymentReceipt";
 import ServiceStatusTracker from "@/components/ServiceStatusTracker";
 import CustomerCreateModal from "@/components/customers/customer-create-modal";
 import ServiceCancellationModal from "@/components/ServiceCancellationModal";
+import ServiceBoard from "@/components/service-board";
+import ServiceTicketHistory from "@/components/ServiceTicketHistory";
+import ServiceQuotePanel from "@/components/ServiceQuotePanel";
+import ServicePartRequestPanel from "@/components/ServicePartRequestPanel";
+import ServiceIntakeChecklistForm, { createEmptyIntakeChecklist } from "@/components/ServiceIntakeChecklistForm";
+import ServiceHandoverDialog from "@/components/ServiceHandoverDialog";
+import type { ServiceTimelineEntry } from "@/components/ServiceStatusTimeline";
 
 const serviceTicketFormSchema = createInsertSchema(serviceTickets).omit({
   id: true,
@@ -149,11 +156,14 @@ const getStatusLabel = (status?: string | null): string => {
 
 
 export default function ServiceTickets() {
+  const [view, setView] = useState<"list" | "board">("list");
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<ServiceTicketStatus | "all">("all");
   const [showDialog, setShowDialog] = useState(false);
   const [editingTicket, setEditingTicket] = useState<ServiceTicket | null>(null);
   const [selectedParts, setSelectedParts] = useState<ServicePart[]>([]);
+  const [intakeChecklist, setIntakeChecklist] = useState<ServiceIntakeChecklist | null>(null);
+  const [handoverTicket, setHandoverTicket] = useState<ServiceTicket | null>(null);
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptData, setReceiptData] = useState<ServiceTicket | null>(null);
   const [receiptCustomerData, setReceiptCustomerData] = useState<Customer | null>(null);
@@ -161,6 +171,7 @@ export default function ServiceTickets() {
   const [paymentReceiptData, setPaymentReceiptData] = useState<ServiceTicket | null>(null);
   const [showStatusTracker, setShowStatusTracker] = useState(false);
   const [statusTrackerData, setStatusTrackerData] = useState<ServiceTicket | null>(null);
+  const [statusNote, setStatusNote] = useState("");
   const [showCustomerCreateModal, setShowCustomerCreateModal] = useState(false);
   const [showCancellationModal, setShowCancellationModal] = useState(false);
   const [cancellationTicketData, setCancellationTicketData] = useState<ServiceTicket | null>(null);
@@ -195,6 +206,11 @@ export default function ServiceTickets() {
     retry: false,
   });
 
+  const { data: trackerHistory = [] } = useQuery<ServiceTimelineEntry[]>({
+    queryKey: ["/api/service-tickets", statusTrackerData?.id, "history"],
+    enabled: showStatusTracker && !!statusTrackerData?.id,
+  });
+
   const form = useForm({
     resolver: zodResolver(serviceTicketFormSchema),
     defaultValues: {
@@ -331,6 +347,7 @@ export default function ServiceTickets() {
       setShowDialog(false);
       setEditingTicket(null);
       setSelectedParts([]);
+      setStatusNote("");
       form.reset({
         customerId: "",
         deviceType: "",
@@ -398,7 +415,7 @@ export default function ServiceTickets() {
         }, 500);
         return;
       }
-      toast({ title: "Error", description: "Gagal menghapus tiket servis", variant: "destructive" });
+      toast({ title: "Error", description: (error as Error).message || "Gagal menghapus tiket servis", variant: "destructive" });
     },
   });
 
@@ -480,6 +497,21 @@ export default function ServiceTickets() {
       return;
     }
 
+    // Devices checked in with a checklist are released through the handover check
+    if (editingTicket?.intakeChecklist && !editingTicket.handoverCheck && data.status === "delivered" && editingTicket.status !== "delivered") {
+      if (editingTicket.status !== "completed") {
+        toast({
+          title: "Error",
+          description: "Tandai servis Selesai terlebih dahulu, lalu lakukan serah terima",
+          variant: "destructive"
+        });
+        return;
+      }
+      setShowDialog(false);
+      setHandoverTicket(editingTicket);
+      return;
+    }
+
     // Calculate warranty dates if status is sudah diambil and warranty duration is provided
     let warrantyData = {};
     if (data.status === "delivered" && data.warrantyDuration) {
@@ -501,6 +533,8 @@ export default function ServiceTickets() {
     const submitData = {
       ...data,
       ...warrantyData,
+      ...(editingTicket && statusNote.trim() ? { statusNote: { note: statusNote.trim() } } : {}),
+      intakeChecklist,
       parts: selectedParts.map(part => ({
         productId: part.productId,
         quantity: part.quantity,
@@ -517,6 +551,8 @@ export default function ServiceTickets() {
 
   const handleEdit = (ticket: ServiceTicket) => {
     setEditingTicket(ticket);
+    setStatusNote("");
+    setIntakeChecklist((ticket.intakeChecklist as ServiceIntakeChecklist | null) ?? null);
     
     // Load existing parts for this ticket
     if (ticket.id) {
@@ -591,6 +627,7 @@ export default function ServiceTickets() {
       laborCost: "",
     });
     setSelectedParts([]);
+    setIntakeChecklist(createEmptyIntakeChecklist());
     setShowDialog(true);
   };
 
@@ -615,13 +652,44 @@ export default function ServiceTickets() {
           title="Tiket Service" 
           breadcrumb="Beranda / Service"
           action={
-            <Button onClick={handleNew} data-testid="button-add-ticket">
-              <Plus className="w-4 h-4 mr-2" />
-              Tiket Baru
-            </Button>
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-md border">
+                <Button
+                  variant={view === "list" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setView("list")}
+                  data-testid="button-view-list"
+                >
+                  <List className="w-4 h-4 mr-1" />
+                  Daftar
+                </Button>
+                <Button
+                  variant={view === "board" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setView("board")}
+                  data-testid="button-view-board"
+                >
+                  <LayoutGrid className="w-4 h-4 mr-1" />
+                  Papan
+                </Button>
+              </div>
+              <Button onClick={handleNew} data-testid="button-add-ticket">
+                <Plus className="w-4 h-4 mr-2" />
+                Tiket Baru
+              </Button>
+            </div>
           }
         />
         <main className="flex-1 overflow-y-auto p-6">
+          {view === "board" ? (
+            <ServiceBoard
+              onOpenTicket={(ticketId) => {
+                const ticket = (tickets as ServiceTicket[]).find(item => item.id === ticketId);
+                if (ticket) handleEdit(ticket);
+              }}
+            />
+          ) : (
+          <>
           {/* Search and Filter Bar */}
           <Card className="mb-6">
             <CardContent className="p-4">
@@ -783,6 +851,17 @@ export default function ServiceTickets() {
                               >
                                 <Receipt className="w-4 h-4" />
                               </Button>
+                              {ticket.status === 'completed' && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => setHandoverTicket(ticket)}
+                                  data-testid={`button-handover-${ticket.id}`}
+                                  title="Serah Terima"
+                                >
+                                  <PackageCheck className="w-4 h-4" />
+                                </Button>
+                              )}
                               {/* Payment Receipt Button - Only show for completed/delivered */}
                               {(ticket.status === 'completed' || ticket.status === 'delivered') && (
                                 <Button
@@ -834,6 +913,8 @@ export default function ServiceTickets() {
               )}
             </CardContent>
           </Card>
+          </>
+          )}
         </main>
       </div>
 
@@ -848,15 +929,31 @@ export default function ServiceTickets() {
           <Form {...form}>
             <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
               <Tabs defaultValue="ticket-info" className="w-full">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className={`grid w-full ${editingTicket ? 'grid-cols-5' : 'grid-cols-3'}`}>
                   <TabsTrigger value="ticket-info" className="flex items-center gap-2">
                     <Settings className="w-4 h-4" />
                     Informasi Servis
                   </TabsTrigger>
+                  <TabsTrigger value="intake" className="flex items-center gap-2">
+                    <Laptop className="w-4 h-4" />
+                    Kondisi Masuk
+                  </TabsTrigger>
                   <TabsTrigger value="spare-parts" className="flex items-center gap-2">
                     <Package className="w-4 h-4" />
                     Spare Parts
                   </TabsTrigger>
+                  {editingTicket && (
+                    <TabsTrigger value="quotes" className="flex items-center gap-2">
+                      <FileText className="w-4 h-4" />
+                      Penawaran
+                    </TabsTrigger>
+                  )}
+                  {editingTicket && (
+                    <TabsTrigger value="history" className="flex items-center gap-2">
+                      <Clock className="w-4 h-4" />
+                      Riwayat
+                    </TabsTrigger>
+                  )}
                 </TabsList>
 
                 <TabsContent value="ticket-info" className="space-y-4">
@@ -1152,6 +1249,32 @@ export default function ServiceTickets() {
                   </div>
                 </div>
               )}
+                {editingTicket && (
+                  <div className="space-y-2">
+                    <label htmlFor="status-note" className="text-sm font-medium">Catatan Progres (opsional)</label>
+                    <Textarea
+                      id="status-note"
+                      value={statusNote}
+                      onChange={(e) => setStatusNote(e.target.value)}
+                      placeholder="Dicatat di riwayat status bersama perubahan ini"
+                      rows={2}
+                      data-testid="textarea-status-note"
+                    />
+                  </div>
+                )}
+                </TabsContent>
+
+                <TabsContent value="intake" className="space-y-4">
+                  {intakeChecklist ? (
+                    <ServiceIntakeChecklistForm value={intakeChecklist} onChange={setIntakeChecklist} />
+                  ) : (
+                    <div className="text-center py-6 space-y-3">
+                      <p className="text-sm text-muted-foreground">Tiket ini dibuat tanpa checklist kondisi masuk.</p>
+                      <Button type="button" variant="outline" onClick={() => setIntakeChecklist(createEmptyIntakeChecklist())}>
+                        Buat Checklist
+                      </Button>
+                    </div>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="spare-parts" className="space-y-4">
@@ -1160,7 +1283,29 @@ export default function ServiceTickets() {
                     onPartsChange={setSelectedParts}
                     laborCost={parseFloat(form.watch("laborCost") || "0")}
                   />
+                  {editingTicket && (
+                    <ServicePartRequestPanel
+                      ticketId={editingTicket.id}
+                      onRequested={() => form.setValue("status", "waiting-parts")}
+                    />
+                  )}
                 </TabsContent>
+
+                {editingTicket && (
+                  <TabsContent value="quotes" className="space-y-4">
+                    <ServiceQuotePanel
+                      ticketId={editingTicket.id}
+                      initialParts={selectedParts}
+                      initialLaborCost={form.watch("laborCost") || "0"}
+                    />
+                  </TabsContent>
+                )}
+
+                {editingTicket && (
+                  <TabsContent value="history" className="space-y-4">
+                    <ServiceTicketHistory ticketId={editingTicket.id} />
+                  </TabsContent>
+                )}
               </Tabs>
 
               <div className="flex justify-end space-x-3 pt-6 border-t">
@@ -1207,6 +1352,8 @@ export default function ServiceTickets() {
                 deviceModel: receiptData.deviceModel || undefined,
                 serialNumber: receiptData.serialNumber || undefined,
                 completeness: receiptData.completeness || undefined,
+                intakeChecklist: (receiptData.intakeChecklist as ServiceIntakeChecklist | null) ?? undefined,
+                intakeSignature: receiptData.intakeSignature || undefined,
                 diagnosis: receiptData.diagnosis || undefined,
                 solution: receiptData.solution || undefined,
                 estimatedCost: receiptData.estimatedCost || undefined,
@@ -1277,6 +1424,8 @@ export default function ServiceTickets() {
             actualCost: paymentReceiptData.actualCost || undefined,
             partsCost: paymentReceiptData.partsCost || undefined,
             laborCost: paymentReceiptData.laborCost || undefined,
+            taxAmount: paymentReceiptData.taxAmount || undefined,
+            taxInclusive: paymentReceiptData.taxInclusive ?? undefined,
             status: paymentReceiptData.status || 'pending',
             warrantyDuration: paymentReceiptData.warrantyDuration ?? undefined,
             warrantyStartDate: paymentReceiptData.warrantyStartDate ? (paymentReceiptData.warrantyStartDate instanceof Date ? paymentReceiptData.warrantyStartDate.toISOString() : paymentReceiptData.warrantyStartDate) : undefined,
@@ -1309,6 +1458,15 @@ export default function ServiceTickets() {
         />
       )}
 
+      <ServiceHandoverDialog
+        ticket={handoverTicket}
+        onOpenChange={(open) => !open && setHandoverTicket(null)}
+        onHandedOver={(ticket) => {
+          setPaymentReceiptData(ticket);
+          setShowPaymentReceipt(true);
+        }}
+      />
+
       {/* Service Status Tracker Dialog */}
       {statusTrackerData && (
         <ServiceStatusTracker
@@ -1316,6 +1474,7 @@ export default function ServiceTickets() {
           onClose={() => setShowStatusTracker(false)}
           serviceNumber={statusTrackerData.ticketNumber}
           currentStatus={statusTrackerData.status || 'pending'}
+          history={trackerHistory}
         />
       )}
 
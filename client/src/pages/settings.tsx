@@ -7,6 +7,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { WhatsAppSettings as WhatsAppSettingsComponent } from "@/components/WhatsAppSettings";
@@ -79,6 +81,11 @@ export default function Settings() {
       phone: formData.get('phone'),
       email: formData.get('email'),
       taxRate: formData.get('taxRate'),
+      serviceTaxInclusive: formData.get('serviceTaxInclusive') === 'on',
+      inventoryCostingMethod: formData.get('inventoryCostingMethod') || 'average',
+      autoAssignTechnician: formData.get('autoAssignTechnician') === 'on',
+      slaCheckingHours: Number(formData.get('slaCheckingHours') || 24),
+      slaWaitingPartsHours: Number(formData.get('slaWaitingPartsHours') || 72),
     };
     console.log('Updating store config with:', data); // Debug log
     updateStoreMutation.mutate(data);
@@ -210,6 +217,77 @@ export default function Settings() {
                     />
                   </div>
                 </div>
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="serviceTaxInclusive"
+                      name="serviceTaxInclusive"
+                      defaultChecked={(storeConfig as any)?.serviceTaxInclusive ?? true}
+                      data-testid="checkbox-service-tax-inclusive"
+                    />
+                    <Label htmlFor="serviceTaxInclusive">
+                      Harga jasa dan sparepart servis sudah termasuk PPN
+                    </Label>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Jika tidak dicentang, PPN ditambahkan di atas biaya servis pada penawaran dan nota pembayaran.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="inventoryCostingMethod">Metode HPP Persediaan</Label>
+                  <Select
+                    name="inventoryCostingMethod"
+                    defaultValue={(storeConfig as any)?.inventoryCostingMethod || "average"}
+                  >
+                    <SelectTrigger id="inventoryCostingMethod" data-testid="select-costing-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="average">Rata-rata Tertimbang (Average)</SelectItem>
+                      <SelectItem value="fifo">FIFO - Batch Pembelian Terlama Dahulu</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    FIFO menghitung HPP penjualan dan sparepart servis dari harga beli batch yang benar-benar dikeluarkan.
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="slaCheckingHours">Batas Waktu Pengecekan (jam)</Label>
+                    <Input
+                      id="slaCheckingHours"
+                      name="slaCheckingHours"
+                      type="number"
+                      step="1"
+                      min="1"
+                      defaultValue={(storeConfig as any)?.slaCheckingHours ?? 24}
+                      data-testid="input-sla-checking-hours"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="slaWaitingPartsHours">Batas Waktu Menunggu Sparepart (jam)</Label>
+                    <Input
+                      id="slaWaitingPartsHours"
+                      name="slaWaitingPartsHours"
+                      type="number"
+                      step="1"
+                      min="1"
+                      defaultValue={(storeConfig as any)?.slaWaitingPartsHours ?? 72}
+                      data-testid="input-sla-waiting-parts-hours"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="autoAssignTechnician"
+                    name="autoAssignTechnician"
+                    defaultChecked={(storeConfig as any)?.autoAssignTechnician ?? true}
+                    data-testid="checkbox-auto-assign-technician"
+                  />
+                  <Label htmlFor="autoAssignTechnician">
+                    Tugaskan tiket servis baru otomatis ke teknisi dengan beban paling sedikit
+                  </Label>
+                </div>
                 <Button 
                   type="submit" 
                   disabled={updateStoreMutation.isPending}
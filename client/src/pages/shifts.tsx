@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileText } from "lucide-react";
+import ShiftReport from "@/components/pos/shift-report";
+import { formatDateWithTime } from '@shared/utils/timezone';
+
+const formatCurrency = (amount: number | string) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Number(amount || 0));
+};
+
+const ALL_STATUS = "all";
+
+export default function Shifts() {
+  const [status, setStatus] = useState(ALL_STATUS);
+  const [selectedShiftId, setSelectedShiftId] = useState<string | null>(null);
+
+  const { data: shifts = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/shifts", status],
+    queryFn: async () => {
+      const query = status === ALL_STATUS ? "" : `?status=${status}`;
+      const response = await fetch(`/api/shifts${query}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch shifts");
+      return response.json();
+    },
+  });
+
+  const { data: report } = useQuery<any>({
+    queryKey: ["/api/shifts", selectedShiftId, "report"],
+    enabled: !!selectedShiftId,
+    staleTime: 0,
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header title="Shift Kasir" breadcrumb="Beranda / Shift Kasir" />
+        <main className="flex-1 overflow-y-auto p-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Riwayat Shift</CardTitle>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-40" data-testid="select-shift-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUS}>Semua</SelectItem>
+                  <SelectItem value="open">Terbuka</SelectItem>
+                  <SelectItem value="closed">Ditutup</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-muted-foreground">Memuat shift...</p>
+              ) : shifts.length === 0 ? (
+                <p className="text-muted-foreground">Belum ada shift kasir.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>No. Shift</TableHead>
+                      <TableHead>Kasir</TableHead>
+                      <TableHead>Lokasi</TableHead>
+                      <TableHead>Buka</TableHead>
+                      <TableHead>Tutup</TableHead>
+                      <TableHead className="text-right">Modal Awal</TableHead>
+                      <TableHead className="text-right">Selisih</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shifts.map((shift: any) => {
+                      const difference = shift.cashDifference !== null ? Number(shift.cashDifference) : null;
+                      return (
+                        <TableRow key={shift.id} data-testid={`row-shift-${shift.id}`}>
+                          <TableCell className="font-medium">{shift.shiftNumber}</TableCell>
+                          <TableCell>{shift.userName || '-'}</TableCell>
+                          <TableCell>{shift.locationName || '-'}</TableCell>
+                          <TableCell>{shift.openedAt ? formatDateWithTime(shift.openedAt) : '-'}</TableCell>
+                          <TableCell>{shift.closedAt ? formatDateWithTime(shift.closedAt) : '-'}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(shift.openingFloat)}</TableCell>
+                          <TableCell className={`text-right ${difference !== null && difference < 0 ? 'text-red-600' : difference ? 'text-green-600' : ''}`}>
+                            {difference === null ? '-' : formatCurrency(difference)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={shift.status === 'open' ? 'secondary' : 'default'}>
+                              {shift.status === 'open' ? 'Terbuka' : 'Ditutup'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setSelectedShiftId(shift.id)}
+                              data-testid={`button-shift-report-${shift.id}`}
+                            >
+                              <FileText className="w-4 h-4 mr-1" />
+                              {shift.status === 'open' ? 'Laporan X' : 'Laporan Z'}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+
+      <Dialog open={!!selectedShiftId} onOpenChange={(value) => !value && setSelectedShiftId(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader className="no-print">
+            <DialogTitle>Laporan Shift</DialogTitle>
+          </DialogHeader>
+          {report ? <ShiftReport report={report} /> : <p className="text-muted-foreground">Memuat laporan...</p>}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -60,9 +60,13 @@ const MOVEMENT_DIRECTION_BY_REFERENCE_TYPE: Record<string, MovementDirection> =
   service: 'outbound',
   adjustment: 'neutral',
   return: 'inbound',
+  return_damaged: 'outbound',
+  exchange: 'outbound',
   warranty_return: 'inbound',
   warranty_return_damaged: 'outbound',
   warranty_exchange: 'outbound',
+  transfer_out: 'outbound',
+  transfer_in: 'inbound',
 };
 
 const getMovementDirection = (
@@ -96,9 +100,13 @@ const REFERENCE_TYPE_CONFIG: Record<string, { label: string; variant: BadgeProps
   service: { label: 'Servis', variant: 'destructive', summaryKey: 'service' },
   adjustment: { label: 'Penyesuaian', variant: 'outline', summaryKey: 'adjustment' },
   return: { label: 'Retur', variant: 'secondary', summaryKey: 'return' },
+  return_damaged: { label: 'Retur (Rusak)', variant: 'destructive', summaryKey: 'return' },
+  exchange: { label: 'Tukar Barang', variant: 'secondary', summaryKey: 'return' },
   warranty_return: { label: 'Retur Garansi', variant: 'secondary', summaryKey: 'return' },
   warranty_return_damaged: { label: 'Retur Garansi (Rusak)', variant: 'destructive', summaryKey: 'return' },
   warranty_exchange: { label: 'Tukar Garansi', variant: 'secondary', summaryKey: 'return' },
+  transfer_out: { label: 'Transfer Keluar', variant: 'outline', summaryKey: 'transfer' },
+  transfer_in: { label: 'Transfer Masuk', variant: 'outline', summaryKey: 'transfer' },
   unknown: { label: 'Lainnya', variant: 'outline', summaryKey: 'unknown' }
 };
 
@@ -122,6 +130,7 @@ const SUMMARY_DISPLAY_CONFIG: Record<string, { label: string; direction: Movemen
   service: { label: 'Untuk Servis', direction: 'outbound' },
   adjustment: { label: 'Penyesuaian', direction: 'neutral' },
   return: { label: 'Retur & Garansi', direction: 'inbound' },
+  transfer: { label: 'Transfer Antar Lokasi', direction: 'neutral' },
   unknown: { label: 'Lainnya', direction: 'neutral' }
 };
 
@@ -0,0 +1,535 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, ClipboardCheck, Plus, ScanBarcode } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateShort } from '@shared/utils/timezone';
+
+const formatCurrency = (amount: number | string) => {
+  return new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Number(amount || 0));
+};
+
+const SESSION_STATUS_LABELS: Record<string, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  counting: { label: 'Sedang Dihitung', variant: 'secondary' },
+  submitted: { label: 'Menunggu Persetujuan', variant: 'outline' },
+  approved: { label: 'Selesai', variant: 'default' },
+  cancelled: { label: 'Dibatalkan', variant: 'destructive' },
+};
+
+const ALL_SCOPE = "all";
+
+export default function StockOpname() {
+  const { toast } = useToast();
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [locationId, setLocationId] = useState(ALL_SCOPE);
+  const [categoryId, setCategoryId] = useState(ALL_SCOPE);
+  const [freezeMovements, setFreezeMovements] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  const { data: sessions = [], isLoading } = useQuery<any[]>({
+    queryKey: ["/api/stock-counts"],
+  });
+
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const { data: categories = [] } = useQuery<any[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/stock-counts', {
+      locationId: locationId === ALL_SCOPE ? null : locationId,
+      categoryId: categoryId === ALL_SCOPE ? null : categoryId,
+      freezeMovements,
+      notes: notes || undefined,
+    }),
+    onSuccess: (session: any) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-counts"] });
+      toast({ title: "Sesi stock opname dimulai", description: `${session.totalItems} produk disnapshot` });
+      setIsCreateOpen(false);
+      setNotes("");
+      setFreezeMovements(false);
+      setSelectedSessionId(session.id);
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal memulai stock opname", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-background">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Stock Opname"
+          breadcrumb="Beranda / Stock Opname"
+          action={!selectedSessionId && (
+            <Button onClick={() => setIsCreateOpen(true)} data-testid="button-start-stock-count">
+              <Plus className="w-4 h-4 mr-2" />
+              Mulai Opname
+            </Button>
+          )}
+        />
+        <main className="flex-1 overflow-y-auto p-6">
+          {selectedSessionId ? (
+            <StockCountSessionView sessionId={selectedSessionId} onBack={() => setSelectedSessionId(null)} />
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5" />
+                  Sesi Stock Opname
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>No. Sesi</TableHead>
+                      <TableHead>Lokasi</TableHead>
+                      <TableHead>Kategori</TableHead>
+                      <TableHead>Mulai</TableHead>
+                      <TableHead className="text-right">Progres</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">Memuat data...</TableCell>
+                      </TableRow>
+                    ) : sessions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-muted-foreground">Belum ada sesi stock opname</TableCell>
+                      </TableRow>
+                    ) : (
+                      sessions.map((session: any) => {
+                        const status = SESSION_STATUS_LABELS[session.status] || { label: session.status, variant: 'outline' as const };
+                        return (
+                          <TableRow
+                            key={session.id}
+                            className="cursor-pointer"
+                            onClick={() => setSelectedSessionId(session.id)}
+                            data-testid={`row-stock-count-${session.id}`}
+                          >
+                            <TableCell className="font-medium">{session.sessionNumber}</TableCell>
+                            <TableCell>{session.locationName || 'Semua Lokasi'}</TableCell>
+                            <TableCell>{session.categoryName || 'Semua Kategori'}</TableCell>
+                            <TableCell>{formatDateShort(session.startedAt)}</TableCell>
+                            <TableCell className="text-right">{session.countedItems}/{session.totalItems}</TableCell>
+                            <TableCell>
+                              <Badge variant={status.variant}>{status.label}</Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </main>
+      </div>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Mulai Stock Opname</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Lokasi</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger data-testid="select-count-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SCOPE}>Semua Lokasi (stok total)</SelectItem>
+                  {locations.map((location: any) => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Kategori</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger data-testid="select-count-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SCOPE}>Semua Kategori</SelectItem>
+                  {categories.map((category: any) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="freezeMovements"
+                checked={freezeMovements}
+                onCheckedChange={(checked) => setFreezeMovements(checked === true)}
+                data-testid="checkbox-freeze-movements"
+              />
+              <div className="space-y-1">
+                <Label htmlFor="freezeMovements">Bekukan pergerakan stok</Label>
+                <p className="text-xs text-muted-foreground">
+                  Penjualan, transfer dan penerimaan produk yang dihitung ditolak sampai opname diajukan.
+                  Jika tidak dicentang, pergerakan tetap berjalan dan ditandai di laporan selisih.
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="countNotes">Catatan</Label>
+              <Textarea id="countNotes" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Opsional" />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Batal</Button>
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={createMutation.isPending}
+                data-testid="button-submit-start-count"
+              >
+                {createMutation.isPending ? "Menyiapkan..." : "Mulai & Snapshot Stok"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function StockCountSessionView({ sessionId, onBack }: { sessionId: string; onBack: () => void }) {
+  const { toast } = useToast();
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const [scanCode, setScanCode] = useState("");
+  const [manualCounts, setManualCounts] = useState<Record<string, string>>({});
+  const [treatUncountedAsZero, setTreatUncountedAsZero] = useState(false);
+  const [showVarianceOnly, setShowVarianceOnly] = useState(false);
+
+  const { data: session, isLoading } = useQuery<any>({
+    queryKey: ["/api/stock-counts", sessionId],
+    refetchInterval: 15000, // pick up scans from handheld devices
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-counts"] });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async (scan: { code?: string; productId?: string; quantity: number; mode: 'add' | 'set' }) =>
+      apiRequest('POST', `/api/stock-counts/${sessionId}/scans`, scan),
+    onSuccess: (item: any) => {
+      refresh();
+      toast({ title: `${item.productName}: ${item.countedQuantity}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Scan ditolak", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setScanCode("");
+      scanInputRef.current?.focus();
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/stock-counts/${sessionId}/submit`, { treatUncountedAsZero }),
+    onSuccess: (result: any) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory-adjustments"] });
+      toast({
+        title: "Stock opname diajukan",
+        description: result.adjustment
+          ? `Penyesuaian ${result.adjustment.adjustmentNumber} menunggu persetujuan`
+          : "Tidak ada selisih, sesi ditutup",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal mengajukan stock opname", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/inventory-adjustments/${session.adjustmentId}/approve`),
+    onSuccess: () => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock-by-location"] });
+      toast({ title: "Penyesuaian stok disetujui" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal menyetujui penyesuaian", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/stock-counts/${sessionId}/cancel`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Sesi stock opname dibatalkan" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Gagal membatalkan sesi", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !session) {
+    return <div className="text-center text-muted-foreground">Memuat sesi...</div>;
+  }
+
+  const isCounting = session.status === 'counting';
+  const status = SESSION_STATUS_LABELS[session.status] || { label: session.status, variant: 'outline' as const };
+  const items = (session.items || []).filter((item: any) =>
+    !showVarianceOnly || item.movementCount > 0 || (item.variance !== null && item.variance !== 0)
+  );
+
+  const submitManualCount = (productId: string) => {
+    const value = manualCounts[productId];
+    if (value === undefined || value === "") return;
+    scanMutation.mutate({ productId, quantity: parseInt(value) || 0, mode: 'set' });
+    setManualCounts((counts) => ({ ...counts, [productId]: "" }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Kembali
+        </Button>
+        <div className="flex items-center gap-2">
+          <Badge variant={status.variant}>{status.label}</Badge>
+          {isCounting && (
+            <Button
+              variant="outline"
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              data-testid="button-cancel-stock-count"
+            >
+              Batalkan Sesi
+            </Button>
+          )}
+          {session.status === 'submitted' && session.adjustmentId && (
+            <Button
+              onClick={() => approveMutation.mutate()}
+              disabled={approveMutation.isPending}
+              data-testid="button-approve-stock-count"
+            >
+              {approveMutation.isPending ? "Menyetujui..." : "Setujui Penyesuaian"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{session.sessionNumber}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            <div>{session.locationName || 'Semua Lokasi'} • {session.categoryName || 'Semua Kategori'}</div>
+            <div>Mulai {formatDateShort(session.startedAt)}</div>
+            {session.freezeMovements && <div className="text-orange-600">Pergerakan stok dibekukan</div>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Sudah Dihitung</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{session.countedItems}/{session.totalItems}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Produk Selisih / Ditandai</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{session.varianceItems} / {session.flaggedItems}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Dampak Nilai Persediaan</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${session.totalCostImpact < 0 ? 'text-destructive' : ''}`}>
+              {formatCurrency(session.totalCostImpact)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isCounting && (
+        <Card>
+          <CardContent className="pt-6">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (scanCode.trim()) {
+                  scanMutation.mutate({ code: scanCode.trim(), quantity: 1, mode: 'add' });
+                }
+              }}
+            >
+              <div className="relative flex-1">
+                <ScanBarcode className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  ref={scanInputRef}
+                  autoFocus
+                  value={scanCode}
+                  onChange={(e) => setScanCode(e.target.value)}
+                  placeholder="Pindai barcode atau ketik SKU lalu Enter (+1)"
+                  className="pl-8 font-mono"
+                  data-testid="input-stock-count-scan"
+                />
+              </div>
+              <Button type="submit" disabled={scanMutation.isPending}>Tambah</Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Laporan Selisih</CardTitle>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="showVarianceOnly"
+              checked={showVarianceOnly}
+              onCheckedChange={(checked) => setShowVarianceOnly(checked === true)}
+            />
+            <Label htmlFor="showVarianceOnly" className="text-sm">Hanya selisih & ditandai</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Produk</TableHead>
+                <TableHead className="text-right">Snapshot</TableHead>
+                <TableHead className="text-right">Sistem Saat Ini</TableHead>
+                <TableHead className="text-right">Hitung Fisik</TableHead>
+                <TableHead className="text-right">Selisih</TableHead>
+                <TableHead className="text-right">HPP</TableHead>
+                <TableHead className="text-right">Dampak Nilai</TableHead>
+                {isCounting && <TableHead className="w-40">Input Manual</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={isCounting ? 8 : 7} className="text-center text-muted-foreground">Tidak ada produk</TableCell>
+                </TableRow>
+              ) : (
+                items.map((item: any) => (
+                  <TableRow key={item.id} data-testid={`row-count-item-${item.productId}`}>
+                    <TableCell>
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-xs text-muted-foreground">{item.sku || item.barcode || '-'}</div>
+                      {item.movementCount > 0 && (
+                        <div className="flex items-center gap-1 text-xs text-orange-600">
+                          <AlertTriangle className="h-3 w-3" />
+                          {item.movementCount} pergerakan selama penghitungan
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{item.systemQuantity}</TableCell>
+                    <TableCell className="text-right">{item.currentQuantity}</TableCell>
+                    <TableCell className="text-right font-medium">{item.countedQuantity ?? '-'}</TableCell>
+                    <TableCell className={`text-right font-semibold ${item.variance < 0 ? 'text-destructive' : item.variance > 0 ? 'text-green-600' : ''}`}>
+                      {item.variance === null ? '-' : item.variance > 0 ? `+${item.variance}` : item.variance}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.unitCost)}</TableCell>
+                    <TableCell className="text-right">{item.costImpact === null ? '-' : formatCurrency(item.costImpact)}</TableCell>
+                    {isCounting && (
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="h-8"
+                          value={manualCounts[item.productId] ?? ""}
+                          onChange={(e) => setManualCounts((counts) => ({ ...counts, [item.productId]: e.target.value }))}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                              e.preventDefault();
+                              submitManualCount(item.productId);
+                            }
+                          }}
+                          onBlur={() => submitManualCount(item.productId)}
+                          placeholder="Total"
+                          data-testid={`input-manual-count-${item.productId}`}
+                        />
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {isCounting && (
+            <div className="flex items-center justify-between mt-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="treatUncountedAsZero"
+                  checked={treatUncountedAsZero}
+                  onCheckedChange={(checked) => setTreatUncountedAsZero(checked === true)}
+                />
+                <Label htmlFor="treatUncountedAsZero" className="text-sm">
+                  Anggap produk yang belum dihitung bernilai 0
+                </Label>
+              </div>
+              <Button
+                onClick={() => submitMutation.mutate()}
+                disabled={submitMutation.isPending || session.countedItems === 0}
+                data-testid="button-submit-stock-count"
+              >
+                {submitMutation.isPending ? "Mengajukan..." : "Ajukan Penyesuaian"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -28,9 +28,15 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
-import { Search, Calendar, Clock, Wrench, ShoppingCart, Filter, CheckCircle, AlertCircle, Package, ArrowRight } from "lucide-react";
+import { Search, Calendar, Clock, Wrench, ShoppingCart, Filter, CheckCircle, AlertCircle, Package, ArrowRight, Award } from "lucide-react";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
+import WarrantyCertificateDialog, {
+  WARRANTY_STATUS_LABELS,
+  formatWarrantyDuration,
+  type WarrantyCertificateStatus,
+  type WarrantyCertificateView,
+} from "@/components/WarrantyCertificate";
 import { getCurrentJakartaTime, formatDateShort } from '@shared/utils/timezone';
 import {
   Select,
@@ -384,9 +390,11 @@ export default function WarrantyPage() {
         
         <main className="flex-1 overflow-y-auto p-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="warranties" data-testid="tab-warranties">Daftar Garansi</TabsTrigger>
+              <TabsTrigger value="registry" data-testid="tab-registry">Registri Garansi</TabsTrigger>
               <TabsTrigger value="claims" data-testid="tab-claims">Klaim Garansi</TabsTrigger>
+              <TabsTrigger value="serial" data-testid="tab-serial">Cari Nomor Seri</TabsTrigger>
             </TabsList>
 
             <TabsContent value="warranties" className="space-y-6">
@@ -754,6 +762,14 @@ export default function WarrantyPage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="registry" className="space-y-6">
+              <WarrantyRegistry />
+            </TabsContent>
+
+            <TabsContent value="serial" className="space-y-6">
+              <SerialNumberLookup />
+            </TabsContent>
           </Tabs>
 
           {/* Create Warranty Claim Dialog */}
@@ -847,6 +863,306 @@ const createAcceptWarrantySchema = (claimType: string) => z.object({
   notes: z.string().optional(),
 });
 
+// Serial number lookup - trace a single unit to its sale, customer and warranty
+function SerialNumberLookup() {
+  const [serialInput, setSerialInput] = useState("");
+  const [serialNumber, setSerialNumber] = useState("");
+
+  const { data: lookup, isLoading, error } = useQuery<any>({
+    queryKey: ["/api/serial-numbers", serialNumber],
+    enabled: Boolean(serialNumber),
+    retry: false,
+  });
+
+  const movementLabel = (movement: any) => {
+    switch (movement.referenceType) {
+      case 'purchase': return 'Diterima dari PO';
+      case 'sale': return 'Terjual';
+      default: return movement.referenceType || movement.movementType;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cari Nomor Seri</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSerialNumber(serialInput.trim());
+          }}
+        >
+          <Input
+            placeholder="Masukkan atau pindai nomor seri..."
+            value={serialInput}
+            onChange={(e) => setSerialInput(e.target.value)}
+            className="font-mono"
+            data-testid="input-serial-lookup"
+          />
+          <Button type="submit" disabled={!serialInput.trim()} data-testid="button-serial-lookup">
+            <Search className="w-4 h-4 mr-2" />
+            Cari
+          </Button>
+        </form>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Mencari nomor seri...</p>}
+        {error && <p className="text-sm text-destructive">Nomor seri tidak ditemukan</p>}
+
+        {lookup && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Produk</Label>
+                <p className="text-sm font-medium">{lookup.product?.name || '-'}</p>
+                <p className="text-xs text-muted-foreground font-mono">{lookup.serial.serialNumber}</p>
+              </div>
+              <div>
+                <Label>Penjualan</Label>
+                {lookup.transaction ? (
+                  <>
+                    <p className="text-sm font-medium">{lookup.transaction.transactionNumber}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {lookup.transaction.createdAt ? formatDateShort(lookup.transaction.createdAt) : '-'}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Belum terjual</p>
+                )}
+              </div>
+              <div>
+                <Label>Pelanggan</Label>
+                <p className="text-sm font-medium">{lookup.customer?.name || '-'}</p>
+                <p className="text-xs text-muted-foreground">{lookup.customer?.phone || ''}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{lookup.serial.status}</Badge>
+              {lookup.warranty && (
+                <Badge variant={lookup.warranty.isValid ? "default" : "destructive"}>
+                  {lookup.warranty.isValid ? 'Garansi berlaku' : lookup.warranty.message}
+                </Badge>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Pergerakan</TableHead>
+                  <TableHead>Keterangan</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lookup.movements.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      Belum ada riwayat pergerakan
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  lookup.movements.map((movement: any) => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{movement.createdAt ? formatDateShort(movement.createdAt) : '-'}</TableCell>
+                      <TableCell>{movementLabel(movement)}</TableCell>
+                      <TableCell>{movement.notes || '-'}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface WarrantyRegistryRow {
+  sourceType: 'sale' | 'service';
+  sourceId: string;
+  referenceNumber: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  productName: string;
+  sku: string | null;
+  serialNumbers: string[];
+  warrantyDuration: number;
+  startDate: string | null;
+  endDate: string | null;
+  status: WarrantyCertificateStatus;
+  certificateToken: string | null;
+}
+
+const REGISTRY_STATUS_VARIANTS: Record<WarrantyCertificateStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "default",
+  expiring: "outline",
+  expired: "destructive",
+  claimed: "secondary",
+};
+
+// Warranty registry - every warranty issued from sales and services, searchable by customer, serial or reference
+function WarrantyRegistry() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("all");
+  const [sourceType, setSourceType] = useState("all");
+  const [certificate, setCertificate] = useState<WarrantyCertificateView | null>(null);
+  const { toast } = useToast();
+
+  const params = new URLSearchParams();
+  if (search) params.set("search", search);
+  if (status !== "all") params.set("status", status);
+  if (sourceType !== "all") params.set("type", sourceType);
+  const queryString = params.toString();
+
+  const { data: entries = [], isLoading } = useQuery<WarrantyRegistryRow[]>({
+    queryKey: [`/api/warranty-registry${queryString ? `?${queryString}` : ""}`],
+  });
+
+  const certificateMutation = useMutation({
+    mutationFn: (entry: WarrantyRegistryRow) => apiRequest("POST", "/api/warranty-certificates",
+      entry.sourceType === "sale" ? { transactionId: entry.sourceId } : { serviceTicketId: entry.sourceId }
+    ),
+    onSuccess: (result: WarrantyCertificateView) => {
+      setCertificate(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/warranty-registry"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registri Garansi</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col md:flex-row gap-2">
+          <form
+            className="flex flex-1 gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSearch(searchInput.trim());
+            }}
+          >
+            <Input
+              placeholder="Cari nama, telepon, nomor seri, produk atau nomor nota..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              data-testid="input-registry-search"
+            />
+            <Button type="submit" data-testid="button-registry-search">
+              <Search className="w-4 h-4 mr-2" />
+              Cari
+            </Button>
+          </form>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="md:w-44" data-testid="select-registry-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Status</SelectItem>
+              {(Object.keys(WARRANTY_STATUS_LABELS) as WarrantyCertificateStatus[]).map((value) => (
+                <SelectItem key={value} value={value}>{WARRANTY_STATUS_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={sourceType} onValueChange={setSourceType}>
+            <SelectTrigger className="md:w-40" data-testid="select-registry-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua Sumber</SelectItem>
+              <SelectItem value="sale">Penjualan</SelectItem>
+              <SelectItem value="service">Service</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Produk / Perangkat</TableHead>
+              <TableHead>Nomor Seri</TableHead>
+              <TableHead>Pelanggan</TableHead>
+              <TableHead>Referensi</TableHead>
+              <TableHead>Masa Berlaku</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Aksi</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">Memuat registri...</TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">Tidak ada garansi ditemukan</TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry, index) => (
+                <TableRow key={`${entry.sourceId}-${index}`} data-testid={`row-registry-${index}`}>
+                  <TableCell>
+                    <div className="font-medium">{entry.productName}</div>
+                    {entry.sku && <div className="text-xs text-muted-foreground">{entry.sku}</div>}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {entry.serialNumbers.length > 0 ? entry.serialNumbers.join(", ") : "-"}
+                  </TableCell>
+                  <TableCell>
+                    <div>{entry.customerName || "-"}</div>
+                    {entry.customerPhone && <div className="text-xs text-muted-foreground">{entry.customerPhone}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      {entry.sourceType === "sale" ? <ShoppingCart className="w-3 h-3" /> : <Wrench className="w-3 h-3" />}
+                      {entry.referenceNumber}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{formatWarrantyDuration(entry.warrantyDuration)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {entry.startDate ? formatDateShort(entry.startDate) : "-"}
+                      {" - "}
+                      {entry.endDate && entry.warrantyDuration < 9999 ? formatDateShort(entry.endDate) : "Seumur Hidup"}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={REGISTRY_STATUS_VARIANTS[entry.status]}>{WARRANTY_STATUS_LABELS[entry.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => certificateMutation.mutate(entry)}
+                      disabled={certificateMutation.isPending}
+                      data-testid={`button-registry-certificate-${index}`}
+                    >
+                      <Award className="w-4 h-4 mr-1" />
+                      Sertifikat
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <WarrantyCertificateDialog
+        certificate={certificate}
+        onOpenChange={(open) => !open && setCertificate(null)}
+      />
+    </Card>
+  );
+}
+
 // Helper function for status badges
 function getStatusBadge(status: string) {
   const statusConfig = {
@@ -33,16 +33,223 @@ export interface JournalLine {
   credit: number;
 }
 
+export type JournalStatus = "draft" | "posted" | "reversed" | "rejected";
+
 export interface JournalEntry {
   id: string;
   journalNumber: string;
   date: string;
   lines: JournalLine[];
+  description?: string;
+  status?: JournalStatus;
+  reversalOfId?: string | null;
+  reversedBy?: { id: string; journalNumber: string } | null;
+  userId?: string;
+  approvedBy?: string | null;
+  rejectionReason?: string | null;
   reference?: string | null;
   referenceType?: string | null;
 }
 
+export interface JournalEntrySummary {
+  id: string;
+  journalNumber: string;
+  date: string;
+  description: string;
+  reference: string | null;
+  referenceType: string | null;
+  totalAmount: string;
+  status: JournalStatus;
+  reversalOfId: string | null;
+  userId: string;
+  createdAt: string;
+}
+
+export interface ChartAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: string;
+  normalBalance: string;
+  balance: number;
+  isActive: boolean | null;
+}
+
 export interface FinanceDateRange {
   startDate: string;
   endDate: string;
 }
+
+export type FiscalPeriodStatus = "open" | "closed" | "locked";
+
+export interface FiscalPeriod {
+  id: string | null;
+  year: number;
+  month: number;
+  periodStart: string;
+  periodEnd: string;
+  status: FiscalPeriodStatus;
+  closedAt: string | null;
+  lockedAt: string | null;
+  yearClosedAt: string | null;
+}
+
+export interface FiscalYearCloseResult {
+  year: number;
+  netIncome: number;
+  closingJournalNumber: string | null;
+  rolloverJournalNumber: string | null;
+}
+
+export type JournalSourceKind = "transaction" | "service_ticket" | "purchase_order" | "supplier_bill";
+
+export interface GeneralLedgerLine {
+  id: string;
+  journalEntryId: string;
+  journalNumber: string;
+  date: string;
+  description: string | null;
+  reference: string | null;
+  referenceType: string | null;
+  debit: number;
+  credit: number;
+  balance: number;
+  sourceKind: JournalSourceKind | null;
+}
+
+export interface GeneralLedger {
+  account: { code: string; name: string; type: string; normalBalance: string };
+  startDate: string;
+  endDate: string;
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  lines: GeneralLedgerLine[];
+}
+
+export interface TrialBalanceRow {
+  code: string;
+  name: string;
+  type: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOfDate: string;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+  difference: number;
+  isBalanced: boolean;
+}
+
+export interface JournalSourceDocument {
+  kind: Exclude<JournalSourceKind, "supplier_bill">;
+  id: string;
+  number: string;
+  date: string | null;
+  party: string | null;
+  status: string | null;
+  total: string | null;
+  billNumber?: string;
+  lines: Array<{ description: string; quantity: number; amount: string | null }>;
+}
+
+export type BankStatementStatus = "open" | "reconciled";
+export type BankStatementLineStatus = "unmatched" | "matched" | "posted";
+
+export interface BankStatementSummary {
+  id: string;
+  accountCode: string;
+  fileName: string | null;
+  format: "csv" | "ofx";
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: string | null;
+  closingBalance: string | null;
+  status: BankStatementStatus;
+  reconciledAt: string | null;
+  createdAt: string;
+  lineCount: number;
+  openLineCount: number;
+}
+
+export interface BankStatementLine {
+  id: string;
+  statementId: string;
+  date: string;
+  description: string;
+  bankReference: string | null;
+  amount: string;
+  status: BankStatementLineStatus;
+  journalEntryId: string | null;
+  matchedAmount: number;
+  remaining: number;
+  matches: Array<{
+    id: string;
+    journalEntryLineId: string;
+    journalEntryId: string;
+    journalNumber: string;
+    date: string;
+    amount: string;
+    matchType: "auto" | "manual" | "posted";
+  }>;
+}
+
+export interface BankStatementDetail {
+  statement: Omit<BankStatementSummary, "lineCount" | "openLineCount">;
+  lines: BankStatementLine[];
+}
+
+export interface BankBookLine {
+  id: string;
+  journalEntryId: string;
+  journalNumber: string;
+  date: string;
+  description: string;
+  referenceType: string | null;
+  amount: number;
+  matchedAmount: number;
+  remaining: number;
+}
+
+export interface BankReconciliationReport {
+  statement: BankStatementDetail["statement"];
+  statementBalance: number | null;
+  bookBalance: number;
+  outstandingBookLines: BankBookLine[];
+  outstandingBookTotal: number;
+  unrecordedBankLines: BankStatementLine[];
+  unrecordedBankTotal: number;
+  adjustedBankBalance: number | null;
+  adjustedBookBalance: number;
+  difference: number | null;
+  isBalanced: boolean;
+}
+
+export interface PpnReportDocument {
+  referenceType: string;
+  reference: string;
+  date: string;
+  number: string | null;
+  party: string | null;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface PpnReport {
+  year: number;
+  month: number;
+  startDate: string;
+  endDate: string;
+  taxRate: number;
+  outputTax: number;
+  outputTaxableAmount: number;
+  inputTax: number;
+  inputTaxableAmount: number;
+  netPayable: number;
+  output: PpnReportDocument[];
+  input: PpnReportDocument[];
+}
@@ -0,0 +1,27 @@
+-- Unit level serial tracking for serial tracked products (laptops, etc)
+CREATE TABLE IF NOT EXISTS product_serials (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  product_id varchar NOT NULL REFERENCES products(id),
+  batch_id varchar REFERENCES product_batches(id),
+  serial_number varchar NOT NULL,
+  status varchar DEFAULT 'in_stock',
+  purchase_order_id varchar,
+  purchase_order_item_id varchar,
+  received_at timestamptz DEFAULT now(),
+  transaction_id varchar REFERENCES transactions(id),
+  transaction_item_id varchar REFERENCES transaction_items(id),
+  sold_at timestamptz,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_product_serials_product_serial"
+  ON product_serials (product_id, serial_number);
+CREATE INDEX IF NOT EXISTS "IDX_product_serials_serial"
+  ON product_serials (serial_number);
+
+-- Serials carried on sale lines and stock movements for per-unit history
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS serial_numbers text[];
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS serial_numbers text[];
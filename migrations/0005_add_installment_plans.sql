@@ -0,0 +1,53 @@
+-- Customer receivables: installment (cicilan) plans attached to sales
+CREATE TABLE IF NOT EXISTS installment_plans (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  plan_number varchar NOT NULL,
+  transaction_id varchar NOT NULL REFERENCES transactions(id),
+  customer_id varchar NOT NULL REFERENCES customers(id),
+  total_amount numeric(12, 2) NOT NULL,
+  down_payment numeric(12, 2) DEFAULT 0,
+  financed_amount numeric(12, 2) NOT NULL,
+  paid_amount numeric(12, 2) DEFAULT 0,
+  outstanding_amount numeric(12, 2) NOT NULL,
+  number_of_terms integer NOT NULL,
+  frequency varchar DEFAULT 'monthly',
+  first_due_date timestamptz NOT NULL,
+  status varchar DEFAULT 'active',
+  notes text,
+  created_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS installment_schedules (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  plan_id varchar NOT NULL REFERENCES installment_plans(id),
+  term_number integer NOT NULL,
+  due_date timestamptz NOT NULL,
+  amount numeric(12, 2) NOT NULL,
+  paid_amount numeric(12, 2) DEFAULT 0,
+  status varchar DEFAULT 'pending',
+  paid_at timestamptz,
+  last_reminder_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS installment_payments (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  plan_id varchar NOT NULL REFERENCES installment_plans(id),
+  amount numeric(12, 2) NOT NULL,
+  payment_method varchar DEFAULT 'cash',
+  payment_type varchar DEFAULT 'installment',
+  payment_date timestamptz DEFAULT now(),
+  journal_entry_id varchar,
+  notes text,
+  user_id varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_installment_schedules_plan" ON installment_schedules (plan_id);
+CREATE INDEX IF NOT EXISTS "IDX_installment_schedules_due" ON installment_schedules (due_date);
@@ -0,0 +1,36 @@
+-- Supplier payables: bills raised on credit PO receipts and payments against them
+CREATE TABLE IF NOT EXISTS supplier_bills (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  bill_number varchar NOT NULL,
+  supplier_id varchar NOT NULL REFERENCES suppliers(id),
+  purchase_order_id varchar REFERENCES purchase_orders(id),
+  purchase_order_item_id varchar REFERENCES purchase_order_items(id),
+  amount numeric(15, 2) NOT NULL,
+  paid_amount numeric(15, 2) DEFAULT 0,
+  outstanding_amount numeric(15, 2) NOT NULL,
+  bill_date timestamptz DEFAULT now(),
+  due_date timestamptz NOT NULL,
+  status varchar DEFAULT 'unpaid',
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  bill_id varchar NOT NULL REFERENCES supplier_bills(id),
+  supplier_id varchar NOT NULL REFERENCES suppliers(id),
+  amount numeric(15, 2) NOT NULL,
+  payment_method varchar DEFAULT 'cash',
+  payment_date timestamptz DEFAULT now(),
+  reference varchar,
+  journal_entry_id varchar,
+  notes text,
+  user_id varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_supplier_bills_supplier" ON supplier_bills (supplier_id);
+CREATE INDEX IF NOT EXISTS "IDX_supplier_bills_due" ON supplier_bills (due_date);
@@ -0,0 +1,56 @@
+-- Per-location stock balances; products.stock remains the company-wide total
+CREATE TABLE IF NOT EXISTS product_location_stocks (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  product_id varchar NOT NULL REFERENCES products(id),
+  location_id varchar NOT NULL REFERENCES locations(id),
+  quantity integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_product_location_stocks_product_location"
+  ON product_location_stocks (product_id, location_id);
+
+-- Inter-location transfer documents (draft -> in_transit -> received)
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  transfer_number varchar NOT NULL,
+  from_location_id varchar NOT NULL REFERENCES locations(id),
+  to_location_id varchar NOT NULL REFERENCES locations(id),
+  status varchar DEFAULT 'draft',
+  notes text,
+  created_by varchar NOT NULL REFERENCES users(id),
+  shipped_by varchar REFERENCES users(id),
+  shipped_at timestamptz,
+  received_by varchar REFERENCES users(id),
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  transfer_id varchar NOT NULL REFERENCES stock_transfers(id),
+  product_id varchar NOT NULL REFERENCES products(id),
+  quantity integer NOT NULL,
+  received_quantity integer DEFAULT 0,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS location_id varchar REFERENCES locations(id);
+
+-- Existing stock is assumed to sit in each tenant's oldest active location
+INSERT INTO product_location_stocks (client_id, product_id, location_id, quantity)
+SELECT p.client_id, p.id, l.id, p.stock
+FROM products p
+JOIN LATERAL (
+  SELECT id FROM locations
+  WHERE is_active = true AND client_id IS NOT DISTINCT FROM p.client_id
+  ORDER BY created_at
+  LIMIT 1
+) l ON true
+WHERE COALESCE(p.stock, 0) <> 0
+ON CONFLICT (product_id, location_id) DO NOTHING;
@@ -0,0 +1,36 @@
+-- Stock opname: count sessions snapshotting system quantities, closed by one recount adjustment
+CREATE TABLE IF NOT EXISTS stock_count_sessions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  session_number varchar NOT NULL,
+  location_id varchar REFERENCES locations(id),
+  category_id varchar REFERENCES categories(id),
+  status varchar DEFAULT 'counting',
+  freeze_movements boolean DEFAULT false,
+  adjustment_id varchar REFERENCES inventory_adjustments(id),
+  started_by varchar NOT NULL REFERENCES users(id),
+  started_at timestamptz DEFAULT now(),
+  submitted_at timestamptz,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_count_items (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  session_id varchar NOT NULL REFERENCES stock_count_sessions(id),
+  product_id varchar NOT NULL REFERENCES products(id),
+  system_quantity integer NOT NULL,
+  counted_quantity integer,
+  expected_quantity integer,
+  movement_count integer DEFAULT 0,
+  unit_cost numeric(12, 2),
+  counted_by varchar REFERENCES users(id),
+  last_counted_at timestamptz,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_stock_count_items_session_product"
+  ON stock_count_items (session_id, product_id);
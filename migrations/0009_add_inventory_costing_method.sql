@@ -0,0 +1,8 @@
+-- Per-tenant inventory costing: weighted average (legacy) or FIFO by product batch
+ALTER TABLE store_config ADD COLUMN IF NOT EXISTS inventory_costing_method varchar DEFAULT 'average';
+
+-- Batches are consumed oldest first
+CREATE INDEX IF NOT EXISTS "IDX_product_batches_product_received"
+  ON product_batches (product_id, received_date);
+CREATE INDEX IF NOT EXISTS "IDX_stock_movements_reference"
+  ON stock_movements (reference_id);
@@ -0,0 +1,7 @@
+-- POS returns/exchanges are stored as 'return' transactions pointing at the original sale
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS original_transaction_id varchar;
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS original_item_id varchar;
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS return_condition varchar;
+
+CREATE INDEX IF NOT EXISTS "IDX_transactions_original_transaction"
+  ON transactions (original_transaction_id);
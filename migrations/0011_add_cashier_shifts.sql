@@ -0,0 +1,39 @@
+-- Cashier shifts: opening float, petty cash movements and the counted drawer at close
+CREATE TABLE IF NOT EXISTS cashier_shifts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  shift_number varchar NOT NULL,
+  user_id varchar NOT NULL REFERENCES users(id),
+  location_id varchar REFERENCES locations(id),
+  status varchar DEFAULT 'open',
+  opening_float numeric(12, 2) NOT NULL DEFAULT 0,
+  opened_at timestamptz DEFAULT now(),
+  expected_cash numeric(12, 2),
+  counted_cash numeric(12, 2),
+  cash_difference numeric(12, 2),
+  closed_at timestamptz,
+  closed_by varchar REFERENCES users(id),
+  journal_entry_id varchar,
+  notes text,
+  closing_notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS shift_cash_movements (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  shift_id varchar NOT NULL REFERENCES cashier_shifts(id),
+  type varchar NOT NULL,
+  amount numeric(12, 2) NOT NULL,
+  reason text NOT NULL,
+  journal_entry_id varchar,
+  user_id varchar NOT NULL REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS shift_id varchar REFERENCES cashier_shifts(id);
+
+CREATE INDEX IF NOT EXISTS "IDX_cashier_shifts_user_status" ON cashier_shifts (user_id, status);
+CREATE INDEX IF NOT EXISTS "IDX_shift_cash_movements_shift" ON shift_cash_movements (shift_id);
+CREATE INDEX IF NOT EXISTS "IDX_transactions_shift" ON transactions (shift_id);
@@ -0,0 +1,21 @@
+-- Parked (held) POS carts; their items are counted in products.reserved_stock while parked
+CREATE TABLE IF NOT EXISTS parked_carts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  cart_number varchar NOT NULL,
+  label varchar,
+  customer_id varchar REFERENCES customers(id),
+  location_id varchar REFERENCES locations(id),
+  user_id varchar NOT NULL REFERENCES users(id),
+  status varchar DEFAULT 'parked',
+  items jsonb NOT NULL,
+  settings jsonb,
+  subtotal numeric(12, 2) DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  resumed_at timestamptz,
+  resumed_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_parked_carts_status_expires" ON parked_carts (status, expires_at);
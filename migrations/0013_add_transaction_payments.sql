@@ -0,0 +1,16 @@
+-- Split / mixed payments: one row per tender on a sale; 'split' marks sales paid with more than one method
+ALTER TYPE payment_method ADD VALUE IF NOT EXISTS 'split';
+
+CREATE TABLE IF NOT EXISTS transaction_payments (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  transaction_id varchar NOT NULL REFERENCES transactions(id),
+  payment_method varchar NOT NULL,
+  amount numeric(12, 2) NOT NULL,
+  tendered_amount numeric(12, 2),
+  change_amount numeric(12, 2) DEFAULT 0,
+  reference varchar,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_transaction_payments_transaction" ON transaction_payments (transaction_id);
@@ -0,0 +1,39 @@
+-- Append-only tenant audit trail; updates, deletes and truncates are rejected at the database level
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  user_id varchar,
+  user_name varchar,
+  source varchar NOT NULL DEFAULT 'web',
+  entity_type varchar NOT NULL,
+  entity_id varchar,
+  action varchar NOT NULL,
+  method varchar(10) NOT NULL,
+  path text NOT NULL,
+  status_code integer,
+  before jsonb,
+  after jsonb,
+  changes jsonb,
+  ip_address varchar,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_audit_logs_entity" ON audit_logs (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS "IDX_audit_logs_created_at" ON audit_logs (created_at);
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_mutation() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_mutation();
+
+DROP TRIGGER IF EXISTS audit_logs_no_truncate ON audit_logs;
+CREATE TRIGGER audit_logs_no_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_mutation();
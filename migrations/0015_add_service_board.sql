@@ -0,0 +1,12 @@
+-- Technician job board: auto-assignment switch, per-status SLA limits and the time a ticket entered its status
+ALTER TABLE store_config ADD COLUMN IF NOT EXISTS auto_assign_technician boolean DEFAULT true;
+ALTER TABLE store_config ADD COLUMN IF NOT EXISTS sla_checking_hours integer DEFAULT 24;
+ALTER TABLE store_config ADD COLUMN IF NOT EXISTS sla_waiting_parts_hours integer DEFAULT 72;
+
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS status_changed_at timestamptz DEFAULT now();
+
+-- Existing tickets start their SLA clock from the last time they were touched
+UPDATE service_tickets
+SET status_changed_at = COALESCE(updated_at, created_at, now());
+
+CREATE INDEX IF NOT EXISTS "IDX_service_tickets_technician_status" ON service_tickets (technician_id, status);
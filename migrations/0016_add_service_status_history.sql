@@ -0,0 +1,23 @@
+-- Service status history: who moved a ticket to which status and when, with optional notes and photos
+CREATE TABLE IF NOT EXISTS service_status_history (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  service_ticket_id varchar NOT NULL REFERENCES service_tickets(id),
+  from_status varchar,
+  to_status varchar NOT NULL,
+  note text,
+  photos jsonb DEFAULT '[]'::jsonb,
+  diagnosis text,
+  solution text,
+  customer_visible boolean DEFAULT true,
+  changed_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_service_status_history_ticket" ON service_status_history (service_ticket_id, created_at);
+
+-- Existing tickets only know their current status; record it as their first entry
+INSERT INTO service_status_history (client_id, service_ticket_id, from_status, to_status, diagnosis, solution, created_at)
+SELECT t.client_id, t.id, NULL, COALESCE(t.status::text, 'pending'), t.diagnosis, t.solution, COALESCE(t.status_changed_at, t.updated_at, t.created_at, now())
+FROM service_tickets t
+WHERE NOT EXISTS (SELECT 1 FROM service_status_history h WHERE h.service_ticket_id = t.id);
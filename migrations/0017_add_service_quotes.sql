@@ -0,0 +1,27 @@
+-- Repair quotations: priced parts and labor the customer approves or rejects from a public link
+CREATE TABLE IF NOT EXISTS service_quotes (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  service_ticket_id varchar NOT NULL REFERENCES service_tickets(id),
+  quote_number varchar NOT NULL,
+  status varchar NOT NULL DEFAULT 'sent',
+  items jsonb NOT NULL,
+  parts_total numeric(12, 2) NOT NULL DEFAULT 0,
+  labor_cost numeric(12, 2) NOT NULL DEFAULT 0,
+  total_amount numeric(12, 2) NOT NULL,
+  notes text,
+  token varchar NOT NULL UNIQUE,
+  valid_until timestamptz,
+  sent_at timestamptz,
+  responded_at timestamptz,
+  response_note text,
+  response_ip varchar,
+  created_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_service_quotes_ticket" ON service_quotes (service_ticket_id);
+
+-- Parts from an approved quote stay reserved until the repair is completed or cancelled
+ALTER TABLE service_ticket_parts ADD COLUMN IF NOT EXISTS reserved_quantity integer DEFAULT 0;
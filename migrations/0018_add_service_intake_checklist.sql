@@ -0,0 +1,4 @@
+-- Structured intake checklist, customer signature and pickup handover check for service tickets
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS intake_checklist jsonb;
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS intake_signature text;
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS handover_check jsonb;
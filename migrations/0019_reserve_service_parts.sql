@@ -0,0 +1,21 @@
+-- Parts on open service tickets are reserved instead of deducted from stock
+ALTER TABLE service_ticket_parts ADD COLUMN IF NOT EXISTS reserved_batches jsonb;
+
+-- Hold parts already attached to open tickets so they stop counting as available stock
+WITH held AS (
+  UPDATE service_ticket_parts stp
+  SET reserved_quantity = stp.quantity
+  FROM service_tickets st
+  WHERE st.id = stp.service_ticket_id
+    AND st.status NOT IN ('completed', 'delivered', 'cancelled')
+    AND COALESCE(stp.reserved_quantity, 0) = 0
+  RETURNING stp.product_id, stp.quantity
+)
+UPDATE products p
+SET reserved_stock = COALESCE(p.reserved_stock, 0) + totals.quantity
+FROM (
+  SELECT product_id, SUM(quantity) AS quantity
+  FROM held
+  GROUP BY product_id
+) totals
+WHERE p.id = totals.product_id;
@@ -0,0 +1,23 @@
+-- Parts requested by waiting-parts service tickets, collected into draft purchase orders per supplier
+ALTER TABLE products ADD COLUMN IF NOT EXISTS preferred_supplier_id varchar REFERENCES suppliers(id);
+
+CREATE TABLE IF NOT EXISTS service_part_requests (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  service_ticket_id varchar NOT NULL REFERENCES service_tickets(id),
+  product_id varchar REFERENCES products(id),
+  description text,
+  quantity integer NOT NULL DEFAULT 1,
+  supplier_id varchar REFERENCES suppliers(id),
+  status varchar NOT NULL DEFAULT 'pending',
+  purchase_order_id varchar REFERENCES purchase_orders(id),
+  purchase_order_item_id varchar REFERENCES purchase_order_items(id),
+  notes text,
+  requested_by varchar REFERENCES users(id),
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_service_part_requests_ticket" ON service_part_requests (service_ticket_id);
+CREATE INDEX IF NOT EXISTS "IDX_service_part_requests_po_item" ON service_part_requests (purchase_order_item_id);
@@ -0,0 +1,14 @@
+-- Printable warranty certificates, verified publicly through the token in their QR code
+CREATE TABLE IF NOT EXISTS warranty_certificates (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  certificate_number varchar NOT NULL,
+  token varchar NOT NULL UNIQUE,
+  transaction_id varchar REFERENCES transactions(id),
+  service_ticket_id varchar REFERENCES service_tickets(id),
+  issued_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_warranty_certificates_transaction" ON warranty_certificates (transaction_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_warranty_certificates_service_ticket" ON warranty_certificates (service_ticket_id);
@@ -0,0 +1,27 @@
+-- Supplier RMAs: damaged stock returned to the supplier and its repair, replacement or credit
+CREATE TABLE IF NOT EXISTS supplier_rmas (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  rma_number varchar NOT NULL,
+  supplier_id varchar NOT NULL REFERENCES suppliers(id),
+  product_id varchar NOT NULL REFERENCES products(id),
+  stock_movement_id varchar,
+  batch_id varchar REFERENCES product_batches(id),
+  quantity integer NOT NULL,
+  serial_numbers text[],
+  unit_cost numeric(12, 2) NOT NULL,
+  status varchar NOT NULL DEFAULT 'pending',
+  tracking_number varchar,
+  shipped_at timestamptz,
+  resolved_at timestamptz,
+  replacement_serial_numbers text[],
+  credit_amount numeric(15, 2),
+  journal_entry_id varchar,
+  notes text,
+  created_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_supplier_rmas_supplier" ON supplier_rmas (supplier_id);
+CREATE INDEX IF NOT EXISTS "IDX_supplier_rmas_movement" ON supplier_rmas (stock_movement_id);
@@ -0,0 +1,23 @@
+-- Fiscal periods: monthly close and lock, year-end rollover into retained earnings, reversing journals
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS reversal_of_id varchar;
+
+CREATE TABLE IF NOT EXISTS fiscal_periods (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  year integer NOT NULL,
+  month integer NOT NULL,
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'open',
+  closed_at timestamptz,
+  closed_by varchar REFERENCES users(id),
+  locked_at timestamptz,
+  locked_by varchar REFERENCES users(id),
+  year_closed_at timestamptz,
+  year_end_journal_id varchar,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_fiscal_periods_client_month" ON fiscal_periods (client_id, year, month);
+CREATE INDEX IF NOT EXISTS "IDX_journal_entries_reversal_of" ON journal_entries (reversal_of_id);
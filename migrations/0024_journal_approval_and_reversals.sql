@@ -0,0 +1,12 @@
+-- Manual journals start as drafts approved by a second user; deletes of financial records become offsetting reversals
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS approved_by varchar REFERENCES users(id);
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS approved_at timestamptz;
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+ALTER TABLE financial_records ADD COLUMN IF NOT EXISTS reversal_of_id varchar;
+CREATE INDEX IF NOT EXISTS "IDX_financial_records_reversal_of" ON financial_records (reversal_of_id);
+
+-- The finance role approves manual journals
+UPDATE roles
+SET permissions = array_append(permissions, 'journal_approve')
+WHERE name = 'finance' AND NOT ('journal_approve' = ANY(COALESCE(permissions, ARRAY[]::text[])));
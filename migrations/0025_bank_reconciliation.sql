@@ -0,0 +1,46 @@
+-- Bank reconciliation: imported statements, their lines and the journal lines they clear
+CREATE TABLE IF NOT EXISTS bank_statements (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  account_code varchar(20) NOT NULL DEFAULT '1112',
+  file_name varchar(255),
+  format varchar(10) NOT NULL,
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  opening_balance numeric(15, 2),
+  closing_balance numeric(15, 2),
+  status varchar(20) NOT NULL DEFAULT 'open',
+  imported_by varchar REFERENCES users(id),
+  reconciled_at timestamptz,
+  reconciled_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bank_statement_lines (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  statement_id varchar NOT NULL REFERENCES bank_statements(id),
+  date timestamptz NOT NULL,
+  description text NOT NULL,
+  bank_reference varchar(100),
+  amount numeric(15, 2) NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'unmatched',
+  journal_entry_id varchar REFERENCES journal_entries(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS bank_reconciliation_matches (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id varchar,
+  statement_line_id varchar NOT NULL REFERENCES bank_statement_lines(id),
+  journal_entry_line_id varchar NOT NULL REFERENCES journal_entry_lines(id),
+  amount numeric(15, 2) NOT NULL,
+  match_type varchar(10) NOT NULL,
+  matched_by varchar REFERENCES users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_bank_statement_lines_statement" ON bank_statement_lines (statement_id);
+CREATE INDEX IF NOT EXISTS "IDX_bank_reconciliation_matches_line" ON bank_reconciliation_matches (statement_line_id);
+CREATE INDEX IF NOT EXISTS "IDX_bank_reconciliation_matches_journal_line" ON bank_reconciliation_matches (journal_entry_line_id);
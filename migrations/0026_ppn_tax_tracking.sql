@@ -0,0 +1,6 @@
+-- PPN: per-product tax flags, per-line output tax on sales and buyer NPWP for e-Faktur
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_inclusive boolean DEFAULT false;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_exempt boolean DEFAULT false;
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS taxable_amount numeric(12, 2);
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2);
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS npwp varchar(20);
@@ -0,0 +1,26 @@
+-- PPN on service tickets: store-level price mode, and the tax booked per ticket and quoted per quote
+ALTER TABLE store_config ADD COLUMN IF NOT EXISTS service_tax_inclusive boolean DEFAULT true;
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS taxable_amount numeric(12, 2);
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2);
+ALTER TABLE service_tickets ADD COLUMN IF NOT EXISTS tax_inclusive boolean;
+ALTER TABLE service_quotes ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+-- Tickets already booked had PPN carved out of their prices at the store rate; freeze that booking once
+UPDATE service_tickets st
+SET tax_amount = booked.tax_amount,
+    taxable_amount = ROUND(booked.tax_amount * 100 / NULLIF(COALESCE(sc.tax_rate, 11), 0), 2),
+    tax_inclusive = true
+FROM (
+  SELECT je.reference, je.client_id, SUM(jl.credit_amount - jl.debit_amount) AS tax_amount
+  FROM journal_entry_lines jl
+  JOIN journal_entries je ON je.id = jl.journal_entry_id
+  JOIN accounts a ON a.id = jl.account_id
+  WHERE a.code = '2120'
+    AND je.reference_type = 'service_ticket'
+    AND je.status IN ('posted', 'reversed')
+  GROUP BY je.reference, je.client_id
+) booked
+LEFT JOIN store_config sc ON sc.client_id IS NOT DISTINCT FROM booked.client_id
+WHERE st.id = booked.reference
+  AND st.tax_amount IS NULL
+  AND booked.tax_amount > 0;
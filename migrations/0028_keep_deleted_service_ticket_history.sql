@@ -0,0 +1,3 @@
+-- Status history outlives a deleted ticket: the link is cleared and the ticket number kept on each row
+ALTER TABLE service_status_history ALTER COLUMN service_ticket_id DROP NOT NULL;
+ALTER TABLE service_status_history ADD COLUMN IF NOT EXISTS ticket_number varchar;
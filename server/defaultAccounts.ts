@@ -12,6 +12,7 @@ export const defaultAccounts = [
   { code: '1130', name: 'Persediaan', type: 'asset', subtype: 'inventory', normalBalance: 'debit', parentCode: '1100', description: 'Stok barang dagangan' },
   { code: '1140', name: 'Piutang Lainnya', type: 'asset', subtype: 'receivable', normalBalance: 'debit', parentCode: '1100', description: 'Piutang di luar usaha utama' },
   { code: '1150', name: 'Biaya Dibayar Dimuka', type: 'asset', subtype: 'prepaid', normalBalance: 'debit', parentCode: '1100', description: 'Biaya yang sudah dibayar untuk periode mendatang' },
+  { code: '1160', name: 'PPN Masukan', type: 'asset', subtype: 'tax_receivable', normalBalance: 'debit', parentCode: '1100', description: 'PPN atas pembelian yang dapat dikreditkan' },
 
   // Fixed Assets (Aset Tetap)
   { code: '1200', name: 'Aset Tetap', type: 'asset', subtype: 'fixed_asset', normalBalance: 'debit', parentCode: '1000', description: 'Aset jangka panjang untuk operasional' },
@@ -106,7 +107,9 @@ export const commonAccountCodes = {
   BANK: '1112',
   ACCOUNTS_RECEIVABLE: '1120',
   INVENTORY: '1130',
+  INPUT_TAX: '1160',
   ACCOUNTS_PAYABLE: '2110',
+  OUTPUT_TAX: '2120',
   SALES_REVENUE: '4110',
   SERVICE_REVENUE: '4210',
   COST_OF_GOODS_SOLD: '5110',
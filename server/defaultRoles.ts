@@ -7,7 +7,7 @@ export const defaultRoleConfigs = [
       'dashboard_view', 'pos_access', 'inventory_full', 'purchasing_full',
       'financial_full', 'reports_full', 'customers_full', 'suppliers_full',
       'service_tickets_full', 'users_full', 'roles_full', 'settings_full',
-      'whatsapp_settings', 'store_settings', 'system_admin', 'saas_admin'
+      'whatsapp_settings', 'store_settings', 'audit_view', 'system_admin', 'saas_admin'
     ]
   },
   {
@@ -44,7 +44,7 @@ export const defaultRoleConfigs = [
     displayName: 'Finance',
     description: 'Financial management and reporting',
     permissions: [
-      'dashboard_view', 'financial_full', 'reports_full', 'customers_view',
+      'dashboard_view', 'financial_full', 'journal_approve', 'reports_full', 'customers_view',
       'suppliers_view', 'transactions_view'
     ]
   },
@@ -55,7 +55,7 @@ export const defaultRoleConfigs = [
     permissions: [
       'dashboard_view', 'pos_access', 'inventory_view', 'purchasing_view',
       'financial_full', 'reports_full', 'customers_full', 'suppliers_view',
-      'service_tickets_view', 'users_view', 'settings_view'
+      'service_tickets_view', 'users_view', 'settings_view', 'audit_view'
     ]
   }
 ];
\ No newline at end of file
@@ -0,0 +1,203 @@
+import XLSX from "xlsx";
+
+export type ParsedBankStatementLine = {
+  date: Date;
+  description: string;
+  bankReference: string | null;
+  amount: number; // positive = money in, negative = money out
+};
+
+export type ParsedBankStatement = {
+  format: "csv" | "ofx";
+  periodStart: Date;
+  periodEnd: Date;
+  closingBalance: number | null;
+  lines: ParsedBankStatementLine[];
+};
+
+// Header aliases seen in Indonesian internet-banking exports (BCA, Mandiri, BRI, BNI) and generic CSVs
+const CSV_COLUMNS = {
+  date: ["date", "tanggal", "tgl", "tanggal transaksi", "posting date", "transaction date"],
+  description: ["description", "keterangan", "deskripsi", "uraian", "uraian transaksi", "remark", "narrative"],
+  reference: ["reference", "referensi", "no. referensi", "ref", "no ref", "fitid"],
+  amount: ["amount", "jumlah", "nominal", "mutasi"],
+  debit: ["debit", "debet", "withdrawal", "keluar"],
+  credit: ["credit", "kredit", "deposit", "masuk"],
+  balance: ["balance", "saldo"],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statement dates are calendar days in the store's timezone (WIB)
+function toStatementDate(year: number, month: number, day: number) {
+  const date = new Date(`${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}T00:00:00+07:00`);
+  if (Number.isNaN(date.getTime()) || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return date;
+}
+
+function parseStatementDate(value: string) {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return toStatementDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return toStatementDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) return toStatementDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  return null;
+}
+
+// Accepts both 1.234.567,89 and 1,234,567.89, a leading minus or parentheses, and a trailing DB/CR marker
+export function parseStatementAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  let text = String(value ?? "").trim().toUpperCase();
+  if (!text) return null;
+
+  let sign = 1;
+  if (/D[BR]$/.test(text)) {
+    sign = -1;
+    text = text.slice(0, -2);
+  } else if (/CR$/.test(text)) {
+    text = text.slice(0, -2);
+  }
+  if (/^\(.*\)$/.test(text)) {
+    sign = -sign;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith("-")) {
+    sign = -sign;
+    text = text.slice(1);
+  }
+  text = text.replace(/[^\d.,]/g, "");
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > -1 && lastDot > -1) {
+    text = lastComma > lastDot ? text.replace(/\./g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (lastComma > -1) {
+    text = /,\d{1,2}$/.test(text) ? text.replace(/,(?=\d{3}\b)/g, "").replace(",", ".") : text.replace(/,/g, "");
+  } else if (lastDot > -1 && (/\.\d{3}$/.test(text) || text.split(".").length > 2)) {
+    text = text.replace(/\./g, "");
+  }
+
+  const amount = Number(text);
+  return Number.isFinite(amount) ? Number((sign * amount).toFixed(2)) : null;
+}
+
+function findColumn(headers: string[], aliases: string[]) {
+  return headers.findIndex((header) => aliases.includes(header));
+}
+
+function parseCsvStatement(buffer: Buffer): ParsedBankStatement {
+  const workbook = XLSX.read(buffer, { type: "buffer", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: "" });
+
+  // Bank exports often start with account details; the header is the first row naming a date column
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => CSV_COLUMNS.date.includes(String(cell).trim().toLowerCase())),
+  );
+  if (headerIndex === -1) throw new Error("Kolom tanggal tidak ditemukan pada file CSV");
+
+  const headers = rows[headerIndex].map((cell) => String(cell).trim().toLowerCase());
+  const columns = {
+    date: findColumn(headers, CSV_COLUMNS.date),
+    description: findColumn(headers, CSV_COLUMNS.description),
+    reference: findColumn(headers, CSV_COLUMNS.reference),
+    amount: findColumn(headers, CSV_COLUMNS.amount),
+    debit: findColumn(headers, CSV_COLUMNS.debit),
+    credit: findColumn(headers, CSV_COLUMNS.credit),
+    balance: findColumn(headers, CSV_COLUMNS.balance),
+  };
+  if (columns.amount === -1 && (columns.debit === -1 || columns.credit === -1)) {
+    throw new Error("File CSV harus memiliki kolom jumlah atau kolom debit dan kredit");
+  }
+
+  const lines: ParsedBankStatementLine[] = [];
+  let closingBalance: number | null = null;
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const date = parseStatementDate(String(row[columns.date] ?? ""));
+    if (!date) return; // footer rows (totals, saldo akhir) carry no transaction date
+
+    const amount = columns.amount !== -1
+      ? parseStatementAmount(row[columns.amount])
+      : (parseStatementAmount(row[columns.credit]) ?? 0) - Math.abs(parseStatementAmount(row[columns.debit]) ?? 0);
+    if (amount === null) {
+      throw new Error(`Jumlah tidak valid pada baris ${headerIndex + index + 2}`);
+    }
+    if (amount === 0) return;
+
+    lines.push({
+      date,
+      description: String(row[columns.description] ?? "").trim() || "-",
+      bankReference: columns.reference !== -1 ? String(row[columns.reference] ?? "").trim() || null : null,
+      amount: Number(amount.toFixed(2)),
+    });
+    if (columns.balance !== -1) {
+      closingBalance = parseStatementAmount(row[columns.balance]) ?? closingBalance;
+    }
+  });
+
+  return { format: "csv", ...statementPeriod(lines), closingBalance, lines };
+}
+
+// OFX 1.x is SGML and usually omits closing tags, so values run to the next tag or line break
+function ofxValue(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? match[1].trim() : null;
+}
+
+function parseOfxStatement(buffer: Buffer): ParsedBankStatement {
+  const text = buffer.toString("utf8");
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  if (blocks.length === 0) throw new Error("Tidak ada transaksi pada file OFX");
+
+  const lines = blocks.map((block, index) => {
+    const date = parseStatementDate(ofxValue(block, "DTPOSTED") || "");
+    const amount = parseStatementAmount(ofxValue(block, "TRNAMT"));
+    if (!date || amount === null) throw new Error(`Transaksi OFX ke-${index + 1} tidak valid`);
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    return {
+      date,
+      description: [name, memo].filter(Boolean).join(" - ") || "-",
+      bankReference: ofxValue(block, "FITID"),
+      amount,
+    };
+  }).filter((line) => line.amount !== 0);
+
+  const period = statementPeriod(lines);
+  const start = parseStatementDate(ofxValue(text, "DTSTART") || "");
+  const end = parseStatementDate(ofxValue(text, "DTEND") || "");
+  const ledgerBalance = text.match(/<LEDGERBAL>[\s\S]*?<BALAMT>([^<\r\n]+)/i);
+
+  return {
+    format: "ofx",
+    periodStart: start ?? period.periodStart,
+    periodEnd: end ? new Date(end.getTime() + DAY_MS - 1) : period.periodEnd,
+    closingBalance: ledgerBalance ? parseStatementAmount(ledgerBalance[1]) : null,
+    lines,
+  };
+}
+
+function statementPeriod(lines: ParsedBankStatementLine[]) {
+  if (lines.length === 0) throw new Error("File mutasi rekening tidak memiliki transaksi");
+  const times = lines.map((line) => line.date.getTime());
+  return {
+    periodStart: new Date(Math.min(...times)),
+    // The period runs through the end of the last statement day
+    periodEnd: new Date(Math.max(...times) + DAY_MS - 1),
+  };
+}
+
+export function parseBankStatement(buffer: Buffer, fileName: string): ParsedBankStatement {
+  const isOfx = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(buffer.subarray(0, 4096).toString("utf8"));
+  const statement = isOfx ? parseOfxStatement(buffer) : parseCsvStatement(buffer);
+  statement.lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return statement;
+}
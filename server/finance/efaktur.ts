@@ -0,0 +1,93 @@
+export type EFakturInvoice = {
+  reference: string; // transaction or ticket number, kept in REFERENSI
+  date: string;
+  buyerName: string | null;
+  buyerNpwp: string | null;
+  buyerAddress: string | null;
+  taxableAmount: number;
+  taxAmount: number;
+  items: Array<{ code: string; name: string; quantity: number; taxableAmount: number; taxAmount: number }>;
+};
+
+// Column headers of the e-Faktur "Faktur Keluaran" import file: FK = invoice, LT = seller, OF = item
+const EFAKTUR_HEADERS = [
+  ["FK", "KD_JENIS_TRANSAKSI", "FG_PENGGANTI", "NOMOR_FAKTUR", "MASA_PAJAK", "TAHUN_PAJAK", "TANGGAL_FAKTUR", "NPWP", "NAMA", "ALAMAT_LENGKAP", "JUMLAH_DPP", "JUMLAH_PPN", "JUMLAH_PPNBM", "ID_KETERANGAN_TAMBAHAN", "FG_UANG_MUKA", "UANG_MUKA_DPP", "UANG_MUKA_PPN", "UANG_MUKA_PPNBM", "REFERENSI", "KODE_DOKUMEN_PENDUKUNG"],
+  ["LT", "NPWP", "NAMA", "JALAN", "BLOK", "NOMOR", "RT", "RW", "KECAMATAN", "KELURAHAN", "KABUPATEN", "PROPINSI", "KODE_POS", "NOMOR_TELEPON"],
+  ["OF", "KODE_OBJEK", "NAMA", "HARGA_SATUAN", "JUMLAH_BARANG", "HARGA_TOTAL", "DISKON", "DPP", "PPN", "TARIF_PPNBM", "PPNBM"],
+];
+
+// Buyers without a tax ID (end consumers) are reported with an all-zero NPWP
+const EMPTY_NPWP = "000000000000000";
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+function formatInvoiceDate(value: string) {
+  const date = new Date(new Date(value).getTime() + WIB_OFFSET_MS);
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  return `${day}/${month}/${date.getUTCFullYear()}`;
+}
+
+function normalizeNpwp(value: string | null) {
+  const digits = (value || "").replace(/\D/g, "");
+  return digits.length === 15 || digits.length === 16 ? digits : EMPTY_NPWP;
+}
+
+// e-Faktur takes plain numbers: no thousand separators, dot for decimals
+const formatAmount = (value: number) => String(Number(value.toFixed(2)));
+// Invoice totals are whole rupiah
+const formatRupiah = (value: number) => String(Math.floor(value));
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildEFakturCsv(invoices: EFakturInvoice[], period: { year: number; month: number }) {
+  const rows: Array<Array<string | number>> = [...EFAKTUR_HEADERS];
+
+  for (const invoice of invoices) {
+    rows.push([
+      "FK",
+      "01", // delivery to a buyer that is not a VAT collector
+      "0",
+      "", // NSFP is assigned when the invoice is approved in e-Faktur
+      period.month,
+      period.year,
+      formatInvoiceDate(invoice.date),
+      normalizeNpwp(invoice.buyerNpwp),
+      invoice.buyerName || "Pembeli Umum",
+      invoice.buyerAddress || "-",
+      formatRupiah(invoice.taxableAmount),
+      formatRupiah(invoice.taxAmount),
+      0,
+      "",
+      0,
+      0,
+      0,
+      0,
+      invoice.reference,
+      "",
+    ]);
+
+    for (const item of invoice.items) {
+      // Item rows carry the DPP after discounts, so the unit price is derived from it
+      const quantity = Math.max(item.quantity, 1);
+      rows.push([
+        "OF",
+        item.code,
+        item.name,
+        formatAmount(item.taxableAmount / quantity),
+        quantity,
+        formatAmount(item.taxableAmount),
+        0,
+        formatAmount(item.taxableAmount),
+        formatAmount(item.taxAmount),
+        0,
+        0,
+      ]);
+    }
+  }
+
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
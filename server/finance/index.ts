@@ -1,11 +1,14 @@
-import { and, eq, inArray, sql, sum } from "drizzle-orm";
+import { and, eq, gte, inArray, isNull, lte, notInArray, or, sql, sum, type SQL } from "drizzle-orm";
 import { db, getCurrentTenantContext } from "../db";
 import {
   accounts,
+  bankReconciliationMatches,
   financialRecords,
+  fiscalPeriods,
   journalEntries,
   journalEntryLines,
   products,
+  storeConfig,
   type FinancialRecord,
   type InsertFinancialRecord,
   type InsertJournalEntry,
@@ -13,6 +16,7 @@ import {
   type JournalEntry,
 } from "@shared/schema";
 import { defaultAccounts } from "../defaultAccounts";
+import { calculateServiceTax, resolveTaxRate } from "@shared/tax";
 
 export type JournalLineInput = {
   accountCode: string;
@@ -26,9 +30,17 @@ const ACCOUNT_CODES = {
   BANK: "1112",
   ACCOUNTS_RECEIVABLE: "1120",
   INVENTORY: "1130",
+  INPUT_TAX: "1160",
+  ACCOUNTS_PAYABLE: "2110",
+  OUTPUT_TAX: "2120",
+  RETAINED_EARNINGS: "3200",
+  CURRENT_EARNINGS: "3300",
   SALES_REVENUE: "4110",
   SERVICE_REVENUE: "4210",
+  OTHER_REVENUE: "4300",
   COGS: "5110",
+  DAMAGED_GOODS_LOSS: "5130",
+  OTHER_EXPENSE: "5290",
 };
 
 const FINANCIAL_CATEGORIES = {
@@ -38,9 +50,34 @@ const FINANCIAL_CATEGORIES = {
   EXPENSE: "expense",
   INVENTORY: "inventory",
   INVENTORY_PURCHASE: "inventory_purchase",
+  SALES_RETURN: "sales_return",
 } as const;
 
-type SettlementMethod = "cash" | "bank_transfer" | "credit_card" | "accounts_receivable" | string;
+// Journals that roll a fiscal year into retained earnings; they are not part of the year's performance
+const YEAR_END_CLOSE_REFERENCE_TYPE = "year_end_close";
+
+// Drafts are not in the ledger yet; reversed entries stay in, offset by their mirror entry
+const LEDGER_JOURNAL_STATUSES = ["posted", "reversed"];
+
+// Fiscal periods follow the store's calendar (WIB, UTC+7)
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+export type JournalSourceKind = "transaction" | "service_ticket" | "purchase_order" | "supplier_bill";
+
+// Where a journal's reference points, by reference type, for drill-down from the ledger
+export const JOURNAL_SOURCE_KINDS: Record<string, JournalSourceKind> = {
+  pos_sale: "transaction",
+  pos_cogs: "transaction",
+  pos_return: "transaction",
+  pos_return_damaged: "transaction",
+  service_ticket: "service_ticket",
+  service_cancel: "service_ticket",
+  service_refund: "service_ticket",
+  inventory_purchase: "purchase_order",
+  supplier_payment: "supplier_bill",
+};
+
+type SettlementMethod = "cash" | "bank_transfer" | "credit_card" | "accounts_receivable" | "accounts_payable" | string;
 
 function resolveClientId(clientId?: string | null) {
   const ctx = getCurrentTenantContext();
@@ -49,9 +86,11 @@ function resolveClientId(clientId?: string | null) {
 
 export function resolveSettlementAccount(method?: SettlementMethod): string {
   const normalized = method?.toLowerCase();
-  if (normalized === "bank" || normalized === "bank_transfer") return ACCOUNT_CODES.BANK;
-  if (normalized === "credit_card") return ACCOUNT_CODES.BANK;
-  if (normalized === "accounts_receivable") return ACCOUNT_CODES.ACCOUNTS_RECEIVABLE;
+  if (normalized === "bank" || normalized === "bank_transfer" || normalized === "transfer") return ACCOUNT_CODES.BANK;
+  // QRIS and card payments are settled by the acquirer into the bank account
+  if (normalized === "qris" || normalized === "credit_card" || normalized === "credit" || normalized === "debit") return ACCOUNT_CODES.BANK;
+  if (normalized === "accounts_receivable" || normalized === "installment") return ACCOUNT_CODES.ACCOUNTS_RECEIVABLE;
+  if (normalized === "accounts_payable") return ACCOUNT_CODES.ACCOUNTS_PAYABLE;
   return ACCOUNT_CODES.CASH;
 }
 
@@ -111,6 +150,39 @@ async function ensureDefaultAccounts(codes: string[], clientId?: string | null,
   }
 }
 
+export function getFiscalPeriodRange(year: number, month: number) {
+  const start = new Date(Date.UTC(year, month - 1, 1) - WIB_OFFSET_MS);
+  const end = new Date(Date.UTC(year, month, 1) - WIB_OFFSET_MS - 1);
+  return { start, end };
+}
+
+const startOfFiscalYear = (date: Date) =>
+  getFiscalPeriodRange(new Date(date.getTime() + WIB_OFFSET_MS).getUTCFullYear(), 1).start;
+
+// Report filters arrive as YYYY-MM-DD in the store's calendar
+export function parseReportDate(value: string, endOfDay = false) {
+  const date = value.includes("T") ? new Date(value) : new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}+07:00`);
+  if (Number.isNaN(date.getTime())) throw new Error(`Tanggal tidak valid: ${value}`);
+  return date;
+}
+
+async function assertPeriodAcceptsPosting(date: Date, clientId: string | null, allowClosedPeriod: boolean, tx?: any) {
+  const executor = tx || db;
+  const conditions: SQL[] = [lte(fiscalPeriods.periodStart, date), gte(fiscalPeriods.periodEnd, date)];
+  if (clientId) conditions.push(eq(fiscalPeriods.clientId, clientId));
+
+  const [period] = await executor.select().from(fiscalPeriods).where(and(...conditions)).limit(1);
+  if (!period || period.status === "open") return;
+
+  const label = `${String(period.month).padStart(2, "0")}/${period.year}`;
+  if (period.status === "locked") {
+    throw new Error(`Periode ${label} sudah dikunci, jurnal tidak dapat diposting`);
+  }
+  if (!allowClosedPeriod) {
+    throw new Error(`Periode ${label} sudah ditutup, buat jurnal koreksi di periode berjalan`);
+  }
+}
+
 export async function createJournalEntry(
   type: string,
   lines: JournalLineInput[],
@@ -120,6 +192,13 @@ export async function createJournalEntry(
     referenceType?: string | null;
     userId?: string | null;
     clientId?: string | null;
+    // Posting date, defaults to now; it must fall in a period that still accepts postings
+    date?: Date;
+    // Only the year-end close may post into a closed (not locked) period
+    allowClosedPeriod?: boolean;
+    reversalOfId?: string | null;
+    // Drafts stay out of the ledger until approved; the period check runs at approval
+    status?: "draft" | "posted";
     tx?: any;
   },
 ): Promise<JournalEntry & { lines: InsertJournalEntryLine[] }> {
@@ -132,7 +211,12 @@ export async function createJournalEntry(
   }
 
   const clientId = resolveClientId(options?.clientId);
+  const date = options?.date || new Date();
+  const status = options?.status || "posted";
 
+  if (status === "posted") {
+    await assertPeriodAcceptsPosting(date, clientId, options?.allowClosedPeriod ?? false, tx);
+  }
   await ensureDefaultAccounts(lines.map((l) => l.accountCode), clientId, tx);
   const accountMap = await findAccountsByCode(lines.map((l) => l.accountCode), clientId, tx);
   lines.forEach((line) => {
@@ -147,11 +231,13 @@ export async function createJournalEntry(
     .insert(journalEntries)
     .values({
       journalNumber,
+      date,
       description: options?.description || type,
       reference: options?.reference || null,
       referenceType: options?.referenceType || null,
       totalAmount: debitTotal.toFixed(2),
-      status: "posted",
+      status,
+      reversalOfId: options?.reversalOfId || null,
       userId: options?.userId || null,
       clientId,
     } satisfies InsertJournalEntry)
@@ -173,6 +259,177 @@ export async function createJournalEntry(
   return { ...entry, lines: linePayloads } as any;
 }
 
+async function findJournalEntry(journalEntryId: string, clientId: string | null, executor: any) {
+  const [entry] = await executor
+    .select()
+    .from(journalEntries)
+    .where(clientId ? and(eq(journalEntries.id, journalEntryId), eq(journalEntries.clientId, clientId)) : eq(journalEntries.id, journalEntryId))
+    .limit(1);
+  if (!entry) throw new Error("Jurnal tidak ditemukan");
+  return entry as JournalEntry;
+}
+
+// Corrections never edit a posted journal: a mirror entry with debit and credit swapped cancels it instead
+export async function reverseJournalEntry(
+  journalEntryId: string,
+  options: { reason: string; date?: Date; userId: string; clientId?: string | null; tx?: any },
+): Promise<JournalEntry & { lines: InsertJournalEntryLine[] }> {
+  if (!options.tx) {
+    return db.transaction((tx) => reverseJournalEntry(journalEntryId, { ...options, tx }));
+  }
+
+  const executor = options.tx;
+  const clientId = resolveClientId(options.clientId);
+  const entry = await findJournalEntry(journalEntryId, clientId, executor);
+
+  if (entry.status === "reversed") throw new Error(`Jurnal ${entry.journalNumber} sudah dibalik`);
+  if (entry.status !== "posted") throw new Error(`Jurnal ${entry.journalNumber} belum diposting`);
+  if (entry.reversalOfId) throw new Error("Jurnal pembalik tidak dapat dibalik lagi");
+
+  const lines = await executor
+    .select({
+      accountCode: accounts.code,
+      description: journalEntryLines.description,
+      debitAmount: journalEntryLines.debitAmount,
+      creditAmount: journalEntryLines.creditAmount,
+    })
+    .from(journalEntryLines)
+    .innerJoin(accounts, eq(journalEntryLines.accountId, accounts.id))
+    .where(eq(journalEntryLines.journalEntryId, entry.id));
+
+  const reversal = await createJournalEntry(
+    "reversal",
+    lines.map((line: any) => ({
+      accountCode: line.accountCode,
+      description: line.description,
+      debitAmount: Number(line.creditAmount || 0),
+      creditAmount: Number(line.debitAmount || 0),
+    })),
+    {
+      description: `Pembalikan ${entry.journalNumber}: ${options.reason}`,
+      // Keep the source reference so the reversal shows up next to the document it corrects
+      reference: entry.reference,
+      referenceType: entry.referenceType,
+      date: options.date,
+      reversalOfId: entry.id,
+      userId: options.userId,
+      clientId,
+      tx: executor,
+    },
+  );
+
+  await executor
+    .update(journalEntries)
+    .set({ status: "reversed", updatedAt: new Date() })
+    .where(eq(journalEntries.id, entry.id));
+
+  return reversal;
+}
+
+export async function approveJournalEntry(
+  journalEntryId: string,
+  options: { userId: string; clientId?: string | null; tx?: any },
+): Promise<JournalEntry> {
+  const executor = options.tx || db;
+  const clientId = resolveClientId(options.clientId);
+  const entry = await findJournalEntry(journalEntryId, clientId, executor);
+
+  if (entry.status !== "draft") throw new Error(`Jurnal ${entry.journalNumber} bukan draft`);
+  if (entry.userId === options.userId) throw new Error("Jurnal tidak dapat disetujui oleh pembuatnya");
+
+  await assertPeriodAcceptsPosting(entry.date, clientId, false, executor);
+
+  const [approved] = await executor
+    .update(journalEntries)
+    .set({ status: "posted", approvedBy: options.userId, approvedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(journalEntries.id, entry.id), eq(journalEntries.status, "draft")))
+    .returning();
+  // Another reviewer may have approved or rejected it since it was read
+  if (!approved) throw new Error(`Jurnal ${entry.journalNumber} bukan draft`);
+  return approved;
+}
+
+export async function rejectJournalEntry(
+  journalEntryId: string,
+  options: { reason: string; clientId?: string | null; tx?: any },
+): Promise<JournalEntry> {
+  const executor = options.tx || db;
+  const entry = await findJournalEntry(journalEntryId, resolveClientId(options.clientId), executor);
+
+  if (entry.status !== "draft") throw new Error(`Jurnal ${entry.journalNumber} bukan draft`);
+
+  const [rejected] = await executor
+    .update(journalEntries)
+    .set({ status: "rejected", rejectionReason: options.reason, updatedAt: new Date() })
+    .where(and(eq(journalEntries.id, entry.id), eq(journalEntries.status, "draft")))
+    .returning();
+  if (!rejected) throw new Error(`Jurnal ${entry.journalNumber} bukan draft`);
+  return rejected;
+}
+
+// Backs out everything booked against a source document: posted journals get a mirror entry and
+// cash-book records an offsetting record, so the history stays in place instead of being deleted
+export async function reverseReferenceFinancials(
+  data: {
+    reference: string;
+    reason: string;
+    userId: string;
+    // Limit the reversal to these reference types; everything for the reference when omitted
+    journalReferenceTypes?: string[];
+    recordReferenceTypes?: string[];
+    clientId?: string | null;
+  },
+  tx?: any,
+): Promise<{ journals: number; records: number }> {
+  if (!tx) {
+    return db.transaction((trx) => reverseReferenceFinancials(data, trx));
+  }
+
+  const clientId = resolveClientId(data.clientId);
+  const journalConditions: SQL[] = [
+    eq(journalEntries.reference, data.reference),
+    eq(journalEntries.status, "posted"),
+    isNull(journalEntries.reversalOfId),
+  ];
+  if (clientId) journalConditions.push(eq(journalEntries.clientId, clientId));
+  if (data.journalReferenceTypes?.length) journalConditions.push(inArray(journalEntries.referenceType, data.journalReferenceTypes));
+
+  const journals = await tx.select({ id: journalEntries.id }).from(journalEntries).where(and(...journalConditions));
+  for (const journal of journals) {
+    await reverseJournalEntry(journal.id, { reason: data.reason, userId: data.userId, clientId, tx });
+  }
+
+  const recordConditions: SQL[] = [eq(financialRecords.reference, data.reference), eq(financialRecords.status, "confirmed")];
+  if (clientId) recordConditions.push(eq(financialRecords.clientId, clientId));
+  if (data.recordReferenceTypes?.length) recordConditions.push(inArray(financialRecords.referenceType, data.recordReferenceTypes));
+
+  const records: FinancialRecord[] = await tx.select().from(financialRecords).where(and(...recordConditions));
+  const alreadyReversed = new Set(records.map((record) => record.reversalOfId).filter(Boolean));
+  const open = records.filter((record) => !record.reversalOfId && !alreadyReversed.has(record.id));
+
+  for (const record of open) {
+    await recordFinancialEvent(
+      {
+        type: record.type,
+        category: record.category,
+        subcategory: record.subcategory,
+        amount: (-Number(record.amount || 0)).toFixed(2),
+        description: `Pembalikan: ${record.description} (${data.reason})`,
+        reference: record.reference,
+        referenceType: record.referenceType,
+        accountId: record.accountId,
+        paymentMethod: record.paymentMethod,
+        reversalOfId: record.id,
+        userId: data.userId,
+        clientId,
+      },
+      tx,
+    );
+  }
+
+  return { journals: journals.length, records: open.length };
+}
+
 export async function recordFinancialEvent(record: Omit<InsertFinancialRecord, "id">, tx?: any): Promise<FinancialRecord> {
   const clientId = resolveClientId(record.clientId);
   const payload: InsertFinancialRecord = {
@@ -185,10 +442,54 @@ export async function recordFinancialEvent(record: Omit<InsertFinancialRecord, "
   return row as FinancialRecord;
 }
 
+// PPN rate configured for the store, in percent
+export async function getStoreTaxRate(clientId?: string | null, tx?: any) {
+  const executor = tx || db;
+  const resolvedClientId = resolveClientId(clientId);
+  const [config] = await executor
+    .select({ taxRate: storeConfig.taxRate })
+    .from(storeConfig)
+    .where(resolvedClientId ? eq(storeConfig.clientId, resolvedClientId) : undefined)
+    .limit(1);
+  return resolveTaxRate(config?.taxRate);
+}
+
+// Rate plus whether service prices already contain PPN
+export async function getServiceTaxSettings(clientId?: string | null, tx?: any) {
+  const executor = tx || db;
+  const resolvedClientId = resolveClientId(clientId);
+  const [config] = await executor
+    .select({ taxRate: storeConfig.taxRate, serviceTaxInclusive: storeConfig.serviceTaxInclusive })
+    .from(storeConfig)
+    .where(resolvedClientId ? eq(storeConfig.clientId, resolvedClientId) : undefined)
+    .limit(1);
+  return { taxRate: resolveTaxRate(config?.taxRate), inclusive: config?.serviceTaxInclusive ?? true };
+}
+
+// Spreads the recognised revenue over the payment lines in proportion to what each line paid
+function allocateRevenueToPayments(revenue: number, payments: Array<{ paymentMethod: string; amount: number }>) {
+  const paid = payments.reduce((total, payment) => total + Number(payment.amount || 0), 0);
+  if (payments.length === 1 || paid <= 0) {
+    return [{ paymentMethod: payments[0]?.paymentMethod || "cash", amount: revenue }];
+  }
+
+  let allocated = 0;
+  return payments.map((payment, index) => {
+    const amount = index === payments.length - 1
+      ? Number((revenue - allocated).toFixed(2))
+      : Number(((revenue * Number(payment.amount || 0)) / paid).toFixed(2));
+    allocated += amount;
+    return { paymentMethod: payment.paymentMethod, amount };
+  });
+}
+
 export async function processPOSTransaction(
   data: {
     transaction: any;
-    items: Array<{ productId: string; quantity: number; totalPrice: number }>;
+    // cost: HPP already resolved from the batches consumed; falls back to the product's average cost
+    items: Array<{ productId: string; quantity: number; totalPrice: number; cost?: number }>;
+    // Split payments: each line settles its share of the sale into its own account
+    payments?: Array<{ paymentMethod: string; amount: number }>;
   },
   tx?: any,
 ) {
@@ -205,27 +506,48 @@ export async function processPOSTransaction(
     rows.forEach((row) => productsById.set(row.id, row));
   }
 
-  let revenue = 0;
+  let itemsTotal = 0;
   let cogs = 0;
 
   for (const item of data.items) {
     const net = Number(item.totalPrice || 0);
-    revenue += net;
+    itemsTotal += net;
+    if (typeof item.cost === "number" && Number.isFinite(item.cost)) {
+      cogs += item.cost;
+      continue;
+    }
     const product = productsById.get(item.productId);
     const purchasePrice = Number(product?.purchasePrice || 0);
     cogs += Number(item.quantity) * purchasePrice;
   }
 
-  const settlementAccount = resolveSettlementAccount(data.transaction?.paymentMethod || "cash");
+  // The customer settles the final total (after the order discount, with PPN); revenue is that total net of PPN
+  const outputTax = Number(data.transaction?.taxAmount || 0);
+  const total = data.transaction?.total != null ? Number(data.transaction.total) : itemsTotal + outputTax;
+  const revenue = Number((total - outputTax).toFixed(2));
+
+  const settlements = allocateRevenueToPayments(
+    total,
+    data.payments?.length
+      ? data.payments
+      : [{ paymentMethod: data.transaction?.paymentMethod || "cash", amount: total }],
+  );
+
+  const lines: JournalLineInput[] = [
+    ...settlements.map((settlement) => ({
+      accountCode: resolveSettlementAccount(settlement.paymentMethod),
+      debitAmount: settlement.amount,
+      description: settlements.length > 1 ? `Pembayaran ${settlement.paymentMethod}` : undefined,
+    })),
+    { accountCode: ACCOUNT_CODES.SALES_REVENUE, creditAmount: revenue },
+    ...(outputTax > 0 ? [{ accountCode: ACCOUNT_CODES.OUTPUT_TAX, creditAmount: outputTax, description: "PPN Keluaran" }] : []),
+    { accountCode: ACCOUNT_CODES.COGS, debitAmount: cogs },
+    { accountCode: ACCOUNT_CODES.INVENTORY, creditAmount: cogs },
+  ];
 
   await createJournalEntry(
     "pos_sale",
-    [
-      { accountCode: settlementAccount, debitAmount: revenue },
-      { accountCode: ACCOUNT_CODES.SALES_REVENUE, creditAmount: revenue },
-      { accountCode: ACCOUNT_CODES.COGS, debitAmount: cogs },
-      { accountCode: ACCOUNT_CODES.INVENTORY, creditAmount: cogs },
-    ],
+    lines,
     {
       description: `POS ${data.transaction?.transactionNumber || data.transaction?.id}`,
       reference: data.transaction?.id,
@@ -236,20 +558,24 @@ export async function processPOSTransaction(
     },
   );
 
-  await recordFinancialEvent(
-    {
-      type: "income",
-      category: FINANCIAL_CATEGORIES.SALES_REVENUE,
-      amount: revenue.toFixed(2),
-      description: `POS ${data.transaction?.transactionNumber || ""}`.trim(),
-      reference: data.transaction?.id,
-      referenceType: "pos_sale",
-      paymentMethod: data.transaction?.paymentMethod || "cash",
-      userId: data.transaction?.userId || null,
-      clientId,
-    },
-    executor,
-  );
+  // PPN collected is owed to the state, so income follows each payment's share of the revenue only
+  const incomeShares = outputTax > 0 ? allocateRevenueToPayments(revenue, settlements) : settlements;
+  for (const settlement of incomeShares) {
+    await recordFinancialEvent(
+      {
+        type: "income",
+        category: FINANCIAL_CATEGORIES.SALES_REVENUE,
+        amount: settlement.amount.toFixed(2),
+        description: `POS ${data.transaction?.transactionNumber || ""}`.trim(),
+        reference: data.transaction?.id,
+        referenceType: "pos_sale",
+        paymentMethod: settlement.paymentMethod,
+        userId: data.transaction?.userId || null,
+        clientId,
+      },
+      executor,
+    );
+  }
 
   await recordFinancialEvent(
     {
@@ -267,7 +593,139 @@ export async function processPOSTransaction(
     executor,
   );
 
-  return { revenue, cogs };
+  return { revenue, cogs, outputTax };
+}
+
+export async function processPOSReturn(
+  data: {
+    returnTransaction: any;
+    returnedRevenue: number;
+    restockedCost: number;
+    damagedCost: number;
+    exchangeRevenue?: number;
+    exchangeCost?: number;
+    // PPN handed back on the returned goods and charged on the exchange goods; revenues above exclude it
+    returnedTax?: number;
+    exchangeTax?: number;
+    // Part of the refund credited to the customer's open installment balance instead of paid out
+    receivableCredit?: number;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.returnTransaction?.clientId);
+  const returnedRevenue = Number(data.returnedRevenue || 0);
+  const exchangeRevenue = Number(data.exchangeRevenue || 0);
+  const restockedCost = Number(data.restockedCost || 0);
+  const damagedCost = Number(data.damagedCost || 0);
+  const exchangeCost = Number(data.exchangeCost || 0);
+  const returnedTax = Number(data.returnedTax || 0);
+  const exchangeTax = Number(data.exchangeTax || 0);
+  const netRefund = Number((returnedRevenue + returnedTax - exchangeRevenue - exchangeTax).toFixed(2));
+  const receivableCredit = Math.min(Math.max(Number(data.receivableCredit || 0), 0), Math.max(netRefund, 0));
+
+  // Installment sales are refunded in cash once the receivable is cleared
+  let settlementAccount = resolveSettlementAccount(data.returnTransaction?.paymentMethod || "cash");
+  if (settlementAccount === ACCOUNT_CODES.ACCOUNTS_RECEIVABLE) {
+    settlementAccount = ACCOUNT_CODES.CASH;
+  }
+
+  const lines: JournalLineInput[] = [
+    { accountCode: ACCOUNT_CODES.SALES_REVENUE, debitAmount: returnedRevenue, description: "Retur penjualan" },
+    { accountCode: ACCOUNT_CODES.OUTPUT_TAX, debitAmount: returnedTax, description: "PPN Keluaran retur" },
+    { accountCode: ACCOUNT_CODES.SALES_REVENUE, creditAmount: exchangeRevenue, description: "Penjualan barang tukar" },
+    { accountCode: ACCOUNT_CODES.OUTPUT_TAX, creditAmount: exchangeTax, description: "PPN Keluaran barang tukar" },
+    { accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, creditAmount: receivableCredit, description: "Pengurangan piutang cicilan" },
+    netRefund > 0
+      ? { accountCode: settlementAccount, creditAmount: netRefund - receivableCredit, description: "Pengembalian dana" }
+      : { accountCode: settlementAccount, debitAmount: -netRefund, description: "Kekurangan bayar tukar barang" },
+    { accountCode: ACCOUNT_CODES.INVENTORY, debitAmount: restockedCost, description: "Barang retur masuk persediaan" },
+    { accountCode: ACCOUNT_CODES.DAMAGED_GOODS_LOSS, debitAmount: damagedCost, description: "Barang retur rusak" },
+    { accountCode: ACCOUNT_CODES.COGS, creditAmount: restockedCost + damagedCost, description: "Pembalikan HPP retur" },
+    { accountCode: ACCOUNT_CODES.COGS, debitAmount: exchangeCost, description: "HPP barang tukar" },
+    { accountCode: ACCOUNT_CODES.INVENTORY, creditAmount: exchangeCost, description: "Barang tukar keluar persediaan" },
+  ].filter((line) => Number(line.debitAmount || 0) > 0 || Number(line.creditAmount || 0) > 0);
+
+  const journal = await createJournalEntry("pos_return", lines, {
+    description: `Retur POS ${data.returnTransaction?.transactionNumber || data.returnTransaction?.id}`,
+    reference: data.returnTransaction?.id,
+    referenceType: "pos_return",
+    userId: data.returnTransaction?.userId || null,
+    clientId,
+    tx: executor,
+  });
+
+  if (returnedRevenue > 0) {
+    await recordFinancialEvent(
+      {
+        type: "expense",
+        category: FINANCIAL_CATEGORIES.SALES_RETURN,
+        amount: returnedRevenue.toFixed(2),
+        description: `Retur POS ${data.returnTransaction?.transactionNumber || ""}`.trim(),
+        reference: data.returnTransaction?.id,
+        referenceType: "pos_return",
+        paymentMethod: data.returnTransaction?.paymentMethod || "cash",
+        userId: data.returnTransaction?.userId || null,
+        clientId,
+      },
+      executor,
+    );
+  }
+
+  if (exchangeRevenue > 0) {
+    await recordFinancialEvent(
+      {
+        type: "income",
+        category: FINANCIAL_CATEGORIES.SALES_REVENUE,
+        amount: exchangeRevenue.toFixed(2),
+        description: `Tukar barang ${data.returnTransaction?.transactionNumber || ""}`.trim(),
+        reference: data.returnTransaction?.id,
+        referenceType: "pos_sale",
+        paymentMethod: data.returnTransaction?.paymentMethod || "cash",
+        userId: data.returnTransaction?.userId || null,
+        clientId,
+      },
+      executor,
+    );
+  }
+
+  // Net change in cost of sales: exchange goods issued less the returned goods' cost taken back
+  const cogsAdjustment = exchangeCost - restockedCost - damagedCost;
+  if (cogsAdjustment !== 0) {
+    await recordFinancialEvent(
+      {
+        type: "expense",
+        category: FINANCIAL_CATEGORIES.COGS,
+        amount: cogsAdjustment.toFixed(2),
+        description: `Koreksi HPP retur ${data.returnTransaction?.transactionNumber || ""}`.trim(),
+        reference: data.returnTransaction?.id,
+        referenceType: "pos_cogs",
+        paymentMethod: "inventory",
+        userId: data.returnTransaction?.userId || null,
+        clientId,
+      },
+      executor,
+    );
+  }
+
+  if (damagedCost > 0) {
+    await recordFinancialEvent(
+      {
+        type: "expense",
+        category: "Kerugian Barang Rusak",
+        amount: damagedCost.toFixed(2),
+        description: `Barang retur rusak ${data.returnTransaction?.transactionNumber || ""}`.trim(),
+        reference: data.returnTransaction?.id,
+        referenceType: "pos_return_damaged",
+        paymentMethod: "inventory",
+        userId: data.returnTransaction?.userId || null,
+        clientId,
+      },
+      executor,
+    );
+  }
+
+  return { journal, netRefund };
 }
 
 export async function processServiceTransaction(
@@ -276,6 +734,8 @@ export async function processServiceTransaction(
     parts?: Array<{ productId: string; quantity: number; totalPrice?: number }>;
     partsCost?: number;
     partsRevenue?: number;
+    // Part of partsRevenue from PPN-exempt products
+    exemptPartsRevenue?: number;
     userId?: string | null;
   },
   tx?: any,
@@ -284,35 +744,51 @@ export async function processServiceTransaction(
   const clientId = resolveClientId(data.ticket?.clientId);
   let partsRevenue = Number(data.partsRevenue || 0);
   let partsCost = Number(data.partsCost || 0);
+  let exemptPartsRevenue = Number(data.exemptPartsRevenue || 0);
 
   if (data.parts && data.parts.length > 0) {
     const ids = [...new Set(data.parts.map((p) => p.productId))];
     const productsById = await executor
-      .select({ id: products.id, purchasePrice: products.averageCost ?? products.lastPurchasePrice })
+      .select({ id: products.id, purchasePrice: products.averageCost ?? products.lastPurchasePrice, taxExempt: products.taxExempt })
       .from(products)
       .where(clientId ? and(eq(products.clientId, clientId), inArray(products.id, ids)) : inArray(products.id, ids));
-    const map = new Map(productsById.map((p) => [p.id, p]));
+    const map = new Map<string, any>(productsById.map((p: any) => [p.id, p]));
 
     partsRevenue = 0;
     partsCost = 0;
+    exemptPartsRevenue = 0;
     for (const part of data.parts) {
       const item = map.get(part.productId);
       const cost = Number(item?.purchasePrice || 0);
       partsRevenue += Number(part.totalPrice || 0);
       partsCost += Number(part.quantity) * cost;
+      if (item?.taxExempt) exemptPartsRevenue += Number(part.totalPrice || 0);
     }
   }
 
-  const laborRevenue = Number(data.ticket?.laborCost || 0);
-  const totalRevenue = laborRevenue + partsRevenue;
   const settlementAccount = resolveSettlementAccount((data.ticket as any)?.paymentMethod || "cash");
 
+  // PPN is carved out of the labor and taxable parts or added on top, per the store's service price mode.
+  // A ticket booked before keeps the mode its customer was charged under.
+  const settings = await getServiceTaxSettings(clientId, executor);
+  const serviceTax = calculateServiceTax({
+    laborCost: Number(data.ticket?.laborCost || 0),
+    partsRevenue,
+    exemptPartsRevenue,
+    ratePercent: settings.taxRate,
+    inclusive: data.ticket?.taxInclusive ?? settings.inclusive,
+  });
+  const outputTax = serviceTax.taxAmount;
+  const laborRevenue = serviceTax.laborRevenue;
+  partsRevenue = serviceTax.partsRevenue;
+
   await createJournalEntry(
     "service_revenue",
     [
-      { accountCode: settlementAccount, debitAmount: totalRevenue },
+      { accountCode: settlementAccount, debitAmount: serviceTax.total },
       { accountCode: ACCOUNT_CODES.SERVICE_REVENUE, creditAmount: laborRevenue },
       { accountCode: ACCOUNT_CODES.SALES_REVENUE, creditAmount: partsRevenue },
+      ...(outputTax > 0 ? [{ accountCode: ACCOUNT_CODES.OUTPUT_TAX, creditAmount: outputTax, description: "PPN Keluaran" }] : []),
       { accountCode: ACCOUNT_CODES.COGS, debitAmount: partsCost },
       { accountCode: ACCOUNT_CODES.INVENTORY, creditAmount: partsCost },
     ],
@@ -376,7 +852,14 @@ export async function processServiceTransaction(
     );
   }
 
-  return { revenue: totalRevenue, cogs: partsCost };
+  return {
+    revenue: laborRevenue + partsRevenue,
+    cogs: partsCost,
+    outputTax,
+    taxableAmount: serviceTax.taxableAmount,
+    taxInclusive: serviceTax.inclusive,
+    total: serviceTax.total,
+  };
 }
 
 export async function recordInventoryPurchase(
@@ -384,6 +867,8 @@ export async function recordInventoryPurchase(
     purchaseId: string;
     supplier?: string | null;
     totalCost: number;
+    // PPN Masukan charged by the supplier on top of totalCost
+    inputTax?: number;
     paymentMethod?: SettlementMethod;
     userId?: string | null;
     clientId?: string | null;
@@ -394,6 +879,7 @@ export async function recordInventoryPurchase(
   const clientId = resolveClientId(data.clientId);
   const settlementAccount = resolveSettlementAccount(data.paymentMethod || "cash");
   const amount = Number(data.totalCost || 0);
+  const inputTax = Math.max(Number(data.inputTax || 0), 0);
 
   if (amount <= 0) return null;
 
@@ -401,7 +887,8 @@ export async function recordInventoryPurchase(
     "inventory_purchase",
     [
       { accountCode: ACCOUNT_CODES.INVENTORY, debitAmount: amount },
-      { accountCode: settlementAccount, creditAmount: amount },
+      ...(inputTax > 0 ? [{ accountCode: ACCOUNT_CODES.INPUT_TAX, debitAmount: inputTax, description: "PPN Masukan" }] : []),
+      { accountCode: settlementAccount, creditAmount: amount + inputTax },
     ],
     {
       description: data.supplier
@@ -432,7 +919,249 @@ export async function recordInventoryPurchase(
     executor,
   );
 
-  return { amount };
+  return { amount, inputTax };
+}
+
+export async function recordReceivablePayment(
+  data: {
+    reference: string;
+    amount: number;
+    paymentMethod?: SettlementMethod;
+    description: string;
+    userId?: string | null;
+    clientId?: string | null;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const amount = Number(data.amount || 0);
+
+  if (amount <= 0) return null;
+
+  // Collections settle into cash/bank; never back into receivables
+  let settlementAccount = resolveSettlementAccount(data.paymentMethod || "cash");
+  if (settlementAccount === ACCOUNT_CODES.ACCOUNTS_RECEIVABLE) {
+    settlementAccount = ACCOUNT_CODES.CASH;
+  }
+
+  // Revenue was recognised at sale time, so only the journal is posted here
+  return createJournalEntry(
+    "receivable_payment",
+    [
+      { accountCode: settlementAccount, debitAmount: amount },
+      { accountCode: ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, creditAmount: amount },
+    ],
+    {
+      description: data.description,
+      reference: data.reference,
+      referenceType: "receivable_payment",
+      userId: data.userId || null,
+      clientId,
+      tx: executor,
+    },
+  );
+}
+
+export async function recordSupplierPayment(
+  data: {
+    reference: string;
+    amount: number;
+    paymentMethod?: SettlementMethod;
+    description: string;
+    userId?: string | null;
+    clientId?: string | null;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const amount = Number(data.amount || 0);
+
+  if (amount <= 0) return null;
+
+  let settlementAccount = resolveSettlementAccount(data.paymentMethod || "cash");
+  if (settlementAccount === ACCOUNT_CODES.ACCOUNTS_PAYABLE || settlementAccount === ACCOUNT_CODES.ACCOUNTS_RECEIVABLE) {
+    settlementAccount = ACCOUNT_CODES.CASH;
+  }
+
+  // Inventory was capitalised on receipt, so paying the bill only clears the payable
+  return createJournalEntry(
+    "supplier_payment",
+    [
+      { accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE, debitAmount: amount },
+      { accountCode: settlementAccount, creditAmount: amount },
+    ],
+    {
+      description: data.description,
+      reference: data.reference,
+      referenceType: "supplier_payment",
+      userId: data.userId || null,
+      clientId,
+      tx: executor,
+    },
+  );
+}
+
+export async function recordSupplierRmaRecovery(
+  data: {
+    reference: string;
+    amount: number;
+    // credit: supplier issued a credit note; restock: repaired or replacement units came back into stock
+    recovery: "credit" | "restock";
+    description: string;
+    userId: string;
+    clientId?: string | null;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const amount = Number(data.amount || 0);
+
+  if (amount <= 0) return null;
+
+  // The units were written off to Kerugian Barang Rusak when they came back damaged, so the recovery reverses that loss
+  const journal = await createJournalEntry(
+    "supplier_rma",
+    [
+      data.recovery === "credit"
+        ? { accountCode: ACCOUNT_CODES.ACCOUNTS_PAYABLE, debitAmount: amount, description: "Nota kredit supplier" }
+        : { accountCode: ACCOUNT_CODES.INVENTORY, debitAmount: amount, description: "Barang RMA masuk persediaan" },
+      { accountCode: ACCOUNT_CODES.DAMAGED_GOODS_LOSS, creditAmount: amount, description: "Pemulihan barang rusak" },
+    ],
+    {
+      description: data.description,
+      reference: data.reference,
+      referenceType: "supplier_rma",
+      userId: data.userId,
+      clientId,
+      tx: executor,
+    },
+  );
+
+  await recordFinancialEvent(
+    {
+      type: "expense",
+      category: "Kerugian Barang Rusak",
+      amount: (-amount).toFixed(2),
+      description: data.description,
+      reference: data.reference,
+      referenceType: "supplier_rma",
+      paymentMethod: data.recovery === "credit" ? "accounts_payable" : "inventory",
+      userId: data.userId,
+      clientId,
+    },
+    executor,
+  );
+
+  return journal;
+}
+
+export async function recordPettyCashExpense(
+  data: {
+    reference: string;
+    amount: number;
+    description: string;
+    userId: string;
+    clientId?: string | null;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const amount = Number(data.amount || 0);
+
+  if (amount <= 0) return null;
+
+  // Petty cash is paid straight out of the drawer
+  const journal = await createJournalEntry(
+    "petty_cash",
+    [
+      { accountCode: ACCOUNT_CODES.OTHER_EXPENSE, debitAmount: amount },
+      { accountCode: ACCOUNT_CODES.CASH, creditAmount: amount },
+    ],
+    {
+      description: data.description,
+      reference: data.reference,
+      referenceType: "petty_cash",
+      userId: data.userId,
+      clientId,
+      tx: executor,
+    },
+  );
+
+  await recordFinancialEvent(
+    {
+      type: "expense",
+      category: FINANCIAL_CATEGORIES.EXPENSE,
+      amount: amount.toFixed(2),
+      description: data.description,
+      reference: data.reference,
+      referenceType: "petty_cash",
+      paymentMethod: "cash",
+      userId: data.userId,
+      clientId,
+    },
+    executor,
+  );
+
+  return journal;
+}
+
+export async function recordCashOverShort(
+  data: {
+    reference: string;
+    // Counted minus expected drawer cash: positive is an overage, negative a shortage
+    difference: number;
+    description: string;
+    userId: string;
+    clientId?: string | null;
+  },
+  tx?: any,
+) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const difference = Number(data.difference || 0);
+  const amount = Math.abs(difference);
+
+  if (amount < 0.005) return null;
+
+  const lines: JournalLineInput[] = difference > 0
+    ? [
+        { accountCode: ACCOUNT_CODES.CASH, debitAmount: amount, description: "Kelebihan kas" },
+        { accountCode: ACCOUNT_CODES.OTHER_REVENUE, creditAmount: amount, description: "Kelebihan kas" },
+      ]
+    : [
+        { accountCode: ACCOUNT_CODES.OTHER_EXPENSE, debitAmount: amount, description: "Kekurangan kas" },
+        { accountCode: ACCOUNT_CODES.CASH, creditAmount: amount, description: "Kekurangan kas" },
+      ];
+
+  const journal = await createJournalEntry("cash_over_short", lines, {
+    description: data.description,
+    reference: data.reference,
+    referenceType: "cash_over_short",
+    userId: data.userId,
+    clientId,
+    tx: executor,
+  });
+
+  await recordFinancialEvent(
+    {
+      type: difference > 0 ? "income" : "expense",
+      category: difference > 0 ? "Kelebihan Kas" : "Kekurangan Kas",
+      amount: amount.toFixed(2),
+      description: data.description,
+      reference: data.reference,
+      referenceType: "cash_over_short",
+      paymentMethod: "cash",
+      userId: data.userId,
+      clientId,
+    },
+    executor,
+  );
+
+  return journal;
 }
 
 export async function getFinancialSummary(startDate: Date, endDate: Date, tx?: any) {
@@ -459,4 +1188,443 @@ export async function getFinancialSummary(startDate: Date, endDate: Date, tx?: a
   );
 }
 
+export type AccountBalance = {
+  accountId: string;
+  code: string;
+  name: string;
+  type: string;
+  normalBalance: string;
+  debit: number;
+  credit: number;
+  // Signed on the account's normal side
+  balance: number;
+};
+
+export async function getAccountBalances(
+  filters: {
+    startDate?: Date;
+    endDate?: Date;
+    accountCodes?: string[];
+    excludeReferenceTypes?: string[];
+    clientId?: string | null;
+  } = {},
+  tx?: any,
+): Promise<AccountBalance[]> {
+  const executor = tx || db;
+  const clientId = resolveClientId(filters.clientId);
+  const conditions: SQL[] = [inArray(journalEntries.status, LEDGER_JOURNAL_STATUSES)];
+  if (clientId) conditions.push(eq(journalEntries.clientId, clientId));
+  if (filters.startDate) conditions.push(gte(journalEntries.date, filters.startDate));
+  if (filters.endDate) conditions.push(lte(journalEntries.date, filters.endDate));
+  if (filters.accountCodes?.length) conditions.push(inArray(accounts.code, filters.accountCodes));
+  if (filters.excludeReferenceTypes?.length) {
+    conditions.push(or(isNull(journalEntries.referenceType), notInArray(journalEntries.referenceType, filters.excludeReferenceTypes))!);
+  }
+
+  const rows = await executor
+    .select({
+      accountId: accounts.id,
+      code: accounts.code,
+      name: accounts.name,
+      type: accounts.type,
+      normalBalance: accounts.normalBalance,
+      debit: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount}), 0)`,
+      credit: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .innerJoin(accounts, eq(journalEntryLines.accountId, accounts.id))
+    .where(and(...conditions))
+    .groupBy(accounts.id, accounts.code, accounts.name, accounts.type, accounts.normalBalance)
+    .orderBy(accounts.code);
+
+  return rows.map((row: any) => {
+    const debit = Number(row.debit || 0);
+    const credit = Number(row.credit || 0);
+    const balance = row.normalBalance === "credit" ? credit - debit : debit - credit;
+    return { ...row, debit, credit, balance: Number(balance.toFixed(2)) };
+  });
+}
+
+const sumBalances = (rows: AccountBalance[]) => Number(rows.reduce((total, row) => total + row.balance, 0).toFixed(2));
+
+export async function getBalanceSheet(asOfDate?: Date, tx?: any) {
+  const asOf = asOfDate || new Date();
+  const balances = (await getAccountBalances({ endDate: asOf }, tx)).filter((row) => row.balance !== 0);
+  const byType = (type: string) => balances.filter((row) => row.type === type);
+
+  const assets = byType("asset");
+  const liabilities = byType("liability");
+  const equity = byType("equity");
+  // Revenue and expense not yet closed into 3200 belong to the current year's earnings
+  const currentEarnings = Number((sumBalances(byType("revenue")) - sumBalances(byType("expense"))).toFixed(2));
+
+  const totalAssets = sumBalances(assets);
+  const totalLiabilities = sumBalances(liabilities);
+  const totalEquity = Number((sumBalances(equity) + currentEarnings).toFixed(2));
+
+  return {
+    asOfDate: asOf.toISOString(),
+    assets,
+    liabilities,
+    equity,
+    currentEarnings,
+    totalAssets,
+    totalLiabilities,
+    totalEquity,
+    isBalanced: Math.abs(totalAssets - totalLiabilities - totalEquity) < 0.01,
+  };
+}
+
+export async function getIncomeStatement(startDate?: Date, endDate?: Date, tx?: any) {
+  const end = endDate || new Date();
+  const start = startDate || startOfFiscalYear(end);
+  const balances = await getAccountBalances(
+    { startDate: start, endDate: end, excludeReferenceTypes: [YEAR_END_CLOSE_REFERENCE_TYPE] },
+    tx,
+  );
+
+  const revenue = balances.filter((row) => row.type === "revenue" && row.balance !== 0);
+  const expenses = balances.filter((row) => row.type === "expense" && row.balance !== 0);
+  const totalRevenue = sumBalances(revenue);
+  const totalExpenses = sumBalances(expenses);
+
+  return {
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    revenue,
+    expenses,
+    totalRevenue,
+    totalExpenses,
+    netIncome: Number((totalRevenue - totalExpenses).toFixed(2)),
+  };
+}
+
+export async function getGeneralLedger(filters: { accountCode: string; startDate?: Date; endDate?: Date }, tx?: any) {
+  const executor = tx || db;
+  const clientId = resolveClientId();
+  const account = (await findAccountsByCode([filters.accountCode], clientId, executor)).get(filters.accountCode);
+  if (!account) throw new Error(`Akun ${filters.accountCode} tidak ditemukan`);
+
+  const end = filters.endDate || new Date();
+  const start = filters.startDate || startOfFiscalYear(end);
+  const [opening] = await getAccountBalances(
+    { endDate: new Date(start.getTime() - 1), accountCodes: [account.code], clientId },
+    executor,
+  );
+  const openingBalance = opening?.balance ?? 0;
+
+  const conditions: SQL[] = [
+    eq(journalEntryLines.accountId, account.id),
+    inArray(journalEntries.status, LEDGER_JOURNAL_STATUSES),
+    gte(journalEntries.date, start),
+    lte(journalEntries.date, end),
+  ];
+  if (clientId) conditions.push(eq(journalEntries.clientId, clientId));
+
+  const rows = await executor
+    .select({
+      id: journalEntryLines.id,
+      journalEntryId: journalEntries.id,
+      journalNumber: journalEntries.journalNumber,
+      date: journalEntries.date,
+      description: journalEntryLines.description,
+      reference: journalEntries.reference,
+      referenceType: journalEntries.referenceType,
+      debitAmount: journalEntryLines.debitAmount,
+      creditAmount: journalEntryLines.creditAmount,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .where(and(...conditions))
+    .orderBy(journalEntries.date, journalEntries.journalNumber);
+
+  const sign = account.normalBalance === "credit" ? -1 : 1;
+  let running = openingBalance;
+  let totalDebit = 0;
+  let totalCredit = 0;
+
+  const lines = rows.map(({ debitAmount, creditAmount, ...row }: any) => {
+    const debit = Number(debitAmount || 0);
+    const credit = Number(creditAmount || 0);
+    totalDebit += debit;
+    totalCredit += credit;
+    running += sign * (debit - credit);
+    return {
+      ...row,
+      debit,
+      credit,
+      balance: Number(running.toFixed(2)),
+      sourceKind: (row.reference && JOURNAL_SOURCE_KINDS[row.referenceType]) || null,
+    };
+  });
+
+  return {
+    account: { code: account.code, name: account.name, type: account.type, normalBalance: account.normalBalance },
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    openingBalance,
+    totalDebit: Number(totalDebit.toFixed(2)),
+    totalCredit: Number(totalCredit.toFixed(2)),
+    closingBalance: Number(running.toFixed(2)),
+    lines,
+  };
+}
+
+// PPN Keluaran is posted by sales, returns and service tickets; PPN Masukan by received purchase orders
+const PPN_OUTPUT_REFERENCE_TYPES = ["pos_sale", "pos_return", "service_ticket"];
+const PPN_INPUT_REFERENCE_TYPES = ["inventory_purchase"];
+
+export type PpnLedgerDocument = {
+  referenceType: string;
+  reference: string;
+  date: string;
+  taxAmount: number;
+};
+
+// Net PPN per source document in a tax period (masa pajak); reversals net out against their document
+export async function getPpnLedger(year: number, month: number, tx?: any) {
+  const executor = tx || db;
+  const clientId = resolveClientId();
+  const { start, end } = getFiscalPeriodRange(year, month);
+  const accountMap = await findAccountsByCode([ACCOUNT_CODES.OUTPUT_TAX, ACCOUNT_CODES.INPUT_TAX], clientId, executor);
+
+  const collect = async (accountCode: string, referenceTypes: string[], sign: number): Promise<PpnLedgerDocument[]> => {
+    const account = accountMap.get(accountCode);
+    if (!account) return [];
+
+    const conditions: SQL[] = [
+      eq(journalEntryLines.accountId, account.id),
+      inArray(journalEntries.status, LEDGER_JOURNAL_STATUSES),
+      inArray(journalEntries.referenceType, referenceTypes),
+      gte(journalEntries.date, start),
+      lte(journalEntries.date, end),
+    ];
+    if (clientId) conditions.push(eq(journalEntries.clientId, clientId));
+
+    const rows = await executor
+      .select({
+        referenceType: journalEntries.referenceType,
+        reference: journalEntries.reference,
+        date: sql<string>`MIN(${journalEntries.date})`,
+        amount: sql<string>`COALESCE(SUM(${journalEntryLines.creditAmount} - ${journalEntryLines.debitAmount}), 0)`,
+      })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+      .where(and(...conditions))
+      .groupBy(journalEntries.referenceType, journalEntries.reference)
+      .orderBy(sql`MIN(${journalEntries.date})`);
+
+    return rows
+      .map((row: any) => ({
+        referenceType: row.referenceType,
+        reference: row.reference,
+        date: new Date(row.date).toISOString(),
+        taxAmount: Number((sign * Number(row.amount || 0)).toFixed(2)),
+      }))
+      .filter((row: PpnLedgerDocument) => row.reference && row.taxAmount !== 0);
+  };
+
+  const output = await collect(ACCOUNT_CODES.OUTPUT_TAX, PPN_OUTPUT_REFERENCE_TYPES, 1);
+  const input = await collect(ACCOUNT_CODES.INPUT_TAX, PPN_INPUT_REFERENCE_TYPES, -1);
+  const outputTax = Number(output.reduce((total, row) => total + row.taxAmount, 0).toFixed(2));
+  const inputTax = Number(input.reduce((total, row) => total + row.taxAmount, 0).toFixed(2));
+
+  return {
+    year,
+    month,
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    outputTax,
+    inputTax,
+    // Positive: PPN kurang bayar to be paid; negative: lebih bayar carried to the next period
+    netPayable: Number((outputTax - inputTax).toFixed(2)),
+    output,
+    input,
+  };
+}
+
+export async function getTrialBalance(asOfDate?: Date, tx?: any) {
+  const asOf = asOfDate || new Date();
+  const balances = await getAccountBalances({ endDate: asOf }, tx);
+
+  const rows = balances
+    .filter((row) => row.debit !== 0 || row.credit !== 0)
+    .map((row) => {
+      const net = Number((row.debit - row.credit).toFixed(2));
+      return {
+        code: row.code,
+        name: row.name,
+        type: row.type,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      };
+    });
+
+  const totalDebit = Number(rows.reduce((total, row) => total + row.debit, 0).toFixed(2));
+  const totalCredit = Number(rows.reduce((total, row) => total + row.credit, 0).toFixed(2));
+  const difference = Number((totalDebit - totalCredit).toFixed(2));
+
+  return {
+    asOfDate: asOf.toISOString(),
+    rows,
+    totalDebit,
+    totalCredit,
+    difference,
+    isBalanced: Math.abs(difference) < 0.01,
+  };
+}
+
+export type BankBookLine = {
+  id: string;
+  journalEntryId: string;
+  journalNumber: string;
+  date: Date;
+  description: string;
+  referenceType: string | null;
+  amount: number; // debit minus credit on the bank account, signed like a statement line
+  matchedAmount: number;
+  remaining: number;
+};
+
+// Bank-account journal lines with how much of each is already cleared by statement lines
+export async function getBankBookLines(
+  filters: {
+    accountCode: string;
+    startDate?: Date;
+    endDate?: Date;
+    lineIds?: string[];
+    journalEntryId?: string;
+    clientId?: string | null;
+  },
+  tx?: any,
+): Promise<BankBookLine[]> {
+  const executor = tx || db;
+  const clientId = resolveClientId(filters.clientId);
+  const conditions: SQL[] = [eq(accounts.code, filters.accountCode), inArray(journalEntries.status, LEDGER_JOURNAL_STATUSES)];
+  if (clientId) conditions.push(eq(journalEntries.clientId, clientId));
+  if (filters.startDate) conditions.push(gte(journalEntries.date, filters.startDate));
+  if (filters.endDate) conditions.push(lte(journalEntries.date, filters.endDate));
+  if (filters.journalEntryId) conditions.push(eq(journalEntries.id, filters.journalEntryId));
+  if (filters.lineIds) {
+    if (!filters.lineIds.length) return [];
+    conditions.push(inArray(journalEntryLines.id, filters.lineIds));
+  }
+
+  const rows = await executor
+    .select({
+      id: journalEntryLines.id,
+      journalEntryId: journalEntries.id,
+      journalNumber: journalEntries.journalNumber,
+      date: journalEntries.date,
+      description: journalEntryLines.description,
+      referenceType: journalEntries.referenceType,
+      debitAmount: journalEntryLines.debitAmount,
+      creditAmount: journalEntryLines.creditAmount,
+      matchedAmount: sql<string>`COALESCE((SELECT SUM(${bankReconciliationMatches.amount}) FROM ${bankReconciliationMatches} WHERE ${bankReconciliationMatches.journalEntryLineId} = ${journalEntryLines.id}), 0)`,
+    })
+    .from(journalEntryLines)
+    .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+    .innerJoin(accounts, eq(journalEntryLines.accountId, accounts.id))
+    .where(and(...conditions))
+    .orderBy(journalEntries.date, journalEntries.journalNumber);
+
+  return rows.map(({ debitAmount, creditAmount, matchedAmount, ...row }: any) => {
+    const amount = Number((Number(debitAmount || 0) - Number(creditAmount || 0)).toFixed(2));
+    const matched = Number(Number(matchedAmount || 0).toFixed(2));
+    return { ...row, amount, matchedAmount: matched, remaining: Number((amount - matched).toFixed(2)) };
+  });
+}
+
+export async function getChartOfAccounts(tx?: any) {
+  const executor = tx || db;
+  const clientId = resolveClientId();
+  const [rows, balances] = await Promise.all([
+    executor.select().from(accounts).where(clientId ? eq(accounts.clientId, clientId) : undefined).orderBy(accounts.code),
+    getAccountBalances({}, executor),
+  ]);
+  const balanceById = new Map(balances.map((row) => [row.accountId, row.balance]));
+  return rows.map((row: any) => ({ ...row, balance: balanceById.get(row.id) ?? 0 }));
+}
+
+// Year-end close: revenue and expense for the year are closed into 3300, then 3300 is moved into 3200
+export async function postYearEndClose(data: { year: number; userId: string; clientId?: string | null }, tx?: any) {
+  const executor = tx || db;
+  const clientId = resolveClientId(data.clientId);
+  const { start } = getFiscalPeriodRange(data.year, 1);
+  const { end } = getFiscalPeriodRange(data.year, 12);
+  const reference = `FY-${data.year}`;
+
+  const yearBalances = await getAccountBalances({ startDate: start, endDate: end, clientId }, executor);
+  const closingLines: JournalLineInput[] = [];
+  let netIncome = 0;
+
+  for (const row of yearBalances) {
+    if (row.type !== "revenue" && row.type !== "expense") continue;
+    const netDebit = Number((row.debit - row.credit).toFixed(2));
+    if (netDebit === 0) continue;
+    closingLines.push(
+      netDebit > 0
+        ? { accountCode: row.code, creditAmount: netDebit }
+        : { accountCode: row.code, debitAmount: -netDebit },
+    );
+    netIncome -= netDebit;
+  }
+  netIncome = Number(netIncome.toFixed(2));
+
+  let closingEntry = null;
+  if (closingLines.length) {
+    if (netIncome !== 0) {
+      closingLines.push(
+        netIncome > 0
+          ? { accountCode: ACCOUNT_CODES.CURRENT_EARNINGS, creditAmount: netIncome }
+          : { accountCode: ACCOUNT_CODES.CURRENT_EARNINGS, debitAmount: -netIncome },
+      );
+    }
+    closingEntry = await createJournalEntry(YEAR_END_CLOSE_REFERENCE_TYPE, closingLines, {
+      description: `Penutupan pendapatan dan beban tahun ${data.year}`,
+      reference,
+      referenceType: YEAR_END_CLOSE_REFERENCE_TYPE,
+      date: end,
+      allowClosedPeriod: true,
+      userId: data.userId,
+      clientId,
+      tx: executor,
+    });
+  }
+
+  // 3300 may also hold manual postings, so the whole balance at year end is carried over
+  const currentEarnings = (await getAccountBalances({ endDate: end, clientId }, executor))
+    .find((row) => row.code === ACCOUNT_CODES.CURRENT_EARNINGS)?.balance ?? 0;
+
+  let rolloverEntry = null;
+  if (currentEarnings !== 0) {
+    const amount = Math.abs(currentEarnings);
+    rolloverEntry = await createJournalEntry(
+      YEAR_END_CLOSE_REFERENCE_TYPE,
+      currentEarnings > 0
+        ? [
+            { accountCode: ACCOUNT_CODES.CURRENT_EARNINGS, debitAmount: amount },
+            { accountCode: ACCOUNT_CODES.RETAINED_EARNINGS, creditAmount: amount },
+          ]
+        : [
+            { accountCode: ACCOUNT_CODES.RETAINED_EARNINGS, debitAmount: amount },
+            { accountCode: ACCOUNT_CODES.CURRENT_EARNINGS, creditAmount: amount },
+          ],
+      {
+        description: `Pemindahan laba rugi tahun ${data.year} ke Laba Ditahan`,
+        reference,
+        referenceType: YEAR_END_CLOSE_REFERENCE_TYPE,
+        date: end,
+        allowClosedPeriod: true,
+        userId: data.userId,
+        clientId,
+        tx: executor,
+      },
+    );
+  }
+
+  return { year: data.year, netIncome, closingEntry, rolloverEntry };
+}
+
 export const FinanceConstants = { ACCOUNT_CODES, FINANCIAL_CATEGORIES };
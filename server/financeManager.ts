@@ -1,9 +1,31 @@
 import { db, getCurrentTenantContext } from "./db";
 import {
+  approveJournalEntry,
   createJournalEntry,
+  getAccountBalances,
+  getBalanceSheet,
+  getBankBookLines,
+  getChartOfAccounts,
+  getGeneralLedger,
+  getPpnLedger,
+  getStoreTaxRate,
+  getServiceTaxSettings,
+  getIncomeStatement,
+  getTrialBalance,
+  postYearEndClose,
+  rejectJournalEntry,
+  reverseJournalEntry,
+  reverseReferenceFinancials,
+  processPOSReturn,
   processPOSTransaction,
   processServiceTransaction,
   recordFinancialEvent,
+  recordInventoryPurchase,
+  recordReceivablePayment,
+  recordSupplierPayment,
+  recordSupplierRmaRecovery,
+  recordPettyCashExpense,
+  recordCashOverShort,
   resolveSettlementAccount,
   FinanceConstants,
 } from "./finance";
@@ -15,6 +37,10 @@ export class FinanceManager {
     return processPOSTransaction(data, tx);
   }
 
+  async processPOSReturn(data: Parameters<typeof processPOSReturn>[0], tx?: any) {
+    return processPOSReturn(data, tx);
+  }
+
   async processServiceTransaction(data: Parameters<typeof processServiceTransaction>[0], tx?: any) {
     return processServiceTransaction(data, tx);
   }
@@ -34,10 +60,94 @@ export class FinanceManager {
     });
   }
 
+  async reverseJournalEntry(journalEntryId: string, options: Parameters<typeof reverseJournalEntry>[1]) {
+    return reverseJournalEntry(journalEntryId, options);
+  }
+
+  async approveJournalEntry(journalEntryId: string, options: Parameters<typeof approveJournalEntry>[1]) {
+    return approveJournalEntry(journalEntryId, options);
+  }
+
+  async rejectJournalEntry(journalEntryId: string, options: Parameters<typeof rejectJournalEntry>[1]) {
+    return rejectJournalEntry(journalEntryId, options);
+  }
+
+  async reverseReferenceFinancials(data: Parameters<typeof reverseReferenceFinancials>[0], tx?: any) {
+    return reverseReferenceFinancials(data, tx);
+  }
+
+  async postYearEndClose(data: Parameters<typeof postYearEndClose>[0], tx?: any) {
+    return postYearEndClose(data, tx);
+  }
+
+  async getBalanceSheet(asOfDate?: Date) {
+    return getBalanceSheet(asOfDate);
+  }
+
+  async getIncomeStatement(startDate?: Date, endDate?: Date) {
+    return getIncomeStatement(startDate, endDate);
+  }
+
+  async getGeneralLedger(filters: Parameters<typeof getGeneralLedger>[0]) {
+    return getGeneralLedger(filters);
+  }
+
+  async getTrialBalance(asOfDate?: Date) {
+    return getTrialBalance(asOfDate);
+  }
+
+  async getBankBookLines(filters: Parameters<typeof getBankBookLines>[0], tx?: any) {
+    return getBankBookLines(filters, tx);
+  }
+
+  async getAccountBalances(filters: Parameters<typeof getAccountBalances>[0], tx?: any) {
+    return getAccountBalances(filters, tx);
+  }
+
+  async getStoreTaxRate(clientId?: string | null, tx?: any) {
+    return getStoreTaxRate(clientId, tx);
+  }
+
+  async getServiceTaxSettings(clientId?: string | null, tx?: any) {
+    return getServiceTaxSettings(clientId, tx);
+  }
+
+  async getPpnLedger(year: number, month: number, tx?: any) {
+    return getPpnLedger(year, month, tx);
+  }
+
+  async getChartOfAccounts() {
+    return getChartOfAccounts();
+  }
+
   async recordFinancialEvent(record: any, tx?: any) {
     return recordFinancialEvent(record, tx);
   }
 
+  async recordInventoryPurchase(data: Parameters<typeof recordInventoryPurchase>[0], tx?: any) {
+    return recordInventoryPurchase(data, tx);
+  }
+
+  async recordReceivablePayment(data: Parameters<typeof recordReceivablePayment>[0], tx?: any) {
+    return recordReceivablePayment(data, tx);
+  }
+
+  async recordSupplierPayment(data: Parameters<typeof recordSupplierPayment>[0], tx?: any) {
+    return recordSupplierPayment(data, tx);
+  }
+
+  async recordSupplierRmaRecovery(data: Parameters<typeof recordSupplierRmaRecovery>[0], tx?: any) {
+    return recordSupplierRmaRecovery(data, tx);
+  }
+
+  async recordPettyCashExpense(data: Parameters<typeof recordPettyCashExpense>[0], tx?: any) {
+    return recordPettyCashExpense(data, tx);
+  }
+
+  async recordCashOverShort(data: Parameters<typeof recordCashOverShort>[0], tx?: any) {
+    return recordCashOverShort(data, tx);
+  }
+
   resolveSettlementAccount(method?: string) {
     return resolveSettlementAccount(method);
   }
@@ -133,6 +243,34 @@ export class FinanceManager {
     };
   }
 
+  async getJournalEntries(filters: { status?: string; startDate?: Date; endDate?: Date }) {
+    const tenantId = getCurrentTenantContext()?.clientId;
+    const whereClauses = [] as any[];
+    if (filters.status) whereClauses.push(eq(journalEntries.status, filters.status));
+    if (filters.startDate) whereClauses.push(gte(journalEntries.date, filters.startDate));
+    if (filters.endDate) whereClauses.push(lte(journalEntries.date, filters.endDate));
+    if (tenantId) whereClauses.push(eq(journalEntries.clientId, tenantId));
+
+    return db
+      .select({
+        id: journalEntries.id,
+        journalNumber: journalEntries.journalNumber,
+        date: journalEntries.date,
+        description: journalEntries.description,
+        reference: journalEntries.reference,
+        referenceType: journalEntries.referenceType,
+        totalAmount: journalEntries.totalAmount,
+        status: journalEntries.status,
+        reversalOfId: journalEntries.reversalOfId,
+        userId: journalEntries.userId,
+        createdAt: journalEntries.createdAt,
+      })
+      .from(journalEntries)
+      .where(whereClauses.length ? and(...whereClauses) : undefined)
+      .orderBy(desc(journalEntries.date))
+      .limit(500);
+  }
+
   async getJournalEntry(id: string) {
     const entry = await db.query.journalEntries.findFirst({
       where: eq(journalEntries.id, id),
@@ -147,10 +285,25 @@ export class FinanceManager {
 
     if (!entry) return null;
 
+    const [reversedBy] = entry.status === "reversed"
+      ? await db
+          .select({ id: journalEntries.id, journalNumber: journalEntries.journalNumber })
+          .from(journalEntries)
+          .where(eq(journalEntries.reversalOfId, entry.id))
+          .limit(1)
+      : [];
+
     return {
       id: entry.id,
       journalNumber: entry.journalNumber,
       date: entry.date?.toISOString?.() ?? (entry as any).date,
+      description: entry.description,
+      status: entry.status,
+      reversalOfId: entry.reversalOfId,
+      reversedBy: reversedBy ?? null,
+      userId: entry.userId,
+      approvedBy: entry.approvedBy,
+      rejectionReason: entry.rejectionReason,
       reference: entry.reference,
       referenceType: entry.referenceType,
       lines: entry.lines.map((line) => ({
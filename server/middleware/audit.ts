@@ -0,0 +1,201 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { storage } from '../storage';
+
+const AUDITED_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Calls that do not change store data, or platform actions already kept in saas_audit_log
+const EXCLUDED_PATHS = [
+  /^\/api\/auth\//,
+  /^\/api\/mobile\/login$/,
+  /^\/api\/setup\//,
+  /^\/api\/admin\/saas\//,
+  /^\/api\/objects\/upload$/,
+  /^\/api\/reports\/export-/,
+  /^\/api\/whatsapp\/test-message$/,
+  /^\/api\/mobile\/warranty-claims\/validate$/,
+];
+
+// Route prefixes whose second segment names the entity, e.g. /api/finance/journal-entry
+const NAMESPACED_ENTITIES = new Set(['admin', 'finance', 'payables', 'receivables', 'whatsapp', 'inventory', 'data']);
+
+const REDACTED_FIELDS = /password|token|secret|session/i;
+
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt']);
+
+type SnapshotLoader = (id: string) => Promise<unknown>;
+
+// Entities whose stored state is read before the handler runs and again after it succeeds
+const SNAPSHOT_LOADERS: Record<string, SnapshotLoader> = {
+  products: id => storage.getProductById(id),
+  categories: id => storage.getCategoryById(id),
+  customers: id => storage.getCustomerById(id),
+  suppliers: id => storage.getSupplierById(id),
+  'service-tickets': id => storage.getServiceTicketById(id),
+  'purchase-orders': id => storage.getPurchaseOrderById(id),
+  'inventory-adjustments': id => storage.getInventoryAdjustmentById(id),
+  'stock-transfers': id => storage.getStockTransferById(id),
+  'warranty-claims': id => storage.getWarrantyClaimById(id),
+  'installment-plans': id => storage.getInstallmentPlanById(id),
+  shifts: id => storage.getCashierShiftById(id),
+  users: id => storage.getUser(id),
+  roles: id => storage.getRoleById(id),
+  'store-config': () => storage.getStoreConfig(),
+};
+
+type AuditTarget = {
+  source: 'web' | 'mobile';
+  entityType: string;
+  entityId?: string;
+  action: string;
+};
+
+const DEFAULT_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+const isIdSegment = (segment: string) => /\d/.test(segment);
+
+function describeRequest(path: string, method: string): AuditTarget {
+  const source = path.startsWith('/api/mobile/') ? 'mobile' : 'web';
+  const segments = path.replace(/^\/api\/(mobile\/)?/, '').split('/').filter(Boolean);
+
+  let entityType = segments.shift() || 'unknown';
+  if (NAMESPACED_ENTITIES.has(entityType) && segments.length && !isIdSegment(segments[0])) {
+    entityType = `${entityType}/${segments.shift()}`;
+  }
+
+  const entityId = segments.find(isIdSegment);
+  const words = segments.filter(segment => !isIdSegment(segment));
+  const verb = DEFAULT_ACTIONS[method] ?? method.toLowerCase();
+  const action = words.length === 0
+    ? verb
+    : method === 'POST' ? words.join('.') : [...words, verb].join('.');
+
+  return { source, entityType, entityId: entityId ? decodeURIComponent(entityId) : undefined, action };
+}
+
+function sanitize(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  return JSON.parse(JSON.stringify(value, (key, current) => (
+    key && REDACTED_FIELDS.test(key) ? '[redacted]' : current
+  )));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function diffSnapshots(before: unknown, after: unknown) {
+  if (!isRecord(before) || !isRecord(after)) {
+    return null;
+  }
+
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach(key => {
+    if (IGNORED_DIFF_FIELDS.has(key)) return;
+    if (JSON.stringify(before[key] ?? null) !== JSON.stringify(after[key] ?? null)) {
+      changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+    }
+  });
+
+  return Object.keys(changes).length ? changes : null;
+}
+
+async function loadSnapshot(loader: SnapshotLoader | undefined, target: AuditTarget, id?: string) {
+  const singleton = target.entityType === 'store-config';
+  if (!loader || (!id && !singleton)) {
+    return null;
+  }
+
+  try {
+    return sanitize(await loader(id ?? ''));
+  } catch (error) {
+    console.error("Error loading audit snapshot:", error);
+    return null;
+  }
+}
+
+async function writeAuditLog(
+  req: Request,
+  res: Response,
+  target: AuditTarget,
+  before: unknown,
+  responseBody: unknown,
+) {
+  try {
+    const loader = SNAPSHOT_LOADERS[target.entityType];
+    const responseId = isRecord(responseBody) && typeof responseBody.id === 'string' ? responseBody.id : undefined;
+    const entityId = target.entityId ?? responseId;
+
+    let after = await loadSnapshot(loader, target, entityId);
+    if (!after && req.method !== 'DELETE') {
+      // Without a loader keep what the route returned, or what was submitted when it only returned a message
+      after = sanitize(responseId ? responseBody : req.body);
+    }
+
+    const user = req.session?.user ?? req.mobileUser;
+
+    await storage.createAuditLog({
+      userId: user?.id ?? null,
+      userName: user?.username ?? null,
+      source: target.source,
+      entityType: target.entityType,
+      entityId: entityId ?? null,
+      action: target.action,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      statusCode: res.statusCode,
+      before,
+      after,
+      changes: diffSnapshots(before, after),
+      ipAddress: req.ip || req.socket.remoteAddress || null,
+      userAgent: req.get('user-agent') || null,
+    });
+  } catch (error) {
+    console.error("Error writing audit log:", error);
+  }
+}
+
+// Records every successful mutating call; the entry is written from inside the handler's
+// response so it runs in the same tenant database context as the change itself.
+export const auditTrail: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  if (!AUDITED_METHODS.has(req.method)) {
+    return next();
+  }
+
+  const path = req.originalUrl.split('?')[0];
+  if (EXCLUDED_PATHS.some(pattern => pattern.test(path))) {
+    return next();
+  }
+
+  const target = describeRequest(path, req.method);
+  const before = await loadSnapshot(SNAPSHOT_LOADERS[target.entityType], target, target.entityId);
+
+  let recorded = false;
+  const record = (body: unknown) => {
+    if (recorded) return;
+    recorded = true;
+    if (res.statusCode >= 400) return;
+    void writeAuditLog(req, res, target, before, body);
+  };
+
+  const originalJson = res.json.bind(res);
+  res.json = (body?: any) => {
+    record(body);
+    return originalJson(body);
+  };
+
+  const originalSend = res.send.bind(res);
+  res.send = (body?: any) => {
+    record(undefined);
+    return originalSend(body);
+  };
+
+  next();
+};
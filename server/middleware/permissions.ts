@@ -0,0 +1,89 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { storage } from '../storage';
+import { defaultRoleConfigs } from '../defaultRoles';
+import {
+  PERMISSION_VALUES,
+  hasAnyPermission,
+  normalizePermissions,
+  type Permission,
+} from '@shared/permissions';
+
+declare global {
+  namespace Express {
+    interface Request {
+      permissions?: Permission[];
+    }
+  }
+}
+
+// Resolve a role's permissions from the roles table; built-in roles that were never
+// seeded into this tenant fall back to their default configuration.
+export async function getRolePermissions(roleName: string): Promise<Permission[]> {
+  // Admin has all permissions
+  if (roleName === 'admin') {
+    return [...PERMISSION_VALUES];
+  }
+
+  const role = await storage.getRoleByName(roleName);
+  if (role) {
+    return role.isActive ? normalizePermissions(role.permissions) : [];
+  }
+
+  const fallback = defaultRoleConfigs.find(config => config.name === roleName);
+  return normalizePermissions(fallback?.permissions);
+}
+
+// The role is read from the users table on every request so role changes and
+// deactivations apply immediately instead of at the next login.
+export async function resolveRequestPermissions(req: Request): Promise<Permission[]> {
+  if (req.permissions) {
+    return req.permissions;
+  }
+
+  if (req.isSuperAdmin) {
+    req.permissions = [...PERMISSION_VALUES];
+    return req.permissions;
+  }
+
+  const userId = req.session?.user?.id ?? req.mobileUser?.id;
+  if (!userId) {
+    return [];
+  }
+
+  const user = await storage.getUser(userId);
+  req.permissions = user && user.isActive !== false && user.role
+    ? await getRolePermissions(user.role)
+    : [];
+
+  return req.permissions;
+}
+
+// Passes when the user holds any of the listed permissions
+export const requirePermission = (...required: Permission[]): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      // Super admin bypasses permission checks
+      if (req.isSuperAdmin) {
+        return next();
+      }
+
+      if (!req.session?.user && !req.mobileUser) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const permissions = await resolveRequestPermissions(req);
+
+      if (!hasAnyPermission(permissions, required)) {
+        return res.status(403).json({
+          message: "Anda tidak memiliki izin untuk mengakses resource ini",
+          requiredPermission: required.join(' | '),
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  };
+};
@@ -1,12 +1,16 @@
 import type { Express, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { realtimeService } from "./realtime";
-import { storage } from "./storage";
-import { recordInventoryPurchase } from "./finance";
-import { whatsappService } from "./whatsappService";
+import { storage, TransactionValidationError, type ServiceQuoteItem, type WarrantyCertificateDetail, type WarrantyStatus } from "./storage";
+import { parseReportDate, recordInventoryPurchase } from "./finance";
+import { buildEFakturCsv } from "./finance/efaktur";
+import { parseBankStatement } from "./finance/bankStatementParser";
+import { whatsappService, getPublicBaseUrl } from "./whatsappService";
 import QRCode from 'qrcode';
 // Conditional auth import based on environment
 import { isAuthenticated, authenticateUser, hashPassword } from "./auth";
+import { requirePermission, resolveRequestPermissions } from "./middleware/permissions";
+import { auditTrail } from "./middleware/audit";
 import {
   ObjectStorageService,
   ObjectNotFoundError,
@@ -34,13 +38,64 @@ import {
   employees,
   payrollRecords,
   attendanceRecords,
+  productSerials,
+  installmentPayments,
+  installmentSchedules,
+  installmentPlans,
+  supplierPayments,
+  supplierBills,
+  stockTransferItems,
+  stockTransfers,
+  productLocationStocks,
+  stockCountItems,
+  stockCountSessions,
+  parkedCarts,
+  transactionPayments,
+  serviceStatusHistory,
+  serviceQuotes,
+  servicePartRequests,
+  warrantyCertificates,
+  supplierRmas,
   insertTransactionSchema,
   insertTransactionItemSchema,
+  installmentPlanInputSchema,
+  salesReturnInputSchema,
+  openCashierShiftSchema,
+  closeCashierShiftSchema,
+  insertShiftCashMovementSchema,
+  parkCartSchema,
+  transactionPaymentInputSchema,
+  insertInstallmentPaymentSchema,
+  insertSupplierPaymentSchema,
+  insertStockTransferSchema,
+  insertStockTransferItemSchema,
+  insertStockCountSessionSchema,
+  stockCountScanSchema,
   insertServiceTicketSchema,
+  serviceStatusNoteSchema,
+  createServiceQuoteSchema,
+  createServicePartRequestSchema,
+  createSupplierRmaSchema,
+  shipSupplierRmaSchema,
+  resolveSupplierRmaSchema,
+  manualJournalEntrySchema,
+  reverseJournalEntrySchema,
+  bankStatementImportSchema,
+  bankAutoMatchSchema,
+  bankStatementMatchSchema,
+  postBankStatementLineSchema,
+  rejectJournalEntrySchema,
+  serviceIntakeChecklistSchema,
+  serviceHandoverCheckSchema,
+  serviceQuoteResponseSchema,
+  type ServiceQuote,
   warrantyClaims,
   insertWarrantyClaimSchema,
+  type ServiceTicket,
   type WarrantyClaim
 } from "@shared/schema";
+import { SERVICE_STATUS_VALUES } from "@shared/service-status";
+import { hasPermission } from "@shared/permissions";
 
 import { resolveSubscriptionPlanSlug, getSubscriptionPlanDisplayName } from "@shared/saas-utils";
 import {
@@ -254,11 +309,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bank statements arrive as CSV or OFX exports from internet banking
+  const statementUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: 5 * 1024 * 1024, // 5MB limit
+    },
+    fileFilter: (req, file, cb) => {
+      if (/\.(csv|ofx|qfx)$/i.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Only CSV or OFX files are allowed!') as any, false);
+      }
+    }
+  });
+
   // Auth middleware
   // Always use local authentication for universal deployment compatibility
   const { setupAuth } = await import('./auth');
   await setupAuth(app);
 
+  // Append-only audit trail for every mutating store API call
+  app.use('/api', auditTrail);
+
   // Auth routes
   app.post('/api/auth/login', async (req, res) => {
     try {
@@ -296,8 +369,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
-      // User is already available in session
-      res.json(req.session.user);
+      // User is already available in session; permissions come from the current role
+      const permissions = await resolveRequestPermissions(req);
+      res.json({ ...req.session.user, permissions });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -305,7 +379,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard routes
-  app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard/stats', isAuthenticated, requirePermission('dashboard_view'), async (req, res) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -316,7 +390,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reports API endpoints
-  app.get('/api/reports/sales/:startDate/:endDate', isAuthenticated, async (req, res) => {
+  app.get('/api/reports/sales/:startDate/:endDate', isAuthenticated, requirePermission('reports_sales_view'), async (req, res) => {
     try {
       const { startDate, endDate } = req.params;
       const start = getStartOfDayJakarta(parseWithTimezone(startDate, false));
@@ -330,7 +404,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/reports/services/:startDate/:endDate', isAuthenticated, async (req, res) => {
+  app.get('/api/reports/services/:startDate/:endDate', isAuthenticated, requirePermission('reports_services_view'), async (req, res) => {
     try {
       const { startDate, endDate } = req.params;
       const start = getStartOfDayJakarta(parseWithTimezone(startDate, false));
@@ -344,7 +418,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/reports/financial/:startDate/:endDate', isAuthenticated, async (req, res) => {
+  app.get('/api/reports/financial/:startDate/:endDate', isAuthenticated, requirePermission('reports_financial_view'), async (req, res) => {
     try {
       const { startDate, endDate } = req.params;
       const start = getStartOfDayJakarta(parseWithTimezone(startDate, false));
@@ -358,7 +432,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/reports/inventory', isAuthenticated, async (req, res) => {
+  app.get('/api/reports/inventory', isAuthenticated, requirePermission('reports_inventory_view'), async (req, res) => {
     try {
       const report = await storage.getInventoryReport();
       res.json(report);
@@ -368,15 +442,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Damaged goods report - Get damaged items from warranty returns
-  app.get('/api/reports/damaged-goods', isAuthenticated, async (req: any, res) => {
+  // Damaged goods report - Get damaged items from warranty and POS returns
+  app.get('/api/reports/damaged-goods', isAuthenticated, requirePermission('reports_inventory_view'), async (req: any, res) => {
     try {
       // Get client ID from authenticated session for multi-tenant security
       const clientId = req.tenant?.id || req.tenant?.clientId || req.session?.user?.clientId || null;
       
       // Build where conditions for multi-tenant filtering
       const whereConditions = [
-        eq(stockMovements.referenceType, 'warranty_return_damaged'),
+        inArray(stockMovements.referenceType, ['warranty_return_damaged', 'return_damaged']),
         // Multi-tenant filtering
         clientId ? eq(stockMovements.clientId, clientId) : isNull(stockMovements.clientId)
       ];
@@ -442,8 +516,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // TEMP DEBUG ENDPOINT (No auth for debugging)
-  app.get('/api/debug/stock-movements', async (req: any, res) => {
+  // TEMP DEBUG ENDPOINT
+  app.get('/api/debug/stock-movements', isAuthenticated, requirePermission('system_admin'), async (req: any, res) => {
     try {
       console.log('🔍 DEBUG ENDPOINT: Stock movements debugging...');
       
@@ -480,7 +554,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Stock movements report - Clean implementation
-  app.get('/api/reports/stock-movements', isAuthenticated, async (req: any, res) => {
+  app.get('/api/reports/stock-movements', isAuthenticated, requirePermission('reports_inventory_view'), async (req: any, res) => {
     try {
       // Get client ID from authenticated session for multi-tenant security
       const clientId = req.tenant?.id || req.tenant?.clientId || req.session?.user?.clientId || null;
@@ -597,7 +671,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export XLSX endpoint
-  app.post('/api/reports/export-xlsx', isAuthenticated, async (req, res) => {
+  app.post('/api/reports/export-xlsx', isAuthenticated, requirePermission('reports_full'), async (req, res) => {
     try {
       console.log('XLSX export request received');
       const { startDate, endDate } = req.body;
@@ -695,7 +769,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export PDF endpoint
-  app.post('/api/reports/export-pdf', isAuthenticated, async (req, res) => {
+  app.post('/api/reports/export-pdf', isAuthenticated, requirePermission('reports_full'), async (req, res) => {
     try {
       console.log('PDF export request received');
       const { startDate, endDate } = req.body;
@@ -749,7 +823,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/store-config', isAuthenticated, async (req, res) => {
+  app.post('/api/store-config', isAuthenticated, requirePermission('store_settings', 'settings_full'), async (req, res) => {
     try {
       const configData = insertStoreConfigSchema.parse(req.body);
       const config = await storage.upsertStoreConfig(configData);
@@ -761,7 +835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add PATCH method for store config updates
-  app.patch('/api/store-config', isAuthenticated, async (req, res) => {
+  app.patch('/api/store-config', isAuthenticated, requirePermission('store_settings', 'settings_full'), async (req, res) => {
     try {
       const configData = insertStoreConfigSchema.parse(req.body);
       const config = await storage.upsertStoreConfig(configData);
@@ -780,7 +854,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Category routes
-  app.get('/api/categories', isAuthenticated, async (req, res) => {
+  app.get('/api/categories', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
     try {
       const categories = await storage.getCategories();
       res.json(categories);
@@ -790,7 +864,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/categories', isAuthenticated, async (req, res) => {
+  app.post('/api/categories', isAuthenticated, requirePermission('inventory_full'), async (req, res) => {
     try {
       const categoryData = insertCategorySchema.parse(req.body);
       const category = await storage.createCategory(categoryData);
@@ -802,7 +876,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Product routes
-  app.get('/api/products', isAuthenticated, async (req, res) => {
+  app.get('/api/products', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
     try {
       const { search } = req.query;
       const products = await storage.getProducts();
@@ -813,7 +887,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/products/low-stock', isAuthenticated, async (req, res) => {
+  app.get('/api/products/low-stock', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
     try {
       const products = await storage.getLowStockProducts();
       res.json(products);
@@ -824,7 +898,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Product Excel Template route - MUST be before /:id route to avoid route conflict
-  app.get('/api/products/template', isAuthenticated, async (req, res) => {
+  app.get('/api/products/template', isAuthenticated, requirePermission('inventory_full'), async (req, res) => {
     try {
       // Create Excel template with product columns
       const templateData = [
@@ -861,7 +935,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/products/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/products/:id', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
     try {
       const product = await storage.getProductById(req.params.id);
       if (!product) {
@@ -874,7 +948,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/products', isAuthenticated, async (req: any, res) => {
+  app.get('/api/products/:id/serials', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const serials = await storage.getProductSerials(req.params.id, status);
+      res.json(serials);
+    } catch (error) {
+      console.error("Error fetching product serials:", error);
+      res.status(500).json({ message: "Failed to fetch product serials" });
+    }
+  });
+
+  // Find a unit by serial number: sale, customer, warranty status and movement history
+  app.get('/api/serial-numbers/:serialNumber', isAuthenticated, requirePermission('inventory_view', 'pos_access', 'service_tickets_view'), async (req: any, res) => {
+    try {
+      const lookup = await storage.getSerialNumberLookup(req.params.serialNumber, req.clientId ?? null);
+      if (!lookup) {
+        return res.status(404).json({ message: "Serial number not found" });
+      }
+      res.json(lookup);
+    } catch (error) {
+      console.error("Error looking up serial number:", error);
+      res.status(500).json({ message: "Failed to look up serial number" });
+    }
+  });
+
+  app.post('/api/products', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
     try {
       const productData = insertProductSchema.parse(req.body);
       const productWithCodes = {
@@ -898,7 +997,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/products/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/products/:id', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
     try {
       const productData = insertProductSchema.partial().parse(req.body);
       const product = await storage.updateProduct(req.params.id, productData);
@@ -918,7 +1017,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/products/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/products/:id', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
     try {
       await storage.deleteProduct(req.params.id);
       
@@ -937,14 +1036,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Specialized pricing management endpoint
-  app.patch('/api/products/:id/pricing', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/products/:id/pricing', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
     try {
-      const { sellingPrice, marginPercent } = req.body;
+      const { sellingPrice, marginPercent, taxInclusive, taxExempt } = req.body;
       
       // Calculate margin percentage if selling price provided
       let updateData: any = {};
       if (sellingPrice) updateData.sellingPrice = sellingPrice;
       if (marginPercent) updateData.marginPercent = marginPercent;
+      if (typeof taxInclusive === 'boolean') updateData.taxInclusive = taxInclusive;
+      if (typeof taxExempt === 'boolean') updateData.taxExempt = taxExempt;
       
       const product = await storage.updateProduct(req.params.id, updateData);
       
@@ -971,7 +1072,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Product Excel Import/Export routes
-  app.post('/api/products/import', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/products/import', isAuthenticated, requirePermission('inventory_full'), upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ 
@@ -1197,7 +1298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Location routes
-  app.get('/api/locations', isAuthenticated, async (req, res) => {
+  app.get('/api/locations', isAuthenticated, requirePermission('inventory_view', 'pos_access'), async (req, res) => {
     try {
       const locations = await storage.getLocations();
       res.json(locations);
@@ -1207,7 +1308,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/locations', isAuthenticated, async (req, res) => {
+  app.post('/api/locations', isAuthenticated, requirePermission('inventory_full'), async (req, res) => {
     try {
       const locationData = req.body; // Create proper schema later
       const location = await storage.createLocation(locationData);
@@ -1218,8 +1319,125 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/inventory/stock-by-location', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const locationId = typeof req.query.locationId === 'string' && req.query.locationId ? req.query.locationId : undefined;
+      const search = typeof req.query.search === 'string' && req.query.search ? req.query.search : undefined;
+      const stock = await storage.getStockByLocation({ locationId, search });
+      res.json(stock);
+    } catch (error) {
+      console.error("Error fetching stock by location:", error);
+      res.status(500).json({ message: "Failed to fetch stock by location" });
+    }
+  });
+
+  app.get('/api/inventory/service-allocations', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const allocations = await storage.getServicePartAllocations();
+      res.json(allocations);
+    } catch (error) {
+      console.error("Error fetching service part allocations:", error);
+      res.status(500).json({ message: "Failed to fetch service part allocations" });
+    }
+  });
+
+  // Stock transfer routes
+  const createStockTransferSchema = z.object({
+    transfer: insertStockTransferSchema.omit({ createdBy: true }),
+    items: z.array(insertStockTransferItemSchema).min(1),
+  });
+
+  app.get('/api/stock-transfers', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+      const transfers = await storage.getStockTransfers(status);
+      res.json(transfers);
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfers" });
+    }
+  });
+
+  app.get('/api/stock-transfers/:id', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const transfer = await storage.getStockTransferById(req.params.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Stock transfer not found" });
+      }
+      res.json(transfer);
+    } catch (error) {
+      console.error("Error fetching stock transfer:", error);
+      res.status(500).json({ message: "Failed to fetch stock transfer" });
+    }
+  });
+
+  app.post('/api/stock-transfers', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { transfer, items } = createStockTransferSchema.parse({
+        ...req.body,
+        transfer: { ...(req.body?.transfer ?? {}), clientId: resolveClientIdFromRequest(req) },
+      });
+      const created = await storage.createStockTransfer({ ...transfer, createdBy: userId }, items);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'stock-transfers',
+        action: 'create',
+        data: created,
+        id: created.id
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error creating stock transfer:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create stock transfer" });
+    }
+  });
+
+  app.post('/api/stock-transfers/:id/:action(ship|receive|cancel)', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const { id, action } = req.params;
+      const transfer = action === 'ship'
+        ? await storage.shipStockTransfer(id, userId)
+        : action === 'receive'
+          ? await storage.receiveStockTransfer(id, userId)
+          : await storage.cancelStockTransfer(id);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'stock-transfers',
+        action: 'update',
+        data: transfer,
+        id
+      });
+      if (action !== 'cancel') {
+        realtimeService.broadcastToTenant(req.clientId, { resource: 'products', action: 'update' });
+      }
+
+      res.json(transfer);
+    } catch (error) {
+      console.error(`Error updating stock transfer (${req.params.action}):`, error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update stock transfer" });
+    }
+  });
+
   // Purchase Order routes
-  app.get('/api/purchase-orders', isAuthenticated, async (req, res) => {
+  app.get('/api/purchase-orders', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
       const orders = await storage.getPurchaseOrders();
       res.json(orders);
@@ -1230,7 +1448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get ALL outstanding items from ALL purchase orders (for reports) - MUST be before /:id routes
-  app.get('/api/purchase-orders/outstanding-items', isAuthenticated, async (req, res) => {
+  app.get('/api/purchase-orders/outstanding-items', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
       const outstandingItems = await storage.getAllOutstandingItems();
       res.json(outstandingItems);
@@ -1240,7 +1458,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/purchase-orders/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/purchase-orders/:id', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
       const order = await storage.getPurchaseOrderById(req.params.id);
       if (!order) {
@@ -1253,7 +1471,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/purchase-orders', isAuthenticated, async (req: any, res) => {
+  app.post('/api/purchase-orders', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
       const { items, ...poData } = req.body;
       
@@ -1324,15 +1542,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         data: order,
         id: order.id
       });
+
+      // Warn (but do not block) when the new PO pushes the supplier over its credit limit
+      const creditStatus = await storage.getSupplierCreditStatus(order.supplierId, totalAmount);
+      const creditWarning = creditStatus.exceedsLimit
+        ? `PO ini melebihi batas kredit supplier (hutang berjalan + PO: ${creditStatus.projected.toFixed(2)} / limit: ${creditStatus.creditLimit?.toFixed(2)})`
+        : null;
       
-      res.json(order);
+      res.json({ ...order, creditWarning, creditStatus });
     } catch (error) {
       console.error("Error creating purchase order:", error);
       res.status(500).json({ message: "Failed to create purchase order" });
     }
   });
 
-  app.post('/api/purchase-orders/:id/approve', isAuthenticated, async (req: any, res) => {
+  app.post('/api/purchase-orders/:id/approve', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
       const order = await storage.approvePurchaseOrder(req.params.id, req.session.user.id);
       
@@ -1352,7 +1576,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Purchase Order Items routes
-  app.get('/api/purchase-orders/:id/items', isAuthenticated, async (req, res) => {
+  app.get('/api/purchase-orders/:id/items', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
       const items = await storage.getPurchaseOrderItems(req.params.id);
       res.json(items);
@@ -1362,7 +1586,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/purchase-orders/:id/items', isAuthenticated, async (req, res) => {
+  app.post('/api/purchase-orders/:id/items', isAuthenticated, requirePermission('purchasing_full'), async (req, res) => {
     try {
       const quantity = parseInt(req.body.quantity) || 1;
       const unitCost = parseFloat(req.body.unitCost) || 0;
@@ -1396,7 +1620,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete purchase order item
-  app.delete('/api/purchase-orders/:poId/items/:itemId', isAuthenticated, async (req, res) => {
+  app.delete('/api/purchase-orders/:poId/items/:itemId', isAuthenticated, requirePermission('purchasing_full'), async (req, res) => {
     try {
       const { itemId } = req.params;
       await storage.deletePurchaseOrderItem(itemId);
@@ -1408,32 +1632,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Receiving routes
-  app.post('/api/purchase-orders/items/:itemId/receive', isAuthenticated, async (req, res) => {
+  app.post('/api/purchase-orders/items/:itemId/receive', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
       const { itemId } = req.params;
-      const { receivedQuantity } = req.body;
+      const { receivedQuantity, serialNumbers, locationId } = req.body;
       const userId = req.session.user?.id;
       
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
+
+      if (typeof serialNumbers !== 'undefined' && !Array.isArray(serialNumbers)) {
+        return res.status(400).json({ message: "serialNumbers must be an array" });
+      }
       
       console.log("Receiving items:", { itemId, receivedQuantity, userId });
       const purchaseResult = await storage.receivePurchaseOrderItem(
         itemId,
         parseInt(receivedQuantity),
         userId,
+        serialNumbers,
+        typeof locationId === 'string' && locationId ? locationId : undefined,
       );
 
       if (purchaseResult?.totalCost > 0) {
-        await recordInventoryPurchase({
-          purchaseId: purchaseResult.purchaseOrderId,
-          supplier: purchaseResult.supplier,
-          totalCost: purchaseResult.totalCost,
-          paymentMethod: purchaseResult.paymentMethod || 'cash',
-          userId,
-          clientId: purchaseResult.clientId,
-        });
+        const paymentTerms = Number(purchaseResult.paymentTerms ?? 0);
+
+        if (paymentTerms > 0 && purchaseResult.supplierId) {
+          // Goods on credit: bill the supplier, due after the PO payment terms
+          await storage.createSupplierBill({
+            supplierId: purchaseResult.supplierId,
+            supplierName: purchaseResult.supplier,
+            purchaseOrderId: purchaseResult.purchaseOrderId,
+            purchaseOrderItemId: itemId,
+            amount: purchaseResult.totalCost,
+            inputTax: purchaseResult.inputTax,
+            paymentTerms,
+            userId,
+            clientId: purchaseResult.clientId,
+          });
+        } else {
+          await recordInventoryPurchase({
+            purchaseId: purchaseResult.purchaseOrderId,
+            supplier: purchaseResult.supplier,
+            totalCost: purchaseResult.totalCost,
+            inputTax: purchaseResult.inputTax,
+            paymentMethod: 'cash',
+            userId,
+            clientId: purchaseResult.clientId,
+          });
+        }
       }
       
       // Emit real-time update for stock changes
@@ -1443,16 +1691,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         data: { itemId, message: 'Barang telah diterima dan stok diperbarui' },
         id: itemId
       });
+
+      // Tickets that were only waiting for these parts go back to the technician
+      for (const ticket of purchaseResult.resumedServiceTickets) {
+        notifyServiceStatusChange(ticket, 'waiting-parts');
+        realtimeService.broadcastToTenant(req.clientId, {
+          resource: 'service-tickets',
+          action: 'update',
+          data: ticket,
+          id: ticket.id
+        });
+      }
       
       res.json({ message: "Items received successfully" });
     } catch (error) {
       console.error("Error receiving items:", error);
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to receive items", error: (error as Error).message });
     }
   });
 
   // Outstanding item management
-  app.post('/api/purchase-orders/items/:itemId/outstanding-status', isAuthenticated, async (req, res) => {
+  app.post('/api/purchase-orders/items/:itemId/outstanding-status', isAuthenticated, requirePermission('purchasing_full'), async (req, res) => {
     try {
       const { itemId } = req.params;
       const { status, reason } = req.body;
@@ -1471,7 +1733,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Product Batch routes
-  app.get('/api/product-batches', isAuthenticated, async (req, res) => {
+  app.get('/api/product-batches', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
     try {
       const { productId } = req.query;
       const batches = await storage.getProductBatches(productId as string);
@@ -1482,7 +1744,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/product-batches', isAuthenticated, async (req, res) => {
+  app.post('/api/product-batches', isAuthenticated, requirePermission('inventory_full'), async (req, res) => {
     try {
       const batch = await storage.createProductBatch(req.body);
       res.json(batch);
@@ -1493,7 +1755,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory Adjustment routes
-  app.get('/api/inventory-adjustments', isAuthenticated, async (req, res) => {
+  app.get('/api/inventory-adjustments', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
     try {
       const adjustments = await storage.getInventoryAdjustments();
       res.json(adjustments);
@@ -1503,7 +1765,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/inventory-adjustments', isAuthenticated, async (req: any, res) => {
+  app.post('/api/inventory-adjustments', isAuthenticated, requirePermission('inventory_update_stock'), async (req: any, res) => {
     try {
       const adjustmentData = {
         ...req.body,
@@ -1517,18 +1779,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/inventory-adjustments/:id/approve', isAuthenticated, async (req: any, res) => {
+  app.post('/api/inventory-adjustments/:id/approve', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
     try {
       const adjustment = await storage.approveInventoryAdjustment(req.params.id, req.session.user.id);
       res.json(adjustment);
     } catch (error) {
       console.error("Error approving inventory adjustment:", error);
-      res.status(500).json({ message: "Failed to approve inventory adjustment" });
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to approve inventory adjustment" });
+    }
+  });
+
+  // Stock opname (count session) routes
+  app.get('/api/stock-counts', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+      const sessions = await storage.getStockCountSessions(status);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching stock count sessions:", error);
+      res.status(500).json({ message: "Failed to fetch stock count sessions" });
+    }
+  });
+
+  app.get('/api/stock-counts/:id', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const session = await storage.getStockCountSessionById(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Stock count session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error fetching stock count session:", error);
+      res.status(500).json({ message: "Failed to fetch stock count session" });
+    }
+  });
+
+  app.post('/api/stock-counts', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const sessionData = insertStockCountSessionSchema.parse({
+        ...req.body,
+        locationId: req.body?.locationId || null,
+        categoryId: req.body?.categoryId || null,
+        clientId: resolveClientIdFromRequest(req),
+        startedBy: userId,
+      });
+      const session = await storage.createStockCountSession(sessionData);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'stock-counts',
+        action: 'create',
+        data: session,
+        id: session.id
+      });
+
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error creating stock count session:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create stock count session" });
+    }
+  });
+
+  app.post('/api/stock-counts/:id/scans', isAuthenticated, requirePermission('inventory_update_stock'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const scan = stockCountScanSchema.parse(req.body);
+      const item = await storage.recordStockCountScan(req.params.id, scan, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'stock-counts',
+        action: 'update',
+        data: item,
+        id: req.params.id
+      });
+
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+
+      console.error("Error recording stock count scan:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record stock count scan" });
+    }
+  });
+
+  app.post('/api/stock-counts/:id/submit', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const result = await storage.submitStockCountSession(req.params.id, userId, {
+        treatUncountedAsZero: req.body?.treatUncountedAsZero === true,
+      });
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'stock-counts',
+        action: 'update',
+        data: result.session,
+        id: req.params.id
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error submitting stock count session:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to submit stock count session" });
+    }
+  });
+
+  app.post('/api/stock-counts/:id/cancel', isAuthenticated, requirePermission('inventory_full'), async (req: any, res) => {
+    try {
+      const session = await storage.cancelStockCountSession(req.params.id);
+      res.json(session);
+    } catch (error) {
+      console.error("Error cancelling stock count session:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to cancel stock count session" });
     }
   });
 
   // Special endpoint for handling refunded goods that arrived
-  app.post('/api/purchase-orders/:poId/receive-refunded-item', isAuthenticated, async (req: any, res) => {
+  app.post('/api/purchase-orders/:poId/receive-refunded-item', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
       const { poId } = req.params;
       const { itemId, quantityReceived, unitCost, reason } = req.body;
@@ -1625,7 +2015,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer routes
-  app.get('/api/customers', isAuthenticated, async (req, res) => {
+  app.get('/api/customers', isAuthenticated, requirePermission('customers_view'), async (req, res) => {
     try {
       const { search } = req.query;
       let customers;
@@ -1644,7 +2034,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer Excel Template route - MUST be before /:id route to avoid route conflict
-  app.get('/api/customers/template', isAuthenticated, async (req, res) => {
+  app.get('/api/customers/template', isAuthenticated, requirePermission('customers_full'), async (req, res) => {
     try {
       // Create Excel template with customer columns
       const templateData = [
@@ -1676,7 +2066,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/customers/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/customers/:id', isAuthenticated, requirePermission('customers_view'), async (req, res) => {
     try {
       const customer = await storage.getCustomerById(req.params.id);
       if (!customer) {
@@ -1689,7 +2079,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/customers', isAuthenticated, async (req: any, res) => {
+  app.post('/api/customers', isAuthenticated, requirePermission('customers_create'), async (req: any, res) => {
     try {
       const customerData = insertCustomerSchema.parse(req.body);
       const customer = await storage.createCustomer(customerData);
@@ -1708,7 +2098,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/customers/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/customers/:id', isAuthenticated, requirePermission('customers_edit'), async (req: any, res) => {
     try {
       const customerData = insertCustomerSchema.partial().parse(req.body);
       const customer = await storage.updateCustomer(req.params.id, customerData);
@@ -1730,7 +2120,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Customer Excel Import/Export routes
 
-  app.post('/api/customers/import', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/customers/import', isAuthenticated, requirePermission('customers_full'), upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ 
@@ -1905,7 +2295,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Supplier routes
-  app.get('/api/suppliers', isAuthenticated, async (req, res) => {
+  app.get('/api/suppliers', isAuthenticated, requirePermission('suppliers_view', 'purchasing_view'), async (req, res) => {
     try {
       const suppliers = await storage.getSuppliers();
       res.json(suppliers);
@@ -1915,7 +2305,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/suppliers', isAuthenticated, async (req, res) => {
+  app.post('/api/suppliers', isAuthenticated, requirePermission('suppliers_full'), async (req, res) => {
     try {
       const supplierData = insertSupplierSchema.parse(req.body);
       const supplier = await storage.createSupplier(supplierData);
@@ -1926,801 +2316,2256 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Transaction routes
-  app.get('/api/transactions', isAuthenticated, async (req, res) => {
+  app.get('/api/suppliers/:id/credit-status', isAuthenticated, requirePermission('suppliers_view', 'purchasing_view'), async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const transactions = await storage.getTransactions(limit);
-      res.json(transactions);
+      const amount = req.query.amount ? parseFloat(req.query.amount as string) : 0;
+      const status = await storage.getSupplierCreditStatus(req.params.id, Number.isFinite(amount) ? amount : 0);
+      res.json(status);
     } catch (error) {
-      console.error("Error fetching transactions:", error);
-      res.status(500).json({ message: "Failed to fetch transactions" });
+      console.error("Error fetching supplier credit status:", error);
+      res.status(500).json({ message: "Failed to fetch supplier credit status" });
     }
   });
 
-  app.get('/api/transactions/:id', isAuthenticated, async (req, res) => {
+  // Supplier payables routes
+  app.get('/api/payables/bills', isAuthenticated, requirePermission('financial_view', 'purchasing_view'), async (req, res) => {
     try {
-      const transaction = await storage.getTransactionById(req.params.id);
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      const supplierId = typeof req.query.supplierId === 'string' ? req.query.supplierId : undefined;
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const bills = await storage.getSupplierBills({ supplierId, status });
+      res.json(bills);
+    } catch (error) {
+      console.error("Error fetching supplier bills:", error);
+      res.status(500).json({ message: "Failed to fetch supplier bills" });
+    }
+  });
+
+  app.post('/api/payables/bills/:id/payments', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-      res.json(transaction);
+
+      const paymentData = insertSupplierPaymentSchema.parse({
+        ...req.body,
+        clientId: resolveClientIdFromRequest(req),
+      });
+      const payment = await storage.recordSupplierPayment(req.params.id, paymentData, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'supplier-bills',
+        action: 'update',
+        data: payment,
+        id: req.params.id
+      });
+
+      res.status(201).json(payment);
     } catch (error) {
-      console.error("Error fetching transaction:", error);
-      res.status(500).json({ message: "Failed to fetch transaction" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
+        });
+      }
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      console.error("Error recording supplier payment:", error);
+      res.status(500).json({ message: "Failed to record supplier payment" });
     }
   });
 
-  const createTransactionSchema = z.object({
-    transaction: insertTransactionSchema,
-    items: z.array(insertTransactionItemSchema),
+  app.get('/api/payables/aging', isAuthenticated, requirePermission('financial_view', 'purchasing_view'), async (req, res) => {
+    try {
+      const asOf = typeof req.query.asOf === 'string' ? new Date(req.query.asOf) : new Date();
+      if (Number.isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Invalid asOf date" });
+      }
+
+      const report = await storage.getPayablesAging(asOf);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching payables aging:", error);
+      res.status(500).json({ message: "Failed to fetch payables aging" });
+    }
   });
 
-  app.post('/api/transactions', isAuthenticated, async (req: any, res) => {
+  // Supplier RMA - damaged stock sent back to the supplier under vendor warranty
+  app.get('/api/supplier-rmas/candidates', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
-      console.log("Raw request body:", JSON.stringify(req.body, null, 2));
-      
-      const { transaction: transactionData, items } = createTransactionSchema.parse(req.body);
-      
-      console.log("Parsed transaction data:", JSON.stringify(transactionData, null, 2));
-      console.log("Parsed items:", JSON.stringify(items, null, 2));
-      
-      // Generate transaction number
-      const transactionNumber = `TRX-${Date.now()}`;
-      
-      // Normalize warranty dates to Date objects for database compatibility
-      const normalize = (v: any) => (v ? new Date(v) : null);
-      const normalizedData = {
-        ...transactionData,
-        warrantyStartDate: normalize(transactionData.warrantyStartDate),
-        warrantyEndDate: normalize(transactionData.warrantyEndDate)
-      };
-      
-      console.log("DEBUG - Warranty dates after normalization:");
-      console.log("- warrantyStartDate:", normalizedData.warrantyStartDate, "Type:", typeof normalizedData.warrantyStartDate);
-      console.log("- warrantyEndDate:", normalizedData.warrantyEndDate, "Type:", typeof normalizedData.warrantyEndDate);
-      console.log("- Is warrantyStartDate a Date?", normalizedData.warrantyStartDate instanceof Date);
-      console.log("- Is warrantyEndDate a Date?", normalizedData.warrantyEndDate instanceof Date);
-      
-      // Add transaction number and user ID to transaction data
-      const completeTransactionData = {
-        ...normalizedData,
-        transactionNumber,
-        userId: req.session.user?.id,
-        clientId: resolveClientIdFromRequest(req)
-      };
-      
-      const transaction = await storage.createTransaction(
-        completeTransactionData,
-        items
-      );
-      
-      res.json(transaction);
+      const candidates = await storage.getSupplierRmaCandidates();
+      res.json(candidates);
     } catch (error) {
-      console.error("Error creating transaction:", error);
-      if (error instanceof Error) {
-        console.error("Error stack:", error.stack);
-      }
-      res.status(500).json({ message: "Failed to create transaction" });
+      console.error("Error fetching supplier RMA candidates:", error);
+      res.status(500).json({ message: "Failed to fetch damaged goods for RMA" });
     }
   });
 
-  // Service Ticket routes
-  app.get('/api/service-tickets', isAuthenticated, async (req, res) => {
+  app.get('/api/supplier-rmas', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
     try {
-      const { active } = req.query;
-      let tickets;
-      
-      if (active === 'true') {
-        tickets = await storage.getActiveServiceTickets();
-      } else {
-        tickets = await storage.getServiceTickets();
-      }
-      
-      res.json(tickets);
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const supplierId = typeof req.query.supplierId === 'string' ? req.query.supplierId : undefined;
+      const rmas = await storage.getSupplierRmas({ status, supplierId });
+      res.json(rmas);
     } catch (error) {
-      console.error("Error fetching service tickets:", error);
-      res.status(500).json({ message: "Failed to fetch service tickets" });
+      console.error("Error fetching supplier RMAs:", error);
+      res.status(500).json({ message: "Failed to fetch supplier RMAs" });
     }
   });
 
-  app.get('/api/service-tickets/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/supplier-rmas', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
-      const ticket = await storage.getServiceTicketById(req.params.id);
-      if (!ticket) {
-        return res.status(404).json({ message: "Service ticket not found" });
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-      res.json(ticket);
+
+      const input = createSupplierRmaSchema.parse(req.body);
+      const rma = await storage.createSupplierRma(input, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'supplier-rmas',
+        action: 'create',
+        data: rma,
+        id: rma.id
+      });
+
+      res.status(201).json(rma);
     } catch (error) {
-      console.error("Error fetching service ticket:", error);
-      res.status(500).json({ message: "Failed to fetch service ticket" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating supplier RMA:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create supplier RMA" });
     }
   });
 
-  app.post('/api/service-tickets', isAuthenticated, async (req, res) => {
+  app.post('/api/supplier-rmas/:id/ship', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
-      console.log("Raw request body:", JSON.stringify(req.body, null, 2));
-      
-      // Use proper schema validation to include warranty fields
-      const ticketData = insertServiceTicketSchema.parse(req.body);
-      
-      console.log("Processed ticket data:", JSON.stringify(ticketData, null, 2));
-      
-      // Generate ticket number
-      const ticketNumber = `SVC-${Date.now()}`;
+      const data = shipSupplierRmaSchema.parse(req.body ?? {});
+      const rma = await storage.shipSupplierRma(req.params.id, data);
 
-      const ticket = await storage.createServiceTicket({
-        ...ticketData,
-        ticketNumber,
-        clientId: resolveClientIdFromRequest(req)
-      });
-      
-      // Send WhatsApp notification for new service (async, don't block response)
-      setImmediate(async () => {
-        try {
-          const config = await storage.getStoreConfig();
-          console.log(`🔔 Service creation notification for ticket ${ticket.ticketNumber}`);
-          
-          if (config?.whatsappEnabled && whatsappService.isConnected()) {
-            console.log(`WhatsApp enabled and connected, getting customer data...`);
-            const customer = await storage.getCustomerById(ticket.customerId);
-            
-            if (customer?.phone) {
-              console.log(`Sending service creation notification to ${customer.phone}...`);
-              await whatsappService.sendServiceCreatedNotification(
-                customer.phone,
-                ticket,
-                customer,
-                config
-              );
-            } else {
-              console.log('No phone number for customer, skipping WhatsApp notification');
-            }
-          } else {
-            console.log('WhatsApp not enabled or not connected, skipping notification');
-          }
-        } catch (error) {
-          console.error('Error sending WhatsApp notification for new service:', error);
-        }
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'supplier-rmas',
+        action: 'update',
+        data: rma,
+        id: rma.id
       });
-      
-      res.json(ticket);
+
+      res.json(rma);
     } catch (error) {
-      console.error("Error creating service ticket:", error);
-      res.status(500).json({ message: "Failed to create service ticket" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error shipping supplier RMA:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to ship supplier RMA" });
     }
   });
 
-  app.put('/api/service-tickets/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/supplier-rmas/:id/resolve', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
     try {
-      console.log("Raw update body:", JSON.stringify(req.body, null, 2));
-      
-      // Manual validation and transformation for update
-      const { customerId, deviceType, deviceBrand, deviceModel, serialNumber, completeness, problem, diagnosis, solution, status, technicianId, estimatedCost, laborCost, parts, warrantyDuration, warrantyStartDate, warrantyEndDate } = req.body;
-      
-      const ticketData: any = {};
-      
-      if (customerId !== undefined) ticketData.customerId = customerId;
-      if (deviceType !== undefined) ticketData.deviceType = deviceType;
-      if (deviceBrand !== undefined) ticketData.deviceBrand = deviceBrand || null;
-      if (deviceModel !== undefined) ticketData.deviceModel = deviceModel || null;
-      if (serialNumber !== undefined) ticketData.serialNumber = serialNumber || null;
-      if (completeness !== undefined) ticketData.completeness = completeness || null;
-      if (problem !== undefined) ticketData.problem = problem;
-      if (diagnosis !== undefined) ticketData.diagnosis = diagnosis || null;
-      if (solution !== undefined) ticketData.solution = solution || null;
-      if (status !== undefined) ticketData.status = status;
-      if (technicianId !== undefined) ticketData.technicianId = technicianId || null;
-      if (estimatedCost !== undefined) ticketData.estimatedCost = estimatedCost ? String(estimatedCost) : null;
-      if (laborCost !== undefined) ticketData.laborCost = laborCost ? String(laborCost) : null;
-      
-      // Handle warranty fields with proper Date conversion
-      if (warrantyDuration !== undefined) ticketData.warrantyDuration = warrantyDuration;
-      if (warrantyStartDate !== undefined) {
-        ticketData.warrantyStartDate = warrantyStartDate ? new Date(warrantyStartDate) : null;
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-      if (warrantyEndDate !== undefined) {
-        ticketData.warrantyEndDate = warrantyEndDate ? new Date(warrantyEndDate) : null;
+
+      const input = resolveSupplierRmaSchema.parse(req.body);
+      const rma = await storage.resolveSupplierRma(req.params.id, input, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'supplier-rmas',
+        action: 'update',
+        data: rma,
+        id: rma.id
+      });
+      if (input.outcome === 'repaired' || input.outcome === 'replaced') {
+        realtimeService.broadcastToTenant(req.clientId, {
+          resource: 'products',
+          action: 'update',
+          id: rma.productId
+        });
+      }
+
+      res.json(rma);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error resolving supplier RMA:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to resolve supplier RMA" });
+    }
+  });
+
+  // Transaction routes
+  app.get('/api/transactions', isAuthenticated, requirePermission('transactions_view', 'pos_access'), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const transactions = await storage.getTransactions(limit);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  app.get('/api/transactions/:id', isAuthenticated, requirePermission('transactions_view', 'pos_access'), async (req, res) => {
+    try {
+      const transaction = await storage.getTransactionById(req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
       }
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error fetching transaction:", error);
+      res.status(500).json({ message: "Failed to fetch transaction" });
+    }
+  });
+
+  const createTransactionSchema = z.object({
+    transaction: insertTransactionSchema,
+    items: z.array(insertTransactionItemSchema),
+    installment: installmentPlanInputSchema.optional(),
+    payments: z.array(transactionPaymentInputSchema).optional(),
+  });
+
+  app.post('/api/transactions', isAuthenticated, requirePermission('transactions_create'), async (req: any, res) => {
+    try {
+      console.log("Raw request body:", JSON.stringify(req.body, null, 2));
       
-      console.log("Processed update data:", JSON.stringify(ticketData, null, 2));
+      const { transaction: transactionData, items, installment, payments } = createTransactionSchema.parse(req.body);
       
-      // Get old ticket for status comparison
-      const oldTicket = await storage.getServiceTicketById(req.params.id);
-      const userId = req.session.user?.id;
+      console.log("Parsed transaction data:", JSON.stringify(transactionData, null, 2));
+      console.log("Parsed items:", JSON.stringify(items, null, 2));
       
-      console.log("Session data:", { 
-        sessionExists: !!req.session, 
-        userExists: !!req.session.user, 
-        userId: userId,
-        sessionId: req.sessionID 
-      });
+      // Generate transaction number
+      const transactionNumber = `TRX-${Date.now()}`;
       
-      if (!userId) {
-        console.error("No user ID in session for service ticket update");
-        return res.status(401).json({ message: "User session invalid. Please login again." });
-      }
+      // Normalize warranty dates to Date objects for database compatibility
+      const normalize = (v: any) => (v ? new Date(v) : null);
+      const normalizedData = {
+        ...transactionData,
+        warrantyStartDate: normalize(transactionData.warrantyStartDate),
+        warrantyEndDate: normalize(transactionData.warrantyEndDate)
+      };
       
-      const ticket = await storage.updateServiceTicket(req.params.id, ticketData, parts, userId);
+      console.log("DEBUG - Warranty dates after normalization:");
+      console.log("- warrantyStartDate:", normalizedData.warrantyStartDate, "Type:", typeof normalizedData.warrantyStartDate);
+      console.log("- warrantyEndDate:", normalizedData.warrantyEndDate, "Type:", typeof normalizedData.warrantyEndDate);
+      console.log("- Is warrantyStartDate a Date?", normalizedData.warrantyStartDate instanceof Date);
+      console.log("- Is warrantyEndDate a Date?", normalizedData.warrantyEndDate instanceof Date);
       
-      // Send WhatsApp notification for status change (async, don't block response)
-      if (status !== undefined && oldTicket && status !== oldTicket.status) {
-        setImmediate(async () => {
-          try {
-            const config = await storage.getStoreConfig();
-            console.log(`🔄 Status update notification for ticket ${ticket.ticketNumber}: ${oldTicket.status} → ${status}`);
-            
-            if (config?.whatsappEnabled && whatsappService.isConnected()) {
-              console.log(`WhatsApp enabled and connected, getting customer data...`);
-              const customer = await storage.getCustomerById(ticket.customerId);
-              
-              if (customer?.phone) {
-                console.log(`Sending status update notification to ${customer.phone}...`);
-                await whatsappService.sendServiceStatusNotification(
-                  customer.phone,
-                  ticket,
-                  customer,
-                  config
-                );
-              } else {
-                console.log('No phone number for customer, skipping WhatsApp status notification');
-              }
-            } else {
-              console.log('WhatsApp not enabled or not connected, skipping status notification');
-            }
-          } catch (error) {
-            console.error('Error sending WhatsApp notification for status change:', error);
-          }
-        });
+      // POS sales go through the cashier's open shift so the drawer can be reconciled
+      const openShift = await storage.getOpenShift(req.session.user?.id);
+      if (!openShift) {
+        return res.status(400).json({ message: "Belum ada shift kasir yang terbuka. Buka shift terlebih dahulu" });
       }
+
+      // Add transaction number and user ID to transaction data
+      const completeTransactionData = {
+        ...normalizedData,
+        transactionNumber,
+        userId: req.session.user?.id,
+        shiftId: openShift.id,
+        clientId: resolveClientIdFromRequest(req)
+      };
       
-      res.json(ticket);
+      const transaction = await storage.createTransaction(
+        completeTransactionData,
+        items,
+        installment,
+        payments
+      );
+      
+      res.json(transaction);
     } catch (error) {
-      console.error("Error updating service ticket:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update service ticket" });
+      console.error("Error creating transaction:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof Error) {
+        console.error("Error stack:", error.stack);
+      }
+      res.status(500).json({ message: "Failed to create transaction" });
     }
   });
 
-  // Delete service ticket
-  app.delete('/api/service-tickets/:id', isAuthenticated, async (req, res) => {
+  // POS returns & exchanges
+  app.get('/api/returns', isAuthenticated, requirePermission('transactions_view', 'pos_access'), async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteServiceTicket(id);
-      res.json({ message: "Service ticket deleted successfully" });
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const returns = await storage.getSalesReturns(limit);
+      res.json(returns);
     } catch (error) {
-      console.error("Error deleting service ticket:", error);
-      res.status(500).json({ message: "Failed to delete service ticket" });
+      console.error("Error fetching sales returns:", error);
+      res.status(500).json({ message: "Failed to fetch sales returns" });
     }
   });
 
-  // Cancel service ticket with 3 different scenarios - Enhanced with Zod validation
-  app.post('/api/service-tickets/:id/cancel', isAuthenticated, async (req: any, res) => {
+  app.get('/api/returns/lookup', isAuthenticated, requirePermission('transactions_view', 'pos_access'), async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Zod validation for request body
-      const validationResult = serviceCancellationSchema.safeParse({
-        ...req.body,
-        userId: req.session.user.id
-      });
-      
-      if (!validationResult.success) {
-        const errorMessages = validationResult.error.errors.map(err => err.message);
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: errorMessages 
-        });
+      const transactionNumber = typeof req.query.transactionNumber === 'string' ? req.query.transactionNumber : '';
+      if (!transactionNumber.trim()) {
+        return res.status(400).json({ message: "transactionNumber is required" });
       }
-      
-      const { cancellationFee, cancellationReason, cancellationType } = validationResult.data;
 
-      // Get service ticket for business rule validation
-      const existingTicket = await storage.getServiceTicketById(id);
-      if (!existingTicket) {
-        return res.status(404).json({ message: "Service ticket not found" });
+      const transaction = await storage.getReturnableTransaction(transactionNumber);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaksi penjualan tidak ditemukan" });
       }
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error looking up transaction for return:", error);
+      res.status(500).json({ message: "Failed to look up transaction" });
+    }
+  });
 
-      // Business rule validation
-      const ticketValidation = await validateCancellationBusinessRules.validateTicketEligibility(id, existingTicket);
-      if (!ticketValidation.isValid) {
-        return res.status(400).json({ 
-          message: "Business rule validation failed", 
-          errors: ticketValidation.errors 
+  app.post('/api/returns', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      if (!await storage.getOpenShift(userId)) {
+        return res.status(400).json({ message: "Belum ada shift kasir yang terbuka. Buka shift terlebih dahulu" });
+      }
+
+      const input = salesReturnInputSchema.parse(req.body);
+      const returnTransaction = await storage.createSalesReturn(input, userId, resolveClientIdFromRequest(req));
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'transactions',
+        action: 'create',
+        data: returnTransaction,
+      });
+
+      res.json(returnTransaction);
+    } catch (error) {
+      console.error("Error creating sales return:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create sales return" });
+    }
+  });
+
+  // Cashier shifts & cash drawer
+  app.get('/api/shifts/current', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const shift = await storage.getOpenShift(req.session.user?.id);
+      res.json(shift ?? null);
+    } catch (error) {
+      console.error("Error fetching current shift:", error);
+      res.status(500).json({ message: "Failed to fetch current shift" });
+    }
+  });
+
+  app.get('/api/shifts', isAuthenticated, requirePermission('pos_access', 'financial_view'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+      const shifts = await storage.getCashierShifts({ status, userId });
+      res.json(shifts);
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+      res.status(500).json({ message: "Failed to fetch shifts" });
+    }
+  });
+
+  app.post('/api/shifts', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const input = openCashierShiftSchema.parse(req.body);
+      const shift = await storage.openCashierShift(userId, input, resolveClientIdFromRequest(req));
+      res.json(shift);
+    } catch (error) {
+      console.error("Error opening shift:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to open shift" });
+    }
+  });
+
+  app.post('/api/shifts/:id/cash-movements', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const input = insertShiftCashMovementSchema.parse(req.body);
+      const movement = await storage.recordShiftCashMovement(req.params.id, input, userId);
+      res.json(movement);
+    } catch (error) {
+      console.error("Error recording shift cash movement:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record cash movement" });
+    }
+  });
+
+  app.get('/api/shifts/:id/report', isAuthenticated, requirePermission('pos_access', 'financial_view'), async (req, res) => {
+    try {
+      const report = await storage.getShiftReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Shift tidak ditemukan" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching shift report:", error);
+      res.status(500).json({ message: "Failed to fetch shift report" });
+    }
+  });
+
+  app.post('/api/shifts/:id/close', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const input = closeCashierShiftSchema.parse(req.body);
+      const canCloseOthers = hasPermission(await resolveRequestPermissions(req), 'financial_full');
+      const report = await storage.closeCashierShift(req.params.id, input, userId, canCloseOthers);
+      res.json(report);
+    } catch (error) {
+      console.error("Error closing shift:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to close shift" });
+    }
+  });
+
+  // Parked (held) POS carts - shared by every terminal of the tenant
+  app.get('/api/parked-carts', isAuthenticated, requirePermission('pos_access'), async (req, res) => {
+    try {
+      const carts = await storage.getParkedCarts();
+      res.json(carts);
+    } catch (error) {
+      console.error("Error fetching parked carts:", error);
+      res.status(500).json({ message: "Failed to fetch parked carts" });
+    }
+  });
+
+  app.post('/api/parked-carts', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const input = parkCartSchema.parse(req.body);
+      const cart = await storage.parkCart(input, userId, resolveClientIdFromRequest(req));
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'parked-carts',
+        action: 'create',
+        data: cart,
+      });
+
+      res.json(cart);
+    } catch (error) {
+      console.error("Error parking cart:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to park cart" });
+    }
+  });
+
+  app.post('/api/parked-carts/:id/resume', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const cart = await storage.resumeParkedCart(req.params.id, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'parked-carts',
+        action: 'update',
+        data: cart,
+      });
+
+      res.json(cart);
+    } catch (error) {
+      console.error("Error resuming parked cart:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to resume parked cart" });
+    }
+  });
+
+  app.delete('/api/parked-carts/:id', isAuthenticated, requirePermission('pos_access'), async (req: any, res) => {
+    try {
+      await storage.cancelParkedCart(req.params.id);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'parked-carts',
+        action: 'delete',
+        data: { id: req.params.id },
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling parked cart:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel parked cart" });
+    }
+  });
+
+  // Installment (customer receivable) routes
+  app.get('/api/installment-plans', isAuthenticated, requirePermission('pos_access', 'financial_view'), async (req, res) => {
+    try {
+      const customerId = typeof req.query.customerId === 'string' ? req.query.customerId : undefined;
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      const plans = await storage.getInstallmentPlans({ customerId, status });
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching installment plans:", error);
+      res.status(500).json({ message: "Failed to fetch installment plans" });
+    }
+  });
+
+  app.get('/api/installment-plans/:id', isAuthenticated, requirePermission('pos_access', 'financial_view'), async (req, res) => {
+    try {
+      const plan = await storage.getInstallmentPlanById(req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Installment plan not found" });
+      }
+      res.json(plan);
+    } catch (error) {
+      console.error("Error fetching installment plan:", error);
+      res.status(500).json({ message: "Failed to fetch installment plan" });
+    }
+  });
+
+  app.post('/api/installment-plans/:id/payments', isAuthenticated, requirePermission('pos_access', 'financial_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const paymentData = insertInstallmentPaymentSchema.parse({
+        ...req.body,
+        clientId: resolveClientIdFromRequest(req),
+      });
+      const payment = await storage.recordInstallmentPayment(req.params.id, paymentData, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'installment-plans',
+        action: 'update',
+        data: payment,
+        id: req.params.id
+      });
+
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: "Validation error",
+          errors: error.errors
         });
       }
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
 
-      // Warranty specific validation
-      if (cancellationType === 'warranty_refund') {
-        const warrantyValidation = await validateCancellationBusinessRules.validateWarrantyEligibility(id, existingTicket);
-        if (!warrantyValidation.isValid) {
-          return res.status(400).json({ 
-            message: "Warranty validation failed", 
-            errors: warrantyValidation.errors 
-          });
+      console.error("Error recording installment payment:", error);
+      res.status(500).json({ message: "Failed to record installment payment" });
+    }
+  });
+
+  app.get('/api/receivables/aging', isAuthenticated, requirePermission('pos_access', 'financial_view'), async (req, res) => {
+    try {
+      const asOf = typeof req.query.asOf === 'string' ? new Date(req.query.asOf) : new Date();
+      if (Number.isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Invalid asOf date" });
+      }
+
+      const report = await storage.getReceivablesAging(asOf);
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching receivables aging:", error);
+      res.status(500).json({ message: "Failed to fetch receivables aging" });
+    }
+  });
+
+  // Send WhatsApp reminders for overdue installments (at most once a day per term)
+  app.post('/api/receivables/reminders', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
+    try {
+      const config = await storage.getStoreConfig();
+      if (!config?.whatsappEnabled || !whatsappService.isConnected()) {
+        return res.status(400).json({ message: "WhatsApp not enabled or not connected" });
+      }
+
+      const reminderCutoff = Date.now() - 24 * 60 * 60 * 1000;
+      const overdue = (await storage.getOverdueInstallments()).filter(row =>
+        !row.schedule.lastReminderAt || new Date(row.schedule.lastReminderAt).getTime() < reminderCutoff
+      );
+
+      const byPlan = new Map<string, typeof overdue>();
+      overdue.forEach(row => byPlan.set(row.planId, [...(byPlan.get(row.planId) || []), row]));
+
+      let sent = 0;
+      let skipped = 0;
+      let failed = 0;
+      for (const rows of Array.from(byPlan.values())) {
+        const [first] = rows;
+        if (!first.customer.phone) {
+          skipped++;
+          continue;
+        }
+
+        const delivered = await whatsappService.sendInstallmentReminder(
+          first.customer.phone,
+          {
+            customerName: first.customer.name,
+            planNumber: first.planNumber,
+            transactionNumber: first.transactionNumber,
+            terms: rows.map(row => ({
+              termNumber: row.schedule.termNumber,
+              dueDate: row.schedule.dueDate,
+              outstanding: row.outstanding,
+            })),
+          },
+          config
+        );
+
+        if (delivered) {
+          sent++;
+          await storage.markInstallmentRemindersSent(rows.map(row => row.schedule.id));
+        } else {
+          failed++;
         }
       }
 
-      // Status-specific validation based on cancellation type  
-      if (cancellationType === 'after_completed' && existingTicket.status !== 'completed' && existingTicket.status !== 'delivered') {
-        return res.status(400).json({
-          message: "Cannot cancel with 'after_completed' type - service ticket is not completed"
+      res.json({ sent, skipped, failed });
+    } catch (error) {
+      console.error("Error sending installment reminders:", error);
+      res.status(500).json({ message: "Failed to send installment reminders" });
+    }
+  });
+
+  // Uploaded photos arrive as signed upload URLs; store them as /objects/ paths, public when customers may see them
+  const normalizeServicePhotos = async (photos: string[], userId: string, customerVisible: boolean) => {
+    const objectStorageService = new ObjectStorageService();
+    return Promise.all(photos.map(async (photo) => {
+      try {
+        return await objectStorageService.trySetObjectEntityAclPolicy(photo, {
+          owner: userId,
+          visibility: customerVisible ? "public" : "private",
         });
+      } catch (error) {
+        console.error("Error setting service photo ACL:", error);
+        return objectStorageService.normalizeObjectEntityPath(photo);
       }
+    }));
+  };
 
-      if (cancellationType === 'warranty_refund') {
-        if (existingTicket.status !== 'completed' && existingTicket.status !== 'delivered') {
-          return res.status(400).json({
-            message: "Cannot cancel with 'warranty_refund' type - service ticket must be completed or under warranty claim"
-          });
+  // Sends the WhatsApp status update without blocking the response
+  const notifyServiceStatusChange = (ticket: ServiceTicket, previousStatus: string | null) => {
+    setImmediate(async () => {
+      try {
+        const config = await storage.getStoreConfig();
+        console.log(`🔄 Status update notification for ticket ${ticket.ticketNumber}: ${previousStatus} → ${ticket.status}`);
+        
+        if (config?.whatsappEnabled && whatsappService.isConnected()) {
+          console.log(`WhatsApp enabled and connected, getting customer data...`);
+          const customer = await storage.getCustomerById(ticket.customerId);
+          
+          if (customer?.phone) {
+            console.log(`Sending status update notification to ${customer.phone}...`);
+            await whatsappService.sendServiceStatusNotification(
+              customer.phone,
+              ticket,
+              customer,
+              config
+            );
+          } else {
+            console.log('No phone number for customer, skipping WhatsApp status notification');
+          }
+        } else {
+          console.log('WhatsApp not enabled or not connected, skipping status notification');
         }
+      } catch (error) {
+        console.error('Error sending WhatsApp notification for status change:', error);
+      }
+    });
+  };
+
+  // Sends a quote's approval link to the customer; false when WhatsApp is off or the customer has no phone
+  const sendServiceQuoteLink = async (quote: ServiceQuote) => {
+    const config = await storage.getStoreConfig();
+    if (!config?.whatsappEnabled || !whatsappService.isConnected()) {
+      return false;
+    }
+
+    const ticket = await storage.getServiceTicketById(quote.serviceTicketId);
+    const customer = ticket ? await storage.getCustomerById(ticket.customerId) : undefined;
+    if (!ticket || !customer?.phone) {
+      return false;
+    }
+
+    const sent = await whatsappService.sendServiceQuoteNotification(
+      customer.phone,
+      ticket,
+      customer,
+      {
+        quoteNumber: quote.quoteNumber,
+        items: quote.items as ServiceQuoteItem[],
+        laborCost: quote.laborCost,
+        taxAmount: quote.taxAmount,
+        totalAmount: quote.totalAmount,
+        validUntil: quote.validUntil,
+      },
+      `${getPublicBaseUrl()}/service-quote/${quote.token}`,
+      config
+    );
+    if (sent) {
+      await storage.markServiceQuoteSent(quote.id);
+    }
+    return sent;
+  };
+
+  // Service Ticket routes
+  app.get('/api/service-tickets', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const { active } = req.query;
+      let tickets;
+      
+      if (active === 'true') {
+        tickets = await storage.getActiveServiceTickets();
+      } else {
+        tickets = await storage.getServiceTickets();
       }
+      
+      res.json(tickets);
+    } catch (error) {
+      console.error("Error fetching service tickets:", error);
+      res.status(500).json({ message: "Failed to fetch service tickets" });
+    }
+  });
 
-      // Execute cancellation
-      const result = await storage.cancelServiceTicket(id, {
-        cancellationFee: cancellationFee,
-        cancellationReason: cancellationReason,
-        cancellationType,
-        userId: req.session.user.id
-      });
+  app.get('/api/service-tickets/:id', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const ticket = await storage.getServiceTicketById(req.params.id);
+      if (!ticket) {
+        return res.status(404).json({ message: "Service ticket not found" });
+      }
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error fetching service ticket:", error);
+      res.status(500).json({ message: "Failed to fetch service ticket" });
+    }
+  });
+
+  app.post('/api/service-tickets', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      console.log("Raw request body:", JSON.stringify(req.body, null, 2));
+      
+      // Use proper schema validation to include warranty fields
+      const ticketData = insertServiceTicketSchema.parse(req.body);
+      if (ticketData.intakeChecklist?.photos.length) {
+        ticketData.intakeChecklist.photos = await normalizeServicePhotos(ticketData.intakeChecklist.photos, req.session.user?.id, false);
+      }
+      
+      console.log("Processed ticket data:", JSON.stringify(ticketData, null, 2));
+      
+      // Generate ticket number
+      const ticketNumber = `SVC-${Date.now()}`;
+
+      const ticket = await storage.createServiceTicket({
+        ...ticketData,
+        ticketNumber,
+        clientId: resolveClientIdFromRequest(req)
+      }, req.session.user?.id);
+      
+      // Send WhatsApp notification for new service (async, don't block response)
+      setImmediate(async () => {
+        try {
+          const config = await storage.getStoreConfig();
+          console.log(`🔔 Service creation notification for ticket ${ticket.ticketNumber}`);
+          
+          if (config?.whatsappEnabled && whatsappService.isConnected()) {
+            console.log(`WhatsApp enabled and connected, getting customer data...`);
+            const customer = await storage.getCustomerById(ticket.customerId);
+            
+            if (customer?.phone) {
+              console.log(`Sending service creation notification to ${customer.phone}...`);
+              await whatsappService.sendServiceCreatedNotification(
+                customer.phone,
+                ticket,
+                customer,
+                config
+              );
+            } else {
+              console.log('No phone number for customer, skipping WhatsApp notification');
+            }
+          } else {
+            console.log('WhatsApp not enabled or not connected, skipping notification');
+          }
+        } catch (error) {
+          console.error('Error sending WhatsApp notification for new service:', error);
+        }
+      });
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'create',
+        data: ticket,
+        id: ticket.id
+      });
+      
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error creating service ticket:", error);
+      res.status(500).json({ message: "Failed to create service ticket" });
+    }
+  });
+
+  app.put('/api/service-tickets/:id', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      console.log("Raw update body:", JSON.stringify(req.body, null, 2));
+      
+      // Manual validation and transformation for update
+      const { customerId, deviceType, deviceBrand, deviceModel, serialNumber, completeness, intakeChecklist, problem, diagnosis, solution, status, technicianId, estimatedCost, laborCost, parts, warrantyDuration, warrantyStartDate, warrantyEndDate, statusNote } = req.body;
+      
+      const ticketData: any = {};
+      
+      if (customerId !== undefined) ticketData.customerId = customerId;
+      if (deviceType !== undefined) ticketData.deviceType = deviceType;
+      if (deviceBrand !== undefined) ticketData.deviceBrand = deviceBrand || null;
+      if (deviceModel !== undefined) ticketData.deviceModel = deviceModel || null;
+      if (serialNumber !== undefined) ticketData.serialNumber = serialNumber || null;
+      if (completeness !== undefined) ticketData.completeness = completeness || null;
+      if (intakeChecklist !== undefined) {
+        ticketData.intakeChecklist = intakeChecklist ? serviceIntakeChecklistSchema.parse(intakeChecklist) : null;
+      }
+      if (problem !== undefined) ticketData.problem = problem;
+      if (diagnosis !== undefined) ticketData.diagnosis = diagnosis || null;
+      if (solution !== undefined) ticketData.solution = solution || null;
+      if (status !== undefined) ticketData.status = status;
+      if (technicianId !== undefined) ticketData.technicianId = technicianId || null;
+      if (estimatedCost !== undefined) ticketData.estimatedCost = estimatedCost ? String(estimatedCost) : null;
+      if (laborCost !== undefined) ticketData.laborCost = laborCost ? String(laborCost) : null;
+      
+      // Handle warranty fields with proper Date conversion
+      if (warrantyDuration !== undefined) ticketData.warrantyDuration = warrantyDuration;
+      if (warrantyStartDate !== undefined) {
+        ticketData.warrantyStartDate = warrantyStartDate ? new Date(warrantyStartDate) : null;
+      }
+      if (warrantyEndDate !== undefined) {
+        ticketData.warrantyEndDate = warrantyEndDate ? new Date(warrantyEndDate) : null;
+      }
+      
+      console.log("Processed update data:", JSON.stringify(ticketData, null, 2));
+      
+      // Get old ticket for status comparison
+      const oldTicket = await storage.getServiceTicketById(req.params.id);
+      const userId = req.session.user?.id;
+      
+      console.log("Session data:", { 
+        sessionExists: !!req.session, 
+        userExists: !!req.session.user, 
+        userId: userId,
+        sessionId: req.sessionID 
+      });
+      
+      if (!userId) {
+        console.error("No user ID in session for service ticket update");
+        return res.status(401).json({ message: "User session invalid. Please login again." });
+      }
+      
+      if (ticketData.intakeChecklist?.photos.length) {
+        ticketData.intakeChecklist.photos = await normalizeServicePhotos(ticketData.intakeChecklist.photos, userId, false);
+      }
+
+      let historyNote;
+      if (statusNote?.note || statusNote?.photos?.length) {
+        const parsedNote = serviceStatusNoteSchema.parse(statusNote);
+        historyNote = {
+          ...parsedNote,
+          photos: await normalizeServicePhotos(parsedNote.photos, userId, parsedNote.customerVisible),
+        };
+      }
+
+      const ticket = await storage.updateServiceTicket(req.params.id, ticketData, parts, userId, historyNote);
+      
+      // Send WhatsApp notification for status change (async, don't block response)
+      if (status !== undefined && oldTicket && status !== oldTicket.status) {
+        notifyServiceStatusChange(ticket, oldTicket.status);
+      }
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+      
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error updating service ticket:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update service ticket" });
+    }
+  });
+
+  const intakeSignatureSchema = z.object({
+    signature: z.string().startsWith('data:image/png;base64,', "Format tanda tangan tidak valid").max(500_000),
+  });
+
+  app.put('/api/service-tickets/:id/intake-signature', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const { signature } = intakeSignatureSchema.parse(req.body);
+      const ticket = await storage.saveServiceIntakeSignature(req.params.id, signature);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Tanda tangan tidak valid", errors: error.errors });
+      }
+      console.error("Error saving intake signature:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save intake signature" });
+    }
+  });
+
+  // Handover at pickup, checked against the intake checklist
+  app.post('/api/service-tickets/:id/handover', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const check = serviceHandoverCheckSchema.parse(req.body);
+      const ticket = await storage.handOverServiceTicket(req.params.id, check, req.session.user?.id);
+
+      notifyServiceStatusChange(ticket, 'completed');
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Data serah terima tidak valid", errors: error.errors });
+      }
+      console.error("Error handing over service ticket:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to hand over service ticket" });
+    }
+  });
+
+  // Delete service ticket
+  app.delete('/api/service-tickets/:id', isAuthenticated, requirePermission('service_tickets_full'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      await storage.deleteServiceTicket(id, userId);
+      res.json({ message: "Service ticket deleted successfully" });
+    } catch (error) {
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error deleting service ticket:", error);
+      res.status(500).json({ message: "Failed to delete service ticket" });
+    }
+  });
+
+  // Cancel service ticket with 3 different scenarios - Enhanced with Zod validation
+  app.post('/api/service-tickets/:id/cancel', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      
+      // Zod validation for request body
+      const validationResult = serviceCancellationSchema.safeParse({
+        ...req.body,
+        userId: req.session.user.id
+      });
+      
+      if (!validationResult.success) {
+        const errorMessages = validationResult.error.errors.map(err => err.message);
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: errorMessages 
+        });
+      }
+      
+      const { cancellationFee, cancellationReason, cancellationType } = validationResult.data;
+
+      // Get service ticket for business rule validation
+      const existingTicket = await storage.getServiceTicketById(id);
+      if (!existingTicket) {
+        return res.status(404).json({ message: "Service ticket not found" });
+      }
+
+      // Business rule validation
+      const ticketValidation = await validateCancellationBusinessRules.validateTicketEligibility(id, existingTicket);
+      if (!ticketValidation.isValid) {
+        return res.status(400).json({ 
+          message: "Business rule validation failed", 
+          errors: ticketValidation.errors 
+        });
+      }
+
+      // Warranty specific validation
+      if (cancellationType === 'warranty_refund') {
+        const warrantyValidation = await validateCancellationBusinessRules.validateWarrantyEligibility(id, existingTicket);
+        if (!warrantyValidation.isValid) {
+          return res.status(400).json({ 
+            message: "Warranty validation failed", 
+            errors: warrantyValidation.errors 
+          });
+        }
+      }
+
+      // Status-specific validation based on cancellation type  
+      if (cancellationType === 'after_completed' && existingTicket.status !== 'completed' && existingTicket.status !== 'delivered') {
+        return res.status(400).json({
+          message: "Cannot cancel with 'after_completed' type - service ticket is not completed"
+        });
+      }
+
+      if (cancellationType === 'warranty_refund') {
+        if (existingTicket.status !== 'completed' && existingTicket.status !== 'delivered') {
+          return res.status(400).json({
+            message: "Cannot cancel with 'warranty_refund' type - service ticket must be completed or under warranty claim"
+          });
+        }
+      }
+
+      // Execute cancellation
+      const result = await storage.cancelServiceTicket(id, {
+        cancellationFee: cancellationFee,
+        cancellationReason: cancellationReason,
+        cancellationType,
+        userId: req.session.user.id
+      });
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.message || "Failed to cancel service ticket" });
+      }
+
+      // Broadcast realtime update
+      realtimeService.broadcastToTenant(undefined, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: { id, cancellationType, reason: cancellationReason },
+        id: id
+      });
+
+      res.json({ 
+        message: result.message || "Service ticket cancelled successfully",
+        success: true,
+        cancellationType,
+        cancellationFee: parseFloat(cancellationFee)
+      });
+
+    } catch (error) {
+      console.error("Error cancelling service ticket:", error);
+      res.status(500).json({ 
+        message: error instanceof Error ? error.message : "Failed to cancel service ticket" 
+      });
+    }
+  });
+
+  // Technician job board
+  app.get('/api/service-board', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const board = await storage.getServiceBoard();
+      res.json(board);
+    } catch (error) {
+      console.error("Error fetching service board:", error);
+      res.status(500).json({ message: "Failed to fetch service board" });
+    }
+  });
+
+  const serviceBoardStatusSchema = z.object({
+    status: z.enum(SERVICE_STATUS_VALUES),
+    note: z.string().trim().max(2000).optional(),
+  });
+
+  const serviceBoardAssignSchema = z.object({
+    technicianId: z.string().min(1).nullable(),
+  });
+
+  // Status change from the board; cancellation keeps its own flow because it needs a fee and reason
+  app.patch('/api/service-tickets/:id/status', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const { status, note } = serviceBoardStatusSchema.parse(req.body);
+      if (status === 'cancelled') {
+        return res.status(400).json({ message: "Gunakan menu Batalkan Servis untuk membatalkan tiket" });
+      }
+
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User session invalid. Please login again." });
+      }
+
+      const existing = await storage.getServiceTicketById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Service ticket not found" });
+      }
+      if (existing.status === 'cancelled') {
+        return res.status(400).json({ message: "Tiket servis yang dibatalkan tidak dapat dipindahkan" });
+      }
+
+      // Completing consumes the parts held for the ticket
+      const ticket = await storage.updateServiceTicket(existing.id, { status }, undefined, userId, note ? { note } : undefined);
+
+      if (status !== existing.status) {
+        notifyServiceStatusChange(ticket, existing.status);
+      }
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Status tidak valid", errors: error.errors });
+      }
+      console.error("Error updating service ticket status:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update service ticket status" });
+    }
+  });
+
+  app.patch('/api/service-tickets/:id/assign', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const { technicianId } = serviceBoardAssignSchema.parse(req.body);
+      const ticket = await storage.assignServiceTicket(req.params.id, technicianId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Data teknisi tidak valid", errors: error.errors });
+      }
+      console.error("Error assigning service ticket:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to assign service ticket" });
+    }
+  });
+
+  app.post('/api/service-tickets/:id/auto-assign', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const ticket = await storage.autoAssignServiceTicket(req.params.id);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error auto-assigning service ticket:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to auto-assign service ticket" });
+    }
+  });
+
+  // Status history timeline
+  app.get('/api/service-tickets/:id/history', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const history = await storage.getServiceStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching service ticket history:", error);
+      res.status(500).json({ message: "Failed to fetch service ticket history" });
+    }
+  });
+
+  app.post('/api/service-tickets/:id/history', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User session invalid. Please login again." });
+      }
+
+      const note = serviceStatusNoteSchema.parse(req.body);
+      const entry = await storage.addServiceStatusNote(req.params.id, {
+        ...note,
+        photos: await normalizeServicePhotos(note.photos, userId, note.customerVisible),
+      }, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: entry,
+        id: req.params.id
+      });
+
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Catatan tidak valid", errors: error.errors });
+      }
+      console.error("Error adding service ticket note:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to add service ticket note" });
+    }
+  });
+
+  // Repair quotations
+  app.get('/api/service-tickets/:id/quotes', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const quotes = await storage.getServiceQuotes(req.params.id);
+      res.json(quotes.map(quote => ({
+        ...quote,
+        publicUrl: `${getPublicBaseUrl()}/service-quote/${quote.token}`,
+      })));
+    } catch (error) {
+      console.error("Error fetching service quotes:", error);
+      res.status(500).json({ message: "Failed to fetch service quotes" });
+    }
+  });
+
+  app.post('/api/service-tickets/:id/quotes', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const input = createServiceQuoteSchema.parse(req.body);
+      const quote = await storage.createServiceQuote(req.params.id, input, req.session.user?.id);
+
+      let whatsappSent = false;
+      if (req.body.sendWhatsApp !== false) {
+        try {
+          whatsappSent = await sendServiceQuoteLink(quote);
+        } catch (error) {
+          console.error("Error sending service quote over WhatsApp:", error);
+        }
+      }
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: quote,
+        id: req.params.id
+      });
+
+      res.json({
+        ...quote,
+        publicUrl: `${getPublicBaseUrl()}/service-quote/${quote.token}`,
+        whatsappSent,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Data penawaran tidak valid", errors: error.errors });
+      }
+      console.error("Error creating service quote:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create service quote" });
+    }
+  });
+
+  app.post('/api/service-quotes/:id/send', isAuthenticated, requirePermission('service_tickets_full'), async (req, res) => {
+    try {
+      const quote = await storage.getServiceQuoteById(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Penawaran tidak ditemukan" });
+      }
+      if (quote.status !== 'sent') {
+        return res.status(400).json({ message: "Penawaran sudah dijawab atau diganti" });
+      }
+
+      const whatsappSent = await sendServiceQuoteLink(quote);
+      if (!whatsappSent) {
+        return res.status(400).json({ message: "WhatsApp belum terhubung atau pelanggan tidak memiliki nomor telepon" });
+      }
+
+      res.json({ success: true, whatsappSent });
+    } catch (error) {
+      console.error("Error sending service quote:", error);
+      res.status(500).json({ message: "Failed to send service quote" });
+    }
+  });
+
+  // Parts a waiting-parts ticket needs; purchasing turns them into draft purchase orders
+  app.get('/api/service-tickets/:id/part-requests', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const requests = await storage.getServicePartRequests({ serviceTicketId: req.params.id });
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching service part requests:", error);
+      res.status(500).json({ message: "Failed to fetch service part requests" });
+    }
+  });
+
+  app.post('/api/service-tickets/:id/part-requests', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
+    try {
+      const input = createServicePartRequestSchema.parse(req.body);
+      const { request, ticket, previousStatus } = await storage.createServicePartRequest(req.params.id, input, req.session.user?.id);
+
+      if (ticket.status !== previousStatus) {
+        notifyServiceStatusChange(ticket, previousStatus);
+      }
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: ticket,
+        id: ticket.id
+      });
+
+      res.json(request);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || "Data permintaan sparepart tidak valid", errors: error.errors });
+      }
+      console.error("Error creating service part request:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create service part request" });
+    }
+  });
+
+  app.post('/api/service-part-requests/:id/cancel', isAuthenticated, requirePermission('service_tickets_full'), async (req, res) => {
+    try {
+      const request = await storage.cancelServicePartRequest(req.params.id);
+      res.json(request);
+    } catch (error) {
+      console.error("Error cancelling service part request:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel service part request" });
+    }
+  });
+
+  app.get('/api/service-part-requests', isAuthenticated, requirePermission('purchasing_view'), async (req, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status : undefined;
+      const requests = await storage.getServicePartRequests({ status });
+      res.json(requests);
+    } catch (error) {
+      console.error("Error fetching service part requests:", error);
+      res.status(500).json({ message: "Failed to fetch service part requests" });
+    }
+  });
+
+  app.post('/api/service-part-requests/create-orders', isAuthenticated, requirePermission('purchasing_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const result = await storage.createPurchaseOrdersFromPartRequests(userId);
+
+      for (const order of result.purchaseOrders) {
+        realtimeService.broadcastToTenant(req.clientId, {
+          resource: 'purchase_orders',
+          action: 'update',
+          data: order,
+          id: order.id
+        });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error creating purchase orders from part requests:", error);
+      res.status(500).json({ message: "Gagal membuat purchase order dari permintaan sparepart" });
+    }
+  });
+
+  // Get parts for a service ticket
+  app.get('/api/service-tickets/:id/parts', isAuthenticated, requirePermission('service_tickets_view'), async (req, res) => {
+    try {
+      const parts = await storage.getServiceTicketParts(req.params.id);
+      res.json(parts);
+    } catch (error) {
+      console.error("Error fetching service ticket parts:", error);
+      res.status(500).json({ message: "Failed to fetch service ticket parts" });
+    }
+  });
+
+  // Stock Movement routes
+  app.get('/api/stock-movements', isAuthenticated, requirePermission('inventory_view'), async (req, res) => {
+    try {
+      const { productId } = req.query;
+      const movements = await storage.getStockMovements(productId as string);
+      res.json(movements);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.post('/api/stock-movements', isAuthenticated, requirePermission('inventory_update_stock'), async (req: any, res) => {
+    try {
+      const movementData = insertStockMovementSchema.parse(req.body);
+      const movement = await storage.createStockMovement({
+        ...movementData,
+        userId: req.session.user.id,
+      });
+      res.json(movement);
+    } catch (error) {
+      console.error("Error creating stock movement:", error);
+      res.status(500).json({ message: "Failed to create stock movement" });
+    }
+  });
+
+
+  // User Management routes
+  app.get('/api/users', isAuthenticated, requirePermission('users_view', 'service_tickets_full'), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post('/api/users', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+    try {
+      const { username, email, firstName, lastName, password, role } = req.body;
+
+      // Validate required fields
+      if (!username || !email || !password || !role) {
+        return res.status(400).json({ 
+          message: "Username, email, password, dan role wajib diisi" 
+        });
+      }
+
+      // Check if username or email already exists
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username sudah digunakan" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(email);
+      if (existingEmail) {
+        return res.status(400).json({ message: "Email sudah digunakan" });
+      }
+
+      // Hash password
+      const hashedPassword = await hashPassword(password);
+
+      // Create user
+      const userData = {
+        username,
+        email,
+        firstName,
+        lastName,
+        password: hashedPassword,
+        role,
+        isActive: true
+      };
+
+      const user = await storage.createUser(userData);
+      
+      // Remove password from response
+      const { password: _, ...userResponse } = user;
+      
+      // Broadcast real-time update
+      realtimeService.broadcastToTenant(req.tenant?.id, {
+        resource: 'users',
+        action: 'create',
+        data: userResponse
+      });
+      
+      res.status(201).json(userResponse);
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put('/api/users/:id', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userData = req.body;
+      const user = await storage.updateUser(id, userData);
+      
+      // Broadcast real-time update
+      realtimeService.broadcastToTenant(req.tenant?.id, {
+        resource: 'users',
+        action: 'update',
+        data: user,
+        id
+      });
+      
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.delete('/api/users/:id', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteUser(id);
+      
+      // Broadcast real-time update
+      realtimeService.broadcastToTenant(req.tenant?.id, {
+        resource: 'users',
+        action: 'delete',
+        id
+      });
+      
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Failed to delete user" });
+    }
+  });
+
+  // Role Management routes
+  app.get('/api/roles', isAuthenticated, requirePermission('roles_view', 'users_view'), async (req, res) => {
+    try {
+      const roles = await storage.getRoles();
+      res.json(roles);
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ message: "Failed to fetch roles" });
+    }
+  });
+
+  app.post('/api/roles', isAuthenticated, requirePermission('roles_full'), async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.parse(req.body);
+      const role = await storage.createRole(roleData);
+      res.json(role);
+    } catch (error) {
+      console.error("Error creating role:", error);
+      res.status(500).json({ message: "Failed to create role" });
+    }
+  });
+
+  app.put('/api/roles/:id', isAuthenticated, requirePermission('roles_full'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const roleData = req.body;
+      const role = await storage.updateRole(id, roleData);
+      res.json(role);
+    } catch (error) {
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  app.delete('/api/roles/:id', isAuthenticated, requirePermission('roles_full'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteRole(id);
+      res.json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  // Audit Log
+  app.get('/api/audit-logs', isAuthenticated, requirePermission('audit_view'), async (req, res) => {
+    try {
+      const { entityType, entityId, userId, search, startDate, endDate, limit, offset } = req.query as Record<string, string | undefined>;
+      const end = endDate ? new Date(endDate) : undefined;
+      if (end && endDate && endDate.length <= 10) {
+        end.setHours(23, 59, 59, 999);
+      }
+
+      const result = await storage.getAuditLogs({
+        entityType: entityType || undefined,
+        entityId: entityId || undefined,
+        userId: userId || undefined,
+        search: search?.trim() || undefined,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: end,
+        limit: limit ? Number(limit) : undefined,
+        offset: offset ? Number(offset) : undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching audit logs:", error);
+      res.status(500).json({ message: "Failed to fetch audit logs" });
+    }
+  });
+
+  app.get('/api/audit-logs/entity-types', isAuthenticated, requirePermission('audit_view'), async (req, res) => {
+    try {
+      const entityTypes = await storage.getAuditLogEntityTypes();
+      res.json(entityTypes);
+    } catch (error) {
+      console.error("Error fetching audit log entity types:", error);
+      res.status(500).json({ message: "Failed to fetch audit log entity types" });
+    }
+  });
+
+  // New Finance Management Routes
+  const { financeManager } = await import('./financeManager');
+
+  // Financial Transactions
+  app.get('/api/finance/transactions', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { type, category, startDate, endDate, referenceType } = req.query;
+
+      const now = getCurrentJakartaTime();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+      const filters = {
+        type: type as string,
+        category: category as string,
+        startDate: startDate
+          ? getStartOfDayJakarta(parseWithTimezone(startDate as string, false))
+          : getStartOfDayJakarta(monthStart),
+        endDate: endDate
+          ? getEndOfDayJakarta(parseWithTimezone(endDate as string, false))
+          : getEndOfDayJakarta(now),
+        referenceType: referenceType as string,
+      };
+      const transactions = await financeManager.getTransactions(filters);
+      const normalized = transactions.map((tx) => ({
+        id: tx.id,
+        type: tx.type,
+        category: tx.category,
+        subcategory: tx.subcategory,
+        amount: Number((tx as any).amount || 0),
+        paymentMethod: (tx as any).paymentMethod,
+        createdAt: (tx as any).createdAt instanceof Date ? (tx as any).createdAt.toISOString() : (tx as any).createdAt,
+        reference: (tx as any).reference,
+        referenceType: (tx as any).referenceType,
+        journalId: (tx as any).journalEntryId || (tx as any).journalId || null,
+      }));
+      res.json(normalized);
+    } catch (error) {
+      console.error("Error fetching transactions:", error);
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  app.post('/api/finance/transactions', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      const transaction = await financeManager.createTransaction({
+        ...req.body,
+        userId
+      });
+      res.json(transaction);
+    } catch (error) {
+      console.error("Error creating transaction:", error);
+      res.status(500).json({ message: "Failed to create transaction" });
+    }
+  });
+
+  app.get('/api/finance/summary', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+
+      const now = getCurrentJakartaTime();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+      const parsedStart = startDate
+        ? getStartOfDayJakarta(parseWithTimezone(startDate as string, false))
+        : getStartOfDayJakarta(monthStart);
+      const parsedEnd = endDate
+        ? getEndOfDayJakarta(parseWithTimezone(endDate as string, false))
+        : getEndOfDayJakarta(now);
+
+      const summary = await financeManager.getSummary(parsedStart, parsedEnd);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching summary:", error);
+      res.status(500).json({ message: "Failed to fetch summary" });
+    }
+  });
+
+  app.get('/api/finance/journal/:id', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const entry = await financeManager.getJournalEntry(id);
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error fetching journal entry:", error);
+      res.status(500).json({ message: "Failed to fetch journal entry" });
+    }
+  });
 
-      if (!result.success) {
-        return res.status(400).json({ message: result.message || "Failed to cancel service ticket" });
+  // Service bookings are reversed with offsetting entries instead of being deleted
+  app.post('/api/finance/service-records/:serviceId/reverse', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
 
-      // Broadcast realtime update
-      realtimeService.broadcastToTenant(undefined, {
-        resource: 'service-tickets',
-        action: 'update',
-        data: { id, cancellationType, reason: cancellationReason },
-        id: id
-      });
+      const { reason } = reverseJournalEntrySchema.pick({ reason: true }).parse(req.body);
+      const result = await financeManager.reverseReferenceFinancials({ reference: req.params.serviceId, reason, userId });
 
-      res.json({ 
-        message: result.message || "Service ticket cancelled successfully",
-        success: true,
-        cancellationType,
-        cancellationFee: parseFloat(cancellationFee)
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'journal-entries',
+        action: 'create',
+        data: result
       });
 
+      res.json(result);
     } catch (error) {
-      console.error("Error cancelling service ticket:", error);
-      res.status(500).json({ 
-        message: error instanceof Error ? error.message : "Failed to cancel service ticket" 
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error reversing service financial records:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reverse records" });
+    }
+  });
+  
+  // Enhanced Accounting Reports API
+  app.get('/api/finance/balance-sheet', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { asOfDate } = req.query;
+      const asOf = asOfDate ? new Date(asOfDate as string) : undefined;
+      const balanceSheet = await storage.getBalanceSheet(asOf);
+      res.json(balanceSheet);
+    } catch (error) {
+      console.error("Error fetching balance sheet:", error);
+      res.status(500).json({ message: "Failed to fetch balance sheet" });
+    }
+  });
+  
+  app.get('/api/finance/income-statement', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      const start = startDate ? parseWithTimezone(startDate as string, false) : undefined;
+      const end = endDate ? parseWithTimezone(endDate as string, false) : undefined;
+      const incomeStatement = await storage.getIncomeStatement(start, end);
+      res.json(incomeStatement);
+    } catch (error) {
+      console.error("Error fetching income statement:", error);
+      res.status(500).json({ message: "Failed to fetch income statement" });
+    }
+  });
+  
+  app.get('/api/finance/chart-of-accounts', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const accounts = await storage.getChartOfAccounts();
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching chart of accounts:", error);
+      res.status(500).json({ message: "Failed to fetch chart of accounts" });
+    }
+  });
+  
+  app.get('/api/finance/general-ledger', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { accountCode, startDate, endDate } = req.query;
+      if (!accountCode) {
+        return res.status(400).json({ message: "Kode akun wajib diisi" });
+      }
+      const ledger = await financeManager.getGeneralLedger({
+        accountCode: String(accountCode),
+        startDate: startDate ? parseReportDate(String(startDate)) : undefined,
+        endDate: endDate ? parseReportDate(String(endDate), true) : undefined,
       });
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching general ledger:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to fetch general ledger" });
     }
   });
 
-  // Get parts for a service ticket
-  app.get('/api/service-tickets/:id/parts', isAuthenticated, async (req, res) => {
+  app.get('/api/finance/trial-balance', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const parts = await storage.getServiceTicketParts(req.params.id);
-      res.json(parts);
+      const { asOfDate } = req.query;
+      const trialBalance = await financeManager.getTrialBalance(asOfDate ? parseReportDate(String(asOfDate), true) : undefined);
+      res.json(trialBalance);
     } catch (error) {
-      console.error("Error fetching service ticket parts:", error);
-      res.status(500).json({ message: "Failed to fetch service ticket parts" });
+      console.error("Error fetching trial balance:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to fetch trial balance" });
     }
   });
 
-  // Stock Movement routes
-  app.get('/api/stock-movements', isAuthenticated, async (req, res) => {
+  app.get('/api/finance/trial-balance/export', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const { productId } = req.query;
-      const movements = await storage.getStockMovements(productId as string);
-      res.json(movements);
+      const asOfParam = req.query.asOfDate ? String(req.query.asOfDate) : new Date().toISOString().split('T')[0];
+      const trialBalance = await financeManager.getTrialBalance(parseReportDate(asOfParam, true));
+
+      const rows: (string | number)[][] = [
+        ['Neraca Saldo'],
+        ['Per Tanggal', asOfParam],
+        [],
+        ['Kode Akun', 'Nama Akun', 'Tipe', 'Debit', 'Kredit'],
+        ...trialBalance.rows.map(row => [row.code, row.name, row.type, row.debit, row.credit]),
+        [],
+        ['', 'Total', '', trialBalance.totalDebit, trialBalance.totalCredit],
+        ['', 'Selisih', '', trialBalance.difference, ''],
+        ['', 'Status', '', trialBalance.isBalanced ? 'Seimbang' : 'Tidak Seimbang', ''],
+      ];
+
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.aoa_to_sheet(rows);
+      ws['!cols'] = [{ wch: 12 }, { wch: 36 }, { wch: 12 }, { wch: 18 }, { wch: 18 }];
+      XLSX.utils.book_append_sheet(wb, ws, 'Neraca Saldo');
+
+      const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'buffer' });
+      res.setHeader('Content-Disposition', `attachment; filename="neraca-saldo-${asOfParam}.xlsx"`);
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(buffer);
     } catch (error) {
-      console.error("Error fetching stock movements:", error);
-      res.status(500).json({ message: "Failed to fetch stock movements" });
+      console.error("Error exporting trial balance:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to export trial balance" });
     }
   });
 
-  app.post('/api/stock-movements', isAuthenticated, async (req: any, res) => {
+  // PPN (VAT): monthly PPN Keluaran vs PPN Masukan and the e-Faktur import file
+  const parseTaxPeriod = (query: any) => {
+    const now = new Date();
+    const year = query.year ? parseInt(String(query.year)) : now.getFullYear();
+    const month = query.month ? parseInt(String(query.month)) : now.getMonth() + 1;
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error("Masa pajak tidak valid");
+    }
+    return { year, month };
+  };
+
+  app.get('/api/finance/ppn-report', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const movementData = insertStockMovementSchema.parse(req.body);
-      const movement = await storage.createStockMovement({
-        ...movementData,
-        userId: req.session.user.id,
-      });
-      res.json(movement);
+      const { year, month } = parseTaxPeriod(req.query);
+      const report = await storage.getPpnReport(year, month);
+      res.json(report);
     } catch (error) {
-      console.error("Error creating stock movement:", error);
-      res.status(500).json({ message: "Failed to create stock movement" });
+      console.error("Error fetching PPN report:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to fetch PPN report" });
     }
   });
 
+  app.get('/api/finance/ppn-report/efaktur', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { year, month } = parseTaxPeriod(req.query);
+      const invoices = await storage.getEFakturInvoices(year, month);
+      const csv = buildEFakturCsv(invoices, { year, month });
 
-  // Permission checking middleware
-  const requirePermission = (permission: string) => {
-    return async (req: any, res: Response, next: NextFunction) => {
-      try {
-        // Super admin bypasses permission checks
-        if (req.isSuperAdmin) {
-          return next();
-        }
-
-        // Check if user is authenticated
-        if (!req.session?.user) {
-          return res.status(401).json({ message: "Unauthorized" });
-        }
+      res.setHeader('Content-Disposition', `attachment; filename="efaktur-keluaran-${year}-${String(month).padStart(2, '0')}.csv"`);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting e-Faktur:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to export e-Faktur" });
+    }
+  });
 
-        const user = req.session.user;
+  app.get('/api/finance/source-document', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { referenceType, reference } = req.query;
+      if (!referenceType || !reference) {
+        return res.status(400).json({ message: "Referensi dokumen wajib diisi" });
+      }
+      const document = await storage.getJournalSourceDocument(String(referenceType), String(reference));
+      if (!document) {
+        return res.status(404).json({ message: "Dokumen sumber tidak ditemukan" });
+      }
+      res.json(document);
+    } catch (error) {
+      console.error("Error fetching journal source document:", error);
+      res.status(500).json({ message: "Failed to fetch source document" });
+    }
+  });
 
-        // Check user role permissions
-        if (user.role === 'admin') {
-          // Admin has all permissions
-          return next();
-        }
+  app.post('/api/finance/journal-entry', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
+    try {
+      const data = manualJournalEntrySchema.parse(req.body);
+      // Manual journals wait for approval by a user holding journal_approve
+      const result = await storage.createJournalEntry({ ...data, status: 'draft', userId: req.session?.user?.id });
+      
+      if (result.success) {
+        res.status(201).json(result.journalEntry);
+      } else {
+        res.status(400).json({ message: result.error });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error creating journal entry:", error);
+      res.status(500).json({ message: "Failed to create journal entry" });
+    }
+  });
 
-        // For non-admin users, check specific permissions
-        const userPermissions = await getUserPermissions(user.role);
-        
-        if (!userPermissions.includes(permission)) {
-          return res.status(403).json({ 
-            message: "Anda tidak memiliki izin untuk mengakses resource ini",
-            requiredPermission: permission,
-            userRole: user.role
-          });
-        }
+  app.get('/api/finance/journals', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
+    try {
+      const { status, startDate, endDate } = req.query;
+      const journals = await financeManager.getJournalEntries({
+        status: status ? String(status) : undefined,
+        startDate: startDate ? parseWithTimezone(startDate as string, false) : undefined,
+        endDate: endDate ? parseWithTimezone(endDate as string, false) : undefined,
+      });
+      res.json(journals);
+    } catch (error) {
+      console.error("Error fetching journal entries:", error);
+      res.status(500).json({ message: "Failed to fetch journal entries" });
+    }
+  });
 
-        next();
-      } catch (error) {
-        console.error("Permission check error:", error);
-        res.status(500).json({ message: "Internal server error" });
+  app.post('/api/finance/journal/:id/approve', isAuthenticated, requirePermission('journal_approve'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
-    };
-  };
 
-  // Helper function to get user permissions based on role
-  const getUserPermissions = async (role: string): Promise<string[]> => {
-    const roleConfig = {
-      admin: [
-        'dashboard_view', 'pos_access', 'inventory_full', 'purchasing_full',
-        'financial_full', 'reports_full', 'customers_full', 'suppliers_full',
-        'service_tickets_full', 'users_full', 'roles_full', 'settings_full',
-        'whatsapp_settings', 'store_settings', 'system_admin'
-      ],
-      kasir: [
-        'dashboard_view', 'pos_access', 'inventory_view', 'customers_view',
-        'customers_create', 'customers_edit', 'transactions_create',
-        'reports_sales_view'
-      ],
-      teknisi: [
-        'dashboard_view', 'service_tickets_full', 'inventory_view',
-        'inventory_update_stock', 'customers_view', 'customers_create',
-        'customers_edit', 'reports_services_view'
-      ],
-      purchasing: [
-        'dashboard_view', 'purchasing_full', 'suppliers_full', 'inventory_full',
-        'reports_purchasing_view', 'reports_inventory_view'
-      ],
-      finance: [
-        'dashboard_view', 'financial_full', 'reports_full', 'customers_view',
-        'suppliers_view', 'transactions_view'
-      ],
-      owner: [
-        'dashboard_view', 'pos_access', 'inventory_view', 'purchasing_view',
-        'financial_full', 'reports_full', 'customers_full', 'suppliers_view',
-        'service_tickets_view', 'users_view', 'settings_view'
-      ]
-    };
+      const journal = await financeManager.approveJournalEntry(req.params.id, { userId });
 
-    return roleConfig[role as keyof typeof roleConfig] || [];
-  };
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'journal-entries',
+        action: 'update',
+        data: journal,
+        id: journal.id
+      });
 
-  // User Management routes
-  app.get('/api/users', isAuthenticated, requirePermission('users_view'), async (req, res) => {
-    try {
-      const users = await storage.getUsers();
-      res.json(users);
+      res.json(journal);
     } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
+      console.error("Error approving journal entry:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to approve journal entry" });
     }
   });
 
-  app.post('/api/users', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+  app.post('/api/finance/journal/:id/reject', isAuthenticated, requirePermission('journal_approve'), async (req: any, res) => {
     try {
-      const { username, email, firstName, lastName, password, role } = req.body;
+      const { reason } = rejectJournalEntrySchema.parse(req.body);
+      const journal = await financeManager.rejectJournalEntry(req.params.id, { reason });
 
-      // Validate required fields
-      if (!username || !email || !password || !role) {
-        return res.status(400).json({ 
-          message: "Username, email, password, dan role wajib diisi" 
-        });
-      }
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'journal-entries',
+        action: 'update',
+        data: journal,
+        id: journal.id
+      });
 
-      // Check if username or email already exists
-      const existingUser = await storage.getUserByUsername(username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username sudah digunakan" });
+      res.json(journal);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
+      console.error("Error rejecting journal entry:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reject journal entry" });
+    }
+  });
 
-      const existingEmail = await storage.getUserByEmail(email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email sudah digunakan" });
+  app.post('/api/finance/journal/:id/reverse', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
+    try {
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
 
-      // Hash password
-      const hashedPassword = await hashPassword(password);
-
-      // Create user
-      const userData = {
-        username,
-        email,
-        firstName,
-        lastName,
-        password: hashedPassword,
-        role,
-        isActive: true
-      };
+      const { reason, date } = reverseJournalEntrySchema.parse(req.body);
+      const reversal = await financeManager.reverseJournalEntry(req.params.id, { reason, date, userId });
 
-      const user = await storage.createUser(userData);
-      
-      // Remove password from response
-      const { password: _, ...userResponse } = user;
-      
-      // Broadcast real-time update
-      realtimeService.broadcastToTenant(req.tenant?.id, {
-        resource: 'users',
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'journal-entries',
         action: 'create',
-        data: userResponse
+        data: reversal,
+        id: reversal.id
       });
-      
-      res.status(201).json(userResponse);
+
+      res.status(201).json(reversal);
     } catch (error) {
-      console.error("Error creating user:", error);
-      res.status(500).json({ message: "Failed to create user" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error reversing journal entry:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to reverse journal entry" });
     }
   });
 
-  app.put('/api/users/:id', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+  // Fiscal periods: close (reported), lock (final) and year-end rollover into retained earnings
+  app.get('/api/finance/periods', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const userData = req.body;
-      const user = await storage.updateUser(id, userData);
-      
-      // Broadcast real-time update
-      realtimeService.broadcastToTenant(req.tenant?.id, {
-        resource: 'users',
-        action: 'update',
-        data: user,
-        id
-      });
-      
-      res.json(user);
+      const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
+      if (!Number.isInteger(year)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+      const periods = await storage.getFiscalPeriods(year);
+      res.json(periods);
     } catch (error) {
-      console.error("Error updating user:", error);
-      res.status(500).json({ message: "Failed to update user" });
+      console.error("Error fetching fiscal periods:", error);
+      res.status(500).json({ message: "Failed to fetch fiscal periods" });
     }
   });
 
-  app.delete('/api/users/:id', isAuthenticated, requirePermission('users_full'), async (req: any, res) => {
+  app.post('/api/finance/periods/:year/:month/:action(close|reopen|lock)', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteUser(id);
-      
-      // Broadcast real-time update
-      realtimeService.broadcastToTenant(req.tenant?.id, {
-        resource: 'users',
-        action: 'delete',
-        id
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const year = parseInt(req.params.year);
+      const month = parseInt(req.params.month);
+      const period = req.params.action === 'close'
+        ? await storage.closeFiscalPeriod(year, month, userId)
+        : req.params.action === 'lock'
+          ? await storage.lockFiscalPeriod(year, month, userId)
+          : await storage.reopenFiscalPeriod(year, month);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'fiscal-periods',
+        action: 'update',
+        data: period,
+        id: period.id
       });
-      
-      res.json({ message: "User deleted successfully" });
+
+      res.json(period);
     } catch (error) {
-      console.error("Error deleting user:", error);
-      res.status(500).json({ message: "Failed to delete user" });
+      console.error(`Error updating fiscal period (${req.params.action}):`, error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update fiscal period" });
     }
   });
 
-  // Role Management routes
-  app.get('/api/roles', isAuthenticated, async (req, res) => {
+  app.post('/api/finance/periods/:year/close-year', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const roles = await storage.getRoles();
-      res.json(roles);
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const result = await storage.closeFiscalYear(parseInt(req.params.year), userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'fiscal-periods',
+        action: 'update',
+        data: result
+      });
+
+      res.json(result);
     } catch (error) {
-      console.error("Error fetching roles:", error);
-      res.status(500).json({ message: "Failed to fetch roles" });
+      console.error("Error closing fiscal year:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to close fiscal year" });
     }
   });
 
-  app.post('/api/roles', isAuthenticated, async (req, res) => {
+  // Bank reconciliation
+  app.get('/api/finance/bank-statements', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const roleData = insertRoleSchema.parse(req.body);
-      const role = await storage.createRole(roleData);
-      res.json(role);
+      const statements = await storage.getBankStatements();
+      res.json(statements);
     } catch (error) {
-      console.error("Error creating role:", error);
-      res.status(500).json({ message: "Failed to create role" });
+      console.error("Error fetching bank statements:", error);
+      res.status(500).json({ message: "Failed to fetch bank statements" });
     }
   });
 
-  app.put('/api/roles/:id', isAuthenticated, async (req, res) => {
+  app.post('/api/finance/bank-statements/import', isAuthenticated, requirePermission('financial_full'), statementUpload.single('file'), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const roleData = req.body;
-      const role = await storage.updateRole(id, roleData);
-      res.json(role);
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const data = bankStatementImportSchema.parse(req.body);
+      const parsed = parseBankStatement(req.file.buffer, req.file.originalname);
+      const result = await storage.importBankStatement({ ...data, fileName: req.file.originalname, parsed, userId });
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'create',
+        data: result.statement,
+        id: result.statement.id
+      });
+
+      res.status(201).json(result);
     } catch (error) {
-      console.error("Error updating role:", error);
-      res.status(500).json({ message: "Failed to update role" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error importing bank statement:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to import bank statement" });
     }
   });
 
-  app.delete('/api/roles/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/finance/bank-statements/:id', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteRole(id);
-      res.json({ message: "Role deleted successfully" });
+      const detail = await storage.getBankStatement(req.params.id);
+      if (!detail) {
+        return res.status(404).json({ message: "Mutasi rekening tidak ditemukan" });
+      }
+      res.json(detail);
     } catch (error) {
-      console.error("Error deleting role:", error);
-      res.status(500).json({ message: "Failed to delete role" });
+      console.error("Error fetching bank statement:", error);
+      res.status(500).json({ message: "Failed to fetch bank statement" });
     }
   });
 
-  // New Finance Management Routes
-  const { financeManager } = await import('./financeManager');
-
-  // Financial Transactions
-  app.get('/api/finance/transactions', isAuthenticated, async (req, res) => {
+  app.get('/api/finance/bank-statements/:id/report', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const { type, category, startDate, endDate, referenceType } = req.query;
-
-      const now = getCurrentJakartaTime();
-      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-
-      const filters = {
-        type: type as string,
-        category: category as string,
-        startDate: startDate
-          ? getStartOfDayJakarta(parseWithTimezone(startDate as string, false))
-          : getStartOfDayJakarta(monthStart),
-        endDate: endDate
-          ? getEndOfDayJakarta(parseWithTimezone(endDate as string, false))
-          : getEndOfDayJakarta(now),
-        referenceType: referenceType as string,
-      };
-      const transactions = await financeManager.getTransactions(filters);
-      const normalized = transactions.map((tx) => ({
-        id: tx.id,
-        type: tx.type,
-        category: tx.category,
-        subcategory: tx.subcategory,
-        amount: Number((tx as any).amount || 0),
-        paymentMethod: (tx as any).paymentMethod,
-        createdAt: (tx as any).createdAt instanceof Date ? (tx as any).createdAt.toISOString() : (tx as any).createdAt,
-        reference: (tx as any).reference,
-        referenceType: (tx as any).referenceType,
-        journalId: (tx as any).journalEntryId || (tx as any).journalId || null,
-      }));
-      res.json(normalized);
+      const report = await storage.getBankReconciliationReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Mutasi rekening tidak ditemukan" });
+      }
+      res.json(report);
     } catch (error) {
-      console.error("Error fetching transactions:", error);
-      res.status(500).json({ message: "Failed to fetch transactions" });
+      console.error("Error fetching bank reconciliation report:", error);
+      res.status(500).json({ message: "Failed to fetch reconciliation report" });
     }
   });
 
-  app.post('/api/finance/transactions', isAuthenticated, async (req, res) => {
+  app.post('/api/finance/bank-statements/:id/auto-match', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
       const userId = req.session.user?.id;
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
-      const transaction = await financeManager.createTransaction({
-        ...req.body,
-        userId
+
+      const { dateWindowDays } = bankAutoMatchSchema.parse(req.body ?? {});
+      const result = await storage.autoMatchBankStatement(req.params.id, dateWindowDays, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'update',
+        data: result,
+        id: req.params.id
       });
-      res.json(transaction);
+
+      res.json(result);
     } catch (error) {
-      console.error("Error creating transaction:", error);
-      res.status(500).json({ message: "Failed to create transaction" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error auto-matching bank statement:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to auto-match bank statement" });
     }
   });
 
-  app.get('/api/finance/summary', isAuthenticated, async (req, res) => {
+  app.post('/api/finance/bank-statements/:id/complete', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const { startDate, endDate } = req.query;
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
 
-      const now = getCurrentJakartaTime();
-      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const statement = await storage.completeBankReconciliation(req.params.id, userId);
 
-      const parsedStart = startDate
-        ? getStartOfDayJakarta(parseWithTimezone(startDate as string, false))
-        : getStartOfDayJakarta(monthStart);
-      const parsedEnd = endDate
-        ? getEndOfDayJakarta(parseWithTimezone(endDate as string, false))
-        : getEndOfDayJakarta(now);
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'update',
+        data: statement,
+        id: statement.id
+      });
 
-      const summary = await financeManager.getSummary(parsedStart, parsedEnd);
-      res.json(summary);
+      res.json(statement);
     } catch (error) {
-      console.error("Error fetching summary:", error);
-      res.status(500).json({ message: "Failed to fetch summary" });
+      console.error("Error completing bank reconciliation:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to complete reconciliation" });
     }
   });
 
-  app.get('/api/finance/journal/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/finance/bank-statement-lines/:lineId/candidates', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
-      const { id } = req.params;
-      const entry = await financeManager.getJournalEntry(id);
-      if (!entry) {
-        return res.status(404).json({ message: "Journal entry not found" });
-      }
-      res.json(entry);
+      const { dateWindowDays } = bankAutoMatchSchema.parse({ dateWindowDays: req.query.dateWindowDays ?? 7 });
+      const candidates = await storage.getBankMatchCandidates(req.params.lineId, dateWindowDays);
+      res.json(candidates);
     } catch (error) {
-      console.error("Error fetching journal entry:", error);
-      res.status(500).json({ message: "Failed to fetch journal entry" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error fetching bank match candidates:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to fetch match candidates" });
     }
   });
 
-  app.delete('/api/finance/service-records/:serviceId', isAuthenticated, async (req, res) => {
-    try {
-      const { serviceId } = req.params;
-      
-      // Delete all financial records related to this service
-      await db.delete(financialRecords).where(eq(financialRecords.reference, serviceId));
-      
-      res.json({ message: "Service financial records cleared" });
-    } catch (error) {
-      console.error("Error clearing service financial records:", error);
-      res.status(500).json({ message: "Failed to clear records" });
-    }
-  });
-  
-  // Enhanced Accounting Reports API
-  app.get('/api/finance/balance-sheet', isAuthenticated, async (req, res) => {
-    try {
-      const { asOfDate } = req.query;
-      const asOf = asOfDate ? new Date(asOfDate as string) : undefined;
-      const balanceSheet = await storage.getBalanceSheet(asOf);
-      res.json(balanceSheet);
-    } catch (error) {
-      console.error("Error fetching balance sheet:", error);
-      res.status(500).json({ message: "Failed to fetch balance sheet" });
-    }
-  });
-  
-  app.get('/api/finance/income-statement', isAuthenticated, async (req, res) => {
+  app.post('/api/finance/bank-statement-lines/:lineId/match', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const { startDate, endDate } = req.query;
-      const start = startDate ? parseWithTimezone(startDate as string, false) : undefined;
-      const end = endDate ? parseWithTimezone(endDate as string, false) : undefined;
-      const incomeStatement = await storage.getIncomeStatement(start, end);
-      res.json(incomeStatement);
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
+      }
+
+      const data = bankStatementMatchSchema.parse(req.body);
+      const line = await storage.matchBankStatementLine(req.params.lineId, data, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'update',
+        data: line,
+        id: line.statementId
+      });
+
+      res.json(line);
     } catch (error) {
-      console.error("Error fetching income statement:", error);
-      res.status(500).json({ message: "Failed to fetch income statement" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error matching bank statement line:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to match bank statement line" });
     }
   });
-  
-  app.get('/api/finance/chart-of-accounts', isAuthenticated, async (req, res) => {
+
+  app.post('/api/finance/bank-statement-lines/:lineId/unmatch', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const accounts = await storage.getChartOfAccounts();
-      res.json(accounts);
+      const line = await storage.unmatchBankStatementLine(req.params.lineId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'update',
+        data: line,
+        id: line.statementId
+      });
+
+      res.json(line);
     } catch (error) {
-      console.error("Error fetching chart of accounts:", error);
-      res.status(500).json({ message: "Failed to fetch chart of accounts" });
+      console.error("Error unmatching bank statement line:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to unmatch bank statement line" });
     }
   });
-  
-  app.post('/api/finance/journal-entry', isAuthenticated, async (req, res) => {
+
+  app.post('/api/finance/bank-statement-lines/:lineId/post', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
-      const data = req.body;
-      data.userId = req.session?.user?.id;
-      const result = await storage.createJournalEntry(data);
-      
-      if (result.success) {
-        res.status(201).json(result.journalEntry);
-      } else {
-        res.status(400).json({ message: result.error });
+      const userId = req.session.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "User not authenticated" });
       }
+
+      const data = postBankStatementLineSchema.parse(req.body);
+      const line = await storage.postBankStatementLine(req.params.lineId, data, userId);
+
+      realtimeService.broadcastToTenant(req.clientId, {
+        resource: 'bank-statements',
+        action: 'update',
+        data: line,
+        id: line.statementId
+      });
+
+      res.json(line);
     } catch (error) {
-      console.error("Error creating journal entry:", error);
-      res.status(500).json({ message: "Failed to create journal entry" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("Error posting bank statement line:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to post bank statement line" });
     }
   });
 
   // Reset database (keep only users and roles)
-  app.post('/api/admin/reset-database', isAuthenticated, async (req, res) => {
+  app.post('/api/admin/reset-database', isAuthenticated, requirePermission('system_admin'), async (req, res) => {
     try {
       await db.transaction(async (tx) => {
         // Delete in correct order to handle foreign keys
@@ -2728,7 +4573,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await tx.delete(payrollRecords);
         await tx.delete(employees);
         await tx.delete(financialRecords);
+        await tx.delete(productSerials);
+        await tx.delete(installmentPayments);
+        await tx.delete(installmentSchedules);
+        await tx.delete(installmentPlans);
+        await tx.delete(supplierPayments);
+        await tx.delete(supplierBills);
+        await tx.delete(stockTransferItems);
+        await tx.delete(stockTransfers);
+        await tx.delete(productLocationStocks);
+        await tx.delete(stockCountItems);
+        await tx.delete(stockCountSessions);
+        await tx.delete(parkedCarts);
+        await tx.delete(transactionPayments);
+        await tx.delete(supplierRmas);
         await tx.delete(stockMovements);
+        await tx.delete(serviceStatusHistory);
+        await tx.delete(serviceQuotes);
+        await tx.delete(servicePartRequests);
+        await tx.delete(warrantyCertificates);
         await tx.delete(serviceTicketParts);
         await tx.delete(serviceTickets);
         await tx.delete(transactionItems);
@@ -2748,7 +4611,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Employee Management
-  app.get('/api/employees', isAuthenticated, async (req, res) => {
+  app.get('/api/employees', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
       const { includeInactive } = req.query;
       const employees = await financeManager.getEmployees(includeInactive === 'true');
@@ -2759,7 +4622,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/employees', isAuthenticated, async (req, res) => {
+  app.post('/api/employees', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
     try {
       const employee = await financeManager.createEmployee(req.body);
       res.json(employee);
@@ -2769,7 +4632,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/employees/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/employees/:id', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
     try {
       const employee = await financeManager.updateEmployee(req.params.id, req.body);
       res.json(employee);
@@ -2780,7 +4643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Payroll Management
-  app.get('/api/payroll', isAuthenticated, async (req, res) => {
+  app.get('/api/payroll', isAuthenticated, requirePermission('financial_view'), async (req, res) => {
     try {
       const { employeeId } = req.query;
       const payrolls = await financeManager.getPayrollRecords(employeeId as string);
@@ -2791,7 +4654,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/payroll', isAuthenticated, async (req: any, res) => {
+  app.post('/api/payroll', isAuthenticated, requirePermission('financial_full'), async (req: any, res) => {
     try {
       const payroll = await financeManager.createPayroll({
         ...req.body,
@@ -2804,7 +4667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/payroll/:id/status', isAuthenticated, async (req, res) => {
+  app.put('/api/payroll/:id/status', isAuthenticated, requirePermission('financial_full'), async (req, res) => {
     try {
       const { status } = req.body;
       const payroll = await financeManager.updatePayrollStatus(req.params.id, status);
@@ -2873,7 +4736,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/logos", isAuthenticated, async (req, res) => {
+  app.put("/api/logos", isAuthenticated, requirePermission('store_settings', 'settings_full'), async (req, res) => {
     if (!req.body.logoURL) {
       return res.status(400).json({ error: "logoURL is required" });
     }
@@ -2903,7 +4766,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // WhatsApp API endpoints
   
   // Get WhatsApp status
-  app.get('/api/whatsapp/status', isAuthenticated, async (req: any, res) => {
+  app.get('/api/whatsapp/status', isAuthenticated, requirePermission('whatsapp_settings', 'settings_view'), async (req: any, res) => {
     try {
       const clientId = req.tenant?.id || req.tenant?.clientId || req.session?.user?.clientId || undefined;
       let rawQrCode = whatsappService.getQRCode();
@@ -2946,7 +4809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enable WhatsApp
-  app.post('/api/whatsapp/enable', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/enable', isAuthenticated, requirePermission('whatsapp_settings'), async (req, res) => {
     try {
       const existingConfig = await storage.getStoreConfig();
       await storage.upsertStoreConfig({
@@ -2967,7 +4830,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Disable WhatsApp
-  app.post('/api/whatsapp/disable', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/disable', isAuthenticated, requirePermission('whatsapp_settings'), async (req, res) => {
     try {
       // Disconnect if currently connected
       if (whatsappService.isConnected()) {
@@ -2993,7 +4856,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Connect WhatsApp
-  app.post('/api/whatsapp/connect', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/connect', isAuthenticated, requirePermission('whatsapp_settings'), async (req, res) => {
     try {
       const config = await storage.getStoreConfig();
       if (!config?.whatsappEnabled) {
@@ -3009,7 +4872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Disconnect WhatsApp
-  app.post('/api/whatsapp/disconnect', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/disconnect', isAuthenticated, requirePermission('whatsapp_settings'), async (req, res) => {
     try {
       await whatsappService.disconnect();
       res.json({ message: 'WhatsApp disconnected successfully' });
@@ -3020,7 +4883,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test message
-  app.post('/api/whatsapp/test-message', isAuthenticated, async (req, res) => {
+  app.post('/api/whatsapp/test-message', isAuthenticated, requirePermission('whatsapp_settings'), async (req, res) => {
     try {
       const { phoneNumber } = req.body;
       
@@ -3125,6 +4988,7 @@ Terima kasih!
       
       // Get used parts
       const parts = await storage.getServiceTicketParts(ticket.id);
+      const history = await storage.getServiceStatusHistory(ticket.id, { customerVisibleOnly: true });
       
       // Return complete status info with parts (single response)
       res.json({
@@ -3144,6 +5008,14 @@ Terima kasih!
           name: part.productName,
           quantity: part.quantity,
           unitPrice: part.unitPrice
+        })),
+        // Staff names stay internal; customers see when each step happened and its note/photos
+        timeline: history.map(entry => ({
+          fromStatus: entry.fromStatus,
+          toStatus: entry.toStatus,
+          note: entry.note,
+          photos: entry.photos ?? [],
+          createdAt: entry.createdAt
         }))
       });
     } catch (error) {
@@ -3152,6 +5024,92 @@ Terima kasih!
     }
   });
 
+  // Public warranty verification opened from the certificate's QR code
+  app.get('/api/public/warranty-certificates/:token', async (req, res) => {
+    try {
+      const detail = await storage.getWarrantyCertificateByToken(req.params.token);
+      if (!detail) {
+        return res.status(404).json({ message: 'Sertifikat garansi tidak ditemukan' });
+      }
+      res.json(await toWarrantyCertificateResponse(detail));
+    } catch (error) {
+      console.error('Error verifying warranty certificate:', error);
+      res.status(500).json({ message: 'Failed to verify warranty certificate' });
+    }
+  });
+
+  // Public repair quotation opened from the customer's WhatsApp link
+  app.get('/api/public/service-quotes/:token', async (req, res) => {
+    try {
+      const result = await storage.getServiceQuoteByToken(req.params.token);
+      if (!result) {
+        return res.status(404).json({ message: 'Penawaran tidak ditemukan' });
+      }
+
+      const { quote, ticket } = result;
+      const config = await storage.getStoreConfig();
+      res.json({
+        quoteNumber: quote.quoteNumber,
+        status: quote.status,
+        items: quote.items,
+        partsTotal: quote.partsTotal,
+        laborCost: quote.laborCost,
+        taxAmount: quote.taxAmount,
+        totalAmount: quote.totalAmount,
+        notes: quote.notes,
+        validUntil: quote.validUntil,
+        respondedAt: quote.respondedAt,
+        responseNote: quote.responseNote,
+        createdAt: quote.createdAt,
+        ticket,
+        store: {
+          name: config?.name,
+          phone: config?.phone,
+          address: config?.address,
+        },
+      });
+    } catch (error) {
+      console.error('Error getting service quote:', error);
+      res.status(500).json({ message: 'Failed to get service quote' });
+    }
+  });
+
+  app.post('/api/public/service-quotes/:token/:decision(approve|reject)', async (req, res) => {
+    try {
+      const { note } = serviceQuoteResponseSchema.parse(req.body ?? {});
+      const decision = req.params.decision === 'approve' ? 'approved' : 'rejected';
+      const quote = await storage.respondToServiceQuote(req.params.token, decision, {
+        note,
+        ipAddress: req.ip || req.socket.remoteAddress || null,
+      });
+
+      realtimeService.broadcastToTenant(quote.clientId ?? undefined, {
+        resource: 'service-tickets',
+        action: 'update',
+        data: { id: quote.serviceTicketId, quoteStatus: quote.status },
+        id: quote.serviceTicketId
+      });
+
+      if (quote.status === 'approved') {
+        const ticket = await storage.getServiceTicketById(quote.serviceTicketId);
+        if (ticket) {
+          notifyServiceStatusChange(ticket, 'waiting-confirmation');
+        }
+      }
+
+      res.json({ status: quote.status, respondedAt: quote.respondedAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Catatan tidak valid', errors: error.errors });
+      }
+      if (error instanceof TransactionValidationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error responding to service quote:', error);
+      res.status(500).json({ message: 'Failed to respond to service quote' });
+    }
+  });
+
   // Import default roles config
   const { defaultRoleConfigs } = await import('./defaultRoles.js');
 
@@ -4852,7 +6810,7 @@ Terima kasih!
   });
 
   // Feature-gated routes examples
-  app.post('/api/whatsapp/send', isAuthenticated, checkSubscriptionLimits('whatsapp'), async (req: any, res) => {
+  app.post('/api/whatsapp/send', isAuthenticated, requirePermission('whatsapp_settings', 'service_tickets_full'), checkSubscriptionLimits('whatsapp'), async (req: any, res) => {
     try {
       // WhatsApp send logic here
       res.json({ 
@@ -4866,7 +6824,7 @@ Terima kasih!
     }
   });
 
-  app.post('/api/data/export', isAuthenticated, checkSubscriptionLimits('export'), async (req: any, res) => {
+  app.post('/api/data/export', isAuthenticated, requirePermission('reports_full'), checkSubscriptionLimits('export'), async (req: any, res) => {
     try {
       // Data export logic here
       res.json({ 
@@ -4930,10 +6888,71 @@ Terima kasih!
     }
   });
 
+  // Warranty registry and certificates
+  const warrantyStatusValues: WarrantyStatus[] = ['active', 'expiring', 'expired', 'claimed'];
+
+  // Shape shared by the staff print view and the public verification page
+  const toWarrantyCertificateResponse = async (detail: WarrantyCertificateDetail) => {
+    const config = await storage.getStoreConfig();
+    return {
+      certificateNumber: detail.certificate.certificateNumber,
+      token: detail.certificate.token,
+      issuedAt: detail.certificate.createdAt,
+      verifyUrl: `${getPublicBaseUrl()}/warranty/${detail.certificate.token}`,
+      sourceType: detail.sourceType,
+      referenceNumber: detail.referenceNumber,
+      customerName: detail.customerName,
+      items: detail.items,
+      warrantyDuration: detail.warrantyDuration,
+      startDate: detail.startDate,
+      endDate: detail.endDate,
+      status: detail.status,
+      store: {
+        name: config?.name,
+        phone: config?.phone,
+        address: config?.address,
+      },
+    };
+  };
+
+  app.get('/api/warranty-registry', isAuthenticated, requirePermission('service_tickets_view', 'pos_access'), async (req, res) => {
+    try {
+      const status = warrantyStatusValues.find(value => value === req.query.status);
+      const sourceType = req.query.type === 'sale' || req.query.type === 'service' ? req.query.type : undefined;
+      const entries = await storage.getWarrantyRegistry({
+        search: typeof req.query.search === 'string' ? req.query.search : undefined,
+        status,
+        sourceType,
+        limit: req.query.limit ? parseInt(req.query.limit as string) || undefined : undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching warranty registry:", error);
+      res.status(500).json({ message: "Failed to fetch warranty registry" });
+    }
+  });
+
+  app.post('/api/warranty-certificates', isAuthenticated, requirePermission('service_tickets_full', 'pos_access'), async (req: any, res) => {
+    try {
+      const { transactionId, serviceTicketId } = z.object({
+        transactionId: z.string().min(1).optional(),
+        serviceTicketId: z.string().min(1).optional(),
+      }).parse(req.body ?? {});
+      const detail = await storage.issueWarrantyCertificate({ transactionId, serviceTicketId }, req.session.user?.id);
+      res.json(await toWarrantyCertificateResponse(detail));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Data sertifikat tidak valid", errors: error.errors });
+      }
+      console.error("Error issuing warranty certificate:", error);
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to issue warranty certificate" });
+    }
+  });
+
   // Warranty Claims API Endpoints
   
   // GET /api/warranty-claims - List warranty claims with optional filtering
-  app.get('/api/warranty-claims', isAuthenticated, async (req: any, res) => {
+  app.get('/api/warranty-claims', isAuthenticated, requirePermission('service_tickets_view', 'pos_access'), async (req: any, res) => {
     try {
       const { status } = req.query;
       const claims = await storage.getWarrantyClaims(status as string, req.clientId ?? null);
@@ -4945,7 +6964,7 @@ Terima kasih!
   });
 
   // GET /api/warranty-claims/:id - Get warranty claim by ID
-  app.get('/api/warranty-claims/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/warranty-claims/:id', isAuthenticated, requirePermission('service_tickets_view', 'pos_access'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const claim = await storage.getWarrantyClaimById(id, req.clientId ?? null);
@@ -4962,7 +6981,7 @@ Terima kasih!
   });
 
   // POST /api/warranty-claims - Create new warranty claim
-  app.post('/api/warranty-claims', isAuthenticated, async (req: any, res) => {
+  app.post('/api/warranty-claims', isAuthenticated, requirePermission('service_tickets_full', 'pos_access'), async (req: any, res) => {
     try {
       const userId = req.session.user?.id;
       if (!userId) {
@@ -5020,7 +7039,7 @@ Terima kasih!
   });
 
   // PUT /api/warranty-claims/:id/process - Process warranty claim (approve/reject)
-  app.put('/api/warranty-claims/:id/process', isAuthenticated, async (req: any, res) => {
+  app.put('/api/warranty-claims/:id/process', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const { action, adminNotes, returnCondition } = req.body;
@@ -5104,7 +7123,7 @@ Terima kasih!
   });
 
   // PUT /api/warranty-claims/:id/complete - Mark warranty claim as completed
-  app.put('/api/warranty-claims/:id/complete', isAuthenticated, async (req: any, res) => {
+  app.put('/api/warranty-claims/:id/complete', isAuthenticated, requirePermission('service_tickets_full'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = req.session.user?.id;
@@ -5208,7 +7227,7 @@ Terima kasih!
   });
 
   // GET /api/warranty-claims/validate/:type/:id - Validate warranty eligibility
-  app.get('/api/warranty-claims/validate/:type/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/warranty-claims/validate/:type/:id', isAuthenticated, requirePermission('service_tickets_view', 'pos_access'), async (req: any, res) => {
     try {
       const { type, id } = req.params;
       
@@ -5219,9 +7238,20 @@ Terima kasih!
         originalTransactionId = id;
       } else if (type === 'service') {
         originalServiceTicketId = id;
+      } else if (type === 'serial') {
+        const lookup = await storage.getSerialNumberLookup(id, req.clientId ?? null);
+        if (!lookup?.serial.transactionId) {
+          return res.json({
+            isEligible: false,
+            message: lookup ? 'Serial number has not been sold' : 'Serial number not found',
+            type,
+            id
+          });
+        }
+        originalTransactionId = lookup.serial.transactionId;
       } else {
         return res.status(400).json({ 
-          message: "Type must be either 'sale' or 'service'" 
+          message: "Type must be either 'sale', 'service' or 'serial'" 
         });
       }
 
@@ -4,7 +4,9 @@ import jwt from 'jsonwebtoken';
 import type { JwtPayload, Secret, SignOptions } from 'jsonwebtoken';
 import type { StringValue } from 'ms';
 import { authenticateUser } from '../auth';
-import { storage } from '../storage';
+import { requirePermission, resolveRequestPermissions } from '../middleware/permissions';
+import { auditTrail } from '../middleware/audit';
+import { storage, TransactionValidationError } from '../storage';
 import {
   db,
   primaryDb,
@@ -23,9 +25,14 @@ import {
   insertSupplierSchema,
   insertTransactionSchema,
   insertTransactionItemSchema,
+  installmentPlanInputSchema,
+  transactionPaymentInputSchema,
   insertServiceTicketSchema,
   insertServiceTicketPartSchema,
+  serviceHandoverCheckSchema,
+  createServicePartRequestSchema,
   insertStockMovementSchema,
+  stockCountScanSchema,
   insertFinancialRecordSchema,
   insertWarrantyClaimSchema,
   generateSKU,
@@ -219,8 +226,11 @@ const transactionListQuerySchema = z.object({
 const transactionCreateSchema = z.object({
   transaction: insertTransactionSchema.omit({ clientId: true }),
   items: z.array(insertTransactionItemSchema.omit({ clientId: true })).min(1),
+  installment: installmentPlanInputSchema.optional(),
+  payments: z.array(transactionPaymentInputSchema).optional(),
 });
 const transactionParamsSchema = z.object({ id: z.string().min(1, 'Transaction ID is required') });
+const serialNumberParamsSchema = z.object({ serialNumber: z.string().trim().min(1, 'Serial number is required') });
 
 const serviceTicketListQuerySchema = z.object({ active: z.enum(['true', 'false']).optional() });
 const serviceTicketParamsSchema = z.object({ id: z.string().min(1, 'Service ticket ID is required') });
@@ -234,6 +244,7 @@ const serviceTicketPartsSchema = z
 
 const stockMovementQuerySchema = z.object({ productId: z.string().min(1).optional() });
 const stockMovementCreateSchema = insertStockMovementSchema.omit({ clientId: true });
+const stockCountParamsSchema = z.object({ id: z.string().min(1, 'Stock count session ID is required') });
 
 const financialRecordQuerySchema = z.object({
   startDate: z.coerce.date().optional(),
@@ -489,6 +500,7 @@ const mobileAuth: RequestHandler = async (req: Request, res: Response, next: Nex
 };
 
 router.use(mobileAuth);
+router.use(auditTrail);
 
 router.get('/me', async (req: Request, res: Response) => {
   try {
@@ -504,14 +516,16 @@ router.get('/me', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    return res.json({ user: sanitizeUser(user) });
+    const permissions = await resolveRequestPermissions(req);
+
+    return res.json({ user: sanitizeUser(user), permissions });
   } catch (error) {
     console.error('Failed to fetch mobile user profile:', error);
     return res.status(500).json({ message: 'Failed to fetch user profile' });
   }
 });
 
-router.get('/summary', async (_req: Request, res: Response) => {
+router.get('/summary', requirePermission('dashboard_view'), async (_req: Request, res: Response) => {
   try {
     const stats = await storage.getDashboardStats();
 
@@ -557,7 +571,7 @@ router.get('/store', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/categories', async (req: Request, res: Response) => {
+router.get('/categories', requirePermission('inventory_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const conditions: SQL[] = [];
 
@@ -599,7 +613,7 @@ router.get('/categories', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/products', async (req: Request, res: Response) => {
+router.get('/products', requirePermission('inventory_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const { page, limit, search } = productQuerySchema.parse(req.query);
     const offset = (page - 1) * limit;
@@ -719,7 +733,7 @@ router.get('/products', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/products/:id', async (req: Request, res: Response) => {
+router.get('/products/:id', requirePermission('inventory_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const { id } = productParamsSchema.parse(req.params);
 
@@ -828,7 +842,7 @@ router.get('/products/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/categories', async (req: Request, res: Response) => {
+router.post('/categories', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = categoryMutationSchema.parse(req.body);
@@ -847,7 +861,7 @@ router.post('/categories', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/categories/:id', async (req: Request, res: Response) => {
+router.put('/categories/:id', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const { id } = categoryParamsSchema.parse(req.params);
     const updateData = categoryMutationSchema.partial().parse(req.body ?? {});
@@ -871,7 +885,7 @@ router.put('/categories/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/categories/:id', async (req: Request, res: Response) => {
+router.delete('/categories/:id', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const { id } = categoryParamsSchema.parse(req.params);
     await storage.deleteCategory(id);
@@ -889,7 +903,7 @@ router.delete('/categories/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/products', async (req: Request, res: Response) => {
+router.post('/products', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const parsed = productMutationSchema.parse(req.body ?? {});
@@ -916,7 +930,7 @@ router.post('/products', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/products/:id', async (req: Request, res: Response) => {
+router.put('/products/:id', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const { id } = productParamsSchema.parse(req.params);
     const updateData = productUpdateSchema.parse(req.body ?? {});
@@ -940,7 +954,7 @@ router.put('/products/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/products/:id', async (req: Request, res: Response) => {
+router.delete('/products/:id', requirePermission('inventory_full'), async (req: Request, res: Response) => {
   try {
     const { id } = productParamsSchema.parse(req.params);
     await storage.deleteProduct(id);
@@ -958,7 +972,7 @@ router.delete('/products/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/customers', async (req: Request, res: Response) => {
+router.get('/customers', requirePermission('customers_view'), async (req: Request, res: Response) => {
   try {
     const { search } = customerQuerySchema.parse(req.query);
     const customers = search ? await storage.searchCustomers(search) : await storage.getCustomers();
@@ -976,7 +990,7 @@ router.get('/customers', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/customers/:id', async (req: Request, res: Response) => {
+router.get('/customers/:id', requirePermission('customers_view'), async (req: Request, res: Response) => {
   try {
     const { id } = customerParamsSchema.parse(req.params);
     const customer = await storage.getCustomerById(id);
@@ -999,7 +1013,7 @@ router.get('/customers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/customers', async (req: Request, res: Response) => {
+router.post('/customers', requirePermission('customers_create'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = customerMutationSchema.parse(req.body ?? {});
@@ -1018,7 +1032,7 @@ router.post('/customers', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/customers/:id', async (req: Request, res: Response) => {
+router.put('/customers/:id', requirePermission('customers_edit'), async (req: Request, res: Response) => {
   try {
     const { id } = customerParamsSchema.parse(req.params);
     const updateData = customerMutationSchema.partial().parse(req.body ?? {});
@@ -1042,7 +1056,7 @@ router.put('/customers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/customers/:id', async (req: Request, res: Response) => {
+router.delete('/customers/:id', requirePermission('customers_full'), async (req: Request, res: Response) => {
   try {
     const { id } = customerParamsSchema.parse(req.params);
     await storage.deleteCustomer(id);
@@ -1060,7 +1074,7 @@ router.delete('/customers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/suppliers', async (_req: Request, res: Response) => {
+router.get('/suppliers', requirePermission('suppliers_view', 'purchasing_view'), async (_req: Request, res: Response) => {
   try {
     const suppliers = await storage.getSuppliers();
     return res.json({ suppliers });
@@ -1070,7 +1084,7 @@ router.get('/suppliers', async (_req: Request, res: Response) => {
   }
 });
 
-router.get('/suppliers/:id', async (req: Request, res: Response) => {
+router.get('/suppliers/:id', requirePermission('suppliers_view', 'purchasing_view'), async (req: Request, res: Response) => {
   try {
     const { id } = supplierParamsSchema.parse(req.params);
     const supplier = await storage.getSupplierById(id);
@@ -1093,7 +1107,7 @@ router.get('/suppliers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/suppliers', async (req: Request, res: Response) => {
+router.post('/suppliers', requirePermission('suppliers_full'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = supplierMutationSchema.parse(req.body ?? {});
@@ -1112,7 +1126,7 @@ router.post('/suppliers', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/suppliers/:id', async (req: Request, res: Response) => {
+router.put('/suppliers/:id', requirePermission('suppliers_full'), async (req: Request, res: Response) => {
   try {
     const { id } = supplierParamsSchema.parse(req.params);
     const updateData = supplierMutationSchema.partial().parse(req.body ?? {});
@@ -1136,7 +1150,7 @@ router.put('/suppliers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/suppliers/:id', async (req: Request, res: Response) => {
+router.delete('/suppliers/:id', requirePermission('suppliers_full'), async (req: Request, res: Response) => {
   try {
     const { id } = supplierParamsSchema.parse(req.params);
     await storage.deleteSupplier(id);
@@ -1154,7 +1168,7 @@ router.delete('/suppliers/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/transactions', async (req: Request, res: Response) => {
+router.get('/transactions', requirePermission('transactions_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const { limit } = transactionListQuerySchema.parse(req.query);
     const transactions = await storage.getTransactions(limit);
@@ -1172,7 +1186,7 @@ router.get('/transactions', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/transactions/:id', async (req: Request, res: Response) => {
+router.get('/transactions/:id', requirePermission('transactions_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const { id } = transactionParamsSchema.parse(req.params);
     const transaction = await storage.getTransactionById(id);
@@ -1195,11 +1209,11 @@ router.get('/transactions/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/transactions', async (req: Request, res: Response) => {
+router.post('/transactions', requirePermission('transactions_create'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const userId = ensureMobileUserId(req);
-    const { transaction: transactionData, items } = transactionCreateSchema.parse(req.body ?? {});
+    const { transaction: transactionData, items, installment, payments } = transactionCreateSchema.parse(req.body ?? {});
 
     const normalizeReference = (value?: string | null) => {
       if (value === null || value === undefined) {
@@ -1224,14 +1238,20 @@ router.post('/transactions', async (req: Request, res: Response) => {
     };
 
     const transactionNumber = `TRX-${Date.now()}`;
+    const openShift = userId ? await storage.getOpenShift(userId) : undefined;
+    if (!openShift) {
+      return res.status(400).json({ message: 'Belum ada shift kasir yang terbuka. Buka shift terlebih dahulu' });
+    }
 
     const transactionPayload = {
       ...transactionData,
       clientId,
       userId,
+      shiftId: openShift.id,
       transactionNumber,
       customerId: normalizeReference(transactionData.customerId),
       supplierId: normalizeReference(transactionData.supplierId),
+      locationId: normalizeReference(transactionData.locationId),
       warrantyStartDate: normalizeDate(transactionData.warrantyStartDate),
       warrantyEndDate: normalizeDate(transactionData.warrantyEndDate),
     };
@@ -1241,7 +1261,7 @@ router.post('/transactions', async (req: Request, res: Response) => {
       clientId,
     }));
 
-    const transaction = await storage.createTransaction(transactionPayload as any, itemPayload as any);
+    const transaction = await storage.createTransaction(transactionPayload as any, itemPayload as any, installment, payments);
     return res.status(201).json({ transaction });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1251,12 +1271,94 @@ router.post('/transactions', async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof TransactionValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+
     console.error('Failed to create mobile transaction:', error);
     return res.status(500).json({ message: 'Failed to create transaction' });
   }
 });
 
-router.get('/service-tickets', async (req: Request, res: Response) => {
+router.get('/serial-numbers/:serialNumber', requirePermission('inventory_view', 'pos_access', 'service_tickets_view'), async (req: Request, res: Response) => {
+  try {
+    const clientId = ensureMobileClientId(req);
+    const { serialNumber } = serialNumberParamsSchema.parse(req.params);
+    const lookup = await storage.getSerialNumberLookup(serialNumber, clientId);
+
+    if (!lookup) {
+      return res.status(404).json({ message: 'Serial number not found' });
+    }
+
+    return res.json(lookup);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid serial number',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to look up mobile serial number:', error);
+    return res.status(500).json({ message: 'Failed to look up serial number' });
+  }
+});
+
+router.get('/stock-counts', requirePermission('inventory_view'), async (_req: Request, res: Response) => {
+  try {
+    // Handheld scanners only need sessions that are still being counted
+    const sessions = await storage.getStockCountSessions('counting');
+    return res.json({ sessions });
+  } catch (error) {
+    console.error('Failed to fetch mobile stock count sessions:', error);
+    return res.status(500).json({ message: 'Failed to fetch stock count sessions' });
+  }
+});
+
+router.get('/stock-counts/:id', requirePermission('inventory_view'), async (req: Request, res: Response) => {
+  try {
+    const { id } = stockCountParamsSchema.parse(req.params);
+    const session = await storage.getStockCountSessionById(id);
+
+    if (!session) {
+      return res.status(404).json({ message: 'Stock count session not found' });
+    }
+
+    return res.json({ session });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid stock count session id',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to fetch mobile stock count session:', error);
+    return res.status(500).json({ message: 'Failed to fetch stock count session' });
+  }
+});
+
+router.post('/stock-counts/:id/scans', requirePermission('inventory_update_stock'), async (req: Request, res: Response) => {
+  try {
+    const userId = ensureMobileUserId(req);
+    const { id } = stockCountParamsSchema.parse(req.params);
+    const scan = stockCountScanSchema.parse(req.body ?? {});
+    const item = await storage.recordStockCountScan(id, scan, userId);
+    return res.json({ item });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid stock count scan',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to record mobile stock count scan:', error);
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to record stock count scan' });
+  }
+});
+
+router.get('/service-tickets', requirePermission('service_tickets_view'), async (req: Request, res: Response) => {
   try {
     const { active } = serviceTicketListQuerySchema.parse(req.query);
     const tickets = active === 'true' ? await storage.getActiveServiceTickets() : await storage.getServiceTickets();
@@ -1274,7 +1376,7 @@ router.get('/service-tickets', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/service-tickets/:id', async (req: Request, res: Response) => {
+router.get('/service-tickets/:id', requirePermission('service_tickets_view'), async (req: Request, res: Response) => {
   try {
     const { id } = serviceTicketParamsSchema.parse(req.params);
     const ticket = await storage.getServiceTicketById(id);
@@ -1297,7 +1399,7 @@ router.get('/service-tickets/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/service-tickets/:id/parts', async (req: Request, res: Response) => {
+router.get('/service-tickets/:id/parts', requirePermission('service_tickets_view'), async (req: Request, res: Response) => {
   try {
     const { id } = serviceTicketParamsSchema.parse(req.params);
     const parts = await storage.getServiceTicketParts(id);
@@ -1315,12 +1417,86 @@ router.get('/service-tickets/:id/parts', async (req: Request, res: Response) =>
   }
 });
 
-router.post('/service-tickets', async (req: Request, res: Response) => {
+router.get('/service-tickets/:id/history', requirePermission('service_tickets_view'), async (req: Request, res: Response) => {
+  try {
+    const { id } = serviceTicketParamsSchema.parse(req.params);
+    const history = await storage.getServiceStatusHistory(id);
+    return res.json({ history });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid service ticket identifier',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to fetch mobile service ticket history:', error);
+    return res.status(500).json({ message: 'Failed to fetch service ticket history' });
+  }
+});
+
+router.post('/service-tickets/:id/handover', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
+  try {
+    const { id } = serviceTicketParamsSchema.parse(req.params);
+    const check = serviceHandoverCheckSchema.parse(req.body ?? {});
+    const ticket = await storage.handOverServiceTicket(id, check, req.mobileUser?.id);
+    return res.json({ ticket });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid handover payload',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to hand over mobile service ticket:', error);
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to hand over service ticket' });
+  }
+});
+
+router.get('/service-tickets/:id/part-requests', requirePermission('service_tickets_view'), async (req: Request, res: Response) => {
+  try {
+    const { id } = serviceTicketParamsSchema.parse(req.params);
+    const requests = await storage.getServicePartRequests({ serviceTicketId: id });
+    return res.json({ requests });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid service ticket identifier',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to fetch mobile service part requests:', error);
+    return res.status(500).json({ message: 'Failed to fetch service part requests' });
+  }
+});
+
+router.post('/service-tickets/:id/part-requests', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
+  try {
+    const { id } = serviceTicketParamsSchema.parse(req.params);
+    const input = createServicePartRequestSchema.parse(req.body ?? {});
+    const { request, ticket } = await storage.createServicePartRequest(id, input, req.mobileUser?.id);
+    return res.status(201).json({ request, ticket });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Invalid part request payload',
+        errors: error.flatten(),
+      });
+    }
+
+    console.error('Failed to create mobile service part request:', error);
+    return res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to create part request' });
+  }
+});
+
+router.post('/service-tickets', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = serviceTicketCreateSchema.parse(req.body ?? {});
     const ticketNumber = payload.ticketNumber || `SVC-${Date.now()}`;
-    const ticket = await storage.createServiceTicket({ ...payload, clientId, ticketNumber });
+    const ticket = await storage.createServiceTicket({ ...payload, clientId, ticketNumber }, req.mobileUser?.id);
     return res.status(201).json({ ticket });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1335,7 +1511,7 @@ router.post('/service-tickets', async (req: Request, res: Response) => {
   }
 });
 
-router.put('/service-tickets/:id', async (req: Request, res: Response) => {
+router.put('/service-tickets/:id', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const { id } = serviceTicketParamsSchema.parse(req.params);
     const userId = ensureMobileUserId(req);
@@ -1362,10 +1538,16 @@ router.put('/service-tickets/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.delete('/service-tickets/:id', async (req: Request, res: Response) => {
+router.delete('/service-tickets/:id', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const { id } = serviceTicketParamsSchema.parse(req.params);
-    await storage.deleteServiceTicket(id);
+    const userId = req.mobileUser?.id;
+
+    if (!userId) {
+      return res.status(401).json({ message: 'User context is missing' });
+    }
+
+    await storage.deleteServiceTicket(id, userId);
     return res.json({ message: 'Service ticket deleted successfully' });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1374,13 +1556,16 @@ router.delete('/service-tickets/:id', async (req: Request, res: Response) => {
         errors: error.flatten(),
       });
     }
+    if (error instanceof TransactionValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
 
     console.error('Failed to delete mobile service ticket:', error);
     return res.status(500).json({ message: 'Failed to delete service ticket' });
   }
 });
 
-router.post('/service-tickets/:id/cancel', async (req: Request, res: Response) => {
+router.post('/service-tickets/:id/cancel', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const { id } = serviceTicketParamsSchema.parse(req.params);
     const userId = ensureMobileUserId(req);
@@ -1452,7 +1637,7 @@ router.post('/service-tickets/:id/cancel', async (req: Request, res: Response) =
   }
 });
 
-router.get('/stock-movements', async (req: Request, res: Response) => {
+router.get('/stock-movements', requirePermission('inventory_view'), async (req: Request, res: Response) => {
   try {
     const { productId } = stockMovementQuerySchema.parse(req.query);
     const movements = await storage.getStockMovements(productId);
@@ -1470,7 +1655,7 @@ router.get('/stock-movements', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/stock-movements', async (req: Request, res: Response) => {
+router.post('/stock-movements', requirePermission('inventory_update_stock'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const userId = ensureMobileUserId(req);
@@ -1490,7 +1675,7 @@ router.post('/stock-movements', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/financial-records', async (req: Request, res: Response) => {
+router.get('/financial-records', requirePermission('financial_view'), async (req: Request, res: Response) => {
   try {
     const { startDate, endDate } = financialRecordQuerySchema.parse(req.query);
     const records = await storage.getFinancialRecords(startDate, endDate);
@@ -1508,7 +1693,7 @@ router.get('/financial-records', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/financial-records', async (req: Request, res: Response) => {
+router.post('/financial-records', requirePermission('financial_full'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = financialRecordCreateSchema.parse(req.body ?? {});
@@ -1536,7 +1721,7 @@ const resolveDateRange = (query: z.infer<typeof dateRangeQuerySchema>) => {
   };
 };
 
-router.get('/reports/sales', async (req: Request, res: Response) => {
+router.get('/reports/sales', requirePermission('reports_sales_view'), async (req: Request, res: Response) => {
   try {
     const range = resolveDateRange(dateRangeQuerySchema.parse(req.query));
     const report = await storage.getSalesReport(range.start, range.end);
@@ -1554,7 +1739,7 @@ router.get('/reports/sales', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/service', async (req: Request, res: Response) => {
+router.get('/reports/service', requirePermission('reports_services_view'), async (req: Request, res: Response) => {
   try {
     const range = resolveDateRange(dateRangeQuerySchema.parse(req.query));
     const report = await storage.getServiceReport(range.start, range.end);
@@ -1572,7 +1757,7 @@ router.get('/reports/service', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/financial', async (req: Request, res: Response) => {
+router.get('/reports/financial', requirePermission('reports_financial_view', 'financial_view'), async (req: Request, res: Response) => {
   try {
     const range = resolveDateRange(dateRangeQuerySchema.parse(req.query));
     const report = await storage.getFinancialReport(range.start, range.end);
@@ -1590,7 +1775,7 @@ router.get('/reports/financial', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/inventory', async (_req: Request, res: Response) => {
+router.get('/reports/inventory', requirePermission('reports_inventory_view'), async (_req: Request, res: Response) => {
   try {
     const report = await storage.getInventoryReport();
     return res.json({ report });
@@ -1600,7 +1785,7 @@ router.get('/reports/inventory', async (_req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/balance-sheet', async (req: Request, res: Response) => {
+router.get('/reports/balance-sheet', requirePermission('reports_financial_view', 'financial_view'), async (req: Request, res: Response) => {
   try {
     const { endDate } = dateRangeQuerySchema.parse(req.query);
     const report = await storage.getBalanceSheet(endDate);
@@ -1618,7 +1803,7 @@ router.get('/reports/balance-sheet', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/income-statement', async (req: Request, res: Response) => {
+router.get('/reports/income-statement', requirePermission('reports_financial_view', 'financial_view'), async (req: Request, res: Response) => {
   try {
     const range = resolveDateRange(dateRangeQuerySchema.parse(req.query));
     const report = await storage.getIncomeStatement(range.start, range.end);
@@ -1636,7 +1821,7 @@ router.get('/reports/income-statement', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/reports/chart-of-accounts', async (_req: Request, res: Response) => {
+router.get('/reports/chart-of-accounts', requirePermission('reports_financial_view', 'financial_view'), async (_req: Request, res: Response) => {
   try {
     const accounts = await storage.getChartOfAccounts();
     return res.json({ accounts });
@@ -1646,7 +1831,7 @@ router.get('/reports/chart-of-accounts', async (_req: Request, res: Response) =>
   }
 });
 
-router.get('/warranty-claims', async (req: Request, res: Response) => {
+router.get('/warranty-claims', requirePermission('service_tickets_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const { status } = warrantyClaimsQuerySchema.parse(req.query);
@@ -1665,7 +1850,7 @@ router.get('/warranty-claims', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/warranty-claims/:id', async (req: Request, res: Response) => {
+router.get('/warranty-claims/:id', requirePermission('service_tickets_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const { id } = warrantyClaimParamsSchema.parse(req.params);
@@ -1689,7 +1874,7 @@ router.get('/warranty-claims/:id', async (req: Request, res: Response) => {
   }
 });
 
-router.post('/warranty-claims', async (req: Request, res: Response) => {
+router.post('/warranty-claims', requirePermission('service_tickets_full', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const userId = ensureMobileUserId(req);
@@ -1709,7 +1894,7 @@ router.post('/warranty-claims', async (req: Request, res: Response) => {
   }
 });
 
-router.patch('/warranty-claims/:id/status', async (req: Request, res: Response) => {
+router.patch('/warranty-claims/:id/status', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const userId = ensureMobileUserId(req);
     const { id } = warrantyClaimParamsSchema.parse(req.params);
@@ -1729,7 +1914,7 @@ router.patch('/warranty-claims/:id/status', async (req: Request, res: Response)
   }
 });
 
-router.post('/warranty-claims/:id/process', async (req: Request, res: Response) => {
+router.post('/warranty-claims/:id/process', requirePermission('service_tickets_full'), async (req: Request, res: Response) => {
   try {
     const userId = ensureMobileUserId(req);
     const { id } = warrantyClaimParamsSchema.parse(req.params);
@@ -1752,7 +1937,7 @@ router.post('/warranty-claims/:id/process', async (req: Request, res: Response)
   }
 });
 
-router.post('/warranty-claims/validate', async (req: Request, res: Response) => {
+router.post('/warranty-claims/validate', requirePermission('service_tickets_view', 'pos_access'), async (req: Request, res: Response) => {
   try {
     const clientId = ensureMobileClientId(req);
     const payload = warrantyEligibilitySchema.parse(req.body ?? {});
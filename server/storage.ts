@@ -7,18 +7,45 @@ import {
   customers,
   suppliers,
   locations,
+  productLocationStocks,
+  stockTransfers,
+  stockTransferItems,
   productBatches,
+  productSerials,
   purchaseOrders,
   purchaseOrderItems,
+  supplierBills,
+  supplierPayments,
+  supplierRmas,
+  fiscalPeriods,
+  bankStatements,
+  bankStatementLines,
+  bankReconciliationMatches,
+  journalEntries,
+  journalEntryLines,
   inventoryAdjustments,
   inventoryAdjustmentItems,
+  stockCountSessions,
+  stockCountItems,
   transactions,
   transactionItems,
+  transactionPayments,
+  installmentPlans,
+  installmentSchedules,
+  installmentPayments,
+  cashierShifts,
+  shiftCashMovements,
+  parkedCarts,
+  auditLogs,
   serviceTickets,
   serviceTicketParts,
+  serviceStatusHistory,
+  serviceQuotes,
+  servicePartRequests,
   stockMovements,
   financialRecords,
   warrantyClaims,
+  warrantyCertificates,
   type User,
   type InsertUser,
   type Role,
@@ -35,33 +62,78 @@ import {
   type InsertSupplier,
   type Location,
   type InsertLocation,
+  type StockTransfer,
+  type StockTransferItem,
+  type InsertStockTransfer,
+  type InsertStockTransferItem,
   type ProductBatch,
   type InsertProductBatch,
+  type ProductSerial,
   type PurchaseOrder,
   type InsertPurchaseOrder,
   type PurchaseOrderItem,
   type InsertPurchaseOrderItem,
+  type SupplierBill,
+  type SupplierPayment,
+  type InsertSupplierPayment,
+  type SupplierRma,
+  type CreateSupplierRmaInput,
+  type ResolveSupplierRmaInput,
+  type FiscalPeriod,
+  type BankStatement,
+  type BankStatementLine,
+  type BankStatementMatchInput,
   type InventoryAdjustment,
   type InsertInventoryAdjustment,
   type InventoryAdjustmentItem,
   type InsertInventoryAdjustmentItem,
+  type StockCountSession,
+  type StockCountItem,
+  type InsertStockCountSession,
+  type StockCountScan,
   type Transaction,
   type InsertTransaction,
   type TransactionItem,
   type InsertTransactionItem,
+  type TransactionPayment,
+  type TransactionPaymentInput,
+  type InstallmentPlan,
+  type InstallmentPlanInput,
+  type SalesReturnInput,
+  type InstallmentSchedule,
+  type InstallmentPayment,
+  type InsertInstallmentPayment,
+  type CashierShift,
+  type OpenCashierShift,
+  type CloseCashierShift,
+  type ShiftCashMovement,
+  type InsertShiftCashMovement,
+  type ParkedCart,
+  type AuditLog,
+  type InsertAuditLog,
+  type ParkCartInput,
   type ServiceTicket,
   type InsertServiceTicket,
   type ServiceTicketPart,
   type InsertServiceTicketPart,
+  type ServiceStatusHistory,
+  type ServiceStatusNote,
+  type ServiceIntakeChecklist,
+  type ServiceHandoverCheck,
+  type ServiceQuote,
+  type CreateServiceQuoteInput,
+  type ServicePartRequest,
+  type CreateServicePartRequestInput,
   type StockMovement,
   type InsertStockMovement,
   type FinancialRecord,
   type InsertFinancialRecord,
   type WarrantyClaim,
   type InsertWarrantyClaim,
+  type WarrantyCertificate,
 } from "@shared/schema";
 import { db, getCurrentTenantContext } from "./db";
-import { eq, desc, asc, and, or, gte, lte, like, ilike, count, sum, sql, isNotNull, isNull, gt, ne, inArray, type SQL } from "drizzle-orm";
+import { eq, desc, asc, and, or, gte, lte, like, ilike, count, sum, sql, isNotNull, isNull, gt, ne, inArray, type SQL, type AnyColumn } from "drizzle-orm";
 import {
   getCurrentJakartaTime,
   toJakartaTime,
@@ -73,6 +145,532 @@ import {
   createDatabaseTimestamp
 } from "@shared/utils/timezone";
 import { financeManager } from "./financeManager";
+import { JOURNAL_SOURCE_KINDS, getFiscalPeriodRange, type BankBookLine, type PpnLedgerDocument } from "./finance";
+import type { ParsedBankStatement } from "./finance/bankStatementParser";
+import type { EFakturInvoice } from "./finance/efaktur";
+import { FINAL_SERVICE_STATUSES, SLA_STATUS_SETTINGS, coerceServiceStatus } from "@shared/service-status";
+import { calculateLineTaxes, calculateServiceTax, summarizeLineTaxes } from "@shared/tax";
+import { findMissingAccessories } from "@shared/service-intake";
+import { randomBytes } from "crypto";
+
+// Parked carts left untouched this long give their reserved stock back
+const PARKED_CART_TTL_HOURS = 24;
+
+// Warranties ending within this many days are flagged as expiring in the registry
+const WARRANTY_EXPIRING_DAYS = 30;
+
+// Stock movements that put returned units into damaged goods
+const DAMAGED_STOCK_REFERENCE_TYPES = ['warranty_return_damaged', 'return_damaged'];
+
+// Order-independent key for a ticket's parts list, used to detect edits after the parts were consumed
+const servicePartsSignature = (parts: Array<{ productId: string; quantity: number; unitPrice?: string | null }>) =>
+  parts
+    .map(part => `${part.productId}:${part.quantity}:${Number(part.unitPrice || 0).toFixed(2)}`)
+    .sort()
+    .join('|');
+
+// DPP behind a service ticket's PPN in one tax period, from the amounts stored when it was booked.
+// A period holding only part of the ticket's PPN (a rebooking) carries the same share of its DPP.
+const serviceTaxableShare = (
+  ticket: { taxableAmount: string | null; taxAmount: string | null } | undefined,
+  periodTax: number,
+) => {
+  const bookedTax = Number(ticket?.taxAmount || 0);
+  if (bookedTax <= 0) return 0;
+  return Number(((Number(ticket?.taxableAmount || 0) * periodTax) / bookedTax).toFixed(2));
+};
+
+// Stock held for parked carts and open service tickets is not available, so it counts against the minimum
+const isLowStock = sql`${products.stock} - COALESCE(${products.reservedStock}, 0) <= ${products.minStock}`;
+
+// Rejected input (serials, tenders, stock, balances) the client must correct, as opposed to a server failure;
+// routes answer it with 400 and keep other errors generic
+export class TransactionValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionValidationError";
+    Object.setPrototypeOf(this, TransactionValidationError.prototype);
+  }
+}
+
+export type FiscalPeriodSummary = {
+  // Null until the period is first closed
+  id: string | null;
+  year: number;
+  month: number;
+  periodStart: Date;
+  periodEnd: Date;
+  status: 'open' | 'closed' | 'locked';
+  closedAt: Date | null;
+  lockedAt: Date | null;
+  yearClosedAt: Date | null;
+};
+
+export type FiscalYearCloseResult = {
+  year: number;
+  netIncome: number;
+  closingJournalNumber: string | null;
+  rolloverJournalNumber: string | null;
+};
+
+export type BankStatementSummary = BankStatement & { lineCount: number; openLineCount: number };
+
+export type BankStatementLineDetail = BankStatementLine & {
+  matchedAmount: number;
+  remaining: number;
+  matches: Array<{
+    id: string;
+    journalEntryLineId: string;
+    journalEntryId: string;
+    journalNumber: string;
+    date: Date;
+    amount: string;
+    matchType: string;
+  }>;
+};
+
+export type BankReconciliationReport = {
+  statement: BankStatement;
+  statementBalance: number | null;
+  bookBalance: number;
+  // Ledger entries the bank has not cleared yet (deposits in transit, unpresented payments)
+  outstandingBookLines: BankBookLine[];
+  outstandingBookTotal: number;
+  // Statement lines with no ledger counterpart yet (fees, interest, unknown transfers)
+  unrecordedBankLines: BankStatementLineDetail[];
+  unrecordedBankTotal: number;
+  adjustedBankBalance: number | null;
+  adjustedBookBalance: number;
+  difference: number | null;
+  isBalanced: boolean;
+};
+
+// Source document behind a journal's reference, shown when drilling down from the ledger
+export type JournalSourceDocument = {
+  kind: 'transaction' | 'service_ticket' | 'purchase_order';
+  id: string;
+  number: string;
+  date: Date | string | null;
+  party: string | null;
+  status: string | null;
+  total: string | null;
+  // Set when the journal pointed at a supplier bill and the document shown is its purchase order
+  billNumber?: string;
+  lines: Array<{ description: string; quantity: number; amount: string | null }>;
+};
+
+// A document behind the PPN posted in a tax period (masa pajak)
+export type PpnReportDocument = PpnLedgerDocument & {
+  number: string | null;
+  party: string | null;
+  taxableAmount: number; // DPP
+};
+
+export type PpnReport = {
+  year: number;
+  month: number;
+  startDate: string;
+  endDate: string;
+  taxRate: number;
+  outputTax: number;
+  outputTaxableAmount: number;
+  inputTax: number;
+  inputTaxableAmount: number;
+  netPayable: number;
+  output: PpnReportDocument[];
+  input: PpnReportDocument[];
+};
+
+export type SerialNumberLookup = {
+  serial: ProductSerial;
+  product: { id: string; name: string; sku: string | null } | null;
+  transaction: {
+    id: string;
+    transactionNumber: string;
+    createdAt: Date | null;
+    paymentMethod: string | null;
+    unitPrice: string | null;
+    warrantyDuration: number | null;
+    warrantyEndDate: Date | null;
+  } | null;
+  customer: { id: string; name: string; phone: string | null; email: string | null } | null;
+  warranty: { isValid: boolean; message: string } | null;
+  movements: StockMovement[];
+};
+
+export type AgingBuckets = {
+  current: number;
+  days1To30: number;
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+  total: number;
+};
+
+const emptyAgingBuckets = (): AgingBuckets => ({
+  current: 0,
+  days1To30: 0,
+  days31To60: 0,
+  days61To90: 0,
+  over90: 0,
+  total: 0,
+});
+
+const resolveAgingBucket = (daysOverdue: number): Exclude<keyof AgingBuckets, 'total'> =>
+  daysOverdue <= 0 ? 'current'
+    : daysOverdue <= 30 ? 'days1To30'
+    : daysOverdue <= 60 ? 'days31To60'
+    : daysOverdue <= 90 ? 'days61To90'
+    : 'over90';
+
+export type InstallmentPlanWithDetails = InstallmentPlan & {
+  customer: { id: string; name: string; phone: string | null } | null;
+  transactionNumber: string | null;
+  schedules: InstallmentSchedule[];
+  payments: InstallmentPayment[];
+};
+
+export type ReceivablesAgingRow = AgingBuckets & {
+  customerId: string;
+  customerName: string;
+  customerPhone: string | null;
+};
+
+export type ReceivablesAgingReport = {
+  asOf: Date;
+  customers: ReceivablesAgingRow[];
+  totals: AgingBuckets;
+};
+
+export type SupplierBillWithSupplier = SupplierBill & {
+  supplierName: string | null;
+  poNumber: string | null;
+};
+
+export type PayablesAgingRow = AgingBuckets & {
+  supplierId: string;
+  supplierName: string;
+};
+
+export type PayablesAgingReport = {
+  asOf: Date;
+  suppliers: PayablesAgingRow[];
+  totals: AgingBuckets;
+};
+
+export type SupplierCreditStatus = {
+  supplierId: string;
+  creditLimit: number | null;
+  outstanding: number;
+  projected: number;
+  exceedsLimit: boolean;
+};
+
+export type SupplierRmaDetail = SupplierRma & {
+  supplierName: string | null;
+  productName: string | null;
+  productSku: string | null;
+};
+
+// Damaged-goods movement that still has units which can be sent back to a supplier
+export type SupplierRmaCandidate = {
+  stockMovementId: string;
+  productId: string;
+  productName: string | null;
+  productSku: string | null;
+  damagedQuantity: number;
+  availableQuantity: number;
+  serialNumbers: string[];
+  unitCost: number;
+  referenceNumber: string | null;
+  damagedAt: Date | null;
+  supplierId: string | null;
+  supplierName: string | null;
+  batchId: string | null;
+};
+
+export type OverdueInstallment = {
+  schedule: InstallmentSchedule;
+  planId: string;
+  planNumber: string;
+  transactionNumber: string | null;
+  customer: { id: string; name: string; phone: string | null };
+  outstanding: number;
+  daysOverdue: number;
+};
+
+export type StockTransferWithDetails = StockTransfer & {
+  fromLocationName: string | null;
+  toLocationName: string | null;
+  items: (StockTransferItem & { productName: string | null; sku: string | null })[];
+};
+
+export type ProductStockByLocation = {
+  productId: string;
+  productName: string;
+  sku: string | null;
+  totalStock: number;
+  inTransit: number;
+  locations: Record<string, number>; // locationId -> on-hand quantity
+};
+
+export type StockCountItemDetail = StockCountItem & {
+  productName: string | null;
+  sku: string | null;
+  barcode: string | null;
+  currentQuantity: number; // system quantity now (snapshot + movements during the count)
+  movementCount: number; // movements recorded after the snapshot - flagged for review
+  variance: number | null; // counted - current, null while uncounted
+  costImpact: number | null;
+};
+
+export type StockCountSessionSummary = StockCountSession & {
+  locationName: string | null;
+  categoryName: string | null;
+  totalItems: number;
+  countedItems: number;
+};
+
+export type StockCountSessionWithDetails = StockCountSessionSummary & {
+  items: StockCountItemDetail[];
+  flaggedItems: number;
+  varianceItems: number;
+  totalCostImpact: number;
+};
+
+export type ReturnableTransactionItem = {
+  id: string;
+  productId: string;
+  productName: string;
+  sku: string | null;
+  trackSerial: boolean;
+  quantity: number;
+  unitPrice: string;
+  totalPrice: string;
+  // What returning the whole line hands back: the discounted DPP plus PPN, or the item total on older sales
+  refundAmount: string;
+  serialNumbers: string[];
+  returnedQuantity: number;
+  returnableQuantity: number;
+  returnedSerials: string[];
+};
+
+export type ReturnableTransaction = Transaction & {
+  customer: { id: string; name: string; phone: string | null } | null;
+  items: ReturnableTransactionItem[];
+  returns: Array<{ id: string; transactionNumber: string; total: string; createdAt: Date }>;
+};
+
+export type SalesReturnSummary = Transaction & {
+  originalTransactionNumber: string | null;
+  customerName: string | null;
+};
+
+export type CashierShiftSummary = CashierShift & {
+  userName: string | null;
+  locationName: string | null;
+};
+
+export type ShiftPaymentBreakdown = {
+  paymentMethod: string;
+  transactionCount: number;
+  sales: number;
+  refunds: number;
+  // Installment down payments and repayments taken at the counter
+  collections: number;
+  net: number;
+};
+
+export type ShiftReport = {
+  // X = mid-shift snapshot, Z = final report of a closed shift
+  reportType: 'X' | 'Z';
+  shift: CashierShiftSummary;
+  payments: ShiftPaymentBreakdown[];
+  cashMovements: ShiftCashMovement[];
+  totals: {
+    transactionCount: number;
+    sales: number;
+    refunds: number;
+    collections: number;
+    cashIn: number;
+    cashOut: number;
+  };
+  expectedCash: number;
+  countedCash: number | null;
+  difference: number | null;
+  generatedAt: Date;
+};
+
+export type ParkedCartItem = {
+  productId: string;
+  name?: string;
+  quantity: number;
+  unitPrice: string;
+  serialNumbers?: string[];
+};
+
+export type ParkedCartSummary = ParkedCart & {
+  customerName: string | null;
+  userName: string | null;
+  locationName: string | null;
+};
+
+export type TechnicianWorkload = {
+  technicianId: string;
+  name: string;
+  openTickets: number;
+  breachedTickets: number;
+};
+
+export type ServiceBoardTicket = {
+  id: string;
+  ticketNumber: string;
+  status: string;
+  customerName: string | null;
+  deviceType: string;
+  deviceBrand: string | null;
+  deviceModel: string | null;
+  problem: string;
+  technicianId: string | null;
+  technicianName: string | null;
+  estimatedCompletion: Date | null;
+  statusChangedAt: Date | null;
+  createdAt: Date | null;
+  hoursInStatus: number;
+  slaLimitHours: number | null;
+  slaBreached: boolean;
+};
+
+export type ServiceBoard = {
+  tickets: ServiceBoardTicket[];
+  technicians: TechnicianWorkload[];
+  sla: { checkingHours: number; waitingPartsHours: number };
+  generatedAt: Date;
+};
+
+// A part held in stock for an open service ticket
+export type ServicePartAllocation = {
+  partId: string;
+  serviceTicketId: string;
+  ticketNumber: string;
+  ticketStatus: string | null;
+  customerName: string | null;
+  productId: string;
+  productName: string;
+  sku: string | null;
+  reservedQuantity: number;
+  stock: number;
+  reservedStock: number;
+  reservedAt: Date | null;
+};
+
+export type ServiceStatusHistoryEntry = ServiceStatusHistory & {
+  changedByName: string | null;
+};
+
+export type ServiceQuoteItem = {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: string;
+  totalPrice: string;
+};
+
+export type PublicServiceQuote = {
+  quote: ServiceQuote;
+  ticket: {
+    ticketNumber: string;
+    customerName: string | null;
+    deviceType: string;
+    deviceBrand: string | null;
+    deviceModel: string | null;
+    problem: string;
+    diagnosis: string | null;
+    status: string | null;
+  };
+};
+
+export type ServicePartRequestDetail = ServicePartRequest & {
+  ticketNumber: string;
+  ticketStatus: string | null;
+  customerName: string | null;
+  productName: string | null;
+  productSku: string | null;
+  supplierName: string | null;
+  poNumber: string | null;
+};
+
+export type ServicePartOrderResult = {
+  purchaseOrders: PurchaseOrder[];
+  skipped: Array<{ requestId: string; ticketNumber: string; reason: string }>;
+};
+
+export type WarrantyStatus = 'active' | 'expiring' | 'expired' | 'claimed';
+
+export type WarrantyRegistryFilters = {
+  search?: string;
+  status?: WarrantyStatus;
+  sourceType?: 'sale' | 'service';
+  limit?: number;
+};
+
+// One warranted product line of a sale, or one repaired device
+export type WarrantyRegistryEntry = {
+  sourceType: 'sale' | 'service';
+  sourceId: string;
+  referenceNumber: string;
+  customerName: string | null;
+  customerPhone: string | null;
+  productId: string | null;
+  productName: string;
+  sku: string | null;
+  serialNumbers: string[];
+  warrantyDuration: number;
+  startDate: Date | null;
+  endDate: Date | null;
+  status: WarrantyStatus;
+  certificateToken: string | null;
+};
+
+export type WarrantyCertificateDetail = {
+  certificate: WarrantyCertificate;
+  sourceType: 'sale' | 'service';
+  referenceNumber: string;
+  customerName: string | null;
+  items: Array<{ name: string; sku: string | null; quantity: number; serialNumbers: string[] }>;
+  warrantyDuration: number;
+  startDate: Date | null;
+  endDate: Date | null;
+  status: WarrantyStatus;
+};
+
+export type AuditLogFilters = {
+  entityType?: string;
+  entityId?: string;
+  userId?: string;
+  search?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+export type AuditLogPage = {
+  logs: AuditLog[];
+  total: number;
+};
+
+// One slice of a stock movement drawn from (or returned to) a single product batch
+type BatchAllocation = {
+  batchId: string | null;
+  quantity: number;
+  unitCost: number;
+};
+
+type ReservedBatch = {
+  batchId: string;
+  quantity: number;
+};
 
 type WarrantyClaimItemDetail = {
   transactionItemId: string;
@@ -129,6 +727,15 @@ export interface IStorage {
   createLocation(location: InsertLocation): Promise<Location>;
   updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location>;
   deleteLocation(id: string): Promise<void>;
+  getStockByLocation(filters?: { locationId?: string; search?: string }): Promise<ProductStockByLocation[]>;
+  
+  // Stock Transfers
+  getStockTransfers(status?: string): Promise<StockTransferWithDetails[]>;
+  getStockTransferById(id: string): Promise<StockTransferWithDetails | undefined>;
+  createStockTransfer(transfer: InsertStockTransfer, items: InsertStockTransferItem[]): Promise<StockTransferWithDetails>;
+  shipStockTransfer(id: string, userId: string): Promise<StockTransferWithDetails>;
+  receiveStockTransfer(id: string, userId: string): Promise<StockTransferWithDetails>;
+  cancelStockTransfer(id: string): Promise<StockTransferWithDetails>;
   
   // Product Batches
   getProductBatches(productId?: string): Promise<ProductBatch[]>;
@@ -145,7 +752,7 @@ export interface IStorage {
   approvePurchaseOrder(id: string, approvedBy: string): Promise<PurchaseOrder>;
   
   // Purchase Order Items
-  getPurchaseOrderItems(poId: string): Promise<(PurchaseOrderItem & { productName: string; productSku: string })[]>;
+  getPurchaseOrderItems(poId: string): Promise<(PurchaseOrderItem & { productName: string; productSku: string; trackSerial: boolean })[]>;
   getAllOutstandingItems(): Promise<(PurchaseOrderItem & { productName: string; productSku: string; poNumber: string })[]>;
   createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem>;
   updatePurchaseOrderItem(id: string, item: Partial<InsertPurchaseOrderItem>): Promise<PurchaseOrderItem>;
@@ -155,20 +762,65 @@ export interface IStorage {
     itemId: string,
     receivedQuantity: number,
     userId: string,
+    serialNumbers?: string[],
+    locationId?: string,
   ): Promise<{
     purchaseOrderId: string;
     totalCost: number;
+    inputTax: number;
     supplier?: string | null;
-    paymentMethod?: string | null;
+    supplierId?: string | null;
+    paymentTerms?: number | null;
     clientId?: string | null;
+    resumedServiceTickets: ServiceTicket[];
   }>;
   
+  // Supplier Payables
+  createSupplierBill(data: {
+    supplierId: string;
+    supplierName?: string | null;
+    purchaseOrderId: string;
+    purchaseOrderItemId?: string;
+    amount: number;
+    inputTax?: number;
+    paymentTerms: number;
+    userId: string;
+    clientId?: string | null;
+  }): Promise<SupplierBill>;
+  getSupplierBills(filters?: { supplierId?: string; status?: string }): Promise<SupplierBillWithSupplier[]>;
+  recordSupplierPayment(billId: string, payment: InsertSupplierPayment, userId: string): Promise<SupplierPayment>;
+  getPayablesAging(asOf?: Date): Promise<PayablesAgingReport>;
+  getSupplierCreditStatus(supplierId: string, additionalAmount?: number): Promise<SupplierCreditStatus>;
+
+  // Supplier RMA
+  getSupplierRmaCandidates(): Promise<SupplierRmaCandidate[]>;
+  getSupplierRmas(filters?: { status?: string; supplierId?: string }): Promise<SupplierRmaDetail[]>;
+  createSupplierRma(input: CreateSupplierRmaInput, userId: string): Promise<SupplierRma>;
+  shipSupplierRma(id: string, data: { trackingNumber?: string; notes?: string }): Promise<SupplierRma>;
+  resolveSupplierRma(id: string, input: ResolveSupplierRmaInput, userId: string): Promise<SupplierRma>;
+  
+  // Serial Numbers
+  getProductSerials(productId: string, status?: string): Promise<ProductSerial[]>;
+  getSerialNumberLookup(serialNumber: string, clientId?: string | null): Promise<SerialNumberLookup | undefined>;
+  
   // Inventory Adjustments
   getInventoryAdjustments(): Promise<InventoryAdjustment[]>;
   getInventoryAdjustmentById(id: string): Promise<InventoryAdjustment | undefined>;
   createInventoryAdjustment(adjustment: InsertInventoryAdjustment): Promise<InventoryAdjustment>;
   approveInventoryAdjustment(id: string, approvedBy: string): Promise<InventoryAdjustment>;
   
+  // Stock Count (Opname) Sessions
+  getStockCountSessions(status?: string): Promise<StockCountSessionSummary[]>;
+  getStockCountSessionById(id: string): Promise<StockCountSessionWithDetails | undefined>;
+  createStockCountSession(session: InsertStockCountSession): Promise<StockCountSessionWithDetails>;
+  recordStockCountScan(sessionId: string, scan: StockCountScan, userId: string): Promise<StockCountItemDetail>;
+  submitStockCountSession(
+    id: string,
+    userId: string,
+    options?: { treatUncountedAsZero?: boolean },
+  ): Promise<{ session: StockCountSessionWithDetails; adjustment: InventoryAdjustment | null }>;
+  cancelStockCountSession(id: string): Promise<StockCountSessionWithDetails>;
+  
   // Inventory Adjustment Items
   getInventoryAdjustmentItems(adjustmentId: string): Promise<InventoryAdjustmentItem[]>;
   createInventoryAdjustmentItem(item: InsertInventoryAdjustmentItem): Promise<InventoryAdjustmentItem>;
@@ -191,21 +843,69 @@ export interface IStorage {
   // Transactions
   getTransactions(limit?: number): Promise<Transaction[]>;
   getTransactionById(id: string): Promise<Transaction | undefined>;
-  createTransaction(transaction: InsertTransaction, items: InsertTransactionItem[]): Promise<Transaction>;
+  createTransaction(transaction: InsertTransaction, items: InsertTransactionItem[], installment?: InstallmentPlanInput, payments?: TransactionPaymentInput[]): Promise<Transaction>;
+
+  // POS returns and exchanges
+  getReturnableTransaction(transactionNumber: string): Promise<ReturnableTransaction | undefined>;
+  getSalesReturns(limit?: number): Promise<SalesReturnSummary[]>;
+  createSalesReturn(input: SalesReturnInput, userId: string, clientId?: string | null): Promise<Transaction>;
+
+  // Cashier shifts and cash drawer
+  getOpenShift(userId: string): Promise<CashierShiftSummary | undefined>;
+  getCashierShifts(filters?: { status?: string; userId?: string }): Promise<CashierShiftSummary[]>;
+  getCashierShiftById(id: string): Promise<CashierShiftSummary | undefined>;
+  openCashierShift(userId: string, input: OpenCashierShift, clientId?: string | null): Promise<CashierShift>;
+  recordShiftCashMovement(shiftId: string, input: InsertShiftCashMovement, userId: string): Promise<ShiftCashMovement>;
+  getShiftReport(id: string): Promise<ShiftReport | undefined>;
+  closeCashierShift(id: string, input: CloseCashierShift, userId: string, canCloseOthers?: boolean): Promise<ShiftReport>;
+
+  // Parked (held) POS carts
+  getParkedCarts(): Promise<ParkedCartSummary[]>;
+  parkCart(input: ParkCartInput, userId: string, clientId?: string | null): Promise<ParkedCart>;
+  resumeParkedCart(id: string, userId: string): Promise<ParkedCart>;
+  cancelParkedCart(id: string): Promise<void>;
+  expireParkedCarts(): Promise<number>;
+  
+  // Installment Plans (customer receivables)
+  getInstallmentPlans(filters?: { customerId?: string; status?: string }): Promise<InstallmentPlanWithDetails[]>;
+  getInstallmentPlanById(id: string): Promise<InstallmentPlanWithDetails | undefined>;
+  recordInstallmentPayment(planId: string, payment: InsertInstallmentPayment, userId: string): Promise<InstallmentPayment>;
+  getReceivablesAging(asOf?: Date): Promise<ReceivablesAgingReport>;
+  getOverdueInstallments(asOf?: Date): Promise<OverdueInstallment[]>;
+  markInstallmentRemindersSent(scheduleIds: string[]): Promise<void>;
   
   // Service Tickets
   getServiceTickets(): Promise<ServiceTicket[]>;
   getServiceTicketById(id: string): Promise<ServiceTicket | undefined>;
   getActiveServiceTickets(): Promise<ServiceTicket[]>;
-  createServiceTicket(ticket: InsertServiceTicket): Promise<ServiceTicket>;
-  updateServiceTicket(id: string, ticket: Partial<InsertServiceTicket>, parts?: InsertServiceTicketPart[], userId?: string): Promise<ServiceTicket>;
-  deleteServiceTicket(id: string): Promise<void>;
+  createServiceTicket(ticket: InsertServiceTicket, userId?: string): Promise<ServiceTicket>;
+  updateServiceTicket(id: string, ticket: Partial<InsertServiceTicket>, parts?: InsertServiceTicketPart[], userId?: string, statusNote?: Partial<ServiceStatusNote>): Promise<ServiceTicket>;
+  deleteServiceTicket(id: string, userId: string): Promise<void>;
   cancelServiceTicket(id: string, data: {
     cancellationFee: string;
     cancellationReason: string;
     cancellationType: 'before_completed' | 'after_completed' | 'warranty_refund';
     userId: string;
   }): Promise<{ success: boolean; message?: string }>;
+  getServiceBoard(): Promise<ServiceBoard>;
+  getTechnicianWorkloads(): Promise<TechnicianWorkload[]>;
+  assignServiceTicket(id: string, technicianId: string | null): Promise<ServiceTicket>;
+  autoAssignServiceTicket(id: string): Promise<ServiceTicket>;
+  getServiceStatusHistory(serviceTicketId: string, options?: { customerVisibleOnly?: boolean }): Promise<ServiceStatusHistoryEntry[]>;
+  getServicePartAllocations(): Promise<ServicePartAllocation[]>;
+  addServiceStatusNote(serviceTicketId: string, note: ServiceStatusNote, userId?: string): Promise<ServiceStatusHistory>;
+  saveServiceIntakeSignature(serviceTicketId: string, signature: string): Promise<ServiceTicket>;
+  handOverServiceTicket(serviceTicketId: string, check: ServiceHandoverCheck, userId?: string): Promise<ServiceTicket>;
+  getServiceQuotes(serviceTicketId: string): Promise<ServiceQuote[]>;
+  getServiceQuoteById(id: string): Promise<ServiceQuote | undefined>;
+  getServiceQuoteByToken(token: string): Promise<PublicServiceQuote | undefined>;
+  createServiceQuote(serviceTicketId: string, input: CreateServiceQuoteInput, userId?: string): Promise<ServiceQuote>;
+  markServiceQuoteSent(id: string): Promise<ServiceQuote>;
+  respondToServiceQuote(token: string, decision: 'approved' | 'rejected', response: { note?: string; ipAddress?: string | null }): Promise<ServiceQuote>;
+  getServicePartRequests(filters?: { serviceTicketId?: string; status?: string }): Promise<ServicePartRequestDetail[]>;
+  createServicePartRequest(serviceTicketId: string, input: CreateServicePartRequestInput, userId?: string): Promise<{ request: ServicePartRequest; ticket: ServiceTicket; previousStatus: string | null }>;
+  cancelServicePartRequest(id: string): Promise<ServicePartRequest>;
+  createPurchaseOrdersFromPartRequests(userId: string): Promise<ServicePartOrderResult>;
   
   // Stock Movements
   getStockMovements(productId?: string): Promise<StockMovement[]>;
@@ -234,6 +934,37 @@ export interface IStorage {
   getIncomeStatement(startDate?: Date, endDate?: Date): Promise<any>;
   getChartOfAccounts(): Promise<any[]>;
   createJournalEntry(data: any): Promise<{ success: boolean; journalEntry?: any; error?: string }>;
+  getJournalSourceDocument(referenceType: string, reference: string): Promise<JournalSourceDocument | null>;
+
+  // Fiscal periods
+  getFiscalPeriods(year: number): Promise<FiscalPeriodSummary[]>;
+  closeFiscalPeriod(year: number, month: number, userId: string): Promise<FiscalPeriod>;
+  reopenFiscalPeriod(year: number, month: number): Promise<FiscalPeriod>;
+  lockFiscalPeriod(year: number, month: number, userId: string): Promise<FiscalPeriod>;
+  closeFiscalYear(year: number, userId: string): Promise<FiscalYearCloseResult>;
+
+  // Bank reconciliation
+  getBankStatements(): Promise<BankStatementSummary[]>;
+  getBankStatement(id: string): Promise<{ statement: BankStatement; lines: BankStatementLineDetail[] } | undefined>;
+  importBankStatement(data: {
+    accountCode: string;
+    fileName: string;
+    parsed: ParsedBankStatement;
+    openingBalance?: number;
+    closingBalance?: number;
+    userId: string;
+  }): Promise<{ statement: BankStatement; imported: number; skipped: number }>;
+  getBankMatchCandidates(lineId: string, dateWindowDays: number): Promise<BankBookLine[]>;
+  autoMatchBankStatement(id: string, dateWindowDays: number, userId: string): Promise<{ matched: number }>;
+  matchBankStatementLine(lineId: string, input: BankStatementMatchInput, userId: string): Promise<BankStatementLine>;
+  unmatchBankStatementLine(lineId: string): Promise<BankStatementLine>;
+  postBankStatementLine(lineId: string, input: { accountCode: string; description?: string }, userId: string): Promise<BankStatementLine>;
+  getBankReconciliationReport(id: string): Promise<BankReconciliationReport | undefined>;
+  completeBankReconciliation(id: string, userId: string): Promise<BankStatement>;
+
+  // PPN (VAT)
+  getPpnReport(year: number, month: number): Promise<PpnReport>;
+  getEFakturInvoices(year: number, month: number): Promise<EFakturInvoice[]>;
   
   // Dashboard Statistics
   getDashboardStats(): Promise<{
@@ -271,6 +1002,14 @@ export interface IStorage {
     originalServiceTicketId?: string,
     clientId?: string | null
   ): Promise<{ isValid: boolean; message: string }>;
+  getWarrantyRegistry(filters?: WarrantyRegistryFilters): Promise<WarrantyRegistryEntry[]>;
+  issueWarrantyCertificate(source: { transactionId?: string; serviceTicketId?: string }, userId?: string): Promise<WarrantyCertificateDetail>;
+  getWarrantyCertificateByToken(token: string): Promise<WarrantyCertificateDetail | undefined>;
+
+  // Audit Log (append-only: no update or delete methods by design)
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogPage>;
+  getAuditLogEntityTypes(): Promise<string[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -288,6 +1027,265 @@ export class DatabaseStorage implements IStorage {
     return tenantContext?.clientId ?? null;
   }
 
+  private normalizeSerialNumbers(serialNumbers?: string[] | null): string[] {
+    if (!Array.isArray(serialNumbers)) {
+      return [];
+    }
+
+    const normalized = serialNumbers
+      .map(serial => (typeof serial === 'string' ? serial.trim() : ''))
+      .filter(serial => serial.length > 0);
+
+    if (new Set(normalized).size !== normalized.length) {
+      throw new TransactionValidationError('Duplicate serial numbers in request');
+    }
+
+    return normalized;
+  }
+
+  // Stock without an explicit location (legacy flows, service parts) lands in the oldest active location
+  private async resolveDefaultLocationId(executor: any = db, explicitClientId?: string | null): Promise<string | null> {
+    const clientId = this.resolveClientId(explicitClientId);
+    const [location] = await executor
+      .select({ id: locations.id })
+      .from(locations)
+      .where(and(
+        eq(locations.isActive, true),
+        clientId ? eq(locations.clientId, clientId) : isNull(locations.clientId)
+      ))
+      .orderBy(asc(locations.createdAt))
+      .limit(1);
+
+    return location?.id ?? null;
+  }
+
+  private async getLocationStockQuantity(executor: any, productId: string, locationId: string): Promise<number> {
+    const [row] = await executor
+      .select({ quantity: productLocationStocks.quantity })
+      .from(productLocationStocks)
+      .where(and(
+        eq(productLocationStocks.productId, productId),
+        eq(productLocationStocks.locationId, locationId)
+      ));
+
+    return row?.quantity ?? 0;
+  }
+
+  // Applies a signed delta to a product's balance at one location. Callers keep products.stock in sync.
+  private async adjustLocationStock(
+    executor: any,
+    productId: string,
+    locationId: string | null | undefined,
+    delta: number,
+    explicitClientId?: string | null,
+  ): Promise<void> {
+    const clientId = this.resolveClientId(explicitClientId);
+    const targetLocationId = locationId || await this.resolveDefaultLocationId(executor, clientId);
+    if (!targetLocationId || !delta) {
+      return;
+    }
+
+    await executor
+      .insert(productLocationStocks)
+      .values({ clientId, productId, locationId: targetLocationId, quantity: delta })
+      .onConflictDoUpdate({
+        target: [productLocationStocks.productId, productLocationStocks.locationId],
+        set: {
+          quantity: sql`${productLocationStocks.quantity} + ${delta}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  private async getInventoryCostingMethod(executor: any, explicitClientId?: string | null): Promise<'average' | 'fifo'> {
+    const clientId = this.resolveClientId(explicitClientId);
+    const [config] = await executor
+      .select({ method: storeConfig.inventoryCostingMethod })
+      .from(storeConfig)
+      .where(clientId ? eq(storeConfig.clientId, clientId) : undefined)
+      .limit(1);
+
+    return config?.method === 'fifo' ? 'fifo' : 'average';
+  }
+
+  // Draws stock out of product batches oldest first. Serial tracked units come from the batch they were
+  // received in. Under FIFO each slice is costed at its batch cost, otherwise at fallbackCost (average).
+  // Stock without a matching batch (e.g. opening stock) is returned as a slice with batchId null.
+  private async consumeProductBatches(
+    executor: any,
+    productId: string,
+    quantity: number,
+    options: {
+      fallbackCost: number;
+      serialNumbers?: string[];
+      reservedBatches?: ReservedBatch[]; // batches held for this consumer, drawn first
+      clientId?: string | null;
+    },
+  ): Promise<BatchAllocation[]> {
+    const clientId = this.resolveClientId(options.clientId);
+    const method = await this.getInventoryCostingMethod(executor, clientId);
+
+    const batchConditions = [
+      eq(productBatches.productId, productId),
+      gt(productBatches.currentQuantity, 0),
+      eq(productBatches.status, 'active'),
+    ];
+    if (clientId) {
+      batchConditions.push(eq(productBatches.clientId, clientId));
+    }
+
+    const batches: Array<{ id: string; unitCost: string; currentQuantity: number; reservedQuantity: number | null }> = await executor
+      .select({
+        id: productBatches.id,
+        unitCost: productBatches.unitCost,
+        currentQuantity: productBatches.currentQuantity,
+        reservedQuantity: productBatches.reservedQuantity,
+      })
+      .from(productBatches)
+      .where(and(...batchConditions))
+      .orderBy(asc(productBatches.receivedDate), asc(productBatches.createdAt))
+      .for('update');
+
+    const preferred = new Map<string, number>();
+    if (options.serialNumbers && options.serialNumbers.length > 0) {
+      const serialRows = await executor
+        .select({ batchId: productSerials.batchId })
+        .from(productSerials)
+        .where(and(
+          eq(productSerials.productId, productId),
+          inArray(productSerials.serialNumber, options.serialNumbers)
+        ));
+      for (const row of serialRows) {
+        if (row.batchId) {
+          preferred.set(row.batchId, (preferred.get(row.batchId) ?? 0) + 1);
+        }
+      }
+    }
+
+    const available = new Map(batches.map(batch => [batch.id, batch.currentQuantity]));
+    const taken = new Map<string, number>();
+    let remaining = quantity;
+
+    const take = (batchId: string, limit: number) => {
+      const amount = Math.min(remaining, limit, available.get(batchId) ?? 0);
+      if (amount <= 0) return;
+      available.set(batchId, (available.get(batchId) ?? 0) - amount);
+      taken.set(batchId, (taken.get(batchId) ?? 0) + amount);
+      remaining -= amount;
+    };
+
+    for (const reservation of options.reservedBatches ?? []) {
+      preferred.set(reservation.batchId, (preferred.get(reservation.batchId) ?? 0) + reservation.quantity);
+    }
+
+    for (const batch of batches) {
+      if (preferred.has(batch.id)) take(batch.id, preferred.get(batch.id) ?? 0);
+    }
+    // Quantities held for other open tickets are only touched once the free stock runs out
+    for (const batch of batches) {
+      if (remaining <= 0) break;
+      take(batch.id, batch.currentQuantity - Number(batch.reservedQuantity ?? 0));
+    }
+    for (const batch of batches) {
+      if (remaining <= 0) break;
+      take(batch.id, remaining);
+    }
+
+    const allocations: BatchAllocation[] = [];
+    for (const batch of batches) {
+      const amount = taken.get(batch.id);
+      if (!amount) continue;
+
+      const left = batch.currentQuantity - amount;
+      await executor
+        .update(productBatches)
+        .set({
+          currentQuantity: left,
+          status: left <= 0 ? 'sold_out' : 'active',
+          updatedAt: new Date(),
+        })
+        .where(eq(productBatches.id, batch.id));
+
+      allocations.push({
+        batchId: batch.id,
+        quantity: amount,
+        unitCost: method === 'fifo' ? Number(batch.unitCost) : options.fallbackCost,
+      });
+    }
+
+    if (remaining > 0) {
+      allocations.push({ batchId: null, quantity: remaining, unitCost: options.fallbackCost });
+    }
+
+    return allocations;
+  }
+
+  // Puts returned stock back into the batches an earlier movement (sale, service) drew it from, net of
+  // anything already returned against the same reference.
+  private async restoreProductBatches(
+    executor: any,
+    productId: string,
+    quantity: number,
+    options: { referenceId: string; fallbackCost: number; clientId?: string | null },
+  ): Promise<BatchAllocation[]> {
+    const clientId = this.resolveClientId(options.clientId);
+    const method = await this.getInventoryCostingMethod(executor, clientId);
+
+    const movementRows: Array<{ batchId: string; movementType: string; quantity: number; createdAt: Date | null }> = await executor
+      .select({
+        batchId: stockMovements.batchId,
+        movementType: stockMovements.movementType,
+        quantity: stockMovements.quantity,
+        createdAt: stockMovements.createdAt,
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.referenceId, options.referenceId),
+        eq(stockMovements.productId, productId),
+        isNotNull(stockMovements.batchId)
+      ))
+      .orderBy(desc(stockMovements.createdAt));
+
+    const outstanding = new Map<string, number>();
+    for (const row of movementRows) {
+      const delta = row.movementType === 'out' ? row.quantity : -row.quantity;
+      outstanding.set(row.batchId, (outstanding.get(row.batchId) ?? 0) + delta);
+    }
+
+    const allocations: BatchAllocation[] = [];
+    let remaining = quantity;
+    const batchIds = Array.from(outstanding.keys());
+
+    for (const batchId of batchIds) {
+      if (remaining <= 0) break;
+      const amount = Math.min(remaining, outstanding.get(batchId) ?? 0);
+      if (amount <= 0) continue;
+
+      const [batch] = await executor
+        .update(productBatches)
+        .set({
+          currentQuantity: sql`${productBatches.currentQuantity} + ${amount}`,
+          status: 'active',
+          updatedAt: new Date(),
+        })
+        .where(eq(productBatches.id, batchId))
+        .returning({ unitCost: productBatches.unitCost });
+
+      allocations.push({
+        batchId,
+        quantity: amount,
+        unitCost: method === 'fifo' && batch ? Number(batch.unitCost) : options.fallbackCost,
+      });
+      remaining -= amount;
+    }
+
+    if (remaining > 0) {
+      allocations.push({ batchId: null, quantity: remaining, unitCost: options.fallbackCost });
+    }
+
+    return allocations;
+  }
+
   private async warrantyAdminNotesColumnExists(): Promise<boolean> {
     if (typeof this.warrantyClaimAdminNotesColumnExists !== 'undefined') {
       return this.warrantyClaimAdminNotesColumnExists;
@@ -604,7 +1602,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(products.isActive, true),
-          sql`${products.stock} <= ${products.minStock}`
+          isLowStock
         )
       )
       .orderBy(asc(products.name));
@@ -612,15 +1610,28 @@ export class DatabaseStorage implements IStorage {
 
   async createProduct(productData: InsertProduct): Promise<Product> {
     const [product] = await db.insert(products).values(productData as any).returning();
+    if (product.stock) {
+      await this.adjustLocationStock(db, product.id, null, product.stock, product.clientId);
+    }
     return product;
   }
 
   async updateProduct(id: string, productData: Partial<InsertProduct>): Promise<Product> {
+    const [existing] = typeof productData.stock === 'number'
+      ? await db.select({ stock: products.stock }).from(products).where(eq(products.id, id))
+      : [];
+
     const [product] = await db
       .update(products)
       .set({ ...productData, updatedAt: new Date() })
       .where(eq(products.id, id))
       .returning();
+
+    // Manual stock edits are booked against the default location
+    if (existing && product) {
+      const delta = (product.stock || 0) - (existing.stock || 0);
+      await this.adjustLocationStock(db, product.id, null, delta, product.clientId);
+    }
     return product;
   }
 
@@ -656,35 +1667,312 @@ export class DatabaseStorage implements IStorage {
     await db.update(locations).set({ isActive: false }).where(eq(locations.id, id));
   }
 
-  // Product Batches
-  async getProductBatches(productId?: string): Promise<ProductBatch[]> {
-    if (productId) {
-      return await db.select().from(productBatches).where(eq(productBatches.productId, productId)).orderBy(desc(productBatches.receivedDate));
+  async getStockByLocation(filters?: { locationId?: string; search?: string }): Promise<ProductStockByLocation[]> {
+    const clientId = this.resolveClientId();
+
+    const productConditions: SQL[] = [eq(products.isActive, true)];
+    if (clientId) productConditions.push(eq(products.clientId, clientId));
+    if (filters?.search) {
+      productConditions.push(or(
+        ilike(products.name, `%${filters.search}%`),
+        ilike(products.sku, `%${filters.search}%`)
+      ) as SQL);
     }
-    return await db.select().from(productBatches).orderBy(desc(productBatches.receivedDate));
-  }
 
-  async getProductBatchById(id: string): Promise<ProductBatch | undefined> {
-    const [batch] = await db.select().from(productBatches).where(eq(productBatches.id, id));
-    return batch;
-  }
+    const productRows = await db
+      .select({ id: products.id, name: products.name, sku: products.sku, stock: products.stock })
+      .from(products)
+      .where(and(...productConditions))
+      .orderBy(asc(products.name));
 
-  async createProductBatch(batchData: InsertProductBatch): Promise<ProductBatch> {
-    const [batch] = await db.insert(productBatches).values(batchData).returning();
-    return batch;
+    const balanceConditions: SQL[] = [];
+    if (clientId) balanceConditions.push(eq(productLocationStocks.clientId, clientId));
+    if (filters?.locationId) balanceConditions.push(eq(productLocationStocks.locationId, filters.locationId));
+
+    const balances = await db
+      .select()
+      .from(productLocationStocks)
+      .where(balanceConditions.length > 0 ? and(...balanceConditions) : undefined);
+
+    const transitConditions: SQL[] = [eq(stockTransfers.status, 'in_transit')];
+    if (clientId) transitConditions.push(eq(stockTransfers.clientId, clientId));
+
+    const inTransitRows = await db
+      .select({
+        productId: stockTransferItems.productId,
+        quantity: sql<number>`COALESCE(SUM(${stockTransferItems.quantity}), 0)`,
+      })
+      .from(stockTransferItems)
+      .innerJoin(stockTransfers, eq(stockTransferItems.transferId, stockTransfers.id))
+      .where(and(...transitConditions))
+      .groupBy(stockTransferItems.productId);
+
+    const inTransitByProduct = new Map(inTransitRows.map(row => [row.productId, Number(row.quantity)]));
+    const balancesByProduct = new Map<string, Record<string, number>>();
+    for (const balance of balances) {
+      const perLocation = balancesByProduct.get(balance.productId) ?? {};
+      perLocation[balance.locationId] = balance.quantity;
+      balancesByProduct.set(balance.productId, perLocation);
+    }
+
+    return productRows
+      .filter(product => !filters?.locationId || balancesByProduct.has(product.id))
+      .map(product => ({
+        productId: product.id,
+        productName: product.name,
+        sku: product.sku,
+        totalStock: product.stock || 0,
+        inTransit: inTransitByProduct.get(product.id) ?? 0,
+        locations: balancesByProduct.get(product.id) ?? {},
+      }));
   }
 
-  async updateProductBatch(id: string, batchData: Partial<InsertProductBatch>): Promise<ProductBatch> {
-    const [batch] = await db
-      .update(productBatches)
-      .set({ ...batchData, updatedAt: new Date() })
-      .where(eq(productBatches.id, id))
-      .returning();
-    return batch;
+  // Stock Transfers
+  async getStockTransfers(status?: string): Promise<StockTransferWithDetails[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(stockTransfers.clientId, clientId));
+    if (status) conditions.push(eq(stockTransfers.status, status));
+
+    const transfers = await db
+      .select({ id: stockTransfers.id })
+      .from(stockTransfers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockTransfers.createdAt));
+
+    const detailed: StockTransferWithDetails[] = [];
+    for (const transfer of transfers) {
+      const details = await this.getStockTransferById(transfer.id);
+      if (details) detailed.push(details);
+    }
+    return detailed;
   }
 
-  // Purchase Orders
-  async getPurchaseOrders(): Promise<(PurchaseOrder & { supplierName: string; itemCount?: number; outstandingCount?: number })[]> {
+  async getStockTransferById(id: string, executor: any = db): Promise<StockTransferWithDetails | undefined> {
+    const clientId = this.resolveClientId();
+    const [transfer] = await executor
+      .select()
+      .from(stockTransfers)
+      .where(clientId
+        ? and(eq(stockTransfers.id, id), eq(stockTransfers.clientId, clientId))
+        : eq(stockTransfers.id, id));
+
+    if (!transfer) {
+      return undefined;
+    }
+
+    const locationRows: { id: string; name: string }[] = await executor
+      .select({ id: locations.id, name: locations.name })
+      .from(locations)
+      .where(inArray(locations.id, [transfer.fromLocationId, transfer.toLocationId]));
+    const locationNames = new Map(locationRows.map(row => [row.id, row.name]));
+
+    const items = await executor
+      .select({
+        item: stockTransferItems,
+        productName: products.name,
+        sku: products.sku,
+      })
+      .from(stockTransferItems)
+      .leftJoin(products, eq(stockTransferItems.productId, products.id))
+      .where(eq(stockTransferItems.transferId, id))
+      .orderBy(asc(stockTransferItems.createdAt));
+
+    return {
+      ...transfer,
+      fromLocationName: locationNames.get(transfer.fromLocationId) ?? null,
+      toLocationName: locationNames.get(transfer.toLocationId) ?? null,
+      items: items.map((row: any) => ({ ...row.item, productName: row.productName, sku: row.sku })),
+    };
+  }
+
+  async createStockTransfer(transferData: InsertStockTransfer, items: InsertStockTransferItem[]): Promise<StockTransferWithDetails> {
+    if (transferData.fromLocationId === transferData.toLocationId) {
+      throw new Error('Lokasi asal dan tujuan transfer tidak boleh sama');
+    }
+    if (items.length === 0) {
+      throw new Error('Transfer harus memiliki minimal satu produk');
+    }
+    if (items.some(item => !(Number(item.quantity) > 0))) {
+      throw new Error('Jumlah transfer harus lebih dari 0');
+    }
+
+    const clientId = this.resolveClientId(transferData.clientId);
+
+    return await db.transaction(async (tx) => {
+      const [transfer] = await tx
+        .insert(stockTransfers)
+        .values({
+          ...transferData,
+          clientId,
+          transferNumber: `TRF-${Date.now()}`,
+          status: 'draft',
+        })
+        .returning();
+
+      await tx.insert(stockTransferItems).values(
+        items.map(item => ({
+          clientId,
+          transferId: transfer.id,
+          productId: item.productId,
+          quantity: Number(item.quantity),
+          notes: item.notes,
+        }))
+      );
+
+      return (await this.getStockTransferById(transfer.id, tx))!;
+    });
+  }
+
+  // draft -> in_transit: stock leaves the source location but is not yet sellable at the destination
+  async shipStockTransfer(id: string, userId: string): Promise<StockTransferWithDetails> {
+    return await db.transaction(async (tx) => {
+      await this.lockStockTransfer(tx, id);
+      const transfer = await this.getStockTransferById(id, tx);
+      if (!transfer) {
+        throw new Error('Transfer stok tidak ditemukan');
+      }
+      if (transfer.status !== 'draft') {
+        throw new Error('Hanya transfer draft yang dapat dikirim');
+      }
+      await this.assertStockNotFrozen(tx, transfer.items.map(item => item.productId), transfer.fromLocationId);
+
+      for (const item of transfer.items) {
+        const available = await this.getLocationStockQuantity(tx, item.productId, transfer.fromLocationId);
+        if (available < item.quantity) {
+          throw new Error(`Stok ${item.productName} di ${transfer.fromLocationName} tidak cukup. Tersedia: ${available}, dibutuhkan: ${item.quantity}`);
+        }
+
+        await this.adjustLocationStock(tx, item.productId, transfer.fromLocationId, -item.quantity, transfer.clientId);
+        await tx.insert(stockMovements).values({
+          clientId: transfer.clientId,
+          productId: item.productId,
+          locationId: transfer.fromLocationId,
+          fromLocationId: transfer.fromLocationId,
+          toLocationId: transfer.toLocationId,
+          movementType: 'transfer',
+          quantity: item.quantity,
+          referenceId: transfer.id,
+          referenceType: 'transfer_out',
+          notes: `Transfer ${transfer.transferNumber} ke ${transfer.toLocationName}`,
+          userId,
+        });
+      }
+
+      await tx
+        .update(stockTransfers)
+        .set({ status: 'in_transit', shippedBy: userId, shippedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stockTransfers.id, id));
+
+      return (await this.getStockTransferById(id, tx))!;
+    });
+  }
+
+  // in_transit -> received: the paired inbound movement at the destination
+  async receiveStockTransfer(id: string, userId: string): Promise<StockTransferWithDetails> {
+    return await db.transaction(async (tx) => {
+      await this.lockStockTransfer(tx, id);
+      const transfer = await this.getStockTransferById(id, tx);
+      if (!transfer) {
+        throw new Error('Transfer stok tidak ditemukan');
+      }
+      if (transfer.status !== 'in_transit') {
+        throw new Error('Hanya transfer dalam pengiriman yang dapat diterima');
+      }
+      await this.assertStockNotFrozen(tx, transfer.items.map(item => item.productId), transfer.toLocationId);
+
+      for (const item of transfer.items) {
+        await this.adjustLocationStock(tx, item.productId, transfer.toLocationId, item.quantity, transfer.clientId);
+        await tx.insert(stockMovements).values({
+          clientId: transfer.clientId,
+          productId: item.productId,
+          locationId: transfer.toLocationId,
+          fromLocationId: transfer.fromLocationId,
+          toLocationId: transfer.toLocationId,
+          movementType: 'transfer',
+          quantity: item.quantity,
+          referenceId: transfer.id,
+          referenceType: 'transfer_in',
+          notes: `Transfer ${transfer.transferNumber} dari ${transfer.fromLocationName}`,
+          userId,
+        });
+
+        await tx
+          .update(stockTransferItems)
+          .set({ receivedQuantity: item.quantity })
+          .where(eq(stockTransferItems.id, item.id));
+      }
+
+      await tx
+        .update(stockTransfers)
+        .set({ status: 'received', receivedBy: userId, receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stockTransfers.id, id));
+
+      return (await this.getStockTransferById(id, tx))!;
+    });
+  }
+
+  async cancelStockTransfer(id: string): Promise<StockTransferWithDetails> {
+    return await db.transaction(async (tx) => {
+      await this.lockStockTransfer(tx, id);
+      const transfer = await this.getStockTransferById(id, tx);
+      if (!transfer) {
+        throw new Error('Transfer stok tidak ditemukan');
+      }
+      if (transfer.status !== 'draft') {
+        throw new Error('Hanya transfer draft yang dapat dibatalkan');
+      }
+
+      await tx
+        .update(stockTransfers)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(stockTransfers.id, id));
+
+      return (await this.getStockTransferById(id, tx))!;
+    });
+  }
+
+  // Holds the transfer row until commit so concurrent ship/receive/cancel calls see each other's status change
+  private async lockStockTransfer(tx: any, id: string): Promise<void> {
+    const clientId = this.resolveClientId();
+    await tx
+      .select({ id: stockTransfers.id })
+      .from(stockTransfers)
+      .where(clientId
+        ? and(eq(stockTransfers.id, id), eq(stockTransfers.clientId, clientId))
+        : eq(stockTransfers.id, id))
+      .for('update');
+  }
+
+  // Product Batches
+  async getProductBatches(productId?: string): Promise<ProductBatch[]> {
+    if (productId) {
+      return await db.select().from(productBatches).where(eq(productBatches.productId, productId)).orderBy(desc(productBatches.receivedDate));
+    }
+    return await db.select().from(productBatches).orderBy(desc(productBatches.receivedDate));
+  }
+
+  async getProductBatchById(id: string): Promise<ProductBatch | undefined> {
+    const [batch] = await db.select().from(productBatches).where(eq(productBatches.id, id));
+    return batch;
+  }
+
+  async createProductBatch(batchData: InsertProductBatch): Promise<ProductBatch> {
+    const [batch] = await db.insert(productBatches).values(batchData).returning();
+    return batch;
+  }
+
+  async updateProductBatch(id: string, batchData: Partial<InsertProductBatch>): Promise<ProductBatch> {
+    const [batch] = await db
+      .update(productBatches)
+      .set({ ...batchData, updatedAt: new Date() })
+      .where(eq(productBatches.id, id))
+      .returning();
+    return batch;
+  }
+
+  // Purchase Orders
+  async getPurchaseOrders(): Promise<(PurchaseOrder & { supplierName: string; itemCount?: number; outstandingCount?: number })[]> {
     // Get base purchase orders first
     const purchaseOrdersWithSupplier = await db
       .select({
@@ -796,7 +2084,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Purchase Order Items
-  async getPurchaseOrderItems(poId: string): Promise<(PurchaseOrderItem & { productName: string; productSku: string })[]> {
+  async getPurchaseOrderItems(poId: string): Promise<(PurchaseOrderItem & { productName: string; productSku: string; trackSerial: boolean })[]> {
     const items = await db
       .select({
         id: purchaseOrderItems.id,
@@ -820,6 +2108,7 @@ export class DatabaseStorage implements IStorage {
         totalPrice: purchaseOrderItems.totalPrice,
         productName: products.name,
         productSku: products.sku,
+        trackSerial: products.trackSerial,
       })
       .from(purchaseOrderItems)
       .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
@@ -828,7 +2117,8 @@ export class DatabaseStorage implements IStorage {
     return items.map(item => ({
       ...item,
       productName: item.productName || 'Unknown Product',
-      productSku: item.productSku || 'N/A'
+      productSku: item.productSku || 'N/A',
+      trackSerial: Boolean(item.trackSerial),
     }));
   }
 
@@ -977,105 +2267,202 @@ export class DatabaseStorage implements IStorage {
     itemId: string,
     receivedQuantity: number,
     userId: string,
+    serialNumbers?: string[],
+    locationId?: string,
   ): Promise<{
     purchaseOrderId: string;
     totalCost: number;
+    inputTax: number;
     supplier?: string | null;
-    paymentMethod?: string | null;
+    supplierId?: string | null;
+    paymentTerms?: number | null;
     clientId?: string | null;
+    resumedServiceTickets: ServiceTicket[];
   }> {
-    // Get item details with select all - no complex field selection
-    const [item] = await db
-      .select()
-      .from(purchaseOrderItems)
-      .where(eq(purchaseOrderItems.id, itemId));
+    const result = await db.transaction(async (tx) => {
+      // Lock the item so concurrent receipts cannot both pass the outstanding check
+      const [item] = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.id, itemId))
+        .for('update');
 
-    if (!item) throw new Error("Purchase order item not found");
+      if (!item) throw new Error("Purchase order item not found");
 
-    const [purchaseOrder] = await db
-      .select({
-        id: purchaseOrders.id,
-        supplierName: suppliers.name,
-        supplierId: purchaseOrders.supplierId,
-        paymentMethod: purchaseOrders.paymentTerms,
-        clientId: purchaseOrders.clientId,
-      })
-      .from(purchaseOrders)
-      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
-      .where(eq(purchaseOrders.id, item.purchaseOrderId));
+      const remainingQuantity = item.quantity - (item.receivedQuantity || 0);
+      if (!Number.isInteger(receivedQuantity) || receivedQuantity <= 0) {
+        throw new TransactionValidationError("Jumlah diterima harus lebih dari 0");
+      }
+      if (receivedQuantity > remainingQuantity) {
+        throw new TransactionValidationError(`Jumlah diterima melebihi sisa pesanan (${remainingQuantity})`);
+      }
+
+      const [purchaseOrder] = await tx
+        .select({
+          id: purchaseOrders.id,
+          supplierName: suppliers.name,
+          supplierId: purchaseOrders.supplierId,
+          paymentTerms: purchaseOrders.paymentTerms,
+          subtotal: purchaseOrders.subtotal,
+          taxAmount: purchaseOrders.taxAmount,
+          clientId: purchaseOrders.clientId,
+        })
+        .from(purchaseOrders)
+        .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+        .where(eq(purchaseOrders.id, item.purchaseOrderId));
+
+      const resolvedClientId = this.resolveClientId(item.clientId || purchaseOrder?.clientId);
+      const receivingLocationId = locationId || await this.resolveDefaultLocationId(tx, resolvedClientId);
+      await this.assertStockNotFrozen(tx, [item.productId], receivingLocationId);
+
+      // Serial tracked products must capture one serial per unit received
+      const [product] = await tx
+        .select({ trackSerial: products.trackSerial })
+        .from(products)
+        .where(eq(products.id, item.productId));
 
-    const resolvedClientId = this.resolveClientId(item.clientId || purchaseOrder?.clientId);
+      const receivedSerials = this.normalizeSerialNumbers(serialNumbers);
+      if (product?.trackSerial) {
+        if (receivedSerials.length !== receivedQuantity) {
+          throw new TransactionValidationError(`Serial numbers required: expected ${receivedQuantity}, got ${receivedSerials.length}`);
+        }
+
+        const existing = await tx
+          .select({ serialNumber: productSerials.serialNumber })
+          .from(productSerials)
+          .where(and(
+            eq(productSerials.productId, item.productId),
+            inArray(productSerials.serialNumber, receivedSerials)
+          ));
+
+        if (existing.length > 0) {
+          throw new TransactionValidationError(`Serial number already registered: ${existing.map(row => row.serialNumber).join(', ')}`);
+        }
+      }
 
-    const newReceivedQuantity = (item.receivedQuantity || 0) + receivedQuantity;
-    const newOutstandingQuantity = item.quantity - newReceivedQuantity;
+      const newReceivedQuantity = (item.receivedQuantity || 0) + receivedQuantity;
+      const newOutstandingQuantity = item.quantity - newReceivedQuantity;
     
-    // Update received quantity and outstanding tracking
-    await db
-      .update(purchaseOrderItems)
-      .set({ 
-        receivedQuantity: newReceivedQuantity,
-        outstandingQuantity: newOutstandingQuantity,
-        // Clear outstanding status when fully received or keep as completed for refunded items
-        outstandingStatus: newOutstandingQuantity > 0 ? (item.outstandingStatus || 'pending') : 'completed',
-        updatedAt: new Date()
-      })
-      .where(eq(purchaseOrderItems.id, itemId));
+      // Update received quantity and outstanding tracking
+      await tx
+        .update(purchaseOrderItems)
+        .set({ 
+          receivedQuantity: newReceivedQuantity,
+          outstandingQuantity: newOutstandingQuantity,
+          // Clear outstanding status when fully received or keep as completed for refunded items
+          outstandingStatus: newOutstandingQuantity > 0 ? (item.outstandingStatus || 'pending') : 'completed',
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseOrderItems.id, itemId));
+
+      // Record stock movement with actual purchase price - different for refunded items
+      const movementNotes = item.outstandingStatus === 'refunded' 
+        ? `Refunded goods received from PO` 
+        : `Received from PO`;
+
+      // Every receipt is its own cost layer so FIFO can draw sales, service parts and returns from it
+      const [batch] = await tx
+        .insert(productBatches)
+        .values({
+          clientId: resolvedClientId,
+          productId: item.productId,
+          batchNumber: `PO-${item.purchaseOrderId.slice(0, 8)}-${Date.now()}`,
+          serialNumbers: product?.trackSerial ? receivedSerials : undefined,
+          unitCost: item.unitCost || item.unitPrice || '0',
+          receivedQuantity,
+          currentQuantity: receivedQuantity,
+          receivedDate: new Date(),
+          purchaseOrderId: item.purchaseOrderId,
+          supplierId: purchaseOrder?.supplierId,
+          locationId: receivingLocationId,
+        })
+        .returning();
+      const batchId = batch.id;
 
-    // Record stock movement with actual purchase price - different for refunded items
-    const movementNotes = item.outstandingStatus === 'refunded' 
-      ? `Refunded goods received from PO` 
-      : `Received from PO`;
+      if (product?.trackSerial) {
+        await tx.insert(productSerials).values(
+          receivedSerials.map(serialNumber => ({
+            clientId: resolvedClientId,
+            productId: item.productId,
+            batchId,
+            serialNumber,
+            status: 'in_stock',
+            purchaseOrderId: item.purchaseOrderId,
+            purchaseOrderItemId: item.id,
+          }))
+        );
+      }
       
-    await db.insert(stockMovements).values({
-      clientId: resolvedClientId,
-      productId: item.productId,
-      movementType: 'in',
-      quantity: receivedQuantity,
-      unitCost: item.unitCost || item.unitPrice, // Try both field names for HPP calculation
-      referenceId: item.purchaseOrderId,
-      referenceType: item.outstandingStatus === 'refunded' ? 'purchase_refund' : 'purchase',
-      notes: movementNotes,
-      userId: userId,
-    });
+      await tx.insert(stockMovements).values({
+        clientId: resolvedClientId,
+        productId: item.productId,
+        batchId,
+        locationId: receivingLocationId,
+        movementType: 'in',
+        quantity: receivedQuantity,
+        unitCost: item.unitCost || item.unitPrice, // Try both field names for HPP calculation
+        serialNumbers: receivedSerials.length > 0 ? receivedSerials : undefined,
+        referenceId: item.purchaseOrderId,
+        referenceType: item.outstandingStatus === 'refunded' ? 'purchase_refund' : 'purchase',
+        notes: movementNotes,
+        userId: userId,
+      });
 
-    // CREATE PROPER JOURNAL ENTRY for purchase (inventory in, cash/accounts payable out)
-    const totalCost = parseFloat(item.unitCost || item.unitPrice || '0') * receivedQuantity;
+      // CREATE PROPER JOURNAL ENTRY for purchase (inventory in, cash/accounts payable out)
+      const totalCost = parseFloat(item.unitCost || item.unitPrice || '0') * receivedQuantity;
+      // PPN Masukan follows the received goods' share of the PO subtotal
+      const poSubtotal = Number(purchaseOrder?.subtotal || 0);
+      const inputTax = poSubtotal > 0
+        ? Math.round((totalCost * Number(purchaseOrder?.taxAmount || 0)) / poSubtotal)
+        : 0;
+
+      // DIRECT UPDATE: Use SQL arithmetic to ensure stock update works
+      await tx
+        .update(products)
+        .set({ 
+          stock: sql`${products.stock} + ${receivedQuantity}`,
+          lastPurchasePrice: item.unitCost || item.unitPrice, // Update last purchase price - use available field
+          updatedAt: new Date()
+        })
+        .where(eq(products.id, item.productId));
+      await this.adjustLocationStock(tx, item.productId, receivingLocationId, receivedQuantity, resolvedClientId);
 
-    // DIRECT UPDATE: Use SQL arithmetic to ensure stock update works
-    await db
-      .update(products)
-      .set({ 
-        stock: sql`${products.stock} + ${receivedQuantity}`,
-        lastPurchasePrice: item.unitCost || item.unitPrice, // Update last purchase price - use available field
-        updatedAt: new Date()
-      })
-      .where(eq(products.id, item.productId));
+      // CALCULATE AND UPDATE HPP (Average Cost) after receiving new stock
+      const newAverageCost = await this.getAveragePurchasePrice(item.productId, resolvedClientId, tx);
+      await tx
+        .update(products)
+        .set({ 
+          averageCost: newAverageCost.toString(),
+          updatedAt: new Date()
+        })
+        .where(eq(products.id, item.productId));
 
-    // CALCULATE AND UPDATE HPP (Average Cost) after receiving new stock
-    const newAverageCost = await this.getAveragePurchasePrice(item.productId, resolvedClientId);
-    await db
-      .update(products)
-      .set({ 
-        averageCost: newAverageCost.toString(),
-        updatedAt: new Date()
-      })
-      .where(eq(products.id, item.productId));
+      // Check if PO should be updated to received status
+      await this.updatePurchaseOrderStatus(item.purchaseOrderId, tx);
 
-    // Check if PO should be updated to received status
-    await this.updatePurchaseOrderStatus(item.purchaseOrderId);
+      const fulfilledTicketIds = await this.fulfillServicePartRequests(tx, item.id, newReceivedQuantity);
 
-    return {
-      purchaseOrderId: item.purchaseOrderId,
-      totalCost,
-      supplier: purchaseOrder?.supplierName || purchaseOrder?.supplierId,
-      paymentMethod: purchaseOrder?.paymentMethod,
-      clientId: resolvedClientId,
-    };
+      return {
+        purchaseOrderId: item.purchaseOrderId,
+        totalCost,
+        inputTax,
+        supplier: purchaseOrder?.supplierName || purchaseOrder?.supplierId,
+        supplierId: purchaseOrder?.supplierId,
+        paymentTerms: purchaseOrder?.paymentTerms,
+        clientId: resolvedClientId,
+        fulfilledTicketIds,
+      };
+    });
+
+    // Ticket status changes run their own transactions, so they follow the committed receipt
+    const { fulfilledTicketIds, ...receipt } = result;
+    const resumedServiceTickets = await this.resumeServiceTicketsAfterReceipt(fulfilledTicketIds, userId);
+    return { ...receipt, resumedServiceTickets };
   }
 
-  async updatePurchaseOrderStatus(poId: string): Promise<void> {
+  async updatePurchaseOrderStatus(poId: string, executor: any = db): Promise<void> {
     // Get all items for this PO
-    const items = await db
+    const items: { quantity: number; receivedQuantity: number | null }[] = await executor
       .select({
         quantity: purchaseOrderItems.quantity,
         receivedQuantity: purchaseOrderItems.receivedQuantity
@@ -1095,7 +2482,7 @@ export class DatabaseStorage implements IStorage {
       newStatus = 'partial_received';
     }
 
-    await db
+    await executor
       .update(purchaseOrders)
       .set({ 
         status: newStatus as any,
@@ -1104,1765 +2491,6876 @@ export class DatabaseStorage implements IStorage {
       .where(eq(purchaseOrders.id, poId));
   }
 
-  // Inventory Adjustments
-  async getInventoryAdjustments(): Promise<InventoryAdjustment[]> {
-    return await db.select().from(inventoryAdjustments).orderBy(desc(inventoryAdjustments.createdAt));
-  }
+  // Supplier Payables
+  async createSupplierBill(data: {
+    supplierId: string;
+    supplierName?: string | null;
+    purchaseOrderId: string;
+    purchaseOrderItemId?: string;
+    amount: number;
+    // PPN Masukan billed on top of amount
+    inputTax?: number;
+    paymentTerms: number;
+    userId: string;
+    clientId?: string | null;
+  }): Promise<SupplierBill> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId(data.clientId);
+      const billAmount = data.amount + (data.inputTax || 0);
+      const billDate = new Date();
+      const dueDate = new Date(billDate);
+      dueDate.setDate(dueDate.getDate() + data.paymentTerms);
+
+      const [bill] = await tx
+        .insert(supplierBills)
+        .values({
+          clientId,
+          billNumber: `BILL-${Date.now()}`,
+          supplierId: data.supplierId,
+          purchaseOrderId: data.purchaseOrderId,
+          purchaseOrderItemId: data.purchaseOrderItemId,
+          amount: billAmount.toFixed(2),
+          paidAmount: '0.00',
+          outstandingAmount: billAmount.toFixed(2),
+          billDate,
+          dueDate,
+        })
+        .returning();
 
-  async getInventoryAdjustmentById(id: string): Promise<InventoryAdjustment | undefined> {
-    const [adjustment] = await db.select().from(inventoryAdjustments).where(eq(inventoryAdjustments.id, id));
-    return adjustment;
+      // Credit purchase: inventory in, Hutang Usaha (2110) up
+      await financeManager.recordInventoryPurchase(
+        {
+          purchaseId: data.purchaseOrderId,
+          supplier: data.supplierName,
+          totalCost: data.amount,
+          inputTax: data.inputTax,
+          paymentMethod: 'accounts_payable',
+          userId: data.userId,
+          clientId,
+        },
+        tx,
+      );
+
+      return bill;
+    });
   }
 
-  async createInventoryAdjustment(adjustmentData: InsertInventoryAdjustment): Promise<InventoryAdjustment> {
-    // Generate adjustment number
-    const countResult = await db.select({ count: count() }).from(inventoryAdjustments);
-    const adjustmentNumber = `ADJ-${String(countResult[0].count + 1).padStart(5, '0')}`;
-    
-    const [adjustment] = await db.insert(inventoryAdjustments).values({
-      ...adjustmentData,
-      adjustmentNumber,
-    }).returning();
-    return adjustment;
+  async getSupplierBills(filters?: { supplierId?: string; status?: string }): Promise<SupplierBillWithSupplier[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(supplierBills.clientId, clientId));
+    if (filters?.supplierId) conditions.push(eq(supplierBills.supplierId, filters.supplierId));
+    if (filters?.status === 'open') {
+      conditions.push(ne(supplierBills.status, 'paid'));
+    } else if (filters?.status) {
+      conditions.push(eq(supplierBills.status, filters.status));
+    }
+
+    const rows = await db
+      .select({
+        bill: supplierBills,
+        supplierName: suppliers.name,
+        poNumber: purchaseOrders.poNumber,
+      })
+      .from(supplierBills)
+      .leftJoin(suppliers, eq(supplierBills.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(supplierBills.purchaseOrderId, purchaseOrders.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(asc(supplierBills.dueDate));
+
+    return rows.map(row => ({ ...row.bill, supplierName: row.supplierName, poNumber: row.poNumber }));
   }
 
-  async approveInventoryAdjustment(id: string, approvedBy: string): Promise<InventoryAdjustment> {
+  async recordSupplierPayment(billId: string, payment: InsertSupplierPayment, userId: string): Promise<SupplierPayment> {
     return await db.transaction(async (tx) => {
-      // Get adjustment and items
-      const [adjustment] = await tx.select().from(inventoryAdjustments).where(eq(inventoryAdjustments.id, id));
-      if (!adjustment) {
-        throw new Error('Adjustment not found');
+      const clientId = this.resolveClientId(payment.clientId);
+      // Lock the bill so two concurrent payments cannot both pass the outstanding check
+      const [bill] = await tx
+        .select({ bill: supplierBills, supplierName: suppliers.name })
+        .from(supplierBills)
+        .leftJoin(suppliers, eq(supplierBills.supplierId, suppliers.id))
+        .where(clientId
+          ? and(eq(supplierBills.id, billId), eq(supplierBills.clientId, clientId))
+          : eq(supplierBills.id, billId))
+        .for('update', { of: supplierBills });
+
+      if (!bill) throw new TransactionValidationError('Supplier bill not found');
+
+      const amount = Number(payment.amount);
+      const outstanding = Number(bill.bill.outstandingAmount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new TransactionValidationError('Payment amount must be greater than zero');
+      }
+      if (amount - outstanding > 0.005) {
+        throw new TransactionValidationError(`Payment exceeds outstanding balance of ${outstanding.toFixed(2)}`);
       }
 
-      const items = await tx.select().from(inventoryAdjustmentItems).where(eq(inventoryAdjustmentItems.adjustmentId, id));
-
-      // Update product stocks based on adjustment
-      for (const item of items) {
-        await tx
-          .update(products)
-          .set({ 
-            stock: sql`${products.stock} + ${item.adjustmentQuantity}`,
-            updatedAt: new Date()
-          })
-          .where(eq(products.id, item.productId));
+      const newOutstanding = Math.max(0, Number((outstanding - amount).toFixed(2)));
+      await tx
+        .update(supplierBills)
+        .set({
+          paidAmount: (Number(bill.bill.paidAmount || 0) + amount).toFixed(2),
+          outstandingAmount: newOutstanding.toFixed(2),
+          status: newOutstanding <= 0 ? 'paid' : 'partial',
+          updatedAt: new Date(),
+        })
+        .where(eq(supplierBills.id, billId));
 
-        // Create stock movement
-        await tx.insert(stockMovements).values({
-          productId: item.productId,
-          batchId: item.batchId,
-          locationId: item.locationId,
-          movementType: item.adjustmentQuantity > 0 ? 'in' : 'out',
-          quantity: Math.abs(item.adjustmentQuantity),
-          unitCost: item.unitCost,
-          referenceId: id,
-          referenceType: 'adjustment',
-          notes: `Inventory adjustment: ${adjustment.reason}`,
-          userId: approvedBy,
-        });
-      }
+      const journal = await financeManager.recordSupplierPayment(
+        {
+          reference: billId,
+          amount,
+          paymentMethod: payment.paymentMethod || 'cash',
+          description: `Pembayaran ${bill.bill.billNumber}${bill.supplierName ? ` - ${bill.supplierName}` : ''}`,
+          userId,
+          clientId: bill.bill.clientId,
+        },
+        tx,
+      );
 
-      // Update adjustment status
-      const [updatedAdjustment] = await tx
-        .update(inventoryAdjustments)
-        .set({ 
-          status: 'approved',
-          approvedBy: approvedBy,
-          approvedDate: new Date(),
-          updatedAt: new Date()
+      const [created] = await tx
+        .insert(supplierPayments)
+        .values({
+          clientId: bill.bill.clientId,
+          billId,
+          supplierId: bill.bill.supplierId,
+          amount: amount.toFixed(2),
+          paymentMethod: payment.paymentMethod || 'cash',
+          paymentDate: payment.paymentDate ? new Date(payment.paymentDate) : new Date(),
+          reference: payment.reference,
+          journalEntryId: journal?.id,
+          notes: payment.notes,
+          userId,
         })
-        .where(eq(inventoryAdjustments.id, id))
         .returning();
 
-      return updatedAdjustment;
+      return created;
     });
   }
 
-  // Inventory Adjustment Items
-  async getInventoryAdjustmentItems(adjustmentId: string): Promise<InventoryAdjustmentItem[]> {
-    return await db.select().from(inventoryAdjustmentItems).where(eq(inventoryAdjustmentItems.adjustmentId, adjustmentId));
-  }
-
-  async createInventoryAdjustmentItem(itemData: InsertInventoryAdjustmentItem): Promise<InventoryAdjustmentItem> {
-    const [item] = await db.insert(inventoryAdjustmentItems).values(itemData).returning();
-    return item;
-  }
-
-  // Enhanced stock movement with new system
-  async createStockMovement(movementData: InsertStockMovement): Promise<StockMovement> {
-    const resolvedClientId = this.resolveClientId(movementData.clientId);
-    const [movement] = await db.insert(stockMovements).values({
-      ...movementData,
-      clientId: resolvedClientId,
-    }).returning();
-    
-    // CREATE FINANCE TRANSACTION for stock movements that have cost impact
-    if (movement.unitCost && parseFloat(movement.unitCost) > 0) {
-      const totalCost = parseFloat(movement.unitCost) * movement.quantity;
-      let transactionType: 'income' | 'expense' | 'asset' = 'expense';
-      let description = `Stock movement: ${movement.movementType}`;
-      
-      if (movement.movementType === 'out') {
-        // When stock goes out, it's usually a sale (income) or expense (cost of goods sold)
-        transactionType = movement.referenceType === 'sale' ? 'income' : 'expense';
-        description = movement.referenceType === 'sale' ? 
-          `Sale: ${movement.quantity} units` : 
-          `Stock out: ${movement.quantity} units`;
-      } else {
-        // When stock comes in, it's an inventory asset increase (not an expense)
-        transactionType = 'asset';
-        description = `Stock in: ${movement.quantity} units added to inventory`;
+  async getPayablesAging(asOf: Date = new Date()): Promise<PayablesAgingReport> {
+    const bills = await this.getSupplierBills({ status: 'open' });
+    const dayMs = 24 * 60 * 60 * 1000;
+    const bySupplier = new Map<string, PayablesAgingRow>();
+    const totals = emptyAgingBuckets();
+
+    for (const bill of bills) {
+      const outstanding = Number(bill.outstandingAmount);
+      if (outstanding <= 0) continue;
+
+      const daysOverdue = Math.floor((asOf.getTime() - new Date(bill.dueDate).getTime()) / dayMs);
+      const bucket = resolveAgingBucket(daysOverdue);
+
+      let supplierRow = bySupplier.get(bill.supplierId);
+      if (!supplierRow) {
+        supplierRow = {
+          supplierId: bill.supplierId,
+          supplierName: bill.supplierName || bill.supplierId,
+          ...emptyAgingBuckets(),
+        };
+        bySupplier.set(bill.supplierId, supplierRow);
       }
-      
-      await db.insert(financialRecords).values({
-        clientId: resolvedClientId,
-        type: transactionType,
-        amount: totalCost.toString(),
-        description,
-        category: movement.referenceType === 'sale' ? 'Sales Revenue' : 'Inventory',
-        reference: movement.referenceId,
-        referenceType: movement.referenceType,
-        userId: movement.userId,
-      });
+
+      supplierRow[bucket] += outstanding;
+      supplierRow.total += outstanding;
+      totals[bucket] += outstanding;
+      totals.total += outstanding;
     }
-    
-    return movement;
+
+    return {
+      asOf,
+      suppliers: Array.from(bySupplier.values()).sort((a, b) => b.total - a.total),
+      totals,
+    };
   }
 
-  async getAveragePurchasePrice(productId: string, explicitClientId?: string | null): Promise<number> {
-    const resolvedClientId = this.resolveClientId(explicitClientId);
+  async getSupplierCreditStatus(supplierId: string, additionalAmount: number = 0): Promise<SupplierCreditStatus> {
+    const clientId = this.resolveClientId();
+    const [supplier] = await db
+      .select({ creditLimit: suppliers.creditLimit })
+      .from(suppliers)
+      .where(and(
+        eq(suppliers.id, supplierId),
+        clientId ? eq(suppliers.clientId, clientId) : undefined
+      ));
 
-    const movementClientFilter = resolvedClientId
-      ? eq(stockMovements.clientId, resolvedClientId)
-      : isNull(stockMovements.clientId);
+    const billConditions = [eq(supplierBills.supplierId, supplierId), ne(supplierBills.status, 'paid')];
+    if (clientId) billConditions.push(eq(supplierBills.clientId, clientId));
 
-    // Get all stock movements where stock came in (type: 'in') for this product
-    const movements = await db
+    const [billTotal] = await db
+      .select({ total: sql<string>`COALESCE(SUM(${supplierBills.outstandingAmount}), 0)` })
+      .from(supplierBills)
+      .where(and(...billConditions));
+
+    // Approved orders are already owed for the units still to arrive; bills only exist for what was received
+    const [orderTotal] = await db
       .select({
-        quantity: stockMovements.quantity,
-        unitCost: stockMovements.unitCost
+        total: sql<string>`COALESCE(SUM(
+          (${purchaseOrderItems.quantity} - COALESCE(${purchaseOrderItems.receivedQuantity}, 0))
+          * CAST(${purchaseOrderItems.unitCost} AS NUMERIC)
+          * CASE WHEN ${purchaseOrders.subtotal} > 0 THEN 1 + COALESCE(${purchaseOrders.taxAmount}, 0) / ${purchaseOrders.subtotal} ELSE 1 END
+        ), 0)`,
       })
-      .from(stockMovements)
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
       .where(and(
-        eq(stockMovements.productId, productId),
-        eq(stockMovements.movementType, 'in'),
-        isNotNull(stockMovements.unitCost),
-        movementClientFilter
+        eq(purchaseOrders.supplierId, supplierId),
+        inArray(purchaseOrders.status, ['sent', 'confirmed', 'partial_received']),
+        sql`COALESCE(${purchaseOrderItems.outstandingStatus}, 'pending') NOT IN ('cancelled', 'refunded')`,
+        sql`${purchaseOrderItems.quantity} > COALESCE(${purchaseOrderItems.receivedQuantity}, 0)`,
+        clientId ? eq(purchaseOrders.clientId, clientId) : undefined
       ));
 
-    if (movements.length === 0) {
-      // If no stock movements with price found, fallback to product's purchase price
-      const productClientFilter = resolvedClientId
-        ? eq(products.clientId, resolvedClientId)
-        : isNull(products.clientId);
+    const creditLimit = supplier?.creditLimit != null ? Number(supplier.creditLimit) : null;
+    const outstanding = Number(billTotal?.total || 0) + Number(orderTotal?.total || 0);
+    const projected = outstanding + additionalAmount;
 
-      const [product] = await db.select({ purchasePrice: products.lastPurchasePrice })
-        .from(products)
+    return {
+      supplierId,
+      creditLimit,
+      outstanding,
+      projected,
+      exceedsLimit: creditLimit !== null && creditLimit > 0 && projected > creditLimit,
+    };
+  }
+
+  // Supplier RMA
+  // Works out which supplier a damaged unit came from: the batch of its serial, then the batch the sale drew from,
+  // then the product's preferred supplier and finally whoever it was last bought from
+  private async traceDamagedStockSupplier(
+    executor: any,
+    movement: { productId: string; referenceId: string | null; serialNumbers: string[] | null },
+  ): Promise<{ supplierId: string | null; batchId: string | null; unitCost: number | null }> {
+    const serials = movement.serialNumbers ?? [];
+    const batchRows: Array<{ batchId: string | null }> = serials.length > 0
+      ? await executor
+        .select({ batchId: productSerials.batchId })
+        .from(productSerials)
+        .where(and(eq(productSerials.productId, movement.productId), inArray(productSerials.serialNumber, serials)))
+      : [];
+
+    if (!batchRows.some(row => row.batchId) && movement.referenceId) {
+      batchRows.push(...await executor
+        .select({ batchId: stockMovements.batchId })
+        .from(stockMovements)
         .where(and(
-          eq(products.id, productId),
-          productClientFilter
-        ));
-      return parseFloat(product?.purchasePrice || '0');
+          eq(stockMovements.referenceId, movement.referenceId),
+          eq(stockMovements.productId, movement.productId),
+          eq(stockMovements.movementType, 'out'),
+          isNotNull(stockMovements.batchId)
+        )));
     }
 
-    // Calculate weighted average: sum(quantity * price) / sum(quantity)
-    let totalWeightedCost = 0;
-    let totalQuantity = 0;
-    
-    for (const movement of movements) {
-      const price = parseFloat(movement.unitCost || '0');
-      const quantity = movement.quantity;
-      totalWeightedCost += price * quantity;
-      totalQuantity += quantity;
+    const batchIds = Array.from(new Set(batchRows.map(row => row.batchId).filter((id): id is string => !!id)));
+    if (batchIds.length > 0) {
+      const [batch] = await executor
+        .select({ id: productBatches.id, supplierId: productBatches.supplierId, unitCost: productBatches.unitCost })
+        .from(productBatches)
+        .where(and(inArray(productBatches.id, batchIds), isNotNull(productBatches.supplierId)))
+        .limit(1);
+      if (batch) {
+        return { supplierId: batch.supplierId, batchId: batch.id, unitCost: Number(batch.unitCost) };
+      }
     }
 
-    return totalQuantity > 0 ? totalWeightedCost / totalQuantity : 0;
-  }
+    const [product] = await executor
+      .select({ preferredSupplierId: products.preferredSupplierId })
+      .from(products)
+      .where(eq(products.id, movement.productId));
 
-  // Customers
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers).orderBy(asc(customers.name));
+    return {
+      supplierId: product?.preferredSupplierId ?? await this.getLastPurchaseSupplierId(executor, movement.productId),
+      batchId: null,
+      unitCost: null,
+    };
   }
 
-  async getCustomerById(id: string): Promise<Customer | undefined> {
-    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
-    return customer;
-  }
+  // Units (and serials) of each damaged movement already covered by an RMA the supplier has not rejected
+  private async getRmaUsageByMovement(executor: any, movementIds: string[]): Promise<Map<string, { quantity: number; serials: Set<string> }>> {
+    const usage = new Map<string, { quantity: number; serials: Set<string> }>();
+    if (movementIds.length === 0) return usage;
 
-  async searchCustomers(query: string): Promise<Customer[]> {
-    return await db
-      .select()
-      .from(customers)
-      .where(ilike(customers.name, `%${query}%`))
-      .orderBy(asc(customers.name));
+    const rows: Array<{ stockMovementId: string | null; quantity: number; serialNumbers: string[] | null }> = await executor
+      .select({
+        stockMovementId: supplierRmas.stockMovementId,
+        quantity: supplierRmas.quantity,
+        serialNumbers: supplierRmas.serialNumbers,
+      })
+      .from(supplierRmas)
+      .where(and(inArray(supplierRmas.stockMovementId, movementIds), ne(supplierRmas.status, 'rejected')));
+
+    for (const row of rows) {
+      if (!row.stockMovementId) continue;
+      const entry = usage.get(row.stockMovementId) ?? { quantity: 0, serials: new Set<string>() };
+      entry.quantity += row.quantity;
+      (row.serialNumbers ?? []).forEach(serial => entry.serials.add(serial));
+      usage.set(row.stockMovementId, entry);
+    }
+    return usage;
   }
 
-  async createCustomer(customerData: InsertCustomer): Promise<Customer> {
-    const [customer] = await db.insert(customers).values(customerData).returning();
-    return customer;
-  }
+  async getSupplierRmaCandidates(): Promise<SupplierRmaCandidate[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [inArray(stockMovements.referenceType, DAMAGED_STOCK_REFERENCE_TYPES)];
+    if (clientId) conditions.push(eq(stockMovements.clientId, clientId));
 
-  async updateCustomer(id: string, customerData: Partial<InsertCustomer>): Promise<Customer> {
-    const [customer] = await db
-      .update(customers)
-      .set({ ...customerData, updatedAt: new Date() })
-      .where(eq(customers.id, id))
-      .returning();
-    return customer;
-  }
+    const movements = await db
+      .select({
+        movement: stockMovements,
+        productName: products.name,
+        productSku: products.sku,
+        averageCost: products.averageCost,
+        transactionNumber: transactions.transactionNumber,
+      })
+      .from(stockMovements)
+      .leftJoin(products, eq(stockMovements.productId, products.id))
+      .leftJoin(transactions, eq(stockMovements.referenceId, transactions.id))
+      .where(and(...conditions))
+      .orderBy(desc(stockMovements.createdAt));
+
+    const usage = await this.getRmaUsageByMovement(db, movements.map(row => row.movement.id));
+    const supplierNames = new Map((await this.getSuppliers()).map(supplier => [supplier.id, supplier.name]));
+    const candidates: SupplierRmaCandidate[] = [];
+
+    for (const row of movements) {
+      const used = usage.get(row.movement.id);
+      const availableQuantity = row.movement.quantity - (used?.quantity ?? 0);
+      if (availableQuantity <= 0) continue;
+
+      const trace = await this.traceDamagedStockSupplier(db, row.movement);
+      candidates.push({
+        stockMovementId: row.movement.id,
+        productId: row.movement.productId,
+        productName: row.productName,
+        productSku: row.productSku,
+        damagedQuantity: row.movement.quantity,
+        availableQuantity,
+        serialNumbers: (row.movement.serialNumbers ?? []).filter(serial => !used?.serials.has(serial)),
+        unitCost: trace.unitCost ?? Number(row.movement.unitCost ?? row.averageCost ?? 0),
+        referenceNumber: row.transactionNumber,
+        damagedAt: row.movement.createdAt,
+        supplierId: trace.supplierId,
+        supplierName: trace.supplierId ? supplierNames.get(trace.supplierId) ?? null : null,
+        batchId: trace.batchId,
+      });
+    }
 
-  async deleteCustomer(id: string): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+    return candidates;
   }
 
-  // Suppliers
-  async getSuppliers(): Promise<Supplier[]> {
-    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
-  }
+  async getSupplierRmas(filters?: { status?: string; supplierId?: string }): Promise<SupplierRmaDetail[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(supplierRmas.clientId, clientId));
+    if (filters?.status) conditions.push(eq(supplierRmas.status, filters.status));
+    if (filters?.supplierId) conditions.push(eq(supplierRmas.supplierId, filters.supplierId));
 
-  async getSupplierById(id: string): Promise<Supplier | undefined> {
-    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
-    return supplier;
+    const rows = await db
+      .select({
+        rma: supplierRmas,
+        supplierName: suppliers.name,
+        productName: products.name,
+        productSku: products.sku,
+      })
+      .from(supplierRmas)
+      .leftJoin(suppliers, eq(supplierRmas.supplierId, suppliers.id))
+      .leftJoin(products, eq(supplierRmas.productId, products.id))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(supplierRmas.createdAt));
+
+    return rows.map(row => ({
+      ...row.rma,
+      supplierName: row.supplierName,
+      productName: row.productName,
+      productSku: row.productSku,
+    }));
   }
 
-  async createSupplier(supplierData: InsertSupplier): Promise<Supplier> {
-    const [supplier] = await db.insert(suppliers).values(supplierData).returning();
-    return supplier;
-  }
+  async createSupplierRma(input: CreateSupplierRmaInput, userId: string): Promise<SupplierRma> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId();
+      const [movement] = await tx
+        .select()
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.id, input.stockMovementId),
+          inArray(stockMovements.referenceType, DAMAGED_STOCK_REFERENCE_TYPES),
+          clientId ? eq(stockMovements.clientId, clientId) : undefined
+        ))
+        .for('update');
+
+      if (!movement) throw new Error('Data barang rusak tidak ditemukan');
+
+      const used = (await this.getRmaUsageByMovement(tx, [movement.id])).get(movement.id);
+      const available = movement.quantity - (used?.quantity ?? 0);
+      if (input.quantity > available) {
+        throw new Error(`Jumlah melebihi barang rusak yang belum diretur. Tersedia: ${available}`);
+      }
 
-  async updateSupplier(id: string, supplierData: Partial<InsertSupplier>): Promise<Supplier> {
-    const [supplier] = await db
-      .update(suppliers)
-      .set({ ...supplierData, updatedAt: new Date() })
-      .where(eq(suppliers.id, id))
-      .returning();
-    return supplier;
-  }
+      // Serial tracked units are identified explicitly, defaulting to the first ones not yet sent
+      const freeSerials = (movement.serialNumbers ?? []).filter(serial => !used?.serials.has(serial));
+      let serialNumbers = this.normalizeSerialNumbers(input.serialNumbers);
+      if (serialNumbers.length === 0 && freeSerials.length > 0) {
+        serialNumbers = freeSerials.slice(0, input.quantity);
+      }
+      const unknownSerials = serialNumbers.filter(serial => !freeSerials.includes(serial));
+      if (unknownSerials.length > 0) {
+        throw new Error(`Nomor seri tidak termasuk barang rusak ini: ${unknownSerials.join(', ')}`);
+      }
+      if (serialNumbers.length > 0 && serialNumbers.length !== input.quantity) {
+        throw new Error(`Jumlah nomor seri (${serialNumbers.length}) harus sama dengan jumlah barang (${input.quantity})`);
+      }
 
-  async deleteSupplier(id: string): Promise<void> {
-    await db.delete(suppliers).where(eq(suppliers.id, id));
+      const trace = await this.traceDamagedStockSupplier(tx, movement);
+      const supplierId = input.supplierId ?? trace.supplierId;
+      if (!supplierId) {
+        throw new Error('Supplier asal barang tidak ditemukan, pilih supplier secara manual');
+      }
+
+      const [product] = await tx
+        .select({ averageCost: products.averageCost, lastPurchasePrice: products.lastPurchasePrice })
+        .from(products)
+        .where(eq(products.id, movement.productId));
+      const unitCost = trace.unitCost ?? Number(movement.unitCost ?? product?.averageCost ?? product?.lastPurchasePrice ?? 0);
+
+      const [rma] = await tx
+        .insert(supplierRmas)
+        .values({
+          clientId: clientId ?? movement.clientId,
+          rmaNumber: `RMA-${Date.now()}`,
+          supplierId,
+          productId: movement.productId,
+          stockMovementId: movement.id,
+          batchId: trace.batchId,
+          quantity: input.quantity,
+          serialNumbers: serialNumbers.length > 0 ? serialNumbers : undefined,
+          unitCost: unitCost.toFixed(2),
+          notes: input.notes,
+          createdBy: userId,
+        })
+        .returning();
+
+      return rma;
+    });
   }
 
-  // Transactions
-  async getTransactions(limit: number = 50): Promise<Transaction[]> {
-    const transactionList = await db
+  async shipSupplierRma(id: string, data: { trackingNumber?: string; notes?: string }): Promise<SupplierRma> {
+    const clientId = this.resolveClientId();
+    const [rma] = await db
       .select()
-      .from(transactions)
-      .leftJoin(customers, eq(transactions.customerId, customers.id))
-      .leftJoin(users, eq(transactions.userId, users.id))
-      .orderBy(desc(transactions.createdAt))
-      .limit(limit);
-    
-    // For each transaction, get its items with product details
-    const transactionsWithItems = await Promise.all(
-      transactionList.map(async (row) => {
-        const transaction = row.transactions;
-        
-        const items = await db
-          .select({
-            id: transactionItems.id,
-            quantity: transactionItems.quantity,
-            unitPrice: transactionItems.unitPrice,
-            totalPrice: transactionItems.totalPrice,
-            product: {
-              id: products.id,
-              name: products.name,
-              sku: products.sku,
-            }
-          })
-          .from(transactionItems)
-          .leftJoin(products, eq(transactionItems.productId, products.id))
-          .where(eq(transactionItems.transactionId, transaction.id));
-        
-        const { password: _, ...userWithoutPassword } = row.users || {};
-        
-        return {
-          ...transaction,
-          items,
-          customer: row.customers,
-          user: userWithoutPassword
-        };
+      .from(supplierRmas)
+      .where(clientId ? and(eq(supplierRmas.id, id), eq(supplierRmas.clientId, clientId)) : eq(supplierRmas.id, id));
+
+    if (!rma) throw new Error('RMA tidak ditemukan');
+    if (rma.status !== 'pending') throw new Error('RMA sudah dikirim ke supplier');
+
+    const [updated] = await db
+      .update(supplierRmas)
+      .set({
+        status: 'shipped',
+        trackingNumber: data.trackingNumber || null,
+        notes: data.notes ?? rma.notes,
+        shippedAt: new Date(),
+        updatedAt: new Date(),
       })
-    );
-    
-    return transactionsWithItems as any;
+      .where(eq(supplierRmas.id, id))
+      .returning();
+    return updated;
   }
 
-  async getTransactionById(id: string): Promise<Transaction | undefined> {
-    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
-    if (!transaction) return undefined;
-    
-    // Get transaction items with product details
-    const items = await db
-      .select({
-        id: transactionItems.id,
-        quantity: transactionItems.quantity,
-        unitPrice: transactionItems.unitPrice,
-        totalPrice: transactionItems.totalPrice,
-        product: {
-          id: products.id,
-          name: products.name,
-          sku: products.sku,
+  async resolveSupplierRma(id: string, input: ResolveSupplierRmaInput, userId: string): Promise<SupplierRma> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId();
+      const [rma] = await tx
+        .select({ rma: supplierRmas, supplierName: suppliers.name })
+        .from(supplierRmas)
+        .leftJoin(suppliers, eq(supplierRmas.supplierId, suppliers.id))
+        .where(clientId ? and(eq(supplierRmas.id, id), eq(supplierRmas.clientId, clientId)) : eq(supplierRmas.id, id))
+        .for('update', { of: supplierRmas });
+
+      if (!rma) throw new Error('RMA tidak ditemukan');
+      if (rma.rma.status !== 'shipped') throw new Error('Hanya RMA yang sudah dikirim yang dapat diselesaikan');
+
+      const record = rma.rma;
+      const rmaClientId = record.clientId ?? clientId;
+      const value = Number(record.unitCost) * record.quantity;
+      const now = new Date();
+      const label = `${record.rmaNumber}${rma.supplierName ? ` - ${rma.supplierName}` : ''}`;
+      let journalEntryId: string | null = null;
+      let creditAmount: number | null = null;
+      let replacementSerialNumbers: string[] | undefined;
+
+      if (input.outcome === 'repaired' || input.outcome === 'replaced') {
+        const [product] = await tx
+          .select({ trackSerial: products.trackSerial })
+          .from(products)
+          .where(eq(products.id, record.productId));
+
+        // Repaired units keep their serials; replacements arrive with new ones
+        const serials = input.outcome === 'repaired'
+          ? record.serialNumbers ?? []
+          : this.normalizeSerialNumbers(input.serialNumbers);
+        if (product?.trackSerial && serials.length !== record.quantity) {
+          throw new Error(`Nomor seri pengganti wajib diisi: dibutuhkan ${record.quantity}, diisi ${serials.length}`);
+        }
+        if (input.outcome === 'replaced' && serials.length > 0) {
+          const existing = await tx
+            .select({ serialNumber: productSerials.serialNumber })
+            .from(productSerials)
+            .where(and(eq(productSerials.productId, record.productId), inArray(productSerials.serialNumber, serials)));
+          if (existing.length > 0) {
+            throw new Error(`Nomor seri sudah terdaftar: ${existing.map(row => row.serialNumber).join(', ')}`);
+          }
+          replacementSerialNumbers = serials;
+        }
+
+        const [movement] = record.stockMovementId
+          ? await tx.select({ locationId: stockMovements.locationId }).from(stockMovements).where(eq(stockMovements.id, record.stockMovementId))
+          : [];
+        const locationId = input.locationId || movement?.locationId || await this.resolveDefaultLocationId(tx, rmaClientId);
+        await this.assertStockNotFrozen(tx, [record.productId], locationId);
+
+        // Units coming back re-enter stock as their own cost layer, like a PO receipt
+        const [batch] = await tx
+          .insert(productBatches)
+          .values({
+            clientId: rmaClientId,
+            productId: record.productId,
+            batchNumber: record.rmaNumber,
+            serialNumbers: product?.trackSerial ? serials : undefined,
+            unitCost: record.unitCost,
+            receivedQuantity: record.quantity,
+            currentQuantity: record.quantity,
+            receivedDate: now,
+            supplierId: record.supplierId,
+            locationId,
+            notes: input.outcome === 'repaired' ? 'Hasil perbaikan RMA supplier' : 'Barang pengganti RMA supplier',
+          })
+          .returning();
+        const batchId = batch.id;
+
+        if (product?.trackSerial) {
+          if (input.outcome === 'repaired') {
+            await tx
+              .update(productSerials)
+              .set({ status: 'in_stock', batchId, transactionId: null, transactionItemId: null, soldAt: null, updatedAt: now })
+              .where(and(eq(productSerials.productId, record.productId), inArray(productSerials.serialNumber, serials)));
+          } else {
+            await tx.insert(productSerials).values(serials.map(serialNumber => ({
+              clientId: rmaClientId,
+              productId: record.productId,
+              batchId,
+              serialNumber,
+              status: 'in_stock',
+              notes: `Pengganti ${record.rmaNumber}`,
+            })));
+          }
+        }
+
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} + ${record.quantity}`, updatedAt: now })
+          .where(eq(products.id, record.productId));
+        await this.adjustLocationStock(tx, record.productId, locationId, record.quantity, rmaClientId);
+
+        await tx.insert(stockMovements).values({
+          clientId: rmaClientId,
+          productId: record.productId,
+          batchId,
+          locationId,
+          movementType: 'in',
+          quantity: record.quantity,
+          unitCost: record.unitCost,
+          serialNumbers: serials.length > 0 ? serials : undefined,
+          referenceId: record.id,
+          referenceType: 'supplier_rma',
+          notes: `${input.outcome === 'repaired' ? 'Perbaikan' : 'Penggantian'} ${label}`,
+          userId,
+        });
+
+        const journal = await financeManager.recordSupplierRmaRecovery(
+          {
+            reference: record.id,
+            amount: value,
+            recovery: 'restock',
+            description: `${input.outcome === 'repaired' ? 'Barang hasil perbaikan' : 'Barang pengganti'} ${label}`,
+            userId,
+            clientId: rmaClientId,
+          },
+          tx,
+        );
+        journalEntryId = journal?.id ?? null;
+      } else if (input.outcome === 'credited') {
+        creditAmount = input.creditAmount ?? value;
+
+        const journal = await financeManager.recordSupplierRmaRecovery(
+          {
+            reference: record.id,
+            amount: creditAmount,
+            recovery: 'credit',
+            description: `Nota kredit ${label}`,
+            userId,
+            clientId: rmaClientId,
+          },
+          tx,
+        );
+        journalEntryId = journal?.id ?? null;
+
+        // The credit settles the supplier's open bills oldest first; anything left stays as a debit on Hutang Usaha
+        const openBills = await tx
+          .select()
+          .from(supplierBills)
+          .where(and(
+            eq(supplierBills.supplierId, record.supplierId),
+            ne(supplierBills.status, 'paid'),
+            rmaClientId ? eq(supplierBills.clientId, rmaClientId) : undefined
+          ))
+          .orderBy(asc(supplierBills.dueDate));
+
+        let remaining = creditAmount;
+        for (const bill of openBills) {
+          if (remaining <= 0.005) break;
+          const outstanding = Number(bill.outstandingAmount);
+          const applied = Math.min(remaining, outstanding);
+          if (applied <= 0) continue;
+
+          const newOutstanding = Math.max(0, Number((outstanding - applied).toFixed(2)));
+          await tx
+            .update(supplierBills)
+            .set({
+              paidAmount: (Number(bill.paidAmount || 0) + applied).toFixed(2),
+              outstandingAmount: newOutstanding.toFixed(2),
+              status: newOutstanding <= 0 ? 'paid' : 'partial',
+              updatedAt: now,
+            })
+            .where(eq(supplierBills.id, bill.id));
+
+          await tx.insert(supplierPayments).values({
+            clientId: bill.clientId,
+            billId: bill.id,
+            supplierId: record.supplierId,
+            amount: applied.toFixed(2),
+            paymentMethod: 'supplier_credit',
+            reference: record.rmaNumber,
+            journalEntryId,
+            notes: `Nota kredit ${record.rmaNumber}`,
+            userId,
+          });
+          remaining -= applied;
         }
-      })
-      .from(transactionItems)
-      .leftJoin(products, eq(transactionItems.productId, products.id))
-      .where(eq(transactionItems.transactionId, id));
-    
-    // Get customer details if exists
-    let customer = null;
-    if (transaction.customerId) {
-      const [customerData] = await db.select().from(customers).where(eq(customers.id, transaction.customerId));
-      customer = customerData;
-    }
-    
-    // Get user details
-    let user = null;
-    if (transaction.userId) {
-      const [userData] = await db.select().from(users).where(eq(users.id, transaction.userId));
-      if (userData) {
-        const { password, ...userWithoutPassword } = userData;
-        user = userWithoutPassword;
       }
+
+      const [updated] = await tx
+        .update(supplierRmas)
+        .set({
+          status: input.outcome,
+          resolvedAt: now,
+          replacementSerialNumbers,
+          creditAmount: creditAmount !== null ? creditAmount.toFixed(2) : null,
+          journalEntryId,
+          notes: input.notes ?? record.notes,
+          updatedAt: now,
+        })
+        .where(eq(supplierRmas.id, record.id))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  // Serial Numbers
+  async getProductSerials(productId: string, status?: string): Promise<ProductSerial[]> {
+    const clientId = this.resolveClientId();
+    const conditions = [eq(productSerials.productId, productId)];
+    if (status) {
+      conditions.push(eq(productSerials.status, status));
     }
-    
-    return {
-      ...transaction,
-      items,
-      customer,
-      user
-    } as any;
+    if (clientId) {
+      conditions.push(eq(productSerials.clientId, clientId));
+    }
+
+    return await db
+      .select()
+      .from(productSerials)
+      .where(and(...conditions))
+      .orderBy(asc(productSerials.receivedAt));
   }
 
-  async createTransaction(transactionData: InsertTransaction, items: InsertTransactionItem[]): Promise<Transaction> {
-    return await db.transaction(async (tx) => {
-      const resolvedClientId = this.resolveClientId(transactionData.clientId);
-      // Normalize item level totals to ensure we always have gross, discount, and net values
-      const normalizedItems = items.map((item) => {
-        const quantity = Number(item.quantity);
-        const unitPrice = Number(item.unitPrice);
-        const providedTotal = Number(item.totalPrice ?? 0);
+  async getSerialNumberLookup(serialNumber: string, clientIdParam?: string | null): Promise<SerialNumberLookup | undefined> {
+    const clientId = this.resolveClientId(clientIdParam);
+    const normalizedSerial = serialNumber.trim();
+    const serialConditions = [eq(productSerials.serialNumber, normalizedSerial)];
+    if (clientId) {
+      serialConditions.push(eq(productSerials.clientId, clientId));
+    }
 
-        // Gross before discount
-        const gross = unitPrice * quantity;
-        // If caller provided totalPrice, treat it as net after discount; otherwise use gross
-        const net = providedTotal > 0 ? providedTotal : gross;
-        const discountValue = gross - net;
+    const [serial] = await db
+      .select()
+      .from(productSerials)
+      .where(and(...serialConditions))
+      .orderBy(desc(productSerials.receivedAt))
+      .limit(1);
 
-        return {
-          ...item,
-          quantity,
-          unitPrice: unitPrice.toFixed(2),
-          totalPrice: net.toFixed(2),
-          // Keep computed fields for aggregate calculations (not persisted because columns do not exist)
-          __gross: gross,
-          __discount: discountValue,
-          clientId: resolvedClientId,
-        };
-      });
+    if (!serial) return undefined;
 
-      const grossSubtotal = normalizedItems.reduce((sum, item) => sum + (item.__gross ?? 0), 0);
-      const discountFromItems = normalizedItems.reduce((sum, item) => sum + (item.__discount ?? 0), 0);
-      const netSubtotal = normalizedItems.reduce((sum, item) => sum + Number(item.totalPrice), 0);
-      const taxAmount = Number(transactionData.taxAmount ?? 0);
+    const [product] = await db
+      .select({ id: products.id, name: products.name, sku: products.sku })
+      .from(products)
+      .where(eq(products.id, serial.productId));
 
-      const normalizedTransactionData = {
-        ...transactionData,
-        clientId: resolvedClientId,
-        subtotal: grossSubtotal.toFixed(2),
-        discountAmount: (Number(transactionData.discountAmount ?? 0) + discountFromItems).toFixed(2),
-        totalPrice: netSubtotal.toFixed(2),
-        taxAmount: taxAmount.toFixed(2),
-        // Final total is net after discount plus tax
-        total: (netSubtotal + taxAmount).toFixed(2),
-      } as InsertTransaction;
+    const movementConditions = [
+      eq(stockMovements.productId, serial.productId),
+      sql`${normalizedSerial} = ANY(${stockMovements.serialNumbers})`,
+    ];
+    if (clientId) {
+      movementConditions.push(eq(stockMovements.clientId, clientId));
+    }
 
-      // Create transaction
-      const [transaction] = await tx.insert(transactions).values(normalizedTransactionData as any).returning();
+    const movements = await db
+      .select()
+      .from(stockMovements)
+      .where(and(...movementConditions))
+      .orderBy(asc(stockMovements.createdAt));
 
-      // Create transaction items
-      const itemsWithTransactionId = normalizedItems.map(item => ({
-        transactionId: transaction.id,
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        totalPrice: item.totalPrice,
-        clientId: resolvedClientId,
-      }));
-      await tx.insert(transactionItems).values(itemsWithTransactionId);
+    let transaction: SerialNumberLookup['transaction'] = null;
+    let customer: SerialNumberLookup['customer'] = null;
+    let warranty: SerialNumberLookup['warranty'] = null;
 
-      // Load product cost information for accurate COGS calculation
-      const productIds = [...new Set(items.map((item) => item.productId))];
-      const productsById = new Map<string, any>();
+    if (serial.transactionId) {
+      const [sale] = await db
+        .select({
+          id: transactions.id,
+          transactionNumber: transactions.transactionNumber,
+          createdAt: transactions.createdAt,
+          paymentMethod: transactions.paymentMethod,
+          warrantyDuration: transactions.warrantyDuration,
+          warrantyEndDate: transactions.warrantyEndDate,
+          customerId: transactions.customerId,
+        })
+        .from(transactions)
+        .where(eq(transactions.id, serial.transactionId));
+
+      if (sale) {
+        let unitPrice: string | null = null;
+        if (serial.transactionItemId) {
+          const [item] = await db
+            .select({ unitPrice: transactionItems.unitPrice })
+            .from(transactionItems)
+            .where(eq(transactionItems.id, serial.transactionItemId));
+          unitPrice = item?.unitPrice ?? null;
+        }
 
-      if (productIds.length > 0) {
-        const productWhere = resolvedClientId
-          ? and(inArray(products.id, productIds), eq(products.clientId, resolvedClientId))
-          : inArray(products.id, productIds);
+        const { customerId, ...saleDetails } = sale;
+        transaction = { ...saleDetails, unitPrice };
 
-        const productRows = await tx
-          .select({
-            id: products.id,
-            averageCost: products.averageCost,
-            lastPurchasePrice: products.lastPurchasePrice,
-            sellingPrice: products.sellingPrice,
-          })
-          .from(products)
-          .where(productWhere);
+        if (customerId) {
+          const [customerRow] = await db
+            .select({ id: customers.id, name: customers.name, phone: customers.phone, email: customers.email })
+            .from(customers)
+            .where(eq(customers.id, customerId));
+          customer = customerRow ?? null;
+        }
 
-        productRows.forEach((product) => productsById.set(product.id, product));
+        warranty = await this.validateWarrantyEligibility(sale.id, undefined, clientId);
       }
-      
-      // Helper to resolve product cost (HPP) consistently for POS calculations
-      const productCostCache = new Map<string, number>();
-      const resolveProductCost = async (productId: string): Promise<number> => {
-        if (productCostCache.has(productId)) {
-          return productCostCache.get(productId) as number;
-        }
+    }
 
-        const product = productsById.get(productId);
-        let cost = Number(product?.averageCost ?? product?.lastPurchasePrice ?? NaN);
+    return {
+      serial,
+      product: product ?? null,
+      transaction,
+      customer,
+      warranty,
+      movements,
+    };
+  }
 
-        // If no explicit HPP is recorded on the product, fall back to the
-        // weighted average purchase price from stock movements (not selling price)
-        if (!Number.isFinite(cost) || cost <= 0) {
-          cost = await this.getAveragePurchasePrice(productId, resolvedClientId);
-        }
+  // Inventory Adjustments
+  async getInventoryAdjustments(): Promise<InventoryAdjustment[]> {
+    return await db.select().from(inventoryAdjustments).orderBy(desc(inventoryAdjustments.createdAt));
+  }
 
-        if (!Number.isFinite(cost) || cost < 0) {
-          cost = 0;
-        }
+  async getInventoryAdjustmentById(id: string): Promise<InventoryAdjustment | undefined> {
+    const [adjustment] = await db.select().from(inventoryAdjustments).where(eq(inventoryAdjustments.id, id));
+    return adjustment;
+  }
 
-        productCostCache.set(productId, cost);
-        return cost;
-      };
+  async createInventoryAdjustment(adjustmentData: InsertInventoryAdjustment): Promise<InventoryAdjustment> {
+    // Generate adjustment number
+    const countResult = await db.select({ count: count() }).from(inventoryAdjustments);
+    const adjustmentNumber = `ADJ-${String(countResult[0].count + 1).padStart(5, '0')}`;
+    
+    const [adjustment] = await db.insert(inventoryAdjustments).values({
+      ...adjustmentData,
+      adjustmentNumber,
+    }).returning();
+    return adjustment;
+  }
 
-      // Update stock for sales
-      if (transactionData.type === 'sale') {
-        for (const item of items) {
-          const productWhere = resolvedClientId
-            ? and(eq(products.id, item.productId), eq(products.clientId, resolvedClientId))
-            : eq(products.id, item.productId);
+  async approveInventoryAdjustment(id: string, approvedBy: string): Promise<InventoryAdjustment> {
+    return await db.transaction(async (tx) => {
+      // Lock the adjustment so a double click or second approver cannot apply it twice
+      const [adjustment] = await tx.select().from(inventoryAdjustments).where(eq(inventoryAdjustments.id, id)).for('update');
+      if (!adjustment) {
+        throw new Error('Adjustment not found');
+      }
+      if (adjustment.status === 'approved') {
+        throw new Error('Adjustment already approved');
+      }
 
-          await tx
-            .update(products)
-            .set({
-              stock: sql`${products.stock} - ${item.quantity}`,
-              updatedAt: new Date()
-            })
-            .where(productWhere);
+      const items = await tx.select().from(inventoryAdjustmentItems).where(eq(inventoryAdjustmentItems.adjustmentId, id));
 
-          // Create stock movement record using cost basis (averageCost preferred)
-          const productCost = await resolveProductCost(item.productId);
-          const movementCost = Number(productCost).toFixed(2);
+      // Update product stocks based on adjustment
+      for (const item of items) {
+        await tx
+          .update(products)
+          .set({ 
+            stock: sql`${products.stock} + ${item.adjustmentQuantity}`,
+            updatedAt: new Date()
+          })
+          .where(eq(products.id, item.productId));
+        await this.adjustLocationStock(tx, item.productId, item.locationId, item.adjustmentQuantity, adjustment.clientId);
+
+        const unitCost = item.unitCost != null
+          ? Number(item.unitCost)
+          : await this.getAveragePurchasePrice(item.productId, adjustment.clientId, tx);
+
+        // Found stock becomes its own cost layer; missing stock is drawn from the batches like a sale
+        let allocations: BatchAllocation[];
+        if (item.adjustmentQuantity > 0) {
+          const [batch] = await tx
+            .insert(productBatches)
+            .values({
+              clientId: adjustment.clientId,
+              productId: item.productId,
+              batchNumber: adjustment.adjustmentNumber,
+              unitCost: unitCost.toFixed(2),
+              receivedQuantity: item.adjustmentQuantity,
+              currentQuantity: item.adjustmentQuantity,
+              receivedDate: new Date(),
+              locationId: item.locationId,
+              notes: `Inventory adjustment: ${adjustment.reason}`,
+            })
+            .returning();
+          allocations = [{ batchId: batch.id, quantity: item.adjustmentQuantity, unitCost }];
+        } else {
+          allocations = await this.consumeProductBatches(tx, item.productId, Math.abs(item.adjustmentQuantity), {
+            fallbackCost: unitCost,
+            reservedBatches: item.batchId ? [{ batchId: item.batchId, quantity: Math.abs(item.adjustmentQuantity) }] : undefined,
+            clientId: adjustment.clientId,
+          });
+        }
 
+        // Create stock movement per batch
+        for (const allocation of allocations) {
           await tx.insert(stockMovements).values({
+            clientId: adjustment.clientId,
             productId: item.productId,
-            movementType: 'out',
-            quantity: item.quantity,
-            unitCost: movementCost,
-            referenceId: transaction.id,
-            referenceType: 'sale',
-            notes: `Penjualan - ${transaction.transactionNumber}`,
-            userId: transaction.userId,
-            clientId: resolvedClientId,
+            batchId: allocation.batchId,
+            locationId: item.locationId,
+            movementType: item.adjustmentQuantity > 0 ? 'in' : 'out',
+            quantity: allocation.quantity,
+            unitCost: allocation.unitCost.toFixed(2),
+            referenceId: id,
+            referenceType: 'adjustment',
+            notes: `Inventory adjustment: ${adjustment.reason}`,
+            userId: approvedBy,
           });
         }
-
-        await financeManager.processPOSTransaction(
-          {
-            transaction,
-            items: normalizedItems.map((item) => ({
-              productId: item.productId,
-              quantity: Number(item.quantity),
-              totalPrice: Number(item.totalPrice),
-            })),
-          },
-          tx,
-        );
       }
-      
-      // Fetch complete transaction with items for receipt
-      const completeTransaction = await this.getTransactionById(transaction.id);
-      return completeTransaction || transaction;
+
+      // Update adjustment status
+      const [updatedAdjustment] = await tx
+        .update(inventoryAdjustments)
+        .set({ 
+          status: 'approved',
+          approvedBy: approvedBy,
+          approvedDate: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(inventoryAdjustments.id, id))
+        .returning();
+
+      // A stock opname session is closed once its recount adjustment is approved
+      await tx
+        .update(stockCountSessions)
+        .set({ status: 'approved', updatedAt: new Date() })
+        .where(eq(stockCountSessions.adjustmentId, id));
+
+      return updatedAdjustment;
     });
   }
 
-  // Service Tickets
-  async getServiceTickets(): Promise<ServiceTicket[]> {
-    const tickets = await db
-      .select({
-        id: serviceTickets.id,
-        clientId: serviceTickets.clientId,
-        createdAt: serviceTickets.createdAt,
-        updatedAt: serviceTickets.updatedAt,
-        status: serviceTickets.status,
-        customerId: serviceTickets.customerId,
-        deviceType: serviceTickets.deviceType,
-        deviceBrand: serviceTickets.deviceBrand,
-        deviceModel: serviceTickets.deviceModel,
-        serialNumber: serviceTickets.serialNumber,
-        completeness: serviceTickets.completeness,
-        problem: serviceTickets.problem,
-        diagnosis: serviceTickets.diagnosis,
-        solution: serviceTickets.solution,
-        estimatedCost: serviceTickets.estimatedCost,
-        actualCost: serviceTickets.actualCost,
-        laborCost: serviceTickets.laborCost,
-        partsCost: serviceTickets.partsCost,
-        estimatedCompletion: serviceTickets.estimatedCompletion,
-        technicianId: serviceTickets.technicianId,
-        warrantyDuration: serviceTickets.warrantyDuration,
-        warrantyStartDate: serviceTickets.warrantyStartDate,
-        warrantyEndDate: serviceTickets.warrantyEndDate,
-        // Cancellation fields
-        cancellationFee: serviceTickets.cancellationFee,
-        cancellationReason: serviceTickets.cancellationReason,
-        cancelledAt: serviceTickets.cancelledAt,
-        cancelledBy: serviceTickets.cancelledBy,
-        cancellationType: serviceTickets.cancellationType,
+  // Stock Count (Opname) Sessions
+  private async getCurrentCountQuantities(
+    executor: any,
+    productIds: string[],
+    locationId: string | null,
+  ): Promise<Map<string, number>> {
+    const quantities = new Map<string, number>();
+    if (productIds.length === 0) {
+      return quantities;
+    }
 
-        ticketNumber: serviceTickets.ticketNumber,
-        completedAt: serviceTickets.completedAt,
-        customerName: customers.name
-      })
-      .from(serviceTickets)
-      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
-      .orderBy(desc(serviceTickets.createdAt));
-    
-    return tickets.map(ticket => ({
-      ...ticket,
-      customerName: ticket.customerName || null, // Keep string field for backward compatibility
-      customer: ticket.customerName ? { name: ticket.customerName } : null // Object field for new usage
-    })) as ServiceTicket[];
+    if (locationId) {
+      const rows = await executor
+        .select({ productId: productLocationStocks.productId, quantity: productLocationStocks.quantity })
+        .from(productLocationStocks)
+        .where(and(
+          eq(productLocationStocks.locationId, locationId),
+          inArray(productLocationStocks.productId, productIds)
+        ));
+      rows.forEach((row: any) => quantities.set(row.productId, row.quantity ?? 0));
+    } else {
+      const rows = await executor
+        .select({ productId: products.id, quantity: products.stock })
+        .from(products)
+        .where(inArray(products.id, productIds));
+      rows.forEach((row: any) => quantities.set(row.productId, row.quantity ?? 0));
+    }
+
+    return quantities;
   }
 
-  async getServiceTicketById(id: string): Promise<ServiceTicket | undefined> {
-    const [ticket] = await db.select().from(serviceTickets).where(eq(serviceTickets.id, id));
-    return ticket;
+  // Sessions started with freezeMovements block stock changes of their products until submitted
+  private async assertStockNotFrozen(executor: any, productIds: string[], locationId?: string | null): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    const locationCondition = locationId
+      ? or(isNull(stockCountSessions.locationId), eq(stockCountSessions.locationId, locationId))
+      : undefined;
+
+    const [frozen] = await executor
+      .select({ sessionNumber: stockCountSessions.sessionNumber, productName: products.name })
+      .from(stockCountItems)
+      .innerJoin(stockCountSessions, eq(stockCountItems.sessionId, stockCountSessions.id))
+      .leftJoin(products, eq(stockCountItems.productId, products.id))
+      .where(and(
+        eq(stockCountSessions.status, 'counting'),
+        eq(stockCountSessions.freezeMovements, true),
+        inArray(stockCountItems.productId, productIds),
+        locationCondition
+      ))
+      .limit(1);
+
+    if (frozen) {
+      throw new Error(`${frozen.productName} sedang dihitung pada stock opname ${frozen.sessionNumber}; pergerakan stok dibekukan sampai opname selesai`);
+    }
   }
 
-  async getActiveServiceTickets(): Promise<ServiceTicket[]> {
-    const tickets = await db
+  async getStockCountSessions(status?: string): Promise<StockCountSessionSummary[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(stockCountSessions.clientId, clientId));
+    if (status) conditions.push(eq(stockCountSessions.status, status));
+
+    const rows = await db
       .select({
-        id: serviceTickets.id,
-        clientId: serviceTickets.clientId,
-        createdAt: serviceTickets.createdAt,
-        updatedAt: serviceTickets.updatedAt,
-        status: serviceTickets.status,
-        customerId: serviceTickets.customerId,
-        deviceType: serviceTickets.deviceType,
-        deviceBrand: serviceTickets.deviceBrand,
-        deviceModel: serviceTickets.deviceModel,
-        serialNumber: serviceTickets.serialNumber,
-        completeness: serviceTickets.completeness,
-        problem: serviceTickets.problem,
-        diagnosis: serviceTickets.diagnosis,
-        solution: serviceTickets.solution,
-        estimatedCost: serviceTickets.estimatedCost,
-        actualCost: serviceTickets.actualCost,
-        laborCost: serviceTickets.laborCost,
-        partsCost: serviceTickets.partsCost,
-        estimatedCompletion: serviceTickets.estimatedCompletion,
-        technicianId: serviceTickets.technicianId,
-        warrantyDuration: serviceTickets.warrantyDuration,
-        warrantyStartDate: serviceTickets.warrantyStartDate,
-        warrantyEndDate: serviceTickets.warrantyEndDate,
-        // Cancellation fields
-        cancellationFee: serviceTickets.cancellationFee,
-        cancellationReason: serviceTickets.cancellationReason,
-        cancelledAt: serviceTickets.cancelledAt,
-        cancelledBy: serviceTickets.cancelledBy,
-        cancellationType: serviceTickets.cancellationType,
+        session: stockCountSessions,
+        locationName: locations.name,
+        categoryName: categories.name,
+        totalItems: sql<number>`(SELECT COUNT(*) FROM ${stockCountItems} WHERE ${stockCountItems.sessionId} = ${stockCountSessions.id})`,
+        countedItems: sql<number>`(SELECT COUNT(*) FROM ${stockCountItems} WHERE ${stockCountItems.sessionId} = ${stockCountSessions.id} AND ${stockCountItems.countedQuantity} IS NOT NULL)`,
+      })
+      .from(stockCountSessions)
+      .leftJoin(locations, eq(stockCountSessions.locationId, locations.id))
+      .leftJoin(categories, eq(stockCountSessions.categoryId, categories.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stockCountSessions.createdAt));
+
+    return rows.map(row => ({
+      ...row.session,
+      locationName: row.locationName ?? null,
+      categoryName: row.categoryName ?? null,
+      totalItems: Number(row.totalItems || 0),
+      countedItems: Number(row.countedItems || 0),
+    }));
+  }
 
-        ticketNumber: serviceTickets.ticketNumber,
-        completedAt: serviceTickets.completedAt,
-        customerName: customers.name
+  async getStockCountSessionById(id: string, executor: any = db): Promise<StockCountSessionWithDetails | undefined> {
+    const clientId = this.resolveClientId();
+    const [row] = await executor
+      .select({
+        session: stockCountSessions,
+        locationName: locations.name,
+        categoryName: categories.name,
       })
-      .from(serviceTickets)
-      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
-      .where(sql`${serviceTickets.status} != 'completed' AND ${serviceTickets.status} != 'delivered' AND ${serviceTickets.status} != 'cancelled'`)
-      .orderBy(desc(serviceTickets.createdAt));
-    
-    return tickets.map(ticket => ({
-      ...ticket,
-      customerName: ticket.customerName || null, // Keep string field for backward compatibility
-      customer: ticket.customerName ? { name: ticket.customerName } : null // Object field for new usage
-    })) as ServiceTicket[];
+      .from(stockCountSessions)
+      .leftJoin(locations, eq(stockCountSessions.locationId, locations.id))
+      .leftJoin(categories, eq(stockCountSessions.categoryId, categories.id))
+      .where(clientId
+        ? and(eq(stockCountSessions.id, id), eq(stockCountSessions.clientId, clientId))
+        : eq(stockCountSessions.id, id));
+
+    if (!row) {
+      return undefined;
+    }
+
+    const session: StockCountSession = row.session;
+    const items = await this.getStockCountItemDetails(executor, session);
+
+    return {
+      ...session,
+      locationName: row.locationName ?? null,
+      categoryName: row.categoryName ?? null,
+      totalItems: items.length,
+      countedItems: items.filter(item => item.countedQuantity !== null).length,
+      flaggedItems: items.filter(item => item.movementCount > 0).length,
+      varianceItems: items.filter(item => item.variance !== null && item.variance !== 0).length,
+      totalCostImpact: items.reduce((sum, item) => sum + (item.costImpact ?? 0), 0),
+      items,
+    };
   }
 
-  async createServiceTicket(ticketData: InsertServiceTicket): Promise<ServiceTicket> {
-    const [ticket] = await db.insert(serviceTickets).values(ticketData as any).returning();
-    return ticket;
+  // Counted lines of a session with live stock and movement flags; itemId narrows it to a single line
+  private async getStockCountItemDetails(
+    executor: any,
+    session: StockCountSession,
+    itemId?: string,
+  ): Promise<StockCountItemDetail[]> {
+    const itemRows = await executor
+      .select({
+        item: stockCountItems,
+        productName: products.name,
+        sku: products.sku,
+        barcode: products.barcode,
+      })
+      .from(stockCountItems)
+      .leftJoin(products, eq(stockCountItems.productId, products.id))
+      .where(and(
+        eq(stockCountItems.sessionId, session.id),
+        itemId ? eq(stockCountItems.id, itemId) : undefined
+      ))
+      .orderBy(asc(products.name));
+
+    const productIds: string[] = itemRows.map((itemRow: any) => itemRow.item.productId);
+
+    // Once submitted, the adjustment carries the final numbers - stop tracking live stock
+    const isOpen = session.status === 'counting';
+    const currentQuantities = isOpen
+      ? await this.getCurrentCountQuantities(executor, productIds, session.locationId)
+      : new Map<string, number>();
+
+    const movementCounts = new Map<string, number>();
+    if (isOpen && productIds.length > 0) {
+      const movementConditions: SQL[] = [
+        inArray(stockMovements.productId, productIds),
+        gte(stockMovements.createdAt, session.startedAt ?? session.createdAt ?? new Date()),
+      ];
+      if (session.locationId) movementConditions.push(eq(stockMovements.locationId, session.locationId));
+      if (session.clientId) movementConditions.push(eq(stockMovements.clientId, session.clientId));
+
+      const movementRows = await executor
+        .select({ productId: stockMovements.productId, total: count() })
+        .from(stockMovements)
+        .where(and(...movementConditions))
+        .groupBy(stockMovements.productId);
+      movementRows.forEach((movement: any) => movementCounts.set(movement.productId, Number(movement.total)));
+    }
+
+    return itemRows.map((itemRow: any) => {
+      const item: StockCountItem = itemRow.item;
+      const currentQuantity = isOpen
+        ? currentQuantities.get(item.productId) ?? item.systemQuantity
+        : item.expectedQuantity ?? item.systemQuantity;
+      const variance = item.countedQuantity === null ? null : item.countedQuantity - currentQuantity;
+      return {
+        ...item,
+        productName: itemRow.productName,
+        sku: itemRow.sku,
+        barcode: itemRow.barcode,
+        currentQuantity,
+        movementCount: isOpen ? movementCounts.get(item.productId) ?? 0 : item.movementCount ?? 0,
+        variance,
+        costImpact: variance === null ? null : variance * Number(item.unitCost || 0),
+      };
+    });
   }
 
-  async updateServiceTicket(id: string, ticketData: Partial<InsertServiceTicket>, parts?: InsertServiceTicketPart[], userId?: string): Promise<ServiceTicket> {
+  async createStockCountSession(sessionData: InsertStockCountSession): Promise<StockCountSessionWithDetails> {
+    const clientId = this.resolveClientId(sessionData.clientId);
+
     return await db.transaction(async (tx) => {
-      const [ticket] = await tx
-        .update(serviceTickets)
-        .set({ ...ticketData, updatedAt: new Date() })
-        .where(eq(serviceTickets.id, id))
+      const openConditions: SQL[] = [eq(stockCountSessions.status, 'counting')];
+      if (clientId) openConditions.push(eq(stockCountSessions.clientId, clientId));
+      openConditions.push(sessionData.locationId
+        ? or(isNull(stockCountSessions.locationId), eq(stockCountSessions.locationId, sessionData.locationId)) as SQL
+        : sql`true`);
+
+      const [openSession] = await tx
+        .select({ sessionNumber: stockCountSessions.sessionNumber })
+        .from(stockCountSessions)
+        .where(and(...openConditions))
+        .limit(1);
+      if (openSession) {
+        throw new Error(`Stock opname ${openSession.sessionNumber} masih berjalan untuk lokasi ini`);
+      }
+
+      const productConditions: SQL[] = [eq(products.isActive, true)];
+      if (clientId) productConditions.push(eq(products.clientId, clientId));
+      if (sessionData.categoryId) productConditions.push(eq(products.categoryId, sessionData.categoryId));
+
+      const scopedProducts = await tx
+        .select({
+          id: products.id,
+          averageCost: products.averageCost,
+          lastPurchasePrice: products.lastPurchasePrice,
+        })
+        .from(products)
+        .where(and(...productConditions));
+
+      if (scopedProducts.length === 0) {
+        throw new Error('Tidak ada produk dalam cakupan stock opname');
+      }
+
+      const [session] = await tx
+        .insert(stockCountSessions)
+        .values({
+          ...sessionData,
+          clientId,
+          sessionNumber: `SO-${Date.now()}`,
+          status: 'counting',
+          startedAt: new Date(),
+        })
         .returning();
-      
-      // Prepare part totals for financial calculations
-      let totalPartsRevenue = 0;
-      let totalPartsHPP = 0;
 
-      // Handle parts if provided
-      if (parts && parts.length > 0) {
-        // Clear existing parts
-        await tx.delete(serviceTicketParts).where(eq(serviceTicketParts.serviceTicketId, id));
-        
-        // Add new parts and handle stock based on status
-        for (const part of parts) {
-          // Check if product exists
-          const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
+      const snapshot = await this.getCurrentCountQuantities(
+        tx,
+        scopedProducts.map(product => product.id),
+        session.locationId,
+      );
 
-          if (!product) {
-            throw new Error(`Product dengan ID ${part.productId} tidak ditemukan`);
-          }
+      await tx.insert(stockCountItems).values(
+        scopedProducts.map(product => ({
+          clientId,
+          sessionId: session.id,
+          productId: product.id,
+          systemQuantity: snapshot.get(product.id) ?? 0,
+          unitCost: Number(product.averageCost ?? product.lastPurchasePrice ?? 0).toFixed(2),
+        }))
+      );
 
-          // Use product selling price as default for revenue recognition
-          const unitPrice = part.unitPrice || product.sellingPrice || '0';
-          const totalPrice = (parseFloat(unitPrice) * part.quantity).toString();
+      return (await this.getStockCountSessionById(session.id, tx))!;
+    });
+  }
 
-          const costBasis = Number(
-            product.averageCost ??
-            product.lastPurchasePrice ??
-            0
-          );
+  async recordStockCountScan(sessionId: string, scan: StockCountScan, userId: string): Promise<StockCountItemDetail> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId();
+      // A shared lock keeps the session open until the scan is written; submitting waits for it
+      const [session] = await tx
+        .select()
+        .from(stockCountSessions)
+        .where(and(
+          eq(stockCountSessions.id, sessionId),
+          clientId ? eq(stockCountSessions.clientId, clientId) : undefined
+        ))
+        .for('share');
+      if (!session) {
+        throw new Error('Sesi stock opname tidak ditemukan');
+      }
+      if (session.status !== 'counting') {
+        throw new Error('Sesi stock opname sudah ditutup');
+      }
 
-          // Insert service ticket part
-          await tx.insert(serviceTicketParts).values({
-            serviceTicketId: id,
-            productId: part.productId,
-            quantity: part.quantity,
-            unitPrice: unitPrice,
-            totalPrice: totalPrice,
-            clientId: ticket.clientId,
-          });
-          
-          // Only update stock and record movement for completed/delivered status
-          if (ticket.status === 'completed' || ticket.status === 'delivered') {
-            const currentStock = product.stock || 0;
-            
-            // Check stock for completed services - allow negative stock but warn
-            if (currentStock < part.quantity) {
-              console.warn(`WARNING: Stock ${product.name} tidak cukup. Tersedia: ${currentStock}, Diperlukan: ${part.quantity}. Melanjutkan dengan stock negatif.`);
-              // Don't throw error, just proceed with negative stock
-            }
-            
-            // Update product stock
-            const newStock = currentStock - part.quantity;
-            await tx.update(products)
-              .set({ 
-                stock: newStock,
-                updatedAt: new Date()
-              })
-              .where(eq(products.id, part.productId));
-            
-            // Record stock movement
-            await tx.insert(stockMovements).values({
-              productId: part.productId,
-              movementType: 'out',
-              quantity: part.quantity,
-              unitCost: costBasis.toString(),
-              referenceId: id,
-              referenceType: 'service',
-              notes: `Digunakan untuk servis ${ticket.ticketNumber}`,
-              userId: userId || 'a4fb9372-ec01-4825-b035-81de75a18053',
-              clientId: ticket.clientId,
-            });
-          } else {
-            // For non-completed status, just reserve stock (optional - estimate only)
-            const currentReserved = product.reservedStock || 0;
-            // Note: Reserved stock - for now we'll keep it simple and just track main stock
-            // await tx.update(products)
-            //   .set({ 
-            //     reservedStock: currentReserved + part.quantity,
-            //     updatedAt: new Date()
-            //   })
-            //   .where(eq(products.id, part.productId));
-          }
+      const code = scan.code?.trim().toLowerCase();
+      const matches: SQL[] = [];
+      if (scan.productId) matches.push(eq(stockCountItems.productId, scan.productId));
+      if (code) matches.push(sql`lower(${products.barcode}) = ${code}`, sql`lower(${products.sku}) = ${code}`);
+
+      // Lock the counted line so concurrent "add" scans from several devices all land
+      const [item] = matches.length > 0
+        ? await tx
+          .select({ id: stockCountItems.id, countedQuantity: stockCountItems.countedQuantity })
+          .from(stockCountItems)
+          .leftJoin(products, eq(stockCountItems.productId, products.id))
+          .where(and(eq(stockCountItems.sessionId, sessionId), or(...matches)))
+          .limit(1)
+          .for('update', { of: stockCountItems })
+        : [];
+      if (!item) {
+        throw new Error(`Produk ${scan.code ?? scan.productId} tidak termasuk dalam stock opname ini`);
+      }
 
-          totalPartsRevenue += parseFloat(totalPrice); // penjualan parts
-          totalPartsHPP += costBasis * part.quantity; // HPP parts
-        }
+      const quantity = Number(scan.quantity);
+      const countedQuantity = scan.mode === 'set' ? quantity : (item.countedQuantity ?? 0) + quantity;
+      if (countedQuantity < 0) {
+        throw new Error('Jumlah hitung tidak boleh negatif');
+      }
 
-        // Update ticket with parts cost
-        const currentLaborCost = parseFloat(ticket.laborCost || '0');
-        const newActualCost = (currentLaborCost + totalPartsHPP).toString();
+      await tx
+        .update(stockCountItems)
+        .set({ countedQuantity, countedBy: userId, lastCountedAt: new Date() })
+        .where(eq(stockCountItems.id, item.id));
 
-        await tx.update(serviceTickets)
+      const [detail] = await this.getStockCountItemDetails(tx, session, item.id);
+      return detail;
+    });
+  }
+
+  // Turns the counted variances into one pending recount adjustment (approved via approveInventoryAdjustment)
+  async submitStockCountSession(
+    id: string,
+    userId: string,
+    options: { treatUncountedAsZero?: boolean } = {},
+  ): Promise<{ session: StockCountSessionWithDetails; adjustment: InventoryAdjustment | null }> {
+    return await db.transaction(async (tx) => {
+      // Wait for scans in flight and keep new ones out while the counts are frozen
+      await tx.select({ id: stockCountSessions.id }).from(stockCountSessions).where(eq(stockCountSessions.id, id)).for('update');
+      const session = await this.getStockCountSessionById(id, tx);
+      if (!session) {
+        throw new Error('Sesi stock opname tidak ditemukan');
+      }
+      if (session.status !== 'counting') {
+        throw new Error('Sesi stock opname sudah ditutup');
+      }
+
+      const varianceItems = session.items
+        .map(item => {
+          const countedQuantity = item.countedQuantity ?? (options.treatUncountedAsZero ? 0 : null);
+          return countedQuantity === null
+            ? null
+            : { ...item, countedQuantity, variance: countedQuantity - item.currentQuantity };
+        })
+        .filter((item): item is NonNullable<typeof item> => !!item && item.variance !== 0);
+
+      // Freeze the numbers the adjustment is based on so the report stays stable after approval
+      for (const item of session.items) {
+        await tx
+          .update(stockCountItems)
           .set({
-            partsCost: totalPartsHPP.toString(),
-            actualCost: newActualCost,
-            updatedAt: new Date()
+            expectedQuantity: item.currentQuantity,
+            movementCount: item.movementCount,
+            countedQuantity: item.countedQuantity ?? (options.treatUncountedAsZero ? 0 : null),
           })
-          .where(eq(serviceTickets.id, id));
+          .where(eq(stockCountItems.id, item.id));
+      }
 
-        ticket.partsCost = totalPartsHPP.toString();
-        ticket.actualCost = newActualCost;
-      } else {
-        // When no parts are passed, use existing parts to ensure financial records can be created
-        const existingParts = await tx
-          .select({
-            productId: serviceTicketParts.productId,
-            quantity: serviceTicketParts.quantity,
-            totalPrice: serviceTicketParts.totalPrice,
+      let adjustment: InventoryAdjustment | null = null;
+      if (varianceItems.length > 0) {
+        const countResult = await tx.select({ count: count() }).from(inventoryAdjustments);
+        [adjustment] = await tx
+          .insert(inventoryAdjustments)
+          .values({
+            clientId: session.clientId,
+            adjustmentNumber: `ADJ-${String(countResult[0].count + 1).padStart(5, '0')}`,
+            type: 'recount',
+            reason: 'stock_opname',
+            status: 'pending',
+            createdBy: userId,
+            notes: `Stock opname ${session.sessionNumber}${session.locationName ? ` - ${session.locationName}` : ''}`,
           })
-          .from(serviceTicketParts)
-          .where(eq(serviceTicketParts.serviceTicketId, id));
+          .returning();
 
-        for (const part of existingParts) {
-          const partRevenue = parseFloat(part.totalPrice || '0');
-          totalPartsRevenue += partRevenue;
+        await tx.insert(inventoryAdjustmentItems).values(
+          varianceItems.map(item => ({
+            clientId: session.clientId,
+            adjustmentId: adjustment!.id,
+            productId: item.productId,
+            locationId: session.locationId,
+            systemQuantity: item.currentQuantity,
+            actualQuantity: item.countedQuantity,
+            adjustmentQuantity: item.variance,
+            unitCost: item.unitCost,
+            totalCostImpact: (item.variance * Number(item.unitCost || 0)).toFixed(2),
+            notes: item.movementCount > 0
+              ? `Ada ${item.movementCount} pergerakan stok selama penghitungan`
+              : item.notes,
+          }))
+        );
+      }
 
-          const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
-          if (product) {
-            const costBasis = Number(
-              product.averageCost ??
-              product.lastPurchasePrice ??
-              0
-            );
-            const partCost = costBasis * part.quantity;
-            totalPartsHPP += partCost;
-          }
-        }
+      await tx
+        .update(stockCountSessions)
+        .set({
+          // Nothing to adjust means the count matched - close it straight away
+          status: adjustment ? 'submitted' : 'approved',
+          adjustmentId: adjustment?.id ?? null,
+          submittedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(stockCountSessions.id, id));
 
-        // Keep parts cost and actual cost in sync with computed HPP when only existing parts are used
-        const currentLaborCost = parseFloat(ticket.laborCost || '0');
-        const newActualCost = (currentLaborCost + totalPartsHPP).toString();
+      return {
+        session: (await this.getStockCountSessionById(id, tx))!,
+        adjustment,
+      };
+    });
+  }
 
-        await tx.update(serviceTickets)
-          .set({
-            partsCost: totalPartsHPP.toString(),
-            actualCost: newActualCost,
-            updatedAt: new Date()
-          })
-          .where(eq(serviceTickets.id, id));
+  async cancelStockCountSession(id: string): Promise<StockCountSessionWithDetails> {
+    const session = await this.getStockCountSessionById(id);
+    if (!session) {
+      throw new Error('Sesi stock opname tidak ditemukan');
+    }
+    if (session.status !== 'counting') {
+      throw new Error('Hanya sesi yang masih berjalan yang dapat dibatalkan');
+    }
 
-        ticket.partsCost = totalPartsHPP.toString();
-        ticket.actualCost = newActualCost;
-      }
-      
-      if (ticket && (ticket.status === 'completed' || ticket.status === 'delivered')) {
-        await tx
-          .delete(financialRecords)
-          .where(eq(financialRecords.reference, ticket.id));
+    await db
+      .update(stockCountSessions)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(eq(stockCountSessions.id, id));
 
-        await financeManager.processServiceTransaction(
-          {
-            ticket: { ...ticket, paymentMethod: (ticket as any)?.paymentMethod || 'cash' },
-            partsCost: totalPartsHPP,
-            partsRevenue: totalPartsRevenue,
-            userId,
-          },
-          tx,
-        );
-      }
-      
-      return ticket;
-    });
+    return (await this.getStockCountSessionById(id))!;
   }
 
-  async deleteServiceTicket(id: string): Promise<void> {
-    return await db.transaction(async (tx) => {
-      // First get the ticket to check if it has financial records
-      const [ticket] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, id));
+  // Inventory Adjustment Items
+  async getInventoryAdjustmentItems(adjustmentId: string): Promise<InventoryAdjustmentItem[]> {
+    return await db.select().from(inventoryAdjustmentItems).where(eq(inventoryAdjustmentItems.adjustmentId, adjustmentId));
+  }
+
+  async createInventoryAdjustmentItem(itemData: InsertInventoryAdjustmentItem): Promise<InventoryAdjustmentItem> {
+    const [item] = await db.insert(inventoryAdjustmentItems).values(itemData).returning();
+    return item;
+  }
+
+  // Enhanced stock movement with new system
+  async createStockMovement(movementData: InsertStockMovement): Promise<StockMovement> {
+    const resolvedClientId = this.resolveClientId(movementData.clientId);
+    const [movement] = await db.insert(stockMovements).values({
+      ...movementData,
+      clientId: resolvedClientId,
+    }).returning();
+    
+    // CREATE FINANCE TRANSACTION for stock movements that have cost impact
+    if (movement.unitCost && parseFloat(movement.unitCost) > 0) {
+      const totalCost = parseFloat(movement.unitCost) * movement.quantity;
+      let transactionType: 'income' | 'expense' | 'asset' = 'expense';
+      let description = `Stock movement: ${movement.movementType}`;
       
-      if (ticket) {
-        // Delete related service ticket parts
-        await tx.delete(serviceTicketParts).where(eq(serviceTicketParts.serviceTicketId, id));
-        
-        // Delete related financial records if any
-        await tx.delete(financialRecords).where(eq(financialRecords.reference, id));
+      if (movement.movementType === 'out') {
+        // When stock goes out, it's usually a sale (income) or expense (cost of goods sold)
+        transactionType = movement.referenceType === 'sale' ? 'income' : 'expense';
+        description = movement.referenceType === 'sale' ? 
+          `Sale: ${movement.quantity} units` : 
+          `Stock out: ${movement.quantity} units`;
+      } else {
+        // When stock comes in, it's an inventory asset increase (not an expense)
+        transactionType = 'asset';
+        description = `Stock in: ${movement.quantity} units added to inventory`;
       }
       
-      // Delete the service ticket
-      await tx.delete(serviceTickets).where(eq(serviceTickets.id, id));
-    });
+      await db.insert(financialRecords).values({
+        clientId: resolvedClientId,
+        type: transactionType,
+        amount: totalCost.toString(),
+        description,
+        category: movement.referenceType === 'sale' ? 'Sales Revenue' : 'Inventory',
+        reference: movement.referenceId,
+        referenceType: movement.referenceType,
+        userId: movement.userId,
+      });
+    }
+    
+    return movement;
   }
 
-  async cancelServiceTicket(id: string, data: {
-    cancellationFee: string;
-    cancellationReason: string;
-    cancellationType: 'before_completed' | 'after_completed' | 'warranty_refund';
-    userId: string;
-  }): Promise<{ success: boolean; message?: string }> {
-    try {
-      return await db.transaction(async (tx) => {
-        // Get the service ticket
-        const [ticket] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, id));
-        
-        if (!ticket) {
-          return { success: false, message: 'Service ticket not found' };
-        }
-
-        if (ticket.status === 'cancelled') {
-          return { success: false, message: 'Service ticket is already cancelled' };
-        }
+  async getAveragePurchasePrice(productId: string, explicitClientId?: string | null, executor: any = db): Promise<number> {
+    const resolvedClientId = this.resolveClientId(explicitClientId);
 
-        // Get service ticket parts for stock operations
-        const serviceParts = await tx.select({
-          id: serviceTicketParts.id,
-          productId: serviceTicketParts.productId,
-          quantity: serviceTicketParts.quantity,
-          unitPrice: serviceTicketParts.unitPrice,
-          productName: products.name
-        })
-        .from(serviceTicketParts)
-        .innerJoin(products, eq(serviceTicketParts.productId, products.id))
-        .where(eq(serviceTicketParts.serviceTicketId, id));
+    const movementClientFilter = resolvedClientId
+      ? eq(stockMovements.clientId, resolvedClientId)
+      : isNull(stockMovements.clientId);
 
-        const now = getCurrentJakartaTime();
-        
-        // Validasi biaya cancel harus lebih dari 0
-        if (!data.cancellationFee || isNaN(Number(data.cancellationFee)) || Number(data.cancellationFee) <= 0) {
-          return { success: false, message: 'Biaya cancel harus diisi dan lebih dari 0' };
-        }
+    // Get all stock movements where stock came in (type: 'in') for this product
+    const movements: { quantity: number; unitCost: string | null }[] = await executor
+      .select({
+        quantity: stockMovements.quantity,
+        unitCost: stockMovements.unitCost
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.productId, productId),
+        eq(stockMovements.movementType, 'in'),
+        isNotNull(stockMovements.unitCost),
+        movementClientFilter
+      ));
 
-        // Update service ticket dengan data pembatalan
-        await tx.update(serviceTickets).set({
-          status: 'cancelled',
-          cancellationFee: data.cancellationFee,
-          cancellationReason: data.cancellationReason,
-          cancellationType: data.cancellationType,
-          cancelledAt: now,
-          cancelledBy: data.userId,
-          updatedAt: now
-        }).where(eq(serviceTickets.id, id));
+    if (movements.length === 0) {
+      // If no stock movements with price found, fallback to product's purchase price
+      const productClientFilter = resolvedClientId
+        ? eq(products.clientId, resolvedClientId)
+        : isNull(products.clientId);
 
-        // Import finance manager for accounting
-        const { financeManager } = await import('./financeManager');
+      const [product] = await executor.select({ purchasePrice: products.lastPurchasePrice })
+        .from(products)
+        .where(and(
+          eq(products.id, productId),
+          productClientFilter
+        ));
+      return parseFloat(product?.purchasePrice || '0');
+    }
 
-        // Handle different cancellation scenarios
-        switch (data.cancellationType) {
-          case 'before_completed':
-            // Scenario 1: Cancel Before Completed
-            const beforeResult = await financeManager.recordServiceCancellationBeforeCompleted(
-              id,
-              data.cancellationFee,
-              data.cancellationReason,
-              data.userId,
-              tx
-            );
-            
-            if (!beforeResult.success) {
-              return { success: false, message: beforeResult.error };
-            }
-            break;
+    // Calculate weighted average: sum(quantity * price) / sum(quantity)
+    let totalWeightedCost = 0;
+    let totalQuantity = 0;
+    
+    for (const movement of movements) {
+      const price = parseFloat(movement.unitCost || '0');
+      const quantity = movement.quantity;
+      totalWeightedCost += price * quantity;
+      totalQuantity += quantity;
+    }
 
-          case 'after_completed':
-            // Scenario 2: Cancel After Completed
-            // Return parts to stock and reverse stock movements
-            for (const part of serviceParts) {
-              // Get current product stock
-              const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
-              if (product) {
-                // Return parts to stock
-                const newStock = (product.stock || 0) + part.quantity;
-                await tx.update(products).set({
-                  stock: newStock,
-                  updatedAt: now
-                }).where(eq(products.id, part.productId));
+    return totalQuantity > 0 ? totalWeightedCost / totalQuantity : 0;
+  }
 
-                // Get cost basis for proper stock movement tracking
-                const avgCost = await this.getAveragePurchasePrice(part.productId);
-                
-                // Record stock movement for return with cost
-                await tx.insert(stockMovements).values({
-                  productId: part.productId,
-                  movementType: 'in',
-                  quantity: part.quantity,
-                  unitCost: avgCost.toString(),
-                  referenceId: id,
-                  referenceType: 'service',
-                  notes: `Dikembalikan dari pembatalan servis ${ticket.ticketNumber}`,
-                  userId: data.userId,
-                  clientId: ticket.clientId,
-                });
-              }
-            }
+  // Customers
+  async getCustomers(): Promise<Customer[]> {
+    return await db.select().from(customers).orderBy(asc(customers.name));
+  }
 
-            // Record financial transactions with cost basis
-            const partsForFinance = [];
-            for (const part of serviceParts) {
-              const avgCost = await this.getAveragePurchasePrice(part.productId);
-              partsForFinance.push({
-                name: part.productName,
-                quantity: part.quantity,
-                sellingPrice: part.unitPrice,
-                costPrice: avgCost.toString()
-              });
-            }
+  async getCustomerById(id: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
 
-            const afterResult = await financeManager.recordServiceCancellationAfterCompleted(
-              id,
-              data.cancellationFee,
-              data.cancellationReason,
-              partsForFinance,
-              data.userId,
-              tx
-            );
-            
-            if (!afterResult.success) {
-              return { success: false, message: afterResult.error };
-            }
-            break;
+  async searchCustomers(query: string): Promise<Customer[]> {
+    return await db
+      .select()
+      .from(customers)
+      .where(ilike(customers.name, `%${query}%`))
+      .orderBy(asc(customers.name));
+  }
 
-          case 'warranty_refund':
-            // Scenario 3: Cancel Warranty Service (Full Refund)
-            for (const part of serviceParts) {
-              const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
-              if (product) {
-                // Jika barang garansi kondisi normal, masuk ke stok normal
-                const newStock = (product.stock || 0) + part.quantity;
-                await tx.update(products).set({
-                  stock: newStock,
-                  updatedAt: now
-                }).where(eq(products.id, part.productId));
+  async createCustomer(customerData: InsertCustomer): Promise<Customer> {
+    const [customer] = await db.insert(customers).values(customerData).returning();
+    return customer;
+  }
 
-                // Catat pergerakan stok masuk (warranty_return)
-                const avgCost = await this.getAveragePurchasePrice(part.productId);
-                await tx.insert(stockMovements).values({
-                  productId: part.productId,
-                  movementType: 'in',
-                  quantity: part.quantity,
-                  unitCost: avgCost.toString(),
-                  referenceId: id,
-                  referenceType: 'warranty_return',
-                  notes: `Retur garansi - kondisi barang normal, dapat dijual kembali. ${ticket.ticketNumber}`,
-                  userId: data.userId,
-                  clientId: ticket.clientId,
-                });
+  async updateCustomer(id: string, customerData: Partial<InsertCustomer>): Promise<Customer> {
+    const [customer] = await db
+      .update(customers)
+      .set({ ...customerData, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
 
-                // Setelah barang diambil/tukar untuk klaim, kurangi stok normal
-                const afterExchangeStock = newStock - part.quantity;
-                await tx.update(products).set({
-                  stock: afterExchangeStock,
-                  updatedAt: now
-                }).where(eq(products.id, part.productId));
+  async deleteCustomer(id: string): Promise<void> {
+    await db.delete(customers).where(eq(customers.id, id));
+  }
 
-                // Catat pergerakan stok keluar (warranty_exchange)
-                await tx.insert(stockMovements).values({
-                  productId: part.productId,
-                  movementType: 'out',
-                  quantity: part.quantity,
-                  unitCost: avgCost.toString(),
-                  referenceId: id,
-                  referenceType: 'warranty_exchange',
-                  notes: `Barang diambil/tukar untuk klaim garansi. ${ticket.ticketNumber}`,
-                  userId: data.userId,
-                  clientId: ticket.clientId,
-                });
-              }
-            }
+  // Suppliers
+  async getSuppliers(): Promise<Supplier[]> {
+    return await db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
 
-            // Siapkan data parts untuk finance
-            const partsForWarrantyFinance: Array<{ name: string; quantity: number; sellingPrice: string; costPrice: string }> = [];
-            for (const part of serviceParts as Array<{ productName: string; quantity: number; unitPrice: string; productId: string }>) {
-              const avgCost = await this.getAveragePurchasePrice(part.productId);
-              partsForWarrantyFinance.push({
-                name: part.productName,
-                quantity: part.quantity,
-                sellingPrice: part.unitPrice,
-                costPrice: avgCost.toString()
-              });
-            }
+  async getSupplierById(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
 
-            // Kirim laborCost dan partsCost yang benar
-            const laborCost = ticket.laborCost || '0';
-            const partsCost = ticket.partsCost || '0';
+  async createSupplier(supplierData: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await db.insert(suppliers).values(supplierData).returning();
+    return supplier;
+  }
 
-            // Panggil financeManager untuk catat refund dan reversal
-            const warrantyResult = await financeManager.recordServiceCancellationWarrantyRefund(
-              id,
-              data.cancellationFee,
-              laborCost,
-              partsCost,
-              data.cancellationReason,
-              partsForWarrantyFinance,
-              data.userId,
-              tx
-            );
-            if (!warrantyResult.success) {
-              return { success: false, message: warrantyResult.error };
-            }
-            break;
+  async updateSupplier(id: string, supplierData: Partial<InsertSupplier>): Promise<Supplier> {
+    const [supplier] = await db
+      .update(suppliers)
+      .set({ ...supplierData, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return supplier;
+  }
 
-          default:
-            return { success: false, message: 'Invalid cancellation type' };
-        }
+  async deleteSupplier(id: string): Promise<void> {
+    await db.delete(suppliers).where(eq(suppliers.id, id));
+  }
 
-        return { 
-          success: true, 
-          message: `Service ticket cancelled successfully with ${data.cancellationType} scenario` 
+  // Transactions
+  async getTransactions(limit: number = 50): Promise<Transaction[]> {
+    const transactionList = await db
+      .select()
+      .from(transactions)
+      .leftJoin(customers, eq(transactions.customerId, customers.id))
+      .leftJoin(users, eq(transactions.userId, users.id))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit);
+    
+    // For each transaction, get its items with product details
+    const transactionsWithItems = await Promise.all(
+      transactionList.map(async (row) => {
+        const transaction = row.transactions;
+        
+        const items = await db
+          .select({
+            id: transactionItems.id,
+            quantity: transactionItems.quantity,
+            unitPrice: transactionItems.unitPrice,
+            totalPrice: transactionItems.totalPrice,
+            serialNumbers: transactionItems.serialNumbers,
+            originalItemId: transactionItems.originalItemId,
+            returnCondition: transactionItems.returnCondition,
+            product: {
+              id: products.id,
+              name: products.name,
+              sku: products.sku,
+            }
+          })
+          .from(transactionItems)
+          .leftJoin(products, eq(transactionItems.productId, products.id))
+          .where(eq(transactionItems.transactionId, transaction.id));
+        
+        const { password: _, ...userWithoutPassword } = row.users || {};
+        
+        return {
+          ...transaction,
+          items,
+          customer: row.customers,
+          user: userWithoutPassword
         };
-      });
-    } catch (error) {
-      console.error('Error cancelling service ticket:', error);
-      return { 
-        success: false, 
-        message: `Failed to cancel service ticket: ${error instanceof Error ? error.message : 'Unknown error'}` 
-      };
-    }
+      })
+    );
+    
+    return transactionsWithItems as any;
   }
 
-  // Service Ticket Parts
-  async getServiceTicketParts(serviceTicketId: string): Promise<(ServiceTicketPart & { productName: string })[]> {
-    const parts = await db
+  async getTransactionById(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+    if (!transaction) return undefined;
+    
+    // Get transaction items with product details
+    const items = await db
       .select({
-        id: serviceTicketParts.id,
-        clientId: serviceTicketParts.clientId,
-        serviceTicketId: serviceTicketParts.serviceTicketId,
-        productId: serviceTicketParts.productId,
-        quantity: serviceTicketParts.quantity,
-        unitPrice: serviceTicketParts.unitPrice,
-        totalPrice: serviceTicketParts.totalPrice,
-        createdAt: serviceTicketParts.createdAt,
-        productName: products.name
+        id: transactionItems.id,
+        quantity: transactionItems.quantity,
+        unitPrice: transactionItems.unitPrice,
+        totalPrice: transactionItems.totalPrice,
+        serialNumbers: transactionItems.serialNumbers,
+        originalItemId: transactionItems.originalItemId,
+        returnCondition: transactionItems.returnCondition,
+        product: {
+          id: products.id,
+          name: products.name,
+          sku: products.sku,
+        }
       })
-      .from(serviceTicketParts)
-      .innerJoin(products, eq(serviceTicketParts.productId, products.id))
-      .where(eq(serviceTicketParts.serviceTicketId, serviceTicketId))
-      .orderBy(desc(serviceTicketParts.createdAt));
-    
-    return parts;
-  }
+      .from(transactionItems)
+      .leftJoin(products, eq(transactionItems.productId, products.id))
+      .where(eq(transactionItems.transactionId, id));
 
-  // Stock Movements
-  async getStockMovements(productId?: string): Promise<StockMovement[]> {
-    const query = db.select().from(stockMovements);
+    const payments = await db
+      .select()
+      .from(transactionPayments)
+      .where(eq(transactionPayments.transactionId, id))
+      .orderBy(asc(transactionPayments.createdAt));
+
+    let originalTransactionNumber: string | null = null;
+    if (transaction.originalTransactionId) {
+      const [originalTransaction] = await db
+        .select({ transactionNumber: transactions.transactionNumber })
+        .from(transactions)
+        .where(eq(transactions.id, transaction.originalTransactionId));
+      originalTransactionNumber = originalTransaction?.transactionNumber ?? null;
+    }
     
-    if (productId) {
-      return await query.where(eq(stockMovements.productId, productId)).orderBy(desc(stockMovements.createdAt));
+    // Get customer details if exists
+    let customer = null;
+    if (transaction.customerId) {
+      const [customerData] = await db.select().from(customers).where(eq(customers.id, transaction.customerId));
+      customer = customerData;
     }
     
-    return await query.orderBy(desc(stockMovements.createdAt));
+    // Get user details
+    let user = null;
+    if (transaction.userId) {
+      const [userData] = await db.select().from(users).where(eq(users.id, transaction.userId));
+      if (userData) {
+        const { password, ...userWithoutPassword } = userData;
+        user = userWithoutPassword;
+      }
+    }
+    
+    return {
+      ...transaction,
+      originalTransactionNumber,
+      items,
+      payments,
+      customer,
+      user
+    } as any;
   }
 
-  // Financial Records (delegated to FinanceManager but interface still needed)
-  async getFinancialRecords(startDate?: Date, endDate?: Date): Promise<FinancialRecord[]> {
-    const { financeManager } = await import('./financeManager');
-    return await financeManager.getTransactions({
-      startDate,
-      endDate
+  // Applies the tenders to the amount due: non-cash lines are taken as-is, cash covers the rest and returns change
+  private resolvePaymentLines(
+    amountDue: number,
+    paymentMethod: string,
+    payments?: TransactionPaymentInput[],
+  ): Array<{ paymentMethod: string; amount: number; tenderedAmount: number | null; changeAmount: number; reference: string | null }> {
+    if (!payments || payments.length === 0 || paymentMethod === 'installment') {
+      return [{ paymentMethod, amount: amountDue, tenderedAmount: null, changeAmount: 0, reference: null }];
+    }
+
+    const nonCashTotal = payments
+      .filter((payment) => payment.paymentMethod !== 'cash')
+      .reduce((total, payment) => total + Number(payment.amount || 0), 0);
+    if (nonCashTotal - amountDue > 0.005) {
+      throw new TransactionValidationError('Pembayaran non-tunai melebihi total tagihan');
+    }
+
+    let cashDue = Number((amountDue - nonCashTotal).toFixed(2));
+    const lines = payments
+      .filter((payment) => Number(payment.amount || 0) > 0)
+      .map((payment) => {
+        const tendered = Number(payment.amount);
+        if (payment.paymentMethod !== 'cash') {
+          return { paymentMethod: payment.paymentMethod, amount: tendered, tenderedAmount: null, changeAmount: 0, reference: payment.reference || null };
+        }
+        const applied = Math.min(tendered, Math.max(cashDue, 0));
+        cashDue = Number((cashDue - applied).toFixed(2));
+        return {
+          paymentMethod: 'cash',
+          amount: applied,
+          tenderedAmount: tendered,
+          changeAmount: Number((tendered - applied).toFixed(2)),
+          reference: payment.reference || null,
+        };
+      });
+
+    const applied = lines.reduce((total, line) => total + line.amount, 0);
+    if (amountDue - applied > 0.005) {
+      throw new TransactionValidationError(`Pembayaran kurang ${(amountDue - applied).toFixed(2)}`);
+    }
+
+    return lines;
+  }
+
+  async createTransaction(
+    transactionData: InsertTransaction,
+    items: InsertTransactionItem[],
+    installment?: InstallmentPlanInput,
+    payments?: TransactionPaymentInput[],
+  ): Promise<Transaction> {
+    return await db.transaction(async (tx) => {
+      const resolvedClientId = this.resolveClientId(transactionData.clientId);
+      const isInstallmentSale = transactionData.type === 'sale' && transactionData.paymentMethod === 'installment';
+      if (isInstallmentSale) {
+        if (!transactionData.customerId) {
+          throw new TransactionValidationError('Penjualan cicilan membutuhkan data pelanggan');
+        }
+        if (!installment) {
+          throw new TransactionValidationError('Ketentuan cicilan wajib diisi untuk penjualan cicilan');
+        }
+      }
+      // Normalize item level totals to ensure we always have gross, discount, and net values
+      const normalizedItems = items.map((item) => {
+        const quantity = Number(item.quantity);
+        const unitPrice = Number(item.unitPrice);
+        const providedTotal = Number(item.totalPrice ?? 0);
+
+        // Gross before discount
+        const gross = unitPrice * quantity;
+        // If caller provided totalPrice, treat it as net after discount; otherwise use gross
+        const net = providedTotal > 0 ? providedTotal : gross;
+        const discountValue = gross - net;
+
+        return {
+          ...item,
+          quantity,
+          unitPrice: unitPrice.toFixed(2),
+          totalPrice: net.toFixed(2),
+          // Keep computed fields for aggregate calculations (not persisted because columns do not exist)
+          __gross: gross,
+          __discount: discountValue,
+          clientId: resolvedClientId,
+        };
+      });
+
+      const grossSubtotal = normalizedItems.reduce((sum, item) => sum + (item.__gross ?? 0), 0);
+      const discountFromItems = normalizedItems.reduce((sum, item) => sum + (item.__discount ?? 0), 0);
+      const netSubtotal = normalizedItems.reduce((sum, item) => sum + Number(item.totalPrice), 0);
+
+      // Sales leave from the terminal's location; fall back to the default store location
+      const saleLocationId = transactionData.type === 'sale'
+        ? transactionData.locationId || await this.resolveDefaultLocationId(tx, resolvedClientId)
+        : transactionData.locationId;
+
+      // Order level discount comes off the item totals before tax
+      const orderDiscount = Number(transactionData.discountAmount ?? 0);
+
+      // PPN on sales is priced here from each product's tax flags and the store rate rather than taken from the terminal
+      let lineTaxes: ReturnType<typeof calculateLineTaxes> | null = null;
+      let taxAmount = Number(transactionData.taxAmount ?? 0);
+      let addedTax = taxAmount;
+      if (transactionData.type === 'sale') {
+        const saleProductIds = Array.from(new Set(normalizedItems.map((item) => item.productId)));
+        const taxFlagRows = saleProductIds.length > 0
+          ? await tx
+            .select({ id: products.id, taxInclusive: products.taxInclusive, taxExempt: products.taxExempt })
+            .from(products)
+            .where(resolvedClientId
+              ? and(inArray(products.id, saleProductIds), eq(products.clientId, resolvedClientId))
+              : inArray(products.id, saleProductIds))
+          : [];
+        const taxFlags = new Map(taxFlagRows.map((row) => [row.id, row]));
+        lineTaxes = calculateLineTaxes(
+          normalizedItems.map((item) => ({
+            amount: Number(item.totalPrice),
+            taxInclusive: taxFlags.get(item.productId)?.taxInclusive,
+            taxExempt: taxFlags.get(item.productId)?.taxExempt,
+          })),
+          await financeManager.getStoreTaxRate(resolvedClientId, tx),
+          orderDiscount,
+        );
+        const taxSummary = summarizeLineTaxes(lineTaxes);
+        taxAmount = taxSummary.taxAmount;
+        // PPN already inside tax-inclusive prices does not add to what the customer pays
+        addedTax = taxSummary.addedTax;
+      }
+      const amountDue = Number((netSubtotal - orderDiscount + addedTax).toFixed(2));
+      const paymentLines = transactionData.type === 'sale'
+        ? this.resolvePaymentLines(amountDue, transactionData.paymentMethod || 'cash', payments)
+        : [];
+      const paymentMethods = new Set(paymentLines.map((line) => line.paymentMethod));
+
+      const normalizedTransactionData = {
+        ...transactionData,
+        clientId: resolvedClientId,
+        locationId: saleLocationId,
+        paymentMethod: paymentMethods.size > 1
+          ? 'split'
+          : paymentLines[0]?.paymentMethod ?? transactionData.paymentMethod,
+        subtotal: grossSubtotal.toFixed(2),
+        discountAmount: (orderDiscount + discountFromItems).toFixed(2),
+        totalPrice: netSubtotal.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        // Final total is net after discount plus tax
+        total: amountDue.toFixed(2),
+      } as InsertTransaction;
+
+      // Create transaction
+      const [transaction] = await tx.insert(transactions).values(normalizedTransactionData as any).returning();
+
+      // Create transaction items
+      const itemsWithTransactionId = normalizedItems.map((item, index) => ({
+        transactionId: transaction.id,
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        serialNumbers: this.normalizeSerialNumbers(item.serialNumbers).length > 0
+          ? this.normalizeSerialNumbers(item.serialNumbers)
+          : undefined,
+        taxableAmount: lineTaxes ? lineTaxes[index].taxableAmount.toFixed(2) : undefined,
+        taxAmount: lineTaxes ? lineTaxes[index].taxAmount.toFixed(2) : undefined,
+        clientId: resolvedClientId,
+      }));
+      const insertedItems = await tx.insert(transactionItems).values(itemsWithTransactionId).returning();
+
+      if (paymentLines.length > 0) {
+        await tx.insert(transactionPayments).values(paymentLines.map((line) => ({
+          clientId: resolvedClientId,
+          transactionId: transaction.id,
+          paymentMethod: line.paymentMethod,
+          amount: line.amount.toFixed(2),
+          tenderedAmount: line.tenderedAmount !== null ? line.tenderedAmount.toFixed(2) : null,
+          changeAmount: line.changeAmount.toFixed(2),
+          reference: line.reference,
+        })));
+      }
+
+      // Load product cost information for accurate COGS calculation
+      const productIds = [...new Set(items.map((item) => item.productId))];
+      const productsById = new Map<string, any>();
+
+      if (productIds.length > 0) {
+        const productWhere = resolvedClientId
+          ? and(inArray(products.id, productIds), eq(products.clientId, resolvedClientId))
+          : inArray(products.id, productIds);
+
+        const productRows = await tx
+          .select({
+            id: products.id,
+            averageCost: products.averageCost,
+            lastPurchasePrice: products.lastPurchasePrice,
+            sellingPrice: products.sellingPrice,
+            name: products.name,
+            trackSerial: products.trackSerial,
+            stock: products.stock,
+            reservedStock: products.reservedStock,
+          })
+          .from(products)
+          .where(productWhere);
+
+        productRows.forEach((product) => productsById.set(product.id, product));
+      }
+      
+      // Helper to resolve product cost (HPP) consistently for POS calculations
+      const productCostCache = new Map<string, number>();
+      const resolveProductCost = async (productId: string): Promise<number> => {
+        if (productCostCache.has(productId)) {
+          return productCostCache.get(productId) as number;
+        }
+
+        const product = productsById.get(productId);
+        let cost = Number(product?.averageCost ?? product?.lastPurchasePrice ?? NaN);
+
+        // If no explicit HPP is recorded on the product, fall back to the
+        // weighted average purchase price from stock movements (not selling price)
+        if (!Number.isFinite(cost) || cost <= 0) {
+          cost = await this.getAveragePurchasePrice(productId, resolvedClientId);
+        }
+
+        if (!Number.isFinite(cost) || cost < 0) {
+          cost = 0;
+        }
+
+        productCostCache.set(productId, cost);
+        return cost;
+      };
+
+      // Update stock for sales
+      if (transactionData.type === 'sale') {
+        await this.assertStockNotFrozen(tx, productIds, saleLocationId);
+        const itemCosts: number[] = [];
+
+        const requestedByProduct = new Map<string, number>();
+        for (const item of normalizedItems) {
+          requestedByProduct.set(item.productId, (requestedByProduct.get(item.productId) ?? 0) + item.quantity);
+        }
+        const requestedProductIds = Array.from(requestedByProduct.keys());
+
+        // Units held by parked carts are not available to other sales
+        for (const productId of requestedProductIds) {
+          const product = productsById.get(productId);
+          const reserved = Number(product?.reservedStock || 0);
+          if (reserved <= 0) continue;
+          const requested = requestedByProduct.get(productId) ?? 0;
+          const unreserved = Number(product?.stock || 0) - reserved;
+          if (unreserved < requested) {
+            throw new TransactionValidationError(`Stok ${product?.name ?? productId} sedang ditahan di keranjang lain. Tersedia: ${Math.max(unreserved, 0)}, dibutuhkan: ${requested}`);
+          }
+        }
+
+        if (saleLocationId) {
+          for (const productId of requestedProductIds) {
+            const requested = requestedByProduct.get(productId) ?? 0;
+            const available = await this.getLocationStockQuantity(tx, productId, saleLocationId);
+            if (available < requested) {
+              const productName = productsById.get(productId)?.name ?? productId;
+              throw new TransactionValidationError(`Stok ${productName} di lokasi ini tidak cukup. Tersedia: ${available}, dibutuhkan: ${requested}`);
+            }
+          }
+        }
+
+        for (let index = 0; index < items.length; index++) {
+          const item = items[index];
+          // Serial tracked products must name the exact units leaving the store
+          const soldSerials = this.normalizeSerialNumbers(item.serialNumbers);
+          const product = productsById.get(item.productId);
+          if (product?.trackSerial) {
+            await this.markSerialsSold(tx, {
+              productId: item.productId,
+              productName: product.name,
+              quantity: Number(item.quantity),
+              serialNumbers: soldSerials,
+              transactionId: transaction.id,
+              transactionItemId: insertedItems[index]?.id,
+              clientId: resolvedClientId,
+            });
+          }
+
+          const productWhere = resolvedClientId
+            ? and(eq(products.id, item.productId), eq(products.clientId, resolvedClientId))
+            : eq(products.id, item.productId);
+
+          await tx
+            .update(products)
+            .set({
+              stock: sql`${products.stock} - ${item.quantity}`,
+              updatedAt: new Date()
+            })
+            .where(productWhere);
+          await this.adjustLocationStock(tx, item.productId, saleLocationId, -Number(item.quantity), resolvedClientId);
+
+          // Draw the units from product batches; one stock movement per batch so COGS follows the lots sold
+          const allocations = await this.consumeProductBatches(tx, item.productId, Number(item.quantity), {
+            fallbackCost: await resolveProductCost(item.productId),
+            serialNumbers: soldSerials,
+            clientId: resolvedClientId,
+          });
+
+          let itemCost = 0;
+          for (const allocation of allocations) {
+            itemCost += allocation.quantity * allocation.unitCost;
+
+            await tx.insert(stockMovements).values({
+              productId: item.productId,
+              batchId: allocation.batchId,
+              locationId: saleLocationId,
+              movementType: 'out',
+              quantity: allocation.quantity,
+              unitCost: allocation.unitCost.toFixed(2),
+              serialNumbers: soldSerials.length > 0 ? soldSerials : undefined,
+              referenceId: transaction.id,
+              referenceType: 'sale',
+              notes: `Penjualan - ${transaction.transactionNumber}`,
+              userId: transaction.userId,
+              clientId: resolvedClientId,
+            });
+          }
+          itemCosts[index] = itemCost;
+        }
+
+        await financeManager.processPOSTransaction(
+          {
+            transaction,
+            items: normalizedItems.map((item, index) => ({
+              productId: item.productId,
+              quantity: Number(item.quantity),
+              totalPrice: Number(item.totalPrice),
+              cost: itemCosts[index],
+            })),
+            // An installment sale is a single receivable line for the full total, the same amount the plan finances
+            payments: paymentLines.map((line) => ({ paymentMethod: line.paymentMethod, amount: line.amount })),
+          },
+          tx,
+        );
+
+        if (isInstallmentSale && installment) {
+          await this.createInstallmentPlan(tx, transaction, installment, resolvedClientId);
+        }
+      }
+      
+      // Fetch complete transaction with items for receipt
+      const completeTransaction = await this.getTransactionById(transaction.id);
+      return completeTransaction || transaction;
     });
   }
 
-  async createFinancialRecord(record: InsertFinancialRecord): Promise<FinancialRecord> {
-    const { financeManager } = await import('./financeManager');
-    return await financeManager.createTransaction({
-      type: record.type as 'income' | 'expense' | 'transfer',
-      category: record.category,
-      subcategory: record.subcategory || undefined,
-      amount: record.amount,
-      description: record.description,
-      referenceType: record.referenceType || undefined,
-      reference: record.reference || undefined,
-      paymentMethod: record.paymentMethod || undefined,
-      tags: record.tags || undefined,
-      userId: record.userId
+  // Serial tracked products must name the exact in-stock units leaving the store
+  private async markSerialsSold(
+    tx: any,
+    input: {
+      productId: string;
+      productName: string;
+      quantity: number;
+      serialNumbers: string[];
+      transactionId: string;
+      transactionItemId?: string;
+      clientId: string | null;
+    },
+  ): Promise<void> {
+    const { serialNumbers } = input;
+    if (serialNumbers.length !== input.quantity) {
+      throw new TransactionValidationError(`Serial number wajib diisi untuk ${input.productName}: butuh ${input.quantity}, diterima ${serialNumbers.length}`);
+    }
+
+    const serialConditions = [
+      eq(productSerials.productId, input.productId),
+      inArray(productSerials.serialNumber, serialNumbers),
+      eq(productSerials.status, 'in_stock'),
+    ];
+    if (input.clientId) {
+      serialConditions.push(eq(productSerials.clientId, input.clientId));
+    }
+
+    const availableSerials: Array<{ id: string; serialNumber: string }> = await tx
+      .select({ id: productSerials.id, serialNumber: productSerials.serialNumber })
+      .from(productSerials)
+      .where(and(...serialConditions))
+      .for('update');
+
+    if (availableSerials.length !== serialNumbers.length) {
+      const available = new Set(availableSerials.map(row => row.serialNumber));
+      const missing = serialNumbers.filter(serial => !available.has(serial));
+      throw new TransactionValidationError(`Serial number tidak tersedia: ${missing.join(', ')}`);
+    }
+
+    // Still guarded on status so a unit sold by a concurrent sale is never sold twice
+    const sold = await tx
+      .update(productSerials)
+      .set({
+        status: 'sold',
+        transactionId: input.transactionId,
+        transactionItemId: input.transactionItemId,
+        soldAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        inArray(productSerials.id, availableSerials.map(row => row.id)),
+        eq(productSerials.status, 'in_stock'),
+      ))
+      .returning({ id: productSerials.id });
+    if (sold.length !== serialNumbers.length) {
+      throw new TransactionValidationError(`Serial number ${input.productName} baru saja terjual di transaksi lain`);
+    }
+  }
+
+  // POS Returns & Exchanges
+  async getReturnableTransaction(transactionNumber: string): Promise<ReturnableTransaction | undefined> {
+    const clientId = this.resolveClientId();
+    const [row] = await db
+      .select()
+      .from(transactions)
+      .leftJoin(customers, eq(transactions.customerId, customers.id))
+      .where(and(
+        eq(transactions.transactionNumber, transactionNumber.trim()),
+        eq(transactions.type, 'sale'),
+        clientId ? eq(transactions.clientId, clientId) : undefined
+      ));
+
+    if (!row) return undefined;
+    const transaction = row.transactions;
+
+    const itemRows = await db
+      .select({
+        id: transactionItems.id,
+        productId: transactionItems.productId,
+        productName: products.name,
+        sku: products.sku,
+        trackSerial: products.trackSerial,
+        quantity: transactionItems.quantity,
+        unitPrice: transactionItems.unitPrice,
+        totalPrice: transactionItems.totalPrice,
+        taxableAmount: transactionItems.taxableAmount,
+        taxAmount: transactionItems.taxAmount,
+        serialNumbers: transactionItems.serialNumbers,
+      })
+      .from(transactionItems)
+      .leftJoin(products, eq(transactionItems.productId, products.id))
+      .where(eq(transactionItems.transactionId, transaction.id));
+
+    const returned = await this.getReturnedQuantities(db, transaction.id);
+
+    const returns = await db
+      .select({
+        id: transactions.id,
+        transactionNumber: transactions.transactionNumber,
+        total: transactions.total,
+        createdAt: transactions.createdAt,
+      })
+      .from(transactions)
+      .where(and(eq(transactions.originalTransactionId, transaction.id), eq(transactions.type, 'return')))
+      .orderBy(asc(transactions.createdAt));
+
+    const items: ReturnableTransactionItem[] = itemRows.map((item) => {
+      const returnedInfo = returned.get(item.id);
+      const returnedQuantity = returnedInfo?.quantity ?? 0;
+      return {
+        id: item.id,
+        productId: item.productId,
+        productName: item.productName ?? item.productId,
+        sku: item.sku ?? null,
+        trackSerial: Boolean(item.trackSerial),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        refundAmount: item.taxableAmount !== null && item.taxAmount !== null
+          ? (Number(item.taxableAmount) + Number(item.taxAmount)).toFixed(2)
+          : item.totalPrice,
+        serialNumbers: item.serialNumbers ?? [],
+        returnedQuantity,
+        returnableQuantity: Math.max(0, item.quantity - returnedQuantity),
+        returnedSerials: returnedInfo?.serials ?? [],
+      };
     });
+
+    return {
+      ...transaction,
+      customer: row.customers
+        ? { id: row.customers.id, name: row.customers.name, phone: row.customers.phone }
+        : null,
+      items,
+      returns,
+    };
   }
 
-  // Dashboard Statistics
-  // Reports
-  async getSalesReport(startDate: Date, endDate: Date): Promise<{
-    totalSales: string;
-    transactions: any[];
-  }> {
-    const [totalResult] = await db
-      .select({ total: sum(transactions.total) })
+  async getSalesReturns(limit: number = 50): Promise<SalesReturnSummary[]> {
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .select({
+        transaction: transactions,
+        originalTransactionNumber: sql<string | null>`(
+          SELECT original.transaction_number FROM transactions original
+          WHERE original.id = ${transactions.originalTransactionId}
+        )`,
+        customerName: customers.name,
+      })
       .from(transactions)
-      .where(
-        and(
+      .leftJoin(customers, eq(transactions.customerId, customers.id))
+      .where(and(
+        eq(transactions.type, 'return'),
+        clientId ? eq(transactions.clientId, clientId) : undefined
+      ))
+      .orderBy(desc(transactions.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row.transaction,
+      originalTransactionNumber: row.originalTransactionNumber,
+      customerName: row.customerName ?? null,
+    }));
+  }
+
+  // Quantities (and serials) already returned per original sale line
+  private async getReturnedQuantities(
+    executor: any,
+    originalTransactionId: string,
+  ): Promise<Map<string, { quantity: number; serials: string[] }>> {
+    const rows: Array<{ originalItemId: string | null; quantity: number; serialNumbers: string[] | null }> = await executor
+      .select({
+        originalItemId: transactionItems.originalItemId,
+        quantity: transactionItems.quantity,
+        serialNumbers: transactionItems.serialNumbers,
+      })
+      .from(transactionItems)
+      .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+      .where(and(
+        eq(transactions.originalTransactionId, originalTransactionId),
+        eq(transactions.type, 'return'),
+        isNotNull(transactionItems.originalItemId)
+      ));
+
+    const returned = new Map<string, { quantity: number; serials: string[] }>();
+    for (const row of rows) {
+      if (!row.originalItemId) continue;
+      const entry = returned.get(row.originalItemId) ?? { quantity: 0, serials: [] };
+      entry.quantity += row.quantity;
+      entry.serials.push(...(row.serialNumbers ?? []));
+      returned.set(row.originalItemId, entry);
+    }
+    return returned;
+  }
+
+  async createSalesReturn(input: SalesReturnInput, userId: string, explicitClientId?: string | null): Promise<Transaction> {
+    const created = await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId(explicitClientId);
+
+      // Lock the sale so two returns against it cannot both pass the returnable-quantity check
+      const [original] = await tx
+        .select()
+        .from(transactions)
+        .where(clientId
+          ? and(eq(transactions.id, input.originalTransactionId), eq(transactions.clientId, clientId))
+          : eq(transactions.id, input.originalTransactionId))
+        .for('update');
+
+      if (!original) {
+        throw new Error('Transaksi asal tidak ditemukan');
+      }
+      if (original.type !== 'sale') {
+        throw new Error('Hanya transaksi penjualan yang dapat diretur');
+      }
+
+      const originalItems = await tx
+        .select()
+        .from(transactionItems)
+        .where(eq(transactionItems.transactionId, original.id));
+      const originalItemsById = new Map(originalItems.map((item) => [item.id, item]));
+      const returned = await this.getReturnedQuantities(tx, original.id);
+
+      const productIds = Array.from(new Set([
+        ...originalItems.map((item) => item.productId),
+        ...input.exchangeItems.map((item) => item.productId),
+      ]));
+      const productRows = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, productIds));
+      const productsById = new Map(productRows.map((product) => [product.id, product]));
+
+      // Validate returned lines against what was sold and what has already come back
+      const requestedByItem = new Map<string, number>();
+      const returnLines = input.items.map((line) => {
+        const originalItem = originalItemsById.get(line.transactionItemId);
+        if (!originalItem) {
+          throw new Error('Item retur tidak ada pada transaksi asal');
+        }
+
+        const product = productsById.get(originalItem.productId);
+        const productName = product?.name ?? originalItem.productId;
+        const alreadyReturned = (returned.get(originalItem.id)?.quantity ?? 0) + (requestedByItem.get(originalItem.id) ?? 0);
+        const returnable = originalItem.quantity - alreadyReturned;
+        if (line.quantity > returnable) {
+          throw new Error(`Jumlah retur ${productName} melebihi sisa yang dapat diretur (${returnable})`);
+        }
+        requestedByItem.set(originalItem.id, (requestedByItem.get(originalItem.id) ?? 0) + line.quantity);
+
+        const serialNumbers = this.normalizeSerialNumbers(line.serialNumbers);
+        if (product?.trackSerial) {
+          const soldSerials = new Set(originalItem.serialNumbers ?? []);
+          const returnedSerials = new Set(returned.get(originalItem.id)?.serials ?? []);
+          if (serialNumbers.length !== line.quantity) {
+            throw new Error(`Serial number wajib diisi untuk retur ${productName}: butuh ${line.quantity}, diterima ${serialNumbers.length}`);
+          }
+          const invalid = serialNumbers.filter((serial) => !soldSerials.has(serial) || returnedSerials.has(serial));
+          if (invalid.length > 0) {
+            throw new Error(`Serial number bukan bagian dari penjualan ini atau sudah diretur: ${invalid.join(', ')}`);
+          }
+        }
+
+        // Refund at the net price actually paid on the original line; lines priced with PPN hand back
+        // their share of the discounted DPP and the tax, older lines their item total
+        const share = line.quantity / Math.max(originalItem.quantity, 1);
+        const tax = originalItem.taxAmount !== null ? Number((Number(originalItem.taxAmount) * share).toFixed(2)) : 0;
+        const revenue = originalItem.taxableAmount !== null
+          ? Number((Number(originalItem.taxableAmount) * share).toFixed(2))
+          : Number((Number(originalItem.totalPrice) * share).toFixed(2));
+        const refund = Number((revenue + tax).toFixed(2));
+        return {
+          ...line,
+          originalItem,
+          productName,
+          serialNumbers,
+          unitRefund: refund / Math.max(line.quantity, 1),
+          refund,
+          revenue,
+          tax,
+        };
+      });
+
+      const exchangeLines = input.exchangeItems.map((line) => {
+        const product = productsById.get(line.productId);
+        if (!product) {
+          throw new Error(`Product dengan ID ${line.productId} tidak ditemukan`);
+        }
+        const unitPrice = Number(line.unitPrice) > 0 ? Number(line.unitPrice) : Number(product.sellingPrice || 0);
+        return {
+          ...line,
+          product,
+          serialNumbers: this.normalizeSerialNumbers(line.serialNumbers),
+          unitPrice,
+          total: Number((unitPrice * line.quantity).toFixed(2)),
+        };
+      });
+
+      // Exchange goods are a new sale and carry PPN like any other
+      const taxRate = await financeManager.getStoreTaxRate(clientId, tx);
+      const exchangeTaxes = calculateLineTaxes(
+        exchangeLines.map((line) => ({
+          amount: line.total,
+          taxInclusive: line.product.taxInclusive,
+          taxExempt: line.product.taxExempt,
+        })),
+        taxRate,
+      );
+
+      const returnedAmount = returnLines.reduce((sum, line) => sum + line.refund, 0);
+      const returnedRevenue = Number(returnLines.reduce((sum, line) => sum + line.revenue, 0).toFixed(2));
+      const returnedTax = Number(returnLines.reduce((sum, line) => sum + line.tax, 0).toFixed(2));
+      const exchangeRevenue = Number(exchangeTaxes.reduce((sum, line) => sum + line.taxableAmount, 0).toFixed(2));
+      const exchangeTax = exchangeTaxes.reduce((sum, line) => sum + line.taxAmount, 0);
+      const netRefund = Number((returnedAmount - exchangeRevenue - exchangeTax).toFixed(2));
+
+      const returnLocationId = input.locationId || original.locationId || await this.resolveDefaultLocationId(tx, clientId);
+      await this.assertStockNotFrozen(tx, productIds, returnLocationId);
+
+      const now = new Date();
+      const warrantyDuration = exchangeLines.length > 0 ? original.warrantyDuration : null;
+      const warrantyEndDate = warrantyDuration && warrantyDuration !== 999999
+        ? new Date(now.getTime() + warrantyDuration * 24 * 60 * 60 * 1000)
+        : null;
+
+      const [returnTransaction] = await tx
+        .insert(transactions)
+        .values({
+          clientId,
+          transactionNumber: `RET-${Date.now()}`,
+          type: 'return',
+          customerId: original.customerId,
+          userId,
+          subtotal: returnedAmount.toFixed(2),
+          // PPN handed back net of the PPN charged on exchange goods
+          taxAmount: (returnedTax - exchangeTax).toFixed(2),
+          discountAmount: '0.00',
+          total: netRefund.toFixed(2),
+          totalPrice: netRefund.toFixed(2),
+          paymentMethod: original.paymentMethod,
+          locationId: returnLocationId,
+          shiftId: await this.findOpenShiftId(tx, userId),
+          originalTransactionId: original.id,
+          notes: input.reason || null,
+          warrantyDuration,
+          warrantyStartDate: warrantyDuration ? now : null,
+          warrantyEndDate,
+        })
+        .returning();
+
+      const insertedReturnItems = returnLines.length > 0
+        ? await tx
+          .insert(transactionItems)
+          .values(returnLines.map((line) => ({
+            clientId,
+            transactionId: returnTransaction.id,
+            productId: line.originalItem.productId,
+            quantity: line.quantity,
+            unitPrice: line.unitRefund.toFixed(2),
+            totalPrice: line.refund.toFixed(2),
+            serialNumbers: line.serialNumbers.length > 0 ? line.serialNumbers : undefined,
+            taxableAmount: line.originalItem.taxAmount !== null ? line.revenue.toFixed(2) : null,
+            taxAmount: line.originalItem.taxAmount !== null ? line.tax.toFixed(2) : null,
+            originalItemId: line.originalItem.id,
+            returnCondition: line.condition,
+          })))
+          .returning()
+        : [];
+
+      const insertedExchangeItems = exchangeLines.length > 0
+        ? await tx
+          .insert(transactionItems)
+          .values(exchangeLines.map((line, index) => ({
+            clientId,
+            transactionId: returnTransaction.id,
+            productId: line.productId,
+            quantity: line.quantity,
+            unitPrice: line.unitPrice.toFixed(2),
+            totalPrice: line.total.toFixed(2),
+            serialNumbers: line.serialNumbers.length > 0 ? line.serialNumbers : undefined,
+            taxableAmount: exchangeTaxes[index].taxableAmount.toFixed(2),
+            taxAmount: exchangeTaxes[index].taxAmount.toFixed(2),
+          })))
+          .returning()
+        : [];
+
+      // Cost of the returned goods as charged to COGS by the original sale
+      const saleCostRows = await tx
+        .select({
+          productId: stockMovements.productId,
+          quantity: sql<string>`COALESCE(SUM(${stockMovements.quantity}), 0)`,
+          cost: sql<string>`COALESCE(SUM(${stockMovements.quantity} * ${stockMovements.unitCost}), 0)`,
+        })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.referenceId, original.id),
+          eq(stockMovements.referenceType, 'sale'),
+          eq(stockMovements.movementType, 'out')
+        ))
+        .groupBy(stockMovements.productId);
+      const saleUnitCosts = new Map(saleCostRows.map((row) => [
+        row.productId,
+        Number(row.quantity) > 0 ? Number(row.cost) / Number(row.quantity) : 0,
+      ]));
+      const resolveSaleUnitCost = (productId: string) => {
+        const product = productsById.get(productId);
+        return saleUnitCosts.get(productId) ?? Number(product?.averageCost ?? product?.lastPurchasePrice ?? 0);
+      };
+
+      let restockedCost = 0;
+      let damagedCost = 0;
+      const movementNote = `Retur ${returnTransaction.transactionNumber} dari ${original.transactionNumber}`;
+
+      for (const line of returnLines) {
+        const productId = line.originalItem.productId;
+        const saleUnitCost = resolveSaleUnitCost(productId);
+
+        if (line.condition === 'normal_stock') {
+          await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} + ${line.quantity}`, updatedAt: now })
+            .where(eq(products.id, productId));
+          await this.adjustLocationStock(tx, productId, returnLocationId, line.quantity, clientId);
+
+          // Movements reference the original sale so later returns net against the same batches
+          const allocations = await this.restoreProductBatches(tx, productId, line.quantity, {
+            referenceId: original.id,
+            fallbackCost: saleUnitCost,
+            clientId,
+          });
+          for (const allocation of allocations) {
+            restockedCost += allocation.quantity * allocation.unitCost;
+            await tx.insert(stockMovements).values({
+              productId,
+              batchId: allocation.batchId,
+              locationId: returnLocationId,
+              movementType: 'in',
+              quantity: allocation.quantity,
+              unitCost: allocation.unitCost.toFixed(2),
+              serialNumbers: line.serialNumbers.length > 0 ? line.serialNumbers : undefined,
+              referenceId: original.id,
+              referenceType: 'return',
+              notes: movementNote,
+              userId,
+              clientId,
+            });
+          }
+        } else {
+          // Damaged goods stay out of sellable stock and are written off at their sale cost
+          damagedCost += saleUnitCost * line.quantity;
+          await tx.insert(stockMovements).values({
+            productId,
+            locationId: returnLocationId,
+            movementType: 'adjustment',
+            quantity: line.quantity,
+            unitCost: saleUnitCost.toFixed(2),
+            serialNumbers: line.serialNumbers.length > 0 ? line.serialNumbers : undefined,
+            referenceId: original.id,
+            referenceType: 'return_damaged',
+            reason: 'damaged',
+            notes: `${movementNote} - barang rusak`,
+            userId,
+            clientId,
+          });
+        }
+
+        if (line.serialNumbers.length > 0) {
+          await tx
+            .update(productSerials)
+            .set(line.condition === 'normal_stock'
+              ? { status: 'in_stock', transactionId: null, transactionItemId: null, soldAt: null, updatedAt: now }
+              : { status: 'damaged', updatedAt: now })
+            .where(and(
+              eq(productSerials.productId, productId),
+              inArray(productSerials.serialNumber, line.serialNumbers)
+            ));
+        }
+      }
+
+      let exchangeCost = 0;
+      for (let index = 0; index < exchangeLines.length; index++) {
+        const line = exchangeLines[index];
+        const product = line.product;
+
+        if (returnLocationId) {
+          const available = await this.getLocationStockQuantity(tx, line.productId, returnLocationId);
+          if (available < line.quantity) {
+            throw new Error(`Stok ${product.name} di lokasi ini tidak cukup. Tersedia: ${available}, dibutuhkan: ${line.quantity}`);
+          }
+        }
+
+        if (product.trackSerial) {
+          await this.markSerialsSold(tx, {
+            productId: line.productId,
+            productName: product.name,
+            quantity: line.quantity,
+            serialNumbers: line.serialNumbers,
+            transactionId: returnTransaction.id,
+            transactionItemId: insertedExchangeItems[index]?.id,
+            clientId,
+          });
+        }
+
+        await tx
+          .update(products)
+          .set({ stock: sql`${products.stock} - ${line.quantity}`, updatedAt: now })
+          .where(eq(products.id, line.productId));
+        await this.adjustLocationStock(tx, line.productId, returnLocationId, -line.quantity, clientId);
+
+        const allocations = await this.consumeProductBatches(tx, line.productId, line.quantity, {
+          fallbackCost: Number(product.averageCost ?? product.lastPurchasePrice ?? 0),
+          serialNumbers: line.serialNumbers,
+          clientId,
+        });
+        for (const allocation of allocations) {
+          exchangeCost += allocation.quantity * allocation.unitCost;
+          await tx.insert(stockMovements).values({
+            productId: line.productId,
+            batchId: allocation.batchId,
+            locationId: returnLocationId,
+            movementType: 'out',
+            quantity: allocation.quantity,
+            unitCost: allocation.unitCost.toFixed(2),
+            serialNumbers: line.serialNumbers.length > 0 ? line.serialNumbers : undefined,
+            referenceId: returnTransaction.id,
+            referenceType: 'exchange',
+            notes: `Tukar barang ${returnTransaction.transactionNumber}`,
+            userId,
+            clientId,
+          });
+        }
+      }
+
+      // Installment sales: the refund first reduces what the customer still owes
+      let receivableCredit = 0;
+      if (original.paymentMethod === 'installment' && netRefund > 0) {
+        receivableCredit = await this.creditInstallmentPlanForReturn(tx, original.id, netRefund);
+
+        // Only the part left after the credit leaves the drawer, so the shift report counts it as a cash refund
+        const cashRefund = Number((netRefund - receivableCredit).toFixed(2));
+        const settlement = [
+          { paymentMethod: 'installment', amount: receivableCredit },
+          { paymentMethod: 'cash', amount: cashRefund },
+        ].filter((line) => line.amount > 0);
+        await tx.insert(transactionPayments).values(settlement.map((line) => ({
+          clientId,
+          transactionId: returnTransaction.id,
+          paymentMethod: line.paymentMethod,
+          amount: line.amount.toFixed(2),
+        })));
+      }
+
+      await financeManager.processPOSReturn(
+        {
+          returnTransaction,
+          returnedRevenue,
+          restockedCost,
+          damagedCost,
+          exchangeRevenue,
+          exchangeCost,
+          returnedTax,
+          exchangeTax,
+          receivableCredit,
+        },
+        tx,
+      );
+
+      return { ...returnTransaction, items: [...insertedReturnItems, ...insertedExchangeItems] };
+    });
+
+    return (await this.getTransactionById(created.id)) || created;
+  }
+
+  // Reduces an installment plan's remaining terms, latest first. Returns the amount applied.
+  private async creditInstallmentPlanForReturn(tx: any, transactionId: string, amount: number): Promise<number> {
+    const [plan] = await tx
+      .select()
+      .from(installmentPlans)
+      .where(and(eq(installmentPlans.transactionId, transactionId), eq(installmentPlans.status, 'active')));
+
+    if (!plan) return 0;
+
+    const outstanding = Number(plan.outstandingAmount);
+    const credit = Number(Math.min(outstanding, amount).toFixed(2));
+    if (credit <= 0) return 0;
+
+    const schedules = await tx
+      .select()
+      .from(installmentSchedules)
+      .where(and(eq(installmentSchedules.planId, plan.id), ne(installmentSchedules.status, 'paid')))
+      .orderBy(desc(installmentSchedules.termNumber));
+
+    let remaining = credit;
+    for (const schedule of schedules) {
+      if (remaining <= 0) break;
+      const due = Number(schedule.amount) - Number(schedule.paidAmount || 0);
+      const applied = Math.min(due, remaining);
+      const newAmount = Number(schedule.amount) - applied;
+      const settled = newAmount - Number(schedule.paidAmount || 0) <= 0.005;
+      remaining = Number((remaining - applied).toFixed(2));
+
+      await tx
+        .update(installmentSchedules)
+        .set({
+          amount: newAmount.toFixed(2),
+          status: settled ? 'paid' : schedule.status,
+          paidAt: settled ? new Date() : schedule.paidAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(installmentSchedules.id, schedule.id));
+    }
+
+    const newOutstanding = Math.max(0, Number((outstanding - credit).toFixed(2)));
+    await tx
+      .update(installmentPlans)
+      .set({
+        financedAmount: (Number(plan.financedAmount) - credit).toFixed(2),
+        outstandingAmount: newOutstanding.toFixed(2),
+        status: newOutstanding <= 0 ? 'paid' : plan.status,
+        updatedAt: new Date(),
+      })
+      .where(eq(installmentPlans.id, plan.id));
+
+    return credit;
+  }
+
+  // Cashier Shifts
+  private async findOpenShiftId(executor: any, userId?: string | null): Promise<string | null> {
+    if (!userId) return null;
+    const [openShift] = await executor
+      .select({ id: cashierShifts.id })
+      .from(cashierShifts)
+      .where(and(eq(cashierShifts.userId, userId), eq(cashierShifts.status, 'open')))
+      .limit(1);
+    return openShift?.id ?? null;
+  }
+
+  private async queryCashierShifts(conditions: SQL[], executor: any = db): Promise<CashierShiftSummary[]> {
+    const clientId = this.resolveClientId();
+    if (clientId) conditions.push(eq(cashierShifts.clientId, clientId));
+
+    const rows = await executor
+      .select({
+        shift: cashierShifts,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+        locationName: locations.name,
+      })
+      .from(cashierShifts)
+      .leftJoin(users, eq(cashierShifts.userId, users.id))
+      .leftJoin(locations, eq(cashierShifts.locationId, locations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(cashierShifts.openedAt));
+
+    return rows.map((row: any) => ({
+      ...row.shift,
+      userName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.username || null,
+      locationName: row.locationName ?? null,
+    }));
+  }
+
+  async getOpenShift(userId: string): Promise<CashierShiftSummary | undefined> {
+    const [shift] = await this.queryCashierShifts([
+      eq(cashierShifts.userId, userId),
+      eq(cashierShifts.status, 'open'),
+    ]);
+    return shift;
+  }
+
+  async getCashierShifts(filters?: { status?: string; userId?: string }): Promise<CashierShiftSummary[]> {
+    const conditions: SQL[] = [];
+    if (filters?.status) conditions.push(eq(cashierShifts.status, filters.status));
+    if (filters?.userId) conditions.push(eq(cashierShifts.userId, filters.userId));
+    return this.queryCashierShifts(conditions);
+  }
+
+  async getCashierShiftById(id: string, executor: any = db): Promise<CashierShiftSummary | undefined> {
+    const [shift] = await this.queryCashierShifts([eq(cashierShifts.id, id)], executor);
+    return shift;
+  }
+
+  async openCashierShift(userId: string, input: OpenCashierShift, explicitClientId?: string | null): Promise<CashierShift> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId(explicitClientId);
+      if (await this.findOpenShiftId(tx, userId)) {
+        throw new Error('Masih ada shift yang terbuka. Tutup shift sebelumnya terlebih dahulu');
+      }
+
+      const openingFloat = Number(input.openingFloat || 0);
+      if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+        throw new Error('Modal awal kas tidak valid');
+      }
+
+      const [shift] = await tx
+        .insert(cashierShifts)
+        .values({
+          clientId,
+          shiftNumber: `SHIFT-${Date.now()}`,
+          userId,
+          locationId: input.locationId || await this.resolveDefaultLocationId(tx, clientId),
+          status: 'open',
+          openingFloat: openingFloat.toFixed(2),
+          openedAt: new Date(),
+          notes: input.notes || null,
+        })
+        .returning();
+
+      return shift;
+    });
+  }
+
+  async recordShiftCashMovement(shiftId: string, input: InsertShiftCashMovement, userId: string): Promise<ShiftCashMovement> {
+    return await db.transaction(async (tx) => {
+      const shift = await this.getCashierShiftById(shiftId, tx);
+      if (!shift) throw new Error('Shift tidak ditemukan');
+      if (shift.status !== 'open') throw new Error('Shift sudah ditutup');
+
+      const amount = Number(input.amount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new Error('Jumlah kas harus lebih dari nol');
+      }
+
+      // Float top-ups stay within the cash account; only petty cash paid out is an expense
+      const journal = input.type === 'cash_out'
+        ? await financeManager.recordPettyCashExpense(
+            {
+              reference: shift.id,
+              amount,
+              description: `Kas kecil ${shift.shiftNumber}: ${input.reason}`,
+              userId,
+              clientId: shift.clientId,
+            },
+            tx,
+          )
+        : null;
+
+      const [movement] = await tx
+        .insert(shiftCashMovements)
+        .values({
+          clientId: shift.clientId,
+          shiftId: shift.id,
+          type: input.type,
+          amount: amount.toFixed(2),
+          reason: input.reason,
+          journalEntryId: journal?.id,
+          userId,
+        })
+        .returning();
+
+      return movement;
+    });
+  }
+
+  async getShiftReport(id: string, executor: any = db): Promise<ShiftReport | undefined> {
+    const shift = await this.getCashierShiftById(id, executor);
+    if (!shift) return undefined;
+
+    // Sales are broken down by their payment lines so split payments land under each method
+    const salePaymentRows = await executor
+      .select({
+        paymentMethod: transactionPayments.paymentMethod,
+        transactionCount: sql<number>`COUNT(DISTINCT ${transactions.id})`,
+        total: sum(transactionPayments.amount),
+      })
+      .from(transactionPayments)
+      .innerJoin(transactions, eq(transactionPayments.transactionId, transactions.id))
+      .where(and(eq(transactions.shiftId, shift.id), eq(transactions.type, 'sale')))
+      .groupBy(transactionPayments.paymentMethod);
+
+    // Installment returns record how the refund was settled: receivable credit vs cash paid out
+    const refundPaymentRows = await executor
+      .select({
+        paymentMethod: transactionPayments.paymentMethod,
+        transactionCount: sql<number>`COUNT(DISTINCT ${transactions.id})`,
+        total: sum(transactionPayments.amount),
+      })
+      .from(transactionPayments)
+      .innerJoin(transactions, eq(transactionPayments.transactionId, transactions.id))
+      .where(and(eq(transactions.shiftId, shift.id), eq(transactions.type, 'return')))
+      .groupBy(transactionPayments.paymentMethod);
+
+    // Other returns, plus any sale recorded without payment lines, fall back to the transaction's own method
+    const paymentRows = await executor
+      .select({
+        paymentMethod: transactions.paymentMethod,
+        type: transactions.type,
+        transactionCount: count(transactions.id),
+        total: sum(transactions.total),
+      })
+      .from(transactions)
+      .where(and(
+        eq(transactions.shiftId, shift.id),
+        sql`NOT EXISTS (SELECT 1 FROM ${transactionPayments} WHERE ${transactionPayments.transactionId} = ${transactions.id})`,
+      ))
+      .groupBy(transactions.paymentMethod, transactions.type);
+
+    const [shiftTransactions] = await executor
+      .select({ transactionCount: count(transactions.id) })
+      .from(transactions)
+      .where(eq(transactions.shiftId, shift.id));
+
+    // Collections are not tied to a shift row, so match the cashier and the shift window
+    const collectionRows = await executor
+      .select({
+        paymentMethod: installmentPayments.paymentMethod,
+        total: sum(installmentPayments.amount),
+      })
+      .from(installmentPayments)
+      .where(and(
+        eq(installmentPayments.userId, shift.userId),
+        gte(installmentPayments.paymentDate, shift.openedAt ?? shift.createdAt ?? new Date(0)),
+        lte(installmentPayments.paymentDate, shift.closedAt ?? new Date()),
+        shift.clientId ? eq(installmentPayments.clientId, shift.clientId) : undefined,
+      ))
+      .groupBy(installmentPayments.paymentMethod);
+
+    const cashMovements = await executor
+      .select()
+      .from(shiftCashMovements)
+      .where(eq(shiftCashMovements.shiftId, shift.id))
+      .orderBy(asc(shiftCashMovements.createdAt));
+
+    const breakdown = new Map<string, ShiftPaymentBreakdown>();
+    const entryFor = (method: string | null) => {
+      const key = method || 'cash';
+      if (!breakdown.has(key)) {
+        breakdown.set(key, { paymentMethod: key, transactionCount: 0, sales: 0, refunds: 0, collections: 0, net: 0 });
+      }
+      return breakdown.get(key)!;
+    };
+
+    for (const row of salePaymentRows) {
+      const entry = entryFor(row.paymentMethod);
+      entry.transactionCount += Number(row.transactionCount || 0);
+      entry.sales += Number(row.total || 0);
+    }
+    for (const row of refundPaymentRows) {
+      const entry = entryFor(row.paymentMethod);
+      entry.transactionCount += Number(row.transactionCount || 0);
+      entry.refunds += Number(row.total || 0);
+    }
+    for (const row of paymentRows) {
+      // Refunds on split sales are paid out of the drawer
+      const entry = entryFor(row.type === 'return' && row.paymentMethod === 'split' ? 'cash' : row.paymentMethod);
+      entry.transactionCount += Number(row.transactionCount || 0);
+      if (row.type === 'return') {
+        entry.refunds += Number(row.total || 0);
+      } else {
+        entry.sales += Number(row.total || 0);
+      }
+    }
+    for (const row of collectionRows) {
+      entryFor(row.paymentMethod).collections += Number(row.total || 0);
+    }
+
+    const payments = Array.from(breakdown.values()).map((entry) => ({
+      ...entry,
+      net: Number((entry.sales - entry.refunds + entry.collections).toFixed(2)),
+    }));
+
+    const cashIn = cashMovements
+      .filter((movement: ShiftCashMovement) => movement.type === 'cash_in')
+      .reduce((total: number, movement: ShiftCashMovement) => total + Number(movement.amount), 0);
+    const cashOut = cashMovements
+      .filter((movement: ShiftCashMovement) => movement.type === 'cash_out')
+      .reduce((total: number, movement: ShiftCashMovement) => total + Number(movement.amount), 0);
+
+    const cashNet = payments.find((entry) => entry.paymentMethod === 'cash')?.net ?? 0;
+    const expectedCash = Number((Number(shift.openingFloat || 0) + cashNet + cashIn - cashOut).toFixed(2));
+    const isClosed = shift.status === 'closed';
+
+    return {
+      reportType: isClosed ? 'Z' : 'X',
+      shift,
+      payments,
+      cashMovements,
+      totals: {
+        // Split sales appear under several methods, so count the transactions themselves
+        transactionCount: Number(shiftTransactions?.transactionCount || 0),
+        sales: payments.reduce((total, entry) => total + entry.sales, 0),
+        refunds: payments.reduce((total, entry) => total + entry.refunds, 0),
+        collections: payments.reduce((total, entry) => total + entry.collections, 0),
+        cashIn,
+        cashOut,
+      },
+      // A closed shift keeps the figures it was reconciled against
+      expectedCash: isClosed && shift.expectedCash !== null ? Number(shift.expectedCash) : expectedCash,
+      countedCash: shift.countedCash !== null ? Number(shift.countedCash) : null,
+      difference: shift.cashDifference !== null ? Number(shift.cashDifference) : null,
+      generatedAt: new Date(),
+    };
+  }
+
+  // Cashiers close their own drawer; canCloseOthers lets finance close a shift left open by someone else
+  async closeCashierShift(id: string, input: CloseCashierShift, userId: string, canCloseOthers = false): Promise<ShiftReport> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId();
+      const [locked] = await tx
+        .select()
+        .from(cashierShifts)
+        .where(clientId
+          ? and(eq(cashierShifts.id, id), eq(cashierShifts.clientId, clientId))
+          : eq(cashierShifts.id, id))
+        .for('update');
+      if (!locked) throw new Error('Shift tidak ditemukan');
+      if (locked.userId !== userId && !canCloseOthers) {
+        throw new Error('Shift milik kasir lain hanya dapat ditutup oleh bagian keuangan');
+      }
+      if (locked.status !== 'open') throw new Error('Shift sudah ditutup');
+
+      const countedCash = Number(input.countedCash);
+      if (!Number.isFinite(countedCash) || countedCash < 0) {
+        throw new Error('Jumlah kas terhitung tidak valid');
+      }
+
+      const snapshot = await this.getShiftReport(id, tx);
+      if (!snapshot) throw new Error('Shift tidak ditemukan');
+
+      const difference = Number((countedCash - snapshot.expectedCash).toFixed(2));
+      const journal = await financeManager.recordCashOverShort(
+        {
+          reference: locked.id,
+          difference,
+          description: `${difference > 0 ? 'Kelebihan' : 'Kekurangan'} kas ${locked.shiftNumber}`,
+          userId,
+          clientId: locked.clientId,
+        },
+        tx,
+      );
+
+      const closedAt = new Date();
+      await tx
+        .update(cashierShifts)
+        .set({
+          status: 'closed',
+          expectedCash: snapshot.expectedCash.toFixed(2),
+          countedCash: countedCash.toFixed(2),
+          cashDifference: difference.toFixed(2),
+          closedAt,
+          closedBy: userId,
+          journalEntryId: journal?.id ?? null,
+          closingNotes: input.closingNotes || null,
+          updatedAt: closedAt,
+        })
+        .where(eq(cashierShifts.id, id));
+
+      const report = await this.getShiftReport(id, tx);
+      return report!;
+    });
+  }
+
+  // Parked Carts
+  private async changeReservedStock(executor: any, items: ParkedCartItem[], direction: 1 | -1): Promise<void> {
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + Number(item.quantity));
+    }
+
+    for (const [productId, quantity] of Array.from(quantities.entries())) {
+      await executor
+        .update(products)
+        .set({
+          reservedStock: direction > 0
+            ? sql`COALESCE(${products.reservedStock}, 0) + ${quantity}`
+            : sql`GREATEST(COALESCE(${products.reservedStock}, 0) - ${quantity}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(products.id, productId));
+    }
+  }
+
+  // Stale carts are expired lazily whenever the parked list is read or a cart is parked
+  async expireParkedCarts(): Promise<number> {
+    const clientId = this.resolveClientId();
+    return await db.transaction(async (tx) => {
+      const stale = await tx
+        .select()
+        .from(parkedCarts)
+        .where(and(
+          eq(parkedCarts.status, 'parked'),
+          lte(parkedCarts.expiresAt, new Date()),
+          clientId ? eq(parkedCarts.clientId, clientId) : undefined,
+        ))
+        .for('update');
+
+      for (const cart of stale) {
+        await this.changeReservedStock(tx, cart.items as ParkedCartItem[], -1);
+        await tx
+          .update(parkedCarts)
+          .set({ status: 'expired', updatedAt: new Date() })
+          .where(eq(parkedCarts.id, cart.id));
+      }
+
+      return stale.length;
+    });
+  }
+
+  async getParkedCarts(): Promise<ParkedCartSummary[]> {
+    await this.expireParkedCarts();
+    const clientId = this.resolveClientId();
+
+    const rows = await db
+      .select({
+        cart: parkedCarts,
+        customerName: customers.name,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+        locationName: locations.name,
+      })
+      .from(parkedCarts)
+      .leftJoin(customers, eq(parkedCarts.customerId, customers.id))
+      .leftJoin(users, eq(parkedCarts.userId, users.id))
+      .leftJoin(locations, eq(parkedCarts.locationId, locations.id))
+      .where(and(
+        eq(parkedCarts.status, 'parked'),
+        clientId ? eq(parkedCarts.clientId, clientId) : undefined,
+      ))
+      .orderBy(desc(parkedCarts.createdAt));
+
+    return rows.map((row) => ({
+      ...row.cart,
+      customerName: row.customerName ?? null,
+      userName: [row.firstName, row.lastName].filter(Boolean).join(' ') || row.username || null,
+      locationName: row.locationName ?? null,
+    }));
+  }
+
+  async parkCart(input: ParkCartInput, userId: string, explicitClientId?: string | null): Promise<ParkedCart> {
+    await this.expireParkedCarts();
+
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId(explicitClientId);
+      const items: ParkedCartItem[] = input.items.map((item) => ({
+        productId: item.productId,
+        name: item.name,
+        quantity: Number(item.quantity),
+        unitPrice: Number(item.unitPrice).toFixed(2),
+        serialNumbers: this.normalizeSerialNumbers(item.serialNumbers),
+      }));
+
+      const requested = new Map<string, number>();
+      for (const item of items) {
+        requested.set(item.productId, (requested.get(item.productId) ?? 0) + item.quantity);
+      }
+      await this.assertStockNotFrozen(tx, Array.from(requested.keys()), input.locationId);
+
+      const productRows = await tx
+        .select()
+        .from(products)
+        .where(inArray(products.id, Array.from(requested.keys())))
+        .for('update');
+      const productsById = new Map(productRows.map((product) => [product.id, product]));
+
+      for (const [productId, quantity] of Array.from(requested.entries())) {
+        const product = productsById.get(productId);
+        if (!product) throw new Error('Produk tidak ditemukan');
+        const available = Number(product.stock || 0) - Number(product.reservedStock || 0);
+        if (available < quantity) {
+          throw new Error(`Stok ${product.name} tidak cukup untuk ditahan. Tersedia: ${Math.max(available, 0)}, dibutuhkan: ${quantity}`);
+        }
+      }
+
+      await this.changeReservedStock(tx, items, 1);
+
+      const subtotal = items.reduce((total, item) => total + Number(item.unitPrice) * item.quantity, 0);
+      const [cart] = await tx
+        .insert(parkedCarts)
+        .values({
+          clientId,
+          cartNumber: `HOLD-${Date.now()}`,
+          label: input.label || null,
+          customerId: input.customerId || null,
+          locationId: input.locationId || null,
+          userId,
+          status: 'parked',
+          items,
+          settings: input.settings ?? null,
+          subtotal: subtotal.toFixed(2),
+          expiresAt: new Date(Date.now() + PARKED_CART_TTL_HOURS * 60 * 60 * 1000),
+        })
+        .returning();
+
+      return cart;
+    });
+  }
+
+  async resumeParkedCart(id: string, userId: string): Promise<ParkedCart> {
+    const clientId = this.resolveClientId();
+    const updated = await db.transaction(async (tx) => {
+      const [cart] = await tx
+        .select()
+        .from(parkedCarts)
+        .where(and(
+          eq(parkedCarts.id, id),
+          clientId ? eq(parkedCarts.clientId, clientId) : undefined,
+        ))
+        .for('update');
+
+      if (!cart) throw new Error('Keranjang tidak ditemukan');
+      if (cart.status !== 'parked') throw new Error('Keranjang sudah dilanjutkan atau tidak berlaku lagi');
+
+      // The resumed cart goes back to the terminal; its stock is re-checked at checkout
+      await this.changeReservedStock(tx, cart.items as ParkedCartItem[], -1);
+
+      const expired = cart.expiresAt.getTime() <= Date.now();
+      const [updated] = await tx
+        .update(parkedCarts)
+        .set(expired
+          ? { status: 'expired', updatedAt: new Date() }
+          : { status: 'resumed', resumedAt: new Date(), resumedBy: userId, updatedAt: new Date() })
+        .where(eq(parkedCarts.id, id))
+        .returning();
+
+      return updated;
+    });
+
+    // Thrown after commit so the expired cart still releases its reservation
+    if (updated.status === 'expired') throw new Error('Keranjang sudah kedaluwarsa');
+    return updated;
+  }
+
+  async cancelParkedCart(id: string): Promise<void> {
+    const clientId = this.resolveClientId();
+    await db.transaction(async (tx) => {
+      const [cart] = await tx
+        .select()
+        .from(parkedCarts)
+        .where(and(
+          eq(parkedCarts.id, id),
+          clientId ? eq(parkedCarts.clientId, clientId) : undefined,
+        ))
+        .for('update');
+
+      if (!cart) throw new Error('Keranjang tidak ditemukan');
+      if (cart.status !== 'parked') return;
+
+      await this.changeReservedStock(tx, cart.items as ParkedCartItem[], -1);
+      await tx
+        .update(parkedCarts)
+        .set({ status: 'cancelled', updatedAt: new Date() })
+        .where(eq(parkedCarts.id, id));
+    });
+  }
+
+  // Installment Plans
+  private async createInstallmentPlan(
+    tx: any,
+    transaction: Transaction,
+    input: InstallmentPlanInput,
+    clientId: string | null,
+  ): Promise<InstallmentPlan> {
+    const totalAmount = Number(transaction.total);
+    const downPayment = Number(input.downPayment || 0);
+
+    if (downPayment < 0 || downPayment >= totalAmount) {
+      throw new TransactionValidationError('Uang muka harus lebih kecil dari total transaksi');
+    }
+
+    const financedAmount = Number((totalAmount - downPayment).toFixed(2));
+    const saleDate = transaction.createdAt ? new Date(transaction.createdAt) : new Date();
+    const frequency = input.frequency || 'monthly';
+
+    const addPeriods = (start: Date, periods: number) => {
+      const due = new Date(start);
+      if (frequency === 'weekly') {
+        due.setDate(due.getDate() + periods * 7);
+      } else {
+        due.setMonth(due.getMonth() + periods);
+      }
+      return due;
+    };
+
+    const firstDueDate = input.firstDueDate ? new Date(input.firstDueDate) : addPeriods(saleDate, 1);
+
+    const [plan] = await tx
+      .insert(installmentPlans)
+      .values({
+        clientId,
+        planNumber: `CIC-${Date.now()}`,
+        transactionId: transaction.id,
+        customerId: transaction.customerId!,
+        totalAmount: totalAmount.toFixed(2),
+        downPayment: downPayment.toFixed(2),
+        financedAmount: financedAmount.toFixed(2),
+        paidAmount: '0.00',
+        outstandingAmount: financedAmount.toFixed(2),
+        numberOfTerms: input.numberOfTerms,
+        frequency,
+        firstDueDate,
+        notes: input.notes,
+        createdBy: transaction.userId,
+      })
+      .returning();
+
+    // Equal terms; the last term absorbs rounding
+    const termAmount = Math.floor((financedAmount / input.numberOfTerms) * 100) / 100;
+    const schedules = Array.from({ length: input.numberOfTerms }, (_, index) => {
+      const isLast = index === input.numberOfTerms - 1;
+      const amount = isLast ? financedAmount - termAmount * (input.numberOfTerms - 1) : termAmount;
+      return {
+        clientId,
+        planId: plan.id,
+        termNumber: index + 1,
+        dueDate: addPeriods(firstDueDate, index),
+        amount: amount.toFixed(2),
+      };
+    });
+    await tx.insert(installmentSchedules).values(schedules);
+
+    if (downPayment > 0) {
+      const journal = await financeManager.recordReceivablePayment(
+        {
+          reference: plan.id,
+          amount: downPayment,
+          paymentMethod: input.downPaymentMethod,
+          description: `Uang muka cicilan ${plan.planNumber} - ${transaction.transactionNumber}`,
+          userId: transaction.userId,
+          clientId,
+        },
+        tx,
+      );
+
+      await tx.insert(installmentPayments).values({
+        clientId,
+        planId: plan.id,
+        amount: downPayment.toFixed(2),
+        paymentMethod: input.downPaymentMethod,
+        paymentType: 'down_payment',
+        journalEntryId: journal?.id,
+        userId: transaction.userId,
+      });
+    }
+
+    return plan;
+  }
+
+  async getInstallmentPlans(filters?: { customerId?: string; status?: string }): Promise<InstallmentPlanWithDetails[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(installmentPlans.clientId, clientId));
+    if (filters?.customerId) conditions.push(eq(installmentPlans.customerId, filters.customerId));
+    if (filters?.status) conditions.push(eq(installmentPlans.status, filters.status));
+
+    const plans = await db
+      .select({ id: installmentPlans.id })
+      .from(installmentPlans)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(installmentPlans.createdAt));
+
+    const detailed = await Promise.all(plans.map(plan => this.getInstallmentPlanById(plan.id)));
+    return detailed.filter((plan): plan is InstallmentPlanWithDetails => Boolean(plan));
+  }
+
+  async getInstallmentPlanById(id: string): Promise<InstallmentPlanWithDetails | undefined> {
+    const clientId = this.resolveClientId();
+    const [row] = await db
+      .select({
+        plan: installmentPlans,
+        customerId: customers.id,
+        customerName: customers.name,
+        customerPhone: customers.phone,
+        transactionNumber: transactions.transactionNumber,
+      })
+      .from(installmentPlans)
+      .leftJoin(customers, eq(installmentPlans.customerId, customers.id))
+      .leftJoin(transactions, eq(installmentPlans.transactionId, transactions.id))
+      .where(clientId
+        ? and(eq(installmentPlans.id, id), eq(installmentPlans.clientId, clientId))
+        : eq(installmentPlans.id, id));
+
+    if (!row) return undefined;
+
+    const schedules = await db
+      .select()
+      .from(installmentSchedules)
+      .where(eq(installmentSchedules.planId, id))
+      .orderBy(asc(installmentSchedules.termNumber));
+
+    const payments = await db
+      .select()
+      .from(installmentPayments)
+      .where(eq(installmentPayments.planId, id))
+      .orderBy(asc(installmentPayments.paymentDate));
+
+    return {
+      ...row.plan,
+      customer: row.customerId
+        ? { id: row.customerId, name: row.customerName || '', phone: row.customerPhone }
+        : null,
+      transactionNumber: row.transactionNumber,
+      schedules,
+      payments,
+    };
+  }
+
+  async recordInstallmentPayment(planId: string, payment: InsertInstallmentPayment, userId: string): Promise<InstallmentPayment> {
+    return await db.transaction(async (tx) => {
+      const clientId = this.resolveClientId(payment.clientId);
+      // Lock the plan so two concurrent payments cannot both pass the outstanding check
+      const [plan] = await tx
+        .select()
+        .from(installmentPlans)
+        .where(clientId
+          ? and(eq(installmentPlans.id, planId), eq(installmentPlans.clientId, clientId))
+          : eq(installmentPlans.id, planId))
+        .for('update');
+
+      if (!plan) throw new TransactionValidationError('Installment plan not found');
+      if (plan.status !== 'active') throw new TransactionValidationError('Installment plan is not active');
+
+      const amount = Number(payment.amount);
+      const outstanding = Number(plan.outstandingAmount);
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new TransactionValidationError('Payment amount must be greater than zero');
+      }
+      if (amount - outstanding > 0.005) {
+        throw new TransactionValidationError(`Payment exceeds outstanding balance of ${outstanding.toFixed(2)}`);
+      }
+
+      const paymentDate = payment.paymentDate ? new Date(payment.paymentDate) : new Date();
+
+      // Allocate to the oldest unpaid terms first
+      const schedules = await tx
+        .select()
+        .from(installmentSchedules)
+        .where(and(eq(installmentSchedules.planId, planId), ne(installmentSchedules.status, 'paid')))
+        .orderBy(asc(installmentSchedules.termNumber));
+
+      let remaining = amount;
+      for (const schedule of schedules) {
+        if (remaining <= 0) break;
+        const due = Number(schedule.amount) - Number(schedule.paidAmount || 0);
+        const applied = Math.min(due, remaining);
+        const newPaid = Number(schedule.paidAmount || 0) + applied;
+        const fullyPaid = newPaid >= Number(schedule.amount) - 0.005;
+        remaining = Number((remaining - applied).toFixed(2));
+
+        await tx
+          .update(installmentSchedules)
+          .set({
+            paidAmount: newPaid.toFixed(2),
+            status: fullyPaid ? 'paid' : 'partial',
+            paidAt: fullyPaid ? paymentDate : schedule.paidAt,
+            updatedAt: new Date(),
+          })
+          .where(eq(installmentSchedules.id, schedule.id));
+      }
+
+      const newOutstanding = Math.max(0, Number((outstanding - amount).toFixed(2)));
+      await tx
+        .update(installmentPlans)
+        .set({
+          paidAmount: (Number(plan.paidAmount || 0) + amount).toFixed(2),
+          outstandingAmount: newOutstanding.toFixed(2),
+          status: newOutstanding <= 0 ? 'paid' : plan.status,
+          updatedAt: new Date(),
+        })
+        .where(eq(installmentPlans.id, planId));
+
+      const journal = await financeManager.recordReceivablePayment(
+        {
+          reference: plan.id,
+          amount,
+          paymentMethod: payment.paymentMethod || 'cash',
+          description: `Pembayaran cicilan ${plan.planNumber}`,
+          userId,
+          clientId: plan.clientId,
+        },
+        tx,
+      );
+
+      const [created] = await tx
+        .insert(installmentPayments)
+        .values({
+          clientId: plan.clientId,
+          planId,
+          amount: amount.toFixed(2),
+          paymentMethod: payment.paymentMethod || 'cash',
+          paymentType: 'installment',
+          paymentDate,
+          journalEntryId: journal?.id,
+          notes: payment.notes,
+          userId,
+        })
+        .returning();
+
+      return created;
+    });
+  }
+
+  private async getOpenInstallmentSchedules() {
+    const clientId = this.resolveClientId();
+    const conditions = [
+      eq(installmentPlans.status, 'active'),
+      ne(installmentSchedules.status, 'paid'),
+    ];
+    if (clientId) conditions.push(eq(installmentPlans.clientId, clientId));
+
+    return await db
+      .select({
+        schedule: installmentSchedules,
+        planId: installmentPlans.id,
+        planNumber: installmentPlans.planNumber,
+        transactionNumber: transactions.transactionNumber,
+        customerId: customers.id,
+        customerName: customers.name,
+        customerPhone: customers.phone,
+      })
+      .from(installmentSchedules)
+      .innerJoin(installmentPlans, eq(installmentSchedules.planId, installmentPlans.id))
+      .innerJoin(customers, eq(installmentPlans.customerId, customers.id))
+      .leftJoin(transactions, eq(installmentPlans.transactionId, transactions.id))
+      .where(and(...conditions))
+      .orderBy(asc(installmentSchedules.dueDate));
+  }
+
+  async getReceivablesAging(asOf: Date = new Date()): Promise<ReceivablesAgingReport> {
+    const rows = await this.getOpenInstallmentSchedules();
+    const dayMs = 24 * 60 * 60 * 1000;
+    const byCustomer = new Map<string, ReceivablesAgingRow>();
+    const totals = emptyAgingBuckets();
+
+    for (const row of rows) {
+      const outstanding = Number(row.schedule.amount) - Number(row.schedule.paidAmount || 0);
+      if (outstanding <= 0) continue;
+
+      const daysOverdue = Math.floor((asOf.getTime() - new Date(row.schedule.dueDate).getTime()) / dayMs);
+      const bucket = resolveAgingBucket(daysOverdue);
+
+      let customerRow = byCustomer.get(row.customerId);
+      if (!customerRow) {
+        customerRow = {
+          customerId: row.customerId,
+          customerName: row.customerName,
+          customerPhone: row.customerPhone,
+          ...emptyAgingBuckets(),
+        };
+        byCustomer.set(row.customerId, customerRow);
+      }
+
+      customerRow[bucket] += outstanding;
+      customerRow.total += outstanding;
+      totals[bucket] += outstanding;
+      totals.total += outstanding;
+    }
+
+    return {
+      asOf,
+      customers: Array.from(byCustomer.values()).sort((a, b) => b.total - a.total),
+      totals,
+    };
+  }
+
+  async getOverdueInstallments(asOf: Date = new Date()): Promise<OverdueInstallment[]> {
+    const rows = await this.getOpenInstallmentSchedules();
+    const dayMs = 24 * 60 * 60 * 1000;
+
+    return rows
+      .map(row => ({
+        schedule: row.schedule,
+        planId: row.planId,
+        planNumber: row.planNumber,
+        transactionNumber: row.transactionNumber,
+        customer: { id: row.customerId, name: row.customerName, phone: row.customerPhone },
+        outstanding: Number(row.schedule.amount) - Number(row.schedule.paidAmount || 0),
+        daysOverdue: Math.floor((asOf.getTime() - new Date(row.schedule.dueDate).getTime()) / dayMs),
+      }))
+      .filter(row => row.daysOverdue > 0 && row.outstanding > 0);
+  }
+
+  async markInstallmentRemindersSent(scheduleIds: string[]): Promise<void> {
+    if (scheduleIds.length === 0) return;
+
+    await db
+      .update(installmentSchedules)
+      .set({ lastReminderAt: new Date(), updatedAt: new Date() })
+      .where(inArray(installmentSchedules.id, scheduleIds));
+
+    // Untouched terms past due are flagged overdue; partial terms keep their status
+    await db
+      .update(installmentSchedules)
+      .set({ status: 'overdue' })
+      .where(and(inArray(installmentSchedules.id, scheduleIds), eq(installmentSchedules.status, 'pending')));
+  }
+
+  // Service Tickets
+  async getServiceTickets(): Promise<ServiceTicket[]> {
+    const tickets = await db
+      .select({
+        id: serviceTickets.id,
+        clientId: serviceTickets.clientId,
+        createdAt: serviceTickets.createdAt,
+        updatedAt: serviceTickets.updatedAt,
+        status: serviceTickets.status,
+        customerId: serviceTickets.customerId,
+        deviceType: serviceTickets.deviceType,
+        deviceBrand: serviceTickets.deviceBrand,
+        deviceModel: serviceTickets.deviceModel,
+        serialNumber: serviceTickets.serialNumber,
+        completeness: serviceTickets.completeness,
+        intakeChecklist: serviceTickets.intakeChecklist,
+        intakeSignature: serviceTickets.intakeSignature,
+        handoverCheck: serviceTickets.handoverCheck,
+        problem: serviceTickets.problem,
+        diagnosis: serviceTickets.diagnosis,
+        solution: serviceTickets.solution,
+        estimatedCost: serviceTickets.estimatedCost,
+        actualCost: serviceTickets.actualCost,
+        laborCost: serviceTickets.laborCost,
+        partsCost: serviceTickets.partsCost,
+        taxableAmount: serviceTickets.taxableAmount,
+        taxAmount: serviceTickets.taxAmount,
+        taxInclusive: serviceTickets.taxInclusive,
+        estimatedCompletion: serviceTickets.estimatedCompletion,
+        technicianId: serviceTickets.technicianId,
+        warrantyDuration: serviceTickets.warrantyDuration,
+        warrantyStartDate: serviceTickets.warrantyStartDate,
+        warrantyEndDate: serviceTickets.warrantyEndDate,
+        // Cancellation fields
+        cancellationFee: serviceTickets.cancellationFee,
+        cancellationReason: serviceTickets.cancellationReason,
+        cancelledAt: serviceTickets.cancelledAt,
+        cancelledBy: serviceTickets.cancelledBy,
+        cancellationType: serviceTickets.cancellationType,
+
+        ticketNumber: serviceTickets.ticketNumber,
+        completedAt: serviceTickets.completedAt,
+        statusChangedAt: serviceTickets.statusChangedAt,
+        customerName: customers.name
+      })
+      .from(serviceTickets)
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .orderBy(desc(serviceTickets.createdAt));
+    
+    return tickets.map(ticket => ({
+      ...ticket,
+      customerName: ticket.customerName || null, // Keep string field for backward compatibility
+      customer: ticket.customerName ? { name: ticket.customerName } : null // Object field for new usage
+    })) as ServiceTicket[];
+  }
+
+  async getServiceTicketById(id: string): Promise<ServiceTicket | undefined> {
+    const [ticket] = await db.select().from(serviceTickets).where(eq(serviceTickets.id, id));
+    return ticket;
+  }
+
+  async getActiveServiceTickets(): Promise<ServiceTicket[]> {
+    const tickets = await db
+      .select({
+        id: serviceTickets.id,
+        clientId: serviceTickets.clientId,
+        createdAt: serviceTickets.createdAt,
+        updatedAt: serviceTickets.updatedAt,
+        status: serviceTickets.status,
+        customerId: serviceTickets.customerId,
+        deviceType: serviceTickets.deviceType,
+        deviceBrand: serviceTickets.deviceBrand,
+        deviceModel: serviceTickets.deviceModel,
+        serialNumber: serviceTickets.serialNumber,
+        completeness: serviceTickets.completeness,
+        intakeChecklist: serviceTickets.intakeChecklist,
+        intakeSignature: serviceTickets.intakeSignature,
+        handoverCheck: serviceTickets.handoverCheck,
+        problem: serviceTickets.problem,
+        diagnosis: serviceTickets.diagnosis,
+        solution: serviceTickets.solution,
+        estimatedCost: serviceTickets.estimatedCost,
+        actualCost: serviceTickets.actualCost,
+        laborCost: serviceTickets.laborCost,
+        partsCost: serviceTickets.partsCost,
+        taxableAmount: serviceTickets.taxableAmount,
+        taxAmount: serviceTickets.taxAmount,
+        taxInclusive: serviceTickets.taxInclusive,
+        estimatedCompletion: serviceTickets.estimatedCompletion,
+        technicianId: serviceTickets.technicianId,
+        warrantyDuration: serviceTickets.warrantyDuration,
+        warrantyStartDate: serviceTickets.warrantyStartDate,
+        warrantyEndDate: serviceTickets.warrantyEndDate,
+        // Cancellation fields
+        cancellationFee: serviceTickets.cancellationFee,
+        cancellationReason: serviceTickets.cancellationReason,
+        cancelledAt: serviceTickets.cancelledAt,
+        cancelledBy: serviceTickets.cancelledBy,
+        cancellationType: serviceTickets.cancellationType,
+
+        ticketNumber: serviceTickets.ticketNumber,
+        completedAt: serviceTickets.completedAt,
+        statusChangedAt: serviceTickets.statusChangedAt,
+        customerName: customers.name
+      })
+      .from(serviceTickets)
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .where(sql`${serviceTickets.status} != 'completed' AND ${serviceTickets.status} != 'delivered' AND ${serviceTickets.status} != 'cancelled'`)
+      .orderBy(desc(serviceTickets.createdAt));
+    
+    return tickets.map(ticket => ({
+      ...ticket,
+      customerName: ticket.customerName || null, // Keep string field for backward compatibility
+      customer: ticket.customerName ? { name: ticket.customerName } : null // Object field for new usage
+    })) as ServiceTicket[];
+  }
+
+  async createServiceTicket(ticketData: InsertServiceTicket, userId?: string): Promise<ServiceTicket> {
+    const ticket = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(serviceTickets).values(ticketData as any).returning();
+      await tx.insert(serviceStatusHistory).values({
+        serviceTicketId: created.id,
+        fromStatus: null,
+        toStatus: created.status || 'pending',
+        diagnosis: created.diagnosis,
+        changedBy: userId ?? null,
+        clientId: created.clientId,
+      });
+      return created;
+    });
+
+    if (!ticket.technicianId) {
+      const config = await this.getStoreConfig();
+      if (config?.autoAssignTechnician !== false) {
+        const technicianId = await this.pickLeastLoadedTechnician();
+        if (technicianId) {
+          return this.assignServiceTicket(ticket.id, technicianId);
+        }
+      }
+    }
+
+    return ticket;
+  }
+
+  async updateServiceTicket(id: string, ticketData: Partial<InsertServiceTicket>, parts?: InsertServiceTicketPart[], userId?: string, statusNote?: Partial<ServiceStatusNote>): Promise<ServiceTicket> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({
+          status: serviceTickets.status,
+          diagnosis: serviceTickets.diagnosis,
+          solution: serviceTickets.solution,
+          intakeChecklist: serviceTickets.intakeChecklist,
+          handoverCheck: serviceTickets.handoverCheck,
+        })
+        .from(serviceTickets)
+        .where(eq(serviceTickets.id, id));
+      const statusChanged = ticketData.status !== undefined && ticketData.status !== current?.status;
+
+      // Devices with an intake checklist leave the shop only through the handover check
+      if (statusChanged && ticketData.status === 'delivered' && current?.intakeChecklist && !current.handoverCheck) {
+        throw new Error('Lakukan pengecekan serah terima sebelum menandai perangkat sudah diambil');
+      }
+      const diagnosisChanged = ticketData.diagnosis !== undefined && (ticketData.diagnosis ?? null) !== (current?.diagnosis ?? null);
+      const solutionChanged = ticketData.solution !== undefined && (ticketData.solution ?? null) !== (current?.solution ?? null);
+
+      const [ticket] = await tx
+        .update(serviceTickets)
+        .set({
+          ...ticketData,
+          ...(statusChanged ? { statusChangedAt: new Date() } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(serviceTickets.id, id))
+        .returning();
+
+      // Keep a history row so status, diagnosis and solution changes remain provable after being overwritten
+      if (current && (statusChanged || diagnosisChanged || solutionChanged || statusNote?.note || statusNote?.photos?.length)) {
+        await tx.insert(serviceStatusHistory).values({
+          serviceTicketId: id,
+          fromStatus: current.status,
+          toStatus: ticket.status || current.status || 'pending',
+          note: statusNote?.note || null,
+          photos: statusNote?.photos ?? [],
+          diagnosis: diagnosisChanged ? ticket.diagnosis : null,
+          solution: solutionChanged ? ticket.solution : null,
+          customerVisible: statusNote?.customerVisible ?? true,
+          changedBy: userId ?? null,
+          clientId: ticket.clientId,
+        });
+      }
+      
+      // Prepare part totals for financial calculations
+      let totalPartsRevenue = 0;
+      let totalPartsHPP = 0;
+      let exemptPartsRevenue = 0; // parts not subject to PPN
+
+      // Parts are held while the ticket is open and drawn from stock once, when it first reaches completed
+      const isFinal = ticket.status === 'completed' || ticket.status === 'delivered';
+      const [consumedMovement] = await tx
+        .select({ id: stockMovements.id })
+        .from(stockMovements)
+        .where(and(
+          eq(stockMovements.referenceId, id),
+          eq(stockMovements.referenceType, 'service'),
+          eq(stockMovements.movementType, 'out')
+        ))
+        .limit(1);
+      const alreadyConsumed = !!consumedMovement;
+
+      let partsToApply = parts && parts.length > 0 ? parts : undefined;
+      if (partsToApply && alreadyConsumed) {
+        const savedParts = await tx
+          .select({ productId: serviceTicketParts.productId, quantity: serviceTicketParts.quantity, unitPrice: serviceTicketParts.unitPrice })
+          .from(serviceTicketParts)
+          .where(eq(serviceTicketParts.serviceTicketId, id));
+        if (servicePartsSignature(savedParts) !== servicePartsSignature(partsToApply)) {
+          throw new Error('Sparepart tidak dapat diubah karena sudah diambil dari stok');
+        }
+        partsToApply = undefined;
+      }
+      if (!partsToApply && isFinal && !alreadyConsumed) {
+        // Completing without a parts list consumes what the ticket already holds
+        const heldParts = await tx
+          .select({
+            productId: serviceTicketParts.productId,
+            quantity: serviceTicketParts.quantity,
+            unitPrice: serviceTicketParts.unitPrice,
+            totalPrice: serviceTicketParts.totalPrice,
+          })
+          .from(serviceTicketParts)
+          .where(eq(serviceTicketParts.serviceTicketId, id));
+        if (heldParts.length > 0) {
+          partsToApply = heldParts.map(part => ({ ...part, serviceTicketId: id }));
+        }
+      }
+
+      if (ticket.status === 'cancelled') {
+        await this.releaseServicePartReservations(tx, id);
+        await this.cancelPendingPartRequests(tx, id);
+      }
+      if (statusChanged && FINAL_SERVICE_STATUSES.includes(coerceServiceStatus(ticket.status))) {
+        await this.supersedeOpenServiceQuotes(tx, id);
+      }
+
+      if (partsToApply) {
+        const released = await this.releaseServicePartReservations(tx, id);
+        const reservedBatchesByProduct = new Map<string, ReservedBatch[]>();
+        for (const reservation of released) {
+          reservedBatchesByProduct.set(reservation.productId, [
+            ...(reservedBatchesByProduct.get(reservation.productId) ?? []),
+            ...reservation.batches,
+          ]);
+        }
+
+        if (isFinal) {
+          await this.assertStockNotFrozen(tx, partsToApply.map(part => part.productId), null);
+        }
+
+        // Clear existing parts
+        await tx.delete(serviceTicketParts).where(eq(serviceTicketParts.serviceTicketId, id));
+        
+        // Add new parts and handle stock based on status
+        for (const part of partsToApply) {
+          // Check if product exists
+          const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
+
+          if (!product) {
+            throw new Error(`Product dengan ID ${part.productId} tidak ditemukan`);
+          }
+
+          // Use product selling price as default for revenue recognition
+          const unitPrice = part.unitPrice || product.sellingPrice || '0';
+          const totalPrice = (parseFloat(unitPrice) * part.quantity).toString();
+
+          const costBasis = Number(
+            product.averageCost ??
+            product.lastPurchasePrice ??
+            0
+          );
+
+          let partCost = costBasis * part.quantity;
+
+          // Insert service ticket part
+          const [savedPart] = await tx.insert(serviceTicketParts).values({
+            serviceTicketId: id,
+            productId: part.productId,
+            quantity: part.quantity,
+            unitPrice: unitPrice,
+            totalPrice: totalPrice,
+            clientId: ticket.clientId,
+          }).returning();
+          
+          // Only update stock and record movement for completed/delivered status
+          if (isFinal) {
+            const currentStock = product.stock || 0;
+            
+            // Check stock for completed services - allow negative stock but warn
+            if (currentStock < part.quantity) {
+              console.warn(`WARNING: Stock ${product.name} tidak cukup. Tersedia: ${currentStock}, Diperlukan: ${part.quantity}. Melanjutkan dengan stock negatif.`);
+              // Don't throw error, just proceed with negative stock
+            }
+            
+            // Update product stock
+            const newStock = currentStock - part.quantity;
+            await tx.update(products)
+              .set({ 
+                stock: newStock,
+                updatedAt: new Date()
+              })
+              .where(eq(products.id, part.productId));
+            await this.adjustLocationStock(tx, part.productId, null, -part.quantity, ticket.clientId);
+
+            // Record stock movement per batch the parts were drawn from
+            const allocations = await this.consumeProductBatches(tx, part.productId, part.quantity, {
+              fallbackCost: costBasis,
+              reservedBatches: reservedBatchesByProduct.get(part.productId),
+              clientId: ticket.clientId,
+            });
+            reservedBatchesByProduct.delete(part.productId);
+
+            partCost = 0;
+            for (const allocation of allocations) {
+              partCost += allocation.quantity * allocation.unitCost;
+
+              await tx.insert(stockMovements).values({
+                productId: part.productId,
+                batchId: allocation.batchId,
+                movementType: 'out',
+                quantity: allocation.quantity,
+                unitCost: allocation.unitCost.toFixed(2),
+                referenceId: id,
+                referenceType: 'service',
+                notes: `Digunakan untuk servis ${ticket.ticketNumber}`,
+                userId: userId || 'a4fb9372-ec01-4825-b035-81de75a18053',
+                clientId: ticket.clientId,
+              });
+            }
+          } else if (ticket.status !== 'cancelled') {
+            await this.reserveServicePart(tx, savedPart, ticket.clientId);
+          }
+
+          totalPartsRevenue += parseFloat(totalPrice); // penjualan parts
+          totalPartsHPP += partCost; // HPP parts
+          if (product.taxExempt) exemptPartsRevenue += parseFloat(totalPrice);
+        }
+
+        // Update ticket with parts cost
+        const currentLaborCost = parseFloat(ticket.laborCost || '0');
+        const newActualCost = (currentLaborCost + totalPartsHPP).toString();
+
+        await tx.update(serviceTickets)
+          .set({
+            partsCost: totalPartsHPP.toString(),
+            actualCost: newActualCost,
+            updatedAt: new Date()
+          })
+          .where(eq(serviceTickets.id, id));
+
+        ticket.partsCost = totalPartsHPP.toString();
+        ticket.actualCost = newActualCost;
+      } else {
+        // When no parts are passed, use existing parts to ensure financial records can be created
+        const existingParts = await tx
+          .select({
+            productId: serviceTicketParts.productId,
+            quantity: serviceTicketParts.quantity,
+            totalPrice: serviceTicketParts.totalPrice,
+          })
+          .from(serviceTicketParts)
+          .where(eq(serviceTicketParts.serviceTicketId, id));
+
+        // Parts already drawn from stock keep the cost of the batches they came from
+        const consumedRows = await tx
+          .select({
+            productId: stockMovements.productId,
+            cost: sql<string>`COALESCE(SUM(${stockMovements.quantity} * ${stockMovements.unitCost}), 0)`,
+          })
+          .from(stockMovements)
+          .where(and(
+            eq(stockMovements.referenceId, id),
+            eq(stockMovements.referenceType, 'service'),
+            eq(stockMovements.movementType, 'out')
+          ))
+          .groupBy(stockMovements.productId);
+        const consumedPartCosts = new Map(consumedRows.map((row) => [row.productId, Number(row.cost)]));
+
+        for (const part of existingParts) {
+          const partRevenue = parseFloat(part.totalPrice || '0');
+          totalPartsRevenue += partRevenue;
+
+          const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
+          if (product) {
+            if (product.taxExempt) exemptPartsRevenue += partRevenue;
+            const costBasis = Number(
+              product.averageCost ??
+              product.lastPurchasePrice ??
+              0
+            );
+            const partCost = costBasis * part.quantity;
+            const consumedCost = consumedPartCosts.get(part.productId);
+            totalPartsHPP += consumedCost ?? partCost;
+            if (consumedCost !== undefined) {
+              // Movements cover every line of this product, count them once
+              consumedPartCosts.set(part.productId, 0);
+            }
+          }
+        }
+
+        // Keep parts cost and actual cost in sync with computed HPP when only existing parts are used
+        const currentLaborCost = parseFloat(ticket.laborCost || '0');
+        const newActualCost = (currentLaborCost + totalPartsHPP).toString();
+
+        await tx.update(serviceTickets)
+          .set({
+            partsCost: totalPartsHPP.toString(),
+            actualCost: newActualCost,
+            updatedAt: new Date()
+          })
+          .where(eq(serviceTickets.id, id));
+
+        ticket.partsCost = totalPartsHPP.toString();
+        ticket.actualCost = newActualCost;
+      }
+      
+      if (ticket && (ticket.status === 'completed' || ticket.status === 'delivered')) {
+        // Journals need a user, so a completed ticket can only be rebooked by a known user
+        if (!userId) throw new Error('Pengguna tidak dikenali');
+
+        // The previous booking is reversed rather than deleted so the change stays visible in the ledger
+        await financeManager.reverseReferenceFinancials(
+          {
+            reference: ticket.id,
+            reason: `Perubahan service ${ticket.ticketNumber}`,
+            userId,
+            journalReferenceTypes: ['service_ticket'],
+            recordReferenceTypes: ['service_labor', 'service_parts', 'service_parts_cost'],
+          },
+          tx,
+        );
+
+        const booking = await financeManager.processServiceTransaction(
+          {
+            ticket: { ...ticket, paymentMethod: (ticket as any)?.paymentMethod || 'cash' },
+            partsCost: totalPartsHPP,
+            partsRevenue: totalPartsRevenue,
+            exemptPartsRevenue,
+            userId,
+          },
+          tx,
+        );
+
+        const taxableAmount = booking.taxableAmount.toFixed(2);
+        const taxAmount = booking.outputTax.toFixed(2);
+        await tx.update(serviceTickets)
+          .set({ taxableAmount, taxAmount, taxInclusive: booking.taxInclusive })
+          .where(eq(serviceTickets.id, id));
+
+        ticket.taxableAmount = taxableAmount;
+        ticket.taxAmount = taxAmount;
+        ticket.taxInclusive = booking.taxInclusive;
+      }
+      
+      return ticket;
+    });
+  }
+
+  async deleteServiceTicket(id: string, userId: string): Promise<void> {
+    return await db.transaction(async (tx) => {
+      // First get the ticket to check if it has financial records
+      const [ticket] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, id));
+      
+      if (ticket) {
+        // A printed certificate is verified against the ticket, so it must not silently stop resolving
+        const [certificate] = await tx
+          .select({ certificateNumber: warrantyCertificates.certificateNumber })
+          .from(warrantyCertificates)
+          .where(eq(warrantyCertificates.serviceTicketId, id))
+          .limit(1);
+        if (certificate) {
+          throw new TransactionValidationError(
+            `Tiket ${ticket.ticketNumber} sudah memiliki sertifikat garansi ${certificate.certificateNumber} dan tidak dapat dihapus; batalkan tiket sebagai gantinya`
+          );
+        }
+
+        // Parts a completed ticket drew from stock go back to the batches they came from, net of any earlier return
+        const consumedRows: Array<{ productId: string; quantity: string | number | null }> = await tx
+          .select({
+            productId: stockMovements.productId,
+            quantity: sql<string>`SUM(CASE WHEN ${stockMovements.movementType} = 'out' THEN ${stockMovements.quantity} ELSE -${stockMovements.quantity} END)`,
+          })
+          .from(stockMovements)
+          .where(and(eq(stockMovements.referenceId, id), eq(stockMovements.referenceType, 'service')))
+          .groupBy(stockMovements.productId);
+        const consumed = consumedRows
+          .map(row => ({ productId: row.productId, quantity: Number(row.quantity || 0) }))
+          .filter(row => row.quantity > 0);
+
+        await this.assertStockNotFrozen(tx, consumed.map(row => row.productId), null);
+        for (const { productId, quantity } of consumed) {
+          await tx
+            .update(products)
+            .set({ stock: sql`${products.stock} + ${quantity}`, updatedAt: new Date() })
+            .where(eq(products.id, productId));
+          await this.adjustLocationStock(tx, productId, null, quantity, ticket.clientId);
+
+          const allocations = await this.restoreProductBatches(tx, productId, quantity, {
+            referenceId: id,
+            fallbackCost: await this.getAveragePurchasePrice(productId, ticket.clientId, tx),
+            clientId: ticket.clientId,
+          });
+          for (const allocation of allocations) {
+            await tx.insert(stockMovements).values({
+              productId,
+              batchId: allocation.batchId,
+              movementType: 'in',
+              quantity: allocation.quantity,
+              unitCost: allocation.unitCost.toFixed(2),
+              referenceId: id,
+              referenceType: 'service',
+              notes: `Dikembalikan dari penghapusan servis ${ticket.ticketNumber}`,
+              userId,
+              clientId: ticket.clientId,
+            });
+          }
+        }
+
+        // Delete related service ticket parts
+        await this.releaseServicePartReservations(tx, id);
+        await tx.delete(serviceTicketParts).where(eq(serviceTicketParts.serviceTicketId, id));
+
+        // The history is kept, detached from the ticket and labelled with its number
+        await tx.insert(serviceStatusHistory).values({
+          serviceTicketId: id,
+          fromStatus: ticket.status,
+          toStatus: ticket.status || 'pending',
+          note: `Tiket ${ticket.ticketNumber} dihapus`,
+          customerVisible: false,
+          changedBy: userId,
+          clientId: ticket.clientId,
+        });
+        await tx
+          .update(serviceStatusHistory)
+          .set({ serviceTicketId: null, ticketNumber: ticket.ticketNumber })
+          .where(eq(serviceStatusHistory.serviceTicketId, id));
+        await tx.delete(serviceQuotes).where(eq(serviceQuotes.serviceTicketId, id));
+        await tx.delete(servicePartRequests).where(eq(servicePartRequests.serviceTicketId, id));
+        
+        // Bookings for the ticket are reversed, never deleted
+        await financeManager.reverseReferenceFinancials(
+          { reference: id, reason: `Service ${ticket.ticketNumber} dihapus`, userId },
+          tx,
+        );
+      }
+      
+      // Delete the service ticket
+      await tx.delete(serviceTickets).where(eq(serviceTickets.id, id));
+    });
+  }
+
+  async cancelServiceTicket(id: string, data: {
+    cancellationFee: string;
+    cancellationReason: string;
+    cancellationType: 'before_completed' | 'after_completed' | 'warranty_refund';
+    userId: string;
+  }): Promise<{ success: boolean; message?: string }> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Get the service ticket
+        const [ticket] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, id));
+        
+        if (!ticket) {
+          return { success: false, message: 'Service ticket not found' };
+        }
+
+        if (ticket.status === 'cancelled') {
+          return { success: false, message: 'Service ticket is already cancelled' };
+        }
+
+        await this.releaseServicePartReservations(tx, id);
+        await this.cancelPendingPartRequests(tx, id);
+        await this.supersedeOpenServiceQuotes(tx, id);
+
+        // Get service ticket parts for stock operations
+        const serviceParts = await tx.select({
+          id: serviceTicketParts.id,
+          productId: serviceTicketParts.productId,
+          quantity: serviceTicketParts.quantity,
+          unitPrice: serviceTicketParts.unitPrice,
+          productName: products.name
+        })
+        .from(serviceTicketParts)
+        .innerJoin(products, eq(serviceTicketParts.productId, products.id))
+        .where(eq(serviceTicketParts.serviceTicketId, id));
+
+        const now = getCurrentJakartaTime();
+        
+        // Validasi biaya cancel harus lebih dari 0
+        if (!data.cancellationFee || isNaN(Number(data.cancellationFee)) || Number(data.cancellationFee) <= 0) {
+          return { success: false, message: 'Biaya cancel harus diisi dan lebih dari 0' };
+        }
+
+        // Update service ticket dengan data pembatalan
+        await tx.update(serviceTickets).set({
+          status: 'cancelled',
+          cancellationFee: data.cancellationFee,
+          cancellationReason: data.cancellationReason,
+          cancellationType: data.cancellationType,
+          cancelledAt: now,
+          cancelledBy: data.userId,
+          statusChangedAt: now,
+          updatedAt: now
+        }).where(eq(serviceTickets.id, id));
+
+        await tx.insert(serviceStatusHistory).values({
+          serviceTicketId: id,
+          fromStatus: ticket.status,
+          toStatus: 'cancelled',
+          note: data.cancellationReason,
+          changedBy: data.userId,
+          clientId: ticket.clientId,
+        });
+
+        // Import finance manager for accounting
+        const { financeManager } = await import('./financeManager');
+
+        // Handle different cancellation scenarios
+        switch (data.cancellationType) {
+          case 'before_completed':
+            // Scenario 1: Cancel Before Completed
+            const beforeResult = await financeManager.recordServiceCancellationBeforeCompleted(
+              id,
+              data.cancellationFee,
+              data.cancellationReason,
+              data.userId,
+              tx
+            );
+            
+            if (!beforeResult.success) {
+              return { success: false, message: beforeResult.error };
+            }
+            break;
+
+          case 'after_completed':
+            // Scenario 2: Cancel After Completed
+            // Return parts to stock and reverse stock movements
+            await this.assertStockNotFrozen(tx, serviceParts.map(part => part.productId), null);
+            const returnedPartCosts = new Map<string, number>();
+            for (const part of serviceParts) {
+              // Get current product stock
+              const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
+              if (product) {
+                // Return parts to stock
+                const newStock = (product.stock || 0) + part.quantity;
+                await tx.update(products).set({
+                  stock: newStock,
+                  updatedAt: now
+                }).where(eq(products.id, part.productId));
+                await this.adjustLocationStock(tx, part.productId, null, part.quantity, ticket.clientId);
+
+                // Get cost basis for proper stock movement tracking
+                const avgCost = await this.getAveragePurchasePrice(part.productId);
+
+                // Return the parts to the batches they were drawn from
+                const allocations = await this.restoreProductBatches(tx, part.productId, part.quantity, {
+                  referenceId: id,
+                  fallbackCost: avgCost,
+                  clientId: ticket.clientId,
+                });
+
+                let returnedCost = 0;
+                for (const allocation of allocations) {
+                  returnedCost += allocation.quantity * allocation.unitCost;
+
+                  // Record stock movement for return with cost
+                  await tx.insert(stockMovements).values({
+                    productId: part.productId,
+                    batchId: allocation.batchId,
+                    movementType: 'in',
+                    quantity: allocation.quantity,
+                    unitCost: allocation.unitCost.toFixed(2),
+                    referenceId: id,
+                    referenceType: 'service',
+                    notes: `Dikembalikan dari pembatalan servis ${ticket.ticketNumber}`,
+                    userId: data.userId,
+                    clientId: ticket.clientId,
+                  });
+                }
+                returnedPartCosts.set(part.id, part.quantity > 0 ? returnedCost / part.quantity : avgCost);
+              }
+            }
+
+            // Record financial transactions with cost basis
+            const partsForFinance = [];
+            for (const part of serviceParts) {
+              const unitCost = returnedPartCosts.get(part.id) ?? await this.getAveragePurchasePrice(part.productId);
+              partsForFinance.push({
+                name: part.productName,
+                quantity: part.quantity,
+                sellingPrice: part.unitPrice,
+                costPrice: unitCost.toString()
+              });
+            }
+
+            const afterResult = await financeManager.recordServiceCancellationAfterCompleted(
+              id,
+              data.cancellationFee,
+              data.cancellationReason,
+              partsForFinance,
+              data.userId,
+              tx
+            );
+            
+            if (!afterResult.success) {
+              return { success: false, message: afterResult.error };
+            }
+            break;
+
+          case 'warranty_refund':
+            // Scenario 3: Cancel Warranty Service (Full Refund)
+            for (const part of serviceParts) {
+              const [product] = await tx.select().from(products).where(eq(products.id, part.productId));
+              if (product) {
+                // Jika barang garansi kondisi normal, masuk ke stok normal
+                const newStock = (product.stock || 0) + part.quantity;
+                await tx.update(products).set({
+                  stock: newStock,
+                  updatedAt: now
+                }).where(eq(products.id, part.productId));
+
+                // Catat pergerakan stok masuk (warranty_return)
+                const avgCost = await this.getAveragePurchasePrice(part.productId);
+                await tx.insert(stockMovements).values({
+                  productId: part.productId,
+                  movementType: 'in',
+                  quantity: part.quantity,
+                  unitCost: avgCost.toString(),
+                  referenceId: id,
+                  referenceType: 'warranty_return',
+                  notes: `Retur garansi - kondisi barang normal, dapat dijual kembali. ${ticket.ticketNumber}`,
+                  userId: data.userId,
+                  clientId: ticket.clientId,
+                });
+
+                // Setelah barang diambil/tukar untuk klaim, kurangi stok normal
+                const afterExchangeStock = newStock - part.quantity;
+                await tx.update(products).set({
+                  stock: afterExchangeStock,
+                  updatedAt: now
+                }).where(eq(products.id, part.productId));
+
+                // Catat pergerakan stok keluar (warranty_exchange)
+                await tx.insert(stockMovements).values({
+                  productId: part.productId,
+                  movementType: 'out',
+                  quantity: part.quantity,
+                  unitCost: avgCost.toString(),
+                  referenceId: id,
+                  referenceType: 'warranty_exchange',
+                  notes: `Barang diambil/tukar untuk klaim garansi. ${ticket.ticketNumber}`,
+                  userId: data.userId,
+                  clientId: ticket.clientId,
+                });
+              }
+            }
+
+            // Siapkan data parts untuk finance
+            const partsForWarrantyFinance: Array<{ name: string; quantity: number; sellingPrice: string; costPrice: string }> = [];
+            for (const part of serviceParts as Array<{ productName: string; quantity: number; unitPrice: string; productId: string }>) {
+              const avgCost = await this.getAveragePurchasePrice(part.productId);
+              partsForWarrantyFinance.push({
+                name: part.productName,
+                quantity: part.quantity,
+                sellingPrice: part.unitPrice,
+                costPrice: avgCost.toString()
+              });
+            }
+
+            // Kirim laborCost dan partsCost yang benar
+            const laborCost = ticket.laborCost || '0';
+            const partsCost = ticket.partsCost || '0';
+
+            // Panggil financeManager untuk catat refund dan reversal
+            const warrantyResult = await financeManager.recordServiceCancellationWarrantyRefund(
+              id,
+              data.cancellationFee,
+              laborCost,
+              partsCost,
+              data.cancellationReason,
+              partsForWarrantyFinance,
+              data.userId,
+              tx
+            );
+            if (!warrantyResult.success) {
+              return { success: false, message: warrantyResult.error };
+            }
+            break;
+
+          default:
+            return { success: false, message: 'Invalid cancellation type' };
+        }
+
+        return { 
+          success: true, 
+          message: `Service ticket cancelled successfully with ${data.cancellationType} scenario` 
+        };
+      });
+    } catch (error) {
+      console.error('Error cancelling service ticket:', error);
+      return { 
+        success: false, 
+        message: `Failed to cancel service ticket: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      };
+    }
+  }
+
+  // Technician job board
+  async getServiceBoard(): Promise<ServiceBoard> {
+    const config = await this.getStoreConfig();
+    const sla = {
+      checkingHours: config?.slaCheckingHours ?? 24,
+      waitingPartsHours: config?.slaWaitingPartsHours ?? 72,
+    };
+    const slaHours = { slaCheckingHours: sla.checkingHours, slaWaitingPartsHours: sla.waitingPartsHours };
+
+    // Closed tickets stay on the board for a week so the last columns are not empty
+    const recentCutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .select({
+        id: serviceTickets.id,
+        ticketNumber: serviceTickets.ticketNumber,
+        status: serviceTickets.status,
+        customerName: customers.name,
+        deviceType: serviceTickets.deviceType,
+        deviceBrand: serviceTickets.deviceBrand,
+        deviceModel: serviceTickets.deviceModel,
+        problem: serviceTickets.problem,
+        technicianId: serviceTickets.technicianId,
+        technicianFirstName: users.firstName,
+        technicianLastName: users.lastName,
+        technicianUsername: users.username,
+        estimatedCompletion: serviceTickets.estimatedCompletion,
+        statusChangedAt: serviceTickets.statusChangedAt,
+        createdAt: serviceTickets.createdAt,
+        updatedAt: serviceTickets.updatedAt,
+      })
+      .from(serviceTickets)
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .leftJoin(users, eq(serviceTickets.technicianId, users.id))
+      .where(and(
+        or(
+          sql`${serviceTickets.status} NOT IN ('delivered', 'cancelled')`,
+          gte(serviceTickets.updatedAt, recentCutoff),
+        ),
+        clientId ? eq(serviceTickets.clientId, clientId) : undefined,
+      ))
+      .orderBy(asc(serviceTickets.createdAt));
+
+    const now = Date.now();
+    const tickets: ServiceBoardTicket[] = rows.map(row => {
+      const status = coerceServiceStatus(row.status);
+      const since = row.statusChangedAt ?? row.updatedAt ?? row.createdAt;
+      const hoursInStatus = since ? (now - new Date(since).getTime()) / 3600000 : 0;
+      const setting = SLA_STATUS_SETTINGS[status];
+      const slaLimitHours = setting ? slaHours[setting] : null;
+
+      return {
+        id: row.id,
+        ticketNumber: row.ticketNumber,
+        status,
+        customerName: row.customerName ?? null,
+        deviceType: row.deviceType,
+        deviceBrand: row.deviceBrand,
+        deviceModel: row.deviceModel,
+        problem: row.problem,
+        technicianId: row.technicianId,
+        technicianName: row.technicianId
+          ? [row.technicianFirstName, row.technicianLastName].filter(Boolean).join(' ') || row.technicianUsername || null
+          : null,
+        estimatedCompletion: row.estimatedCompletion,
+        statusChangedAt: since,
+        createdAt: row.createdAt,
+        hoursInStatus: Math.round(hoursInStatus * 10) / 10,
+        slaLimitHours,
+        slaBreached: slaLimitHours !== null && hoursInStatus > slaLimitHours,
+      };
+    });
+
+    const technicians = await this.getTechnicianWorkloads();
+    const breachedByTechnician = new Map<string, number>();
+    tickets.forEach(ticket => {
+      if (ticket.slaBreached && ticket.technicianId) {
+        breachedByTechnician.set(ticket.technicianId, (breachedByTechnician.get(ticket.technicianId) ?? 0) + 1);
+      }
+    });
+
+    return {
+      tickets,
+      technicians: technicians.map(technician => ({
+        ...technician,
+        breachedTickets: breachedByTechnician.get(technician.technicianId) ?? 0,
+      })),
+      sla,
+      generatedAt: new Date(),
+    };
+  }
+
+  async getTechnicianWorkloads(): Promise<TechnicianWorkload[]> {
+    const clientId = this.resolveClientId();
+    const technicianConditions: SQL[] = [eq(users.role, 'teknisi'), eq(users.isActive, true)];
+    if (clientId) technicianConditions.push(eq(users.clientId, clientId));
+
+    const technicians = await db
+      .select({ id: users.id, firstName: users.firstName, lastName: users.lastName, username: users.username })
+      .from(users)
+      .where(and(...technicianConditions))
+      .orderBy(asc(users.firstName));
+
+    const openCounts = await db
+      .select({ technicianId: serviceTickets.technicianId, openTickets: count() })
+      .from(serviceTickets)
+      .where(and(
+        isNotNull(serviceTickets.technicianId),
+        sql`${serviceTickets.status} NOT IN (${sql.join(FINAL_SERVICE_STATUSES.map(status => sql`${status}`), sql`, `)})`,
+        clientId ? eq(serviceTickets.clientId, clientId) : undefined,
+      ))
+      .groupBy(serviceTickets.technicianId);
+    const openByTechnician = new Map(openCounts.map(row => [row.technicianId, Number(row.openTickets)]));
+
+    return technicians.map(technician => ({
+      technicianId: technician.id,
+      name: [technician.firstName, technician.lastName].filter(Boolean).join(' ') || technician.username || technician.id,
+      openTickets: openByTechnician.get(technician.id) ?? 0,
+      breachedTickets: 0,
+    }));
+  }
+
+  // Fewest open tickets wins; ties go to the technician listed first
+  private async pickLeastLoadedTechnician(): Promise<string | undefined> {
+    const workloads = await this.getTechnicianWorkloads();
+    const [leastLoaded] = [...workloads].sort((a, b) => a.openTickets - b.openTickets);
+    return leastLoaded?.technicianId;
+  }
+
+  async assignServiceTicket(id: string, technicianId: string | null): Promise<ServiceTicket> {
+    const [ticket] = await db
+      .update(serviceTickets)
+      .set({ technicianId, updatedAt: new Date() })
+      .where(eq(serviceTickets.id, id))
+      .returning();
+
+    if (!ticket) {
+      throw new Error('Tiket servis tidak ditemukan');
+    }
+
+    return ticket;
+  }
+
+  async autoAssignServiceTicket(id: string): Promise<ServiceTicket> {
+    const technicianId = await this.pickLeastLoadedTechnician();
+    if (!technicianId) {
+      throw new Error('Belum ada teknisi aktif untuk ditugaskan');
+    }
+
+    return this.assignServiceTicket(id, technicianId);
+  }
+
+  async getServiceStatusHistory(serviceTicketId: string, options: { customerVisibleOnly?: boolean } = {}): Promise<ServiceStatusHistoryEntry[]> {
+    const conditions: SQL[] = [eq(serviceStatusHistory.serviceTicketId, serviceTicketId)];
+    if (options.customerVisibleOnly) {
+      conditions.push(eq(serviceStatusHistory.customerVisible, true));
+    }
+
+    const rows = await db
+      .select({
+        entry: serviceStatusHistory,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        username: users.username,
+      })
+      .from(serviceStatusHistory)
+      .leftJoin(users, eq(serviceStatusHistory.changedBy, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(serviceStatusHistory.createdAt));
+
+    return rows.map(row => ({
+      ...row.entry,
+      photos: row.entry.photos ?? [],
+      changedByName: row.entry.changedBy
+        ? [row.firstName, row.lastName].filter(Boolean).join(' ') || row.username || null
+        : null,
+    }));
+  }
+
+  // A progress note or photo on the current step, without changing the status
+  async addServiceStatusNote(serviceTicketId: string, note: ServiceStatusNote, userId?: string): Promise<ServiceStatusHistory> {
+    const ticket = await this.getServiceTicketById(serviceTicketId);
+    if (!ticket) {
+      throw new Error('Tiket servis tidak ditemukan');
+    }
+
+    const status = ticket.status || 'pending';
+    const [entry] = await db.insert(serviceStatusHistory).values({
+      serviceTicketId,
+      fromStatus: status,
+      toStatus: status,
+      note: note.note || null,
+      photos: note.photos,
+      customerVisible: note.customerVisible,
+      changedBy: userId ?? null,
+      clientId: ticket.clientId,
+    }).returning();
+
+    return entry;
+  }
+
+  async saveServiceIntakeSignature(serviceTicketId: string, signature: string): Promise<ServiceTicket> {
+    const [ticket] = await db
+      .update(serviceTickets)
+      .set({ intakeSignature: signature, updatedAt: new Date() })
+      .where(eq(serviceTickets.id, serviceTicketId))
+      .returning();
+    if (!ticket) {
+      throw new Error('Tiket servis tidak ditemukan');
+    }
+    return ticket;
+  }
+
+  // Pickup: the returned accessories are compared with the intake checklist before the ticket becomes delivered
+  async handOverServiceTicket(serviceTicketId: string, check: ServiceHandoverCheck, userId?: string): Promise<ServiceTicket> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, serviceTicketId));
+      if (!current) {
+        throw new Error('Tiket servis tidak ditemukan');
+      }
+      if (current.status !== 'completed') {
+        throw new Error('Hanya tiket berstatus Selesai yang dapat diserahkan ke pelanggan');
+      }
+      if (!check.conditionConfirmed) {
+        throw new Error('Pelanggan harus mengonfirmasi kondisi perangkat sesuai tanda terima');
+      }
+
+      const missing = findMissingAccessories(current.intakeChecklist as ServiceIntakeChecklist | null, check);
+      if (missing.length > 0 && !check.acceptMissing) {
+        throw new Error(`Kelengkapan belum kembali: ${missing.join(', ')}`);
+      }
+
+      // Warranty runs from pickup, as when the ticket form marks it delivered
+      const now = new Date();
+      const warrantyDays = current.warrantyDuration ?? 0;
+      const warranty = warrantyDays > 0
+        ? {
+            warrantyStartDate: now,
+            warrantyEndDate: warrantyDays >= 9999 ? null : new Date(now.getTime() + warrantyDays * 24 * 60 * 60 * 1000),
+          }
+        : {};
+
+      const [ticket] = await tx
+        .update(serviceTickets)
+        .set({
+          status: 'delivered',
+          ...warranty,
+          handoverCheck: {
+            accessories: check.accessories,
+            conditionConfirmed: check.conditionConfirmed,
+            missing,
+            note: check.note || null,
+            checkedBy: userId ?? null,
+            checkedAt: now.toISOString(),
+          },
+          statusChangedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(serviceTickets.id, serviceTicketId))
+        .returning();
+
+      const summary = missing.length > 0
+        ? `Diserahkan tanpa: ${missing.join(', ')}`
+        : 'Diserahkan dengan kelengkapan sesuai tanda terima';
+      await tx.insert(serviceStatusHistory).values({
+        serviceTicketId,
+        fromStatus: current.status,
+        toStatus: 'delivered',
+        note: check.note ? `${summary}. ${check.note}` : summary,
+        changedBy: userId ?? null,
+        clientId: current.clientId,
+      });
+
+      return ticket;
+    });
+  }
+
+  async getServicePartAllocations(): Promise<ServicePartAllocation[]> {
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .select({
+        partId: serviceTicketParts.id,
+        serviceTicketId: serviceTicketParts.serviceTicketId,
+        ticketNumber: serviceTickets.ticketNumber,
+        ticketStatus: serviceTickets.status,
+        customerName: customers.name,
+        productId: serviceTicketParts.productId,
+        productName: products.name,
+        sku: products.sku,
+        reservedQuantity: serviceTicketParts.reservedQuantity,
+        stock: products.stock,
+        reservedStock: products.reservedStock,
+        reservedAt: serviceTicketParts.createdAt,
+      })
+      .from(serviceTicketParts)
+      .innerJoin(serviceTickets, eq(serviceTicketParts.serviceTicketId, serviceTickets.id))
+      .innerJoin(products, eq(serviceTicketParts.productId, products.id))
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .where(and(
+        gt(serviceTicketParts.reservedQuantity, 0),
+        clientId ? eq(serviceTicketParts.clientId, clientId) : undefined,
+      ))
+      .orderBy(asc(products.name), asc(serviceTicketParts.createdAt));
+
+    return rows.map(row => ({
+      ...row,
+      reservedQuantity: row.reservedQuantity ?? 0,
+      stock: row.stock ?? 0,
+      reservedStock: row.reservedStock ?? 0,
+    }));
+  }
+
+  // Holds stock for a part on an open ticket, batch by batch in FIFO order; stock beyond the batches is held on the product only
+  private async reserveServicePart(
+    tx: any,
+    part: { id: string; productId: string; quantity: number },
+    clientId?: string | null,
+  ): Promise<void> {
+    const batchConditions = [
+      eq(productBatches.productId, part.productId),
+      eq(productBatches.status, 'active'),
+      sql`${productBatches.currentQuantity} > COALESCE(${productBatches.reservedQuantity}, 0)`,
+    ];
+    if (clientId) {
+      batchConditions.push(eq(productBatches.clientId, clientId));
+    }
+
+    const batches: Array<{ id: string; currentQuantity: number; reservedQuantity: number | null }> = await tx
+      .select({
+        id: productBatches.id,
+        currentQuantity: productBatches.currentQuantity,
+        reservedQuantity: productBatches.reservedQuantity,
+      })
+      .from(productBatches)
+      .where(and(...batchConditions))
+      .orderBy(asc(productBatches.receivedDate), asc(productBatches.createdAt))
+      .for('update');
+
+    const reservedBatches: ReservedBatch[] = [];
+    let remaining = part.quantity;
+    for (const batch of batches) {
+      if (remaining <= 0) break;
+      const amount = Math.min(remaining, batch.currentQuantity - Number(batch.reservedQuantity ?? 0));
+      if (amount <= 0) continue;
+
+      await tx
+        .update(productBatches)
+        .set({ reservedQuantity: sql`COALESCE(${productBatches.reservedQuantity}, 0) + ${amount}`, updatedAt: new Date() })
+        .where(eq(productBatches.id, batch.id));
+      reservedBatches.push({ batchId: batch.id, quantity: amount });
+      remaining -= amount;
+    }
+
+    await this.changeReservedStock(tx, [{ productId: part.productId, quantity: part.quantity, unitPrice: '0' }], 1);
+    await tx
+      .update(serviceTicketParts)
+      .set({ reservedQuantity: part.quantity, reservedBatches })
+      .where(eq(serviceTicketParts.id, part.id));
+  }
+
+  // Gives back the stock held for a ticket's parts and returns what was held, so consumption can draw from the same batches
+  private async releaseServicePartReservations(
+    tx: any,
+    serviceTicketId: string,
+  ): Promise<Array<{ productId: string; quantity: number; batches: ReservedBatch[] }>> {
+    const reserved: Array<{ productId: string; quantity: number; batches: ReservedBatch[] | null }> = await tx
+      .select({
+        productId: serviceTicketParts.productId,
+        quantity: serviceTicketParts.reservedQuantity,
+        batches: serviceTicketParts.reservedBatches,
+      })
+      .from(serviceTicketParts)
+      .where(and(
+        eq(serviceTicketParts.serviceTicketId, serviceTicketId),
+        gt(serviceTicketParts.reservedQuantity, 0),
+      ));
+
+    if (reserved.length === 0) {
+      return [];
+    }
+
+    await this.changeReservedStock(tx, reserved.map(part => ({
+      productId: part.productId,
+      quantity: part.quantity,
+      unitPrice: '0',
+    })), -1);
+
+    for (const part of reserved) {
+      for (const batch of part.batches ?? []) {
+        await tx
+          .update(productBatches)
+          .set({
+            reservedQuantity: sql`GREATEST(COALESCE(${productBatches.reservedQuantity}, 0) - ${batch.quantity}, 0)`,
+            updatedAt: new Date(),
+          })
+          .where(eq(productBatches.id, batch.batchId));
+      }
+    }
+
+    await tx
+      .update(serviceTicketParts)
+      .set({ reservedQuantity: 0, reservedBatches: null })
+      .where(eq(serviceTicketParts.serviceTicketId, serviceTicketId));
+
+    return reserved.map(part => ({ productId: part.productId, quantity: part.quantity, batches: part.batches ?? [] }));
+  }
+
+  // Service Quotes
+  async getServiceQuotes(serviceTicketId: string): Promise<ServiceQuote[]> {
+    return await db
+      .select()
+      .from(serviceQuotes)
+      .where(eq(serviceQuotes.serviceTicketId, serviceTicketId))
+      .orderBy(desc(serviceQuotes.createdAt));
+  }
+
+  async getServiceQuoteById(id: string): Promise<ServiceQuote | undefined> {
+    const [quote] = await db.select().from(serviceQuotes).where(eq(serviceQuotes.id, id));
+    return quote;
+  }
+
+  async getServiceQuoteByToken(token: string): Promise<PublicServiceQuote | undefined> {
+    const [row] = await db
+      .select({
+        quote: serviceQuotes,
+        ticketNumber: serviceTickets.ticketNumber,
+        customerName: customers.name,
+        deviceType: serviceTickets.deviceType,
+        deviceBrand: serviceTickets.deviceBrand,
+        deviceModel: serviceTickets.deviceModel,
+        problem: serviceTickets.problem,
+        diagnosis: serviceTickets.diagnosis,
+        status: serviceTickets.status,
+      })
+      .from(serviceQuotes)
+      .innerJoin(serviceTickets, eq(serviceQuotes.serviceTicketId, serviceTickets.id))
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .where(eq(serviceQuotes.token, token));
+
+    if (!row) {
+      return undefined;
+    }
+
+    const { quote, ...ticket } = row;
+    return { quote, ticket };
+  }
+
+  // Issuing a quote replaces any still-open one and puts the ticket in waiting-confirmation
+  async createServiceQuote(serviceTicketId: string, input: CreateServiceQuoteInput, userId?: string): Promise<ServiceQuote> {
+    return await db.transaction(async (tx) => {
+      const [ticket] = await tx.select().from(serviceTickets).where(eq(serviceTickets.id, serviceTicketId));
+      if (!ticket) {
+        throw new Error('Tiket servis tidak ditemukan');
+      }
+      if (FINAL_SERVICE_STATUSES.includes(coerceServiceStatus(ticket.status))) {
+        throw new Error('Penawaran tidak dapat dibuat untuk servis yang sudah selesai atau dibatalkan');
+      }
+
+      const items: ServiceQuoteItem[] = [];
+      let exemptPartsTotal = 0;
+      for (const item of input.items) {
+        const [product] = await tx.select().from(products).where(eq(products.id, item.productId));
+        if (!product) {
+          throw new Error(`Product dengan ID ${item.productId} tidak ditemukan`);
+        }
+        const unitPrice = Number(item.unitPrice) > 0 ? Number(item.unitPrice) : Number(product.sellingPrice || 0);
+        if (product.taxExempt) exemptPartsTotal += unitPrice * item.quantity;
+        items.push({
+          productId: product.id,
+          productName: product.name,
+          quantity: item.quantity,
+          unitPrice: unitPrice.toFixed(2),
+          totalPrice: (unitPrice * item.quantity).toFixed(2),
+        });
+      }
+
+      const partsTotal = items.reduce((total, item) => total + Number(item.totalPrice), 0);
+      const laborCost = Number(input.laborCost || 0);
+      // The customer approves the amount they will pay, so PPN added on top is part of the total
+      const taxSettings = await financeManager.getServiceTaxSettings(ticket.clientId, tx);
+      const serviceTax = calculateServiceTax({
+        laborCost,
+        partsRevenue: partsTotal,
+        exemptPartsRevenue: exemptPartsTotal,
+        ratePercent: taxSettings.taxRate,
+        inclusive: taxSettings.inclusive,
+      });
+      const totalAmount = serviceTax.total;
+      const now = new Date();
+
+      await tx
+        .update(serviceQuotes)
+        .set({ status: 'superseded', updatedAt: now })
+        .where(and(eq(serviceQuotes.serviceTicketId, serviceTicketId), eq(serviceQuotes.status, 'sent')));
+
+      const [quote] = await tx.insert(serviceQuotes).values({
+        serviceTicketId,
+        quoteNumber: `QUO-${Date.now()}`,
+        status: 'sent',
+        items,
+        partsTotal: partsTotal.toFixed(2),
+        laborCost: laborCost.toFixed(2),
+        taxAmount: serviceTax.taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        notes: input.notes || null,
+        token: randomBytes(24).toString('hex'),
+        validUntil: new Date(now.getTime() + input.validDays * 24 * 60 * 60 * 1000),
+        createdBy: userId ?? null,
+        clientId: ticket.clientId,
+      }).returning();
+
+      const statusChanged = ticket.status !== 'waiting-confirmation';
+      await tx.update(serviceTickets).set({
+        status: 'waiting-confirmation',
+        estimatedCost: totalAmount.toFixed(2),
+        ...(statusChanged ? { statusChangedAt: now } : {}),
+        updatedAt: now,
+      }).where(eq(serviceTickets.id, serviceTicketId));
+
+      await tx.insert(serviceStatusHistory).values({
+        serviceTicketId,
+        fromStatus: ticket.status,
+        toStatus: 'waiting-confirmation',
+        note: `Penawaran ${quote.quoteNumber} dibuat, total ${totalAmount.toLocaleString('id-ID')}`,
+        changedBy: userId ?? null,
+        clientId: ticket.clientId,
+      });
+
+      return quote;
+    });
+  }
+
+  // A quote still awaiting an answer must not be approvable once the ticket is closed
+  private async supersedeOpenServiceQuotes(tx: any, serviceTicketId: string): Promise<void> {
+    await tx
+      .update(serviceQuotes)
+      .set({ status: 'superseded', updatedAt: new Date() })
+      .where(and(eq(serviceQuotes.serviceTicketId, serviceTicketId), eq(serviceQuotes.status, 'sent')));
+  }
+
+  async markServiceQuoteSent(id: string): Promise<ServiceQuote> {
+    const [quote] = await db
+      .update(serviceQuotes)
+      .set({ sentAt: new Date(), updatedAt: new Date() })
+      .where(eq(serviceQuotes.id, id))
+      .returning();
+
+    if (!quote) {
+      throw new Error('Penawaran tidak ditemukan');
+    }
+
+    return quote;
+  }
+
+  // The customer's decision from the public link; approval starts the repair and reserves the quoted parts
+  async respondToServiceQuote(
+    token: string,
+    decision: 'approved' | 'rejected',
+    response: { note?: string; ipAddress?: string | null },
+  ): Promise<ServiceQuote> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(serviceQuotes).where(eq(serviceQuotes.token, token));
+      if (!current) {
+        throw new TransactionValidationError('Penawaran tidak ditemukan');
+      }
+
+      // Lock the ticket so a concurrent completion or cancellation is seen before the repair is restarted
+      const [ticket] = await tx
+        .select()
+        .from(serviceTickets)
+        .where(eq(serviceTickets.id, current.serviceTicketId))
+        .for('update');
+
+      if (current.status !== 'sent') {
+        throw new TransactionValidationError(current.status === 'superseded'
+          ? 'Penawaran ini sudah diganti dengan penawaran baru'
+          : 'Penawaran ini sudah dijawab sebelumnya');
+      }
+      if (current.validUntil && new Date(current.validUntil) < new Date()) {
+        throw new TransactionValidationError('Masa berlaku penawaran sudah habis, silakan hubungi toko');
+      }
+      if (decision === 'approved' && ticket && FINAL_SERVICE_STATUSES.includes(coerceServiceStatus(ticket.status))) {
+        throw new TransactionValidationError('Tiket servis sudah selesai atau dibatalkan, penawaran tidak dapat disetujui');
+      }
+
+      const now = new Date();
+      const [quote] = await tx
+        .update(serviceQuotes)
+        .set({
+          status: decision,
+          respondedAt: now,
+          responseNote: response.note || null,
+          responseIp: response.ipAddress ?? null,
+          updatedAt: now,
+        })
+        .where(and(eq(serviceQuotes.id, current.id), eq(serviceQuotes.status, 'sent')))
+        .returning();
+      if (!quote) {
+        throw new TransactionValidationError('Penawaran ini sudah dijawab sebelumnya');
+      }
+
+      const decisionLabel = decision === 'approved' ? 'disetujui' : 'ditolak';
+      const note = `Penawaran ${quote.quoteNumber} ${decisionLabel} pelanggan${response.note ? `: ${response.note}` : ''}`;
+
+      if (decision === 'rejected' || !ticket) {
+        if (ticket) {
+          await tx.insert(serviceStatusHistory).values({
+            serviceTicketId: ticket.id,
+            fromStatus: ticket.status,
+            toStatus: ticket.status || 'waiting-confirmation',
+            note,
+            clientId: ticket.clientId,
+          });
+        }
+        return quote;
+      }
+
+      // Quoted parts replace the ticket's parts and are held until the repair completes
+      const items = quote.items as ServiceQuoteItem[];
+      await this.releaseServicePartReservations(tx, ticket.id);
+      await tx.delete(serviceTicketParts).where(eq(serviceTicketParts.serviceTicketId, ticket.id));
+      for (const item of items) {
+        const [part] = await tx.insert(serviceTicketParts).values({
+          serviceTicketId: ticket.id,
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+          clientId: ticket.clientId,
+        }).returning();
+        await this.reserveServicePart(tx, part, ticket.clientId);
+      }
+
+      await tx.update(serviceTickets).set({
+        status: 'in-progress',
+        laborCost: quote.laborCost,
+        estimatedCost: quote.totalAmount,
+        statusChangedAt: now,
+        updatedAt: now,
+      }).where(eq(serviceTickets.id, ticket.id));
+
+      await tx.insert(serviceStatusHistory).values({
+        serviceTicketId: ticket.id,
+        fromStatus: ticket.status,
+        toStatus: 'in-progress',
+        note,
+        clientId: ticket.clientId,
+      });
+
+      return quote;
+    });
+  }
+
+  // Service Part Requests
+  async getServicePartRequests(filters?: { serviceTicketId?: string; status?: string }): Promise<ServicePartRequestDetail[]> {
+    const clientId = this.resolveClientId();
+    const conditions: SQL[] = [];
+    if (clientId) conditions.push(eq(servicePartRequests.clientId, clientId));
+    if (filters?.serviceTicketId) conditions.push(eq(servicePartRequests.serviceTicketId, filters.serviceTicketId));
+    if (filters?.status) conditions.push(eq(servicePartRequests.status, filters.status));
+
+    const rows = await db
+      .select({
+        request: servicePartRequests,
+        ticketNumber: serviceTickets.ticketNumber,
+        ticketStatus: serviceTickets.status,
+        customerName: customers.name,
+        productName: products.name,
+        productSku: products.sku,
+        supplierName: suppliers.name,
+        poNumber: purchaseOrders.poNumber,
+      })
+      .from(servicePartRequests)
+      .innerJoin(serviceTickets, eq(servicePartRequests.serviceTicketId, serviceTickets.id))
+      .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+      .leftJoin(products, eq(servicePartRequests.productId, products.id))
+      .leftJoin(purchaseOrders, eq(servicePartRequests.purchaseOrderId, purchaseOrders.id))
+      .leftJoin(
+        suppliers,
+        sql`${suppliers.id} = COALESCE(${purchaseOrders.supplierId}, ${servicePartRequests.supplierId}, ${products.preferredSupplierId})`
+      )
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(servicePartRequests.createdAt));
+
+    return rows.map(row => ({
+      ...row.request,
+      ticketNumber: row.ticketNumber,
+      ticketStatus: row.ticketStatus,
+      customerName: row.customerName,
+      productName: row.productName,
+      productSku: row.productSku,
+      supplierName: row.supplierName,
+      poNumber: row.poNumber,
+    }));
+  }
+
+  // Records a part the repair is missing and parks the ticket in waiting-parts until it arrives
+  async createServicePartRequest(
+    serviceTicketId: string,
+    input: CreateServicePartRequestInput,
+    userId?: string,
+  ): Promise<{ request: ServicePartRequest; ticket: ServiceTicket; previousStatus: string | null }> {
+    const ticket = await this.getServiceTicketById(serviceTicketId);
+    if (!ticket) {
+      throw new Error('Tiket servis tidak ditemukan');
+    }
+    if (FINAL_SERVICE_STATUSES.includes(coerceServiceStatus(ticket.status))) {
+      throw new Error('Tiket servis sudah selesai atau dibatalkan');
+    }
+
+    let partName = input.description ?? '';
+    if (input.productId) {
+      const [product] = await db.select({ name: products.name }).from(products).where(eq(products.id, input.productId));
+      if (!product) {
+        throw new Error('Produk tidak ditemukan');
+      }
+      partName = product.name;
+    }
+
+    const [request] = await db
+      .insert(servicePartRequests)
+      .values({
+        clientId: ticket.clientId,
+        serviceTicketId,
+        productId: input.productId ?? null,
+        description: input.description ?? null,
+        quantity: input.quantity,
+        supplierId: input.supplierId ?? null,
+        notes: input.notes ?? null,
+        requestedBy: userId ?? null,
+      })
+      .returning();
+
+    const note = `Menunggu sparepart: ${partName} x${input.quantity}`;
+    let updated = ticket;
+    if (ticket.status === 'waiting-parts') {
+      await this.addServiceStatusNote(serviceTicketId, { note, photos: [], customerVisible: true }, userId);
+    } else {
+      updated = await this.updateServiceTicket(serviceTicketId, { status: 'waiting-parts' }, undefined, userId, { note });
+    }
+
+    return { request, ticket: updated, previousStatus: ticket.status };
+  }
+
+  async cancelServicePartRequest(id: string): Promise<ServicePartRequest> {
+    const clientId = this.resolveClientId();
+    const [request] = await db
+      .select()
+      .from(servicePartRequests)
+      .where(and(
+        eq(servicePartRequests.id, id),
+        clientId ? eq(servicePartRequests.clientId, clientId) : undefined
+      ));
+    if (!request) {
+      throw new Error('Permintaan sparepart tidak ditemukan');
+    }
+    if (request.status !== 'pending') {
+      throw new Error('Hanya permintaan yang belum dipesan yang dapat dibatalkan');
+    }
+
+    const [cancelled] = await db
+      .update(servicePartRequests)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(servicePartRequests.id, id), eq(servicePartRequests.status, 'pending')))
+      .returning();
+    if (!cancelled) {
+      throw new Error('Hanya permintaan yang belum dipesan yang dapat dibatalkan');
+    }
+    return cancelled;
+  }
+
+  // Collects pending requests into one draft purchase order per supplier; free-text parts are added to the catalog first
+  async createPurchaseOrdersFromPartRequests(userId: string): Promise<ServicePartOrderResult> {
+    const clientId = this.resolveClientId();
+    return await db.transaction(async (tx) => {
+      const pending = await tx
+        .select({
+          request: servicePartRequests,
+          ticketNumber: serviceTickets.ticketNumber,
+          productName: products.name,
+          productSku: products.sku,
+          unitCost: sql<string | null>`COALESCE(${products.lastPurchasePrice}, ${products.averageCost})`,
+          preferredSupplierId: products.preferredSupplierId,
+        })
+        .from(servicePartRequests)
+        .innerJoin(serviceTickets, eq(servicePartRequests.serviceTicketId, serviceTickets.id))
+        .leftJoin(products, eq(servicePartRequests.productId, products.id))
+        .where(and(
+          eq(servicePartRequests.status, 'pending'),
+          clientId ? eq(servicePartRequests.clientId, clientId) : undefined
+        ))
+        .orderBy(asc(servicePartRequests.createdAt))
+        .for('update', { of: servicePartRequests });
+
+      const skipped: ServicePartOrderResult['skipped'] = [];
+      const bySupplier = new Map<string, typeof pending>();
+      for (const row of pending) {
+        const supplierId = row.request.supplierId
+          ?? row.preferredSupplierId
+          ?? (row.request.productId ? await this.getLastPurchaseSupplierId(tx, row.request.productId) : null);
+        if (!supplierId) {
+          skipped.push({ requestId: row.request.id, ticketNumber: row.ticketNumber, reason: 'Supplier belum ditentukan' });
+          continue;
+        }
+        bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), row]);
+      }
+
+      const orders: PurchaseOrder[] = [];
+      for (const [supplierId, rows] of Array.from(bySupplier)) {
+        // Keep adding to the supplier's open draft instead of starting a new order on every run
+        let [order] = await tx
+          .select()
+          .from(purchaseOrders)
+          .where(and(
+            eq(purchaseOrders.supplierId, supplierId),
+            eq(purchaseOrders.status, 'draft'),
+            clientId ? eq(purchaseOrders.clientId, clientId) : undefined
+          ))
+          .orderBy(desc(purchaseOrders.createdAt))
+          .limit(1);
+
+        if (!order) {
+          const [supplier] = await tx
+            .select({ paymentTerms: suppliers.paymentTerms })
+            .from(suppliers)
+            .where(eq(suppliers.id, supplierId));
+          const [{ total }] = await tx.select({ total: count() }).from(purchaseOrders);
+          [order] = await tx
+            .insert(purchaseOrders)
+            .values({
+              clientId: rows[0].request.clientId,
+              poNumber: `PO-${String(total + 1).padStart(5, '0')}`,
+              supplierId,
+              status: 'draft',
+              subtotal: '0',
+              totalAmount: '0',
+              requestedBy: userId,
+              paymentTerms: supplier?.paymentTerms ?? 30,
+              notes: 'Dibuat dari permintaan sparepart servis',
+            })
+            .returning();
+        }
+
+        for (const row of rows) {
+          let productId = row.request.productId;
+          let productName = row.productName;
+          let productSku = row.productSku;
+          if (!productId) {
+            const [created] = await tx
+              .insert(products)
+              .values({
+                clientId: row.request.clientId,
+                name: row.request.description || 'Sparepart servis',
+                sku: `SP-${Date.now()}-${row.request.id.slice(0, 4)}`,
+                preferredSupplierId: supplierId,
+                notes: `Ditambahkan dari permintaan sparepart tiket ${row.ticketNumber}`,
+              })
+              .returning();
+            productId = created.id;
+            productName = created.name;
+            productSku = created.sku;
+          }
+
+          const [existingItem] = await tx
+            .select()
+            .from(purchaseOrderItems)
+            .where(and(eq(purchaseOrderItems.purchaseOrderId, order.id), eq(purchaseOrderItems.productId, productId)));
+
+          let itemId: string;
+          if (existingItem) {
+            const quantity = existingItem.quantity + row.request.quantity;
+            await tx
+              .update(purchaseOrderItems)
+              .set({
+                quantity,
+                orderedQuantity: quantity,
+                outstandingQuantity: quantity - (existingItem.receivedQuantity || 0),
+                totalCost: String(quantity * parseFloat(existingItem.unitCost || '0')),
+                updatedAt: new Date(),
+              })
+              .where(eq(purchaseOrderItems.id, existingItem.id));
+            itemId = existingItem.id;
+          } else {
+            const unitCost = parseFloat(row.unitCost || '0');
+            const [item] = await tx
+              .insert(purchaseOrderItems)
+              .values({
+                clientId: order.clientId,
+                purchaseOrderId: order.id,
+                productId,
+                quantity: row.request.quantity,
+                orderedQuantity: row.request.quantity,
+                receivedQuantity: 0,
+                outstandingQuantity: row.request.quantity,
+                unitCost: String(unitCost),
+                totalCost: String(row.request.quantity * unitCost),
+                productName,
+                productSku,
+                notes: `Servis ${row.ticketNumber}`,
+              })
+              .returning();
+            itemId = item.id;
+          }
+
+          await tx
+            .update(servicePartRequests)
+            .set({
+              status: 'ordered',
+              productId,
+              purchaseOrderId: order.id,
+              purchaseOrderItemId: itemId,
+              updatedAt: new Date(),
+            })
+            .where(eq(servicePartRequests.id, row.request.id));
+        }
+
+        // Totals are kept here rather than through recalculatePurchaseOrderTotal, which would move the order out of draft
+        const [totals] = await tx
+          .select({
+            total: sql<string>`COALESCE(SUM(${purchaseOrderItems.quantity} * CAST(${purchaseOrderItems.unitCost} AS NUMERIC)), 0)`,
+          })
+          .from(purchaseOrderItems)
+          .where(eq(purchaseOrderItems.purchaseOrderId, order.id));
+
+        const [updatedOrder] = await tx
+          .update(purchaseOrders)
+          .set({ subtotal: String(totals.total), totalAmount: String(totals.total), updatedAt: new Date() })
+          .where(eq(purchaseOrders.id, order.id))
+          .returning();
+        orders.push(updatedOrder);
+      }
+
+      return { purchaseOrders: orders, skipped };
+    });
+  }
+
+  private async getLastPurchaseSupplierId(executor: any, productId: string): Promise<string | null> {
+    const clientId = this.resolveClientId();
+    const [row] = await executor
+      .select({ supplierId: purchaseOrders.supplierId })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(and(
+        eq(purchaseOrderItems.productId, productId),
+        clientId ? eq(purchaseOrders.clientId, clientId) : undefined
+      ))
+      .orderBy(desc(purchaseOrders.createdAt))
+      .limit(1);
+    return row?.supplierId ?? null;
+  }
+
+  private async cancelPendingPartRequests(tx: any, serviceTicketId: string): Promise<void> {
+    await tx
+      .update(servicePartRequests)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(
+        eq(servicePartRequests.serviceTicketId, serviceTicketId),
+        eq(servicePartRequests.status, 'pending')
+      ));
+  }
+
+  // Marks the requests covered by what has been received on a PO item; returns the tickets they belong to
+  private async fulfillServicePartRequests(executor: any, purchaseOrderItemId: string, receivedQuantity: number): Promise<string[]> {
+    const requests = await executor
+      .select()
+      .from(servicePartRequests)
+      .where(and(
+        eq(servicePartRequests.purchaseOrderItemId, purchaseOrderItemId),
+        ne(servicePartRequests.status, 'cancelled')
+      ))
+      .orderBy(asc(servicePartRequests.createdAt));
+
+    // Oldest requests are served first; a request only counts once its whole quantity has arrived
+    const ticketIds = new Set<string>();
+    let covered = 0;
+    for (const request of requests) {
+      covered += request.quantity;
+      if (covered > receivedQuantity) break;
+      if (request.status !== 'ordered') continue;
+
+      await executor
+        .update(servicePartRequests)
+        .set({ status: 'received', receivedAt: new Date(), updatedAt: new Date() })
+        .where(eq(servicePartRequests.id, request.id));
+      ticketIds.add(request.serviceTicketId);
+    }
+
+    return Array.from(ticketIds);
+  }
+
+  // Resumes tickets with nothing left to wait for once their parts have arrived
+  private async resumeServiceTicketsAfterReceipt(ticketIds: string[], userId: string): Promise<ServiceTicket[]> {
+    const resumed: ServiceTicket[] = [];
+    for (const ticketId of ticketIds) {
+      const ticket = await this.getServiceTicketById(ticketId);
+      if (!ticket) continue;
+
+      const [outstanding] = await db
+        .select({ id: servicePartRequests.id })
+        .from(servicePartRequests)
+        .where(and(
+          eq(servicePartRequests.serviceTicketId, ticketId),
+          inArray(servicePartRequests.status, ['pending', 'ordered'])
+        ))
+        .limit(1);
+
+      if (!outstanding && ticket.status === 'waiting-parts') {
+        resumed.push(await this.updateServiceTicket(ticketId, { status: 'in-progress' }, undefined, userId, {
+          note: 'Sparepart sudah diterima, perbaikan dilanjutkan',
+        }));
+      } else {
+        await this.addServiceStatusNote(ticketId, {
+          note: outstanding ? 'Sebagian sparepart sudah diterima dari supplier' : 'Sparepart sudah diterima dari supplier',
+          photos: [],
+          customerVisible: false,
+        }, userId);
+      }
+    }
+
+    return resumed;
+  }
+
+  // Service Ticket Parts
+  async getServiceTicketParts(serviceTicketId: string): Promise<(ServiceTicketPart & { productName: string })[]> {
+    const parts = await db
+      .select({
+        id: serviceTicketParts.id,
+        clientId: serviceTicketParts.clientId,
+        serviceTicketId: serviceTicketParts.serviceTicketId,
+        productId: serviceTicketParts.productId,
+        quantity: serviceTicketParts.quantity,
+        unitPrice: serviceTicketParts.unitPrice,
+        totalPrice: serviceTicketParts.totalPrice,
+        reservedQuantity: serviceTicketParts.reservedQuantity,
+        reservedBatches: serviceTicketParts.reservedBatches,
+        createdAt: serviceTicketParts.createdAt,
+        productName: products.name
+      })
+      .from(serviceTicketParts)
+      .innerJoin(products, eq(serviceTicketParts.productId, products.id))
+      .where(eq(serviceTicketParts.serviceTicketId, serviceTicketId))
+      .orderBy(desc(serviceTicketParts.createdAt));
+    
+    return parts;
+  }
+
+  // Stock Movements
+  async getStockMovements(productId?: string): Promise<StockMovement[]> {
+    const query = db.select().from(stockMovements);
+    
+    if (productId) {
+      return await query.where(eq(stockMovements.productId, productId)).orderBy(desc(stockMovements.createdAt));
+    }
+    
+    return await query.orderBy(desc(stockMovements.createdAt));
+  }
+
+  // Financial Records (delegated to FinanceManager but interface still needed)
+  async getFinancialRecords(startDate?: Date, endDate?: Date): Promise<FinancialRecord[]> {
+    const { financeManager } = await import('./financeManager');
+    return await financeManager.getTransactions({
+      startDate,
+      endDate
+    });
+  }
+
+  async createFinancialRecord(record: InsertFinancialRecord): Promise<FinancialRecord> {
+    const { financeManager } = await import('./financeManager');
+    return await financeManager.createTransaction({
+      type: record.type as 'income' | 'expense' | 'transfer',
+      category: record.category,
+      subcategory: record.subcategory || undefined,
+      amount: record.amount,
+      description: record.description,
+      referenceType: record.referenceType || undefined,
+      reference: record.reference || undefined,
+      paymentMethod: record.paymentMethod || undefined,
+      tags: record.tags || undefined,
+      userId: record.userId
+    });
+  }
+
+  // Dashboard Statistics
+  // Reports
+  async getSalesReport(startDate: Date, endDate: Date): Promise<{
+    totalSales: string;
+    transactions: any[];
+  }> {
+    const [totalResult] = await db
+      .select({ total: sum(transactions.total) })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.type, 'sale'),
+          gte(transactions.createdAt, startDate),
+          lte(transactions.createdAt, endDate)
+        )
+      );
+
+    const transactionList = await db
+      .select()
+      .from(transactions)
+      .leftJoin(customers, eq(transactions.customerId, customers.id))
+      .where(
+        and(
           eq(transactions.type, 'sale'),
           gte(transactions.createdAt, startDate),
           lte(transactions.createdAt, endDate)
         )
+      )
+      .orderBy(desc(transactions.createdAt));
+
+    return {
+      totalSales: totalResult.total || '0',
+      transactions: transactionList.map(t => ({
+        ...t.transactions,
+        customer: t.customers
+      }))
+    };
+  }
+
+  async getServiceReport(startDate: Date, endDate: Date): Promise<{
+    totalServices: number;
+    totalRevenue: string;
+    totalCost: string;
+    totalProfit: string;
+    revenueBreakdown: {
+      laborRevenue: string;
+      partsRevenue: string;
+    };
+    tickets: any[];
+  }> {
+    const clientId = this.resolveClientId();
+    const buildWhere = (conditions: any[]) => {
+      const filtered = conditions.filter(Boolean);
+      if (filtered.length === 0) return undefined;
+      if (filtered.length === 1) return filtered[0];
+      return and(...filtered);
+    };
+    // Use same method as financeManager for consistency
+    try {
+      const { financeManager } = await import('./financeManager');
+      const summary = await financeManager.getSummary(startDate, endDate);
+      
+      // Get service-specific financial data
+      const incomeWhere = buildWhere([
+        eq(financialRecords.type, 'income'),
+        or(
+          eq(financialRecords.referenceType, 'service_labor'),
+          eq(financialRecords.referenceType, 'service_parts_revenue')
+        ),
+        eq(financialRecords.status, 'confirmed'),
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        clientId ? eq(financialRecords.clientId, clientId) : undefined
+      ]);
+
+      const [serviceIncomeResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(incomeWhere ?? undefined);
+
+      const serviceCostWhere = buildWhere([
+        eq(financialRecords.type, 'expense'),
+        or(
+          eq(financialRecords.referenceType, 'service_parts_cost'),
+          eq(financialRecords.referenceType, 'service_cancellation_service_reversal'),
+          eq(financialRecords.referenceType, 'service_cancellation_parts_reversal'),
+          eq(financialRecords.referenceType, 'warranty_labor_reversal'),
+          eq(financialRecords.referenceType, 'warranty_parts_reversal')
+        ),
+        eq(financialRecords.status, 'confirmed'),
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        clientId ? eq(financialRecords.clientId, clientId) : undefined
+      ]);
+
+      const [serviceCostResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(serviceCostWhere ?? undefined);
+
+      // Get labor revenue
+      const laborWhere = buildWhere([
+        eq(financialRecords.type, 'income'),
+        eq(financialRecords.referenceType, 'service_labor'),
+        eq(financialRecords.status, 'confirmed'),
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        clientId ? eq(financialRecords.clientId, clientId) : undefined
+      ]);
+
+      const [laborRevenueResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(laborWhere ?? undefined);
+
+      // Get parts revenue
+      const partsWhere = buildWhere([
+        eq(financialRecords.type, 'income'),
+        eq(financialRecords.referenceType, 'service_parts_revenue'),
+        eq(financialRecords.status, 'confirmed'),
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        clientId ? eq(financialRecords.clientId, clientId) : undefined
+      ]);
+
+      const [partsRevenueResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(partsWhere ?? undefined);
+
+      const [totalResult] = await db
+        .select({ count: count() })
+        .from(serviceTickets)
+        .where(
+          buildWhere([
+            gte(serviceTickets.createdAt, startDate),
+            lte(serviceTickets.createdAt, endDate),
+            clientId ? eq(serviceTickets.clientId, clientId) : undefined
+          ]) ?? undefined
+        );
+
+      const ticketList = await db
+        .select()
+        .from(serviceTickets)
+        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+        .where(
+          buildWhere([
+            gte(serviceTickets.createdAt, startDate),
+            lte(serviceTickets.createdAt, endDate),
+            clientId ? eq(serviceTickets.clientId, clientId) : undefined
+          ]) ?? undefined
+        )
+        .orderBy(desc(serviceTickets.createdAt));
+
+      const totalRevenue = Number(serviceIncomeResult.total || 0);
+      const totalCost = Number(serviceCostResult.total || 0);
+      const totalProfit = totalRevenue - totalCost;
+
+      return {
+        totalServices: totalResult.count,
+        totalRevenue: totalRevenue.toString(),
+        totalCost: totalCost.toString(),
+        totalProfit: totalProfit.toString(),
+        revenueBreakdown: {
+          laborRevenue: (Number(laborRevenueResult.total || 0)).toString(),
+          partsRevenue: (Number(partsRevenueResult.total || 0)).toString(),
+        },
+        tickets: ticketList.map(t => ({
+          ...t.service_tickets,
+          customer: t.customers
+        }))
+      };
+    } catch (error) {
+      console.error("Error getting service report:", error);
+      // Fallback to simple count
+      const [totalResult] = await db
+        .select({ count: count() })
+        .from(serviceTickets)
+        .where(
+          and(
+            gte(serviceTickets.createdAt, startDate),
+            lte(serviceTickets.createdAt, endDate)
+          )
+        );
+
+      return {
+        totalServices: totalResult.count,
+        totalRevenue: "0",
+        totalCost: "0", 
+        totalProfit: "0",
+        revenueBreakdown: {
+          laborRevenue: "0",
+          partsRevenue: "0",
+        },
+        tickets: []
+      };
+    }
+  }
+
+  async getFinancialReport(startDate: Date, endDate: Date): Promise<{
+    totalIncome: string;
+    totalExpense: string;
+    profit: string;
+    netProfit: string;
+    totalSalesRevenue: string;
+    totalCOGS: string;
+    records: any[];
+  }> {
+    const clientId = this.resolveClientId();
+
+    let totalSalesRevenueValue = 0;
+    let totalCOGSValue = 0;
+
+    try {
+      const salesWhere = clientId
+        ? and(
+            eq(transactions.type, 'sale'),
+            gte(transactions.createdAt, startDate),
+            lte(transactions.createdAt, endDate),
+            eq(transactions.clientId, clientId)
+          )
+        : and(
+            eq(transactions.type, 'sale'),
+            gte(transactions.createdAt, startDate),
+            lte(transactions.createdAt, endDate)
+          );
+
+      const [posSummary] = await db
+        .select({
+          totalSales: sql<string>`COALESCE(SUM(${transactionItems.totalPrice}), 0)`,
+          totalCOGS: sql<string>`COALESCE(SUM(${transactionItems.quantity}::numeric * COALESCE(${products.averageCost}, ${products.lastPurchasePrice}, 0)::numeric), 0)`
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .innerJoin(products, eq(transactionItems.productId, products.id))
+        .where(salesWhere);
+
+      if (posSummary) {
+        totalSalesRevenueValue = Number(posSummary.totalSales ?? 0);
+        totalCOGSValue = Number(posSummary.totalCOGS ?? 0);
+      }
+    } catch (error) {
+      console.error("Error calculating POS gross profit from transactions:", error);
+    }
+
+    const grossProfitValue = Number((totalSalesRevenueValue - totalCOGSValue).toFixed(2));
+    const totalSalesRevenue = totalSalesRevenueValue.toString();
+    const totalCOGS = totalCOGSValue.toString();
+    const grossProfit = grossProfitValue.toString();
+
+    try {
+      const { financeManager } = await import('./financeManager');
+
+      const summary = await financeManager.getSummary(startDate, endDate);
+      const records = await financeManager.getTransactions({
+        startDate,
+        endDate
+      });
+
+      const summarySalesRevenueValue = Number(summary.totalSalesRevenue ?? 0);
+      const resolvedSalesRevenueValue =
+        summarySalesRevenueValue !== 0
+          ? summarySalesRevenueValue
+          : totalSalesRevenueValue;
+
+      const summaryCOGSValue = Number(summary.totalCOGS ?? 0);
+      const resolvedCOGSValue =
+        summaryCOGSValue !== 0 ? summaryCOGSValue : totalCOGSValue;
+
+      const fallbackGrossProfitValue = Number(
+        (resolvedSalesRevenueValue - resolvedCOGSValue).toFixed(2)
+      );
+
+      const summaryGrossProfitValue = Number(summary.grossProfit ?? 0);
+      const resolvedGrossProfitValue =
+        summaryGrossProfitValue !== 0
+          ? summaryGrossProfitValue
+          : fallbackGrossProfitValue !== 0
+            ? fallbackGrossProfitValue
+            : summaryGrossProfitValue;
+
+      const summaryNetProfitValue =
+        summary.netProfit != null ? Number(summary.netProfit) : null;
+      const resolvedNetProfitValue =
+        summaryNetProfitValue !== null && summaryNetProfitValue !== 0
+          ? summaryNetProfitValue
+          : summaryGrossProfitValue !== 0
+            ? summaryGrossProfitValue
+            : resolvedGrossProfitValue;
+
+      return {
+        totalIncome: String(summary.totalIncome ?? '0'),
+        totalExpense: String(summary.totalExpense ?? '0'),
+        profit: resolvedGrossProfitValue.toString(),
+        netProfit: resolvedNetProfitValue.toString(),
+        totalSalesRevenue: resolvedSalesRevenueValue.toString(),
+        totalCOGS: resolvedCOGSValue.toString(),
+        records
+      };
+    } catch (error) {
+      console.error("Error getting financial report from finance manager:", error);
+      // Fallback to financial records aggregation
+      const incomeWhere = clientId
+        ? and(
+            eq(financialRecords.type, 'income'),
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed'),
+            eq(financialRecords.clientId, clientId)
+          )
+        : and(
+            eq(financialRecords.type, 'income'),
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed')
+          );
+
+      const expenseWhere = clientId
+        ? and(
+            eq(financialRecords.type, 'expense'),
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed'),
+            eq(financialRecords.clientId, clientId)
+          )
+        : and(
+            eq(financialRecords.type, 'expense'),
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed')
+          );
+
+      const recordsWhere = clientId
+        ? and(
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed'),
+            eq(financialRecords.clientId, clientId)
+          )
+        : and(
+            gte(financialRecords.createdAt, startDate),
+            lte(financialRecords.createdAt, endDate),
+            eq(financialRecords.status, 'confirmed')
+          );
+
+      const [incomeResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(incomeWhere);
+
+      const [expenseResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(expenseWhere);
+
+      const cogsCategoryCondition = or(
+        eq(financialRecords.category, 'cogs'),
+        or(
+          sql`LOWER(${financialRecords.category}) = 'cost of goods sold'`,
+          or(
+            eq(financialRecords.referenceType, 'pos_cogs'),
+            eq(financialRecords.referenceType, 'service_parts_cost')
+          )
+        )
+      );
+
+      const cogsConditions = [
+        eq(financialRecords.type, 'expense'),
+        cogsCategoryCondition,
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        eq(financialRecords.status, 'confirmed'),
+      ];
+
+      if (clientId) {
+        cogsConditions.push(eq(financialRecords.clientId, clientId));
+      }
+
+      const [cogsResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(and(...cogsConditions));
+
+      const salesCategoryCondition = or(
+        eq(financialRecords.category, 'sales_revenue'),
+        sql`LOWER(${financialRecords.category}) = 'sales revenue'`
+      );
+
+      const salesConditions = [
+        eq(financialRecords.type, 'income'),
+        salesCategoryCondition,
+        gte(financialRecords.createdAt, startDate),
+        lte(financialRecords.createdAt, endDate),
+        eq(financialRecords.status, 'confirmed'),
+      ];
+
+      if (clientId) {
+        salesConditions.push(eq(financialRecords.clientId, clientId));
+      }
+
+      const [salesRevenueResult] = await db
+        .select({ total: sum(financialRecords.amount) })
+        .from(financialRecords)
+        .where(and(...salesConditions));
+
+      const records = await db
+        .select()
+        .from(financialRecords)
+        .where(recordsWhere)
+        .orderBy(desc(financialRecords.createdAt));
+
+      const totalIncome = Number(incomeResult.total || 0);
+      const totalExpense = Number(expenseResult.total || 0);
+      const totalCOGSNumber = Number(cogsResult.total || 0);
+      const totalSalesRevenueNumber = Number(salesRevenueResult.total || 0);
+      const netProfitValue = totalIncome - totalExpense;
+      const fallbackGrossProfit = Number(
+        (totalSalesRevenueNumber - totalCOGSNumber).toFixed(2)
       );
 
-    const transactionList = await db
-      .select()
-      .from(transactions)
-      .leftJoin(customers, eq(transactions.customerId, customers.id))
-      .where(
-        and(
-          eq(transactions.type, 'sale'),
-          gte(transactions.createdAt, startDate),
-          lte(transactions.createdAt, endDate)
-        )
-      )
-      .orderBy(desc(transactions.createdAt));
+      return {
+        totalIncome: totalIncome.toString(),
+        totalExpense: totalExpense.toString(),
+        profit: fallbackGrossProfit.toString(),
+        netProfit: netProfitValue.toString(),
+        totalSalesRevenue: totalSalesRevenueNumber.toString(),
+        totalCOGS: totalCOGSNumber.toString(),
+        records
+      };
+    }
+  }
+
+  async getInventoryReport(): Promise<{
+    lowStockCount: number;
+    lowStockProducts: any[];
+    totalProducts: number;
+    totalAssetValue: string;
+    totalStockQuantity: number;
+  }> {
+    const clientId = this.resolveClientId();
+    const clientFilter = clientId ? eq(products.clientId, clientId) : isNull(products.clientId);
+
+    const [lowStockResult] = await db
+      .select({ count: count() })
+      .from(products)
+      .where(and(
+        eq(products.isActive, true),
+        isLowStock,
+        clientFilter
+      ));
+
+    const lowStockProducts = await db
+      .select()
+      .from(products)
+      .leftJoin(categories, eq(products.categoryId, categories.id))
+      .where(and(
+        eq(products.isActive, true),
+        isLowStock,
+        clientFilter
+      ))
+      .orderBy(products.stock);
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(products)
+      .where(and(eq(products.isActive, true), clientFilter));
+
+    // Calculate total asset value (stock × purchase price)
+    const assetValueResult = await db
+      .select({
+        totalValue: sql<number>`SUM(${products.stock} * COALESCE(${products.averageCost}, ${products.lastPurchasePrice}, ${products.sellingPrice}, 0))`,
+        totalQuantity: sql<number>`SUM(${products.stock})`
+      })
+      .from(products)
+      .where(and(eq(products.isActive, true), gte(products.stock, 0), clientFilter));
+
+    const totalAssetValue = Number(assetValueResult[0]?.totalValue || 0);
+    const totalStockQuantity = Number(assetValueResult[0]?.totalQuantity || 0);
 
     return {
-      totalSales: totalResult.total || '0',
-      transactions: transactionList.map(t => ({
-        ...t.transactions,
-        customer: t.customers
-      }))
+      lowStockCount: lowStockResult.count,
+      lowStockProducts: lowStockProducts.map(p => ({
+        ...p.products,
+        category: p.categories
+      })),
+      totalProducts: totalResult.count,
+      totalAssetValue: totalAssetValue.toString(),
+      totalStockQuantity: totalStockQuantity
     };
   }
 
-  async getServiceReport(startDate: Date, endDate: Date): Promise<{
-    totalServices: number;
-    totalRevenue: string;
-    totalCost: string;
-    totalProfit: string;
-    revenueBreakdown: {
-      laborRevenue: string;
-      partsRevenue: string;
-    };
-    tickets: any[];
+  async getDashboardStats(): Promise<{
+    todaySales: string;
+    todayRevenue: string;
+    activeServices: number;
+    lowStockCount: number;
+    monthlyProfit: string;
+    monthlySalesProfit: string;
+    monthlyServiceProfit: string;
+    whatsappConnected: boolean;
   }> {
     const clientId = this.resolveClientId();
-    const buildWhere = (conditions: any[]) => {
-      const filtered = conditions.filter(Boolean);
-      if (filtered.length === 0) return undefined;
-      if (filtered.length === 1) return filtered[0];
-      return and(...filtered);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
+    const now = new Date();
+
+    const buildFinancialConditions = (start: Date, end?: Date, extras: SQL[] = []) => {
+      const conditions: SQL[] = [eq(financialRecords.status, 'confirmed'), gte(financialRecords.createdAt, start)];
+      if (end) {
+        conditions.push(lte(financialRecords.createdAt, end));
+      }
+      if (clientId) {
+        conditions.push(eq(financialRecords.clientId, clientId));
+      }
+      conditions.push(...extras);
+      return and(...conditions);
     };
-    // Use same method as financeManager for consistency
-    try {
-      const { financeManager } = await import('./financeManager');
-      const summary = await financeManager.getSummary(startDate, endDate);
-      
-      // Get service-specific financial data
-      const incomeWhere = buildWhere([
+
+    const [todayProductSalesResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(today, now, [
         eq(financialRecords.type, 'income'),
-        or(
-          eq(financialRecords.referenceType, 'service_labor'),
-          eq(financialRecords.referenceType, 'service_parts_revenue')
-        ),
-        eq(financialRecords.status, 'confirmed'),
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        clientId ? eq(financialRecords.clientId, clientId) : undefined
-      ]);
+        eq(financialRecords.category, 'Product Sales'),
+      ]));
 
-      const [serviceIncomeResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(incomeWhere ?? undefined);
+    const [todayLaborResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(today, now, [
+        eq(financialRecords.type, 'income'),
+        eq(financialRecords.category, 'Service - Labor'),
+      ]));
 
-      const serviceCostWhere = buildWhere([
+    const [todayPartsResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(today, now, [
+        eq(financialRecords.type, 'income'),
+        eq(financialRecords.category, 'Sales Revenue - Parts'),
+      ]));
+
+    const [todayDiscountResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(today, now, [
         eq(financialRecords.type, 'expense'),
-        or(
-          eq(financialRecords.referenceType, 'service_parts_cost'),
-          eq(financialRecords.referenceType, 'service_cancellation_service_reversal'),
-          eq(financialRecords.referenceType, 'service_cancellation_parts_reversal'),
-          eq(financialRecords.referenceType, 'warranty_labor_reversal'),
-          eq(financialRecords.referenceType, 'warranty_parts_reversal')
-        ),
-        eq(financialRecords.status, 'confirmed'),
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        clientId ? eq(financialRecords.clientId, clientId) : undefined
-      ]);
+        eq(financialRecords.category, 'Sales Discount'),
+      ]));
 
-      const [serviceCostResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(serviceCostWhere ?? undefined);
+    const todayProductSales = Number(todayProductSalesResult?.total || 0);
+    const todayLabor = Number(todayLaborResult?.total || 0);
+    const todayParts = Number(todayPartsResult?.total || 0);
+    const todayDiscount = Number(todayDiscountResult?.total || 0);
+    const todayRevenueValue = todayProductSales + todayLabor + todayParts - todayDiscount;
 
-      // Get labor revenue
-      const laborWhere = buildWhere([
+    // Active services
+    const activeServicesWhere = clientId
+      ? and(
+          ne(serviceTickets.status, 'completed'),
+          ne(serviceTickets.status, 'delivered'),
+          ne(serviceTickets.status, 'cancelled'),
+          eq(serviceTickets.clientId, clientId)
+        )
+      : and(
+          ne(serviceTickets.status, 'completed'),
+          ne(serviceTickets.status, 'delivered'),
+          ne(serviceTickets.status, 'cancelled')
+        );
+
+    const [activeServicesResult] = await db
+      .select({ count: count() })
+      .from(serviceTickets)
+      .where(activeServicesWhere);
+
+    // Low stock count
+    const lowStockWhere = clientId
+      ? and(
+          eq(products.isActive, true),
+          isLowStock,
+          eq(products.clientId, clientId)
+        )
+      : and(
+          eq(products.isActive, true),
+          isLowStock
+        );
+
+    const [lowStockResult] = await db
+      .select({ count: count() })
+      .from(products)
+      .where(lowStockWhere);
+
+    // Monthly profit derived purely from financial records
+    const [monthlyProductResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
         eq(financialRecords.type, 'income'),
-        eq(financialRecords.referenceType, 'service_labor'),
-        eq(financialRecords.status, 'confirmed'),
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        clientId ? eq(financialRecords.clientId, clientId) : undefined
-      ]);
+        eq(financialRecords.category, 'Product Sales'),
+      ]));
 
-      const [laborRevenueResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(laborWhere ?? undefined);
+    const [monthlyLaborResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
+        eq(financialRecords.type, 'income'),
+        eq(financialRecords.category, 'Service - Labor'),
+      ]));
 
-      // Get parts revenue
-      const partsWhere = buildWhere([
+    const [monthlyPartsIncomeResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
         eq(financialRecords.type, 'income'),
-        eq(financialRecords.referenceType, 'service_parts_revenue'),
-        eq(financialRecords.status, 'confirmed'),
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        clientId ? eq(financialRecords.clientId, clientId) : undefined
-      ]);
+        eq(financialRecords.category, 'Sales Revenue - Parts'),
+      ]));
 
-      const [partsRevenueResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(partsWhere ?? undefined);
+    const [monthlyDiscountResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
+        eq(financialRecords.type, 'expense'),
+        eq(financialRecords.category, 'Sales Discount'),
+      ]));
 
-      const [totalResult] = await db
-        .select({ count: count() })
-        .from(serviceTickets)
-        .where(
-          buildWhere([
-            gte(serviceTickets.createdAt, startDate),
-            lte(serviceTickets.createdAt, endDate),
-            clientId ? eq(serviceTickets.clientId, clientId) : undefined
-          ]) ?? undefined
-        );
+    const [monthlyPosCogsResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
+        eq(financialRecords.type, 'expense'),
+        eq(financialRecords.referenceType, 'pos_cogs'),
+      ]));
+
+    const [monthlyServiceCogsResult] = await db
+      .select({ total: sum(financialRecords.amount) })
+      .from(financialRecords)
+      .where(buildFinancialConditions(startOfMonth, now, [
+        eq(financialRecords.type, 'expense'),
+        eq(financialRecords.referenceType, 'service_parts_cost'),
+      ]));
+
+    const monthlyProductIncome = Number(monthlyProductResult?.total || 0);
+    const monthlyLaborIncome = Number(monthlyLaborResult?.total || 0);
+    const monthlyPartsIncome = Number(monthlyPartsIncomeResult?.total || 0);
+    const monthlyDiscount = Number(monthlyDiscountResult?.total || 0);
+    const monthlyPosCogs = Number(monthlyPosCogsResult?.total || 0);
+    const monthlyServiceCogs = Number(monthlyServiceCogsResult?.total || 0);
 
-      const ticketList = await db
-        .select()
-        .from(serviceTickets)
-        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
-        .where(
-          buildWhere([
-            gte(serviceTickets.createdAt, startDate),
-            lte(serviceTickets.createdAt, endDate),
-            clientId ? eq(serviceTickets.clientId, clientId) : undefined
-          ]) ?? undefined
-        )
-        .orderBy(desc(serviceTickets.createdAt));
+    const monthlySalesProfit = Number((monthlyProductIncome - monthlyPosCogs).toFixed(2));
+    const monthlyServiceProfit = Number(((monthlyLaborIncome + monthlyPartsIncome) - monthlyServiceCogs).toFixed(2));
 
-      const totalRevenue = Number(serviceIncomeResult.total || 0);
-      const totalCost = Number(serviceCostResult.total || 0);
-      const totalProfit = totalRevenue - totalCost;
+    const totalIncome = monthlyProductIncome + monthlyLaborIncome + monthlyPartsIncome;
+    const totalExpense = monthlyPosCogs + monthlyServiceCogs + monthlyDiscount;
+    const monthlyProfit = Number((totalIncome - totalExpense).toFixed(2));
 
-      return {
-        totalServices: totalResult.count,
-        totalRevenue: totalRevenue.toString(),
-        totalCost: totalCost.toString(),
-        totalProfit: totalProfit.toString(),
-        revenueBreakdown: {
-          laborRevenue: (Number(laborRevenueResult.total || 0)).toString(),
-          partsRevenue: (Number(partsRevenueResult.total || 0)).toString(),
-        },
-        tickets: ticketList.map(t => ({
-          ...t.service_tickets,
-          customer: t.customers
-        }))
-      };
-    } catch (error) {
-      console.error("Error getting service report:", error);
-      // Fallback to simple count
-      const [totalResult] = await db
-        .select({ count: count() })
-        .from(serviceTickets)
-        .where(
-          and(
-            gte(serviceTickets.createdAt, startDate),
-            lte(serviceTickets.createdAt, endDate)
-          )
-        );
+    // Get WhatsApp connection status from store config
+    const storeConfig = await this.getStoreConfig();
+    const whatsappConnected = storeConfig?.whatsappConnected || false;
 
-      return {
-        totalServices: totalResult.count,
-        totalRevenue: "0",
-        totalCost: "0", 
-        totalProfit: "0",
-        revenueBreakdown: {
-          laborRevenue: "0",
-          partsRevenue: "0",
-        },
-        tickets: []
-      };
+    return {
+      todaySales: todayProductSales.toFixed(2),
+      todayRevenue: todayRevenueValue.toFixed(2),
+      activeServices: activeServicesResult?.count || 0,
+      lowStockCount: lowStockResult?.count || 0,
+      monthlyProfit: monthlyProfit.toFixed(2),
+      monthlySalesProfit: monthlySalesProfit.toFixed(2),
+      monthlyServiceProfit: monthlyServiceProfit.toFixed(2),
+      whatsappConnected,
+    };
+  }
+  
+  // Enhanced Accounting Methods Implementation
+  async getBalanceSheet(asOfDate?: Date): Promise<any> {
+    // Import and use FinanceManager to implement double-entry bookkeeping
+    const { FinanceManager } = await import('./financeManager');
+    const financeManager = new FinanceManager();
+    return await financeManager.getBalanceSheet(asOfDate);
+  }
+  
+  async getIncomeStatement(startDate?: Date, endDate?: Date): Promise<any> {
+    const { FinanceManager } = await import('./financeManager');
+    const financeManager = new FinanceManager();
+    return await financeManager.getIncomeStatement(startDate, endDate);
+  }
+  
+  async getChartOfAccounts(): Promise<any[]> {
+    const { FinanceManager } = await import('./financeManager');
+    const financeManager = new FinanceManager();
+    return await financeManager.getChartOfAccounts();
+  }
+  
+  async createJournalEntry(data: any): Promise<{ success: boolean; journalEntry?: any; error?: string }> {
+    try {
+      const journalEntry = await db.transaction((tx) =>
+        financeManager.createJournalEntry('manual', data.lines || [], {
+          description: data.description,
+          reference: data.reference,
+          referenceType: data.referenceType || 'manual',
+          date: data.date ? new Date(data.date) : undefined,
+          status: data.status,
+          userId: data.userId,
+          tx,
+        }),
+      );
+      return { success: true, journalEntry };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Gagal membuat jurnal' };
     }
   }
 
-  async getFinancialReport(startDate: Date, endDate: Date): Promise<{
-    totalIncome: string;
-    totalExpense: string;
-    profit: string;
-    netProfit: string;
-    totalSalesRevenue: string;
-    totalCOGS: string;
-    records: any[];
-  }> {
+  async getJournalSourceDocument(referenceType: string, reference: string): Promise<JournalSourceDocument | null> {
     const clientId = this.resolveClientId();
+    const kind = JOURNAL_SOURCE_KINDS[referenceType];
+    if (!kind) return null;
 
-    let totalSalesRevenueValue = 0;
-    let totalCOGSValue = 0;
-
-    try {
-      const salesWhere = clientId
-        ? and(
-            eq(transactions.type, 'sale'),
-            gte(transactions.createdAt, startDate),
-            lte(transactions.createdAt, endDate),
-            eq(transactions.clientId, clientId)
-          )
-        : and(
-            eq(transactions.type, 'sale'),
-            gte(transactions.createdAt, startDate),
-            lte(transactions.createdAt, endDate)
-          );
+    if (kind === 'transaction') {
+      const [row] = await db
+        .select({ transaction: transactions, customerName: customers.name })
+        .from(transactions)
+        .leftJoin(customers, eq(transactions.customerId, customers.id))
+        .where(clientId ? and(eq(transactions.id, reference), eq(transactions.clientId, clientId)) : eq(transactions.id, reference));
+      if (!row) return null;
 
-      const [posSummary] = await db
-        .select({
-          totalSales: sql<string>`COALESCE(SUM(${transactionItems.totalPrice}), 0)`,
-          totalCOGS: sql<string>`COALESCE(SUM(${transactionItems.quantity}::numeric * COALESCE(${products.averageCost}, ${products.lastPurchasePrice}, 0)::numeric), 0)`
-        })
+      const items = await db
+        .select({ name: products.name, quantity: transactionItems.quantity, totalPrice: transactionItems.totalPrice })
         .from(transactionItems)
-        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
-        .innerJoin(products, eq(transactionItems.productId, products.id))
-        .where(salesWhere);
+        .leftJoin(products, eq(transactionItems.productId, products.id))
+        .where(eq(transactionItems.transactionId, reference));
 
-      if (posSummary) {
-        totalSalesRevenueValue = Number(posSummary.totalSales ?? 0);
-        totalCOGSValue = Number(posSummary.totalCOGS ?? 0);
-      }
-    } catch (error) {
-      console.error("Error calculating POS gross profit from transactions:", error);
+      return {
+        kind,
+        id: row.transaction.id,
+        number: row.transaction.transactionNumber,
+        date: row.transaction.createdAt,
+        party: row.customerName,
+        status: row.transaction.type,
+        total: row.transaction.total,
+        lines: items.map(item => ({ description: item.name || '-', quantity: item.quantity, amount: item.totalPrice })),
+      };
     }
 
-    const grossProfitValue = Number((totalSalesRevenueValue - totalCOGSValue).toFixed(2));
-    const totalSalesRevenue = totalSalesRevenueValue.toString();
-    const totalCOGS = totalCOGSValue.toString();
-    const grossProfit = grossProfitValue.toString();
-
-    try {
-      const { financeManager } = await import('./financeManager');
-
-      const summary = await financeManager.getSummary(startDate, endDate);
-      const records = await financeManager.getTransactions({
-        startDate,
-        endDate
-      });
+    if (kind === 'service_ticket') {
+      const [row] = await db
+        .select({ ticket: serviceTickets, customerName: customers.name })
+        .from(serviceTickets)
+        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+        .where(clientId ? and(eq(serviceTickets.id, reference), eq(serviceTickets.clientId, clientId)) : eq(serviceTickets.id, reference));
+      if (!row) return null;
 
-      const summarySalesRevenueValue = Number(summary.totalSalesRevenue ?? 0);
-      const resolvedSalesRevenueValue =
-        summarySalesRevenueValue !== 0
-          ? summarySalesRevenueValue
-          : totalSalesRevenueValue;
+      const parts = await db
+        .select({ name: products.name, quantity: serviceTicketParts.quantity, totalPrice: serviceTicketParts.totalPrice })
+        .from(serviceTicketParts)
+        .leftJoin(products, eq(serviceTicketParts.productId, products.id))
+        .where(eq(serviceTicketParts.serviceTicketId, reference));
+      const device = [row.ticket.deviceType, row.ticket.deviceBrand, row.ticket.deviceModel].filter(Boolean).join(' ');
 
-      const summaryCOGSValue = Number(summary.totalCOGS ?? 0);
-      const resolvedCOGSValue =
-        summaryCOGSValue !== 0 ? summaryCOGSValue : totalCOGSValue;
+      return {
+        kind,
+        id: row.ticket.id,
+        number: row.ticket.ticketNumber,
+        date: row.ticket.createdAt,
+        party: row.customerName,
+        status: row.ticket.status,
+        total: row.ticket.actualCost ?? row.ticket.estimatedCost,
+        lines: [
+          { description: `Jasa service ${device}`.trim(), quantity: 1, amount: row.ticket.laborCost },
+          ...parts.map(part => ({ description: part.name || '-', quantity: part.quantity, amount: part.totalPrice })),
+        ],
+      };
+    }
 
-      const fallbackGrossProfitValue = Number(
-        (resolvedSalesRevenueValue - resolvedCOGSValue).toFixed(2)
-      );
+    let purchaseOrderId = reference;
+    let billNumber: string | undefined;
+    if (kind === 'supplier_bill') {
+      const [bill] = await db
+        .select({ billNumber: supplierBills.billNumber, purchaseOrderId: supplierBills.purchaseOrderId })
+        .from(supplierBills)
+        .where(clientId ? and(eq(supplierBills.id, reference), eq(supplierBills.clientId, clientId)) : eq(supplierBills.id, reference));
+      if (!bill?.purchaseOrderId) return null;
+      purchaseOrderId = bill.purchaseOrderId;
+      billNumber = bill.billNumber;
+    }
 
-      const summaryGrossProfitValue = Number(summary.grossProfit ?? 0);
-      const resolvedGrossProfitValue =
-        summaryGrossProfitValue !== 0
-          ? summaryGrossProfitValue
-          : fallbackGrossProfitValue !== 0
-            ? fallbackGrossProfitValue
-            : summaryGrossProfitValue;
+    const [row] = await db
+      .select({ order: purchaseOrders, supplierName: suppliers.name })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(clientId ? and(eq(purchaseOrders.id, purchaseOrderId), eq(purchaseOrders.clientId, clientId)) : eq(purchaseOrders.id, purchaseOrderId));
+    if (!row) return null;
 
-      const summaryNetProfitValue =
-        summary.netProfit != null ? Number(summary.netProfit) : null;
-      const resolvedNetProfitValue =
-        summaryNetProfitValue !== null && summaryNetProfitValue !== 0
-          ? summaryNetProfitValue
-          : summaryGrossProfitValue !== 0
-            ? summaryGrossProfitValue
-            : resolvedGrossProfitValue;
+    const items = await db
+      .select({
+        name: purchaseOrderItems.productName,
+        productName: products.name,
+        quantity: purchaseOrderItems.quantity,
+        totalCost: purchaseOrderItems.totalCost,
+      })
+      .from(purchaseOrderItems)
+      .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .where(eq(purchaseOrderItems.purchaseOrderId, purchaseOrderId));
 
-      return {
-        totalIncome: String(summary.totalIncome ?? '0'),
-        totalExpense: String(summary.totalExpense ?? '0'),
-        profit: resolvedGrossProfitValue.toString(),
-        netProfit: resolvedNetProfitValue.toString(),
-        totalSalesRevenue: resolvedSalesRevenueValue.toString(),
-        totalCOGS: resolvedCOGSValue.toString(),
-        records
-      };
-    } catch (error) {
-      console.error("Error getting financial report from finance manager:", error);
-      // Fallback to financial records aggregation
-      const incomeWhere = clientId
-        ? and(
-            eq(financialRecords.type, 'income'),
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed'),
-            eq(financialRecords.clientId, clientId)
-          )
-        : and(
-            eq(financialRecords.type, 'income'),
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed')
-          );
+    return {
+      kind: 'purchase_order',
+      id: row.order.id,
+      number: row.order.poNumber,
+      date: row.order.orderDate,
+      party: row.supplierName,
+      status: row.order.status,
+      total: row.order.totalAmount,
+      billNumber,
+      lines: items.map(item => ({ description: item.productName || item.name || '-', quantity: item.quantity, amount: item.totalCost })),
+    };
+  }
 
-      const expenseWhere = clientId
-        ? and(
-            eq(financialRecords.type, 'expense'),
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed'),
-            eq(financialRecords.clientId, clientId)
-          )
-        : and(
-            eq(financialRecords.type, 'expense'),
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed')
-          );
+  // Fiscal periods
+  private async findFiscalPeriod(year: number, month: number, executor: any = db): Promise<FiscalPeriod | undefined> {
+    const clientId = this.resolveClientId();
+    const conditions = [eq(fiscalPeriods.year, year), eq(fiscalPeriods.month, month)];
+    if (clientId) conditions.push(eq(fiscalPeriods.clientId, clientId));
+    const [period] = await executor.select().from(fiscalPeriods).where(and(...conditions)).limit(1);
+    return period;
+  }
 
-      const recordsWhere = clientId
-        ? and(
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed'),
-            eq(financialRecords.clientId, clientId)
-          )
-        : and(
-            gte(financialRecords.createdAt, startDate),
-            lte(financialRecords.createdAt, endDate),
-            eq(financialRecords.status, 'confirmed')
-          );
+  private async getOrCreateFiscalPeriod(year: number, month: number, executor: any = db): Promise<FiscalPeriod> {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) {
+      throw new Error('Periode tidak valid');
+    }
 
-      const [incomeResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(incomeWhere);
+    const existing = await this.findFiscalPeriod(year, month, executor);
+    if (existing) return existing;
 
-      const [expenseResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(expenseWhere);
+    const { start, end } = getFiscalPeriodRange(year, month);
+    const [created] = await executor
+      .insert(fiscalPeriods)
+      .values({ clientId: this.resolveClientId(), year, month, periodStart: start, periodEnd: end })
+      .returning();
+    return created;
+  }
 
-      const cogsCategoryCondition = or(
-        eq(financialRecords.category, 'cogs'),
-        or(
-          sql`LOWER(${financialRecords.category}) = 'cost of goods sold'`,
-          or(
-            eq(financialRecords.referenceType, 'pos_cogs'),
-            eq(financialRecords.referenceType, 'service_parts_cost')
-          )
-        )
-      );
+  async getFiscalPeriods(year: number): Promise<FiscalPeriodSummary[]> {
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .select()
+      .from(fiscalPeriods)
+      .where(clientId ? and(eq(fiscalPeriods.year, year), eq(fiscalPeriods.clientId, clientId)) : eq(fiscalPeriods.year, year));
+    const byMonth = new Map(rows.map(row => [row.month, row]));
+
+    return Array.from({ length: 12 }, (_, index) => {
+      const month = index + 1;
+      const row = byMonth.get(month);
+      const { start, end } = getFiscalPeriodRange(year, month);
+      return {
+        id: row?.id ?? null,
+        year,
+        month,
+        periodStart: row?.periodStart ?? start,
+        periodEnd: row?.periodEnd ?? end,
+        status: (row?.status ?? 'open') as FiscalPeriodSummary['status'],
+        closedAt: row?.closedAt ?? null,
+        lockedAt: row?.lockedAt ?? null,
+        yearClosedAt: row?.yearClosedAt ?? null,
+      };
+    });
+  }
 
-      const cogsConditions = [
-        eq(financialRecords.type, 'expense'),
-        cogsCategoryCondition,
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        eq(financialRecords.status, 'confirmed'),
-      ];
+  async closeFiscalPeriod(year: number, month: number, userId: string): Promise<FiscalPeriod> {
+    const period = await this.getOrCreateFiscalPeriod(year, month);
+    if (period.status === 'locked') throw new Error('Periode sudah dikunci');
+    if (period.status === 'closed') throw new Error('Periode sudah ditutup');
+    if (period.periodEnd > new Date()) throw new Error('Periode belum berakhir, belum dapat ditutup');
 
-      if (clientId) {
-        cogsConditions.push(eq(financialRecords.clientId, clientId));
-      }
+    const [updated] = await db
+      .update(fiscalPeriods)
+      .set({ status: 'closed', closedAt: new Date(), closedBy: userId, updatedAt: new Date() })
+      .where(eq(fiscalPeriods.id, period.id))
+      .returning();
+    return updated;
+  }
 
-      const [cogsResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(and(...cogsConditions));
+  async reopenFiscalPeriod(year: number, month: number): Promise<FiscalPeriod> {
+    const period = await this.findFiscalPeriod(year, month);
+    if (!period || period.status === 'open') throw new Error('Periode belum ditutup');
+    if (period.status === 'locked') throw new Error('Periode sudah dikunci dan tidak dapat dibuka kembali');
 
-      const salesCategoryCondition = or(
-        eq(financialRecords.category, 'sales_revenue'),
-        sql`LOWER(${financialRecords.category}) = 'sales revenue'`
-      );
+    const december = month === 12 ? period : await this.findFiscalPeriod(year, 12);
+    if (december?.yearClosedAt) {
+      throw new Error(`Tahun buku ${year} sudah ditutup, gunakan jurnal pembalik untuk koreksi`);
+    }
 
-      const salesConditions = [
-        eq(financialRecords.type, 'income'),
-        salesCategoryCondition,
-        gte(financialRecords.createdAt, startDate),
-        lte(financialRecords.createdAt, endDate),
-        eq(financialRecords.status, 'confirmed'),
-      ];
+    const [updated] = await db
+      .update(fiscalPeriods)
+      .set({ status: 'open', closedAt: null, closedBy: null, updatedAt: new Date() })
+      .where(eq(fiscalPeriods.id, period.id))
+      .returning();
+    return updated;
+  }
 
-      if (clientId) {
-        salesConditions.push(eq(financialRecords.clientId, clientId));
-      }
+  async lockFiscalPeriod(year: number, month: number, userId: string): Promise<FiscalPeriod> {
+    const period = await this.findFiscalPeriod(year, month);
+    if (!period || period.status === 'open') throw new Error('Tutup periode terlebih dahulu sebelum dikunci');
+    if (period.status === 'locked') throw new Error('Periode sudah dikunci');
+    // The year-end closing entries are dated in December, so December stays postable until the year is closed
+    if (month === 12 && !period.yearClosedAt) {
+      throw new Error(`Tutup tahun buku ${year} terlebih dahulu sebelum mengunci Desember`);
+    }
 
-      const [salesRevenueResult] = await db
-        .select({ total: sum(financialRecords.amount) })
-        .from(financialRecords)
-        .where(and(...salesConditions));
+    const [updated] = await db
+      .update(fiscalPeriods)
+      .set({ status: 'locked', lockedAt: new Date(), lockedBy: userId, updatedAt: new Date() })
+      .where(eq(fiscalPeriods.id, period.id))
+      .returning();
+    return updated;
+  }
 
-      const records = await db
-        .select()
-        .from(financialRecords)
-        .where(recordsWhere)
-        .orderBy(desc(financialRecords.createdAt));
+  async closeFiscalYear(year: number, userId: string): Promise<FiscalYearCloseResult> {
+    const periods = await this.getFiscalPeriods(year);
+    const stillOpen = periods.find(period => period.status === 'open');
+    if (stillOpen) {
+      throw new Error(`Periode ${String(stillOpen.month).padStart(2, '0')}/${year} masih terbuka`);
+    }
 
-      const totalIncome = Number(incomeResult.total || 0);
-      const totalExpense = Number(expenseResult.total || 0);
-      const totalCOGSNumber = Number(cogsResult.total || 0);
-      const totalSalesRevenueNumber = Number(salesRevenueResult.total || 0);
-      const netProfitValue = totalIncome - totalExpense;
-      const fallbackGrossProfit = Number(
-        (totalSalesRevenueNumber - totalCOGSNumber).toFixed(2)
-      );
+    const december = periods[11];
+    if (december.yearClosedAt) throw new Error(`Tahun buku ${year} sudah ditutup`);
+    if (december.status === 'locked') throw new Error('Periode Desember sudah dikunci');
+
+    return await db.transaction(async (tx) => {
+      // Lock December so a second close running at the same time waits and then sees yearClosedAt
+      const [lockedDecember] = await tx
+        .select({ yearClosedAt: fiscalPeriods.yearClosedAt, status: fiscalPeriods.status })
+        .from(fiscalPeriods)
+        .where(eq(fiscalPeriods.id, december.id!))
+        .for('update');
+      if (lockedDecember?.yearClosedAt) throw new Error(`Tahun buku ${year} sudah ditutup`);
+      if (lockedDecember?.status === 'locked') throw new Error('Periode Desember sudah dikunci');
+
+      const result = await financeManager.postYearEndClose({ year, userId, clientId: this.resolveClientId() }, tx);
+
+      await tx
+        .update(fiscalPeriods)
+        .set({
+          yearClosedAt: new Date(),
+          yearEndJournalId: result.rolloverEntry?.id ?? result.closingEntry?.id ?? null,
+          updatedAt: new Date(),
+        })
+        .where(eq(fiscalPeriods.id, december.id!));
 
       return {
-        totalIncome: totalIncome.toString(),
-        totalExpense: totalExpense.toString(),
-        profit: fallbackGrossProfit.toString(),
-        netProfit: netProfitValue.toString(),
-        totalSalesRevenue: totalSalesRevenueNumber.toString(),
-        totalCOGS: totalCOGSNumber.toString(),
-        records
+        year,
+        netIncome: result.netIncome,
+        closingJournalNumber: result.closingEntry?.journalNumber ?? null,
+        rolloverJournalNumber: result.rolloverEntry?.journalNumber ?? null,
       };
-    }
+    });
   }
 
-  async getInventoryReport(): Promise<{
-    lowStockCount: number;
-    lowStockProducts: any[];
-    totalProducts: number;
-    totalAssetValue: string;
-    totalStockQuantity: number;
-  }> {
+  // Bank reconciliation
+  private async findBankStatement(id: string, executor: any = db): Promise<BankStatement | undefined> {
     const clientId = this.resolveClientId();
-    const clientFilter = clientId ? eq(products.clientId, clientId) : isNull(products.clientId);
-
-    const [lowStockResult] = await db
-      .select({ count: count() })
-      .from(products)
-      .where(and(
-        eq(products.isActive, true),
-        sql`${products.stock} <= ${products.minStock}`,
-        clientFilter
-      ));
-
-    const lowStockProducts = await db
+    const [statement] = await executor
       .select()
-      .from(products)
-      .leftJoin(categories, eq(products.categoryId, categories.id))
-      .where(and(
-        eq(products.isActive, true),
-        sql`${products.stock} <= ${products.minStock}`,
-        clientFilter
-      ))
-      .orderBy(products.stock);
+      .from(bankStatements)
+      .where(clientId ? and(eq(bankStatements.id, id), eq(bankStatements.clientId, clientId)) : eq(bankStatements.id, id))
+      .limit(1);
+    return statement;
+  }
 
-    const [totalResult] = await db
-      .select({ count: count() })
-      .from(products)
-      .where(and(eq(products.isActive, true), clientFilter));
+  // Loads a line for a change, refusing it once its statement is reconciled
+  private async findOpenBankStatementLine(lineId: string, executor: any = db) {
+    const clientId = this.resolveClientId();
+    const [row] = await executor
+      .select({ line: bankStatementLines, statement: bankStatements })
+      .from(bankStatementLines)
+      .innerJoin(bankStatements, eq(bankStatementLines.statementId, bankStatements.id))
+      .where(clientId ? and(eq(bankStatementLines.id, lineId), eq(bankStatementLines.clientId, clientId)) : eq(bankStatementLines.id, lineId))
+      .limit(1);
+    if (!row) throw new Error('Baris mutasi tidak ditemukan');
+    if (row.statement.status === 'reconciled') throw new Error('Mutasi rekening sudah direkonsiliasi');
+    return row as { line: BankStatementLine; statement: BankStatement };
+  }
 
-    // Calculate total asset value (stock × purchase price)
-    const assetValueResult = await db
+  private async getBankLineMatchedAmounts(lineIds: string[], executor: any = db): Promise<Map<string, number>> {
+    if (!lineIds.length) return new Map();
+    const rows = await executor
       .select({
-        totalValue: sql<number>`SUM(${products.stock} * COALESCE(${products.averageCost}, ${products.lastPurchasePrice}, ${products.sellingPrice}, 0))`,
-        totalQuantity: sql<number>`SUM(${products.stock})`
+        statementLineId: bankReconciliationMatches.statementLineId,
+        total: sql<string>`COALESCE(SUM(${bankReconciliationMatches.amount}), 0)`,
       })
-      .from(products)
-      .where(and(eq(products.isActive, true), gte(products.stock, 0), clientFilter));
+      .from(bankReconciliationMatches)
+      .where(inArray(bankReconciliationMatches.statementLineId, lineIds))
+      .groupBy(bankReconciliationMatches.statementLineId);
+    return new Map(rows.map((row: any) => [row.statementLineId, Number(row.total)]));
+  }
 
-    const totalAssetValue = Number(assetValueResult[0]?.totalValue || 0);
-    const totalStockQuantity = Number(assetValueResult[0]?.totalQuantity || 0);
+  async getBankStatements(): Promise<BankStatementSummary[]> {
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .select({
+        statement: bankStatements,
+        lineCount: sql<number>`COUNT(${bankStatementLines.id})::int`,
+        openLineCount: sql<number>`COUNT(${bankStatementLines.id}) FILTER (WHERE ${bankStatementLines.status} = 'unmatched')::int`,
+      })
+      .from(bankStatements)
+      .leftJoin(bankStatementLines, eq(bankStatementLines.statementId, bankStatements.id))
+      .where(clientId ? eq(bankStatements.clientId, clientId) : undefined)
+      .groupBy(bankStatements.id)
+      .orderBy(desc(bankStatements.periodEnd));
+    return rows.map(row => ({ ...row.statement, lineCount: row.lineCount, openLineCount: row.openLineCount }));
+  }
+
+  async getBankStatement(id: string): Promise<{ statement: BankStatement; lines: BankStatementLineDetail[] } | undefined> {
+    const statement = await this.findBankStatement(id);
+    if (!statement) return undefined;
+
+    const lines = await db
+      .select()
+      .from(bankStatementLines)
+      .where(eq(bankStatementLines.statementId, id))
+      .orderBy(asc(bankStatementLines.date), asc(bankStatementLines.createdAt));
+    const matches = lines.length
+      ? await db
+          .select({ match: bankReconciliationMatches, journalEntryId: journalEntries.id, journalNumber: journalEntries.journalNumber, date: journalEntries.date })
+          .from(bankReconciliationMatches)
+          .innerJoin(journalEntryLines, eq(bankReconciliationMatches.journalEntryLineId, journalEntryLines.id))
+          .innerJoin(journalEntries, eq(journalEntryLines.journalEntryId, journalEntries.id))
+          .where(inArray(bankReconciliationMatches.statementLineId, lines.map(line => line.id)))
+      : [];
 
     return {
-      lowStockCount: lowStockResult.count,
-      lowStockProducts: lowStockProducts.map(p => ({
-        ...p.products,
-        category: p.categories
-      })),
-      totalProducts: totalResult.count,
-      totalAssetValue: totalAssetValue.toString(),
-      totalStockQuantity: totalStockQuantity
+      statement,
+      lines: lines.map(line => {
+        const lineMatches = matches.filter(row => row.match.statementLineId === line.id);
+        const matchedAmount = Number(lineMatches.reduce((total, row) => total + Number(row.match.amount), 0).toFixed(2));
+        return {
+          ...line,
+          matchedAmount,
+          remaining: Number((Number(line.amount) - matchedAmount).toFixed(2)),
+          matches: lineMatches.map(row => ({
+            id: row.match.id,
+            journalEntryLineId: row.match.journalEntryLineId,
+            journalEntryId: row.journalEntryId,
+            journalNumber: row.journalNumber,
+            date: row.date,
+            amount: row.match.amount,
+            matchType: row.match.matchType,
+          })),
+        };
+      }),
     };
   }
 
-  async getDashboardStats(): Promise<{
-    todaySales: string;
-    todayRevenue: string;
-    activeServices: number;
-    lowStockCount: number;
-    monthlyProfit: string;
-    monthlySalesProfit: string;
-    monthlyServiceProfit: string;
-    whatsappConnected: boolean;
-  }> {
+  async importBankStatement(data: {
+    accountCode: string;
+    fileName: string;
+    parsed: ParsedBankStatement;
+    openingBalance?: number;
+    closingBalance?: number;
+    userId: string;
+  }): Promise<{ statement: BankStatement; imported: number; skipped: number }> {
     const clientId = this.resolveClientId();
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const accountsList = await financeManager.getChartOfAccounts();
+    const account = accountsList.find((row: any) => row.code === data.accountCode);
+    if (!account) throw new Error(`Akun ${data.accountCode} tidak ditemukan`);
+    if (account.type !== 'asset') throw new Error('Rekonsiliasi hanya untuk akun kas/bank');
+
+    // Re-importing an overlapping export must not duplicate lines the bank already identified
+    const references = data.parsed.lines.map(line => line.bankReference).filter((ref): ref is string => Boolean(ref));
+    const existing = references.length
+      ? await db
+          .select({ bankReference: bankStatementLines.bankReference })
+          .from(bankStatementLines)
+          .innerJoin(bankStatements, eq(bankStatementLines.statementId, bankStatements.id))
+          .where(and(
+            eq(bankStatements.accountCode, data.accountCode),
+            inArray(bankStatementLines.bankReference, references),
+            clientId ? eq(bankStatements.clientId, clientId) : undefined,
+          ))
+      : [];
+    const seen = new Set(existing.map(row => row.bankReference));
+    const lines = data.parsed.lines.filter(line => !line.bankReference || !seen.has(line.bankReference));
+    if (lines.length === 0) throw new Error('Semua transaksi pada file ini sudah pernah diimpor');
 
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const closingBalance = data.closingBalance ?? data.parsed.closingBalance;
+      const [statement] = await tx
+        .insert(bankStatements)
+        .values({
+          clientId,
+          accountCode: data.accountCode,
+          fileName: data.fileName,
+          format: data.parsed.format,
+          periodStart: data.parsed.periodStart,
+          periodEnd: data.parsed.periodEnd,
+          openingBalance: data.openingBalance !== undefined ? data.openingBalance.toFixed(2) : null,
+          closingBalance: closingBalance !== null && closingBalance !== undefined ? closingBalance.toFixed(2) : null,
+          importedBy: data.userId,
+        })
+        .returning();
 
-    const buildFinancialConditions = (start: Date, end?: Date, extras: SQL[] = []) => {
-      const conditions: SQL[] = [eq(financialRecords.status, 'confirmed'), gte(financialRecords.createdAt, start)];
-      if (end) {
-        conditions.push(lte(financialRecords.createdAt, end));
-      }
-      if (clientId) {
-        conditions.push(eq(financialRecords.clientId, clientId));
-      }
-      conditions.push(...extras);
-      return and(...conditions);
-    };
+      await tx.insert(bankStatementLines).values(lines.map(line => ({
+        clientId,
+        statementId: statement.id,
+        date: line.date,
+        description: line.description,
+        bankReference: line.bankReference,
+        amount: line.amount.toFixed(2),
+      })));
+
+      return { statement, imported: lines.length, skipped: data.parsed.lines.length - lines.length };
+    });
+  }
 
-    const [todayProductSalesResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(today, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Product Sales'),
-      ]));
+  async getBankMatchCandidates(lineId: string, dateWindowDays: number): Promise<BankBookLine[]> {
+    const { line, statement } = await this.findOpenBankStatementLine(lineId);
+    const windowMs = dateWindowDays * 24 * 60 * 60 * 1000;
+    const amount = Number(line.amount);
+    const bookLines = await financeManager.getBankBookLines({
+      accountCode: statement.accountCode,
+      startDate: new Date(line.date.getTime() - windowMs),
+      endDate: new Date(line.date.getTime() + windowMs + 24 * 60 * 60 * 1000),
+    });
+    // Same direction only: a deposit never clears a payment
+    return bookLines.filter(book => book.remaining !== 0 && Math.sign(book.remaining) === Math.sign(amount));
+  }
 
-    const [todayLaborResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(today, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Service - Labor'),
-      ]));
+  async autoMatchBankStatement(id: string, dateWindowDays: number, userId: string): Promise<{ matched: number }> {
+    const statement = await this.findBankStatement(id);
+    if (!statement) throw new Error('Mutasi rekening tidak ditemukan');
+    if (statement.status === 'reconciled') throw new Error('Mutasi rekening sudah direkonsiliasi');
 
-    const [todayPartsResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(today, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Sales Revenue - Parts'),
-      ]));
+    const clientId = this.resolveClientId();
+    const dayMs = 24 * 60 * 60 * 1000;
+    const windowMs = dateWindowDays * dayMs;
 
-    const [todayDiscountResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(today, now, [
-        eq(financialRecords.type, 'expense'),
-        eq(financialRecords.category, 'Sales Discount'),
-      ]));
+    return await db.transaction(async (tx) => {
+      const lines = await tx
+        .select()
+        .from(bankStatementLines)
+        .where(and(eq(bankStatementLines.statementId, id), eq(bankStatementLines.status, 'unmatched')))
+        .orderBy(asc(bankStatementLines.date));
+      const matchedAmounts = await this.getBankLineMatchedAmounts(lines.map(line => line.id), tx);
+      const bookLines = (await financeManager.getBankBookLines({
+        accountCode: statement.accountCode,
+        startDate: new Date(statement.periodStart.getTime() - windowMs),
+        endDate: new Date(statement.periodEnd.getTime() + windowMs),
+      }, tx)).filter(book => book.remaining !== 0);
+      const used = new Set<string>();
+      let matched = 0;
+
+      for (const line of lines) {
+        // Partially matched lines were split by hand; leave them for the user to finish
+        if (matchedAmounts.get(line.id)) continue;
+        const amount = Number(line.amount);
+        const candidate = bookLines
+          .filter(book => !used.has(book.id) && book.remaining === amount && Math.abs(book.date.getTime() - line.date.getTime()) <= windowMs + dayMs)
+          .sort((a, b) => Math.abs(a.date.getTime() - line.date.getTime()) - Math.abs(b.date.getTime() - line.date.getTime()))[0];
+        if (!candidate) continue;
+
+        used.add(candidate.id);
+        await tx.insert(bankReconciliationMatches).values({
+          clientId,
+          statementLineId: line.id,
+          journalEntryLineId: candidate.id,
+          amount: line.amount,
+          matchType: 'auto',
+          matchedBy: userId,
+        });
+        await tx.update(bankStatementLines).set({ status: 'matched' }).where(eq(bankStatementLines.id, line.id));
+        matched++;
+      }
 
-    const todayProductSales = Number(todayProductSalesResult?.total || 0);
-    const todayLabor = Number(todayLaborResult?.total || 0);
-    const todayParts = Number(todayPartsResult?.total || 0);
-    const todayDiscount = Number(todayDiscountResult?.total || 0);
-    const todayRevenueValue = todayProductSales + todayLabor + todayParts - todayDiscount;
+      return { matched };
+    });
+  }
 
-    // Active services
-    const activeServicesWhere = clientId
-      ? and(
-          ne(serviceTickets.status, 'completed'),
-          ne(serviceTickets.status, 'delivered'),
-          ne(serviceTickets.status, 'cancelled'),
-          eq(serviceTickets.clientId, clientId)
-        )
-      : and(
-          ne(serviceTickets.status, 'completed'),
-          ne(serviceTickets.status, 'delivered'),
-          ne(serviceTickets.status, 'cancelled')
-        );
+  async matchBankStatementLine(lineId: string, input: BankStatementMatchInput, userId: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const { line, statement } = await this.findOpenBankStatementLine(lineId, tx);
+      const amount = Number(line.amount);
+      const alreadyMatched = (await this.getBankLineMatchedAmounts([line.id], tx)).get(line.id) ?? 0;
+
+      const bookLines = await financeManager.getBankBookLines({
+        accountCode: statement.accountCode,
+        lineIds: input.matches.map(match => match.journalEntryLineId),
+      }, tx);
+      const bookById = new Map(bookLines.map(book => [book.id, book]));
+
+      let total = alreadyMatched;
+      for (const match of input.matches) {
+        const book = bookById.get(match.journalEntryLineId);
+        if (!book) throw new Error(`Baris jurnal tidak ditemukan pada akun ${statement.accountCode}`);
+        if (Math.sign(match.amount) !== Math.sign(amount) || Math.sign(book.remaining) !== Math.sign(amount)) {
+          throw new Error(`Arah mutasi jurnal ${book.journalNumber} tidak sesuai dengan baris bank`);
+        }
+        if (Math.abs(match.amount) > Math.abs(book.remaining) + 0.001) {
+          throw new Error(`Jumlah melebihi sisa jurnal ${book.journalNumber}`);
+        }
+        total += match.amount;
+      }
+      if (Math.abs(total) > Math.abs(amount) + 0.001) throw new Error('Total pencocokan melebihi jumlah baris bank');
+
+      await tx.insert(bankReconciliationMatches).values(input.matches.map(match => ({
+        clientId: this.resolveClientId(),
+        statementLineId: line.id,
+        journalEntryLineId: match.journalEntryLineId,
+        amount: match.amount.toFixed(2),
+        matchType: 'manual',
+        matchedBy: userId,
+      })));
+
+      const fullyMatched = Math.abs(total - amount) < 0.01;
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({ status: fullyMatched ? 'matched' : 'unmatched' })
+        .where(eq(bankStatementLines.id, line.id))
+        .returning();
+      return updated;
+    });
+  }
 
-    const [activeServicesResult] = await db
-      .select({ count: count() })
-      .from(serviceTickets)
-      .where(activeServicesWhere);
+  async unmatchBankStatementLine(lineId: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const { line } = await this.findOpenBankStatementLine(lineId, tx);
+      if (line.status === 'posted') {
+        throw new Error('Baris sudah diposting sebagai jurnal, koreksi dengan jurnal pembalik');
+      }
+
+      await tx.delete(bankReconciliationMatches).where(eq(bankReconciliationMatches.statementLineId, line.id));
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({ status: 'unmatched' })
+        .where(eq(bankStatementLines.id, line.id))
+        .returning();
+      return updated;
+    });
+  }
 
-    // Low stock count
-    const lowStockWhere = clientId
-      ? and(
-          eq(products.isActive, true),
-          sql`${products.stock} <= ${products.minStock}`,
-          eq(products.clientId, clientId)
-        )
-      : and(
-          eq(products.isActive, true),
-          sql`${products.stock} <= ${products.minStock}`
-        );
+  async postBankStatementLine(lineId: string, input: { accountCode: string; description?: string }, userId: string): Promise<BankStatementLine> {
+    return await db.transaction(async (tx) => {
+      const { line, statement } = await this.findOpenBankStatementLine(lineId, tx);
+      if (line.status !== 'unmatched') throw new Error('Baris bank sudah dicocokkan');
+      if (input.accountCode === statement.accountCode) throw new Error('Akun lawan tidak boleh sama dengan akun bank');
+
+      const alreadyMatched = (await this.getBankLineMatchedAmounts([line.id], tx)).get(line.id) ?? 0;
+      const remaining = Number((Number(line.amount) - alreadyMatched).toFixed(2));
+      const value = Math.abs(remaining);
+      const description = input.description || line.description;
+
+      // Only the part no ledger entry covers is posted, so a split line can be finished this way
+      const entry = await financeManager.createJournalEntry('bank_statement', [
+        { accountCode: statement.accountCode, description, debitAmount: remaining > 0 ? value : 0, creditAmount: remaining < 0 ? value : 0 },
+        { accountCode: input.accountCode, description, debitAmount: remaining < 0 ? value : 0, creditAmount: remaining > 0 ? value : 0 },
+      ], {
+        description: `Mutasi bank: ${description}`,
+        reference: line.id,
+        referenceType: 'bank_statement',
+        date: line.date,
+        userId,
+        clientId: this.resolveClientId(),
+        tx,
+      });
 
-    const [lowStockResult] = await db
-      .select({ count: count() })
-      .from(products)
-      .where(lowStockWhere);
+      const [bankLine] = await financeManager.getBankBookLines({ accountCode: statement.accountCode, journalEntryId: entry.id }, tx);
+      await tx.insert(bankReconciliationMatches).values({
+        clientId: this.resolveClientId(),
+        statementLineId: line.id,
+        journalEntryLineId: bankLine.id,
+        amount: remaining.toFixed(2),
+        matchType: 'posted',
+        matchedBy: userId,
+      });
 
-    // Monthly profit derived purely from financial records
-    const [monthlyProductResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Product Sales'),
-      ]));
+      const [updated] = await tx
+        .update(bankStatementLines)
+        .set({ status: 'posted', journalEntryId: entry.id })
+        .where(eq(bankStatementLines.id, line.id))
+        .returning();
+      return updated;
+    });
+  }
 
-    const [monthlyLaborResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Service - Labor'),
-      ]));
+  async getBankReconciliationReport(id: string): Promise<BankReconciliationReport | undefined> {
+    const detail = await this.getBankStatement(id);
+    if (!detail) return undefined;
+    const { statement, lines } = detail;
+    const clientId = this.resolveClientId();
 
-    const [monthlyPartsIncomeResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'income'),
-        eq(financialRecords.category, 'Sales Revenue - Parts'),
-      ]));
+    const [balance] = await financeManager.getAccountBalances({ accountCodes: [statement.accountCode], endDate: statement.periodEnd });
+    const bookBalance = balance ? Number((balance.debit - balance.credit).toFixed(2)) : 0;
+
+    // Items still in transit from earlier statements carry forward, but nothing before the first import
+    const [first] = await db
+      .select({ periodStart: sql<Date>`MIN(${bankStatements.periodStart})` })
+      .from(bankStatements)
+      .where(and(eq(bankStatements.accountCode, statement.accountCode), clientId ? eq(bankStatements.clientId, clientId) : undefined));
+    const outstandingBookLines = (await financeManager.getBankBookLines({
+      accountCode: statement.accountCode,
+      startDate: first?.periodStart ? new Date(first.periodStart) : statement.periodStart,
+      endDate: statement.periodEnd,
+    })).filter(book => book.remaining !== 0);
+    const outstandingBookTotal = Number(outstandingBookLines.reduce((total, book) => total + book.remaining, 0).toFixed(2));
+
+    const unrecordedBankLines = lines.filter(line => line.remaining !== 0);
+    const unrecordedBankTotal = Number(unrecordedBankLines.reduce((total, line) => total + line.remaining, 0).toFixed(2));
+
+    const statementBalance = statement.closingBalance !== null ? Number(statement.closingBalance) : null;
+    const adjustedBankBalance = statementBalance !== null ? Number((statementBalance + outstandingBookTotal).toFixed(2)) : null;
+    const adjustedBookBalance = Number((bookBalance + unrecordedBankTotal).toFixed(2));
+    const difference = adjustedBankBalance !== null ? Number((adjustedBankBalance - adjustedBookBalance).toFixed(2)) : null;
 
-    const [monthlyDiscountResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'expense'),
-        eq(financialRecords.category, 'Sales Discount'),
-      ]));
+    return {
+      statement,
+      statementBalance,
+      bookBalance,
+      outstandingBookLines,
+      outstandingBookTotal,
+      unrecordedBankLines,
+      unrecordedBankTotal,
+      adjustedBankBalance,
+      adjustedBookBalance,
+      difference,
+      isBalanced: difference !== null && Math.abs(difference) < 0.01,
+    };
+  }
 
-    const [monthlyPosCogsResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'expense'),
-        eq(financialRecords.referenceType, 'pos_cogs'),
-      ]));
+  async completeBankReconciliation(id: string, userId: string): Promise<BankStatement> {
+    const report = await this.getBankReconciliationReport(id);
+    if (!report) throw new Error('Mutasi rekening tidak ditemukan');
+    if (report.statement.status === 'reconciled') throw new Error('Mutasi rekening sudah direkonsiliasi');
+    if (report.statementBalance === null) throw new Error('Saldo akhir rekening koran belum diisi');
+    if (report.unrecordedBankLines.length > 0) {
+      throw new Error(`Masih ada ${report.unrecordedBankLines.length} baris bank yang belum dicocokkan atau diposting`);
+    }
+    if (!report.isBalanced) throw new Error('Saldo bank dan buku belum sesuai');
 
-    const [monthlyServiceCogsResult] = await db
-      .select({ total: sum(financialRecords.amount) })
-      .from(financialRecords)
-      .where(buildFinancialConditions(startOfMonth, now, [
-        eq(financialRecords.type, 'expense'),
-        eq(financialRecords.referenceType, 'service_parts_cost'),
-      ]));
+    const [updated] = await db
+      .update(bankStatements)
+      .set({ status: 'reconciled', reconciledAt: new Date(), reconciledBy: userId, updatedAt: new Date() })
+      .where(eq(bankStatements.id, id))
+      .returning();
+    return updated;
+  }
 
-    const monthlyProductIncome = Number(monthlyProductResult?.total || 0);
-    const monthlyLaborIncome = Number(monthlyLaborResult?.total || 0);
-    const monthlyPartsIncome = Number(monthlyPartsIncomeResult?.total || 0);
-    const monthlyDiscount = Number(monthlyDiscountResult?.total || 0);
-    const monthlyPosCogs = Number(monthlyPosCogsResult?.total || 0);
-    const monthlyServiceCogs = Number(monthlyServiceCogsResult?.total || 0);
+  async getPpnReport(year: number, month: number): Promise<PpnReport> {
+    const clientId = this.resolveClientId();
+    const ledger = await financeManager.getPpnLedger(year, month);
+    const taxRate = await financeManager.getStoreTaxRate(clientId);
+    const references = (rows: PpnLedgerDocument[], types: string[]) =>
+      rows.filter((row) => types.includes(row.referenceType)).map((row) => row.reference);
 
-    const monthlySalesProfit = Number((monthlyProductIncome - monthlyPosCogs).toFixed(2));
-    const monthlyServiceProfit = Number(((monthlyLaborIncome + monthlyPartsIncome) - monthlyServiceCogs).toFixed(2));
+    const transactionIds = references(ledger.output, ['pos_sale', 'pos_return']);
+    const ticketIds = references(ledger.output, ['service_ticket']);
+    const orderIds = references(ledger.input, ['inventory_purchase']);
 
-    const totalIncome = monthlyProductIncome + monthlyLaborIncome + monthlyPartsIncome;
-    const totalExpense = monthlyPosCogs + monthlyServiceCogs + monthlyDiscount;
-    const monthlyProfit = Number((totalIncome - totalExpense).toFixed(2));
+    const transactionRows = transactionIds.length > 0
+      ? await db
+        .select({
+          id: transactions.id,
+          number: transactions.transactionNumber,
+          party: customers.name,
+          // Returned lines hand their DPP back; sale and exchange lines add to it
+          taxableAmount: sql<string>`COALESCE((
+            SELECT SUM(CASE WHEN ${transactionItems.originalItemId} IS NULL THEN ${transactionItems.taxableAmount} ELSE -${transactionItems.taxableAmount} END)
+            FROM ${transactionItems}
+            WHERE ${transactionItems.transactionId} = ${transactions.id} AND ${transactionItems.taxAmount} > 0
+          ), 0)`,
+        })
+        .from(transactions)
+        .leftJoin(customers, eq(transactions.customerId, customers.id))
+        .where(inArray(transactions.id, transactionIds))
+      : [];
+    const ticketRows = ticketIds.length > 0
+      ? await db
+        .select({
+          id: serviceTickets.id,
+          number: serviceTickets.ticketNumber,
+          party: customers.name,
+          taxableAmount: serviceTickets.taxableAmount,
+          taxAmount: serviceTickets.taxAmount,
+        })
+        .from(serviceTickets)
+        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+        .where(inArray(serviceTickets.id, ticketIds))
+      : [];
+    const orderRows = orderIds.length > 0
+      ? await db
+        .select({
+          id: purchaseOrders.id,
+          number: purchaseOrders.poNumber,
+          party: suppliers.name,
+          subtotal: purchaseOrders.subtotal,
+          taxAmount: purchaseOrders.taxAmount,
+        })
+        .from(purchaseOrders)
+        .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+        .where(inArray(purchaseOrders.id, orderIds))
+      : [];
+
+    const transactionsById = new Map(transactionRows.map((row) => [row.id, row]));
+    const ticketsById = new Map(ticketRows.map((row) => [row.id, row]));
+    const ordersById = new Map(orderRows.map((row) => [row.id, row]));
+    const taxableFromTax = (taxAmount: number) => taxRate > 0 ? Number(((taxAmount * 100) / taxRate).toFixed(2)) : 0;
+
+    const output = ledger.output.map((row): PpnReportDocument => {
+      if (row.referenceType === 'service_ticket') {
+        const ticket = ticketsById.get(row.reference);
+        return {
+          ...row,
+          number: ticket?.number ?? null,
+          party: ticket?.party ?? null,
+          taxableAmount: serviceTaxableShare(ticket, row.taxAmount),
+        };
+      }
+      const transaction = transactionsById.get(row.reference);
+      return {
+        ...row,
+        number: transaction?.number ?? null,
+        party: transaction?.party ?? null,
+        taxableAmount: Number(transaction?.taxableAmount || 0),
+      };
+    });
+    const input = ledger.input.map((row): PpnReportDocument => {
+      const order = ordersById.get(row.reference);
+      const orderTax = Number(order?.taxAmount || 0);
+      return {
+        ...row,
+        number: order?.number ?? null,
+        party: order?.party ?? null,
+        // Received goods carry PPN Masukan in proportion to the PO subtotal
+        taxableAmount: orderTax > 0
+          ? Number(((row.taxAmount * Number(order?.subtotal || 0)) / orderTax).toFixed(2))
+          : taxableFromTax(row.taxAmount),
+      };
+    });
 
-    // Get WhatsApp connection status from store config
-    const storeConfig = await this.getStoreConfig();
-    const whatsappConnected = storeConfig?.whatsappConnected || false;
+    const totalTaxable = (rows: PpnReportDocument[]) =>
+      Number(rows.reduce((total, row) => total + row.taxableAmount, 0).toFixed(2));
 
     return {
-      todaySales: todayProductSales.toFixed(2),
-      todayRevenue: todayRevenueValue.toFixed(2),
-      activeServices: activeServicesResult?.count || 0,
-      lowStockCount: lowStockResult?.count || 0,
-      monthlyProfit: monthlyProfit.toFixed(2),
-      monthlySalesProfit: monthlySalesProfit.toFixed(2),
-      monthlyServiceProfit: monthlyServiceProfit.toFixed(2),
-      whatsappConnected,
+      ...ledger,
+      taxRate,
+      outputTaxableAmount: totalTaxable(output),
+      inputTaxableAmount: totalTaxable(input),
+      output,
+      input,
     };
   }
-  
-  // Enhanced Accounting Methods Implementation
-  async getBalanceSheet(asOfDate?: Date): Promise<any> {
-    // Import and use FinanceManager to implement double-entry bookkeeping
-    const { FinanceManager } = await import('./financeManager');
-    const financeManager = new FinanceManager();
-    return await financeManager.getBalanceSheet(asOfDate);
-  }
-  
-  async getIncomeStatement(startDate?: Date, endDate?: Date): Promise<any> {
-    const { FinanceManager } = await import('./financeManager');
-    const financeManager = new FinanceManager();
-    return await financeManager.getIncomeStatement(startDate, endDate);
-  }
-  
-  async getChartOfAccounts(): Promise<any[]> {
-    const { FinanceManager } = await import('./financeManager');
-    const financeManager = new FinanceManager();
-    return await financeManager.getChartOfAccounts();
-  }
-  
-  async createJournalEntry(data: any): Promise<{ success: boolean; journalEntry?: any; error?: string }> {
-    const { FinanceManager } = await import('./financeManager');
-    const financeManager = new FinanceManager();
-    return await financeManager.createJournalEntry(data);
+
+  // Faktur Pajak Keluaran for the period, one per sale or service ticket still carrying PPN.
+  // Returns are reported to e-Faktur as nota retur and are left out here.
+  async getEFakturInvoices(year: number, month: number): Promise<EFakturInvoice[]> {
+    const ledger = await financeManager.getPpnLedger(year, month);
+    const documents = ledger.output.filter((row) =>
+      row.taxAmount > 0 && (row.referenceType === 'pos_sale' || row.referenceType === 'service_ticket'));
+
+    const saleIds = documents.filter((row) => row.referenceType === 'pos_sale').map((row) => row.reference);
+    const ticketIds = documents.filter((row) => row.referenceType === 'service_ticket').map((row) => row.reference);
+    const buyer = {
+      name: customers.name,
+      npwp: customers.npwp,
+      address: customers.address,
+    };
+
+    const saleRows = saleIds.length > 0
+      ? await db
+        .select({ id: transactions.id, number: transactions.transactionNumber, ...buyer })
+        .from(transactions)
+        .leftJoin(customers, eq(transactions.customerId, customers.id))
+        .where(inArray(transactions.id, saleIds))
+      : [];
+    const saleItems = saleIds.length > 0
+      ? await db
+        .select({
+          transactionId: transactionItems.transactionId,
+          code: products.sku,
+          name: products.name,
+          quantity: transactionItems.quantity,
+          taxableAmount: transactionItems.taxableAmount,
+          taxAmount: transactionItems.taxAmount,
+        })
+        .from(transactionItems)
+        .leftJoin(products, eq(transactionItems.productId, products.id))
+        .where(and(inArray(transactionItems.transactionId, saleIds), gt(transactionItems.taxAmount, '0')))
+      : [];
+    const ticketRows = ticketIds.length > 0
+      ? await db
+        .select({
+          id: serviceTickets.id,
+          number: serviceTickets.ticketNumber,
+          deviceType: serviceTickets.deviceType,
+          deviceBrand: serviceTickets.deviceBrand,
+          deviceModel: serviceTickets.deviceModel,
+          taxableAmount: serviceTickets.taxableAmount,
+          taxAmount: serviceTickets.taxAmount,
+          ...buyer,
+        })
+        .from(serviceTickets)
+        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+        .where(inArray(serviceTickets.id, ticketIds))
+      : [];
+
+    const salesById = new Map(saleRows.map((row) => [row.id, row]));
+    const ticketsById = new Map(ticketRows.map((row) => [row.id, row]));
+
+    return documents.flatMap((row): EFakturInvoice[] => {
+      if (row.referenceType === 'pos_sale') {
+        const sale = salesById.get(row.reference);
+        if (!sale) return [];
+        const items = saleItems
+          .filter((item) => item.transactionId === row.reference)
+          .map((item) => ({
+            code: item.code || '-',
+            name: item.name || '-',
+            quantity: item.quantity,
+            taxableAmount: Number(item.taxableAmount || 0),
+            taxAmount: Number(item.taxAmount || 0),
+          }));
+        return [{
+          reference: sale.number,
+          date: row.date,
+          buyerName: sale.name,
+          buyerNpwp: sale.npwp,
+          buyerAddress: sale.address,
+          taxableAmount: Number(items.reduce((total, item) => total + item.taxableAmount, 0).toFixed(2)),
+          taxAmount: items.reduce((total, item) => total + item.taxAmount, 0),
+          items,
+        }];
+      }
+
+      const ticket = ticketsById.get(row.reference);
+      if (!ticket) return [];
+      const taxableAmount = serviceTaxableShare(ticket, row.taxAmount);
+      const device = [ticket.deviceType, ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(' ');
+      return [{
+        reference: ticket.number,
+        date: row.date,
+        buyerName: ticket.name,
+        buyerNpwp: ticket.npwp,
+        buyerAddress: ticket.address,
+        taxableAmount,
+        taxAmount: row.taxAmount,
+        items: [{ code: ticket.number, name: `Jasa service ${device}`.trim(), quantity: 1, taxableAmount, taxAmount: row.taxAmount }],
+      }];
+    });
   }
 
   // Warranty Claims
@@ -3198,6 +9696,289 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Eligibility decides whether the warranty still stands; the end date only tells an expired warranty from a claimed one
+  private async resolveWarrantyStatus(
+    source: { transactionId?: string; serviceTicketId?: string },
+    warranty: { duration: number | null; endDate: Date | null },
+    clientId?: string | null,
+  ): Promise<WarrantyStatus> {
+    const eligibility = await this.validateWarrantyEligibility(source.transactionId, source.serviceTicketId, clientId);
+    const unlimited = (warranty.duration ?? 0) >= 9999 || !warranty.endDate;
+    const now = getCurrentJakartaTime();
+
+    if (eligibility.isValid) {
+      const expiringBy = new Date(now.getTime() + WARRANTY_EXPIRING_DAYS * 24 * 60 * 60 * 1000);
+      return !unlimited && warranty.endDate && warranty.endDate <= expiringBy ? 'expiring' : 'active';
+    }
+    if (!unlimited && warranty.endDate && now > warranty.endDate) {
+      return 'expired';
+    }
+    return 'claimed';
+  }
+
+  async getWarrantyRegistry(filters: WarrantyRegistryFilters = {}): Promise<WarrantyRegistryEntry[]> {
+    const limit = Math.min(filters.limit ?? 100, 500);
+    const pattern = filters.search?.trim() ? `%${filters.search.trim()}%` : undefined;
+    const now = new Date();
+
+    // Only expired warranties can be past their end date, so the status filter narrows rows before eligibility is checked
+    const dateFilter = (duration: AnyColumn, endDate: AnyColumn) => {
+      if (!filters.status) return undefined;
+      return filters.status === 'expired'
+        ? sql`${duration} < 9999 AND ${endDate} < ${now}`
+        : sql`(${duration} >= 9999 OR ${endDate} IS NULL OR ${endDate} >= ${now})`;
+    };
+
+    const entries: Array<Omit<WarrantyRegistryEntry, 'status'> & { clientId: string | null }> = [];
+
+    if (filters.sourceType !== 'service') {
+      const conditions: SQL[] = [eq(transactions.type, 'sale'), gt(transactions.warrantyDuration, 0)];
+      const saleDateFilter = dateFilter(transactions.warrantyDuration, transactions.warrantyEndDate);
+      if (saleDateFilter) conditions.push(saleDateFilter);
+      if (pattern) {
+        conditions.push(or(
+          ilike(products.name, pattern),
+          ilike(products.sku, pattern),
+          ilike(customers.name, pattern),
+          ilike(customers.phone, pattern),
+          ilike(transactions.transactionNumber, pattern),
+          sql`array_to_string(${transactionItems.serialNumbers}, ' ') ILIKE ${pattern}`
+        )!);
+      }
+
+      const saleRows = await db
+        .select({
+          sourceId: transactions.id,
+          clientId: transactions.clientId,
+          referenceNumber: transactions.transactionNumber,
+          customerName: customers.name,
+          customerPhone: customers.phone,
+          productId: products.id,
+          productName: products.name,
+          sku: products.sku,
+          serialNumbers: transactionItems.serialNumbers,
+          warrantyDuration: transactions.warrantyDuration,
+          startDate: transactions.warrantyStartDate,
+          endDate: transactions.warrantyEndDate,
+          certificateToken: warrantyCertificates.token,
+        })
+        .from(transactionItems)
+        .innerJoin(transactions, eq(transactionItems.transactionId, transactions.id))
+        .innerJoin(products, eq(transactionItems.productId, products.id))
+        .leftJoin(customers, eq(transactions.customerId, customers.id))
+        .leftJoin(warrantyCertificates, eq(warrantyCertificates.transactionId, transactions.id))
+        .where(and(...conditions))
+        .orderBy(asc(transactions.warrantyEndDate))
+        .limit(limit);
+
+      entries.push(...saleRows.map(row => ({
+        ...row,
+        sourceType: 'sale' as const,
+        serialNumbers: row.serialNumbers ?? [],
+        warrantyDuration: row.warrantyDuration ?? 0,
+      })));
+    }
+
+    if (filters.sourceType !== 'sale') {
+      const conditions: SQL[] = [
+        gt(serviceTickets.warrantyDuration, 0),
+        inArray(serviceTickets.status, ['completed', 'delivered']),
+      ];
+      const serviceDateFilter = dateFilter(serviceTickets.warrantyDuration, serviceTickets.warrantyEndDate);
+      if (serviceDateFilter) conditions.push(serviceDateFilter);
+      if (pattern) {
+        conditions.push(or(
+          ilike(serviceTickets.ticketNumber, pattern),
+          ilike(serviceTickets.deviceType, pattern),
+          ilike(serviceTickets.deviceBrand, pattern),
+          ilike(serviceTickets.deviceModel, pattern),
+          ilike(serviceTickets.serialNumber, pattern),
+          ilike(customers.name, pattern),
+          ilike(customers.phone, pattern)
+        )!);
+      }
+
+      const serviceRows = await db
+        .select({
+          sourceId: serviceTickets.id,
+          clientId: serviceTickets.clientId,
+          referenceNumber: serviceTickets.ticketNumber,
+          customerName: customers.name,
+          customerPhone: customers.phone,
+          deviceType: serviceTickets.deviceType,
+          deviceBrand: serviceTickets.deviceBrand,
+          deviceModel: serviceTickets.deviceModel,
+          serialNumber: serviceTickets.serialNumber,
+          warrantyDuration: serviceTickets.warrantyDuration,
+          startDate: serviceTickets.warrantyStartDate,
+          endDate: serviceTickets.warrantyEndDate,
+          certificateToken: warrantyCertificates.token,
+        })
+        .from(serviceTickets)
+        .leftJoin(customers, eq(serviceTickets.customerId, customers.id))
+        .leftJoin(warrantyCertificates, eq(warrantyCertificates.serviceTicketId, serviceTickets.id))
+        .where(and(...conditions))
+        .orderBy(asc(serviceTickets.warrantyEndDate))
+        .limit(limit);
+
+      entries.push(...serviceRows.map(({ deviceType, deviceBrand, deviceModel, serialNumber, ...row }) => ({
+        ...row,
+        sourceType: 'service' as const,
+        productId: null,
+        productName: [deviceType, deviceBrand, deviceModel].filter(Boolean).join(' '),
+        sku: null,
+        serialNumbers: serialNumber ? [serialNumber] : [],
+        warrantyDuration: row.warrantyDuration ?? 0,
+      })));
+    }
+
+    const endTime = (entry: { endDate: Date | null; warrantyDuration: number }) =>
+      entry.warrantyDuration >= 9999 || !entry.endDate ? Number.MAX_SAFE_INTEGER : entry.endDate.getTime();
+    entries.sort((a, b) => endTime(a) - endTime(b));
+
+    // A sale with several lines shares one eligibility check
+    const statusBySource = new Map<string, WarrantyStatus>();
+    const registry: WarrantyRegistryEntry[] = [];
+    for (const { clientId, ...entry } of entries.slice(0, limit)) {
+      const key = `${entry.sourceType}:${entry.sourceId}`;
+      let status = statusBySource.get(key);
+      if (!status) {
+        status = await this.resolveWarrantyStatus(
+          entry.sourceType === 'sale' ? { transactionId: entry.sourceId } : { serviceTicketId: entry.sourceId },
+          { duration: entry.warrantyDuration, endDate: entry.endDate },
+          clientId,
+        );
+        statusBySource.set(key, status);
+      }
+      if (!filters.status || filters.status === status) {
+        registry.push({ ...entry, status });
+      }
+    }
+
+    return registry;
+  }
+
+  // Certificates are issued once per sale or service and reused on every reprint
+  async issueWarrantyCertificate(
+    source: { transactionId?: string; serviceTicketId?: string },
+    userId?: string,
+  ): Promise<WarrantyCertificateDetail> {
+    const condition = source.transactionId
+      ? eq(warrantyCertificates.transactionId, source.transactionId)
+      : source.serviceTicketId
+        ? eq(warrantyCertificates.serviceTicketId, source.serviceTicketId)
+        : undefined;
+    if (!condition) {
+      throw new Error('Transaksi atau tiket servis wajib dipilih');
+    }
+
+    let [certificate] = await db.select().from(warrantyCertificates).where(condition);
+    if (!certificate) {
+      const clientId = this.resolveClientId();
+      const warrantySource = source.transactionId
+        ? await this.findTransactionWithTenantFallback(source.transactionId, clientId)
+        : await this.findServiceTicketWithTenantFallback(source.serviceTicketId!, clientId);
+      if (!warrantySource) {
+        throw new Error(source.transactionId ? 'Transaksi tidak ditemukan' : 'Tiket servis tidak ditemukan');
+      }
+      if (!warrantySource.warrantyDuration || warrantySource.warrantyDuration <= 0) {
+        throw new Error('Tidak ada garansi untuk transaksi ini');
+      }
+
+      [certificate] = await db
+        .insert(warrantyCertificates)
+        .values({
+          clientId: warrantySource.clientId,
+          certificateNumber: `GAR-${Date.now()}`,
+          token: randomBytes(24).toString('hex'),
+          transactionId: source.transactionId ?? null,
+          serviceTicketId: source.transactionId ? null : source.serviceTicketId,
+          issuedBy: userId ?? null,
+        })
+        .returning();
+    }
+
+    const detail = await this.buildWarrantyCertificateDetail(certificate);
+    if (!detail) {
+      throw new Error('Data garansi tidak ditemukan');
+    }
+    return detail;
+  }
+
+  async getWarrantyCertificateByToken(token: string): Promise<WarrantyCertificateDetail | undefined> {
+    const [certificate] = await db.select().from(warrantyCertificates).where(eq(warrantyCertificates.token, token));
+    return certificate ? this.buildWarrantyCertificateDetail(certificate) : undefined;
+  }
+
+  // Dates and status are read from the sale or ticket each time, so a certificate never shows a stale warranty
+  private async buildWarrantyCertificateDetail(certificate: WarrantyCertificate): Promise<WarrantyCertificateDetail | undefined> {
+    const getCustomerName = async (customerId: string | null) => {
+      if (!customerId) return null;
+      const [customer] = await db.select({ name: customers.name }).from(customers).where(eq(customers.id, customerId));
+      return customer?.name ?? null;
+    };
+
+    if (certificate.transactionId) {
+      const transaction = await this.findTransactionWithTenantFallback(certificate.transactionId, certificate.clientId);
+      if (!transaction) return undefined;
+
+      const items = await db
+        .select({
+          name: products.name,
+          sku: products.sku,
+          quantity: transactionItems.quantity,
+          serialNumbers: transactionItems.serialNumbers,
+        })
+        .from(transactionItems)
+        .innerJoin(products, eq(transactionItems.productId, products.id))
+        .where(eq(transactionItems.transactionId, transaction.id));
+
+      return {
+        certificate,
+        sourceType: 'sale',
+        referenceNumber: transaction.transactionNumber,
+        customerName: await getCustomerName(transaction.customerId),
+        items: items.map(item => ({ ...item, serialNumbers: item.serialNumbers ?? [] })),
+        warrantyDuration: transaction.warrantyDuration ?? 0,
+        startDate: transaction.warrantyStartDate,
+        endDate: transaction.warrantyEndDate,
+        status: await this.resolveWarrantyStatus(
+          { transactionId: transaction.id },
+          { duration: transaction.warrantyDuration, endDate: transaction.warrantyEndDate },
+          certificate.clientId,
+        ),
+      };
+    }
+
+    if (certificate.serviceTicketId) {
+      const ticket = await this.findServiceTicketWithTenantFallback(certificate.serviceTicketId, certificate.clientId);
+      if (!ticket) return undefined;
+
+      return {
+        certificate,
+        sourceType: 'service',
+        referenceNumber: ticket.ticketNumber,
+        customerName: await getCustomerName(ticket.customerId),
+        items: [{
+          name: `Servis ${[ticket.deviceType, ticket.deviceBrand, ticket.deviceModel].filter(Boolean).join(' ')}`,
+          sku: null,
+          quantity: 1,
+          serialNumbers: ticket.serialNumber ? [ticket.serialNumber] : [],
+        }],
+        warrantyDuration: ticket.warrantyDuration ?? 0,
+        startDate: ticket.warrantyStartDate,
+        endDate: ticket.warrantyEndDate,
+        status: await this.resolveWarrantyStatus(
+          { serviceTicketId: ticket.id },
+          { duration: ticket.warrantyDuration, endDate: ticket.warrantyEndDate },
+          certificate.clientId,
+        ),
+      };
+    }
+
+    return undefined;
+  }
+
   private async findTransactionWithTenantFallback(transactionId: string, clientId?: string | null) {
     if (!transactionId) {
       return null;
@@ -3542,6 +10323,8 @@ export class DatabaseStorage implements IStorage {
             : eq(products.id, productId);
 
           if (returnCondition === 'normal_stock') {
+            await this.assertStockNotFrozen(tx, [productId], originalTransaction.locationId);
+
             // Add back to normal inventory
             await tx
               .update(products)
@@ -3550,19 +10333,39 @@ export class DatabaseStorage implements IStorage {
                 updatedAt: new Date()
               })
               .where(productWhere);
+            // Returned goods go back to the location they were sold from
+            await this.adjustLocationStock(
+              tx,
+              productId,
+              originalTransaction.locationId,
+              quantity,
+              clientId ?? originalTransaction.clientId ?? null,
+            );
 
-            // Create stock movement record
-            await tx.insert(stockMovements).values({
-              productId: productId,
-              movementType: 'adjustment',
-              referenceType: 'warranty_return',
-              quantity: quantity,
+            // Returned units go back into the batches the sale drew them from
+            const allocations = await this.restoreProductBatches(tx, productId, quantity, {
               referenceId: originalTransactionId,
-              notes: `Retur garansi - kondisi barang normal, dapat dijual kembali`,
-              userId: userId,
+              fallbackCost: await this.getAveragePurchasePrice(productId, clientId ?? originalTransaction.clientId ?? null),
               clientId: clientId ?? originalTransaction.clientId ?? null,
             });
 
+            // Create stock movement record
+            for (const allocation of allocations) {
+              await tx.insert(stockMovements).values({
+                productId: productId,
+                batchId: allocation.batchId,
+                locationId: originalTransaction.locationId,
+                movementType: 'adjustment',
+                referenceType: 'warranty_return',
+                quantity: allocation.quantity,
+                unitCost: allocation.unitCost.toFixed(2),
+                referenceId: originalTransactionId,
+                notes: `Retur garansi - kondisi barang normal, dapat dijual kembali`,
+                userId: userId,
+                clientId: clientId ?? originalTransaction.clientId ?? null,
+              });
+            }
+
             // Create proper journal entries for normal stock return
             const itemValue = Number(item.unitPrice ?? 0) * quantity;
 
@@ -3669,6 +10472,57 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+
+  // Audit Log
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db
+      .insert(auditLogs)
+      .values({ ...entry, clientId: entry.clientId ?? this.resolveClientId() })
+      .returning();
+    return log;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const conditions: SQL[] = [];
+    const clientId = this.resolveClientId();
+    if (clientId) conditions.push(eq(auditLogs.clientId, clientId));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.startDate) conditions.push(gte(auditLogs.createdAt, filters.startDate));
+    if (filters.endDate) conditions.push(lte(auditLogs.createdAt, filters.endDate));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(
+        ilike(auditLogs.path, pattern),
+        ilike(auditLogs.action, pattern),
+        ilike(auditLogs.entityId, pattern),
+        ilike(auditLogs.userName, pattern),
+      ) as SQL);
+    }
+
+    const where = conditions.length ? and(...conditions) : undefined;
+    const [{ total }] = await db.select({ total: count() }).from(auditLogs).where(where);
+    const logs = await db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt))
+      .limit(Math.min(filters.limit ?? 50, 200))
+      .offset(filters.offset ?? 0);
+
+    return { logs, total: Number(total) };
+  }
+
+  async getAuditLogEntityTypes(): Promise<string[]> {
+    const clientId = this.resolveClientId();
+    const rows = await db
+      .selectDistinct({ entityType: auditLogs.entityType })
+      .from(auditLogs)
+      .where(clientId ? eq(auditLogs.clientId, clientId) : undefined)
+      .orderBy(asc(auditLogs.entityType));
+    return rows.map(row => row.entityType);
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -8,6 +8,38 @@ import fs from 'fs';
 import path from 'path';
 import { realtimeService } from './realtime';
 
+// Dynamic domain detection for different deployment scenarios; used for links sent to customers
+export function getPublicBaseUrl(): string {
+  // Check for custom domain environment variable (untuk ngrok, cloudflare, dll)
+  if (process.env.PUBLIC_URL) {
+    return process.env.PUBLIC_URL;
+  }
+  
+  // Check for Replit domains
+  if (process.env.REPLIT_DOMAINS?.split(',')[0]) {
+    return 'https://' + process.env.REPLIT_DOMAINS.split(',')[0];
+  }
+  
+  // Check for custom app URL (untuk ngrok dll)
+  if (process.env.APP_URL) {
+    return process.env.APP_URL;
+  }
+  
+  // Check for ngrok URL pattern in environment
+  if (process.env.NGROK_URL) {
+    return process.env.NGROK_URL;
+  }
+  
+  // Production domain - profesionalservis.my.id
+  if (process.env.NODE_ENV === 'production' && process.env.DOMAIN_NAME) {
+    return `https://${process.env.DOMAIN_NAME}`;
+  }
+  
+  // Fallback to localhost with current port
+  const port = process.env.PORT || '3000';
+  return `http://localhost:${port}`;
+}
+
 export class WhatsAppService {
   private socket: any = null;
   private isConnecting = false;
@@ -277,39 +309,7 @@ export class WhatsAppService {
   // Service notification templates
   async sendServiceCreatedNotification(customerPhone: string, serviceTicket: any, customer: any, storeConfig: any): Promise<boolean> {
     console.log(`📧 Attempting to send service creation notification to ${customerPhone} for ticket ${serviceTicket.ticketNumber}`);
-    // Dynamic domain detection for different deployment scenarios
-    const getBaseUrl = () => {
-      // Check for custom domain environment variable (untuk ngrok, cloudflare, dll)
-      if (process.env.PUBLIC_URL) {
-        return process.env.PUBLIC_URL;
-      }
-      
-      // Check for Replit domains
-      if (process.env.REPLIT_DOMAINS?.split(',')[0]) {
-        return 'https://' + process.env.REPLIT_DOMAINS.split(',')[0];
-      }
-      
-      // Check for custom app URL (untuk ngrok dll)
-      if (process.env.APP_URL) {
-        return process.env.APP_URL;
-      }
-      
-      // Check for ngrok URL pattern in environment
-      if (process.env.NGROK_URL) {
-        return process.env.NGROK_URL;
-      }
-      
-      // Production domain - profesionalservis.my.id
-      if (process.env.NODE_ENV === 'production' && process.env.DOMAIN_NAME) {
-        return `https://${process.env.DOMAIN_NAME}`;
-      }
-      
-      // Fallback to localhost with current port
-      const port = process.env.PORT || '3000';
-      return `http://localhost:${port}`;
-    };
-    
-    const statusUrl = `${getBaseUrl()}/service-status`;
+    const statusUrl = `${getPublicBaseUrl()}/service-status`;
     
     // Format estimated cost
     const formatCurrency = (amount: string | number) => {
@@ -494,39 +494,7 @@ ${storeConfig?.email ? `📧 ${storeConfig.email}` : ''}`;
         nextSteps = 'Status service Anda telah diperbarui. Silakan cek detail lengkap melalui link di bawah.';
     }
 
-    // Dynamic domain detection for different deployment scenarios
-    const getBaseUrl = () => {
-      // Check for custom domain environment variable (untuk ngrok, cloudflare, dll)
-      if (process.env.PUBLIC_URL) {
-        return process.env.PUBLIC_URL;
-      }
-      
-      // Check for Replit domains
-      if (process.env.REPLIT_DOMAINS?.split(',')[0]) {
-        return 'https://' + process.env.REPLIT_DOMAINS.split(',')[0];
-      }
-      
-      // Check for custom app URL (untuk ngrok dll)
-      if (process.env.APP_URL) {
-        return process.env.APP_URL;
-      }
-      
-      // Check for ngrok URL pattern in environment
-      if (process.env.NGROK_URL) {
-        return process.env.NGROK_URL;
-      }
-      
-      // Production domain - profesionalservis.my.id
-      if (process.env.NODE_ENV === 'production' && process.env.DOMAIN_NAME) {
-        return `https://${process.env.DOMAIN_NAME}`;
-      }
-      
-      // Fallback to localhost with current port
-      const port = process.env.PORT || '3000';
-      return `http://localhost:${port}`;
-    };
-    
-    const statusUrl = `${getBaseUrl()}/service-status`;
+    const statusUrl = `${getPublicBaseUrl()}/service-status`;
     
     // Build diagnosis and solution info
     let progressInfo = '';
@@ -574,6 +542,95 @@ ${storeConfig?.email ? `📧 ${storeConfig.email}` : ''}`;
     }
   }
 
+  async sendServiceQuoteNotification(
+    customerPhone: string,
+    serviceTicket: any,
+    customer: any,
+    quote: {
+      quoteNumber: string;
+      items: Array<{ productName: string; quantity: number; totalPrice: string | number }>;
+      laborCost: string | number;
+      taxAmount?: string | number;
+      totalAmount: string | number;
+      validUntil?: Date | string | null;
+    },
+    quoteUrl: string,
+    storeConfig: any,
+  ): Promise<boolean> {
+    const formatCurrency = (amount: string | number) => {
+      return new Intl.NumberFormat('id-ID', {
+        style: 'currency',
+        currency: 'IDR',
+        minimumFractionDigits: 0,
+      }).format(Number(amount));
+    };
+
+    const itemLines = quote.items
+      .map((item) => `• ${item.productName} x${item.quantity}: ${formatCurrency(item.totalPrice)}`)
+      .join('\n');
+    const validUntil = quote.validUntil
+      ? new Date(quote.validUntil).toLocaleDateString('id-ID', { year: 'numeric', month: 'long', day: 'numeric' })
+      : null;
+    // PPN on top raises the total above parts plus labor; otherwise it is already inside the prices
+    const taxAmount = Number(quote.taxAmount || 0);
+    const pricesTotal = quote.items.reduce((total, item) => total + Number(item.totalPrice), 0) + Number(quote.laborCost);
+    const taxLine = taxAmount > 0
+      ? `\n🧾 ${Number(quote.totalAmount) > pricesTotal ? 'PPN' : 'Termasuk PPN'}: ${formatCurrency(taxAmount)}`
+      : '';
+
+    const message = `📝 **PENAWARAN BIAYA PERBAIKAN**\n\nHalo ${customer.name},\n\nBerikut rincian biaya perbaikan untuk service *${serviceTicket.ticketNumber}* (${serviceTicket.deviceType}${serviceTicket.deviceBrand ? ` - ${serviceTicket.deviceBrand}` : ''}${serviceTicket.deviceModel ? ` ${serviceTicket.deviceModel}` : ''}):\n\n📋 Nomor Penawaran: *${quote.quoteNumber}*\n${itemLines ? `\n🔩 **SPAREPART:**\n${itemLines}\n` : ''}\n🔧 Biaya Jasa: ${formatCurrency(quote.laborCost)}${taxLine}\n💰 **TOTAL: ${formatCurrency(quote.totalAmount)}**${validUntil ? `\n⏳ Berlaku sampai: ${validUntil}` : ''}\n\n✅ **SETUJUI / TOLAK PENAWARAN:**\n${quoteUrl}\n\nPerbaikan akan segera kami kerjakan setelah Anda menyetujui penawaran ini.\n\n---\n🏪 **${storeConfig?.name || 'LaptopPOS Service Center'}**\n📞 ${storeConfig?.phone || 'Telepon Toko'}`;
+
+    try {
+      const result = await this.sendMessage(customerPhone, message);
+      console.log(`📝 Service quote ${result ? 'sent successfully' : 'failed'} to ${customerPhone}`);
+      return result;
+    } catch (error) {
+      console.error(`❌ Service quote notification error for ${customerPhone}:`, error);
+      return false;
+    }
+  }
+
+  async sendInstallmentReminder(
+    customerPhone: string,
+    reminder: {
+      customerName: string;
+      planNumber: string;
+      transactionNumber?: string | null;
+      terms: Array<{ termNumber: number; dueDate: Date | string; outstanding: number }>;
+    },
+    storeConfig: any,
+  ): Promise<boolean> {
+    const formatCurrency = (amount: string | number) => {
+      return new Intl.NumberFormat('id-ID', {
+        style: 'currency',
+        currency: 'IDR',
+        minimumFractionDigits: 0,
+      }).format(Number(amount));
+    };
+
+    const formatDate = (value: Date | string) => new Date(value).toLocaleDateString('id-ID', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+
+    const totalOverdue = reminder.terms.reduce((sum, term) => sum + term.outstanding, 0);
+    const termLines = reminder.terms
+      .map((term) => `• Cicilan ke-${term.termNumber} (jatuh tempo ${formatDate(term.dueDate)}): ${formatCurrency(term.outstanding)}`)
+      .join('\n');
+
+    const message = `⏰ **PENGINGAT PEMBAYARAN CICILAN**\n\nHalo ${reminder.customerName},\n\nKami mengingatkan bahwa cicilan berikut telah melewati jatuh tempo:\n\n📝 Nomor Cicilan: *${reminder.planNumber}*${reminder.transactionNumber ? `\n🧾 Transaksi: ${reminder.transactionNumber}` : ''}\n\n${termLines}\n\n💰 **Total Tertunggak:** ${formatCurrency(totalOverdue)}\n\nMohon segera melakukan pembayaran. Abaikan pesan ini jika Anda sudah membayar.\n\n---\n🏪 **${storeConfig?.name || 'LaptopPOS Service Center'}**\n📞 ${storeConfig?.phone || 'Telepon Toko'}`;
+
+    try {
+      const result = await this.sendMessage(customerPhone, message);
+      console.log(`⏰ Installment reminder ${result ? 'sent successfully' : 'failed'} to ${customerPhone}`);
+      return result;
+    } catch (error) {
+      console.error(`❌ Installment reminder error for ${customerPhone}:`, error);
+      return false;
+    }
+  }
+
   private startConnectionMonitoring() {
     // Clear existing heartbeat if any
     if (this.heartbeatInterval) {
@@ -0,0 +1,159 @@
+export const PERMISSION_VALUES = [
+  'dashboard_view',
+  'pos_access',
+  'transactions_view',
+  'transactions_create',
+  'customers_view',
+  'customers_create',
+  'customers_edit',
+  'customers_full',
+  'service_tickets_view',
+  'service_tickets_full',
+  'inventory_view',
+  'inventory_update_stock',
+  'inventory_full',
+  'purchasing_view',
+  'purchasing_full',
+  'suppliers_view',
+  'suppliers_full',
+  'financial_view',
+  'financial_full',
+  'journal_approve',
+  'reports_sales_view',
+  'reports_services_view',
+  'reports_inventory_view',
+  'reports_purchasing_view',
+  'reports_financial_view',
+  'reports_full',
+  'users_view',
+  'users_full',
+  'roles_view',
+  'roles_full',
+  'settings_view',
+  'settings_full',
+  'store_settings',
+  'whatsapp_settings',
+  'audit_view',
+  'system_admin',
+  'saas_admin',
+] as const;
+
+export type Permission = typeof PERMISSION_VALUES[number];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  dashboard_view: 'Lihat Dasbor',
+  pos_access: 'Akses Kasir (POS)',
+  transactions_view: 'Lihat Transaksi',
+  transactions_create: 'Buat Transaksi',
+  customers_view: 'Lihat Pelanggan',
+  customers_create: 'Tambah Pelanggan',
+  customers_edit: 'Ubah Pelanggan',
+  customers_full: 'Kelola Pelanggan',
+  service_tickets_view: 'Lihat Servis',
+  service_tickets_full: 'Kelola Servis',
+  inventory_view: 'Lihat Inventori',
+  inventory_update_stock: 'Update Stok',
+  inventory_full: 'Kelola Inventori',
+  purchasing_view: 'Lihat Pembelian',
+  purchasing_full: 'Kelola Pembelian',
+  suppliers_view: 'Lihat Supplier',
+  suppliers_full: 'Kelola Supplier',
+  financial_view: 'Lihat Keuangan',
+  financial_full: 'Kelola Keuangan',
+  journal_approve: 'Setujui Jurnal Manual',
+  reports_sales_view: 'Laporan Penjualan',
+  reports_services_view: 'Laporan Servis',
+  reports_inventory_view: 'Laporan Inventori',
+  reports_purchasing_view: 'Laporan Pembelian',
+  reports_financial_view: 'Laporan Keuangan',
+  reports_full: 'Semua Laporan',
+  users_view: 'Lihat Pengguna',
+  users_full: 'Kelola Pengguna',
+  roles_view: 'Lihat Peran',
+  roles_full: 'Kelola Peran',
+  settings_view: 'Lihat Pengaturan',
+  settings_full: 'Kelola Pengaturan',
+  store_settings: 'Pengaturan Toko',
+  whatsapp_settings: 'Pengaturan WhatsApp',
+  audit_view: 'Lihat Log Audit',
+  system_admin: 'Administrasi Sistem',
+  saas_admin: 'Admin SaaS',
+};
+
+// Roles saved from the old role editor used "module:action" keys
+export const LEGACY_PERMISSION_MAP: Record<string, Permission[]> = {
+  'dashboard:view': ['dashboard_view'],
+  'pos:use': ['pos_access', 'transactions_create'],
+  'pos:print': ['pos_access'],
+  'service:create': ['service_tickets_full'],
+  'service:manage': ['service_tickets_full'],
+  'service:print': ['service_tickets_view'],
+  'service:whatsapp': ['service_tickets_view'],
+  'inventory:view': ['inventory_view'],
+  'inventory:manage': ['inventory_full'],
+  'inventory:adjust': ['inventory_update_stock'],
+  'stock:movements': ['inventory_view'],
+  'financial:view': ['financial_view'],
+  'financial:manage': ['financial_full'],
+  'financial:reports': ['reports_financial_view'],
+  'customers:view': ['customers_view'],
+  'customers:manage': ['customers_full'],
+  'suppliers:view': ['suppliers_view'],
+  'suppliers:manage': ['suppliers_full'],
+  'reports:view': ['reports_full'],
+  'reports:export': ['reports_full'],
+  'settings:view': ['settings_view'],
+  'settings:manage': ['settings_full', 'store_settings'],
+  'settings:whatsapp': ['whatsapp_settings'],
+  'users:view': ['users_view'],
+  'users:manage': ['users_full'],
+  'roles:view': ['roles_view'],
+  'roles:manage': ['roles_full'],
+  'transactions:view': ['transactions_view'],
+  'transactions:create': ['transactions_create'],
+  'products:view': ['inventory_view'],
+  'products:manage': ['inventory_full'],
+  'categories:manage': ['inventory_full'],
+};
+
+const PERMISSION_SET = new Set<string>(PERMISSION_VALUES);
+
+export function normalizePermissions(permissions: readonly string[] | null | undefined): Permission[] {
+  const normalized = new Set<Permission>();
+
+  for (const permission of permissions ?? []) {
+    if (PERMISSION_SET.has(permission)) {
+      normalized.add(permission as Permission);
+      continue;
+    }
+
+    for (const mapped of LEGACY_PERMISSION_MAP[permission] ?? []) {
+      normalized.add(mapped);
+    }
+  }
+
+  return Array.from(normalized);
+}
+
+/**
+ * A `<module>_full` grant covers every `<module>_*` permission, so
+ * `reports_full` satisfies `reports_sales_view` and `inventory_full`
+ * satisfies `inventory_update_stock`.
+ */
+export function hasPermission(granted: readonly string[], required: Permission): boolean {
+  if (granted.includes(required)) {
+    return true;
+  }
+
+  return granted.some(permission => {
+    if (!permission.endsWith('_full')) {
+      return false;
+    }
+    const module = permission.slice(0, -'_full'.length);
+    return required.startsWith(`${module}_`);
+  });
+}
+
+export function hasAnyPermission(granted: readonly string[], required: readonly Permission[]): boolean {
+  return required.some(permission => hasPermission(granted, permission));
+}
@@ -12,9 +12,11 @@ import {
   decimal,
   boolean,
   pgEnum,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { BACKUP_CONSENT_VALUES, DEVICE_CONDITION_VALUES, POWER_ON_VALUES } from "./service-intake";
 
 
 // Import SaaS-specific tables and types
@@ -34,7 +36,7 @@ export const sessions = pgTable(
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['super_admin', 'admin', 'kasir', 'teknisi', 'purchasing', 'finance', 'owner']);
 export const transactionTypeEnum = pgEnum('transaction_type', ['sale', 'service', 'purchase', 'return']);
-export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'transfer', 'qris', 'installment']);
+export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'transfer', 'qris', 'installment', 'split']);
 export const serviceStatusEnum = pgEnum('service_status', [
   'pending',
   'checking',
@@ -108,6 +110,13 @@ export const storeConfig = pgTable("store_config", {
   whatsappSessionData: text("whatsapp_session_data"), // Store session data
   whatsappQR: text("whatsapp_qr"), // Store QR code
   whatsappConnected: boolean("whatsapp_connected").default(false),
+  // Inventory valuation
+  inventoryCostingMethod: varchar("inventory_costing_method").default("average"), // average, fifo
+  // Service job board
+  autoAssignTechnician: boolean("auto_assign_technician").default(true), // new tickets go to the least-loaded technician
+  slaCheckingHours: integer("sla_checking_hours").default(24), // max time in pending/checking before a ticket is flagged
+  slaWaitingPartsHours: integer("sla_waiting_parts_hours").default(72), // max time in waiting-parts before a ticket is flagged
+  serviceTaxInclusive: boolean("service_tax_inclusive").default(true), // service labor and part prices already contain PPN; off adds PPN on top
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
@@ -140,6 +149,9 @@ export const products = pgTable("products", {
   averageCost: decimal("average_cost", { precision: 12, scale: 2 }), // calculated COGS
   sellingPrice: decimal("selling_price", { precision: 12, scale: 2 }),
   marginPercent: decimal("margin_percent", { precision: 5, scale: 2 }),
+  // PPN: selling price already includes tax, or the product is not subject to PPN at all
+  taxInclusive: boolean("tax_inclusive").default(false),
+  taxExempt: boolean("tax_exempt").default(false),
   
   // Stock management
   stock: integer("stock").default(0), // Main stock field for purchasing integration
@@ -164,6 +176,7 @@ export const products = pgTable("products", {
   weight: decimal("weight", { precision: 8, scale: 3 }),
   dimensions: varchar("dimensions"), // LxWxH format
   supplierProductCode: varchar("supplier_product_code"),
+  preferredSupplierId: varchar("preferred_supplier_id").references(() => suppliers.id), // default supplier for reorders
   notes: text("notes"),
   
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
@@ -178,6 +191,7 @@ export const customers = pgTable("customers", {
   email: varchar("email"),
   phone: varchar("phone"),
   address: text("address"),
+  npwp: varchar("npwp", { length: 20 }), // buyer tax ID for e-Faktur; empty for end consumers
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
@@ -246,6 +260,9 @@ export const transactions = pgTable("transactions", {
   total: decimal("total", { precision: 12, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull().default('0.00'),
   paymentMethod: paymentMethodEnum("payment_method"),
+  locationId: varchar("location_id").references(() => locations.id), // store/warehouse the goods left from
+  originalTransactionId: varchar("original_transaction_id"), // returns: the sale being returned or exchanged
+  shiftId: varchar("shift_id").references(() => cashierShifts.id), // cashier shift the sale was rung up in
   notes: text("notes"),
   // Warranty fields
   warrantyDuration: integer("warranty_duration"), // Duration in days
@@ -263,6 +280,143 @@ export const transactionItems = pgTable("transaction_items", {
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  serialNumbers: text("serial_numbers").array(), // units sold on this line (serial tracked products)
+  // PPN on the line after the order discount; null on lines sold before PPN was tracked per item
+  taxableAmount: decimal("taxable_amount", { precision: 12, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }),
+  // Return transactions only
+  originalItemId: varchar("original_item_id"), // sale line the goods came back from
+  returnCondition: varchar("return_condition"), // normal_stock, damaged_stock; null = exchange item handed out
+});
+
+// Transaction Payments - one line per tender used to settle a sale (split / mixed payments)
+export const transactionPayments = pgTable("transaction_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  transactionId: varchar("transaction_id").references(() => transactions.id).notNull(),
+  paymentMethod: varchar("payment_method").notNull(), // cash, transfer, qris, installment
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // applied to the sale
+  tenderedAmount: decimal("tendered_amount", { precision: 12, scale: 2 }), // cash handed over by the customer
+  changeAmount: decimal("change_amount", { precision: 12, scale: 2 }).default('0.00'),
+  reference: varchar("reference"), // transfer / QRIS reference number
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Installment Plans - Customer receivable (cicilan) attached to a sale
+export const installmentPlans = pgTable("installment_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  planNumber: varchar("plan_number").notNull(),
+  transactionId: varchar("transaction_id").references(() => transactions.id).notNull(),
+  customerId: varchar("customer_id").references(() => customers.id).notNull(),
+
+  // Amounts
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  downPayment: decimal("down_payment", { precision: 12, scale: 2 }).default('0.00'),
+  financedAmount: decimal("financed_amount", { precision: 12, scale: 2 }).notNull(),
+  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).default('0.00'), // excludes down payment
+  outstandingAmount: decimal("outstanding_amount", { precision: 12, scale: 2 }).notNull(),
+
+  // Terms
+  numberOfTerms: integer("number_of_terms").notNull(),
+  frequency: varchar("frequency").default("monthly"), // weekly, monthly
+  firstDueDate: timestamp("first_due_date", { withTimezone: true }).notNull(),
+
+  status: varchar("status").default("active"), // active, paid, cancelled
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Installment Schedules - One row per due term
+export const installmentSchedules = pgTable("installment_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  planId: varchar("plan_id").references(() => installmentPlans.id).notNull(),
+  termNumber: integer("term_number").notNull(),
+  dueDate: timestamp("due_date", { withTimezone: true }).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  paidAmount: decimal("paid_amount", { precision: 12, scale: 2 }).default('0.00'),
+  status: varchar("status").default("pending"), // pending, partial, paid, overdue
+  paidAt: timestamp("paid_at", { withTimezone: true }),
+  lastReminderAt: timestamp("last_reminder_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Installment Payments - Cash/bank received against a plan
+export const installmentPayments = pgTable("installment_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  planId: varchar("plan_id").references(() => installmentPlans.id).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  paymentMethod: varchar("payment_method").default("cash"), // cash, bank_transfer, ...
+  paymentType: varchar("payment_type").default("installment"), // down_payment, installment
+  paymentDate: timestamp("payment_date", { withTimezone: true }).default(sql`now()`),
+  journalEntryId: varchar("journal_entry_id"),
+  notes: text("notes"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Cashier Shifts - One cash drawer session per cashier
+export const cashierShifts = pgTable("cashier_shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  shiftNumber: varchar("shift_number").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: varchar("location_id").references(() => locations.id),
+  status: varchar("status").default("open"), // open, closed
+
+  openingFloat: decimal("opening_float", { precision: 12, scale: 2 }).notNull().default('0.00'),
+  openedAt: timestamp("opened_at", { withTimezone: true }).default(sql`now()`),
+
+  // Filled in when the drawer is counted at close (Z report)
+  expectedCash: decimal("expected_cash", { precision: 12, scale: 2 }),
+  countedCash: decimal("counted_cash", { precision: 12, scale: 2 }),
+  cashDifference: decimal("cash_difference", { precision: 12, scale: 2 }), // counted - expected; negative = short
+  closedAt: timestamp("closed_at", { withTimezone: true }),
+  closedBy: varchar("closed_by").references(() => users.id),
+  journalEntryId: varchar("journal_entry_id"), // over/short posting
+
+  notes: text("notes"),
+  closingNotes: text("closing_notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Shift Cash Movements - Petty cash paid out of / put into the drawer during a shift
+export const shiftCashMovements = pgTable("shift_cash_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  shiftId: varchar("shift_id").references(() => cashierShifts.id).notNull(),
+  type: varchar("type").notNull(), // cash_in, cash_out
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  journalEntryId: varchar("journal_entry_id"),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Parked Carts - POS carts put on hold so the cashier can serve another customer
+export const parkedCarts = pgTable("parked_carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  cartNumber: varchar("cart_number").notNull(),
+  label: varchar("label"),
+  customerId: varchar("customer_id").references(() => customers.id),
+  locationId: varchar("location_id").references(() => locations.id),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  status: varchar("status").default("parked"), // parked, resumed, expired, cancelled
+  items: jsonb("items").notNull(), // [{ productId, name, quantity, unitPrice, serialNumbers }]
+  settings: jsonb("settings"), // payment method, discount, warranty and installment terms
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).default('0.00'),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  resumedAt: timestamp("resumed_at", { withTimezone: true }),
+  resumedBy: varchar("resumed_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
 
 // Service Tickets
@@ -276,6 +430,9 @@ export const serviceTickets = pgTable("service_tickets", {
   deviceModel: varchar("device_model"),
   serialNumber: varchar("serial_number"),
   completeness: text("completeness"),
+  intakeChecklist: jsonb("intake_checklist"), // accessories, condition per area, power-on test and consents recorded at drop-off
+  intakeSignature: text("intake_signature"), // customer's signature on the intake receipt (PNG data URL)
+  handoverCheck: jsonb("handover_check"), // accessories returned at pickup, checked against intakeChecklist
   problem: text("problem").notNull(),
   diagnosis: text("diagnosis"),
   solution: text("solution"),
@@ -283,10 +440,15 @@ export const serviceTickets = pgTable("service_tickets", {
   actualCost: decimal("actual_cost", { precision: 12, scale: 2 }),
   laborCost: decimal("labor_cost", { precision: 12, scale: 2 }),
   partsCost: decimal("parts_cost", { precision: 12, scale: 2 }),
+  // PPN booked when the ticket was completed; the mode is kept so receipts and reports do not follow later setting changes
+  taxableAmount: decimal("taxable_amount", { precision: 12, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }),
+  taxInclusive: boolean("tax_inclusive"),
   status: serviceStatusEnum("status").default('pending'),
   technicianId: varchar("technician_id").references(() => users.id),
   estimatedCompletion: timestamp("estimated_completion", { withTimezone: true }).default(sql`now()`),
   completedAt: timestamp("completed_at", { withTimezone: true }).default(sql`now()`),
+  statusChangedAt: timestamp("status_changed_at", { withTimezone: true }).default(sql`now()`), // drives SLA timers on the job board
   // Warranty fields
   warrantyDuration: integer("warranty_duration"), // Duration in days
   warrantyStartDate: timestamp("warranty_start_date", { withTimezone: true }).default(sql`now()`),
@@ -312,9 +474,78 @@ export const serviceTicketParts = pgTable("service_ticket_parts", {
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 12, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 12, scale: 2 }).notNull(),
+  reservedQuantity: integer("reserved_quantity").default(0), // held in products.reserved_stock until consumed or released
+  reservedBatches: jsonb("reserved_batches"), // [{ batchId, quantity }] held in product_batches.reserved_quantity
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Service status history - one row per status change or progress note on a ticket
+export const serviceStatusHistory = pgTable("service_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  serviceTicketId: varchar("service_ticket_id").references(() => serviceTickets.id), // cleared when the ticket is deleted
+  ticketNumber: varchar("ticket_number"), // set when the ticket is deleted so the history stays attributable
+  fromStatus: varchar("from_status"), // null for the entry written when the ticket is created
+  toStatus: varchar("to_status").notNull(),
+  note: text("note"),
+  photos: jsonb("photos").$type<string[]>().default(sql`'[]'::jsonb`), // object storage paths (/objects/...)
+  diagnosis: text("diagnosis"), // snapshot when the entry changed it
+  solution: text("solution"), // snapshot when the entry changed it
+  customerVisible: boolean("customer_visible").default(true), // shown on the public status page
+  changedBy: varchar("changed_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_service_status_history_ticket").on(table.serviceTicketId, table.createdAt),
+]);
+
+// Service quotes - itemised repair estimates the customer approves or rejects through a public link
+export const serviceQuotes = pgTable("service_quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  serviceTicketId: varchar("service_ticket_id").references(() => serviceTickets.id).notNull(),
+  quoteNumber: varchar("quote_number").notNull(),
+  status: varchar("status").notNull().default('sent'), // sent, approved, rejected, superseded
+  items: jsonb("items").notNull(), // [{ productId, productName, quantity, unitPrice, totalPrice }]
+  partsTotal: decimal("parts_total", { precision: 12, scale: 2 }).notNull().default('0'),
+  laborCost: decimal("labor_cost", { precision: 12, scale: 2 }).notNull().default('0'),
+  taxAmount: decimal("tax_amount", { precision: 12, scale: 2 }).notNull().default('0'), // PPN in (inclusive) or on top of (exclusive) the total
+  totalAmount: decimal("total_amount", { precision: 12, scale: 2 }).notNull(),
+  notes: text("notes"),
+  token: varchar("token").notNull().unique(), // secret used in the customer's approval link
+  validUntil: timestamp("valid_until", { withTimezone: true }),
+  sentAt: timestamp("sent_at", { withTimezone: true }), // last time the link went out over WhatsApp
+  respondedAt: timestamp("responded_at", { withTimezone: true }),
+  responseNote: text("response_note"),
+  responseIp: varchar("response_ip"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_service_quotes_ticket").on(table.serviceTicketId),
+]);
+
+// Service part requests - parts a waiting-parts ticket needs, collected into draft purchase orders per supplier
+export const servicePartRequests = pgTable("service_part_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  serviceTicketId: varchar("service_ticket_id").references(() => serviceTickets.id).notNull(),
+  productId: varchar("product_id").references(() => products.id), // null for free-text parts not yet in the catalog
+  description: text("description"), // what the technician asked for when there is no product
+  quantity: integer("quantity").notNull().default(1),
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // overrides the product's preferred supplier
+  status: varchar("status").notNull().default('pending'), // pending, ordered, received, cancelled
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id),
+  notes: text("notes"),
+  requestedBy: varchar("requested_by").references(() => users.id),
+  receivedAt: timestamp("received_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_service_part_requests_ticket").on(table.serviceTicketId),
+  index("IDX_service_part_requests_po_item").on(table.purchaseOrderItemId),
+]);
+
 // Warranty Claims - Track warranty claims for both sales and service
 export const warrantyClaims = pgTable("warranty_claims", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -350,6 +581,21 @@ export const warrantyClaims = pgTable("warranty_claims", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Warranty Certificates - printable proof of a sale or service warranty, verified publicly by token
+export const warrantyCertificates = pgTable("warranty_certificates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  certificateNumber: varchar("certificate_number").notNull(),
+  token: varchar("token").notNull().unique(), // secret in the certificate's QR code
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  serviceTicketId: varchar("service_ticket_id").references(() => serviceTickets.id),
+  issuedBy: varchar("issued_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  uniqueIndex("UQ_warranty_certificates_transaction").on(table.transactionId),
+  uniqueIndex("UQ_warranty_certificates_service_ticket").on(table.serviceTicketId),
+]);
+
 // Product Locations - Warehouse/Location management
 export const locations = pgTable("locations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -362,6 +608,50 @@ export const locations = pgTable("locations", {
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Product Location Stocks - On-hand balance per location (products.stock stays the company total)
+export const productLocationStocks = pgTable("product_location_stocks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  locationId: varchar("location_id").references(() => locations.id).notNull(),
+  quantity: integer("quantity").notNull().default(0),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  uniqueIndex("UQ_product_location_stocks_product_location").on(table.productId, table.locationId),
+]);
+
+// Stock Transfers - Moving stock between locations (showroom <-> warehouse)
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  transferNumber: varchar("transfer_number").notNull(),
+  fromLocationId: varchar("from_location_id").references(() => locations.id).notNull(),
+  toLocationId: varchar("to_location_id").references(() => locations.id).notNull(),
+  status: varchar("status").default("draft"), // draft, in_transit, received, cancelled
+  notes: text("notes"),
+
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  shippedBy: varchar("shipped_by").references(() => users.id),
+  shippedAt: timestamp("shipped_at", { withTimezone: true }),
+  receivedBy: varchar("received_by").references(() => users.id),
+  receivedAt: timestamp("received_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Stock Transfer Items
+export const stockTransferItems = pgTable("stock_transfer_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  transferId: varchar("transfer_id").references(() => stockTransfers.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  receivedQuantity: integer("received_quantity").default(0),
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+});
+
 // Product Batches/Lots - For batch tracking
 export const productBatches = pgTable("product_batches", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -396,6 +686,33 @@ export const productBatches = pgTable("product_batches", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Product Serials - One row per physical unit of a serial tracked product
+export const productSerials = pgTable("product_serials", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  batchId: varchar("batch_id").references(() => productBatches.id),
+  serialNumber: varchar("serial_number").notNull(),
+  status: varchar("status").default("in_stock"), // in_stock, sold, returned, damaged
+
+  // Receiving
+  purchaseOrderId: varchar("purchase_order_id"),
+  purchaseOrderItemId: varchar("purchase_order_item_id"),
+  receivedAt: timestamp("received_at", { withTimezone: true }).default(sql`now()`),
+
+  // Sale
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  transactionItemId: varchar("transaction_item_id").references(() => transactionItems.id),
+  soldAt: timestamp("sold_at", { withTimezone: true }),
+
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  uniqueIndex("UQ_product_serials_product_serial").on(table.productId, table.serialNumber),
+  index("IDX_product_serials_serial").on(table.serialNumber),
+]);
+
 // Purchase Orders - Comprehensive purchasing system
 export const purchaseOrders = pgTable("purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -471,6 +788,72 @@ export const purchaseOrderItems = pgTable("purchase_order_items", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Supplier Bills - Accounts payable created when PO goods are received on credit
+export const supplierBills = pgTable("supplier_bills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  billNumber: varchar("bill_number").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+  purchaseOrderItemId: varchar("purchase_order_item_id").references(() => purchaseOrderItems.id),
+
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  paidAmount: decimal("paid_amount", { precision: 15, scale: 2 }).default('0.00'),
+  outstandingAmount: decimal("outstanding_amount", { precision: 15, scale: 2 }).notNull(),
+
+  billDate: timestamp("bill_date", { withTimezone: true }).default(sql`now()`),
+  dueDate: timestamp("due_date", { withTimezone: true }).notNull(),
+  status: varchar("status").default("unpaid"), // unpaid, partial, paid
+
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Supplier Payments - Cash/bank paid against a supplier bill
+export const supplierPayments = pgTable("supplier_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  billId: varchar("bill_id").references(() => supplierBills.id).notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  paymentMethod: varchar("payment_method").default("cash"), // cash, bank_transfer, supplier_credit (RMA credit note)
+  paymentDate: timestamp("payment_date", { withTimezone: true }).default(sql`now()`),
+  reference: varchar("reference"), // transfer slip, giro number, etc
+  journalEntryId: varchar("journal_entry_id"),
+  notes: text("notes"),
+  userId: varchar("user_id").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Supplier RMAs - Defective stock sent back to the supplier under vendor warranty
+export const supplierRmas = pgTable("supplier_rmas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  rmaNumber: varchar("rma_number").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+  stockMovementId: varchar("stock_movement_id"), // damaged-goods movement the units came from
+  batchId: varchar("batch_id").references(() => productBatches.id), // batch the units were originally received in
+  quantity: integer("quantity").notNull(),
+  serialNumbers: text("serial_numbers").array(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }).notNull(), // value written off as damaged
+  status: varchar("status").notNull().default('pending'), // pending, shipped, repaired, replaced, credited, rejected
+  trackingNumber: varchar("tracking_number"),
+  shippedAt: timestamp("shipped_at", { withTimezone: true }),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+  replacementSerialNumbers: text("replacement_serial_numbers").array(),
+  creditAmount: decimal("credit_amount", { precision: 15, scale: 2 }),
+  journalEntryId: varchar("journal_entry_id"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_supplier_rmas_supplier").on(table.supplierId),
+  index("IDX_supplier_rmas_movement").on(table.stockMovementId),
+]);
+
 // Stock Movements - Enhanced tracking system
 export const stockMovements = pgTable("stock_movements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -485,6 +868,7 @@ export const stockMovements = pgTable("stock_movements", {
   movementType: varchar("movement_type").notNull(), // in, out, transfer, adjustment
   quantity: integer("quantity").notNull(),
   unitCost: decimal("unit_cost", { precision: 12, scale: 2 }),
+  serialNumbers: text("serial_numbers").array(), // units moved (serial tracked products)
   
   // References
   referenceId: varchar("reference_id"), // PO ID, Sale ID, Adjustment ID, etc
@@ -545,6 +929,50 @@ export const inventoryAdjustmentItems = pgTable("inventory_adjustment_items", {
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Stock Count Sessions - Stock opname that snapshots system quantities and ends in one recount adjustment
+export const stockCountSessions = pgTable("stock_count_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  sessionNumber: varchar("session_number").notNull(),
+
+  // Scope - empty means all active products
+  locationId: varchar("location_id").references(() => locations.id),
+  categoryId: varchar("category_id").references(() => categories.id),
+
+  status: varchar("status").default("counting"), // counting, submitted, approved, cancelled
+  freezeMovements: boolean("freeze_movements").default(false), // block sales/transfers of counted products instead of flagging them
+  adjustmentId: varchar("adjustment_id").references(() => inventoryAdjustments.id),
+
+  startedBy: varchar("started_by").references(() => users.id).notNull(),
+  startedAt: timestamp("started_at", { withTimezone: true }).default(sql`now()`),
+  submittedAt: timestamp("submitted_at", { withTimezone: true }),
+
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+// Stock Count Items - One row per product in scope, snapshot taken when the session starts
+export const stockCountItems = pgTable("stock_count_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  sessionId: varchar("session_id").references(() => stockCountSessions.id).notNull(),
+  productId: varchar("product_id").references(() => products.id).notNull(),
+
+  systemQuantity: integer("system_quantity").notNull(), // snapshot at session start
+  countedQuantity: integer("counted_quantity"), // null until the product is scanned/counted
+  expectedQuantity: integer("expected_quantity"), // system quantity when the session was submitted
+  movementCount: integer("movement_count").default(0), // movements recorded while counting, frozen on submit
+  unitCost: decimal("unit_cost", { precision: 12, scale: 2 }),
+
+  countedBy: varchar("counted_by").references(() => users.id),
+  lastCountedAt: timestamp("last_counted_at", { withTimezone: true }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  uniqueIndex("UQ_stock_count_items_session_product").on(table.sessionId, table.productId),
+]);
+
 // Financial Records - Complete rebuild
 // Financial Records - Legacy compatibility (keep for migration)
 export const financialRecords = pgTable("financial_records", {
@@ -561,6 +989,7 @@ export const financialRecords = pgTable("financial_records", {
   journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id), // Link to journal entry
   paymentMethod: varchar("payment_method", { length: 50 }), // cash, bank_transfer, credit_card, etc.
   status: varchar("status", { length: 20 }).default("confirmed"), // pending, confirmed, cancelled
+  reversalOfId: varchar("reversal_of_id"), // Set on the offsetting record that reverses another one
   tags: text("tags").array(), // For better categorization
   userId: varchar("user_id").references(() => users.id).notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
@@ -594,8 +1023,12 @@ export const journalEntries = pgTable("journal_entries", {
   reference: varchar("reference"), // Reference to source transaction
   referenceType: varchar("reference_type", { length: 50 }), // sale, purchase, service, payroll, etc.
   totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
-  status: varchar("status", { length: 20 }).default("posted"), // draft, posted, reversed
+  status: varchar("status", { length: 20 }).default("posted"), // draft, posted, reversed, rejected
+  reversalOfId: varchar("reversal_of_id"), // Set on the mirror entry that reverses another journal
   userId: varchar("user_id").references(() => users.id).notNull(),
+  approvedBy: varchar("approved_by").references(() => users.id), // Manual journals are posted by a second user
+  approvedAt: timestamp("approved_at", { withTimezone: true }),
+  rejectionReason: text("rejection_reason"),
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
@@ -612,6 +1045,78 @@ export const journalEntryLines = pgTable("journal_entry_lines", {
   createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Fiscal Periods - monthly accounting periods; closed periods are reported, locked ones are final
+export const fiscalPeriods = pgTable("fiscal_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  periodStart: timestamp("period_start", { withTimezone: true }).notNull(),
+  periodEnd: timestamp("period_end", { withTimezone: true }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, closed, locked
+  closedAt: timestamp("closed_at", { withTimezone: true }),
+  closedBy: varchar("closed_by").references(() => users.id),
+  lockedAt: timestamp("locked_at", { withTimezone: true }),
+  lockedBy: varchar("locked_by").references(() => users.id),
+  // Set on the December period once the year's result is rolled into retained earnings
+  yearClosedAt: timestamp("year_closed_at", { withTimezone: true }),
+  yearEndJournalId: varchar("year_end_journal_id"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  uniqueIndex("UQ_fiscal_periods_client_month").on(table.clientId, table.year, table.month),
+]);
+
+// Bank Statements - imported statement files for reconciling a bank account (1112 Bank by default)
+export const bankStatements = pgTable("bank_statements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  accountCode: varchar("account_code", { length: 20 }).notNull().default("1112"),
+  fileName: varchar("file_name", { length: 255 }),
+  format: varchar("format", { length: 10 }).notNull(), // csv, ofx
+  periodStart: timestamp("period_start", { withTimezone: true }).notNull(),
+  periodEnd: timestamp("period_end", { withTimezone: true }).notNull(),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  status: varchar("status", { length: 20 }).notNull().default("open"), // open, reconciled
+  importedBy: varchar("imported_by").references(() => users.id),
+  reconciledAt: timestamp("reconciled_at", { withTimezone: true }),
+  reconciledBy: varchar("reconciled_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
+});
+
+export const bankStatementLines = pgTable("bank_statement_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  statementId: varchar("statement_id").references(() => bankStatements.id).notNull(),
+  date: timestamp("date", { withTimezone: true }).notNull(),
+  description: text("description").notNull(),
+  bankReference: varchar("bank_reference", { length: 100 }), // FITID or the bank's own reference
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // positive = money in, negative = money out
+  status: varchar("status", { length: 20 }).notNull().default("unmatched"), // unmatched, matched, posted
+  // Journal posted from this line when the ledger had no counterpart (bank fees, interest)
+  journalEntryId: varchar("journal_entry_id").references(() => journalEntries.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_bank_statement_lines_statement").on(table.statementId),
+]);
+
+// Links a statement line to the bank-account journal lines it clears; several rows split one line
+export const bankReconciliationMatches = pgTable("bank_reconciliation_matches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  statementLineId: varchar("statement_line_id").references(() => bankStatementLines.id).notNull(),
+  journalEntryLineId: varchar("journal_entry_line_id").references(() => journalEntryLines.id).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(), // signed like the statement line
+  matchType: varchar("match_type", { length: 10 }).notNull(), // auto, manual, posted
+  matchedBy: varchar("matched_by").references(() => users.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_bank_reconciliation_matches_line").on(table.statementLineId),
+  index("IDX_bank_reconciliation_matches_journal_line").on(table.journalEntryLineId),
+]);
+
 // Employees for Payroll
 export const employees = pgTable("employees", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -679,6 +1184,30 @@ export const attendanceRecords = pgTable("attendance_records", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).default(sql`now()`),
 });
 
+// Audit Logs - append-only trail of mutating API calls inside a store
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  clientId: varchar("client_id"), // Add tenant ID for SaaS multi-tenancy
+  userId: varchar("user_id"),
+  userName: varchar("user_name"), // snapshot so the entry stays readable after the user is removed
+  source: varchar("source").notNull().default("web"), // web, mobile
+  entityType: varchar("entity_type").notNull(), // products, service-tickets, inventory-adjustments, ...
+  entityId: varchar("entity_id"),
+  action: varchar("action").notNull(), // create, update, delete, approve, pricing.update, ...
+  method: varchar("method", { length: 10 }).notNull(),
+  path: text("path").notNull(),
+  statusCode: integer("status_code"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  changes: jsonb("changes"), // { field: { from, to } } for fields that differ between before and after
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { withTimezone: true }).default(sql`now()`),
+}, (table) => [
+  index("IDX_audit_logs_entity").on(table.entityType, table.entityId),
+  index("IDX_audit_logs_created_at").on(table.createdAt),
+]);
+
 // Relations  
 export const usersRelations = relations(users, ({ many }) => ({
   transactions: many(transactions),
@@ -940,6 +1469,13 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   warrantyEndDate: z.coerce.date().nullable().optional(),
 });
 
+export const transactionPaymentInputSchema = z.object({
+  paymentMethod: z.enum(["cash", "transfer", "qris"]),
+  // For cash this is the amount handed over; anything above the balance due is returned as change
+  amount: transformNumericField("0"),
+  reference: z.string().optional(),
+});
+
 export const insertTransactionItemSchema = createInsertSchema(transactionItems).omit({
   id: true,
   transactionId: true, // This will be set by the server
@@ -949,10 +1485,120 @@ export const insertTransactionItemSchema = createInsertSchema(transactionItems).
   totalPrice: transformNumericField("0.00"),
 });
 
+// Installment terms supplied with an installment sale
+export const installmentPlanInputSchema = z.object({
+  downPayment: transformNumericField("0.00"),
+  numberOfTerms: transformIntegerField(1).pipe(z.number().int().min(1).max(60)),
+  frequency: z.enum(["weekly", "monthly"]).default("monthly"),
+  firstDueDate: z.coerce.date().optional(),
+  downPaymentMethod: z.string().default("cash"),
+  notes: z.string().optional(),
+});
+
+export const salesReturnInputSchema = z.object({
+  originalTransactionId: z.string().min(1, "Transaksi asal wajib dipilih"),
+  items: z.array(z.object({
+    transactionItemId: z.string().min(1),
+    quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+    condition: z.enum(["normal_stock", "damaged_stock"]).default("normal_stock"),
+    serialNumbers: z.array(z.string()).optional(),
+  })).min(1, "Pilih minimal satu item yang diretur"),
+  exchangeItems: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+    unitPrice: transformNumericField("0"),
+    serialNumbers: z.array(z.string()).optional(),
+  })).default([]),
+  locationId: z.string().nullable().optional(),
+  reason: z.string().optional(),
+});
+
+export const insertInstallmentPaymentSchema = createInsertSchema(installmentPayments).omit({
+  id: true,
+  planId: true,
+  paymentType: true,
+  journalEntryId: true,
+  createdAt: true,
+}).extend({
+  amount: transformNumericField("0.00"),
+  paymentDate: z.coerce.date().optional(),
+});
+
+export const openCashierShiftSchema = z.object({
+  openingFloat: transformNumericField("0.00"),
+  locationId: z.string().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+export const closeCashierShiftSchema = z.object({
+  countedCash: transformNumericField("0.00"),
+  closingNotes: z.string().optional(),
+});
+
+export const insertShiftCashMovementSchema = createInsertSchema(shiftCashMovements).omit({
+  id: true,
+  shiftId: true,
+  journalEntryId: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(["cash_in", "cash_out"]),
+  amount: transformNumericField("0.00"),
+  reason: z.string().min(1, "Keterangan wajib diisi"),
+});
+
+export const parkCartSchema = z.object({
+  label: z.string().optional(),
+  customerId: z.string().nullable().optional(),
+  locationId: z.string().nullable().optional(),
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    name: z.string().optional(),
+    quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+    unitPrice: transformNumericField("0"),
+    serialNumbers: z.array(z.string()).optional(),
+  })).min(1, "Keranjang masih kosong"),
+  settings: z.record(z.any()).optional(),
+});
+
+export const serviceIntakeChecklistSchema = z.object({
+  accessories: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    present: z.boolean(),
+    note: z.string().trim().max(200).optional(),
+  })).default([]),
+  condition: z.array(z.object({
+    area: z.string().trim().min(1).max(100),
+    status: z.enum(DEVICE_CONDITION_VALUES),
+    note: z.string().trim().max(200).optional(),
+  })).default([]),
+  powerOn: z.enum(POWER_ON_VALUES).default('not-tested'),
+  powerOnNote: z.string().trim().max(500).optional(),
+  passwordProvided: z.boolean().default(false),
+  passwordConsent: z.boolean().default(false), // customer allows technicians to unlock the device
+  backupConsent: z.enum(BACKUP_CONSENT_VALUES).default('no-backup'),
+  photos: z.array(z.string().min(1)).max(10).default([]),
+  notes: z.string().trim().max(2000).optional(),
+});
+
+export const serviceHandoverCheckSchema = z.object({
+  accessories: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    returned: z.boolean(),
+  })).default([]),
+  conditionConfirmed: z.boolean(), // customer checked the device matches the intake condition
+  note: z.string().trim().max(2000).optional(),
+  acceptMissing: z.boolean().default(false), // hand over even though intake accessories are not returned
+});
+
 export const insertServiceTicketSchema = createInsertSchema(serviceTickets).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  handoverCheck: true, // only written by the handover check at pickup
+  taxableAmount: true, // only written when the ticket is booked
+  taxAmount: true,
+  taxInclusive: true,
 }).extend({
   ticketNumber: z.string().optional(), // Auto-generated by server, but needed for storage method
   estimatedCost: transformNullableDecimalField().optional(),
@@ -963,6 +1609,7 @@ export const insertServiceTicketSchema = createInsertSchema(serviceTickets).omit
   warrantyDuration: transformIntegerField().optional(),
   warrantyStartDate: z.coerce.date().nullable().optional(),
   warrantyEndDate: z.coerce.date().nullable().optional(),
+  intakeChecklist: serviceIntakeChecklistSchema.nullable().optional(),
 });
 
 export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
@@ -978,6 +1625,27 @@ export const insertLocationSchema = createInsertSchema(locations).omit({
   createdAt: true,
 });
 
+export const insertStockTransferSchema = createInsertSchema(stockTransfers).omit({
+  id: true,
+  transferNumber: true,
+  status: true,
+  shippedBy: true,
+  shippedAt: true,
+  receivedBy: true,
+  receivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertStockTransferItemSchema = createInsertSchema(stockTransferItems).omit({
+  id: true,
+  transferId: true,
+  receivedQuantity: true,
+  createdAt: true,
+}).extend({
+  quantity: transformIntegerField(1),
+});
+
 export const insertProductBatchSchema = createInsertSchema(productBatches).omit({
   id: true,
   createdAt: true,
@@ -989,6 +1657,12 @@ export const insertProductBatchSchema = createInsertSchema(productBatches).omit(
   reservedQuantity: transformIntegerField(0),
 });
 
+export const insertProductSerialSchema = createInsertSchema(productSerials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({
   id: true,
   createdAt: true,
@@ -1014,6 +1688,17 @@ export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderIte
   totalPrice: transformNumericField("0.00").optional(),
 });
 
+export const insertSupplierPaymentSchema = createInsertSchema(supplierPayments).omit({
+  id: true,
+  billId: true,
+  supplierId: true,
+  journalEntryId: true,
+  createdAt: true,
+}).extend({
+  amount: transformNumericField("0.00"),
+  paymentDate: z.coerce.date().optional(),
+});
+
 export const insertInventoryAdjustmentSchema = createInsertSchema(inventoryAdjustments).omit({
   id: true,
   createdAt: true,
@@ -1032,15 +1717,95 @@ export const insertInventoryAdjustmentItemSchema = createInsertSchema(inventoryA
   totalCostImpact: transformNumericField("0.00").optional(),
 });
 
+export const insertStockCountSessionSchema = createInsertSchema(stockCountSessions).omit({
+  id: true,
+  sessionNumber: true,
+  status: true,
+  adjustmentId: true,
+  startedAt: true,
+  submittedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// A scan or manual entry; "add" accumulates barcode scans, "set" overwrites with a typed total
+export const stockCountScanSchema = z.object({
+  code: z.string().trim().min(1).optional(), // barcode or SKU from the scanner
+  productId: z.string().min(1).optional(),
+  quantity: transformIntegerField(1),
+  mode: z.enum(["add", "set"]).default("add"),
+}).refine((scan) => scan.code || scan.productId, {
+  message: "Barcode atau produk wajib diisi",
+});
+
 export const insertServiceTicketPartSchema = createInsertSchema(serviceTicketParts).omit({
   id: true,
   createdAt: true,
+  reservedQuantity: true,
+  reservedBatches: true,
 }).extend({
   quantity: transformIntegerField(1),
   unitPrice: transformNumericField("0.00"),
   totalPrice: transformNumericField("0.00"),
 });
 
+export const serviceStatusNoteSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+  photos: z.array(z.string().min(1)).max(10).default([]),
+  customerVisible: z.boolean().default(true),
+}).refine((entry) => entry.note || entry.photos.length > 0, {
+  message: "Catatan atau foto wajib diisi",
+});
+
+export const createServiceQuoteSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+    unitPrice: transformNumericField("0"),
+  })).default([]),
+  laborCost: transformNumericField("0"),
+  notes: z.string().trim().max(2000).optional(),
+  validDays: z.number().int().min(1).max(90).default(7),
+}).refine((quote) => quote.items.length > 0 || Number(quote.laborCost) > 0, {
+  message: "Penawaran harus berisi sparepart atau biaya jasa",
+});
+
+export const serviceQuoteResponseSchema = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const createServicePartRequestSchema = z.object({
+  productId: z.string().min(1).optional(),
+  description: z.string().trim().max(500).optional(),
+  quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+  supplierId: z.string().min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+}).refine((request) => request.productId || request.description, {
+  message: "Pilih produk atau tulis nama sparepart",
+});
+
+export const createSupplierRmaSchema = z.object({
+  stockMovementId: z.string().min(1),
+  quantity: transformIntegerField(1).pipe(z.number().int().min(1)),
+  supplierId: z.string().min(1).optional(),
+  serialNumbers: z.array(z.string().trim().min(1)).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const shipSupplierRmaSchema = z.object({
+  trackingNumber: z.string().trim().max(100).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const resolveSupplierRmaSchema = z.object({
+  outcome: z.enum(['repaired', 'replaced', 'credited', 'rejected']),
+  // Serials of the replacement units, required when a serial tracked product is replaced
+  serialNumbers: z.array(z.string().trim().min(1)).optional(),
+  creditAmount: z.coerce.number().positive().optional(),
+  locationId: z.string().min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+});
+
 export const insertWarrantyClaimSchema = createInsertSchema(warrantyClaims).omit({
   id: true,
   claimNumber: true,
@@ -1114,6 +1879,49 @@ export const insertJournalEntryLineSchema = createInsertSchema(journalEntryLines
   creditAmount: transformNumericField("0.00"),
 });
 
+export const manualJournalEntrySchema = z.object({
+  date: z.coerce.date().optional(),
+  description: z.string().trim().min(1, "Keterangan jurnal wajib diisi"),
+  reference: z.string().trim().max(100).optional(),
+  lines: z.array(z.object({
+    accountCode: z.string().trim().min(1),
+    description: z.string().trim().optional(),
+    debitAmount: z.coerce.number().min(0).default(0),
+    creditAmount: z.coerce.number().min(0).default(0),
+  })).min(2, "Jurnal minimal memiliki dua baris"),
+});
+
+export const reverseJournalEntrySchema = z.object({
+  reason: z.string().trim().min(1, "Alasan koreksi wajib diisi").max(500),
+  date: z.coerce.date().optional(),
+});
+
+export const rejectJournalEntrySchema = z.object({
+  reason: z.string().trim().min(1, "Alasan penolakan wajib diisi").max(500),
+});
+
+export const bankStatementImportSchema = z.object({
+  accountCode: z.string().trim().min(1).default("1112"),
+  openingBalance: z.coerce.number().optional(),
+  closingBalance: z.coerce.number().optional(),
+});
+
+export const bankAutoMatchSchema = z.object({
+  dateWindowDays: z.coerce.number().int().min(0).max(31).default(3),
+});
+
+export const bankStatementMatchSchema = z.object({
+  matches: z.array(z.object({
+    journalEntryLineId: z.string().min(1),
+    amount: z.coerce.number().refine(value => value !== 0, "Jumlah tidak boleh nol"),
+  })).min(1, "Pilih minimal satu baris jurnal"),
+});
+
+export const postBankStatementLineSchema = z.object({
+  accountCode: z.string().trim().min(1, "Akun lawan wajib dipilih"),
+  description: z.string().trim().max(500).optional(),
+});
+
 export const insertAccountSchema2 = createInsertSchema(accounts).omit({
   id: true,
   balance: true,
@@ -1173,14 +1981,39 @@ export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransactionItem = z.infer<typeof insertTransactionItemSchema>;
 export type TransactionItem = typeof transactionItems.$inferSelect;
+export type TransactionPayment = typeof transactionPayments.$inferSelect;
+export type TransactionPaymentInput = z.infer<typeof transactionPaymentInputSchema>;
+export type InstallmentPlan = typeof installmentPlans.$inferSelect;
+export type InstallmentPlanInput = z.infer<typeof installmentPlanInputSchema>;
+export type SalesReturnInput = z.infer<typeof salesReturnInputSchema>;
+export type CashierShift = typeof cashierShifts.$inferSelect;
+export type OpenCashierShift = z.infer<typeof openCashierShiftSchema>;
+export type CloseCashierShift = z.infer<typeof closeCashierShiftSchema>;
+export type ShiftCashMovement = typeof shiftCashMovements.$inferSelect;
+export type InsertShiftCashMovement = z.infer<typeof insertShiftCashMovementSchema>;
+export type ParkedCart = typeof parkedCarts.$inferSelect;
+export type ParkCartInput = z.infer<typeof parkCartSchema>;
+export type InstallmentSchedule = typeof installmentSchedules.$inferSelect;
+export type InstallmentPayment = typeof installmentPayments.$inferSelect;
+export type InsertInstallmentPayment = z.infer<typeof insertInstallmentPaymentSchema>;
 export type InsertServiceTicket = z.infer<typeof insertServiceTicketSchema>;
 export type ServiceTicket = typeof serviceTickets.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 export type StockMovement = typeof stockMovements.$inferSelect;
 export type InsertServiceTicketPart = z.infer<typeof insertServiceTicketPartSchema>;
 export type ServiceTicketPart = typeof serviceTicketParts.$inferSelect;
+export type ServiceStatusHistory = typeof serviceStatusHistory.$inferSelect;
+export type InsertServiceStatusHistory = typeof serviceStatusHistory.$inferInsert;
+export type ServiceStatusNote = z.infer<typeof serviceStatusNoteSchema>;
+export type ServiceQuote = typeof serviceQuotes.$inferSelect;
+export type CreateServiceQuoteInput = z.infer<typeof createServiceQuoteSchema>;
+export type ServicePartRequest = typeof servicePartRequests.$inferSelect;
+export type CreateServicePartRequestInput = z.infer<typeof createServicePartRequestSchema>;
+export type ServiceIntakeChecklist = z.infer<typeof serviceIntakeChecklistSchema>;
+export type ServiceHandoverCheck = z.infer<typeof serviceHandoverCheckSchema>;
 export type InsertWarrantyClaim = z.infer<typeof insertWarrantyClaimSchema>;
 export type WarrantyClaim = typeof warrantyClaims.$inferSelect;
+export type WarrantyCertificate = typeof warrantyCertificates.$inferSelect;
 export type InsertFinancialRecord = z.infer<typeof insertFinancialRecordSchema>;
 export type FinancialRecord = typeof financialRecords.$inferSelect;
 export type InsertAccount = z.infer<typeof insertAccountSchema>;
@@ -1195,20 +2028,45 @@ export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type InsertJournalEntryLine = z.infer<typeof insertJournalEntryLineSchema>;
 export type JournalEntryLine = typeof journalEntryLines.$inferSelect;
+export type ManualJournalEntryInput = z.infer<typeof manualJournalEntrySchema>;
+export type FiscalPeriod = typeof fiscalPeriods.$inferSelect;
+export type BankStatement = typeof bankStatements.$inferSelect;
+export type BankStatementLine = typeof bankStatementLines.$inferSelect;
+export type BankReconciliationMatch = typeof bankReconciliationMatches.$inferSelect;
+export type BankStatementMatchInput = z.infer<typeof bankStatementMatchSchema>;
 export type InsertAccount2 = z.infer<typeof insertAccountSchema2>;
 export type InsertRole = z.infer<typeof insertRoleSchema>;
 export type Role = typeof roles.$inferSelect;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = typeof auditLogs.$inferInsert;
 
 // New inventory system types
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Location = typeof locations.$inferSelect;
+export type ProductLocationStock = typeof productLocationStocks.$inferSelect;
+export type InsertStockTransfer = z.infer<typeof insertStockTransferSchema>;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type InsertStockTransferItem = z.infer<typeof insertStockTransferItemSchema>;
+export type StockTransferItem = typeof stockTransferItems.$inferSelect;
 export type InsertProductBatch = z.infer<typeof insertProductBatchSchema>;
 export type ProductBatch = typeof productBatches.$inferSelect;
+export type InsertProductSerial = z.infer<typeof insertProductSerialSchema>;
+export type ProductSerial = typeof productSerials.$inferSelect;
 export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
 export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
 export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
 export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type SupplierBill = typeof supplierBills.$inferSelect;
+export type SupplierPayment = typeof supplierPayments.$inferSelect;
+export type SupplierRma = typeof supplierRmas.$inferSelect;
+export type CreateSupplierRmaInput = z.infer<typeof createSupplierRmaSchema>;
+export type ResolveSupplierRmaInput = z.infer<typeof resolveSupplierRmaSchema>;
+export type InsertSupplierPayment = z.infer<typeof insertSupplierPaymentSchema>;
 export type InsertInventoryAdjustment = z.infer<typeof insertInventoryAdjustmentSchema>;
 export type InventoryAdjustment = typeof inventoryAdjustments.$inferSelect;
 export type InsertInventoryAdjustmentItem = z.infer<typeof insertInventoryAdjustmentItemSchema>;
 export type InventoryAdjustmentItem = typeof inventoryAdjustmentItems.$inferSelect;
+export type InsertStockCountSession = z.infer<typeof insertStockCountSessionSchema>;
+export type StockCountSession = typeof stockCountSessions.$inferSelect;
+export type StockCountItem = typeof stockCountItems.$inferSelect;
+export type StockCountScan = z.infer<typeof stockCountScanSchema>;
@@ -0,0 +1,68 @@
+export const DEFAULT_INTAKE_ACCESSORIES = [
+  'Charger / Adaptor',
+  'Kabel Power',
+  'Baterai',
+  'Tas / Case',
+  'Mouse',
+  'Kartu SIM',
+  'Kartu Memori',
+  'Dus',
+] as const;
+
+export const DEVICE_CONDITION_AREAS = [
+  'Layar',
+  'Casing / Body',
+  'Keyboard',
+  'Touchpad',
+  'Engsel',
+  'Port & Konektor',
+] as const;
+
+export const DEVICE_CONDITION_VALUES = ['good', 'scratched', 'dented', 'cracked', 'broken'] as const;
+export type DeviceCondition = typeof DEVICE_CONDITION_VALUES[number];
+
+export const DEVICE_CONDITION_LABELS: Record<DeviceCondition, string> = {
+  good: 'Baik',
+  scratched: 'Lecet',
+  dented: 'Penyok',
+  cracked: 'Retak',
+  broken: 'Rusak',
+};
+
+export const POWER_ON_VALUES = ['normal', 'no-display', 'no-power', 'not-tested'] as const;
+export type PowerOnResult = typeof POWER_ON_VALUES[number];
+
+export const POWER_ON_LABELS: Record<PowerOnResult, string> = {
+  normal: 'Menyala normal',
+  'no-display': 'Menyala tanpa tampilan',
+  'no-power': 'Tidak menyala',
+  'not-tested': 'Tidak dites',
+};
+
+export const BACKUP_CONSENT_VALUES = ['customer-backed-up', 'store-backup', 'no-backup'] as const;
+export type BackupConsent = typeof BACKUP_CONSENT_VALUES[number];
+
+export const BACKUP_CONSENT_LABELS: Record<BackupConsent, string> = {
+  'customer-backed-up': 'Data sudah di-backup pelanggan',
+  'store-backup': 'Minta backup oleh toko',
+  'no-backup': 'Tanpa backup, risiko kehilangan data ditanggung pelanggan',
+};
+
+/**
+ * Accessories that were handed in at intake but not ticked as returned at
+ * handover. Matching is by name, case-insensitive.
+ */
+export function findMissingAccessories(
+  intake: { accessories: { name: string; present: boolean }[] } | null | undefined,
+  handover: { accessories: { name: string; returned: boolean }[] },
+): string[] {
+  const returned = new Set(
+    handover.accessories
+      .filter(item => item.returned)
+      .map(item => item.name.trim().toLowerCase())
+  );
+
+  return (intake?.accessories ?? [])
+    .filter(item => item.present && !returned.has(item.name.trim().toLowerCase()))
+    .map(item => item.name);
+}
@@ -45,6 +45,13 @@ export const SERVICE_STATUS_LABELS: Record<ServiceStatus, string> = {
 
 export const FINAL_SERVICE_STATUSES: ServiceStatus[] = ['completed', 'delivered', 'cancelled'];
 
+// Statuses whose dwell time is limited by the store's SLA settings (hours)
+export const SLA_STATUS_SETTINGS: Partial<Record<ServiceStatus, 'slaCheckingHours' | 'slaWaitingPartsHours'>> = {
+  pending: 'slaCheckingHours',
+  checking: 'slaCheckingHours',
+  'waiting-parts': 'slaWaitingPartsHours',
+};
+
 export function normalizeServiceStatus(value: string | null | undefined): ServiceStatus | undefined {
   if (!value) {
     return undefined;
@@ -0,0 +1,111 @@
+export const DEFAULT_TAX_RATE = 11;
+
+export type TaxableLine = {
+  amount: number; // line value after item discounts
+  taxInclusive?: boolean | null;
+  taxExempt?: boolean | null;
+};
+
+export type LineTax = {
+  taxableAmount: number; // DPP; for exempt lines the exempt sales value
+  taxAmount: number;
+  inclusive: boolean;
+  exempt: boolean;
+};
+
+// PPN is charged in whole rupiah
+const roundTax = (value: number) => Math.round(value);
+const roundAmount = (value: number) => Number(value.toFixed(2));
+
+export function resolveTaxRate(rate: unknown) {
+  const parsed = Number(rate ?? DEFAULT_TAX_RATE);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_TAX_RATE;
+}
+
+// PPN contained in a price that already includes it
+export function extractInclusiveTax(amount: number, ratePercent: number) {
+  return ratePercent > 0 ? roundTax((amount * ratePercent) / (100 + ratePercent)) : 0;
+}
+
+// Spreads the order discount over the lines by value, then prices PPN per line:
+// exclusive lines get it on top, inclusive lines already contain it, exempt lines carry none
+export function calculateLineTaxes(lines: TaxableLine[], ratePercent: number, orderDiscount = 0): LineTax[] {
+  const gross = lines.reduce((sum, line) => sum + Number(line.amount || 0), 0);
+  let discountLeft = Math.min(Math.max(orderDiscount, 0), gross);
+
+  return lines.map((line, index) => {
+    const amount = Number(line.amount || 0);
+    const share = index === lines.length - 1
+      ? discountLeft
+      : gross > 0 ? roundAmount((Math.min(Math.max(orderDiscount, 0), gross) * amount) / gross) : 0;
+    discountLeft = roundAmount(discountLeft - share);
+    const net = roundAmount(amount - share);
+
+    if (line.taxExempt || ratePercent <= 0) {
+      return { taxableAmount: net, taxAmount: 0, inclusive: Boolean(line.taxInclusive), exempt: Boolean(line.taxExempt) };
+    }
+    if (line.taxInclusive) {
+      const taxAmount = extractInclusiveTax(net, ratePercent);
+      return { taxableAmount: roundAmount(net - taxAmount), taxAmount, inclusive: true, exempt: false };
+    }
+    return { taxableAmount: net, taxAmount: roundTax((net * ratePercent) / 100), inclusive: false, exempt: false };
+  });
+}
+
+export function summarizeLineTaxes(lines: LineTax[]) {
+  return lines.reduce(
+    (summary, line) => {
+      if (line.exempt) {
+        summary.exemptAmount = roundAmount(summary.exemptAmount + line.taxableAmount);
+      } else {
+        summary.taxableAmount = roundAmount(summary.taxableAmount + line.taxableAmount);
+      }
+      summary.taxAmount += line.taxAmount;
+      // Only exclusive PPN raises what the customer pays
+      if (!line.inclusive) summary.addedTax += line.taxAmount;
+      return summary;
+    },
+    { taxableAmount: 0, exemptAmount: 0, taxAmount: 0, addedTax: 0 },
+  );
+}
+
+export type ServiceTax = {
+  laborRevenue: number; // labor net of PPN
+  partsRevenue: number; // parts net of PPN, exempt parts included
+  taxableAmount: number; // DPP of the labor and taxable parts
+  taxAmount: number;
+  inclusive: boolean;
+  total: number; // what the customer pays, PPN included
+};
+
+// Service labor and parts follow the store's service price mode rather than the product flags;
+// PPN-exempt parts stay exempt either way
+export function calculateServiceTax(input: {
+  laborCost: number;
+  partsRevenue: number;
+  exemptPartsRevenue?: number;
+  ratePercent: number;
+  inclusive: boolean;
+}): ServiceTax {
+  const laborCost = Number(input.laborCost || 0);
+  const partsRevenue = Number(input.partsRevenue || 0);
+  const exempt = Math.min(Math.max(Number(input.exemptPartsRevenue || 0), 0), partsRevenue);
+  const [labor, parts, exemptParts] = calculateLineTaxes(
+    [
+      { amount: laborCost, taxInclusive: input.inclusive },
+      { amount: partsRevenue - exempt, taxInclusive: input.inclusive },
+      { amount: exempt, taxExempt: true },
+    ],
+    input.ratePercent,
+  );
+  const summary = summarizeLineTaxes([labor, parts, exemptParts]);
+
+  return {
+    laborRevenue: labor.taxableAmount,
+    partsRevenue: roundAmount(parts.taxableAmount + exemptParts.taxableAmount),
+    taxableAmount: summary.taxableAmount,
+    taxAmount: summary.taxAmount,
+    inclusive: input.inclusive,
+    total: roundAmount(laborCost + partsRevenue + summary.addedTax),
+  };
+}